@@ -6,15 +6,27 @@ import { requestLogger } from './middleware/logger.middleware';
 import { rateLimit } from './middleware/rate-limit.middleware';
 import { requestId } from './middleware/request-id.middleware';
 import { securityHeaders } from './middleware/security-headers.middleware';
+import appPasswordsRouter from './routes/app-passwords.routes';
+import appointmentTypesRouter from './routes/appointment-types.routes';
 import auth from './routes/auth.routes';
+import bookingRouter from './routes/booking.routes';
+import caldavRouter from './routes/caldav.routes';
 import categoriesRouter from './routes/categories.routes';
 import eventsRouter from './routes/events.routes';
+import feedsRouter from './routes/feeds.routes';
+import freeBusyRouter from './routes/freebusy.routes';
 import health from './routes/health.routes';
+import importRouter from './routes/import.routes';
 import pushSubscriptionsRouter from './routes/push-subscriptions.routes';
 import remindersRouter from './routes/reminders.routes';
+import rsvpRouter from './routes/rsvp.routes';
 import searchRouter from './routes/search.routes';
 import streamRouter from './routes/stream.routes';
+import tagsRouter from './routes/tags.routes';
+import taskListsRouter from './routes/task-lists.routes';
 import tasksRouter from './routes/tasks.routes';
+import timeEntriesRouter from './routes/time-entries.routes';
+import trashRouter from './routes/trash.routes';
 
 import type { AppVariables } from './types/hono';
 
@@ -52,6 +64,21 @@ app.route('/tasks', tasksRouter);
 // Category routes (auth required, handled per-route in categories.routes.ts)
 app.route('/categories', categoriesRouter);
 
+// Tag routes (auth required, handled per-route in tags.routes.ts)
+app.route('/tags', tagsRouter);
+
+// Task list routes (auth required, handled per-route in task-lists.routes.ts)
+app.route('/task-lists', taskListsRouter);
+
+// Trash routes (auth required, handled per-route in trash.routes.ts)
+app.route('/trash', trashRouter);
+
+// Time tracking routes (auth required, rate limited)
+app.route('/time-entries', timeEntriesRouter);
+
+// Free/busy routes (auth required, rate limited at 30/min per user)
+app.route('/freebusy', freeBusyRouter);
+
 // Reminder routes (auth required, rate limited at 30/min per user)
 app.route('/reminders', remindersRouter);
 
@@ -61,5 +88,27 @@ app.route('/search', searchRouter);
 // Push subscription routes (auth required, rate limited)
 app.route('/push-subscriptions', pushSubscriptionsRouter);
 
+// Calendar feed routes (management requires auth; the .ics endpoint is token-authenticated)
+app.route('/feeds', feedsRouter);
+
+// Calendar import routes (auth required, rate limited)
+app.route('/import', importRouter);
+
+// RSVP routes (public, authenticated by the token in the invitation link)
+app.route('/rsvp', rsvpRouter);
+
+// Appointment type routes (auth required, rate limited)
+app.route('/appointment-types', appointmentTypesRouter);
+
+// Booking page routes (public, rate limited; bookings are changed with the token in the confirmation link)
+app.route('/booking', bookingRouter);
+
+// App password routes (auth required, rate limited)
+app.route('/app-passwords', appPasswordsRouter);
+
+// CalDAV server (HTTP Basic auth with app passwords, rate limited)
+app.all('/.well-known/caldav', (c) => c.redirect('/caldav/', 301));
+app.route('/caldav', caldavRouter);
+
 // SSE stream route (auth required, rate limited)
 app.route('/stream', streamRouter);
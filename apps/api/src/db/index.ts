@@ -26,6 +26,9 @@ const client = postgres(databaseUrl, {
 
 export const db = drizzle(client, { schema });
 
+/** A transaction handle, as passed to `db.transaction` callbacks */
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export { client };
 
 /**
@@ -13,6 +13,8 @@ import {
   varchar,
 } from 'drizzle-orm/pg-core';
 
+import type { HolidayCalendar, TaskListFilters, WorkingHours } from '@calley/shared';
+
 // ─── Helpers ──────────────────────────────────────────────────────────
 
 const cuid2 = (name: string) =>
@@ -41,6 +43,16 @@ export const users = pgTable(
     timezone: varchar('timezone', { length: 100 }).notNull().default('UTC'),
     weekStart: integer('week_start').notNull().default(0), // 0 = Sunday, 1 = Monday
     timeFormat: varchar('time_format', { length: 3 }).notNull().default('12h'),
+    // Null until the user sets their own; DEFAULT_WORKING_HOURS applies
+    workingHours: jsonb('working_hours').$type<WorkingHours>(),
+    // Refuse to start or finish tasks that still have open blockers
+    enforceTaskDependencies: boolean('enforce_task_dependencies').notNull().default(false),
+    // Built-in holiday calendars shown on the user's calendar
+    holidayCalendars: varchar('holiday_calendars', { length: 2 })
+      .array()
+      .$type<HolidayCalendar[]>()
+      .notNull()
+      .default([]),
     lockedUntil: timestamp('locked_until', { withTimezone: true }),
     failedLogins: integer('failed_logins').notNull().default(0),
     ...timestamps,
@@ -132,6 +144,31 @@ export const calendarCategories = pgTable(
   (table) => [index('idx_categories_user').on(table.userId)],
 );
 
+// ─── Calendar Shares ─────────────────────────────────────────────────
+
+export const calendarShares = pgTable(
+  'calendar_shares',
+  {
+    id: cuid2('id').primaryKey(),
+    categoryId: varchar('category_id', { length: 128 })
+      .notNull()
+      .references(() => calendarCategories.id, { onDelete: 'cascade' }),
+    // Owner of the category (denormalized for ownership checks)
+    ownerId: varchar('owner_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    memberId: varchar('member_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    permission: varchar('permission', { length: 20 }).notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex('idx_calendar_shares_category_member').on(table.categoryId, table.memberId),
+    index('idx_calendar_shares_member').on(table.memberId),
+  ],
+);
+
 // ─── Events ──────────────────────────────────────────────────────────
 
 export const events = pgTable(
@@ -149,18 +186,43 @@ export const events = pgTable(
     location: varchar('location', { length: 500 }),
     startAt: timestamp('start_at', { withTimezone: true }).notNull(),
     endAt: timestamp('end_at', { withTimezone: true }).notNull(),
+    // IANA timezone the wall-clock start (and recurrence) is defined in;
+    // null for all-day events and events pinned to UTC
+    timezone: varchar('timezone', { length: 100 }),
+    // Set only when the end is in a different timezone than the start
+    endTimezone: varchar('end_timezone', { length: 100 }),
     isAllDay: boolean('is_all_day').notNull().default(false),
     color: varchar('color', { length: 7 }),
     visibility: varchar('visibility', { length: 10 }).notNull().default('private'),
 
+    // iCalendar UID preserved from imports (null for events created in Calley)
+    icalUid: varchar('ical_uid', { length: 255 }),
+    // iTIP SEQUENCE — bumped each time attendees are sent an updated invitation
+    sequence: integer('sequence').notNull().default(0),
+
     // Recurrence (parent event)
     rrule: text('rrule'),
     exDates: timestamp('ex_dates', { withTimezone: true, mode: 'date' }).array().default([]),
+    // Extra occurrences outside the rule (RDATE)
+    rDates: timestamp('r_dates', { withTimezone: true, mode: 'date' }).array().default([]),
+    // Holiday calendar whose holidays the series skips
+    skipHolidays: varchar('skip_holidays', { length: 2 }).$type<HolidayCalendar>(),
+
+    // Lineage of a series split by "this and following" edits: the first
+    // segment's ID, shared by every segment (null until it's first split)
+    seriesId: varchar('series_id', { length: 128 }),
 
     // Recurrence (exception instance)
     recurringEventId: varchar('recurring_event_id', { length: 128 }),
     originalDate: timestamp('original_date', { withTimezone: true }),
 
+    // Focus block: the task this time was blocked out for, and when that
+    // task was completed (mirrored here so the block renders as done)
+    taskId: varchar('task_id', { length: 128 }).references(() => tasks.id, {
+      onDelete: 'set null',
+    }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+
     ...timestamps,
     deletedAt: timestamp('deleted_at', { withTimezone: true }),
   },
@@ -178,9 +240,21 @@ export const events = pgTable(
     index('idx_events_user_category')
       .on(table.userId, table.categoryId)
       .where(sql`${table.deletedAt} IS NULL`),
+    index('idx_events_user_deleted')
+      .on(table.userId, table.deletedAt)
+      .where(sql`${table.deletedAt} IS NOT NULL`),
     index('idx_events_recurring_parent')
       .on(table.recurringEventId)
       .where(sql`${table.recurringEventId} IS NOT NULL`),
+    index('idx_events_series')
+      .on(table.seriesId)
+      .where(sql`${table.seriesId} IS NOT NULL`),
+    index('idx_events_ical_uid')
+      .on(table.userId, table.icalUid)
+      .where(sql`${table.icalUid} IS NOT NULL`),
+    index('idx_events_task')
+      .on(table.taskId)
+      .where(sql`${table.taskId} IS NOT NULL AND ${table.deletedAt} IS NULL`),
     index('idx_events_search').using(
       'gin',
       sql`to_tsvector('english', ${table.title} || ' ' || COALESCE(${table.description}, ''))`,
@@ -214,6 +288,103 @@ export const eventExceptions = pgTable(
   ],
 );
 
+// ─── Event Attendees (invitees and their RSVP status) ───────────────
+
+export const eventAttendees = pgTable(
+  'event_attendees',
+  {
+    id: cuid2('id').primaryKey(),
+    eventId: varchar('event_id', { length: 128 })
+      .notNull()
+      .references(() => events.id, { onDelete: 'cascade' }),
+    // Organizer (owner of the event)
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    email: varchar('email', { length: 255 }).notNull(),
+    name: varchar('name', { length: 200 }),
+    role: varchar('role', { length: 20 }).notNull().default('required'),
+    status: varchar('status', { length: 20 }).notNull().default('needs_action'),
+    // Hash of the token in the attendee's most recent invitation link
+    rsvpTokenHash: varchar('rsvp_token_hash', { length: 255 }).notNull(),
+    respondedAt: timestamp('responded_at', { withTimezone: true }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex('idx_event_attendees_event_email').on(table.eventId, table.email),
+    uniqueIndex('idx_event_attendees_token').on(table.rsvpTokenHash),
+    index('idx_event_attendees_user').on(table.userId),
+  ],
+);
+
+// ─── Appointment Types (public booking pages) ───────────────────────
+
+export const appointmentTypes = pgTable(
+  'appointment_types',
+  {
+    id: cuid2('id').primaryKey(),
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    // Calendar that bookings are added to
+    categoryId: varchar('category_id', { length: 128 })
+      .notNull()
+      .references(() => calendarCategories.id, { onDelete: 'restrict' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    slug: varchar('slug', { length: 60 }).notNull(),
+    description: text('description'),
+    location: varchar('location', { length: 500 }),
+    durationMinutes: integer('duration_minutes').notNull(),
+    bufferMinutes: integer('buffer_minutes').notNull().default(0),
+    minNoticeMinutes: integer('min_notice_minutes').notNull().default(60),
+    maxPerDay: integer('max_per_day'),
+    // Null = the host's working hours
+    availability: jsonb('availability').$type<WorkingHours>(),
+    isActive: boolean('is_active').notNull().default(true),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex('idx_appointment_types_slug').on(table.slug),
+    index('idx_appointment_types_user').on(table.userId),
+  ],
+);
+
+// ─── Bookings (appointments made from a booking page) ───────────────
+
+export const bookings = pgTable(
+  'bookings',
+  {
+    id: cuid2('id').primaryKey(),
+    appointmentTypeId: varchar('appointment_type_id', { length: 128 })
+      .notNull()
+      .references(() => appointmentTypes.id, { onDelete: 'cascade' }),
+    // Host (owner of the appointment type)
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    // The event on the host's calendar
+    eventId: varchar('event_id', { length: 128 }).references(() => events.id, {
+      onDelete: 'set null',
+    }),
+    guestName: varchar('guest_name', { length: 200 }).notNull(),
+    guestEmail: varchar('guest_email', { length: 254 }).notNull(),
+    guestTimezone: varchar('guest_timezone', { length: 100 }),
+    notes: text('notes'),
+    startAt: timestamp('start_at', { withTimezone: true }).notNull(),
+    endAt: timestamp('end_at', { withTimezone: true }).notNull(),
+    status: varchar('status', { length: 20 }).notNull().default('confirmed'),
+    // Hash of the token in the guest's cancel/reschedule link
+    tokenHash: varchar('token_hash', { length: 255 }).notNull(),
+    cancelledAt: timestamp('cancelled_at', { withTimezone: true }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex('idx_bookings_token').on(table.tokenHash),
+    index('idx_bookings_type_start').on(table.appointmentTypeId, table.startAt),
+    index('idx_bookings_user').on(table.userId),
+  ],
+);
+
 // ─── Tasks ───────────────────────────────────────────────────────────
 
 export const tasks = pgTable(
@@ -232,12 +403,28 @@ export const tasks = pgTable(
     priority: varchar('priority', { length: 10 }).notNull().default('none'),
     status: varchar('status', { length: 15 }).notNull().default('todo'),
     completedAt: timestamp('completed_at', { withTimezone: true }),
+    estimatedMinutes: integer('estimated_minutes'),
 
     // Recurrence
     rrule: text('rrule'),
     exDates: timestamp('ex_dates', { withTimezone: true, mode: 'date' }).array().default([]),
     recurringTaskId: varchar('recurring_task_id', { length: 128 }),
     originalDate: timestamp('original_date', { withTimezone: true }),
+    // Completion-based repeat (e.g. FREQ=DAILY;INTERVAL=3), used instead of rrule:
+    // completing the task moves its due date forward from the completion time
+    repeatAfter: text('repeat_after'),
+
+    // Subtasks
+    parentTaskId: varchar('parent_task_id', { length: 128 }),
+
+    // Start of the task's focus block (see events.taskId)
+    scheduledAt: timestamp('scheduled_at', { withTimezone: true }),
+
+    // Set when a done task is archived out of the task lists
+    archivedAt: timestamp('archived_at', { withTimezone: true }),
+
+    // iCalendar UID preserved from imports (null for tasks created in Calley)
+    icalUid: varchar('ical_uid', { length: 255 }),
 
     sortOrder: integer('sort_order').notNull().default(0),
     ...timestamps,
@@ -250,6 +437,12 @@ export const tasks = pgTable(
       foreignColumns: [table.id],
     }).onDelete('cascade'),
 
+    // Self-referential FK for subtasks
+    foreignKey({
+      columns: [table.parentTaskId],
+      foreignColumns: [table.id],
+    }).onDelete('cascade'),
+
     // Indexes
     index('idx_tasks_user_due')
       .on(table.userId, table.dueAt)
@@ -257,9 +450,21 @@ export const tasks = pgTable(
     index('idx_tasks_user_status')
       .on(table.userId, table.status)
       .where(sql`${table.deletedAt} IS NULL`),
+    index('idx_tasks_user_completed')
+      .on(table.userId, table.completedAt)
+      .where(sql`${table.completedAt} IS NOT NULL AND ${table.deletedAt} IS NULL`),
+    index('idx_tasks_user_deleted')
+      .on(table.userId, table.deletedAt)
+      .where(sql`${table.deletedAt} IS NOT NULL`),
     index('idx_tasks_recurring_parent')
       .on(table.recurringTaskId)
       .where(sql`${table.recurringTaskId} IS NOT NULL`),
+    index('idx_tasks_parent')
+      .on(table.parentTaskId, table.sortOrder)
+      .where(sql`${table.parentTaskId} IS NOT NULL AND ${table.deletedAt} IS NULL`),
+    index('idx_tasks_ical_uid')
+      .on(table.userId, table.icalUid)
+      .where(sql`${table.icalUid} IS NOT NULL`),
     index('idx_tasks_search').using(
       'gin',
       sql`to_tsvector('english', ${table.title} || ' ' || COALESCE(${table.description}, ''))`,
@@ -267,6 +472,79 @@ export const tasks = pgTable(
   ],
 );
 
+// ─── Time Entries (time tracked against tasks) ──────────────────────
+
+export const timeEntries = pgTable(
+  'time_entries',
+  {
+    id: cuid2('id').primaryKey(),
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    taskId: varchar('task_id', { length: 128 })
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
+    // NULL while the timer is running
+    endedAt: timestamp('ended_at', { withTimezone: true }),
+    ...timestamps,
+  },
+  (table) => [
+    index('idx_time_entries_user_started').on(table.userId, table.startedAt),
+    index('idx_time_entries_task').on(table.taskId, table.startedAt),
+    // A user runs at most one timer at a time
+    uniqueIndex('idx_time_entries_running')
+      .on(table.userId)
+      .where(sql`${table.endedAt} IS NULL`),
+  ],
+);
+
+// ─── Task Completions (history of tasks that repeat after completion) ──
+
+export const taskCompletions = pgTable(
+  'task_completions',
+  {
+    id: cuid2('id').primaryKey(),
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    taskId: varchar('task_id', { length: 128 })
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    completedAt: timestamp('completed_at', { withTimezone: true }).notNull(),
+    // Due date of the round that was completed
+    dueAt: timestamp('due_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index('idx_task_completions_task').on(table.taskId, table.completedAt)],
+);
+
+// ─── Task Dependencies (tasks blocked by other tasks) ────────────────
+
+export const taskDependencies = pgTable(
+  'task_dependencies',
+  {
+    id: cuid2('id').primaryKey(),
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    // The task that waits
+    taskId: varchar('task_id', { length: 128 })
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    // The task it waits on
+    blockedByTaskId: varchar('blocked_by_task_id', { length: 128 })
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('idx_task_dependencies_pair').on(table.taskId, table.blockedByTaskId),
+    index('idx_task_dependencies_user').on(table.userId),
+    index('idx_task_dependencies_blocker').on(table.blockedByTaskId),
+  ],
+);
+
 // ─── Reminders ───────────────────────────────────────────────────────
 
 export const reminders = pgTable(
@@ -292,6 +570,61 @@ export const reminders = pgTable(
   ],
 );
 
+// ─── Tags ────────────────────────────────────────────────────────────
+
+export const tags = pgTable(
+  'tags',
+  {
+    id: cuid2('id').primaryKey(),
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 50 }).notNull(),
+    color: varchar('color', { length: 7 }).notNull(),
+    ...timestamps,
+  },
+  (table) => [uniqueIndex('idx_tags_user_name').on(table.userId, table.name)],
+);
+
+// ─── Item Tags (tags on events and tasks) ────────────────────────────
+
+export const itemTags = pgTable(
+  'item_tags',
+  {
+    id: cuid2('id').primaryKey(),
+    tagId: varchar('tag_id', { length: 128 })
+      .notNull()
+      .references(() => tags.id, { onDelete: 'cascade' }),
+    // Owner of the tag (denormalized for filtering)
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    itemType: varchar('item_type', { length: 10 }).notNull(),
+    itemId: varchar('item_id', { length: 128 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('idx_item_tags_tag_item').on(table.tagId, table.itemType, table.itemId),
+    index('idx_item_tags_item').on(table.itemType, table.itemId),
+  ],
+);
+
+// ─── Task Lists (saved task filters) ─────────────────────────────────
+
+export const taskLists = pgTable(
+  'task_lists',
+  {
+    id: cuid2('id').primaryKey(),
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 50 }).notNull(),
+    filters: jsonb('filters').$type<TaskListFilters>().notNull(),
+    ...timestamps,
+  },
+  (table) => [uniqueIndex('idx_task_lists_user_name').on(table.userId, table.name)],
+);
+
 // ─── User Push Subscriptions ─────────────────────────────────────────
 
 export const userPushSubscriptions = pgTable('user_push_subscriptions', {
@@ -306,6 +639,49 @@ export const userPushSubscriptions = pgTable('user_push_subscriptions', {
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// ─── Calendar Feeds (ICS subscription URLs) ─────────────────────────
+
+export const calendarFeeds = pgTable(
+  'calendar_feeds',
+  {
+    id: cuid2('id').primaryKey(),
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    // NULL = feed covers every category the user owns
+    categoryId: varchar('category_id', { length: 128 }).references(() => calendarCategories.id, {
+      onDelete: 'cascade',
+    }),
+    tokenHash: varchar('token_hash', { length: 255 }).notNull(),
+    lastAccessedAt: timestamp('last_accessed_at', { withTimezone: true }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex('idx_calendar_feeds_token').on(table.tokenHash),
+    index('idx_calendar_feeds_user').on(table.userId),
+  ],
+);
+
+// ─── App Passwords (CalDAV Basic auth) ──────────────────────────────
+
+export const appPasswords = pgTable(
+  'app_passwords',
+  {
+    id: cuid2('id').primaryKey(),
+    userId: varchar('user_id', { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    tokenHash: varchar('token_hash', { length: 255 }).notNull(),
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex('idx_app_passwords_token').on(table.tokenHash),
+    index('idx_app_passwords_user').on(table.userId),
+  ],
+);
+
 // ─── Audit Logs ──────────────────────────────────────────────────────
 
 export const auditLogs = pgTable(
@@ -336,11 +712,20 @@ export const usersRelations = relations(users, ({ many }) => ({
   sessions: many(sessions),
   passwordResetTokens: many(passwordResetTokens),
   calendarCategories: many(calendarCategories),
+  ownedCalendarShares: many(calendarShares, { relationName: 'calendarShareOwner' }),
+  calendarShares: many(calendarShares, { relationName: 'calendarShareMember' }),
   events: many(events),
   eventExceptions: many(eventExceptions),
+  eventAttendees: many(eventAttendees),
+  appointmentTypes: many(appointmentTypes),
+  bookings: many(bookings),
   tasks: many(tasks),
   reminders: many(reminders),
+  tags: many(tags),
+  taskLists: many(taskLists),
   userPushSubscriptions: many(userPushSubscriptions),
+  calendarFeeds: many(calendarFeeds),
+  appPasswords: many(appPasswords),
   auditLogs: many(auditLogs),
 }));
 
@@ -372,6 +757,25 @@ export const calendarCategoriesRelations = relations(calendarCategories, ({ one,
   }),
   events: many(events),
   tasks: many(tasks),
+  calendarFeeds: many(calendarFeeds),
+  shares: many(calendarShares),
+}));
+
+export const calendarSharesRelations = relations(calendarShares, ({ one }) => ({
+  category: one(calendarCategories, {
+    fields: [calendarShares.categoryId],
+    references: [calendarCategories.id],
+  }),
+  owner: one(users, {
+    fields: [calendarShares.ownerId],
+    references: [users.id],
+    relationName: 'calendarShareOwner',
+  }),
+  member: one(users, {
+    fields: [calendarShares.memberId],
+    references: [users.id],
+    relationName: 'calendarShareMember',
+  }),
 }));
 
 export const eventsRelations = relations(events, ({ one, many }) => ({
@@ -390,6 +794,7 @@ export const eventsRelations = relations(events, ({ one, many }) => ({
   }),
   exceptions: many(events, { relationName: 'eventExceptions' }),
   eventExceptionOverrides: many(eventExceptions),
+  attendees: many(eventAttendees),
   reminders: many(reminders),
 }));
 
@@ -404,6 +809,44 @@ export const eventExceptionsRelations = relations(eventExceptions, ({ one }) =>
   }),
 }));
 
+export const eventAttendeesRelations = relations(eventAttendees, ({ one }) => ({
+  event: one(events, {
+    fields: [eventAttendees.eventId],
+    references: [events.id],
+  }),
+  user: one(users, {
+    fields: [eventAttendees.userId],
+    references: [users.id],
+  }),
+}));
+
+export const appointmentTypesRelations = relations(appointmentTypes, ({ one, many }) => ({
+  user: one(users, {
+    fields: [appointmentTypes.userId],
+    references: [users.id],
+  }),
+  category: one(calendarCategories, {
+    fields: [appointmentTypes.categoryId],
+    references: [calendarCategories.id],
+  }),
+  bookings: many(bookings),
+}));
+
+export const bookingsRelations = relations(bookings, ({ one }) => ({
+  appointmentType: one(appointmentTypes, {
+    fields: [bookings.appointmentTypeId],
+    references: [appointmentTypes.id],
+  }),
+  user: one(users, {
+    fields: [bookings.userId],
+    references: [users.id],
+  }),
+  event: one(events, {
+    fields: [bookings.eventId],
+    references: [events.id],
+  }),
+}));
+
 export const tasksRelations = relations(tasks, ({ one, many }) => ({
   user: one(users, {
     fields: [tasks.userId],
@@ -419,7 +862,52 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     relationName: 'taskExceptions',
   }),
   exceptions: many(tasks, { relationName: 'taskExceptions' }),
+  parent: one(tasks, {
+    fields: [tasks.parentTaskId],
+    references: [tasks.id],
+    relationName: 'subtasks',
+  }),
+  subtasks: many(tasks, { relationName: 'subtasks' }),
   reminders: many(reminders),
+  timeEntries: many(timeEntries),
+  completions: many(taskCompletions),
+  blockedBy: many(taskDependencies, { relationName: 'dependencyTask' }),
+  blocking: many(taskDependencies, { relationName: 'dependencyBlocker' }),
+}));
+
+export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
+  user: one(users, {
+    fields: [timeEntries.userId],
+    references: [users.id],
+  }),
+  task: one(tasks, {
+    fields: [timeEntries.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const taskCompletionsRelations = relations(taskCompletions, ({ one }) => ({
+  user: one(users, {
+    fields: [taskCompletions.userId],
+    references: [users.id],
+  }),
+  task: one(tasks, {
+    fields: [taskCompletions.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const taskDependenciesRelations = relations(taskDependencies, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskDependencies.taskId],
+    references: [tasks.id],
+    relationName: 'dependencyTask',
+  }),
+  blocker: one(tasks, {
+    fields: [taskDependencies.blockedByTaskId],
+    references: [tasks.id],
+    relationName: 'dependencyBlocker',
+  }),
 }));
 
 export const remindersRelations = relations(reminders, ({ one }) => ({
@@ -429,6 +917,28 @@ export const remindersRelations = relations(reminders, ({ one }) => ({
   }),
 }));
 
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  user: one(users, {
+    fields: [tags.userId],
+    references: [users.id],
+  }),
+  items: many(itemTags),
+}));
+
+export const itemTagsRelations = relations(itemTags, ({ one }) => ({
+  tag: one(tags, {
+    fields: [itemTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const taskListsRelations = relations(taskLists, ({ one }) => ({
+  user: one(users, {
+    fields: [taskLists.userId],
+    references: [users.id],
+  }),
+}));
+
 export const userPushSubscriptionsRelations = relations(userPushSubscriptions, ({ one }) => ({
   user: one(users, {
     fields: [userPushSubscriptions.userId],
@@ -436,6 +946,24 @@ export const userPushSubscriptionsRelations = relations(userPushSubscriptions, (
   }),
 }));
 
+export const calendarFeedsRelations = relations(calendarFeeds, ({ one }) => ({
+  user: one(users, {
+    fields: [calendarFeeds.userId],
+    references: [users.id],
+  }),
+  category: one(calendarCategories, {
+    fields: [calendarFeeds.categoryId],
+    references: [calendarCategories.id],
+  }),
+}));
+
+export const appPasswordsRelations = relations(appPasswords, ({ one }) => ({
+  user: one(users, {
+    fields: [appPasswords.userId],
+    references: [users.id],
+  }),
+}));
+
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   user: one(users, {
     fields: [auditLogs.userId],
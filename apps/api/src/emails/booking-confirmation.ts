@@ -0,0 +1,122 @@
+/**
+ * Escape a string for safe insertion into HTML content.
+ */
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Booking email template, sent to a visitor who booked through a public
+ * booking page. `kind` selects the wording for a new booking, a new time,
+ * or a cancellation (which has no manage link). Returns both HTML and
+ * plain-text versions.
+ */
+export function bookingConfirmationEmail(params: {
+  kind: 'confirmed' | 'rescheduled' | 'cancelled';
+  title: string;
+  time: string;
+  location: string | null;
+  hostName: string;
+  manageUrl: string | null;
+}): { html: string; text: string } {
+  const { kind, title, time, location, hostName, manageUrl } = params;
+
+  const heading =
+    kind === 'confirmed'
+      ? 'You’re booked'
+      : kind === 'rescheduled'
+        ? 'Booking rescheduled'
+        : 'Booking cancelled';
+  const intro =
+    kind === 'confirmed'
+      ? `Your booking with ${hostName} is confirmed.`
+      : kind === 'rescheduled'
+        ? `Your booking with ${hostName} has a new time.`
+        : `Your booking with ${hostName} has been cancelled.`;
+
+  // Escape user-controlled values for safe HTML insertion
+  const safeTitle = escapeHtml(title);
+  const safeTime = escapeHtml(time);
+  const safeLocation = location ? escapeHtml(location) : null;
+  const safeIntro = escapeHtml(intro);
+  const safeManageUrl = manageUrl ? encodeURI(manageUrl) : null;
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${heading}: ${safeTitle}</title>
+</head>
+<body style="margin:0;padding:0;background-color:#f8f7f4;font-family:'Helvetica Neue',Arial,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f8f7f4;padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="100%" cellpadding="0" cellspacing="0" style="max-width:480px;background-color:#ffffff;border-radius:8px;box-shadow:0 1px 3px rgba(0,0,0,0.06);padding:40px;">
+          <tr>
+            <td style="font-size:22px;font-weight:700;color:#1a1916;padding-bottom:16px;">
+              ${heading}
+            </td>
+          </tr>
+          <tr>
+            <td style="font-size:15px;line-height:1.6;color:#4a4843;padding-bottom:16px;">
+              ${safeIntro}
+            </td>
+          </tr>
+          <tr>
+            <td style="font-size:18px;font-weight:600;color:#1a1916;padding-bottom:8px;">
+              ${kind === 'cancelled' ? `<s>${safeTitle}</s>` : safeTitle}
+            </td>
+          </tr>
+          <tr>
+            <td style="font-size:15px;line-height:1.6;color:#4a4843;padding-bottom:${safeLocation ? '4' : '24'}px;">
+              ${safeTime}
+            </td>
+          </tr>${
+            safeLocation
+              ? `
+          <tr>
+            <td style="font-size:15px;line-height:1.6;color:#4a4843;padding-bottom:24px;">
+              ${safeLocation}
+            </td>
+          </tr>`
+              : ''
+          }${
+            safeManageUrl
+              ? `
+          <tr>
+            <td style="padding-bottom:24px;">
+              <a href="${safeManageUrl}" style="display:inline-block;padding:12px 28px;background-color:#c8522a;color:#ffffff;font-size:15px;font-weight:600;text-decoration:none;border-radius:6px;">
+                Reschedule or cancel
+              </a>
+            </td>
+          </tr>`
+              : ''
+          }
+          <tr>
+            <td style="font-size:12px;line-height:1.5;color:#a09a94;border-top:1px solid #e4e2dd;padding-top:16px;">
+              The attached invitation can be added to any calendar app.
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+  const text = `${heading}: ${title}
+
+${intro}
+
+${time}${location ? `\n${location}` : ''}
+${manageUrl ? `\nReschedule or cancel: ${manageUrl}\n` : ''}
+The attached invitation can be added to any calendar app.`;
+
+  return { html, text };
+}
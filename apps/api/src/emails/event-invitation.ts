@@ -0,0 +1,122 @@
+/**
+ * Escape a string for safe insertion into HTML content.
+ */
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Event invitation email template, sent to attendees alongside an iTIP
+ * .ics attachment. `kind` selects the wording for a new invitation, an
+ * update to an existing one, or a cancellation (which has no RSVP link).
+ * Returns both HTML and plain-text versions.
+ */
+export function eventInvitationEmail(params: {
+  kind: 'invitation' | 'update' | 'cancellation';
+  title: string;
+  time: string;
+  location: string | null;
+  organizerName: string;
+  rsvpUrl: string | null;
+}): { html: string; text: string } {
+  const { kind, title, time, location, organizerName, rsvpUrl } = params;
+
+  const heading =
+    kind === 'invitation'
+      ? 'You’re invited'
+      : kind === 'update'
+        ? 'Invitation updated'
+        : 'Event cancelled';
+  const intro =
+    kind === 'invitation'
+      ? `${organizerName} invited you to an event.`
+      : kind === 'update'
+        ? `${organizerName} updated an event you’re invited to.`
+        : `${organizerName} cancelled this event, or removed you from it.`;
+
+  // Escape user-controlled values for safe HTML insertion
+  const safeTitle = escapeHtml(title);
+  const safeTime = escapeHtml(time);
+  const safeLocation = location ? escapeHtml(location) : null;
+  const safeIntro = escapeHtml(intro);
+  const safeRsvpUrl = rsvpUrl ? encodeURI(rsvpUrl) : null;
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${heading}: ${safeTitle}</title>
+</head>
+<body style="margin:0;padding:0;background-color:#f8f7f4;font-family:'Helvetica Neue',Arial,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f8f7f4;padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="100%" cellpadding="0" cellspacing="0" style="max-width:480px;background-color:#ffffff;border-radius:8px;box-shadow:0 1px 3px rgba(0,0,0,0.06);padding:40px;">
+          <tr>
+            <td style="font-size:22px;font-weight:700;color:#1a1916;padding-bottom:16px;">
+              ${heading}
+            </td>
+          </tr>
+          <tr>
+            <td style="font-size:15px;line-height:1.6;color:#4a4843;padding-bottom:16px;">
+              ${safeIntro}
+            </td>
+          </tr>
+          <tr>
+            <td style="font-size:18px;font-weight:600;color:#1a1916;padding-bottom:8px;">
+              ${kind === 'cancellation' ? `<s>${safeTitle}</s>` : safeTitle}
+            </td>
+          </tr>
+          <tr>
+            <td style="font-size:15px;line-height:1.6;color:#4a4843;padding-bottom:${safeLocation ? '4' : '24'}px;">
+              ${safeTime}
+            </td>
+          </tr>${
+            safeLocation
+              ? `
+          <tr>
+            <td style="font-size:15px;line-height:1.6;color:#4a4843;padding-bottom:24px;">
+              ${safeLocation}
+            </td>
+          </tr>`
+              : ''
+          }${
+            safeRsvpUrl
+              ? `
+          <tr>
+            <td style="padding-bottom:24px;">
+              <a href="${safeRsvpUrl}" style="display:inline-block;padding:12px 28px;background-color:#c8522a;color:#ffffff;font-size:15px;font-weight:600;text-decoration:none;border-radius:6px;">
+                Respond
+              </a>
+            </td>
+          </tr>`
+              : ''
+          }
+          <tr>
+            <td style="font-size:12px;line-height:1.5;color:#a09a94;border-top:1px solid #e4e2dd;padding-top:16px;">
+              The attached invitation can be added to any calendar app.
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+  const text = `${heading}: ${title}
+
+${intro}
+
+${time}${location ? `\n${location}` : ''}
+${rsvpUrl ? `\nRespond: ${rsvpUrl}\n` : ''}
+The attached invitation can be added to any calendar app.`;
+
+  return { html, text };
+}
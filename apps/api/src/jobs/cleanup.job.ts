@@ -1,11 +1,14 @@
 import { Worker } from 'bullmq';
-import { and, isNotNull, lt, or } from 'drizzle-orm';
+import { and, eq, isNotNull, lt, notExists, or } from 'drizzle-orm';
+
+import { TRASH_RETENTION_DAYS } from '@calley/shared';
 
 import { db } from '../db';
 import {
   auditLogs,
   eventExceptions,
   events,
+  itemTags,
   passwordResetTokens,
   reminders,
   sessions,
@@ -39,40 +42,66 @@ async function cleanupPasswordResetTokens(): Promise<number> {
 }
 
 /**
- * Hard delete soft-deleted events older than 30 days.
+ * Hard delete soft-deleted events once they leave the trash.
  * Deletes event exceptions first to satisfy FK constraints.
  */
 async function cleanupDeletedEvents(): Promise<number> {
-  const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
 
   // First delete related exception overrides
   const deletedExceptions = await db
     .delete(eventExceptions)
-    .where(and(isNotNull(eventExceptions.deletedAt), lt(eventExceptions.deletedAt, thirtyDaysAgo)))
+    .where(and(isNotNull(eventExceptions.deletedAt), lt(eventExceptions.deletedAt, cutoff)))
     .returning({ id: eventExceptions.id });
 
   // Then delete the events themselves
   const deletedEvents = await db
     .delete(events)
-    .where(and(isNotNull(events.deletedAt), lt(events.deletedAt, thirtyDaysAgo)))
+    .where(and(isNotNull(events.deletedAt), lt(events.deletedAt, cutoff)))
     .returning({ id: events.id });
 
   return deletedEvents.length + deletedExceptions.length;
 }
 
 /**
- * Hard delete soft-deleted tasks older than 30 days.
+ * Hard delete soft-deleted tasks once they leave the trash.
  */
 async function cleanupDeletedTasks(): Promise<number> {
-  const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
 
   const result = await db
     .delete(tasks)
-    .where(and(isNotNull(tasks.deletedAt), lt(tasks.deletedAt, thirtyDaysAgo)))
+    .where(and(isNotNull(tasks.deletedAt), lt(tasks.deletedAt, cutoff)))
     .returning({ id: tasks.id });
   return result.length;
 }
 
+/**
+ * Delete tags left on events and tasks that no longer exist. Tags have no
+ * foreign key to their item, so hard deletes above (and the exception
+ * instances and subtasks they cascade to) leave them behind.
+ */
+async function cleanupOrphanedItemTags(): Promise<number> {
+  const result = await db
+    .delete(itemTags)
+    .where(
+      or(
+        and(
+          eq(itemTags.itemType, 'event'),
+          notExists(
+            db.select({ id: events.id }).from(events).where(eq(events.id, itemTags.itemId)),
+          ),
+        ),
+        and(
+          eq(itemTags.itemType, 'task'),
+          notExists(db.select({ id: tasks.id }).from(tasks).where(eq(tasks.id, itemTags.itemId))),
+        ),
+      ),
+    )
+    .returning({ id: itemTags.id });
+  return result.length;
+}
+
 /**
  * Delete sent reminders older than 30 days.
  */
@@ -112,6 +141,7 @@ export function startCleanupWorker(): Worker {
         resetTokens: 0,
         events: 0,
         tasks: 0,
+        itemTags: 0,
         reminders: 0,
         auditLogs: 0,
       };
@@ -140,6 +170,12 @@ export function startCleanupWorker(): Worker {
         logger.error({ err }, 'Failed to cleanup deleted tasks');
       }
 
+      try {
+        results.itemTags = await cleanupOrphanedItemTags();
+      } catch (err) {
+        logger.error({ err }, 'Failed to cleanup orphaned item tags');
+      }
+
       try {
         results.reminders = await cleanupSentReminders();
       } catch (err) {
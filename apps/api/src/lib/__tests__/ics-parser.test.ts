@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getProperties,
+  getProperty,
+  IcsParseError,
+  parseIcs,
+  parseIcsDate,
+  parseIcsDateList,
+  parseIcsDuration,
+  unescapeIcsText,
+} from '../ics-parser';
+
+const SAMPLE = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Example//EN',
+  'BEGIN:VEVENT',
+  'UID:abc@example.com',
+  'DTSTART;TZID=America/New_York:20260302T090000',
+  'DTEND;TZID=America/New_York:20260302T093000',
+  'SUMMARY:Daily standup\\, team A',
+  'DESCRIPTION:Line one\\nLine two that is long enough to be folded across',
+  '  multiple lines',
+  'ATTENDEE;CN="Doe: Jane";ROLE=REQ-PARTICIPANT:mailto:jane@example.com',
+  'EXDATE:20260303T140000Z',
+  'EXDATE:20260304T140000Z,20260305T140000Z',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'TRIGGER:-PT15M',
+  'END:VALARM',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('parseIcs', () => {
+  it('should build the component tree', () => {
+    const calendar = parseIcs(SAMPLE);
+
+    expect(calendar.name).toBe('VCALENDAR');
+    expect(calendar.components).toHaveLength(1);
+
+    const vevent = calendar.components[0];
+    expect(vevent.name).toBe('VEVENT');
+    expect(vevent.components[0].name).toBe('VALARM');
+    expect(getProperty(vevent, 'UID')?.value).toBe('abc@example.com');
+  });
+
+  it('should unfold continuation lines', () => {
+    const vevent = parseIcs(SAMPLE).components[0];
+
+    expect(getProperty(vevent, 'DESCRIPTION')?.value).toBe(
+      'Line one\\nLine two that is long enough to be folded across multiple lines',
+    );
+  });
+
+  it('should parse parameters, including quoted values with colons', () => {
+    const vevent = parseIcs(SAMPLE).components[0];
+
+    const dtstart = getProperty(vevent, 'DTSTART');
+    expect(dtstart?.params.TZID).toBe('America/New_York');
+
+    const attendee = getProperty(vevent, 'ATTENDEE');
+    expect(attendee?.params.CN).toBe('Doe: Jane');
+    expect(attendee?.value).toBe('mailto:jane@example.com');
+  });
+
+  it('should return repeated properties', () => {
+    const vevent = parseIcs(SAMPLE).components[0];
+    expect(getProperties(vevent, 'EXDATE')).toHaveLength(2);
+  });
+
+  it('should accept LF line endings and a leading BOM', () => {
+    const calendar = parseIcs('\uFEFF' + SAMPLE.replace(/\r\n/g, '\n'));
+    expect(calendar.components).toHaveLength(1);
+  });
+
+  it('should reject documents that are not a VCALENDAR', () => {
+    expect(() => parseIcs('BEGIN:VCARD\r\nEND:VCARD')).toThrow(IcsParseError);
+  });
+
+  it('should reject mismatched END lines', () => {
+    expect(() => parseIcs('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nEND:VCALENDAR')).toThrow(
+      IcsParseError,
+    );
+  });
+
+  it('should reject unterminated components', () => {
+    expect(() => parseIcs('BEGIN:VCALENDAR\r\nBEGIN:VEVENT')).toThrow('Missing END:VEVENT');
+  });
+
+  it('should reject malformed content lines', () => {
+    expect(() => parseIcs('BEGIN:VCALENDAR\r\nnot a property\r\nEND:VCALENDAR')).toThrow(
+      IcsParseError,
+    );
+  });
+});
+
+describe('unescapeIcsText', () => {
+  it('should unescape commas, semicolons, backslashes and newlines', () => {
+    expect(unescapeIcsText('a\\, b\\; c\\\\d\\ne\\Nf')).toBe('a, b; c\\d\ne\nf');
+  });
+});
+
+describe('parseIcsDate', () => {
+  it('should parse UTC date-times', () => {
+    const result = parseIcsDate('20260315T100000Z', {}, 'America/New_York');
+    expect(result).toEqual({ date: new Date('2026-03-15T10:00:00Z'), isDate: false });
+  });
+
+  it('should parse date-times in the given TZID', () => {
+    const result = parseIcsDate('20260315T100000', { TZID: 'Europe/Berlin' }, 'UTC');
+    expect(result?.date.toISOString()).toBe('2026-03-15T09:00:00.000Z');
+  });
+
+  it('should treat floating times as the fallback timezone', () => {
+    const result = parseIcsDate('20260315T100000', {}, 'America/New_York');
+    expect(result?.date.toISOString()).toBe('2026-03-15T14:00:00.000Z');
+  });
+
+  it('should fall back for unknown TZIDs', () => {
+    const result = parseIcsDate('20260315T100000', { TZID: 'Eastern Standard Time' }, 'UTC');
+    expect(result?.date.toISOString()).toBe('2026-03-15T10:00:00.000Z');
+  });
+
+  it('should parse DATE values as UTC midnight', () => {
+    const result = parseIcsDate('20260315', { VALUE: 'DATE' }, 'America/New_York');
+    expect(result).toEqual({ date: new Date('2026-03-15T00:00:00Z'), isDate: true });
+  });
+
+  it('should return null for invalid values', () => {
+    expect(parseIcsDate('2026-03-15', {}, 'UTC')).toBeNull();
+  });
+});
+
+describe('parseIcsDateList', () => {
+  it('should parse comma-separated values and drop invalid entries', () => {
+    const dates = parseIcsDateList('20260303T140000Z,bogus,20260304T140000Z', {}, 'UTC');
+    expect(dates.map((d) => d.toISOString())).toEqual([
+      '2026-03-03T14:00:00.000Z',
+      '2026-03-04T14:00:00.000Z',
+    ]);
+  });
+});
+
+describe('parseIcsDuration', () => {
+  it('should parse durations into milliseconds', () => {
+    expect(parseIcsDuration('PT1H30M')).toBe(90 * 60 * 1000);
+    expect(parseIcsDuration('P1D')).toBe(24 * 60 * 60 * 1000);
+    expect(parseIcsDuration('P2W')).toBe(14 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should keep the sign of negative durations', () => {
+    expect(parseIcsDuration('-PT15M')).toBe(-15 * 60 * 1000);
+  });
+
+  it('should return null for invalid durations', () => {
+    expect(parseIcsDuration('P')).toBeNull();
+    expect(parseIcsDuration('1H')).toBeNull();
+  });
+});
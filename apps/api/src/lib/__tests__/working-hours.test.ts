@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import { getWorkingIntervals, resolveWorkingHours } from '../working-hours';
+
+describe('resolveWorkingHours', () => {
+  it('should fall back to the defaults in the profile timezone', () => {
+    const hours = resolveWorkingHours({ timezone: 'Europe/Paris', workingHours: null });
+
+    expect(hours.timezone).toBe('Europe/Paris');
+    expect(hours.days[0]).toEqual([]);
+    expect(hours.days[1]).toEqual([{ start: '09:00', end: '17:00' }]);
+  });
+
+  it('should prefer the timezone saved with the hours', () => {
+    const hours = resolveWorkingHours({
+      timezone: 'Europe/Paris',
+      workingHours: { timezone: 'Asia/Tokyo', days: [[], [], [], [], [], [], []] },
+    });
+
+    expect(hours.timezone).toBe('Asia/Tokyo');
+  });
+});
+
+describe('getWorkingIntervals', () => {
+  const weekdays = resolveWorkingHours({ timezone: 'America/New_York', workingHours: null });
+
+  it('should return each working day’s hours as instants', () => {
+    // Friday 6 to Monday 9 March 2026
+    const intervals = getWorkingIntervals(
+      weekdays,
+      new Date('2026-03-06T00:00:00Z'),
+      new Date('2026-03-10T00:00:00Z'),
+    );
+
+    expect(intervals).toEqual([
+      { start: new Date('2026-03-06T14:00:00Z'), end: new Date('2026-03-06T22:00:00Z') },
+      // Daylight saving starts on Sunday 8 March: still 09:00–17:00 locally
+      { start: new Date('2026-03-09T13:00:00Z'), end: new Date('2026-03-09T21:00:00Z') },
+    ]);
+  });
+
+  it('should run a day ending at 24:00 on into the next morning', () => {
+    // Friday 18:00–24:00 and Saturday 00:00–02:00 in New York
+    const nights = resolveWorkingHours({
+      timezone: 'America/New_York',
+      workingHours: {
+        timezone: null,
+        days: [
+          [],
+          [],
+          [],
+          [],
+          [],
+          [{ start: '18:00', end: '24:00' }],
+          [{ start: '00:00', end: '02:00' }],
+        ],
+      },
+    });
+
+    const intervals = getWorkingIntervals(
+      nights,
+      new Date('2026-03-06T00:00:00Z'),
+      new Date('2026-03-08T00:00:00Z'),
+    );
+
+    expect(intervals).toEqual([
+      { start: new Date('2026-03-06T23:00:00Z'), end: new Date('2026-03-07T07:00:00Z') },
+    ]);
+  });
+
+  it('should include a period already running at the start of the range', () => {
+    const intervals = getWorkingIntervals(
+      weekdays,
+      new Date('2026-03-06T20:00:00Z'),
+      new Date('2026-03-06T21:00:00Z'),
+    );
+
+    expect(intervals).toHaveLength(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { escapeXml, findChild, findChildren, parseXml, XmlParseError } from '../xml';
+
+describe('parseXml', () => {
+  it('should resolve prefixed and default namespaces', () => {
+    const root = parseXml(
+      '<?xml version="1.0" encoding="utf-8"?>' +
+        '<D:propfind xmlns:D="DAV:" xmlns="urn:ietf:params:xml:ns:caldav">' +
+        '<D:prop><D:getetag/><calendar-data/></D:prop></D:propfind>',
+    );
+
+    expect(root).toMatchObject({ namespace: 'DAV:', name: 'propfind' });
+    const prop = findChild(root, 'DAV:', 'prop')!;
+    expect(prop.children.map((c) => [c.namespace, c.name])).toEqual([
+      ['DAV:', 'getetag'],
+      ['urn:ietf:params:xml:ns:caldav', 'calendar-data'],
+    ]);
+  });
+
+  it('should scope namespace declarations to their element', () => {
+    const root = parseXml('<a xmlns="urn:one"><b xmlns="urn:two"/><c/></a>');
+
+    expect(root.children[0].namespace).toBe('urn:two');
+    expect(root.children[1].namespace).toBe('urn:one');
+  });
+
+  it('should decode entities, character references and CDATA', () => {
+    const root = parseXml(
+      '<a><b>Tom &amp; Jerry &#x3C;3 &#60;3</b><c><![CDATA[<raw> & text]]></c></a>',
+    );
+
+    expect(findChild(root, '', 'b')!.text).toBe('Tom & Jerry <3 <3');
+    expect(findChild(root, '', 'c')!.text).toBe('<raw> & text');
+  });
+
+  it('should read attributes and skip comments and doctype', () => {
+    const root = parseXml(
+      '<!DOCTYPE x><!-- comment --><filter><comp name="VEVENT" test=\'x\'/><comp name="VTODO"/></filter>',
+    );
+
+    expect(findChildren(root, '', 'comp').map((c) => c.attributes.name)).toEqual([
+      'VEVENT',
+      'VTODO',
+    ]);
+    expect(root.children[0].attributes.test).toBe('x');
+  });
+
+  it.each([
+    ['mismatched tags', '<a><b></a>'],
+    ['unclosed elements', '<a><b/>'],
+    ['multiple root elements', '<a/><b/>'],
+    ['undeclared prefixes', '<x:a/>'],
+    ['empty input', '   '],
+  ])('should reject %s', (_label, input) => {
+    expect(() => parseXml(input)).toThrow(XmlParseError);
+  });
+});
+
+describe('escapeXml', () => {
+  it('should escape markup characters and double quotes', () => {
+    expect(escapeXml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; 'Jerry'&lt;/a&gt;",
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import { escapeXml, findChild, parseXml, XmlParseError } from './xml';
+
+import type { XmlElement } from './xml';
+
+// ─── Namespaces ─────────────────────────────────────────────────────
+
+export const DAV_NS = 'DAV:';
+export const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+/** Apple's CalendarServer extensions (getctag) */
+export const CALSERVER_NS = 'http://calendarserver.org/ns/';
+/** Apple iCal extensions (calendar-color, calendar-order) */
+export const APPLE_ICAL_NS = 'http://apple.com/ns/ical/';
+
+const PREFIXES: Record<string, string> = {
+  [DAV_NS]: 'd',
+  [CALDAV_NS]: 'cal',
+  [CALSERVER_NS]: 'cs',
+  [APPLE_ICAL_NS]: 'ical',
+};
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  403: 'Forbidden',
+  404: 'Not Found',
+};
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export interface DavPropName {
+  namespace: string;
+  name: string;
+}
+
+export interface DavProperty extends DavPropName {
+  /** Serialized inner XML of the property element (already escaped) */
+  value: string;
+}
+
+export interface DavPropStat {
+  status: number;
+  properties: DavProperty[];
+}
+
+export interface DavResponse {
+  href: string;
+  /** Set for whole-resource results (e.g. a missing multiget href) */
+  status?: number;
+  propstats?: DavPropStat[];
+}
+
+/** What a PROPFIND (or REPORT) asked for */
+export type DavPropRequest =
+  | { type: 'allprop' }
+  | { type: 'propname' }
+  | { type: 'prop'; names: DavPropName[] };
+
+export class DavRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DavRequestError';
+  }
+}
+
+// ─── Request Parsing ────────────────────────────────────────────────
+
+/**
+ * Parse a WebDAV XML request body. Throws DavRequestError if the body is
+ * not well-formed or its root element is not one of the expected ones.
+ */
+export function parseDavBody(body: string, namespace: string, names: string[]): XmlElement {
+  let root: XmlElement;
+  try {
+    root = parseXml(body);
+  } catch (err) {
+    if (err instanceof XmlParseError) throw new DavRequestError(err.message);
+    throw err;
+  }
+
+  if (root.namespace !== namespace || !names.includes(root.name)) {
+    throw new DavRequestError(`Expected a ${names.join(' or ')} request body`);
+  }
+
+  return root;
+}
+
+/**
+ * Read the requested properties from a PROPFIND or REPORT root element.
+ * A missing element means allprop (RFC 4918 §9.1).
+ */
+export function parsePropRequest(root: XmlElement | null): DavPropRequest {
+  if (!root) return { type: 'allprop' };
+  if (findChild(root, DAV_NS, 'propname')) return { type: 'propname' };
+
+  const prop = findChild(root, DAV_NS, 'prop');
+  if (!prop) return { type: 'allprop' };
+
+  return {
+    type: 'prop',
+    names: prop.children.map((c) => ({ namespace: c.namespace, name: c.name })),
+  };
+}
+
+// ─── Property Selection ─────────────────────────────────────────────
+
+/**
+ * Split a resource's properties into the ones the request asked for that
+ * exist (200) and those that don't (404). `expensive` properties, such as
+ * calendar-data, are only returned when asked for by name.
+ */
+export function selectProperties(
+  available: DavProperty[],
+  request: DavPropRequest,
+  expensive: DavPropName[] = [],
+): DavPropStat[] {
+  const isExpensive = (p: DavPropName) =>
+    expensive.some((e) => e.namespace === p.namespace && e.name === p.name);
+
+  if (request.type === 'allprop') {
+    return [{ status: 200, properties: available.filter((p) => !isExpensive(p)) }];
+  }
+
+  if (request.type === 'propname') {
+    return [{ status: 200, properties: available.map((p) => ({ ...p, value: '' })) }];
+  }
+
+  const found: DavProperty[] = [];
+  const missing: DavProperty[] = [];
+
+  for (const name of request.names) {
+    const property = available.find((p) => p.namespace === name.namespace && p.name === name.name);
+    if (property) found.push(property);
+    else missing.push({ ...name, value: '' });
+  }
+
+  const propstats: DavPropStat[] = [];
+  if (found.length > 0) propstats.push({ status: 200, properties: found });
+  if (missing.length > 0) propstats.push({ status: 404, properties: missing });
+  return propstats;
+}
+
+// ─── Serialization ──────────────────────────────────────────────────
+
+export function davHref(href: string): string {
+  return `<d:href>${escapeXml(href)}</d:href>`;
+}
+
+function statusLine(status: number): string {
+  return `HTTP/1.1 ${status} ${STATUS_TEXT[status] ?? ''}`.trim();
+}
+
+function serializeProperty(property: DavProperty): string {
+  const prefix = PREFIXES[property.namespace];
+  // Properties in namespaces we don't know declare their own (prefix-less) namespace
+  const tag = prefix ? `${prefix}:${property.name}` : property.name;
+  const xmlns = prefix ? '' : ` xmlns="${escapeXml(property.namespace)}"`;
+
+  return property.value ? `<${tag}${xmlns}>${property.value}</${tag}>` : `<${tag}${xmlns}/>`;
+}
+
+/**
+ * Serialize a 207 Multi-Status body (RFC 4918 §13).
+ */
+export function buildMultistatus(responses: DavResponse[]): string {
+  const namespaces = Object.entries(PREFIXES)
+    .map(([ns, prefix]) => ` xmlns:${prefix}="${ns}"`)
+    .join('');
+
+  const body = responses
+    .map((response) => {
+      const parts = [davHref(response.href)];
+
+      if (response.status !== undefined) {
+        parts.push(`<d:status>${statusLine(response.status)}</d:status>`);
+      }
+
+      for (const propstat of response.propstats ?? []) {
+        parts.push(
+          '<d:propstat>' +
+            `<d:prop>${propstat.properties.map(serializeProperty).join('')}</d:prop>` +
+            `<d:status>${statusLine(propstat.status)}</d:status>` +
+            '</d:propstat>',
+        );
+      }
+
+      return `<d:response>${parts.join('')}</d:response>`;
+    })
+    .join('');
+
+  return `<?xml version="1.0" encoding="utf-8"?>\n<d:multistatus${namespaces}>${body}</d:multistatus>`;
+}
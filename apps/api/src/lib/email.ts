@@ -11,11 +11,18 @@ const resend = resendApiKey ? new Resend(resendApiKey) : null;
 
 // ─── Send Email ──────────────────────────────────────────────────────
 
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+}
+
 export interface SendEmailOptions {
   to: string;
   subject: string;
   html: string;
   text: string;
+  attachments?: EmailAttachment[];
 }
 
 /**
@@ -27,6 +34,7 @@ export async function sendEmail(options: SendEmailOptions): Promise<void> {
       {
         to: options.to,
         subject: options.subject,
+        attachments: options.attachments?.map((a) => a.filename),
       },
       'Email (dev mode — no RESEND_API_KEY): would send email',
     );
@@ -39,6 +47,11 @@ export async function sendEmail(options: SendEmailOptions): Promise<void> {
     subject: options.subject,
     html: options.html,
     text: options.text,
+    attachments: options.attachments?.map((a) => ({
+      filename: a.filename,
+      content: Buffer.from(a.content),
+      contentType: a.contentType,
+    })),
   });
 
   if (error) {
@@ -91,3 +91,17 @@ export function validateEnv(): boolean {
 
   return true;
 }
+
+/**
+ * Base URL of the web app, for links in emails. Prefers FRONTEND_URL,
+ * then the first origin in CORS_ORIGIN.
+ */
+export function getFrontendUrl(): string {
+  return (
+    process.env.FRONTEND_URL ||
+    process.env.CORS_ORIGIN?.split(',')
+      .map((s) => s.trim())
+      .find((s) => s.length > 0) ||
+    'http://localhost:5173'
+  );
+}
@@ -0,0 +1,340 @@
+import { fromZonedTime } from 'date-fns-tz';
+
+import { MAX_RDATES } from '@calley/shared';
+
+import {
+  getProperties,
+  getProperty,
+  parseIcsDate,
+  parseIcsDateList,
+  parseIcsDuration,
+  unescapeIcsText,
+} from './ics-parser';
+import { sanitizeHtml } from './sanitize';
+import { isValidTimeZone } from './timezone';
+
+import type { IcsComponent, IcsProperty } from './ics-parser';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export interface IcsAlarm {
+  minutesBefore: number;
+  method: 'push' | 'email';
+}
+
+export interface MappedIcsEvent {
+  title: string;
+  description: string | null;
+  location: string | null;
+  startAt: Date;
+  endAt: Date;
+  timezone: string | null;
+  endTimezone: string | null;
+  isAllDay: boolean;
+  rrule: string | null;
+  exDates: Date[];
+  rDates: Date[];
+}
+
+export interface MappedIcsTask {
+  title: string;
+  description: string | null;
+  dueAt: Date | null;
+  priority: 'none' | 'low' | 'medium' | 'high';
+  status: 'todo' | 'in_progress' | 'done';
+  completedAt: Date | null;
+  rrule: string | null;
+  exDates: Date[];
+}
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Timed events with neither DTEND nor DURATION get this length */
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Same bound as createReminderSchema (4 weeks) */
+const MAX_REMINDER_MINUTES = 40320;
+
+// ─── Property Helpers ───────────────────────────────────────────────
+
+export function getIcsText(component: IcsComponent, name: string): string | null {
+  const prop = getProperty(component, name);
+  if (!prop) return null;
+  const text = unescapeIcsText(prop.value).trim();
+  return text.length > 0 ? text : null;
+}
+
+export function getIcsUid(component: IcsComponent): string | null {
+  const uid = getProperty(component, 'UID')?.value.trim();
+  return uid ? uid.slice(0, 255) : null;
+}
+
+export function getIcsStatus(component: IcsComponent): string | null {
+  return getProperty(component, 'STATUS')?.value.trim().toUpperCase() ?? null;
+}
+
+/**
+ * SUMMARY capped to the 200-char title limit, with a placeholder when missing.
+ */
+export function getIcsSummary(component: IcsComponent): string {
+  return (getIcsText(component, 'SUMMARY') ?? '(No title)').slice(0, 200);
+}
+
+/**
+ * Parse a component's RECURRENCE-ID, truncated to whole seconds to match
+ * how instance dates are stored. Returns null if absent or invalid.
+ */
+export function getIcsRecurrenceId(component: IcsComponent, timeZone: string): Date | null {
+  const prop = getProperty(component, 'RECURRENCE-ID');
+  if (!prop) return null;
+  const parsed = parseIcsDate(prop.value, prop.params, timeZone);
+  if (!parsed) return null;
+  parsed.date.setMilliseconds(0);
+  return parsed.date;
+}
+
+/**
+ * ICS descriptions are plain text, while Calley stores sanitized HTML.
+ * The text is capped before escaping so the HTML fits the 5000-char limit.
+ */
+export function plainTextToHtml(text: string): string {
+  const escaped = text
+    .slice(0, 4000)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  return sanitizeHtml(
+    escaped
+      .split('\n')
+      .map((line) => `<p>${line}</p>`)
+      .join(''),
+  );
+}
+
+function getExDates(component: IcsComponent, timeZone: string): Date[] {
+  return getDateList(component, 'EXDATE', timeZone);
+}
+
+/** Periods (VALUE=PERIOD) are skipped: an event has one duration for every occurrence */
+function getRDates(component: IcsComponent, timeZone: string): Date[] {
+  return getDateList(component, 'RDATE', timeZone);
+}
+
+function getDateList(component: IcsComponent, name: string, timeZone: string): Date[] {
+  return getProperties(component, name)
+    .filter((prop) => prop.params.VALUE?.toUpperCase() !== 'PERIOD')
+    .flatMap((prop) =>
+      parseIcsDateList(prop.value, prop.params, timeZone).map((d) => {
+        d.setMilliseconds(0);
+        return d;
+      }),
+    );
+}
+
+function getRrule(component: IcsComponent): string | null {
+  return getProperty(component, 'RRULE')?.value.trim() || null;
+}
+
+// ─── Task Value Mapping ─────────────────────────────────────────────
+
+/**
+ * Map an iCalendar PRIORITY (1 = highest, 9 = lowest, 0 = undefined)
+ * onto Calley's task priorities.
+ */
+export function mapTaskPriority(value: string | undefined): MappedIcsTask['priority'] {
+  const priority = Number(value);
+  if (!Number.isInteger(priority) || priority <= 0) return 'none';
+  if (priority <= 4) return 'high';
+  if (priority === 5) return 'medium';
+  return 'low';
+}
+
+export function mapTaskStatus(status: string | null): MappedIcsTask['status'] {
+  if (status === 'COMPLETED') return 'done';
+  if (status === 'IN-PROCESS') return 'in_progress';
+  return 'todo';
+}
+
+// ─── Component Mapping ──────────────────────────────────────────────
+
+/**
+ * Collect VALARMs that Calley can represent as reminders: display/audio
+ * alarms become push reminders and email alarms become email reminders.
+ * Only triggers at or before the start (or an absolute time) are supported.
+ */
+export function parseIcsAlarms(component: IcsComponent, start: Date, timeZone: string): IcsAlarm[] {
+  const alarms: IcsAlarm[] = [];
+  const seen = new Set<string>();
+
+  for (const valarm of component.components.filter((c) => c.name === 'VALARM')) {
+    const action = getProperty(valarm, 'ACTION')?.value.trim().toUpperCase();
+    const trigger = getProperty(valarm, 'TRIGGER');
+    if (!trigger || !action) continue;
+
+    let method: IcsAlarm['method'];
+    if (action === 'EMAIL') method = 'email';
+    else if (action === 'DISPLAY' || action === 'AUDIO') method = 'push';
+    else continue;
+
+    let minutesBefore: number | null = null;
+    if (trigger.params.VALUE === 'DATE-TIME') {
+      const absolute = parseIcsDate(trigger.value, trigger.params, timeZone);
+      if (absolute) minutesBefore = Math.round((start.getTime() - absolute.date.getTime()) / 60000);
+    } else if (trigger.params.RELATED !== 'END') {
+      const offset = parseIcsDuration(trigger.value);
+      if (offset !== null) minutesBefore = Math.round(-offset / 60000);
+    }
+
+    if (minutesBefore === null || minutesBefore < 0 || minutesBefore > MAX_REMINDER_MINUTES) {
+      continue;
+    }
+
+    const key = `${minutesBefore}:${method}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    alarms.push({ minutesBefore, method });
+  }
+
+  return alarms;
+}
+
+/**
+ * The timezone a DATE-TIME property is defined in: its TZID when the
+ * runtime knows it, the fallback for floating times, and null for UTC.
+ */
+function getIcsTimeZone(property: IcsProperty, fallbackTimeZone: string): string | null {
+  if (property.value.toUpperCase().endsWith('Z')) return null;
+  const tzid = property.params.TZID;
+  return tzid && isValidTimeZone(tzid) ? tzid : fallbackTimeZone;
+}
+
+/**
+ * Map the date, text and recurrence properties of a VEVENT.
+ * Returns a string describing the problem if the component is unusable.
+ * The RRULE is returned as-is; callers validate it against the rules
+ * Calley can expand.
+ */
+export function mapVEvent(vevent: IcsComponent, timeZone: string): MappedIcsEvent | string {
+  const dtstart = getProperty(vevent, 'DTSTART');
+  if (!dtstart) return 'Missing start date';
+
+  const start = parseIcsDate(dtstart.value, dtstart.params, timeZone);
+  if (!start) return 'Invalid start date';
+
+  const isAllDay = start.isDate;
+  const startAt = start.date;
+  let endAt: Date | null = null;
+
+  const dtend = getProperty(vevent, 'DTEND');
+  const duration = getProperty(vevent, 'DURATION');
+  if (dtend) {
+    const end = parseIcsDate(dtend.value, dtend.params, timeZone);
+    if (!end) return 'Invalid end date';
+    endAt = end.date;
+  } else if (duration) {
+    const ms = parseIcsDuration(duration.value);
+    if (ms === null) return 'Invalid duration';
+    endAt = new Date(startAt.getTime() + ms);
+  }
+
+  if (isAllDay) {
+    // All-day events always span at least one day
+    if (!endAt || endAt <= startAt) endAt = new Date(startAt.getTime() + DAY_MS);
+  } else if (!endAt) {
+    endAt = new Date(startAt.getTime() + DEFAULT_EVENT_DURATION_MS);
+  } else if (endAt <= startAt) {
+    return 'End time must be after start time';
+  }
+
+  const rrule = getRrule(vevent);
+  if (rrule && rrule.length > 500) return 'Recurrence rule is too long';
+
+  const description = getIcsText(vevent, 'DESCRIPTION');
+  const location = getIcsText(vevent, 'LOCATION');
+
+  const timezone = isAllDay ? null : getIcsTimeZone(dtstart, timeZone);
+  const endTimezone = !isAllDay && timezone && dtend ? getIcsTimeZone(dtend, timeZone) : null;
+
+  return {
+    title: getIcsSummary(vevent),
+    description: description ? plainTextToHtml(description) : null,
+    location: location ? location.slice(0, 500) : null,
+    startAt,
+    endAt,
+    timezone,
+    endTimezone: endTimezone !== timezone ? endTimezone : null,
+    isAllDay,
+    rrule,
+    exDates: getExDates(vevent, timeZone),
+    rDates: rrule ? getRDates(vevent, timeZone).slice(0, MAX_RDATES) : [],
+  };
+}
+
+/**
+ * Map a VTODO onto task fields. Date-only due dates become 23:59 in the
+ * given timezone, matching tasks created without a due time.
+ * Returns a string describing the problem if the component is unusable.
+ */
+export function mapVTodo(vtodo: IcsComponent, timeZone: string): MappedIcsTask | string {
+  let dueAt: Date | null = null;
+  const dueProp = getProperty(vtodo, 'DUE') ?? getProperty(vtodo, 'DTSTART');
+  if (dueProp) {
+    const due = parseIcsDate(dueProp.value, dueProp.params, timeZone);
+    if (!due) return 'Invalid due date';
+    dueAt = due.isDate
+      ? fromZonedTime(`${due.date.toISOString().slice(0, 10)}T23:59:00`, timeZone)
+      : due.date;
+  }
+
+  const rrule = getRrule(vtodo);
+  if (rrule) {
+    if (!dueAt) return 'Recurring tasks need a due date';
+    if (rrule.length > 500) return 'Recurrence rule is too long';
+  }
+
+  const status = mapTaskStatus(getIcsStatus(vtodo));
+  let completedAt: Date | null = null;
+  if (status === 'done') {
+    const completed = getProperty(vtodo, 'COMPLETED');
+    const parsed = completed ? parseIcsDate(completed.value, completed.params, timeZone) : null;
+    completedAt = parsed?.date ?? new Date();
+  }
+
+  const description = getIcsText(vtodo, 'DESCRIPTION');
+
+  return {
+    title: getIcsSummary(vtodo),
+    description: description ? plainTextToHtml(description) : null,
+    dueAt,
+    priority: mapTaskPriority(getProperty(vtodo, 'PRIORITY')?.value),
+    status,
+    completedAt,
+    rrule,
+    exDates: getExDates(vtodo, timeZone),
+  };
+}
+
+/**
+ * Build the delta an override applies to its series, in the same shape
+ * `event_exceptions.overrides` uses for single-instance edits.
+ */
+export function diffEventOverride(
+  master: {
+    title: string;
+    description?: string | null;
+    location?: string | null;
+    isAllDay?: boolean;
+  },
+  instance: MappedIcsEvent,
+): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {};
+  if (instance.title !== master.title) overrides.title = instance.title;
+  if (instance.description !== master.description) overrides.description = instance.description;
+  if (instance.location !== master.location) overrides.location = instance.location;
+  if (instance.isAllDay !== master.isAllDay) overrides.isAllDay = instance.isAllDay;
+  overrides.startAt = instance.startAt.toISOString();
+  overrides.endAt = instance.endAt.toISOString();
+  return overrides;
+}
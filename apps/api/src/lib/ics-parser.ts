@@ -0,0 +1,236 @@
+import { fromZonedTime } from 'date-fns-tz';
+
+import { isValidTimeZone } from './timezone';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+export interface IcsDateValue {
+  date: Date;
+  /** True for DATE values (no time part), e.g. all-day events */
+  isDate: boolean;
+}
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcsParseError';
+  }
+}
+
+// ─── Content Lines ──────────────────────────────────────────────────
+
+/**
+ * Unfold content lines per RFC 5545 §3.1: a CRLF followed by a single
+ * space or tab is a continuation of the previous line.
+ */
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+}
+
+/**
+ * Parse a single content line (`NAME;PARAM=VALUE:value`) into its parts.
+ * Colons and semicolons inside double-quoted parameter values are ignored.
+ */
+function parseContentLine(line: string): IcsProperty {
+  let inQuotes = false;
+  let valueStart = -1;
+  const segments: string[] = [];
+  let segmentStart = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && ch === ';') {
+      segments.push(line.slice(segmentStart, i));
+      segmentStart = i + 1;
+    } else if (!inQuotes && ch === ':') {
+      segments.push(line.slice(segmentStart, i));
+      valueStart = i + 1;
+      break;
+    }
+  }
+
+  if (valueStart === -1) {
+    throw new IcsParseError(`Malformed content line: ${line.slice(0, 50)}`);
+  }
+
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf('=');
+    if (eq === -1) continue;
+    params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(valueStart) };
+}
+
+// ─── Parser ─────────────────────────────────────────────────────────
+
+/**
+ * Parse iCalendar text into its component tree and return the root
+ * VCALENDAR. Throws IcsParseError if the structure is malformed.
+ */
+export function parseIcs(content: string): IcsComponent {
+  const lines = unfoldLines(content.replace(/^\uFEFF/, ''));
+  const stack: IcsComponent[] = [];
+  let root: IcsComponent | null = null;
+
+  for (const line of lines) {
+    const prop = parseContentLine(line);
+
+    if (prop.name === 'BEGIN') {
+      const component: IcsComponent = {
+        name: prop.value.trim().toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      if (stack.length > 0) {
+        stack[stack.length - 1].components.push(component);
+      } else if (root) {
+        throw new IcsParseError('Multiple top-level components are not supported');
+      } else {
+        root = component;
+      }
+      stack.push(component);
+      continue;
+    }
+
+    if (prop.name === 'END') {
+      const current = stack.pop();
+      if (!current || current.name !== prop.value.trim().toUpperCase()) {
+        throw new IcsParseError(`Unexpected END:${prop.value}`);
+      }
+      continue;
+    }
+
+    if (stack.length === 0) {
+      throw new IcsParseError(`Property ${prop.name} outside of a component`);
+    }
+    stack[stack.length - 1].properties.push(prop);
+  }
+
+  if (stack.length > 0) {
+    throw new IcsParseError(`Missing END:${stack[stack.length - 1].name}`);
+  }
+
+  if (!root || root.name !== 'VCALENDAR') {
+    throw new IcsParseError('File is not an iCalendar (VCALENDAR) document');
+  }
+
+  return root;
+}
+
+// ─── Property Accessors ─────────────────────────────────────────────
+
+export function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find((p) => p.name === name);
+}
+
+export function getProperties(component: IcsComponent, name: string): IcsProperty[] {
+  return component.properties.filter((p) => p.name === name);
+}
+
+/**
+ * Unescape a TEXT value (RFC 5545 §3.3.11).
+ */
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+// ─── Value Parsers ──────────────────────────────────────────────────
+
+/**
+ * Parse a DATE or DATE-TIME value.
+ *
+ * - `20260315` (or VALUE=DATE) → UTC midnight, flagged as a date
+ * - `20260315T100000Z` → UTC instant
+ * - `20260315T100000` with TZID → wall-clock time in that zone
+ * - `20260315T100000` floating → wall-clock time in `fallbackTimeZone`
+ *
+ * Unknown TZIDs (e.g. Windows zone names) fall back to `fallbackTimeZone`.
+ * Returns null if the value cannot be parsed.
+ */
+export function parseIcsDate(
+  value: string,
+  params: Record<string, string>,
+  fallbackTimeZone: string,
+): IcsDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+
+  if (params.VALUE === 'DATE' || h === undefined) {
+    const date = new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d)));
+    return Number.isNaN(date.getTime()) ? null : { date, isDate: true };
+  }
+
+  let date: Date;
+  if (utc) {
+    date = new Date(
+      Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)),
+    );
+  } else {
+    const tz = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : fallbackTimeZone;
+    date = fromZonedTime(`${y}-${mo}-${d}T${h}:${mi}:${s}`, tz);
+  }
+
+  return Number.isNaN(date.getTime()) ? null : { date, isDate: false };
+}
+
+/**
+ * Parse a comma-separated list of DATE/DATE-TIME values (EXDATE, RDATE).
+ * Unparseable entries are dropped.
+ */
+export function parseIcsDateList(
+  value: string,
+  params: Record<string, string>,
+  fallbackTimeZone: string,
+): Date[] {
+  return value
+    .split(',')
+    .map((v) => parseIcsDate(v, params, fallbackTimeZone))
+    .filter((v): v is IcsDateValue => v !== null)
+    .map((v) => v.date);
+}
+
+/**
+ * Parse a DURATION value (e.g. `PT1H30M`, `-P1D`, `P2W`) into milliseconds.
+ * Returns null if the value cannot be parsed.
+ */
+export function parseIcsDuration(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match || value.trim().match(/^[+-]?PT?$/)) return null;
+
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    (Number(w ?? 0) * 7 * 86400 +
+      Number(d ?? 0) * 86400 +
+      Number(h ?? 0) * 3600 +
+      Number(m ?? 0) * 60 +
+      Number(s ?? 0)) *
+    1000;
+
+  return sign === '-' ? -ms : ms;
+}
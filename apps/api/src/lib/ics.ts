@@ -0,0 +1,527 @@
+import { formatInTimeZone } from 'date-fns-tz';
+
+import { getUtcOffsetMinutes } from './timezone';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/**
+ * Minimal event shape needed to render a VEVENT component.
+ * Event rows and exception overrides are both mapped onto this shape.
+ */
+export interface IcsEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  startAt: Date;
+  endAt: Date;
+  /** Emit DTSTART (and DTEND, unless endTimezone is set) as local time with a TZID */
+  timezone?: string | null;
+  endTimezone?: string | null;
+  isAllDay: boolean;
+  rrule: string | null;
+  exDates: Date[] | null;
+  /** Extra occurrences outside the rule (RDATE) */
+  rDates?: Date[] | null;
+  createdAt: Date;
+  updatedAt: Date;
+  /** UID carried over from an imported calendar; defaults to `<id>@calley.app` */
+  icalUid?: string | null;
+  /** Set on override components of a recurring series (RFC 5545 §3.8.4.4) */
+  recurrenceId?: Date;
+  /** Scheduling fields, set on iTIP invitations (RFC 5546) */
+  organizer?: IcsOrganizer;
+  attendees?: IcsAttendee[];
+  sequence?: number;
+  status?: 'CONFIRMED' | 'CANCELLED';
+}
+
+export interface IcsOrganizer {
+  email: string;
+  name: string | null;
+}
+
+export interface IcsAttendee {
+  email: string;
+  name: string | null;
+  role: string;
+  status: string;
+}
+
+/**
+ * Minimal task shape needed to render a VTODO component.
+ */
+export interface IcsTask {
+  id: string;
+  title: string;
+  description: string | null;
+  dueAt: Date | null;
+  priority: string;
+  status: string;
+  completedAt: Date | null;
+  rrule: string | null;
+  exDates: Date[] | null;
+  createdAt: Date;
+  updatedAt: Date;
+  icalUid?: string | null;
+  recurrenceId?: Date;
+}
+
+export interface IcsFreeBusy {
+  /** The person whose time is described */
+  organizer: IcsOrganizer;
+  start: Date;
+  end: Date;
+  busy: { start: Date; end: Date }[];
+}
+
+export interface IcsCalendarOptions {
+  method?: string;
+  /** Display name shown by subscribing clients (X-WR-CALNAME) */
+  name?: string;
+  /** Suggested polling interval for subscribed feeds, as an ISO 8601 duration */
+  refreshInterval?: string;
+}
+
+// ─── Formatting Helpers ─────────────────────────────────────────────
+
+/**
+ * Escape a text value for inclusion in an ICS file.
+ * Per RFC 5545: backslash, semicolons, commas, and newlines must be escaped.
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\n/g, '\\n');
+}
+
+/**
+ * Strip HTML tags to produce plain text for ICS DESCRIPTION.
+ */
+export function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, '').trim();
+}
+
+/**
+ * Fold long lines for ICS output (max 75 octets per line, per RFC 5545 §3.1).
+ */
+export function foldIcsLine(line: string): string {
+  const maxLen = 75;
+  if (line.length <= maxLen) return line;
+
+  const parts: string[] = [];
+  parts.push(line.slice(0, maxLen));
+  let pos = maxLen;
+  while (pos < line.length) {
+    // Continuation lines start with a single space
+    parts.push(' ' + line.slice(pos, pos + maxLen - 1));
+    pos += maxLen - 1;
+  }
+  return parts.join('\r\n');
+}
+
+/**
+ * Format a Date as a UTC DATE-TIME value (e.g. `20260315T100000Z`).
+ */
+export function formatIcsDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a Date as a DATE value (e.g. `20260315`).
+ */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Format a Date as a local DATE-TIME value in a timezone, for use with a
+ * TZID parameter (e.g. `20260315T060000`).
+ */
+export function formatIcsLocalDateTime(date: Date, timeZone: string): string {
+  return formatInTimeZone(date, timeZone, "yyyyMMdd'T'HHmmss");
+}
+
+/**
+ * Format a DATE-TIME property, as local time with a TZID when a timezone
+ * is given and in UTC otherwise. Lists (EXDATE, RDATE) share one TZID.
+ */
+function formatIcsDateTimeProperty(
+  name: string,
+  dates: Date[],
+  timeZone: string | null | undefined,
+): string {
+  if (!timeZone) return `${name}:${dates.map(formatIcsDateTime).join(',')}`;
+  const values = dates.map((d) => formatIcsLocalDateTime(d, timeZone));
+  return `${name};TZID=${timeZone}:${values.join(',')}`;
+}
+
+/**
+ * Format a UTC offset in minutes as `+HHMM`/`-HHMM` (TZOFFSETFROM/TZOFFSETTO).
+ */
+function formatIcsUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Quote a parameter value (e.g. CN). DQUOTE can't appear inside a quoted
+ * value, so it is dropped along with control characters.
+ */
+function formatIcsParamValue(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return `"${value.replace(/["\x00-\x1f\x7f]/g, '')}"`;
+}
+
+/** Calley attendee role → iCalendar ROLE */
+const ATTENDEE_ROLE_VALUES: Record<string, string> = {
+  required: 'REQ-PARTICIPANT',
+  optional: 'OPT-PARTICIPANT',
+};
+
+/** Calley RSVP status → iCalendar PARTSTAT */
+const ATTENDEE_STATUS_VALUES: Record<string, string> = {
+  needs_action: 'NEEDS-ACTION',
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+  tentative: 'TENTATIVE',
+};
+
+/** Calley task priority → iCalendar PRIORITY (1 = highest, 9 = lowest) */
+const TASK_PRIORITY_VALUES: Record<string, number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+/** Calley task status → iCalendar VTODO STATUS */
+const TASK_STATUS_VALUES: Record<string, string> = {
+  todo: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  done: 'COMPLETED',
+};
+
+// ─── Builders ───────────────────────────────────────────────────────
+
+/**
+ * Merge an exception override onto its parent event to produce the
+ * RECURRENCE-ID component for that instance. When only startAt is
+ * overridden, the parent's duration is preserved.
+ */
+export function buildOverrideIcsEvent(
+  parent: IcsEvent,
+  originalDate: Date,
+  overrides: Record<string, unknown>,
+  updatedAt: Date,
+): IcsEvent {
+  const duration = parent.endAt.getTime() - parent.startAt.getTime();
+  const startAt =
+    overrides.startAt !== undefined ? new Date(overrides.startAt as string) : originalDate;
+  const endAt =
+    overrides.endAt !== undefined
+      ? new Date(overrides.endAt as string)
+      : new Date(startAt.getTime() + duration);
+
+  return {
+    ...parent,
+    title: overrides.title !== undefined ? (overrides.title as string) : parent.title,
+    description:
+      overrides.description !== undefined
+        ? (overrides.description as string | null)
+        : parent.description,
+    location:
+      overrides.location !== undefined ? (overrides.location as string | null) : parent.location,
+    isAllDay: overrides.isAllDay !== undefined ? (overrides.isAllDay as boolean) : parent.isAllDay,
+    startAt,
+    endAt: endAt < startAt ? startAt : endAt,
+    // Overrides describe a single instance — they never carry their own rule
+    rrule: null,
+    exDates: null,
+    rDates: null,
+    updatedAt,
+    recurrenceId: originalDate,
+  };
+}
+
+/**
+ * Build the content lines of a single VEVENT component (unfolded).
+ */
+export function buildVEvent(event: IcsEvent): string[] {
+  const lines: string[] = [];
+
+  lines.push('BEGIN:VEVENT');
+  lines.push(`UID:${event.icalUid ?? `${event.id}@calley.app`}`);
+
+  // Format dates for ICS
+  if (event.isAllDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.startAt)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatIcsDate(event.endAt)}`);
+  } else {
+    lines.push(formatIcsDateTimeProperty('DTSTART', [event.startAt], event.timezone));
+    lines.push(
+      formatIcsDateTimeProperty('DTEND', [event.endAt], event.endTimezone ?? event.timezone),
+    );
+  }
+
+  if (event.recurrenceId) {
+    lines.push(
+      event.isAllDay
+        ? `RECURRENCE-ID;VALUE=DATE:${formatIcsDate(event.recurrenceId)}`
+        : formatIcsDateTimeProperty('RECURRENCE-ID', [event.recurrenceId], event.timezone),
+    );
+  }
+
+  const updatedStr = formatIcsDateTime(event.updatedAt);
+  lines.push(`DTSTAMP:${updatedStr}`);
+  lines.push(`CREATED:${formatIcsDateTime(event.createdAt)}`);
+  lines.push(`LAST-MODIFIED:${updatedStr}`);
+
+  lines.push(`SUMMARY:${escapeIcsText(event.title)}`);
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(stripHtml(event.description))}`);
+  }
+
+  if (event.location) {
+    lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  }
+
+  if (event.organizer) {
+    const cn = event.organizer.name ? `;CN=${formatIcsParamValue(event.organizer.name)}` : '';
+    lines.push(`ORGANIZER${cn}:mailto:${event.organizer.email}`);
+  }
+
+  for (const attendee of event.attendees ?? []) {
+    const params = [
+      ...(attendee.name ? [`CN=${formatIcsParamValue(attendee.name)}`] : []),
+      `ROLE=${ATTENDEE_ROLE_VALUES[attendee.role] ?? 'REQ-PARTICIPANT'}`,
+      `PARTSTAT=${ATTENDEE_STATUS_VALUES[attendee.status] ?? 'NEEDS-ACTION'}`,
+      'RSVP=TRUE',
+    ];
+    lines.push(`ATTENDEE;${params.join(';')}:mailto:${attendee.email}`);
+  }
+
+  if (event.sequence !== undefined) {
+    lines.push(`SEQUENCE:${event.sequence}`);
+  }
+
+  if (event.rrule) {
+    lines.push(`RRULE:${event.rrule}`);
+  }
+
+  // Add rDates and exDates (in DTSTART's timezone, per RFC 5545 §3.8.5.1-2)
+  if (event.rDates && event.rDates.length > 0) {
+    lines.push(
+      formatIcsDateTimeProperty('RDATE', event.rDates, event.isAllDay ? null : event.timezone),
+    );
+  }
+  if (event.exDates && event.exDates.length > 0) {
+    lines.push(
+      formatIcsDateTimeProperty('EXDATE', event.exDates, event.isAllDay ? null : event.timezone),
+    );
+  }
+
+  lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Build the content lines of a single VTODO component (unfolded).
+ */
+export function buildVTodo(task: IcsTask): string[] {
+  const lines: string[] = [];
+
+  lines.push('BEGIN:VTODO');
+  lines.push(`UID:${task.icalUid ?? `${task.id}@calley.app`}`);
+
+  const updatedStr = formatIcsDateTime(task.updatedAt);
+  lines.push(`DTSTAMP:${updatedStr}`);
+  lines.push(`CREATED:${formatIcsDateTime(task.createdAt)}`);
+  lines.push(`LAST-MODIFIED:${updatedStr}`);
+
+  if (task.dueAt) {
+    lines.push(`DUE:${formatIcsDateTime(task.dueAt)}`);
+  }
+
+  if (task.recurrenceId) {
+    lines.push(`RECURRENCE-ID:${formatIcsDateTime(task.recurrenceId)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcsText(task.title)}`);
+
+  if (task.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(stripHtml(task.description))}`);
+  }
+
+  const priority = TASK_PRIORITY_VALUES[task.priority];
+  if (priority) {
+    lines.push(`PRIORITY:${priority}`);
+  }
+
+  lines.push(`STATUS:${TASK_STATUS_VALUES[task.status] ?? 'NEEDS-ACTION'}`);
+
+  if (task.completedAt) {
+    lines.push(`COMPLETED:${formatIcsDateTime(task.completedAt)}`);
+  }
+
+  if (task.rrule) {
+    lines.push(`RRULE:${task.rrule}`);
+  }
+
+  if (task.exDates && task.exDates.length > 0) {
+    lines.push(`EXDATE:${task.exDates.map(formatIcsDateTime).join(',')}`);
+  }
+
+  lines.push('END:VTODO');
+
+  return lines;
+}
+
+/**
+ * Build the content lines of a VFREEBUSY component (unfolded) publishing
+ * one person's busy periods over a range. Periods are in UTC, per
+ * RFC 5545 §3.8.2.6.
+ */
+export function buildVFreeBusy(freeBusy: IcsFreeBusy): string[] {
+  const lines: string[] = [];
+
+  lines.push('BEGIN:VFREEBUSY');
+  lines.push(`DTSTAMP:${formatIcsDateTime(new Date())}`);
+  lines.push(`DTSTART:${formatIcsDateTime(freeBusy.start)}`);
+  lines.push(`DTEND:${formatIcsDateTime(freeBusy.end)}`);
+
+  const cn = freeBusy.organizer.name ? `;CN=${formatIcsParamValue(freeBusy.organizer.name)}` : '';
+  lines.push(`ORGANIZER${cn}:mailto:${freeBusy.organizer.email}`);
+
+  for (const period of freeBusy.busy) {
+    lines.push(
+      `FREEBUSY;FBTYPE=BUSY:${formatIcsDateTime(period.start)}/${formatIcsDateTime(period.end)}`,
+    );
+  }
+
+  lines.push('END:VFREEBUSY');
+
+  return lines;
+}
+
+/**
+ * Build a VTIMEZONE component for an IANA timezone with explicit
+ * observances for every UTC offset change in the given years. The runtime's
+ * timezone data is the source, so no rules need to be maintained here.
+ */
+export function buildVTimezone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const rangeStart = Date.UTC(fromYear, 0, 1);
+  const rangeEnd = Date.UTC(toYear + 1, 0, 1);
+  const offsetAt = (ms: number) => getUtcOffsetMinutes(timeZone, new Date(ms));
+
+  // Find offset changes: step a week at a time, then binary-search each
+  // change down to the minute
+  const transitions: { at: number; from: number; to: number }[] = [];
+  const step = 7 * 24 * 60 * 60 * 1000;
+  let prevOffset = offsetAt(rangeStart);
+  for (let t = rangeStart; t < rangeEnd; t += step) {
+    const next = Math.min(t + step, rangeEnd);
+    const nextOffset = offsetAt(next);
+    if (nextOffset === prevOffset) continue;
+
+    let lo = t;
+    let hi = next;
+    while (hi - lo > 60000) {
+      const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+      if (offsetAt(mid) === prevOffset) lo = mid;
+      else hi = mid;
+    }
+    transitions.push({ at: hi, from: prevOffset, to: nextOffset });
+    prevOffset = nextOffset;
+  }
+
+  const initialOffset = offsetAt(rangeStart);
+  const standardOffset = Math.min(initialOffset, ...transitions.map((t) => t.to));
+  const observance = (at: number, from: number, to: number) => {
+    const type = to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    // An observance starts at the local time in effect before it
+    const onset = new Date(at + from * 60000).toISOString();
+    return [
+      `BEGIN:${type}`,
+      `DTSTART:${onset.slice(0, 19).replace(/[-:]/g, '')}`,
+      `TZOFFSETFROM:${formatIcsUtcOffset(from)}`,
+      `TZOFFSETTO:${formatIcsUtcOffset(to)}`,
+      `END:${type}`,
+    ];
+  };
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    // The offset at the start of the range, as of local midnight on Jan 1
+    ...observance(rangeStart - initialOffset * 60000, initialOffset, initialOffset),
+    ...transitions.flatMap((t) => observance(t.at, t.from, t.to)),
+    'END:VTIMEZONE',
+  ];
+}
+
+/**
+ * Build VTIMEZONE components for every TZID referenced by the given
+ * component lines, covering the years of the dates that use it.
+ * Open-ended series are covered from their first year; clients resolve
+ * later dates from the IANA TZID itself.
+ */
+function buildReferencedTimezones(components: string[]): string[] {
+  const years = new Map<string, { min: number; max: number }>();
+
+  for (const line of components) {
+    const match = line.match(/^[A-Z-]+;(?:[^:]*;)?TZID=([^;:]+)[^:]*:(.+)$/);
+    if (!match) continue;
+
+    const [, tzid, values] = match;
+    for (const value of values.split(',')) {
+      const year = Number(value.slice(0, 4));
+      if (!Number.isFinite(year)) continue;
+      const range = years.get(tzid);
+      years.set(tzid, {
+        min: Math.min(range?.min ?? year, year),
+        max: Math.max(range?.max ?? year, year),
+      });
+    }
+  }
+
+  return [...years].flatMap(([tzid, { min, max }]) => buildVTimezone(tzid, min, max));
+}
+
+/**
+ * Wrap component lines in a VCALENDAR and serialize the result.
+ * Long lines are folded and joined with CRLF per RFC 5545. A VTIMEZONE is
+ * added for each TZID the components reference.
+ */
+export function buildCalendar(components: string[], options: IcsCalendarOptions = {}): string {
+  const lines: string[] = [];
+
+  lines.push('BEGIN:VCALENDAR');
+  lines.push('VERSION:2.0');
+  lines.push('PRODID:-//Calley//Calley Calendar//EN');
+  lines.push('CALSCALE:GREGORIAN');
+  lines.push(`METHOD:${options.method ?? 'PUBLISH'}`);
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  }
+
+  if (options.refreshInterval) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`);
+    lines.push(`X-PUBLISHED-TTL:${options.refreshInterval}`);
+  }
+
+  lines.push(...buildReferencedTimezones(components));
+  lines.push(...components);
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,54 @@
+import { formatInTimeZone } from 'date-fns-tz';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Validation ─────────────────────────────────────────────────────
+
+/**
+ * Check that a string is an IANA timezone known to the runtime.
+ */
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ─── Wall-Clock Conversion ──────────────────────────────────────────
+
+/**
+ * Convert an instant to its wall-clock time in a timezone, expressed as a
+ * "floating" Date whose UTC fields hold the local date and time. rrule.js
+ * expands rules in UTC, so expanding floating dates keeps occurrences at
+ * the same local time across DST changes.
+ */
+export function toWallClock(date: Date, timeZone: string): Date {
+  return new Date(`${formatInTimeZone(date, timeZone, "yyyy-MM-dd'T'HH:mm:ss.SSS")}Z`);
+}
+
+/**
+ * UTC offset of a timezone at an instant, in minutes east of UTC.
+ */
+export function getUtcOffsetMinutes(timeZone: string, date: Date): number {
+  return Math.round((toWallClock(date, timeZone).getTime() - date.getTime()) / 60000);
+}
+
+/**
+ * Inverse of toWallClock: interpret a floating Date's UTC fields as local
+ * time in a timezone. Ambiguous times (DST fall-back) resolve to the first
+ * occurrence; times skipped by a DST gap resolve forward, like most
+ * calendar clients.
+ */
+export function fromWallClock(floating: Date, timeZone: string): Date {
+  const local = floating.getTime();
+  // Offsets in effect a day either side bracket any single transition
+  const before = local - getUtcOffsetMinutes(timeZone, new Date(local - DAY_MS)) * 60000;
+  const after = local - getUtcOffsetMinutes(timeZone, new Date(local + DAY_MS)) * 60000;
+
+  for (const candidate of [before, after]) {
+    if (toWallClock(new Date(candidate), timeZone).getTime() === local) return new Date(candidate);
+  }
+  return new Date(before);
+}
@@ -0,0 +1,16 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+/**
+ * Generate a random token for a link or URL (256-bit, hex-encoded, 64 chars).
+ */
+export function generateToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Hash a token for storage. Only the hash is kept, so a leaked database
+ * doesn't give away working links.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
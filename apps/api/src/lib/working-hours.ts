@@ -0,0 +1,82 @@
+import { DEFAULT_WORKING_HOURS } from '@calley/shared';
+
+import { fromWallClock, toWallClock } from './timezone';
+
+import type { WorkingHours } from '@calley/shared';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** Working hours with the timezone they are defined in filled in */
+export interface ResolvedWorkingHours {
+  days: WorkingHours['days'];
+  timezone: string;
+}
+
+export interface WorkingInterval {
+  start: Date;
+  end: Date;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/**
+ * A user's working hours, falling back to the defaults when they haven't
+ * set any, and to their profile timezone when the hours don't name one.
+ */
+export function resolveWorkingHours(user: {
+  timezone: string;
+  workingHours: WorkingHours | null;
+}): ResolvedWorkingHours {
+  const hours = user.workingHours ?? DEFAULT_WORKING_HOURS;
+  return { days: hours.days, timezone: hours.timezone ?? user.timezone };
+}
+
+function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours * 60 + minutes) * MINUTE_MS;
+}
+
+/**
+ * The working periods that overlap [from, to), as instants. Each day's
+ * ranges are wall-clock times in the hours' timezone, so a 9–5 day stays
+ * 9–5 locally across DST changes. A range ending at 24:00 runs on into
+ * one starting at 00:00 the next day as a single period, so meetings can
+ * be fitted across midnight.
+ */
+export function getWorkingIntervals(
+  hours: ResolvedWorkingHours,
+  from: Date,
+  to: Date,
+): WorkingInterval[] {
+  // Start a day early: the previous local day can still be running at `from`
+  const firstDay = Math.floor(toWallClock(from, hours.timezone).getTime() / DAY_MS) - 1;
+  const lastDay = Math.floor(toWallClock(to, hours.timezone).getTime() / DAY_MS);
+  const intervals: WorkingInterval[] = [];
+
+  for (let day = firstDay; day <= lastDay; day++) {
+    const midnight = day * DAY_MS;
+    const weekday = new Date(midnight).getUTCDay();
+
+    for (const range of hours.days[weekday] ?? []) {
+      const start = fromWallClock(new Date(midnight + parseTimeOfDay(range.start)), hours.timezone);
+      const end = fromWallClock(new Date(midnight + parseTimeOfDay(range.end)), hours.timezone);
+      if (end > from && start < to) intervals.push({ start, end });
+    }
+  }
+
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: WorkingInterval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,177 @@
+// ─── Types ──────────────────────────────────────────────────────────
+
+/**
+ * A parsed XML element with its namespace resolved. WebDAV clients use
+ * arbitrary prefixes (`D:`, `d:`, default xmlns), so elements are always
+ * matched on `namespace` + `name`, never on the prefix.
+ */
+export interface XmlElement {
+  namespace: string;
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Escape text for inclusion in XML content or attribute values.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ─── Parser ─────────────────────────────────────────────────────────
+
+interface OpenElement {
+  element: XmlElement;
+  qname: string;
+  scope: Map<string, string>;
+}
+
+/**
+ * Parse a small XML document (e.g. a WebDAV request body) into an element
+ * tree with namespaces resolved. DTDs and processing instructions are
+ * skipped; entities beyond the predefined and numeric ones are not expanded.
+ */
+export function parseXml(input: string): XmlElement {
+  const tokenRe =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+  const stack: OpenElement[] = [];
+  let root: XmlElement | null = null;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+
+  const resolve = (qname: string, scope: Map<string, string>, isAttribute = false) => {
+    const colon = qname.indexOf(':');
+    const prefix = colon === -1 ? '' : qname.slice(0, colon);
+    const name = colon === -1 ? qname : qname.slice(colon + 1);
+    // Unprefixed attributes have no namespace
+    if (isAttribute && !prefix) return { namespace: '', name };
+    const namespace = scope.get(prefix);
+    if (namespace === undefined && prefix) {
+      throw new XmlParseError(`Undeclared namespace prefix: ${prefix}`);
+    }
+    return { namespace: namespace ?? '', name };
+  };
+
+  while ((match = tokenRe.exec(input)) !== null) {
+    if (match.index !== consumed) {
+      throw new XmlParseError(`Unexpected content at position ${consumed}`);
+    }
+    consumed = tokenRe.lastIndex;
+
+    const [token, cdata, closeName, openName, rawAttrs, selfClose, text] = match;
+
+    if (text !== undefined || cdata !== undefined) {
+      const current = stack[stack.length - 1];
+      if (current) {
+        current.element.text += cdata ?? decodeEntities(text);
+      } else if (text !== undefined && text.trim()) {
+        throw new XmlParseError('Text outside of the root element');
+      }
+      continue;
+    }
+
+    if (closeName !== undefined) {
+      const open = stack.pop();
+      if (!open || open.qname !== closeName) {
+        throw new XmlParseError(`Unexpected closing tag </${closeName}>`);
+      }
+      continue;
+    }
+
+    if (openName === undefined) continue; // Comment, declaration or DOCTYPE
+    if (token.startsWith('<!') || token.startsWith('<?')) continue;
+
+    const parentScope = stack[stack.length - 1]?.scope ?? new Map<string, string>();
+    const scope = new Map(parentScope);
+    const rawAttributes: [string, string][] = [];
+
+    const attrRe = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let attr: RegExpExecArray | null;
+    while ((attr = attrRe.exec(rawAttrs)) !== null) {
+      const value = decodeEntities(attr[2] ?? attr[3] ?? '');
+      if (attr[1] === 'xmlns') scope.set('', value);
+      else if (attr[1].startsWith('xmlns:')) scope.set(attr[1].slice(6), value);
+      else rawAttributes.push([attr[1], value]);
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [qname, value] of rawAttributes) {
+      attributes[resolve(qname, scope, true).name] = value;
+    }
+
+    const element: XmlElement = {
+      ...resolve(openName, scope),
+      attributes,
+      children: [],
+      text: '',
+    };
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].element.children.push(element);
+    } else if (root) {
+      throw new XmlParseError('Multiple root elements');
+    } else {
+      root = element;
+    }
+
+    if (!selfClose) stack.push({ element, qname: openName, scope });
+  }
+
+  if (consumed !== input.length) {
+    throw new XmlParseError(`Unexpected content at position ${consumed}`);
+  }
+  if (stack.length > 0) {
+    throw new XmlParseError(`Missing closing tag for <${stack[stack.length - 1].qname}>`);
+  }
+  if (!root) {
+    throw new XmlParseError('Empty document');
+  }
+
+  return root;
+}
+
+// ─── Accessors ──────────────────────────────────────────────────────
+
+export function findChild(
+  element: XmlElement,
+  namespace: string,
+  name: string,
+): XmlElement | undefined {
+  return element.children.find((c) => c.namespace === namespace && c.name === name);
+}
+
+export function findChildren(element: XmlElement, namespace: string, name: string): XmlElement[] {
+  return element.children.filter((c) => c.namespace === namespace && c.name === name);
+}
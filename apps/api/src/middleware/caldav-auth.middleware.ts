@@ -0,0 +1,45 @@
+import { AppError } from '../lib/errors';
+import { appPasswordService } from '../services/app-password.service';
+
+import type { AppVariables } from '../types/hono';
+import type { MiddlewareHandler } from 'hono';
+
+const REALM = 'Calley CalDAV';
+
+/**
+ * HTTP Basic authentication for CalDAV clients, which cannot use the
+ * session cookie. The username is the account email and the password is
+ * an app password created in settings.
+ *
+ * Failures carry a `WWW-Authenticate` challenge so clients prompt for
+ * credentials instead of treating the 401 as fatal.
+ */
+export const caldavAuthMiddleware: MiddlewareHandler<{ Variables: AppVariables }> = async (
+  c,
+  next,
+) => {
+  const header = c.req.header('authorization') ?? '';
+  const match = header.match(/^Basic\s+([A-Za-z0-9+/=]+)$/i);
+
+  let userId: string | null = null;
+
+  if (match) {
+    const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      userId = await appPasswordService.verifyCredentials(
+        decoded.slice(0, separator),
+        decoded.slice(separator + 1),
+      );
+    }
+  }
+
+  if (!userId) {
+    c.header('WWW-Authenticate', `Basic realm="${REALM}", charset="UTF-8"`);
+    throw new AppError(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  c.set('userId', userId);
+
+  await next();
+};
@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+// Mock the app password service
+vi.mock('../../services/app-password.service', () => {
+  const mockAppPasswordService = {
+    listAppPasswords: vi.fn(),
+    createAppPassword: vi.fn(),
+    revokeAppPassword: vi.fn(),
+    verifyCredentials: vi.fn(),
+  };
+  return { appPasswordService: mockAppPasswordService };
+});
+
+// Mock auth middleware to always set a userId
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+// Mock CSRF middleware to pass through
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock rate limiter to pass through
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock security headers
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock CORS
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock request ID
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock request logger
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock error handler
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+// Mock DB (needed by app.ts imports)
+vi.mock('../../db', () => ({
+  db: {},
+  client: {},
+}));
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+// Mock redis
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+
+// Mock lucia
+vi.mock('../../lib/lucia', () => ({
+  lucia: {
+    createSession: vi.fn(),
+    createBlankSessionCookie: vi.fn(),
+    validateSession: vi.fn(),
+  },
+}));
+
+// Mock auth service
+vi.mock('../../services/auth.service', () => ({
+  authService: {},
+}));
+
+// Mock CSRF lib
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+
+// Mock OAuth
+vi.mock('../../lib/oauth', () => ({
+  googleOAuth: {},
+  githubOAuth: {},
+}));
+
+import { app } from '../../app';
+import { appPasswordService } from '../../services/app-password.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_APP_PASSWORD_ID = 'testapppassword1234567890';
+
+function makeAppPasswordResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_APP_PASSWORD_ID,
+    name: 'iPhone',
+    lastUsedAt: null,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('App Password Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /app-passwords', () => {
+    it('should list app passwords', async () => {
+      vi.mocked(appPasswordService.listAppPasswords).mockResolvedValue([makeAppPasswordResponse()]);
+
+      const res = await app.request('/app-passwords');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual([makeAppPasswordResponse()]);
+      expect(appPasswordService.listAppPasswords).toHaveBeenCalledWith(TEST_USER_ID);
+    });
+  });
+
+  describe('POST /app-passwords', () => {
+    it('should create an app password and return the secret once', async () => {
+      vi.mocked(appPasswordService.createAppPassword).mockResolvedValue(
+        makeAppPasswordResponse({ password: 'abcd1234-abcd1234-abcd1234-abcd1234' }) as never,
+      );
+
+      const res = await app.request('/app-passwords', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'iPhone' }),
+      });
+      const body = (await res.json()) as Record<string, unknown>;
+
+      expect(res.status).toBe(201);
+      expect(body.password).toBe('abcd1234-abcd1234-abcd1234-abcd1234');
+      expect(appPasswordService.createAppPassword).toHaveBeenCalledWith(TEST_USER_ID, {
+        name: 'iPhone',
+      });
+    });
+
+    it('should reject an empty name', async () => {
+      const res = await app.request('/app-passwords', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: '' }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(appPasswordService.createAppPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /app-passwords/:id', () => {
+    it('should revoke an app password', async () => {
+      vi.mocked(appPasswordService.revokeAppPassword).mockResolvedValue(undefined);
+
+      const res = await app.request(`/app-passwords/${TEST_APP_PASSWORD_ID}`, {
+        method: 'DELETE',
+      });
+
+      expect(res.status).toBe(204);
+      expect(appPasswordService.revokeAppPassword).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_APP_PASSWORD_ID,
+      );
+    });
+  });
+});
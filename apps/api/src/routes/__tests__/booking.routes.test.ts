@@ -0,0 +1,369 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+// Mock the booking service
+vi.mock('../../services/booking.service', () => ({
+  bookingService: {
+    listAppointmentTypes: vi.fn(),
+    createAppointmentType: vi.fn(),
+    updateAppointmentType: vi.fn(),
+    deleteAppointmentType: vi.fn(),
+    getBookingPage: vi.fn(),
+    getAvailableSlots: vi.fn(),
+    book: vi.fn(),
+    getBooking: vi.fn(),
+    cancelBooking: vi.fn(),
+    rescheduleBooking: vi.fn(),
+  },
+}));
+
+// Mock auth middleware to always set a userId
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+// Mock CSRF middleware to pass through
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock rate limiter to pass through
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock security headers
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock CORS
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock request ID
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock request logger
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock error handler
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+// Mock DB (needed by app.ts imports)
+vi.mock('../../db', () => ({
+  db: {},
+  client: {},
+}));
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+// Mock redis
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+
+// Mock lucia
+vi.mock('../../lib/lucia', () => ({
+  lucia: {
+    createSession: vi.fn(),
+    createBlankSessionCookie: vi.fn(),
+    validateSession: vi.fn(),
+  },
+}));
+
+// Mock auth service
+vi.mock('../../services/auth.service', () => ({
+  authService: {},
+}));
+
+// Mock CSRF lib
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+
+// Mock OAuth
+vi.mock('../../lib/oauth', () => ({
+  googleOAuth: {},
+  githubOAuth: {},
+}));
+
+import { app } from '../../app';
+import { AppError } from '../../lib/errors';
+import { authMiddleware } from '../../middleware/auth.middleware';
+import { bookingService } from '../../services/booking.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_TYPE_ID = 'apptype123456789012345678';
+const TEST_CATEGORY_ID = 'testcategory1234567890123';
+const TEST_TOKEN = 'cd'.repeat(32);
+
+function makeBooking(overrides: Record<string, unknown> = {}) {
+  return {
+    status: 'confirmed',
+    startAt: '2026-03-02T15:00:00.000Z',
+    endAt: '2026-03-02T15:30:00.000Z',
+    guest: { name: 'Guest', email: 'guest@example.com' },
+    notes: null,
+    timezone: 'Europe/London',
+    page: {
+      slug: 'intro-call',
+      name: 'Intro call',
+      description: null,
+      location: null,
+      durationMinutes: 30,
+      host: { name: 'Host' },
+    },
+    ...overrides,
+  };
+}
+
+function jsonRequest(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Booking Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ─── Appointment Types ────────────────────────────────────────
+
+  describe('POST /appointment-types', () => {
+    it('should create an appointment type with defaults applied', async () => {
+      (bookingService.createAppointmentType as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_TYPE_ID,
+      });
+
+      const res = await app.request(
+        '/appointment-types',
+        jsonRequest('POST', {
+          name: 'Intro call',
+          slug: 'Intro-Call',
+          categoryId: TEST_CATEGORY_ID,
+          durationMinutes: 30,
+        }),
+      );
+
+      expect(res.status).toBe(201);
+      expect(bookingService.createAppointmentType).toHaveBeenCalledWith(TEST_USER_ID, {
+        name: 'Intro call',
+        slug: 'intro-call',
+        categoryId: TEST_CATEGORY_ID,
+        durationMinutes: 30,
+        bufferMinutes: 0,
+        minNoticeMinutes: 60,
+        maxPerDay: null,
+        availability: null,
+        isActive: true,
+      });
+    });
+
+    it('should return 400 for an invalid slug', async () => {
+      const res = await app.request(
+        '/appointment-types',
+        jsonRequest('POST', {
+          name: 'Intro call',
+          slug: 'intro call!',
+          categoryId: TEST_CATEGORY_ID,
+          durationMinutes: 30,
+        }),
+      );
+
+      expect(res.status).toBe(400);
+      expect(bookingService.createAppointmentType).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /appointment-types/:id', () => {
+    it('should return 204', async () => {
+      (bookingService.deleteAppointmentType as ReturnType<typeof vi.fn>).mockResolvedValue(
+        undefined,
+      );
+
+      const res = await app.request(`/appointment-types/${TEST_TYPE_ID}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(204);
+      expect(bookingService.deleteAppointmentType).toHaveBeenCalledWith(TEST_USER_ID, TEST_TYPE_ID);
+    });
+  });
+
+  // ─── Public Booking Pages ─────────────────────────────────────
+
+  describe('GET /booking/pages/:slug/slots', () => {
+    it('should return open slots without a session', async () => {
+      (bookingService.getAvailableSlots as ReturnType<typeof vi.fn>).mockResolvedValue({
+        start: '2026-03-02T00:00:00.000Z',
+        end: '2026-03-09T00:00:00.000Z',
+        slots: [],
+      });
+
+      const res = await app.request(
+        '/booking/pages/intro-call/slots?start=2026-03-02T00:00:00.000Z&end=2026-03-09T00:00:00.000Z',
+      );
+
+      expect(res.status).toBe(200);
+      expect(bookingService.getAvailableSlots).toHaveBeenCalledWith('intro-call', {
+        start: '2026-03-02T00:00:00.000Z',
+        end: '2026-03-09T00:00:00.000Z',
+      });
+      expect(authMiddleware).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a range longer than the limit', async () => {
+      const res = await app.request(
+        '/booking/pages/intro-call/slots?start=2026-03-01T00:00:00.000Z&end=2026-06-01T00:00:00.000Z',
+      );
+
+      expect(res.status).toBe(400);
+      expect(bookingService.getAvailableSlots).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /booking/pages/:slug', () => {
+    it('should book the slot and return the manage token', async () => {
+      (bookingService.book as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeBooking({ token: TEST_TOKEN }),
+      );
+
+      const res = await app.request(
+        '/booking/pages/intro-call',
+        jsonRequest('POST', {
+          startAt: '2026-03-02T15:00:00.000Z',
+          name: 'Guest',
+          email: 'Guest@Example.com',
+        }),
+      );
+
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as { token: string };
+      expect(body.token).toBe(TEST_TOKEN);
+      expect(bookingService.book).toHaveBeenCalledWith('intro-call', {
+        startAt: '2026-03-02T15:00:00.000Z',
+        name: 'Guest',
+        email: 'guest@example.com',
+      });
+    });
+
+    it('should return 409 when the slot was taken', async () => {
+      (bookingService.book as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new AppError(409, 'CONFLICT', 'This time is no longer available'),
+      );
+
+      const res = await app.request(
+        '/booking/pages/intro-call',
+        jsonRequest('POST', {
+          startAt: '2026-03-02T15:00:00.000Z',
+          name: 'Guest',
+          email: 'guest@example.com',
+        }),
+      );
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  // ─── Manage Links ─────────────────────────────────────────────
+
+  describe('GET /booking/:token', () => {
+    it('should return the booking', async () => {
+      (bookingService.getBooking as ReturnType<typeof vi.fn>).mockResolvedValue(makeBooking());
+
+      const res = await app.request(`/booking/${TEST_TOKEN}`);
+
+      expect(res.status).toBe(200);
+      expect(bookingService.getBooking).toHaveBeenCalledWith(TEST_TOKEN);
+    });
+
+    it('should return 400 for a malformed token', async () => {
+      const res = await app.request('/booking/not-a-token');
+
+      expect(res.status).toBe(400);
+      expect(bookingService.getBooking).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /booking/:token/reschedule', () => {
+    it('should move the booking', async () => {
+      (bookingService.rescheduleBooking as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeBooking({ startAt: '2026-03-03T15:00:00.000Z' }),
+      );
+
+      const res = await app.request(
+        `/booking/${TEST_TOKEN}/reschedule`,
+        jsonRequest('POST', { startAt: '2026-03-03T15:00:00.000Z' }),
+      );
+
+      expect(res.status).toBe(200);
+      expect(bookingService.rescheduleBooking).toHaveBeenCalledWith(TEST_TOKEN, {
+        startAt: '2026-03-03T15:00:00.000Z',
+      });
+    });
+  });
+
+  describe('POST /booking/:token/cancel', () => {
+    it('should cancel the booking', async () => {
+      (bookingService.cancelBooking as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeBooking({ status: 'cancelled' }),
+      );
+
+      const res = await app.request(`/booking/${TEST_TOKEN}/cancel`, { method: 'POST' });
+
+      expect(res.status).toBe(200);
+      expect(bookingService.cancelBooking).toHaveBeenCalledWith(TEST_TOKEN);
+    });
+  });
+});
@@ -0,0 +1,472 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+// Mock the CalDAV service
+vi.mock('../../services/caldav.service', () => {
+  const mockCalDavService = {
+    getPrincipal: vi.fn(),
+    listCalendars: vi.fn(),
+    getCalendar: vi.fn(),
+    listResources: vi.fn(),
+    getResources: vi.fn(),
+    getResource: vi.fn(),
+    putResource: vi.fn(),
+    deleteResource: vi.fn(),
+  };
+  return { caldavService: mockCalDavService };
+});
+
+// Mock the app password service used by the Basic auth middleware
+vi.mock('../../services/app-password.service', () => ({
+  appPasswordService: {
+    listAppPasswords: vi.fn(),
+    createAppPassword: vi.fn(),
+    revokeAppPassword: vi.fn(),
+    verifyCredentials: vi.fn(),
+  },
+}));
+
+// Mock auth middleware to always set a userId
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+// Mock CSRF middleware to pass through
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock rate limiter to pass through
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock security headers
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock CORS
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock request ID
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock request logger
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock error handler
+// Uses c.json so headers set before the throw (WWW-Authenticate) are kept
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn(
+    (
+      err: Error & { statusCode?: number; code?: string; details?: unknown },
+      c: { json: (body: unknown, status: number) => Response },
+    ) => {
+      const status = err.statusCode || 500;
+      return c.json(
+        {
+          error: {
+            code: err.code || 'INTERNAL_ERROR',
+            message: err.message,
+            details: err.details,
+          },
+        },
+        status,
+      );
+    },
+  ),
+}));
+
+// Mock DB (needed by app.ts imports)
+vi.mock('../../db', () => ({
+  db: {},
+  client: {},
+}));
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+// Mock redis
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+
+// Mock lucia
+vi.mock('../../lib/lucia', () => ({
+  lucia: {
+    createSession: vi.fn(),
+    createBlankSessionCookie: vi.fn(),
+    validateSession: vi.fn(),
+  },
+}));
+
+// Mock auth service
+vi.mock('../../services/auth.service', () => ({
+  authService: {},
+}));
+
+// Mock CSRF lib
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+
+// Mock OAuth
+vi.mock('../../lib/oauth', () => ({
+  googleOAuth: {},
+  githubOAuth: {},
+}));
+
+import { app } from '../../app';
+import { appPasswordService } from '../../services/app-password.service';
+import { caldavService } from '../../services/caldav.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const OTHER_USER_ID = 'otheruser1234567890123456';
+const TEST_CATEGORY_ID = 'testcategory1234567890123';
+const CALENDAR_PATH = `/caldav/calendars/${TEST_USER_ID}/${TEST_CATEGORY_ID}/`;
+const AUTH_HEADER = `Basic ${Buffer.from('alice@example.com:abcd1234-abcd1234').toString('base64')}`;
+
+const ICS_DATA = 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nEND:VCALENDAR\r\n';
+
+function makeCalendar(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_CATEGORY_ID,
+    name: 'Work & Meetings',
+    color: '#3b82f6',
+    sortOrder: 0,
+    ctag: 'ctag123',
+    ...overrides,
+  };
+}
+
+function makeResource(overrides: Record<string, unknown> = {}) {
+  return {
+    name: 'event1.ics',
+    componentType: 'VEVENT',
+    etag: '"etag1"',
+    data: ICS_DATA,
+    lastModified: new Date('2026-03-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function davRequest(
+  method: string,
+  path: string,
+  body?: string,
+  headers: Record<string, string> = {},
+) {
+  return app.request(path, {
+    method,
+    headers: { Authorization: AUTH_HEADER, 'Content-Type': 'application/xml', ...headers },
+    body,
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('CalDAV Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(appPasswordService.verifyCredentials).mockResolvedValue(TEST_USER_ID);
+  });
+
+  // ─── Authentication ───────────────────────────────────────────
+
+  describe('Authentication', () => {
+    it('should challenge requests without credentials', async () => {
+      const res = await app.request('/caldav/', { method: 'PROPFIND' });
+
+      expect(res.status).toBe(401);
+      expect(res.headers.get('WWW-Authenticate')).toContain('Basic realm=');
+      expect(appPasswordService.verifyCredentials).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid app passwords', async () => {
+      vi.mocked(appPasswordService.verifyCredentials).mockResolvedValue(null);
+
+      const res = await davRequest('PROPFIND', '/caldav/');
+
+      expect(res.status).toBe(401);
+      expect(appPasswordService.verifyCredentials).toHaveBeenCalledWith(
+        'alice@example.com',
+        'abcd1234-abcd1234',
+      );
+    });
+
+    it('should answer OPTIONS without credentials', async () => {
+      const res = await app.request('/caldav/', { method: 'OPTIONS' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('DAV')).toContain('calendar-access');
+    });
+
+    it('should redirect the well-known URL to the service root', async () => {
+      const res = await app.request('/.well-known/caldav', { method: 'PROPFIND' });
+
+      expect(res.status).toBe(301);
+      expect(res.headers.get('Location')).toBe('/caldav/');
+    });
+  });
+
+  // ─── PROPFIND ─────────────────────────────────────────────────
+
+  describe('PROPFIND', () => {
+    it('should return the principal and calendar home from the root', async () => {
+      vi.mocked(caldavService.getPrincipal).mockResolvedValue({
+        name: 'Alice',
+        email: 'alice@example.com',
+      });
+
+      const res = await davRequest(
+        'PROPFIND',
+        '/caldav/',
+        '<?xml version="1.0"?><propfind xmlns="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">' +
+          '<prop><current-user-principal/><C:calendar-home-set/><getctag/></prop></propfind>',
+        { Depth: '0' },
+      );
+      const body = await res.text();
+
+      expect(res.status).toBe(207);
+      expect(body).toContain(
+        `<d:current-user-principal><d:href>/caldav/principals/${TEST_USER_ID}/</d:href>`,
+      );
+      expect(body).toContain(
+        `<cal:calendar-home-set><d:href>/caldav/calendars/${TEST_USER_ID}/</d:href>`,
+      );
+      // Unknown properties are reported in a 404 propstat
+      expect(body).toContain('<d:getctag/>');
+      expect(body).toContain('HTTP/1.1 404 Not Found');
+    });
+
+    it('should list calendars in the home collection', async () => {
+      vi.mocked(caldavService.listCalendars).mockResolvedValue([makeCalendar()]);
+
+      const res = await davRequest('PROPFIND', `/caldav/calendars/${TEST_USER_ID}/`, undefined, {
+        Depth: '1',
+      });
+      const body = await res.text();
+
+      expect(res.status).toBe(207);
+      expect(body).toContain(`<d:href>${CALENDAR_PATH}</d:href>`);
+      expect(body).toContain('<d:displayname>Work &amp; Meetings</d:displayname>');
+      expect(body).toContain('<cs:getctag>ctag123</cs:getctag>');
+      expect(body).toContain('<cal:comp name="VEVENT"/><cal:comp name="VTODO"/>');
+    });
+
+    it('should not list calendars with Depth 0', async () => {
+      const res = await davRequest('PROPFIND', `/caldav/calendars/${TEST_USER_ID}/`, undefined, {
+        Depth: '0',
+      });
+
+      expect(res.status).toBe(207);
+      expect(caldavService.listCalendars).not.toHaveBeenCalled();
+    });
+
+    it("should hide other users' calendars", async () => {
+      const res = await davRequest('PROPFIND', `/caldav/calendars/${OTHER_USER_ID}/`);
+
+      expect(res.status).toBe(404);
+      expect(caldavService.listCalendars).not.toHaveBeenCalled();
+    });
+
+    it('should list resource etags without calendar data for a calendar', async () => {
+      vi.mocked(caldavService.getCalendar).mockResolvedValue(makeCalendar());
+      vi.mocked(caldavService.listResources).mockResolvedValue([makeResource()] as never);
+
+      const res = await davRequest('PROPFIND', CALENDAR_PATH, undefined, { Depth: '1' });
+      const body = await res.text();
+
+      expect(res.status).toBe(207);
+      expect(caldavService.listResources).toHaveBeenCalledWith(TEST_USER_ID, TEST_CATEGORY_ID);
+      expect(body).toContain(`<d:href>${CALENDAR_PATH}event1.ics</d:href>`);
+      expect(body).toContain('<d:getetag>&quot;etag1&quot;</d:getetag>');
+      expect(body).not.toContain('<cal:calendar-data>');
+    });
+
+    it('should reject malformed XML', async () => {
+      const res = await davRequest('PROPFIND', '/caldav/', '<propfind xmlns="DAV:"><prop>');
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  // ─── PROPPATCH ────────────────────────────────────────────────
+
+  describe('PROPPATCH', () => {
+    it('should refuse every property change', async () => {
+      const res = await davRequest(
+        'PROPPATCH',
+        CALENDAR_PATH,
+        '<propertyupdate xmlns="DAV:" xmlns:A="http://apple.com/ns/ical/">' +
+          '<set><prop><A:calendar-color>#ff0000</A:calendar-color></prop></set></propertyupdate>',
+      );
+      const body = await res.text();
+
+      expect(res.status).toBe(207);
+      expect(body).toContain('<ical:calendar-color/>');
+      expect(body).toContain('HTTP/1.1 403 Forbidden');
+    });
+  });
+
+  // ─── REPORT ───────────────────────────────────────────────────
+
+  describe('REPORT', () => {
+    it('should run a calendar-query with component and time-range filters', async () => {
+      vi.mocked(caldavService.listResources).mockResolvedValue([makeResource()] as never);
+
+      const res = await davRequest(
+        'REPORT',
+        CALENDAR_PATH,
+        '<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">' +
+          '<D:prop><D:getetag/><C:calendar-data/></D:prop>' +
+          '<C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT">' +
+          '<C:time-range start="20260301T000000Z" end="20260401T000000Z"/>' +
+          '</C:comp-filter></C:comp-filter></C:filter></C:calendar-query>',
+        { Depth: '1' },
+      );
+      const body = await res.text();
+
+      expect(res.status).toBe(207);
+      expect(caldavService.listResources).toHaveBeenCalledWith(TEST_USER_ID, TEST_CATEGORY_ID, {
+        componentType: 'VEVENT',
+        start: new Date('2026-03-01T00:00:00.000Z'),
+        end: new Date('2026-04-01T00:00:00.000Z'),
+      });
+      expect(body).toContain('<cal:calendar-data>BEGIN:VCALENDAR');
+    });
+
+    it('should report missing hrefs in a calendar-multiget', async () => {
+      vi.mocked(caldavService.getResources).mockResolvedValue(
+        new Map([['event1.ics', makeResource()]]) as never,
+      );
+
+      const res = await davRequest(
+        'REPORT',
+        CALENDAR_PATH,
+        '<C:calendar-multiget xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">' +
+          '<D:prop><D:getetag/></D:prop>' +
+          `<D:href>${CALENDAR_PATH}event1.ics</D:href>` +
+          `<D:href>${CALENDAR_PATH}missing.ics</D:href>` +
+          '<D:href>/caldav/calendars/elsewhere/other.ics</D:href>' +
+          '</C:calendar-multiget>',
+      );
+      const body = await res.text();
+
+      expect(res.status).toBe(207);
+      expect(caldavService.getResources).toHaveBeenCalledWith(TEST_USER_ID, TEST_CATEGORY_ID, [
+        'event1.ics',
+        'missing.ics',
+      ]);
+      expect(body).toContain('<d:getetag>&quot;etag1&quot;</d:getetag>');
+      expect(body).toContain(
+        `<d:href>${CALENDAR_PATH}missing.ics</d:href><d:status>HTTP/1.1 404 Not Found</d:status>`,
+      );
+      expect(body).toContain(
+        '<d:href>/caldav/calendars/elsewhere/other.ics</d:href><d:status>HTTP/1.1 404 Not Found</d:status>',
+      );
+    });
+
+    it('should reject unsupported reports', async () => {
+      const res = await davRequest(
+        'REPORT',
+        CALENDAR_PATH,
+        '<D:sync-collection xmlns:D="DAV:"><D:sync-token/></D:sync-collection>',
+      );
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  // ─── Resources ────────────────────────────────────────────────
+
+  describe('Resources', () => {
+    it('should serve a resource with its ETag', async () => {
+      vi.mocked(caldavService.getResource).mockResolvedValue(makeResource() as never);
+
+      const res = await davRequest('GET', `${CALENDAR_PATH}event1.ics`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toContain('text/calendar');
+      expect(res.headers.get('ETag')).toBe('"etag1"');
+      expect(await res.text()).toBe(ICS_DATA);
+    });
+
+    it('should create a resource and pass preconditions through', async () => {
+      vi.mocked(caldavService.putResource).mockResolvedValue({ created: true, etag: '"new"' });
+
+      const res = await davRequest('PUT', `${CALENDAR_PATH}abc%40example.com.ics`, ICS_DATA, {
+        'Content-Type': 'text/calendar',
+        'If-None-Match': '*',
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.headers.get('ETag')).toBe('"new"');
+      expect(caldavService.putResource).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_CATEGORY_ID,
+        'abc@example.com.ics',
+        ICS_DATA,
+        { ifMatch: undefined, ifNoneMatch: '*' },
+      );
+    });
+
+    it('should return 204 when replacing a resource', async () => {
+      vi.mocked(caldavService.putResource).mockResolvedValue({ created: false, etag: '"v2"' });
+
+      const res = await davRequest('PUT', `${CALENDAR_PATH}event1.ics`, ICS_DATA, {
+        'If-Match': '"etag1"',
+      });
+
+      expect(res.status).toBe(204);
+    });
+
+    it('should delete a resource', async () => {
+      vi.mocked(caldavService.deleteResource).mockResolvedValue(undefined);
+
+      const res = await davRequest('DELETE', `${CALENDAR_PATH}event1.ics`);
+
+      expect(res.status).toBe(204);
+      expect(caldavService.deleteResource).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_CATEGORY_ID,
+        'event1.ics',
+        { ifMatch: undefined, ifNoneMatch: undefined },
+      );
+    });
+  });
+});
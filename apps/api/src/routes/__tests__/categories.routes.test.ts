@@ -12,6 +12,17 @@ vi.mock('../../services/category.service', () => {
   return { categoryService: mockCategoryService };
 });
 
+vi.mock('../../services/calendar-share.service', () => ({
+  calendarShareService: {
+    listShares: vi.fn(),
+    shareCategory: vi.fn(),
+    updateShare: vi.fn(),
+    removeShare: vi.fn(),
+    listSharedWithMe: vi.fn(),
+    leaveSharedCalendar: vi.fn(),
+  },
+}));
+
 vi.mock('../../middleware/auth.middleware', () => ({
   authMiddleware: vi.fn(
     async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
@@ -102,6 +113,7 @@ vi.mock('../../services/push-subscription.service', () => ({ pushSubscriptionSer
 
 import { app } from '../../app';
 import { AppError } from '../../lib/errors';
+import { calendarShareService } from '../../services/calendar-share.service';
 import { categoryService } from '../../services/category.service';
 
 // ─── Test Fixtures ──────────────────────────────────────────────────
@@ -265,4 +277,118 @@ describe('Category Routes — API Integration', () => {
       expect(body.error.code).toBe('CONFLICT');
     });
   });
+
+  // ─── Sharing ────────────────────────────────────────────────────
+
+  describe('Calendar sharing', () => {
+    const SHARE_ID = 'testshare1234567890123456';
+
+    function makeShareResponse(overrides: Record<string, unknown> = {}) {
+      return {
+        id: SHARE_ID,
+        categoryId: TEST_CATEGORY_ID,
+        memberId: 'memberuser123456789012345',
+        memberEmail: 'friend@example.com',
+        memberName: 'Friend',
+        permission: 'read',
+        createdAt: '2026-03-01T00:00:00.000Z',
+        updatedAt: '2026-03-01T00:00:00.000Z',
+        ...overrides,
+      };
+    }
+
+    it('should share a category and return 201', async () => {
+      (calendarShareService.shareCategory as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeShareResponse(),
+      );
+
+      const res = await app.request(`/categories/${TEST_CATEGORY_ID}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'Friend@Example.com', permission: 'read' }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(calendarShareService.shareCategory).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_CATEGORY_ID,
+        { email: 'friend@example.com', permission: 'read' },
+      );
+    });
+
+    it('should return 400 for an unknown permission', async () => {
+      const res = await app.request(`/categories/${TEST_CATEGORY_ID}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'friend@example.com', permission: 'owner' }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(calendarShareService.shareCategory).not.toHaveBeenCalled();
+    });
+
+    it('should list members of a category', async () => {
+      (calendarShareService.listShares as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeShareResponse(),
+      ]);
+
+      const res = await app.request(`/categories/${TEST_CATEGORY_ID}/shares`);
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as Array<Record<string, unknown>>;
+      expect(body[0].memberEmail).toBe('friend@example.com');
+    });
+
+    it('should change a member permission', async () => {
+      (calendarShareService.updateShare as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeShareResponse({ permission: 'edit' }),
+      );
+
+      const res = await app.request(`/categories/${TEST_CATEGORY_ID}/shares/${SHARE_ID}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ permission: 'edit' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(calendarShareService.updateShare).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_CATEGORY_ID,
+        SHARE_ID,
+        { permission: 'edit' },
+      );
+    });
+
+    it('should stop sharing and return 204', async () => {
+      (calendarShareService.removeShare as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const res = await app.request(`/categories/${TEST_CATEGORY_ID}/shares/${SHARE_ID}`, {
+        method: 'DELETE',
+      });
+
+      expect(res.status).toBe(204);
+    });
+
+    it('should list calendars shared with the user', async () => {
+      (calendarShareService.listSharedWithMe as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { shareId: SHARE_ID, categoryId: TEST_CATEGORY_ID, name: 'Team', permission: 'edit' },
+      ]);
+
+      const res = await app.request('/categories/shared');
+
+      expect(res.status).toBe(200);
+      expect(calendarShareService.listSharedWithMe).toHaveBeenCalledWith(TEST_USER_ID);
+    });
+
+    it('should leave a shared calendar and return 204', async () => {
+      (calendarShareService.leaveSharedCalendar as ReturnType<typeof vi.fn>).mockResolvedValue(
+        undefined,
+      );
+
+      const res = await app.request(`/categories/shared/${SHARE_ID}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(204);
+      expect(calendarShareService.leaveSharedCalendar).toHaveBeenCalledWith(TEST_USER_ID, SHARE_ID);
+    });
+  });
 });
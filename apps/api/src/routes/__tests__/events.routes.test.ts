@@ -11,11 +11,25 @@ vi.mock('../../services/event.service', () => {
     updateEvent: vi.fn(),
     deleteEvent: vi.fn(),
     duplicateEvent: vi.fn(),
+    restoreInstance: vi.fn(),
+    getSeriesLineage: vi.fn(),
+    mergeSegment: vi.fn(),
     exportIcs: vi.fn(),
+    previewRecurrence: vi.fn(),
   };
   return { eventService: mockEventService };
 });
 
+// Mock the attendee service
+vi.mock('../../services/attendee.service', () => ({
+  attendeeService: {
+    listAttendees: vi.fn(),
+    addAttendee: vi.fn(),
+    updateAttendee: vi.fn(),
+    removeAttendee: vi.fn(),
+  },
+}));
+
 // Mock auth middleware to always set a userId
 vi.mock('../../middleware/auth.middleware', () => ({
   authMiddleware: vi.fn(
@@ -133,6 +147,7 @@ vi.mock('../../lib/oauth', () => ({
 
 import { app } from '../../app';
 import { AppError } from '../../lib/errors';
+import { attendeeService } from '../../services/attendee.service';
 import { eventService } from '../../services/event.service';
 
 // ─── Test Fixtures ──────────────────────────────────────────────────
@@ -140,6 +155,23 @@ import { eventService } from '../../services/event.service';
 const TEST_USER_ID = 'testuser12345678901234567';
 const TEST_EVENT_ID = 'testevent12345678901234567';
 const TEST_CATEGORY_ID = 'testcategory1234567890123';
+const TEST_ATTENDEE_ID = 'testattendee1234567890123';
+const TEST_TAG_ID = 'testtag123456789012345678';
+
+function makeAttendeeResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_ATTENDEE_ID,
+    eventId: TEST_EVENT_ID,
+    email: 'guest@example.com',
+    name: 'Guest',
+    role: 'required',
+    status: 'needs_action',
+    respondedAt: null,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
 
 function makeEventResponse(overrides: Record<string, unknown> = {}) {
   return {
@@ -156,8 +188,8 @@ function makeEventResponse(overrides: Record<string, unknown> = {}) {
     visibility: 'private',
     rrule: null,
     exDates: [],
-    recurringEventId: null,
     originalDate: null,
+    tagIds: [],
     createdAt: '2026-03-01T00:00:00.000Z',
     updatedAt: '2026-03-01T00:00:00.000Z',
     deletedAt: null,
@@ -190,6 +222,7 @@ describe('Event Routes', () => {
         '2026-03-01T00:00:00Z',
         '2026-03-31T23:59:59Z',
         undefined,
+        undefined,
       );
     });
 
@@ -205,6 +238,23 @@ describe('Event Routes', () => {
         '2026-03-01T00:00:00Z',
         '2026-03-31T23:59:59Z',
         [TEST_CATEGORY_ID],
+        undefined,
+      );
+    });
+
+    it('should pass tagIds filter when provided', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      await app.request(
+        `/events?start=2026-03-01T00:00:00Z&end=2026-03-31T23:59:59Z&tagIds=${TEST_TAG_ID}`,
+      );
+
+      expect(eventService.listEvents).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        '2026-03-01T00:00:00Z',
+        '2026-03-31T23:59:59Z',
+        undefined,
+        [TEST_TAG_ID],
       );
     });
 
@@ -301,6 +351,48 @@ describe('Event Routes', () => {
     });
   });
 
+  // ─── POST /events/recurrence-preview ──────────────────────────
+
+  describe('POST /events/recurrence-preview', () => {
+    it('should return the next occurrences with defaults applied', async () => {
+      const occurrences = ['2026-03-31T10:00:00.000Z', '2026-04-30T10:00:00.000Z'];
+      (eventService.previewRecurrence as ReturnType<typeof vi.fn>).mockResolvedValue({
+        occurrences,
+      });
+
+      const res = await app.request('/events/recurrence-preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+          startAt: '2026-03-31T10:00:00Z',
+        }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ occurrences });
+      expect(eventService.previewRecurrence).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        expect.objectContaining({ count: 10, rDates: [], exDates: [], isAllDay: false }),
+      );
+    });
+
+    it('should return 400 for a count over the limit', async () => {
+      const res = await app.request('/events/recurrence-preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rrule: 'FREQ=DAILY',
+          startAt: '2026-03-31T10:00:00Z',
+          count: 500,
+        }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(eventService.previewRecurrence).not.toHaveBeenCalled();
+    });
+  });
+
   // ─── GET /events/:id ──────────────────────────────────────────
 
   describe('GET /events/:id', () => {
@@ -366,6 +458,27 @@ describe('Event Routes', () => {
         expect.objectContaining({ title: 'Changed Instance' }),
         'instance',
         '2026-03-20T10:00:00Z',
+        undefined,
+      );
+    });
+
+    it('should pass allSegments for an edit across a split series', async () => {
+      const updated = makeEventResponse();
+      (eventService.updateEvent as ReturnType<typeof vi.fn>).mockResolvedValue(updated);
+
+      await app.request(`/events/${TEST_EVENT_ID}?scope=all&allSegments=true`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'Renamed' }),
+      });
+
+      expect(eventService.updateEvent).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_EVENT_ID,
+        expect.objectContaining({ title: 'Renamed' }),
+        'all',
+        undefined,
+        true,
       );
     });
 
@@ -425,6 +538,87 @@ describe('Event Routes', () => {
     });
   });
 
+  // ─── POST /events/:id/restore-instance ────────────────────────
+
+  describe('POST /events/:id/restore-instance', () => {
+    it('should restore a skipped occurrence', async () => {
+      const event = makeEventResponse({ exDates: [] });
+      (eventService.restoreInstance as ReturnType<typeof vi.fn>).mockResolvedValue(event);
+
+      const res = await app.request(`/events/${TEST_EVENT_ID}/restore-instance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ instanceDate: '2026-03-17T10:00:00Z' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(eventService.restoreInstance).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_EVENT_ID,
+        '2026-03-17T10:00:00Z',
+      );
+    });
+
+    it('should return 400 without an instance date', async () => {
+      const res = await app.request(`/events/${TEST_EVENT_ID}/restore-instance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      expect(res.status).toBe(400);
+      expect(eventService.restoreInstance).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── GET /events/:id/series ───────────────────────────────────
+
+  describe('GET /events/:id/series', () => {
+    it('should return the segments of the series', async () => {
+      const segments = [
+        {
+          id: TEST_EVENT_ID,
+          title: 'Standup',
+          startAt: '2026-03-02T09:00:00.000Z',
+          rrule: 'FREQ=WEEKLY;UNTIL=20260315T235959Z',
+          until: '2026-03-15T23:59:59.000Z',
+          mergeable: false,
+        },
+      ];
+      (eventService.getSeriesLineage as ReturnType<typeof vi.fn>).mockResolvedValue(segments);
+
+      const res = await app.request(`/events/${TEST_EVENT_ID}/series`);
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(segments);
+      expect(eventService.getSeriesLineage).toHaveBeenCalledWith(TEST_USER_ID, TEST_EVENT_ID);
+    });
+  });
+
+  // ─── POST /events/:id/merge ───────────────────────────────────
+
+  describe('POST /events/:id/merge', () => {
+    it('should merge the segment into the one before it', async () => {
+      const merged = makeEventResponse();
+      (eventService.mergeSegment as ReturnType<typeof vi.fn>).mockResolvedValue(merged);
+
+      const res = await app.request(`/events/${TEST_EVENT_ID}/merge`, { method: 'POST' });
+
+      expect(res.status).toBe(200);
+      expect(eventService.mergeSegment).toHaveBeenCalledWith(TEST_USER_ID, TEST_EVENT_ID);
+    });
+
+    it('should return 409 when the segments no longer line up', async () => {
+      (eventService.mergeSegment as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new AppError(409, 'CONFLICT', 'This part of the series no longer follows on'),
+      );
+
+      const res = await app.request(`/events/${TEST_EVENT_ID}/merge`, { method: 'POST' });
+
+      expect(res.status).toBe(409);
+    });
+  });
+
   // ─── POST /events/:id/duplicate ───────────────────────────────
 
   describe('POST /events/:id/duplicate', () => {
@@ -465,4 +659,106 @@ describe('Event Routes', () => {
       expect(body).toContain('BEGIN:VCALENDAR');
     });
   });
+
+  // ─── Attendees ───────────────────────────────────────────────
+
+  describe('GET /events/:id/attendees', () => {
+    it('should list attendees of the event', async () => {
+      (attendeeService.listAttendees as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeAttendeeResponse(),
+      ]);
+
+      const res = await app.request(`/events/${TEST_EVENT_ID}/attendees`);
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as Record<string, unknown>[];
+      expect(body).toHaveLength(1);
+      expect(attendeeService.listAttendees).toHaveBeenCalledWith(TEST_USER_ID, TEST_EVENT_ID);
+    });
+  });
+
+  describe('POST /events/:id/attendees', () => {
+    it('should invite an attendee and return 201', async () => {
+      (attendeeService.addAttendee as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeAttendeeResponse(),
+      );
+
+      const res = await app.request(`/events/${TEST_EVENT_ID}/attendees`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'Guest@Example.com', name: 'Guest' }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(attendeeService.addAttendee).toHaveBeenCalledWith(TEST_USER_ID, TEST_EVENT_ID, {
+        email: 'guest@example.com',
+        name: 'Guest',
+        role: 'required',
+      });
+    });
+
+    it('should return 400 for an invalid email', async () => {
+      const res = await app.request(`/events/${TEST_EVENT_ID}/attendees`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'nope' }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(attendeeService.addAttendee).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the attendee is already invited', async () => {
+      (attendeeService.addAttendee as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new AppError(409, 'CONFLICT', 'This person is already invited'),
+      );
+
+      const res = await app.request(`/events/${TEST_EVENT_ID}/attendees`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'guest@example.com' }),
+      });
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  describe('PATCH /events/:id/attendees/:attendeeId', () => {
+    it('should update the attendee role', async () => {
+      (attendeeService.updateAttendee as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeAttendeeResponse({ role: 'optional' }),
+      );
+
+      const res = await app.request(`/events/${TEST_EVENT_ID}/attendees/${TEST_ATTENDEE_ID}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: 'optional' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(attendeeService.updateAttendee).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_EVENT_ID,
+        TEST_ATTENDEE_ID,
+        { role: 'optional' },
+      );
+    });
+  });
+
+  describe('DELETE /events/:id/attendees/:attendeeId', () => {
+    it('should remove the attendee and return 204', async () => {
+      (attendeeService.removeAttendee as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const res = await app.request(`/events/${TEST_EVENT_ID}/attendees/${TEST_ATTENDEE_ID}`, {
+        method: 'DELETE',
+      });
+
+      expect(res.status).toBe(204);
+      expect(attendeeService.removeAttendee).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_EVENT_ID,
+        TEST_ATTENDEE_ID,
+      );
+    });
+  });
 });
@@ -0,0 +1,275 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+// Mock the feed service
+vi.mock('../../services/feed.service', () => {
+  const mockFeedService = {
+    listFeeds: vi.fn(),
+    createFeed: vi.fn(),
+    rotateFeed: vi.fn(),
+    revokeFeed: vi.fn(),
+    renderFeed: vi.fn(),
+  };
+  return { feedService: mockFeedService };
+});
+
+// Mock auth middleware to always set a userId
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+// Mock CSRF middleware to pass through
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock rate limiter to pass through
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock security headers
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock CORS
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock request ID
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock request logger
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock error handler
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+// Mock DB (needed by app.ts imports)
+vi.mock('../../db', () => ({
+  db: {},
+  client: {},
+}));
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+// Mock redis
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+
+// Mock lucia
+vi.mock('../../lib/lucia', () => ({
+  lucia: {
+    createSession: vi.fn(),
+    createBlankSessionCookie: vi.fn(),
+    validateSession: vi.fn(),
+  },
+}));
+
+// Mock auth service
+vi.mock('../../services/auth.service', () => ({
+  authService: {},
+}));
+
+// Mock CSRF lib
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+
+// Mock OAuth
+vi.mock('../../lib/oauth', () => ({
+  googleOAuth: {},
+  githubOAuth: {},
+}));
+
+import { app } from '../../app';
+import { authMiddleware } from '../../middleware/auth.middleware';
+import { feedService } from '../../services/feed.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_FEED_ID = 'testfeed123456789012345678';
+const TEST_CATEGORY_ID = 'testcategory1234567890123';
+const TEST_TOKEN = 'ab'.repeat(32);
+
+function makeFeedResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_FEED_ID,
+    userId: TEST_USER_ID,
+    categoryId: TEST_CATEGORY_ID,
+    lastAccessedAt: null,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Feed Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ─── GET /feeds/:token/calendar.ics ───────────────────────────
+
+  describe('GET /feeds/:token/calendar.ics', () => {
+    it('should serve the feed without a session', async () => {
+      const icsContent = 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nEND:VCALENDAR\r\n';
+      (feedService.renderFeed as ReturnType<typeof vi.fn>).mockResolvedValue(icsContent);
+
+      const res = await app.request(`/feeds/${TEST_TOKEN}/calendar.ics`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+      expect(await res.text()).toBe(icsContent);
+      expect(feedService.renderFeed).toHaveBeenCalledWith(TEST_TOKEN);
+      expect(authMiddleware).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed token', async () => {
+      const res = await app.request('/feeds/not-a-token/calendar.ics');
+
+      expect(res.status).toBe(400);
+      expect(feedService.renderFeed).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── GET /feeds ───────────────────────────────────────────────
+
+  describe('GET /feeds', () => {
+    it('should list feeds for the user', async () => {
+      (feedService.listFeeds as ReturnType<typeof vi.fn>).mockResolvedValue([makeFeedResponse()]);
+
+      const res = await app.request('/feeds');
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as Record<string, unknown>[];
+      expect(body).toHaveLength(1);
+      expect(feedService.listFeeds).toHaveBeenCalledWith(TEST_USER_ID);
+    });
+  });
+
+  // ─── POST /feeds ──────────────────────────────────────────────
+
+  describe('POST /feeds', () => {
+    it('should create a category feed and return 201', async () => {
+      (feedService.createFeed as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...makeFeedResponse(),
+        token: TEST_TOKEN,
+      });
+
+      const res = await app.request('/feeds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ categoryId: TEST_CATEGORY_ID }),
+      });
+
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as Record<string, unknown>;
+      expect(body.token).toBe(TEST_TOKEN);
+      expect(feedService.createFeed).toHaveBeenCalledWith(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+      });
+    });
+
+    it('should default to an all-calendars feed', async () => {
+      (feedService.createFeed as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...makeFeedResponse({ categoryId: null }),
+        token: TEST_TOKEN,
+      });
+
+      const res = await app.request('/feeds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      expect(res.status).toBe(201);
+      expect(feedService.createFeed).toHaveBeenCalledWith(TEST_USER_ID, { categoryId: null });
+    });
+  });
+
+  // ─── POST /feeds/:id/rotate ───────────────────────────────────
+
+  describe('POST /feeds/:id/rotate', () => {
+    it('should rotate the feed token', async () => {
+      (feedService.rotateFeed as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...makeFeedResponse(),
+        token: TEST_TOKEN,
+      });
+
+      const res = await app.request(`/feeds/${TEST_FEED_ID}/rotate`, { method: 'POST' });
+
+      expect(res.status).toBe(200);
+      expect(feedService.rotateFeed).toHaveBeenCalledWith(TEST_USER_ID, TEST_FEED_ID);
+    });
+  });
+
+  // ─── DELETE /feeds/:id ────────────────────────────────────────
+
+  describe('DELETE /feeds/:id', () => {
+    it('should revoke the feed and return 204', async () => {
+      (feedService.revokeFeed as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const res = await app.request(`/feeds/${TEST_FEED_ID}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(204);
+      expect(feedService.revokeFeed).toHaveBeenCalledWith(TEST_USER_ID, TEST_FEED_ID);
+    });
+
+    it('should return 400 for an invalid feed id', async () => {
+      const res = await app.request('/feeds/INVALID!', { method: 'DELETE' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
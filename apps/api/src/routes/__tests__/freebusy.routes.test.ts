@@ -0,0 +1,238 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+vi.mock('../../services/freebusy.service', () => {
+  const mockFreeBusyService = {
+    query: vi.fn(),
+    queryIcs: vi.fn(),
+    findTime: vi.fn(),
+  };
+  return { freeBusyService: mockFreeBusyService };
+});
+
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+vi.mock('../../db', () => ({ db: {}, client: {} }));
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+vi.mock('../../lib/lucia', () => ({
+  lucia: { createSession: vi.fn(), createBlankSessionCookie: vi.fn(), validateSession: vi.fn() },
+}));
+vi.mock('../../services/auth.service', () => ({ authService: {} }));
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+vi.mock('../../lib/oauth', () => ({ googleOAuth: {}, githubOAuth: {} }));
+vi.mock('../../services/event.service', () => ({ eventService: {} }));
+vi.mock('../../services/task.service', () => ({ taskService: {} }));
+vi.mock('../../services/category.service', () => ({ categoryService: {} }));
+vi.mock('../../services/reminder.service', () => ({ reminderService: {} }));
+vi.mock('../../services/sse.service', () => ({ sseService: {} }));
+vi.mock('../../services/push-subscription.service', () => ({ pushSubscriptionService: {} }));
+vi.mock('../../services/calendar-share.service', () => ({ calendarShareService: {} }));
+
+import { app } from '../../app';
+import { AppError } from '../../lib/errors';
+import { freeBusyService } from '../../services/freebusy.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+
+const QUERY = {
+  start: '2026-03-02T00:00:00.000Z',
+  end: '2026-03-03T00:00:00.000Z',
+  emails: ['Colleague@Example.com'],
+};
+
+function postFreeBusy(body: unknown) {
+  return app.request('/freebusy', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Free/Busy Routes — API Integration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('POST /freebusy', () => {
+    it('should return merged busy intervals as JSON by default', async () => {
+      const result = {
+        start: QUERY.start,
+        end: QUERY.end,
+        calendars: [
+          {
+            email: 'colleague@example.com',
+            name: 'Colleague',
+            busy: [
+              { start: '2026-03-02T09:00:00.000Z', end: '2026-03-02T11:00:00.000Z', titles: [] },
+            ],
+          },
+        ],
+      };
+      (freeBusyService.query as ReturnType<typeof vi.fn>).mockResolvedValue(result);
+
+      const res = await postFreeBusy(QUERY);
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(result);
+      expect(freeBusyService.query).toHaveBeenCalledWith(TEST_USER_ID, {
+        ...QUERY,
+        emails: ['colleague@example.com'],
+        format: 'json',
+      });
+    });
+
+    it('should return VFREEBUSY when ICS output is requested', async () => {
+      (freeBusyService.queryIcs as ReturnType<typeof vi.fn>).mockResolvedValue(
+        'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n',
+      );
+
+      const res = await postFreeBusy({ ...QUERY, format: 'ics' });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toContain('text/calendar');
+      expect(await res.text()).toContain('BEGIN:VCALENDAR');
+      expect(freeBusyService.query).not.toHaveBeenCalled();
+    });
+
+    it('should pass through access errors from the service', async () => {
+      (freeBusyService.query as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new AppError(
+          403,
+          'FORBIDDEN',
+          'colleague@example.com has not shared their availability with you',
+        ),
+      );
+
+      const res = await postFreeBusy(QUERY);
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should return 400 when the range ends before it starts', async () => {
+      const res = await postFreeBusy({ ...QUERY, end: '2026-03-01T00:00:00.000Z' });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string } };
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 400 without any emails', async () => {
+      const res = await postFreeBusy({ ...QUERY, emails: [] });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /freebusy/find-time', () => {
+    function postFindTime(body: unknown) {
+      return app.request('/freebusy/find-time', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it('should apply defaults and return suggestions', async () => {
+      const result = {
+        start: QUERY.start,
+        end: QUERY.end,
+        slots: [{ start: '2026-03-02T14:00:00.000Z', end: '2026-03-02T14:30:00.000Z', score: 0.9 }],
+      };
+      (freeBusyService.findTime as ReturnType<typeof vi.fn>).mockResolvedValue(result);
+
+      const res = await postFindTime({ durationMinutes: 30, emails: QUERY.emails });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(result);
+      expect(freeBusyService.findTime).toHaveBeenCalledWith(TEST_USER_ID, {
+        emails: ['colleague@example.com'],
+        durationMinutes: 30,
+        includeWeekends: false,
+        limit: 5,
+      });
+    });
+
+    it('should return 400 for a duration below 15 minutes', async () => {
+      const res = await postFindTime({ durationMinutes: 5 });
+
+      expect(res.status).toBe(400);
+      expect(freeBusyService.findTime).not.toHaveBeenCalled();
+    });
+  });
+});
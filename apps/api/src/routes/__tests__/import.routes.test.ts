@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+// Mock the import service
+vi.mock('../../services/import.service', () => {
+  const mockImportService = {
+    importIcs: vi.fn(),
+  };
+  return { importService: mockImportService };
+});
+
+// Mock auth middleware to always set a userId
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+// Mock CSRF middleware to pass through
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock rate limiter to pass through
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock security headers
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock CORS
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock request ID
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock request logger
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock error handler
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+// Mock DB (needed by app.ts imports)
+vi.mock('../../db', () => ({
+  db: {},
+  client: {},
+}));
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+// Mock redis
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+
+// Mock lucia
+vi.mock('../../lib/lucia', () => ({
+  lucia: {
+    createSession: vi.fn(),
+    createBlankSessionCookie: vi.fn(),
+    validateSession: vi.fn(),
+  },
+}));
+
+// Mock auth service
+vi.mock('../../services/auth.service', () => ({
+  authService: {},
+}));
+
+// Mock CSRF lib
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+
+// Mock OAuth
+vi.mock('../../lib/oauth', () => ({
+  googleOAuth: {},
+  githubOAuth: {},
+}));
+
+import { app } from '../../app';
+import { importService } from '../../services/import.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_CATEGORY_ID = 'testcategory1234567890123';
+const ICS_CONTENT = 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nEND:VCALENDAR\r\n';
+
+function makeReport(overrides: Record<string, unknown> = {}) {
+  return {
+    dryRun: true,
+    categoryId: TEST_CATEGORY_ID,
+    created: 1,
+    skipped: 0,
+    invalid: 0,
+    reminders: 0,
+    items: [
+      {
+        uid: 'abc@example.com',
+        type: 'event',
+        title: 'Standup',
+        startAt: '2026-03-02T09:00:00.000Z',
+        status: 'created',
+        reason: null,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Import Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('POST /import/ics', () => {
+    it('should default to a dry run and return 200', async () => {
+      (importService.importIcs as ReturnType<typeof vi.fn>).mockResolvedValue(makeReport());
+
+      const res = await app.request('/import/ics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ categoryId: TEST_CATEGORY_ID, content: ICS_CONTENT }),
+      });
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as Record<string, unknown>;
+      expect(body.created).toBe(1);
+      expect(importService.importIcs).toHaveBeenCalledWith(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: ICS_CONTENT,
+        dryRun: true,
+      });
+    });
+
+    it('should return 201 when the import is committed', async () => {
+      (importService.importIcs as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeReport({ dryRun: false }),
+      );
+
+      const res = await app.request('/import/ics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          categoryId: TEST_CATEGORY_ID,
+          content: ICS_CONTENT,
+          dryRun: false,
+        }),
+      });
+
+      expect(res.status).toBe(201);
+      expect(importService.importIcs).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        expect.objectContaining({ dryRun: false }),
+      );
+    });
+
+    it('should return 400 for empty content', async () => {
+      const res = await app.request('/import/ics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ categoryId: TEST_CATEGORY_ID, content: '' }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(importService.importIcs).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when categoryId is missing', async () => {
+      const res = await app.request('/import/ics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: ICS_CONTENT }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(importService.importIcs).not.toHaveBeenCalled();
+    });
+  });
+});
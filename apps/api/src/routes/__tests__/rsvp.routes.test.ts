@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+// Mock the attendee service
+vi.mock('../../services/attendee.service', () => ({
+  attendeeService: {
+    getInvitation: vi.fn(),
+    respond: vi.fn(),
+  },
+}));
+
+// Mock auth middleware to always set a userId
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+// Mock CSRF middleware to pass through
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock rate limiter to pass through
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock security headers
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock CORS
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+// Mock request ID
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock request logger
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+// Mock error handler
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+// Mock DB (needed by app.ts imports)
+vi.mock('../../db', () => ({
+  db: {},
+  client: {},
+}));
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+// Mock redis
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+
+// Mock lucia
+vi.mock('../../lib/lucia', () => ({
+  lucia: {
+    createSession: vi.fn(),
+    createBlankSessionCookie: vi.fn(),
+    validateSession: vi.fn(),
+  },
+}));
+
+// Mock auth service
+vi.mock('../../services/auth.service', () => ({
+  authService: {},
+}));
+
+// Mock CSRF lib
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+
+// Mock OAuth
+vi.mock('../../lib/oauth', () => ({
+  googleOAuth: {},
+  githubOAuth: {},
+}));
+
+import { app } from '../../app';
+import { AppError } from '../../lib/errors';
+import { authMiddleware } from '../../middleware/auth.middleware';
+import { attendeeService } from '../../services/attendee.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_TOKEN = 'cd'.repeat(32);
+
+function makeInvitation(overrides: Record<string, unknown> = {}) {
+  return {
+    event: {
+      title: 'Planning',
+      location: null,
+      startAt: '2026-03-15T10:00:00.000Z',
+      endAt: '2026-03-15T11:00:00.000Z',
+      timezone: 'Europe/Berlin',
+      isAllDay: false,
+      rrule: null,
+    },
+    organizer: { name: 'Test User', email: 'test@example.com' },
+    attendee: { email: 'guest@example.com', name: null, status: 'needs_action' },
+    ...overrides,
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('RSVP Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ─── GET /rsvp/:token ─────────────────────────────────────────
+
+  describe('GET /rsvp/:token', () => {
+    it('should return the invitation without a session', async () => {
+      (attendeeService.getInvitation as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeInvitation(),
+      );
+
+      const res = await app.request(`/rsvp/${TEST_TOKEN}`);
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as Record<string, unknown>;
+      expect(body.organizer).toEqual({ name: 'Test User', email: 'test@example.com' });
+      expect(attendeeService.getInvitation).toHaveBeenCalledWith(TEST_TOKEN);
+      expect(authMiddleware).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed token', async () => {
+      const res = await app.request('/rsvp/not-a-token');
+
+      expect(res.status).toBe(400);
+      expect(attendeeService.getInvitation).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown token', async () => {
+      (attendeeService.getInvitation as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new AppError(404, 'NOT_FOUND', 'Invitation not found'),
+      );
+
+      const res = await app.request(`/rsvp/${TEST_TOKEN}`);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  // ─── POST /rsvp/:token ────────────────────────────────────────
+
+  describe('POST /rsvp/:token', () => {
+    it('should record the response', async () => {
+      (attendeeService.respond as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeInvitation({
+          attendee: { email: 'guest@example.com', name: null, status: 'accepted' },
+        }),
+      );
+
+      const res = await app.request(`/rsvp/${TEST_TOKEN}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'accepted' }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(attendeeService.respond).toHaveBeenCalledWith(TEST_TOKEN, { status: 'accepted' });
+    });
+
+    it('should return 400 for an unknown status', async () => {
+      const res = await app.request(`/rsvp/${TEST_TOKEN}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'maybe' }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(attendeeService.respond).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+vi.mock('../../services/tag.service', () => ({
+  tagService: {
+    listTags: vi.fn(),
+    createTag: vi.fn(),
+    updateTag: vi.fn(),
+    deleteTag: vi.fn(),
+  },
+}));
+
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+vi.mock('../../db', () => ({ db: {}, client: {} }));
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+vi.mock('../../lib/lucia', () => ({
+  lucia: { createSession: vi.fn(), createBlankSessionCookie: vi.fn(), validateSession: vi.fn() },
+}));
+vi.mock('../../services/auth.service', () => ({ authService: {} }));
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+vi.mock('../../lib/oauth', () => ({ googleOAuth: {}, githubOAuth: {} }));
+vi.mock('../../services/event.service', () => ({ eventService: {} }));
+vi.mock('../../services/task.service', () => ({ taskService: {} }));
+vi.mock('../../services/reminder.service', () => ({ reminderService: {} }));
+vi.mock('../../services/search.service', () => ({ searchService: {} }));
+vi.mock('../../services/sse.service', () => ({ sseService: {} }));
+vi.mock('../../services/push-subscription.service', () => ({ pushSubscriptionService: {} }));
+
+import { app } from '../../app';
+import { AppError } from '../../lib/errors';
+import { tagService } from '../../services/tag.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_TAG_ID = 'testtag123456789012345678';
+
+function makeTagResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_TAG_ID,
+    userId: TEST_USER_ID,
+    name: 'urgent',
+    color: '#ef4444',
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Tag Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should list the user's tags", async () => {
+    (tagService.listTags as ReturnType<typeof vi.fn>).mockResolvedValue([makeTagResponse()]);
+
+    const res = await app.request('/tags');
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as Array<Record<string, unknown>>;
+    expect(body[0].name).toBe('urgent');
+    expect(tagService.listTags).toHaveBeenCalledWith(TEST_USER_ID);
+  });
+
+  it('should create a tag and return 201', async () => {
+    (tagService.createTag as ReturnType<typeof vi.fn>).mockResolvedValue(makeTagResponse());
+
+    const res = await app.request('/tags', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: '  urgent ', color: '#ef4444' }),
+    });
+
+    expect(res.status).toBe(201);
+    expect(tagService.createTag).toHaveBeenCalledWith(TEST_USER_ID, {
+      name: 'urgent',
+      color: '#ef4444',
+    });
+  });
+
+  it('should return 400 for an invalid color', async () => {
+    const res = await app.request('/tags', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'urgent', color: 'red' }),
+    });
+
+    expect(res.status).toBe(400);
+    expect(tagService.createTag).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 for a duplicate tag name', async () => {
+    (tagService.createTag as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new AppError(409, 'CONFLICT', 'A tag with this name already exists'),
+    );
+
+    const res = await app.request('/tags', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'urgent', color: '#ef4444' }),
+    });
+
+    expect(res.status).toBe(409);
+    const body = (await res.json()) as { error: { code: string } };
+    expect(body.error.code).toBe('CONFLICT');
+  });
+
+  it('should rename a tag', async () => {
+    (tagService.updateTag as ReturnType<typeof vi.fn>).mockResolvedValue(
+      makeTagResponse({ name: 'blocked' }),
+    );
+
+    const res = await app.request(`/tags/${TEST_TAG_ID}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'blocked' }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(tagService.updateTag).toHaveBeenCalledWith(TEST_USER_ID, TEST_TAG_ID, {
+      name: 'blocked',
+    });
+  });
+
+  it('should delete a tag and return 204', async () => {
+    (tagService.deleteTag as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+    const res = await app.request(`/tags/${TEST_TAG_ID}`, { method: 'DELETE' });
+
+    expect(res.status).toBe(204);
+    expect(tagService.deleteTag).toHaveBeenCalledWith(TEST_USER_ID, TEST_TAG_ID);
+  });
+});
@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+vi.mock('../../services/task-list.service', () => ({
+  taskListService: {
+    listTaskLists: vi.fn(),
+    createTaskList: vi.fn(),
+    updateTaskList: vi.fn(),
+    deleteTaskList: vi.fn(),
+  },
+}));
+
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+vi.mock('../../db', () => ({ db: {}, client: {} }));
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+vi.mock('../../lib/lucia', () => ({
+  lucia: { createSession: vi.fn(), createBlankSessionCookie: vi.fn(), validateSession: vi.fn() },
+}));
+vi.mock('../../services/auth.service', () => ({ authService: {} }));
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+vi.mock('../../lib/oauth', () => ({ googleOAuth: {}, githubOAuth: {} }));
+vi.mock('../../services/event.service', () => ({ eventService: {} }));
+vi.mock('../../services/task.service', () => ({ taskService: {} }));
+vi.mock('../../services/reminder.service', () => ({ reminderService: {} }));
+vi.mock('../../services/search.service', () => ({ searchService: {} }));
+vi.mock('../../services/sse.service', () => ({ sseService: {} }));
+vi.mock('../../services/push-subscription.service', () => ({ pushSubscriptionService: {} }));
+
+import { app } from '../../app';
+import { AppError } from '../../lib/errors';
+import { taskListService } from '../../services/task-list.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_LIST_ID = 'testlist12345678901234567';
+
+function makeTaskListResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_LIST_ID,
+    userId: TEST_USER_ID,
+    name: 'Work focus',
+    filters: { priority: ['high'] },
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Task List Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should list the user's saved lists", async () => {
+    (taskListService.listTaskLists as ReturnType<typeof vi.fn>).mockResolvedValue([
+      makeTaskListResponse(),
+    ]);
+
+    const res = await app.request('/task-lists');
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as Array<Record<string, unknown>>;
+    expect(body[0].name).toBe('Work focus');
+    expect(taskListService.listTaskLists).toHaveBeenCalledWith(TEST_USER_ID);
+  });
+
+  it('should save a list and return 201', async () => {
+    (taskListService.createTaskList as ReturnType<typeof vi.fn>).mockResolvedValue(
+      makeTaskListResponse(),
+    );
+
+    const res = await app.request('/task-lists', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: ' Work focus ', filters: { priority: ['high'] } }),
+    });
+
+    expect(res.status).toBe(201);
+    expect(taskListService.createTaskList).toHaveBeenCalledWith(TEST_USER_ID, {
+      name: 'Work focus',
+      filters: { priority: ['high'] },
+    });
+  });
+
+  it('should return 400 for a due range that ends before it starts', async () => {
+    const res = await app.request('/task-lists', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: 'Backwards',
+        filters: { dueStart: '2026-03-10T00:00:00.000Z', dueEnd: '2026-03-01T00:00:00.000Z' },
+      }),
+    });
+
+    expect(res.status).toBe(400);
+    expect(taskListService.createTaskList).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 for a duplicate list name', async () => {
+    (taskListService.createTaskList as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new AppError(409, 'CONFLICT', 'A task list with this name already exists'),
+    );
+
+    const res = await app.request('/task-lists', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Work focus', filters: {} }),
+    });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should rename a list', async () => {
+    (taskListService.updateTaskList as ReturnType<typeof vi.fn>).mockResolvedValue(
+      makeTaskListResponse({ name: 'Deep work' }),
+    );
+
+    const res = await app.request(`/task-lists/${TEST_LIST_ID}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Deep work' }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(taskListService.updateTaskList).toHaveBeenCalledWith(TEST_USER_ID, TEST_LIST_ID, {
+      name: 'Deep work',
+    });
+  });
+
+  it('should delete a list and return 204', async () => {
+    (taskListService.deleteTaskList as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+    const res = await app.request(`/task-lists/${TEST_LIST_ID}`, { method: 'DELETE' });
+
+    expect(res.status).toBe(204);
+    expect(taskListService.deleteTaskList).toHaveBeenCalledWith(TEST_USER_ID, TEST_LIST_ID);
+  });
+});
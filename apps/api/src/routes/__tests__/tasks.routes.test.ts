@@ -7,6 +7,7 @@ vi.mock('../../services/task.service', () => {
   const mockTaskService = {
     listTasks: vi.fn(),
     getTask: vi.fn(),
+    listSubtasks: vi.fn(),
     createTask: vi.fn(),
     updateTask: vi.fn(),
     deleteTask: vi.fn(),
@@ -14,6 +15,11 @@ vi.mock('../../services/task.service', () => {
     reorderTasks: vi.fn(),
     bulkComplete: vi.fn(),
     bulkDelete: vi.fn(),
+    listCompletions: vi.fn(),
+    listCompletedTasks: vi.fn(),
+    archiveTask: vi.fn(),
+    unarchiveTask: vi.fn(),
+    archiveCompleted: vi.fn(),
   };
   return { taskService: mockTaskService };
 });
@@ -134,6 +140,8 @@ function makeTaskResponse(overrides: Record<string, unknown> = {}) {
     exDates: [],
     recurringTaskId: null,
     originalDate: null,
+    parentTaskId: null,
+    subtaskProgress: { total: 0, done: 0 },
     sortOrder: 0,
     createdAt: '2026-03-01T00:00:00.000Z',
     updatedAt: '2026-03-01T00:00:00.000Z',
@@ -210,7 +218,69 @@ describe('Task Routes — API Integration', () => {
       expect(res.status).toBe(200);
       const body = (await res.json()) as Record<string, unknown>;
       expect(body.status).toBe('done');
-      expect(taskService.toggleTask).toHaveBeenCalledWith(TEST_USER_ID, TEST_TASK_ID);
+      expect(taskService.toggleTask).toHaveBeenCalledWith(TEST_USER_ID, TEST_TASK_ID, {
+        completeSubtasks: false,
+      });
+    });
+
+    it('should pass completeSubtasks through when toggling', async () => {
+      (taskService.toggleTask as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskResponse({ status: 'done' }),
+      );
+
+      const res = await app.request(`/tasks/${TEST_TASK_ID}/toggle`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ completeSubtasks: true }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(taskService.toggleTask).toHaveBeenCalledWith(TEST_USER_ID, TEST_TASK_ID, {
+        completeSubtasks: true,
+      });
+    });
+
+    it('should report an invalid toggle body with field details', async () => {
+      const res = await app.request(`/tasks/${TEST_TASK_ID}/toggle`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ completeSubtasks: 'yes' }),
+      });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { code: string; details: { path: string[] }[] } };
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(body.error.details[0].path).toEqual(['completeSubtasks']);
+      expect(taskService.toggleTask).not.toHaveBeenCalled();
+    });
+
+    it('should reject a toggle body that is not valid JSON', async () => {
+      const res = await app.request(`/tasks/${TEST_TASK_ID}/toggle`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{completeSubtasks:',
+      });
+
+      expect(res.status).toBe(400);
+      const body = (await res.json()) as { error: { message: string } };
+      expect(body.error.message).toBe('Invalid JSON');
+      expect(taskService.toggleTask).not.toHaveBeenCalled();
+    });
+
+    it('should list the subtasks of a task', async () => {
+      const subtask = makeTaskResponse({
+        id: 'childtask12345678901234567',
+        parentTaskId: TEST_TASK_ID,
+      });
+      (taskService.listSubtasks as ReturnType<typeof vi.fn>).mockResolvedValue([subtask]);
+
+      const res = await app.request(`/tasks/${TEST_TASK_ID}/subtasks`);
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as Record<string, unknown>[];
+      expect(body).toHaveLength(1);
+      expect(body[0].parentTaskId).toBe(TEST_TASK_ID);
+      expect(taskService.listSubtasks).toHaveBeenCalledWith(TEST_USER_ID, TEST_TASK_ID);
     });
 
     it('should reorder tasks', async () => {
@@ -246,6 +316,30 @@ describe('Task Routes — API Integration', () => {
       expect(body.title).toBe('Updated Task');
     });
 
+    it('should complete a task by setting its status to done', async () => {
+      // A task that repeats after completion comes back due again
+      const reopened = makeTaskResponse({ status: 'todo', dueAt: '2026-03-18T09:00:00.000Z' });
+      (taskService.updateTask as ReturnType<typeof vi.fn>).mockResolvedValue(reopened);
+
+      const res = await app.request(`/tasks/${TEST_TASK_ID}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'done' }),
+      });
+
+      expect(res.status).toBe(200);
+      const body = (await res.json()) as Record<string, unknown>;
+      expect(body.status).toBe('todo');
+      expect(body.dueAt).toBe('2026-03-18T09:00:00.000Z');
+      expect(taskService.updateTask).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_TASK_ID,
+        { status: 'done' },
+        undefined,
+        undefined,
+      );
+    });
+
     it('should delete a task and return 204', async () => {
       (taskService.deleteTask as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
 
@@ -333,6 +427,80 @@ describe('Task Routes — API Integration', () => {
         undefined,
       );
     });
+
+    it('should list the completion history of a task', async () => {
+      const completions = [
+        {
+          id: 'completion1',
+          taskId: TEST_TASK_ID,
+          completedAt: '2026-03-15T12:00:00.000Z',
+          dueAt: '2026-03-15T09:00:00.000Z',
+        },
+      ];
+      (taskService.listCompletions as ReturnType<typeof vi.fn>).mockResolvedValue(completions);
+
+      const res = await app.request(`/tasks/${TEST_TASK_ID}/completions`);
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(completions);
+      expect(taskService.listCompletions).toHaveBeenCalledWith(TEST_USER_ID, TEST_TASK_ID);
+    });
+  });
+
+  // ─── Archive & History ────────────────────────────────────────────
+
+  describe('Archive and completed history', () => {
+    it('should page the completed history with pagination defaults', async () => {
+      const page = { tasks: [], page: 1, limit: 20, total: 0, hasMore: false };
+      (taskService.listCompletedTasks as ReturnType<typeof vi.fn>).mockResolvedValue(page);
+
+      const res = await app.request('/tasks/completed');
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(page);
+      expect(taskService.listCompletedTasks).toHaveBeenCalledWith(TEST_USER_ID, {
+        page: 1,
+        limit: 20,
+      });
+    });
+
+    it('should return 400 for a page size over the limit', async () => {
+      const res = await app.request('/tasks/completed?limit=500');
+
+      expect(res.status).toBe(400);
+      expect(taskService.listCompletedTasks).not.toHaveBeenCalled();
+    });
+
+    it('should archive a task', async () => {
+      (taskService.archiveTask as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_TASK_ID,
+        archivedAt: '2026-03-20T12:00:00.000Z',
+      });
+
+      const res = await app.request(`/tasks/${TEST_TASK_ID}/archive`, { method: 'POST' });
+
+      expect(res.status).toBe(200);
+      expect(taskService.archiveTask).toHaveBeenCalledWith(TEST_USER_ID, TEST_TASK_ID);
+    });
+
+    it('should return 409 when archiving an open task', async () => {
+      (taskService.archiveTask as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new AppError(409, 'CONFLICT', 'Only completed tasks can be archived'),
+      );
+
+      const res = await app.request(`/tasks/${TEST_TASK_ID}/archive`, { method: 'POST' });
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should archive every completed task', async () => {
+      (taskService.archiveCompleted as ReturnType<typeof vi.fn>).mockResolvedValue(4);
+
+      const res = await app.request('/tasks/archive-completed', { method: 'POST' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ count: 4 });
+    });
   });
 
   // ─── Error Cases ──────────────────────────────────────────────────
@@ -0,0 +1,235 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+vi.mock('../../services/time-entry.service', () => ({
+  timeEntryService: {
+    listTaskEntries: vi.fn(),
+    startTimer: vi.fn(),
+    stopTimer: vi.fn(),
+    createEntry: vi.fn(),
+    updateEntry: vi.fn(),
+    deleteEntry: vi.fn(),
+    getReport: vi.fn(),
+  },
+}));
+
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+vi.mock('../../db', () => ({ db: {}, client: {} }));
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+vi.mock('../../lib/lucia', () => ({
+  lucia: { createSession: vi.fn(), createBlankSessionCookie: vi.fn(), validateSession: vi.fn() },
+}));
+vi.mock('../../services/auth.service', () => ({ authService: {} }));
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+vi.mock('../../lib/oauth', () => ({ googleOAuth: {}, githubOAuth: {} }));
+vi.mock('../../services/event.service', () => ({ eventService: {} }));
+vi.mock('../../services/task.service', () => ({ taskService: {} }));
+vi.mock('../../services/reminder.service', () => ({ reminderService: {} }));
+vi.mock('../../services/search.service', () => ({ searchService: {} }));
+vi.mock('../../services/sse.service', () => ({ sseService: {} }));
+vi.mock('../../services/push-subscription.service', () => ({ pushSubscriptionService: {} }));
+
+import { app } from '../../app';
+import { AppError } from '../../lib/errors';
+import { timeEntryService } from '../../services/time-entry.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_TASK_ID = 'testtask123456789012345678';
+const TEST_ENTRY_ID = 'testentry12345678901234567';
+
+function makeEntryResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_ENTRY_ID,
+    userId: TEST_USER_ID,
+    taskId: TEST_TASK_ID,
+    startedAt: '2026-03-02T09:00:00.000Z',
+    endedAt: '2026-03-02T10:00:00.000Z',
+    createdAt: '2026-03-02T10:00:00.000Z',
+    updatedAt: '2026-03-02T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Time Entry Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list the time logged on a task', async () => {
+    (timeEntryService.listTaskEntries as ReturnType<typeof vi.fn>).mockResolvedValue([
+      makeEntryResponse(),
+    ]);
+
+    const res = await app.request(`/tasks/${TEST_TASK_ID}/time-entries`);
+
+    expect(res.status).toBe(200);
+    expect(timeEntryService.listTaskEntries).toHaveBeenCalledWith(TEST_USER_ID, TEST_TASK_ID);
+  });
+
+  it('should start a timer and return 201', async () => {
+    (timeEntryService.startTimer as ReturnType<typeof vi.fn>).mockResolvedValue(
+      makeEntryResponse({ endedAt: null }),
+    );
+
+    const res = await app.request(`/tasks/${TEST_TASK_ID}/timer/start`, { method: 'POST' });
+
+    expect(res.status).toBe(201);
+    const body = (await res.json()) as { endedAt: string | null };
+    expect(body.endedAt).toBeNull();
+  });
+
+  it('should return 409 when stopping a timer that is not running', async () => {
+    (timeEntryService.stopTimer as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new AppError(409, 'CONFLICT', 'The timer is not running for this task'),
+    );
+
+    const res = await app.request(`/tasks/${TEST_TASK_ID}/timer/stop`, { method: 'POST' });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should log a session by hand and return 201', async () => {
+    (timeEntryService.createEntry as ReturnType<typeof vi.fn>).mockResolvedValue(
+      makeEntryResponse(),
+    );
+
+    const res = await app.request('/time-entries', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        taskId: TEST_TASK_ID,
+        startedAt: '2026-03-02T09:00:00.000Z',
+        endedAt: '2026-03-02T10:00:00.000Z',
+      }),
+    });
+
+    expect(res.status).toBe(201);
+    expect(timeEntryService.createEntry).toHaveBeenCalledWith(TEST_USER_ID, {
+      taskId: TEST_TASK_ID,
+      startedAt: '2026-03-02T09:00:00.000Z',
+      endedAt: '2026-03-02T10:00:00.000Z',
+    });
+  });
+
+  it('should return 400 for a session that ends before it starts', async () => {
+    const res = await app.request('/time-entries', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        taskId: TEST_TASK_ID,
+        startedAt: '2026-03-02T10:00:00.000Z',
+        endedAt: '2026-03-02T09:00:00.000Z',
+      }),
+    });
+
+    expect(res.status).toBe(400);
+    expect(timeEntryService.createEntry).not.toHaveBeenCalled();
+  });
+
+  it('should delete a session and return 204', async () => {
+    (timeEntryService.deleteEntry as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+    const res = await app.request(`/time-entries/${TEST_ENTRY_ID}`, { method: 'DELETE' });
+
+    expect(res.status).toBe(204);
+    expect(timeEntryService.deleteEntry).toHaveBeenCalledWith(TEST_USER_ID, TEST_ENTRY_ID);
+  });
+
+  it('should report time logged in a range, optionally for one category', async () => {
+    (timeEntryService.getReport as ReturnType<typeof vi.fn>).mockResolvedValue({
+      start: '2026-03-01T00:00:00.000Z',
+      end: '2026-04-01T00:00:00.000Z',
+      totalMinutes: 0,
+      categories: [],
+      tasks: [],
+    });
+
+    const res = await app.request(
+      '/time-entries/report?start=2026-03-01T00:00:00.000Z&end=2026-04-01T00:00:00.000Z&categoryId=testcat1234567890123456789',
+    );
+
+    expect(res.status).toBe(200);
+    expect(timeEntryService.getReport).toHaveBeenCalledWith(TEST_USER_ID, {
+      start: '2026-03-01T00:00:00.000Z',
+      end: '2026-04-01T00:00:00.000Z',
+      categoryId: 'testcat1234567890123456789',
+    });
+  });
+});
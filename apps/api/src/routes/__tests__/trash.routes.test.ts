@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock all dependencies before importing ─────────────────────────
+
+vi.mock('../../services/event.service', () => ({
+  eventService: {
+    listDeletedEvents: vi.fn(),
+    restoreEvent: vi.fn(),
+    purgeEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/task.service', () => ({
+  taskService: {
+    listDeletedTasks: vi.fn(),
+    restoreTask: vi.fn(),
+    purgeTask: vi.fn(),
+  },
+}));
+
+vi.mock('../../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn(
+    async (c: { set: (k: string, v: unknown) => void }, next: () => Promise<void>) => {
+      c.set('userId', 'testuser12345678901234567');
+      c.set('session', { id: 'session123', userId: 'testuser12345678901234567' });
+      await next();
+    },
+  ),
+}));
+
+vi.mock('../../middleware/csrf.middleware', () => ({
+  doubleSubmitCsrf: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/rate-limit.middleware', () => ({
+  rateLimit: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/security-headers.middleware', () => ({
+  securityHeaders: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/cors.middleware', () => ({
+  createCorsMiddleware: () =>
+    vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+      await next();
+    }),
+}));
+
+vi.mock('../../middleware/request-id.middleware', () => ({
+  requestId: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/logger.middleware', () => ({
+  requestLogger: vi.fn(async (_c: unknown, next: () => Promise<void>) => {
+    await next();
+  }),
+}));
+
+vi.mock('../../middleware/error-handler.middleware', () => ({
+  errorHandler: vi.fn((err: Error & { statusCode?: number; code?: string; details?: unknown }) => {
+    const status = err.statusCode || 500;
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: err.code || 'INTERNAL_ERROR',
+          message: err.message,
+          details: err.details,
+        },
+      }),
+      { status, headers: { 'Content-Type': 'application/json' } },
+    );
+  }),
+}));
+
+vi.mock('../../db', () => ({ db: {}, client: {} }));
+vi.mock('../../lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('../../lib/redis', () => ({
+  redis: { get: vi.fn(), set: vi.fn(), incr: vi.fn(), expire: vi.fn(), del: vi.fn() },
+}));
+vi.mock('../../lib/lucia', () => ({
+  lucia: { createSession: vi.fn(), createBlankSessionCookie: vi.fn(), validateSession: vi.fn() },
+}));
+vi.mock('../../services/auth.service', () => ({ authService: {} }));
+vi.mock('../../lib/csrf', () => ({
+  generateCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  clearCsrfCookie: vi.fn(),
+}));
+vi.mock('../../lib/oauth', () => ({ googleOAuth: {}, githubOAuth: {} }));
+vi.mock('../../services/reminder.service', () => ({ reminderService: {} }));
+vi.mock('../../services/search.service', () => ({ searchService: {} }));
+vi.mock('../../services/sse.service', () => ({ sseService: {} }));
+vi.mock('../../services/push-subscription.service', () => ({ pushSubscriptionService: {} }));
+
+import { app } from '../../app';
+import { AppError } from '../../lib/errors';
+import { eventService } from '../../services/event.service';
+import { taskService } from '../../services/task.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_EVENT_ID = 'testevent12345678901234567';
+const TEST_TASK_ID = 'testtask123456789012345678';
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('Trash Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list deleted events and tasks together', async () => {
+    const trashedEvent = { id: TEST_EVENT_ID, title: 'Standup' };
+    const trashedTask = { id: TEST_TASK_ID, title: 'Pay rent' };
+    (eventService.listDeletedEvents as ReturnType<typeof vi.fn>).mockResolvedValue([trashedEvent]);
+    (taskService.listDeletedTasks as ReturnType<typeof vi.fn>).mockResolvedValue([trashedTask]);
+
+    const res = await app.request('/trash');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ events: [trashedEvent], tasks: [trashedTask] });
+    expect(eventService.listDeletedEvents).toHaveBeenCalledWith(TEST_USER_ID);
+    expect(taskService.listDeletedTasks).toHaveBeenCalledWith(TEST_USER_ID);
+  });
+
+  it('should restore an event', async () => {
+    (eventService.restoreEvent as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: TEST_EVENT_ID,
+    });
+
+    const res = await app.request(`/trash/events/${TEST_EVENT_ID}/restore`, { method: 'POST' });
+
+    expect(res.status).toBe(200);
+    expect(eventService.restoreEvent).toHaveBeenCalledWith(TEST_USER_ID, TEST_EVENT_ID);
+  });
+
+  it('should permanently delete an event and return 204', async () => {
+    (eventService.purgeEvent as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+    const res = await app.request(`/trash/events/${TEST_EVENT_ID}`, { method: 'DELETE' });
+
+    expect(res.status).toBe(204);
+    expect(eventService.purgeEvent).toHaveBeenCalledWith(TEST_USER_ID, TEST_EVENT_ID);
+  });
+
+  it('should restore a task', async () => {
+    (taskService.restoreTask as ReturnType<typeof vi.fn>).mockResolvedValue({ id: TEST_TASK_ID });
+
+    const res = await app.request(`/trash/tasks/${TEST_TASK_ID}/restore`, { method: 'POST' });
+
+    expect(res.status).toBe(200);
+    expect(taskService.restoreTask).toHaveBeenCalledWith(TEST_USER_ID, TEST_TASK_ID);
+  });
+
+  it('should return 409 when restoring a subtask of a deleted task', async () => {
+    (taskService.restoreTask as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new AppError(409, 'CONFLICT', 'Restore the parent task first'),
+    );
+
+    const res = await app.request(`/trash/tasks/${TEST_TASK_ID}/restore`, { method: 'POST' });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should return 404 when purging a task that is not in the trash', async () => {
+    (taskService.purgeTask as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new AppError(404, 'NOT_FOUND', 'Task not found in trash'),
+    );
+
+    const res = await app.request(`/trash/tasks/${TEST_TASK_ID}`, { method: 'DELETE' });
+
+    expect(res.status).toBe(404);
+  });
+});
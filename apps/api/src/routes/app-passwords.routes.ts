@@ -0,0 +1,62 @@
+import { Hono } from 'hono';
+
+import { appPasswordIdParamSchema, createAppPasswordSchema } from '@calley/shared';
+
+import { authMiddleware } from '../middleware/auth.middleware';
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { appPasswordService } from '../services/app-password.service';
+
+import type { AppVariables } from '../types/hono';
+import type { CreateAppPasswordInput } from '@calley/shared';
+
+const appPasswordsRouter = new Hono<{ Variables: AppVariables }>();
+
+// All app password routes require authentication
+appPasswordsRouter.use(
+  '/*',
+  rateLimit({ limit: 30, windowSeconds: 60, keyPrefix: 'app-passwords' }),
+  authMiddleware,
+);
+
+// ─── GET /app-passwords — List app passwords ────────────────────────
+
+appPasswordsRouter.get('/', async (c) => {
+  const userId = c.get('userId')!;
+
+  const appPasswords = await appPasswordService.listAppPasswords(userId);
+  return c.json(appPasswords);
+});
+
+// ─── POST /app-passwords — Create an app password ───────────────────
+
+appPasswordsRouter.post(
+  '/',
+  doubleSubmitCsrf,
+  validate('json', createAppPasswordSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const data = c.get('validatedBody') as CreateAppPasswordInput;
+
+    const appPassword = await appPasswordService.createAppPassword(userId, data);
+    return c.json(appPassword, 201);
+  },
+);
+
+// ─── DELETE /app-passwords/:id — Revoke an app password ─────────────
+
+appPasswordsRouter.delete(
+  '/:id',
+  doubleSubmitCsrf,
+  validate('param', appPasswordIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    await appPasswordService.revokeAppPassword(userId, id);
+    return c.body(null, 204);
+  },
+);
+
+export default appPasswordsRouter;
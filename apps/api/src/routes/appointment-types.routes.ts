@@ -0,0 +1,83 @@
+import { Hono } from 'hono';
+
+import {
+  appointmentTypeIdParamSchema,
+  createAppointmentTypeSchema,
+  updateAppointmentTypeSchema,
+} from '@calley/shared';
+
+import { authMiddleware } from '../middleware/auth.middleware';
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { bookingService } from '../services/booking.service';
+
+import type { AppVariables } from '../types/hono';
+import type { CreateAppointmentTypeInput, UpdateAppointmentTypeInput } from '@calley/shared';
+
+const appointmentTypesRouter = new Hono<{ Variables: AppVariables }>();
+
+// All appointment type routes require authentication and rate limiting
+appointmentTypesRouter.use(
+  '/*',
+  rateLimit({ limit: 60, windowSeconds: 60, keyPrefix: 'appointment-types' }),
+  authMiddleware,
+);
+
+// ─── GET /appointment-types — List my appointment types ─────────────
+
+appointmentTypesRouter.get('/', async (c) => {
+  const userId = c.get('userId')!;
+
+  const types = await bookingService.listAppointmentTypes(userId);
+  return c.json(types);
+});
+
+// ─── POST /appointment-types — Create an appointment type ───────────
+
+appointmentTypesRouter.post(
+  '/',
+  doubleSubmitCsrf,
+  validate('json', createAppointmentTypeSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const data = c.get('validatedBody') as CreateAppointmentTypeInput;
+
+    const type = await bookingService.createAppointmentType(userId, data);
+    return c.json(type, 201);
+  },
+);
+
+// ─── PATCH /appointment-types/:id — Update an appointment type ──────
+
+appointmentTypesRouter.patch(
+  '/:id',
+  doubleSubmitCsrf,
+  validate('param', appointmentTypeIdParamSchema),
+  validate('json', updateAppointmentTypeSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+    const data = c.get('validatedBody') as UpdateAppointmentTypeInput;
+
+    const type = await bookingService.updateAppointmentType(userId, id, data);
+    return c.json(type);
+  },
+);
+
+// ─── DELETE /appointment-types/:id — Delete an appointment type ─────
+
+appointmentTypesRouter.delete(
+  '/:id',
+  doubleSubmitCsrf,
+  validate('param', appointmentTypeIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    await bookingService.deleteAppointmentType(userId, id);
+    return c.body(null, 204);
+  },
+);
+
+export default appointmentTypesRouter;
@@ -0,0 +1,105 @@
+import { Hono } from 'hono';
+
+import {
+  bookingSlotsQuerySchema,
+  bookingSlugParamSchema,
+  bookingTokenParamSchema,
+  createBookingSchema,
+  rescheduleBookingSchema,
+} from '@calley/shared';
+
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { bookingService } from '../services/booking.service';
+
+import type { AppVariables } from '../types/hono';
+import type { BookingSlotsQuery, CreateBookingInput, RescheduleBookingInput } from '@calley/shared';
+
+const bookingRouter = new Hono<{ Variables: AppVariables }>();
+
+// Public: visitors don't have accounts. Booking pages are found by slug,
+// and the token in the confirmation email is the only credential for
+// changing a booking
+bookingRouter.use('/*', rateLimit({ limit: 30, windowSeconds: 60, keyPrefix: 'booking' }));
+
+// ─── GET /booking/pages/:slug — Show a booking page ─────────────────
+
+bookingRouter.get('/pages/:slug', validate('param', bookingSlugParamSchema), async (c) => {
+  const { slug } = c.get('validatedParam') as { slug: string };
+
+  const page = await bookingService.getBookingPage(slug);
+  return c.json(page);
+});
+
+// ─── GET /booking/pages/:slug/slots — Open slots in a range ─────────
+
+bookingRouter.get(
+  '/pages/:slug/slots',
+  validate('param', bookingSlugParamSchema),
+  validate('query', bookingSlotsQuerySchema),
+  async (c) => {
+    const { slug } = c.get('validatedParam') as { slug: string };
+    const query = c.get('validatedQuery') as BookingSlotsQuery;
+
+    const slots = await bookingService.getAvailableSlots(slug, query);
+    return c.json(slots);
+  },
+);
+
+// ─── POST /booking/pages/:slug — Book a slot ────────────────────────
+
+bookingRouter.post(
+  '/pages/:slug',
+  doubleSubmitCsrf,
+  validate('param', bookingSlugParamSchema),
+  validate('json', createBookingSchema),
+  async (c) => {
+    const { slug } = c.get('validatedParam') as { slug: string };
+    const data = c.get('validatedBody') as CreateBookingInput;
+
+    const booking = await bookingService.book(slug, data);
+    return c.json(booking, 201);
+  },
+);
+
+// ─── GET /booking/:token — Show a booking ───────────────────────────
+
+bookingRouter.get('/:token', validate('param', bookingTokenParamSchema), async (c) => {
+  const { token } = c.get('validatedParam') as { token: string };
+
+  const booking = await bookingService.getBooking(token);
+  return c.json(booking);
+});
+
+// ─── POST /booking/:token/cancel — Cancel a booking ─────────────────
+
+bookingRouter.post(
+  '/:token/cancel',
+  doubleSubmitCsrf,
+  validate('param', bookingTokenParamSchema),
+  async (c) => {
+    const { token } = c.get('validatedParam') as { token: string };
+
+    const booking = await bookingService.cancelBooking(token);
+    return c.json(booking);
+  },
+);
+
+// ─── POST /booking/:token/reschedule — Move a booking ───────────────
+
+bookingRouter.post(
+  '/:token/reschedule',
+  doubleSubmitCsrf,
+  validate('param', bookingTokenParamSchema),
+  validate('json', rescheduleBookingSchema),
+  async (c) => {
+    const { token } = c.get('validatedParam') as { token: string };
+    const data = c.get('validatedBody') as RescheduleBookingInput;
+
+    const booking = await bookingService.rescheduleBooking(token, data);
+    return c.json(booking);
+  },
+);
+
+export default bookingRouter;
@@ -0,0 +1,502 @@
+import { Hono } from 'hono';
+
+import {
+  APPLE_ICAL_NS,
+  buildMultistatus,
+  CALDAV_NS,
+  CALSERVER_NS,
+  DAV_NS,
+  davHref,
+  DavRequestError,
+  parseDavBody,
+  parsePropRequest,
+  selectProperties,
+} from '../lib/dav';
+import { AppError } from '../lib/errors';
+import { parseIcsDate } from '../lib/ics-parser';
+import { escapeXml, findChild, findChildren } from '../lib/xml';
+import { caldavAuthMiddleware } from '../middleware/caldav-auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { caldavService } from '../services/caldav.service';
+
+import type { DavProperty, DavPropName, DavPropRequest, DavResponse } from '../lib/dav';
+import type { XmlElement } from '../lib/xml';
+import type {
+  CalDavCalendar,
+  CalDavComponentType,
+  CalDavResource,
+  CalDavResourceFilter,
+} from '../services/caldav.service';
+import type { AppVariables } from '../types/hono';
+import type { Context } from 'hono';
+
+type CalDavContext = Context<{ Variables: AppVariables }>;
+
+const caldavRouter = new Hono<{ Variables: AppVariables }>();
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Where this router is mounted in app.ts; hrefs in responses are absolute paths */
+export const CALDAV_ROOT = '/caldav';
+
+const DAV_CAPABILITIES = '1, 3, calendar-access';
+
+const ALLOWED_METHODS = 'OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, PROPPATCH, REPORT';
+
+/** Upper bound on an uploaded calendar object */
+const MAX_RESOURCE_SIZE = 1_000_000;
+
+/** calendar-data is only returned when requested by name */
+const EXPENSIVE_PROPERTIES: DavPropName[] = [{ namespace: CALDAV_NS, name: 'calendar-data' }];
+
+/**
+ * A sub-app's '/' only matches the mount path without a trailing slash
+ * ('/caldav'); the empty param pattern also matches '/caldav/', which is
+ * the href clients are given for the service root.
+ */
+const ROOT_PATHS = ['/', '/:root{.{0}}'];
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const hrefs = {
+  root: () => `${CALDAV_ROOT}/`,
+  principal: (userId: string) => `${CALDAV_ROOT}/principals/${userId}/`,
+  home: (userId: string) => `${CALDAV_ROOT}/calendars/${userId}/`,
+  calendar: (userId: string, categoryId: string) =>
+    `${CALDAV_ROOT}/calendars/${userId}/${categoryId}/`,
+  resource: (userId: string, categoryId: string, name: string) =>
+    `${CALDAV_ROOT}/calendars/${userId}/${categoryId}/${name}`,
+};
+
+function prop(namespace: string, name: string, value = ''): DavProperty {
+  return { namespace, name, value };
+}
+
+/**
+ * Paths in the CalDAV tree belong to one user; other users' paths are
+ * reported as missing rather than forbidden.
+ */
+function assertOwner(c: CalDavContext): string {
+  const userId = c.get('userId')!;
+  if (c.req.param('userId') !== userId) {
+    throw new AppError(404, 'NOT_FOUND', 'Not found');
+  }
+  return userId;
+}
+
+/** Depth header (RFC 4918 §10.2); infinity is treated as 1 */
+function getDepth(c: CalDavContext, fallback: number): number {
+  const depth = c.req.header('depth')?.trim().toLowerCase();
+  if (depth === '0') return 0;
+  if (depth === '1' || depth === 'infinity') return 1;
+  return fallback;
+}
+
+async function readBody(
+  c: CalDavContext,
+  namespace: string,
+  ...names: string[]
+): Promise<XmlElement | null> {
+  const body = await c.req.text();
+  if (!body.trim()) return null;
+  try {
+    return parseDavBody(body, namespace, names);
+  } catch (err) {
+    if (err instanceof DavRequestError) {
+      throw new AppError(400, 'VALIDATION_ERROR', `Invalid request body: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+function multistatus(c: CalDavContext, responses: DavResponse[]) {
+  c.header('Content-Type', 'application/xml; charset=utf-8');
+  return c.body(buildMultistatus(responses), 207);
+}
+
+function preconditions(c: CalDavContext) {
+  return {
+    ifMatch: c.req.header('if-match'),
+    ifNoneMatch: c.req.header('if-none-match'),
+  };
+}
+
+// ─── Property Sets ──────────────────────────────────────────────────
+
+function principalLinks(userId: string): DavProperty[] {
+  return [
+    prop(DAV_NS, 'current-user-principal', davHref(hrefs.principal(userId))),
+    prop(DAV_NS, 'principal-URL', davHref(hrefs.principal(userId))),
+    prop(CALDAV_NS, 'calendar-home-set', davHref(hrefs.home(userId))),
+  ];
+}
+
+async function principalProperties(userId: string, isPrincipal: boolean): Promise<DavProperty[]> {
+  const principal = await caldavService.getPrincipal(userId);
+  return [
+    prop(DAV_NS, 'resourcetype', isPrincipal ? '<d:principal/>' : '<d:collection/>'),
+    prop(DAV_NS, 'displayname', escapeXml(principal.name)),
+    ...principalLinks(userId),
+    prop(CALDAV_NS, 'calendar-user-address-set', davHref(`mailto:${principal.email}`)),
+  ];
+}
+
+function privilegeSet(privileges: string[]): string {
+  return privileges.map((p) => `<d:privilege><d:${p}/></d:privilege>`).join('');
+}
+
+function homeProperties(userId: string): DavProperty[] {
+  return [
+    prop(DAV_NS, 'resourcetype', '<d:collection/>'),
+    prop(DAV_NS, 'displayname', 'Calendars'),
+    prop(DAV_NS, 'owner', davHref(hrefs.principal(userId))),
+    prop(DAV_NS, 'current-user-privilege-set', privilegeSet(['read'])),
+    ...principalLinks(userId),
+  ];
+}
+
+function calendarProperties(userId: string, calendar: CalDavCalendar): DavProperty[] {
+  const reports = ['calendar-query', 'calendar-multiget']
+    .map((r) => `<d:supported-report><d:report><cal:${r}/></d:report></d:supported-report>`)
+    .join('');
+
+  return [
+    prop(DAV_NS, 'resourcetype', '<d:collection/><cal:calendar/>'),
+    prop(DAV_NS, 'displayname', escapeXml(calendar.name)),
+    prop(DAV_NS, 'owner', davHref(hrefs.principal(userId))),
+    prop(DAV_NS, 'current-user-principal', davHref(hrefs.principal(userId))),
+    prop(
+      DAV_NS,
+      'current-user-privilege-set',
+      privilegeSet(['read', 'write', 'write-content', 'bind', 'unbind']),
+    ),
+    prop(DAV_NS, 'supported-report-set', reports),
+    prop(DAV_NS, 'getetag', escapeXml(`"${calendar.ctag}"`)),
+    prop(
+      CALDAV_NS,
+      'supported-calendar-component-set',
+      '<cal:comp name="VEVENT"/><cal:comp name="VTODO"/>',
+    ),
+    prop(
+      CALDAV_NS,
+      'supported-calendar-data',
+      '<cal:calendar-data content-type="text/calendar" version="2.0"/>',
+    ),
+    prop(CALSERVER_NS, 'getctag', escapeXml(calendar.ctag)),
+    prop(APPLE_ICAL_NS, 'calendar-color', escapeXml(calendar.color)),
+    prop(APPLE_ICAL_NS, 'calendar-order', String(calendar.sortOrder)),
+  ];
+}
+
+function resourceProperties(resource: CalDavResource): DavProperty[] {
+  return [
+    prop(DAV_NS, 'resourcetype'),
+    prop(DAV_NS, 'getetag', escapeXml(resource.etag)),
+    prop(
+      DAV_NS,
+      'getcontenttype',
+      `text/calendar; charset=utf-8; component=${resource.componentType.toLowerCase()}`,
+    ),
+    prop(DAV_NS, 'getlastmodified', resource.lastModified.toUTCString()),
+    prop(CALDAV_NS, 'calendar-data', escapeXml(resource.data)),
+  ];
+}
+
+function resourceResponse(
+  userId: string,
+  categoryId: string,
+  resource: CalDavResource,
+  request: DavPropRequest,
+): DavResponse {
+  return {
+    href: hrefs.resource(userId, categoryId, resource.name),
+    propstats: selectProperties(resourceProperties(resource), request, EXPENSIVE_PROPERTIES),
+  };
+}
+
+// ─── Report Parsing ─────────────────────────────────────────────────
+
+/**
+ * Read the component type and time range of a calendar-query filter
+ * (RFC 4791 §9.7). Property and text-match filters are not evaluated;
+ * returning a superset of matches is allowed for clients that re-filter.
+ */
+function parseQueryFilter(report: XmlElement): CalDavResourceFilter {
+  const calendarFilter = findChild(report, CALDAV_NS, 'filter');
+  const vcalendar = calendarFilter
+    ? findChildren(calendarFilter, CALDAV_NS, 'comp-filter').find(
+        (f) => f.attributes.name?.toUpperCase() === 'VCALENDAR',
+      )
+    : undefined;
+  const componentFilter = vcalendar
+    ? findChildren(vcalendar, CALDAV_NS, 'comp-filter')[0]
+    : undefined;
+  if (!componentFilter) return {};
+
+  const name = componentFilter.attributes.name?.toUpperCase();
+  if (name !== 'VEVENT' && name !== 'VTODO') {
+    throw new AppError(403, 'FORBIDDEN', 'Unsupported calendar component filter');
+  }
+
+  const filter: CalDavResourceFilter = { componentType: name as CalDavComponentType };
+  const range = findChild(componentFilter, CALDAV_NS, 'time-range');
+  if (range) {
+    const parseBound = (value: string | undefined) =>
+      value ? (parseIcsDate(value, {}, 'UTC')?.date ?? undefined) : undefined;
+    filter.start = parseBound(range.attributes.start);
+    filter.end = parseBound(range.attributes.end);
+  }
+
+  return filter;
+}
+
+/**
+ * Extract resource names from calendar-multiget hrefs that point into the
+ * given calendar. Hrefs elsewhere map to null and are reported as 404.
+ */
+function parseMultigetHrefs(
+  report: XmlElement,
+  calendarHref: string,
+): { href: string; name: string | null }[] {
+  return findChildren(report, DAV_NS, 'href').map((el) => {
+    const href = el.text.trim();
+    let path: string;
+    try {
+      path = new URL(href, 'http://localhost').pathname;
+    } catch {
+      return { href, name: null };
+    }
+    if (!path.startsWith(calendarHref)) return { href, name: null };
+
+    const rest = path.slice(calendarHref.length);
+    if (!rest || rest.includes('/')) return { href, name: null };
+    try {
+      return { href, name: decodeURIComponent(rest) };
+    } catch {
+      return { href, name: null };
+    }
+  });
+}
+
+// ─── OPTIONS — Capability discovery (no auth) ───────────────────────
+
+caldavRouter.options('*', (c) => {
+  c.header('DAV', DAV_CAPABILITIES);
+  c.header('Allow', ALLOWED_METHODS);
+  return c.body(null, 200);
+});
+
+// Everything else requires an app password
+caldavRouter.use(
+  '*',
+  rateLimit({ limit: 300, windowSeconds: 60, keyPrefix: 'caldav' }),
+  async (c, next) => {
+    c.header('DAV', DAV_CAPABILITIES);
+    await next();
+  },
+  caldavAuthMiddleware,
+);
+
+// ─── PROPFIND / — Service root, used for principal discovery ────────
+
+caldavRouter.on(
+  'PROPFIND',
+  [...ROOT_PATHS, '/principals/:userId', '/principals/:userId/'],
+  async (c) => {
+    const userId = c.get('userId')!;
+    const isPrincipal = c.req.param('userId') !== undefined;
+    if (isPrincipal) assertOwner(c);
+
+    const request = parsePropRequest(await readBody(c, DAV_NS, 'propfind'));
+    const properties = await principalProperties(userId, isPrincipal);
+
+    return multistatus(c, [
+      {
+        href: isPrincipal ? hrefs.principal(userId) : hrefs.root(),
+        propstats: selectProperties(properties, request),
+      },
+    ]);
+  },
+);
+
+// ─── PROPFIND /calendars/:userId/ — Calendar home ───────────────────
+
+caldavRouter.on('PROPFIND', ['/calendars/:userId', '/calendars/:userId/'], async (c) => {
+  const userId = assertOwner(c);
+  const request = parsePropRequest(await readBody(c, DAV_NS, 'propfind'));
+
+  const responses: DavResponse[] = [
+    { href: hrefs.home(userId), propstats: selectProperties(homeProperties(userId), request) },
+  ];
+
+  if (getDepth(c, 1) > 0) {
+    const calendars = await caldavService.listCalendars(userId);
+    for (const calendar of calendars) {
+      responses.push({
+        href: hrefs.calendar(userId, calendar.id),
+        propstats: selectProperties(calendarProperties(userId, calendar), request),
+      });
+    }
+  }
+
+  return multistatus(c, responses);
+});
+
+// ─── PROPFIND /calendars/:userId/:categoryId/ — Calendar collection ─
+
+caldavRouter.on(
+  'PROPFIND',
+  ['/calendars/:userId/:categoryId', '/calendars/:userId/:categoryId/'],
+  async (c) => {
+    const userId = assertOwner(c);
+    const categoryId = c.req.param('categoryId')!;
+    const request = parsePropRequest(await readBody(c, DAV_NS, 'propfind'));
+
+    const calendar = await caldavService.getCalendar(userId, categoryId);
+    const responses: DavResponse[] = [
+      {
+        href: hrefs.calendar(userId, categoryId),
+        propstats: selectProperties(calendarProperties(userId, calendar), request),
+      },
+    ];
+
+    if (getDepth(c, 1) > 0) {
+      const resources = await caldavService.listResources(userId, categoryId);
+      for (const resource of resources) {
+        responses.push(resourceResponse(userId, categoryId, resource, request));
+      }
+    }
+
+    return multistatus(c, responses);
+  },
+);
+
+// ─── PROPFIND /calendars/:userId/:categoryId/:name — Resource ───────
+
+caldavRouter.on('PROPFIND', '/calendars/:userId/:categoryId/:name', async (c) => {
+  const userId = assertOwner(c);
+  const categoryId = c.req.param('categoryId')!;
+  const request = parsePropRequest(await readBody(c, DAV_NS, 'propfind'));
+
+  const resource = await caldavService.getResource(userId, categoryId, c.req.param('name')!);
+  return multistatus(c, [resourceResponse(userId, categoryId, resource, request)]);
+});
+
+// ─── PROPPATCH — Calendar properties are managed in Calley ──────────
+
+caldavRouter.on('PROPPATCH', '*', async (c) => {
+  const update = await readBody(c, DAV_NS, 'propertyupdate');
+
+  // Report every property as forbidden so clients keep their local value
+  const properties = (update?.children ?? [])
+    .flatMap((action) => findChildren(action, DAV_NS, 'prop'))
+    .flatMap((p) => p.children)
+    .map((el) => prop(el.namespace, el.name));
+
+  return multistatus(c, [{ href: c.req.path, propstats: [{ status: 403, properties }] }]);
+});
+
+// ─── MKCALENDAR / MKCOL — Calendars are created in Calley ───────────
+
+caldavRouter.on(['MKCALENDAR', 'MKCOL'], '*', () => {
+  throw new AppError(403, 'FORBIDDEN', 'Create calendars in Calley');
+});
+
+// ─── REPORT /calendars/:userId/:categoryId/ — calendar-query & multiget
+
+caldavRouter.on(
+  'REPORT',
+  ['/calendars/:userId/:categoryId', '/calendars/:userId/:categoryId/'],
+  async (c) => {
+    const userId = assertOwner(c);
+    const categoryId = c.req.param('categoryId')!;
+
+    const report = await readBody(c, CALDAV_NS, 'calendar-query', 'calendar-multiget');
+    if (!report) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Report body is required');
+    }
+
+    const request = parsePropRequest(report);
+
+    if (report.name === 'calendar-query') {
+      const resources = await caldavService.listResources(
+        userId,
+        categoryId,
+        parseQueryFilter(report),
+      );
+      return multistatus(
+        c,
+        resources.map((r) => resourceResponse(userId, categoryId, r, request)),
+      );
+    }
+
+    const requested = parseMultigetHrefs(report, hrefs.calendar(userId, categoryId));
+    const names = requested.map((r) => r.name).filter((n): n is string => n !== null);
+    const resources = await caldavService.getResources(userId, categoryId, names);
+
+    return multistatus(
+      c,
+      requested.map(({ href, name }) => {
+        const resource = name ? resources.get(name) : undefined;
+        return resource
+          ? resourceResponse(userId, categoryId, resource, request)
+          : { href, status: 404 };
+      }),
+    );
+  },
+);
+
+// ─── GET /calendars/:userId/:categoryId/:name — Fetch a resource ────
+
+caldavRouter.get('/calendars/:userId/:categoryId/:name', async (c) => {
+  const userId = assertOwner(c);
+  const resource = await caldavService.getResource(
+    userId,
+    c.req.param('categoryId'),
+    c.req.param('name'),
+  );
+
+  c.header('Content-Type', 'text/calendar; charset=utf-8');
+  c.header('ETag', resource.etag);
+  c.header('Last-Modified', resource.lastModified.toUTCString());
+  return c.body(resource.data);
+});
+
+// ─── PUT /calendars/:userId/:categoryId/:name — Create or replace ───
+
+caldavRouter.put('/calendars/:userId/:categoryId/:name', async (c) => {
+  const userId = assertOwner(c);
+
+  const content = await c.req.text();
+  if (content.length > MAX_RESOURCE_SIZE) {
+    throw new AppError(413, 'PAYLOAD_TOO_LARGE', 'Calendar data is too large');
+  }
+
+  const result = await caldavService.putResource(
+    userId,
+    c.req.param('categoryId'),
+    c.req.param('name'),
+    content,
+    preconditions(c),
+  );
+
+  c.header('ETag', result.etag);
+  return c.body(null, result.created ? 201 : 204);
+});
+
+// ─── DELETE /calendars/:userId/:categoryId/:name — Delete a resource
+
+caldavRouter.delete('/calendars/:userId/:categoryId/:name', async (c) => {
+  const userId = assertOwner(c);
+
+  await caldavService.deleteResource(
+    userId,
+    c.req.param('categoryId'),
+    c.req.param('name'),
+    preconditions(c),
+  );
+
+  return c.body(null, 204);
+});
+
+export default caldavRouter;
@@ -1,15 +1,29 @@
 import { Hono } from 'hono';
 
-import { categoryIdParamSchema, createCategorySchema, updateCategorySchema } from '@calley/shared';
+import {
+  calendarShareParamSchema,
+  categoryIdParamSchema,
+  createCalendarShareSchema,
+  createCategorySchema,
+  sharedCalendarParamSchema,
+  updateCalendarShareSchema,
+  updateCategorySchema,
+} from '@calley/shared';
 
 import { authMiddleware } from '../middleware/auth.middleware';
 import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
 import { rateLimit } from '../middleware/rate-limit.middleware';
 import { validate } from '../middleware/validate.middleware';
+import { calendarShareService } from '../services/calendar-share.service';
 import { categoryService } from '../services/category.service';
 
 import type { AppVariables } from '../types/hono';
-import type { CreateCategoryInput, UpdateCategoryInput } from '@calley/shared';
+import type {
+  CreateCalendarShareInput,
+  CreateCategoryInput,
+  UpdateCalendarShareInput,
+  UpdateCategoryInput,
+} from '@calley/shared';
 
 const categoriesRouter = new Hono<{ Variables: AppVariables }>();
 
@@ -20,6 +34,9 @@ categoriesRouter.use(
   authMiddleware,
 );
 
+// Sharing looks up other users by email, so it's rate limited separately
+const sharesRateLimit = rateLimit({ limit: 30, windowSeconds: 60, keyPrefix: 'calendar-shares' });
+
 // ─── GET /categories — List all categories ──────────────────────────
 
 categoriesRouter.get('/', async (c) => {
@@ -29,6 +46,30 @@ categoriesRouter.get('/', async (c) => {
   return c.json(categories);
 });
 
+// ─── GET /categories/shared — Calendars shared with me ─────────────
+
+categoriesRouter.get('/shared', async (c) => {
+  const userId = c.get('userId')!;
+
+  const calendars = await calendarShareService.listSharedWithMe(userId);
+  return c.json(calendars);
+});
+
+// ─── DELETE /categories/shared/:shareId — Leave a shared calendar ──
+
+categoriesRouter.delete(
+  '/shared/:shareId',
+  doubleSubmitCsrf,
+  validate('param', sharedCalendarParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { shareId } = c.get('validatedParam') as { shareId: string };
+
+    await calendarShareService.leaveSharedCalendar(userId, shareId);
+    return c.body(null, 204);
+  },
+);
+
 // ─── POST /categories — Create a new category ──────────────────────
 
 categoriesRouter.post('/', doubleSubmitCsrf, validate('json', createCategorySchema), async (c) => {
@@ -71,4 +112,64 @@ categoriesRouter.delete(
   },
 );
 
+// ─── GET /categories/:id/shares — List members ─────────────────────
+
+categoriesRouter.get('/:id/shares', validate('param', categoryIdParamSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const { id } = c.get('validatedParam') as { id: string };
+
+  const shares = await calendarShareService.listShares(userId, id);
+  return c.json(shares);
+});
+
+// ─── POST /categories/:id/shares — Share with another user ─────────
+
+categoriesRouter.post(
+  '/:id/shares',
+  sharesRateLimit,
+  doubleSubmitCsrf,
+  validate('param', categoryIdParamSchema),
+  validate('json', createCalendarShareSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+    const data = c.get('validatedBody') as CreateCalendarShareInput;
+
+    const share = await calendarShareService.shareCategory(userId, id, data);
+    return c.json(share, 201);
+  },
+);
+
+// ─── PATCH /categories/:id/shares/:shareId — Change permission ─────
+
+categoriesRouter.patch(
+  '/:id/shares/:shareId',
+  doubleSubmitCsrf,
+  validate('param', calendarShareParamSchema),
+  validate('json', updateCalendarShareSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id, shareId } = c.get('validatedParam') as { id: string; shareId: string };
+    const data = c.get('validatedBody') as UpdateCalendarShareInput;
+
+    const share = await calendarShareService.updateShare(userId, id, shareId, data);
+    return c.json(share);
+  },
+);
+
+// ─── DELETE /categories/:id/shares/:shareId — Stop sharing ─────────
+
+categoriesRouter.delete(
+  '/:id/shares/:shareId',
+  doubleSubmitCsrf,
+  validate('param', calendarShareParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id, shareId } = c.get('validatedParam') as { id: string; shareId: string };
+
+    await calendarShareService.removeShare(userId, id, shareId);
+    return c.body(null, 204);
+  },
+);
+
 export default categoriesRouter;
@@ -1,23 +1,34 @@
 import { Hono } from 'hono';
 
 import {
+  addAttendeeSchema,
+  attendeeParamSchema,
   createEventSchema,
   eventIdParamSchema,
   eventScopeQuerySchema,
   listEventsQuerySchema,
+  recurrencePreviewSchema,
+  restoreInstanceSchema,
+  updateAttendeeSchema,
   updateEventSchema,
 } from '@calley/shared';
 
 import { authMiddleware } from '../middleware/auth.middleware';
 import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
 import { validate } from '../middleware/validate.middleware';
+import { attendeeService } from '../services/attendee.service';
 import { eventService } from '../services/event.service';
 
 import type { AppVariables } from '../types/hono';
 import type {
+  AddAttendeeInput,
   CreateEventInput,
   EventScopeQuery,
   ListEventsQuery,
+  RecurrencePreviewInput,
+  RestoreInstanceInput,
+  UpdateAttendeeInput,
   UpdateEventInput,
 } from '@calley/shared';
 
@@ -26,13 +37,16 @@ const eventsRouter = new Hono<{ Variables: AppVariables }>();
 // All event routes require authentication
 eventsRouter.use('/*', authMiddleware);
 
+// Attendee changes send invitation emails, so they're rate limited per user
+const attendeesRateLimit = rateLimit({ limit: 30, windowSeconds: 60, keyPrefix: 'attendees' });
+
 // ─── GET /events — List events in a date range ──────────────────────
 
 eventsRouter.get('/', validate('query', listEventsQuerySchema), async (c) => {
   const userId = c.get('userId')!;
-  const { start, end, categoryIds } = c.get('validatedQuery') as ListEventsQuery;
+  const { start, end, categoryIds, tagIds } = c.get('validatedQuery') as ListEventsQuery;
 
-  const events = await eventService.listEvents(userId, start, end, categoryIds);
+  const events = await eventService.listEvents(userId, start, end, categoryIds, tagIds);
   return c.json(events);
 });
 
@@ -46,6 +60,21 @@ eventsRouter.post('/', doubleSubmitCsrf, validate('json', createEventSchema), as
   return c.json(event, 201);
 });
 
+// ─── POST /events/recurrence-preview — Next occurrences of a rule ───
+
+eventsRouter.post(
+  '/recurrence-preview',
+  doubleSubmitCsrf,
+  validate('json', recurrencePreviewSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const data = c.get('validatedBody') as RecurrencePreviewInput;
+
+    const preview = await eventService.previewRecurrence(userId, data);
+    return c.json(preview);
+  },
+);
+
 // ─── GET /events/:id — Get a single event ───────────────────────────
 
 eventsRouter.get('/:id', validate('param', eventIdParamSchema), async (c) => {
@@ -68,9 +97,16 @@ eventsRouter.patch(
     const userId = c.get('userId')!;
     const { id } = c.get('validatedParam') as { id: string };
     const data = c.get('validatedBody') as UpdateEventInput;
-    const { scope, instanceDate } = c.get('validatedQuery') as EventScopeQuery;
+    const { scope, instanceDate, allSegments } = c.get('validatedQuery') as EventScopeQuery;
 
-    const event = await eventService.updateEvent(userId, id, data, scope, instanceDate);
+    const event = await eventService.updateEvent(
+      userId,
+      id,
+      data,
+      scope,
+      instanceDate,
+      allSegments,
+    );
     return c.json(event);
   },
 );
@@ -92,6 +128,48 @@ eventsRouter.delete(
   },
 );
 
+// ─── POST /events/:id/restore-instance — Un-skip an occurrence ──────
+
+eventsRouter.post(
+  '/:id/restore-instance',
+  doubleSubmitCsrf,
+  validate('param', eventIdParamSchema),
+  validate('json', restoreInstanceSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+    const { instanceDate } = c.get('validatedBody') as RestoreInstanceInput;
+
+    const event = await eventService.restoreInstance(userId, id, instanceDate);
+    return c.json(event);
+  },
+);
+
+// ─── GET /events/:id/series — Segments of a split series ────────────
+
+eventsRouter.get('/:id/series', validate('param', eventIdParamSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const { id } = c.get('validatedParam') as { id: string };
+
+  const segments = await eventService.getSeriesLineage(userId, id);
+  return c.json(segments);
+});
+
+// ─── POST /events/:id/merge — Merge into the segment before ─────────
+
+eventsRouter.post(
+  '/:id/merge',
+  doubleSubmitCsrf,
+  validate('param', eventIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    const event = await eventService.mergeSegment(userId, id);
+    return c.json(event);
+  },
+);
+
 // ─── POST /events/:id/duplicate — Duplicate an event ────────────────
 
 eventsRouter.post(
@@ -121,4 +199,66 @@ eventsRouter.get('/:id/ics', validate('param', eventIdParamSchema), async (c) =>
   return c.body(icsContent);
 });
 
+// ─── GET /events/:id/attendees — List attendees ─────────────────────
+
+eventsRouter.get('/:id/attendees', validate('param', eventIdParamSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const { id } = c.get('validatedParam') as { id: string };
+
+  const attendees = await attendeeService.listAttendees(userId, id);
+  return c.json(attendees);
+});
+
+// ─── POST /events/:id/attendees — Invite an attendee ────────────────
+
+eventsRouter.post(
+  '/:id/attendees',
+  attendeesRateLimit,
+  doubleSubmitCsrf,
+  validate('param', eventIdParamSchema),
+  validate('json', addAttendeeSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+    const data = c.get('validatedBody') as AddAttendeeInput;
+
+    const attendee = await attendeeService.addAttendee(userId, id, data);
+    return c.json(attendee, 201);
+  },
+);
+
+// ─── PATCH /events/:id/attendees/:attendeeId — Update an attendee ───
+
+eventsRouter.patch(
+  '/:id/attendees/:attendeeId',
+  attendeesRateLimit,
+  doubleSubmitCsrf,
+  validate('param', attendeeParamSchema),
+  validate('json', updateAttendeeSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id, attendeeId } = c.get('validatedParam') as { id: string; attendeeId: string };
+    const data = c.get('validatedBody') as UpdateAttendeeInput;
+
+    const attendee = await attendeeService.updateAttendee(userId, id, attendeeId, data);
+    return c.json(attendee);
+  },
+);
+
+// ─── DELETE /events/:id/attendees/:attendeeId — Remove an attendee ──
+
+eventsRouter.delete(
+  '/:id/attendees/:attendeeId',
+  attendeesRateLimit,
+  doubleSubmitCsrf,
+  validate('param', attendeeParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id, attendeeId } = c.get('validatedParam') as { id: string; attendeeId: string };
+
+    await attendeeService.removeAttendee(userId, id, attendeeId);
+    return c.body(null, 204);
+  },
+);
+
 export default eventsRouter;
@@ -0,0 +1,102 @@
+import { Hono } from 'hono';
+
+import {
+  calendarFeedIdParamSchema,
+  calendarFeedTokenParamSchema,
+  createCalendarFeedSchema,
+} from '@calley/shared';
+
+import { authMiddleware } from '../middleware/auth.middleware';
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { feedService } from '../services/feed.service';
+
+import type { AppVariables } from '../types/hono';
+import type { CreateCalendarFeedInput } from '@calley/shared';
+
+const feedsRouter = new Hono<{ Variables: AppVariables }>();
+
+// Auth is applied per-route: management routes use the session cookie, while
+// the subscription endpoint is authenticated by the secret token in its URL
+const feedsRateLimit = rateLimit({ limit: 30, windowSeconds: 60, keyPrefix: 'feeds' });
+
+// ─── GET /feeds/:token/calendar.ics — Public subscription endpoint ──
+
+feedsRouter.get(
+  '/:token/calendar.ics',
+  rateLimit({ limit: 120, windowSeconds: 3600, keyPrefix: 'feeds:ics' }),
+  validate('param', calendarFeedTokenParamSchema),
+  async (c) => {
+    const { token } = c.get('validatedParam') as { token: string };
+
+    const icsContent = await feedService.renderFeed(token);
+
+    c.header('Content-Type', 'text/calendar; charset=utf-8');
+    c.header('Content-Disposition', 'inline; filename="calendar.ics"');
+
+    return c.body(icsContent);
+  },
+);
+
+// ─── GET /feeds — List feeds ────────────────────────────────────────
+
+feedsRouter.get('/', feedsRateLimit, authMiddleware, async (c) => {
+  const userId = c.get('userId')!;
+
+  const feeds = await feedService.listFeeds(userId);
+  return c.json(feeds);
+});
+
+// ─── POST /feeds — Create a feed ────────────────────────────────────
+
+feedsRouter.post(
+  '/',
+  feedsRateLimit,
+  authMiddleware,
+  doubleSubmitCsrf,
+  validate('json', createCalendarFeedSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const data = c.get('validatedBody') as CreateCalendarFeedInput;
+
+    const feed = await feedService.createFeed(userId, data);
+    return c.json(feed, 201);
+  },
+);
+
+// ─── POST /feeds/:id/rotate — Issue a new feed URL ──────────────────
+
+feedsRouter.post(
+  '/:id/rotate',
+  feedsRateLimit,
+  authMiddleware,
+  doubleSubmitCsrf,
+  validate('param', calendarFeedIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    const feed = await feedService.rotateFeed(userId, id);
+    return c.json(feed);
+  },
+);
+
+// ─── DELETE /feeds/:id — Revoke a feed ──────────────────────────────
+
+feedsRouter.delete(
+  '/:id',
+  feedsRateLimit,
+  authMiddleware,
+  doubleSubmitCsrf,
+  validate('param', calendarFeedIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    await feedService.revokeFeed(userId, id);
+    return c.body(null, 204);
+  },
+);
+
+export default feedsRouter;
@@ -0,0 +1,55 @@
+import { Hono } from 'hono';
+
+import { findTimeSchema, freeBusyQuerySchema } from '@calley/shared';
+
+import { authMiddleware } from '../middleware/auth.middleware';
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { freeBusyService } from '../services/freebusy.service';
+
+import type { AppVariables } from '../types/hono';
+import type { FindTimeInput, FreeBusyQuery } from '@calley/shared';
+
+const freeBusyRouter = new Hono<{ Variables: AppVariables }>();
+
+// Free/busy queries expand every requested person's calendars, so they
+// have their own rate limit (30/min per user)
+freeBusyRouter.use(
+  '/*',
+  authMiddleware,
+  rateLimit({
+    limit: 30,
+    windowSeconds: 60,
+    keyPrefix: 'freebusy',
+    keyFn: (c) => c.get('userId') ?? 'anonymous',
+  }),
+);
+
+// ─── POST /freebusy — Busy intervals for people who shared with me ──
+
+freeBusyRouter.post('/', doubleSubmitCsrf, validate('json', freeBusyQuerySchema), async (c) => {
+  const userId = c.get('userId')!;
+  const query = c.get('validatedBody') as FreeBusyQuery;
+
+  if (query.format === 'ics') {
+    const icsContent = await freeBusyService.queryIcs(userId, query);
+    c.header('Content-Type', 'text/calendar; charset=utf-8');
+    return c.body(icsContent);
+  }
+
+  const result = await freeBusyService.query(userId, query);
+  return c.json(result);
+});
+
+// ─── POST /freebusy/find-time — Suggest meeting times ───────────────
+
+freeBusyRouter.post('/find-time', doubleSubmitCsrf, validate('json', findTimeSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const input = c.get('validatedBody') as FindTimeInput;
+
+  const result = await freeBusyService.findTime(userId, input);
+  return c.json(result);
+});
+
+export default freeBusyRouter;
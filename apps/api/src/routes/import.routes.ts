@@ -0,0 +1,34 @@
+import { Hono } from 'hono';
+
+import { importIcsSchema } from '@calley/shared';
+
+import { authMiddleware } from '../middleware/auth.middleware';
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { importService } from '../services/import.service';
+
+import type { AppVariables } from '../types/hono';
+import type { ImportIcsInput } from '@calley/shared';
+
+const importRouter = new Hono<{ Variables: AppVariables }>();
+
+// All import routes require authentication; parsing large files is
+// expensive, so they get a tighter rate limit than other routes
+importRouter.use(
+  '/*',
+  rateLimit({ limit: 10, windowSeconds: 60, keyPrefix: 'import' }),
+  authMiddleware,
+);
+
+// ─── POST /import/ics — Import (or dry-run) an iCalendar file ───────
+
+importRouter.post('/ics', doubleSubmitCsrf, validate('json', importIcsSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const data = c.get('validatedBody') as ImportIcsInput;
+
+  const report = await importService.importIcs(userId, data);
+  return c.json(report, report.dryRun ? 200 : 201);
+});
+
+export default importRouter;
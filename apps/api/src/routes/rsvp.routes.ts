@@ -0,0 +1,44 @@
+import { Hono } from 'hono';
+
+import { rsvpResponseSchema, rsvpTokenParamSchema } from '@calley/shared';
+
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { attendeeService } from '../services/attendee.service';
+
+import type { AppVariables } from '../types/hono';
+import type { RsvpResponseInput } from '@calley/shared';
+
+const rsvpRouter = new Hono<{ Variables: AppVariables }>();
+
+// Public: invitees don't have accounts, so the token in the invitation
+// link is the only credential
+rsvpRouter.use('/*', rateLimit({ limit: 30, windowSeconds: 60, keyPrefix: 'rsvp' }));
+
+// ─── GET /rsvp/:token — Show an invitation ──────────────────────────
+
+rsvpRouter.get('/:token', validate('param', rsvpTokenParamSchema), async (c) => {
+  const { token } = c.get('validatedParam') as { token: string };
+
+  const invitation = await attendeeService.getInvitation(token);
+  return c.json(invitation);
+});
+
+// ─── POST /rsvp/:token — Respond to an invitation ───────────────────
+
+rsvpRouter.post(
+  '/:token',
+  doubleSubmitCsrf,
+  validate('param', rsvpTokenParamSchema),
+  validate('json', rsvpResponseSchema),
+  async (c) => {
+    const { token } = c.get('validatedParam') as { token: string };
+    const data = c.get('validatedBody') as RsvpResponseInput;
+
+    const invitation = await attendeeService.respond(token, data);
+    return c.json(invitation);
+  },
+);
+
+export default rsvpRouter;
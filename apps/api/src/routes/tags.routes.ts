@@ -0,0 +1,69 @@
+import { Hono } from 'hono';
+
+import { createTagSchema, tagIdParamSchema, updateTagSchema } from '@calley/shared';
+
+import { authMiddleware } from '../middleware/auth.middleware';
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { tagService } from '../services/tag.service';
+
+import type { AppVariables } from '../types/hono';
+import type { CreateTagInput, UpdateTagInput } from '@calley/shared';
+
+const tagsRouter = new Hono<{ Variables: AppVariables }>();
+
+// All tag routes require authentication and rate limiting
+tagsRouter.use(
+  '/*',
+  rateLimit({ limit: 100, windowSeconds: 60, keyPrefix: 'tags' }),
+  authMiddleware,
+);
+
+// ─── GET /tags — List all tags ──────────────────────────────────────
+
+tagsRouter.get('/', async (c) => {
+  const userId = c.get('userId')!;
+
+  const tags = await tagService.listTags(userId);
+  return c.json(tags);
+});
+
+// ─── POST /tags — Create a new tag ──────────────────────────────────
+
+tagsRouter.post('/', doubleSubmitCsrf, validate('json', createTagSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const data = c.get('validatedBody') as CreateTagInput;
+
+  const tag = await tagService.createTag(userId, data);
+  return c.json(tag, 201);
+});
+
+// ─── PATCH /tags/:id — Rename or recolor a tag ──────────────────────
+
+tagsRouter.patch(
+  '/:id',
+  doubleSubmitCsrf,
+  validate('param', tagIdParamSchema),
+  validate('json', updateTagSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+    const data = c.get('validatedBody') as UpdateTagInput;
+
+    const tag = await tagService.updateTag(userId, id, data);
+    return c.json(tag);
+  },
+);
+
+// ─── DELETE /tags/:id — Delete a tag ────────────────────────────────
+
+tagsRouter.delete('/:id', doubleSubmitCsrf, validate('param', tagIdParamSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const { id } = c.get('validatedParam') as { id: string };
+
+  await tagService.deleteTag(userId, id);
+  return c.body(null, 204);
+});
+
+export default tagsRouter;
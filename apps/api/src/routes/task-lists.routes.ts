@@ -0,0 +1,74 @@
+import { Hono } from 'hono';
+
+import { createTaskListSchema, taskListIdParamSchema, updateTaskListSchema } from '@calley/shared';
+
+import { authMiddleware } from '../middleware/auth.middleware';
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { taskListService } from '../services/task-list.service';
+
+import type { AppVariables } from '../types/hono';
+import type { CreateTaskListInput, UpdateTaskListInput } from '@calley/shared';
+
+const taskListsRouter = new Hono<{ Variables: AppVariables }>();
+
+// All task list routes require authentication and rate limiting
+taskListsRouter.use(
+  '/*',
+  rateLimit({ limit: 100, windowSeconds: 60, keyPrefix: 'task-lists' }),
+  authMiddleware,
+);
+
+// ─── GET /task-lists — List saved task lists ────────────────────────
+
+taskListsRouter.get('/', async (c) => {
+  const userId = c.get('userId')!;
+
+  const lists = await taskListService.listTaskLists(userId);
+  return c.json(lists);
+});
+
+// ─── POST /task-lists — Save a filter combination ───────────────────
+
+taskListsRouter.post('/', doubleSubmitCsrf, validate('json', createTaskListSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const data = c.get('validatedBody') as CreateTaskListInput;
+
+  const list = await taskListService.createTaskList(userId, data);
+  return c.json(list, 201);
+});
+
+// ─── PATCH /task-lists/:id — Rename a list or change its filters ────
+
+taskListsRouter.patch(
+  '/:id',
+  doubleSubmitCsrf,
+  validate('param', taskListIdParamSchema),
+  validate('json', updateTaskListSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+    const data = c.get('validatedBody') as UpdateTaskListInput;
+
+    const list = await taskListService.updateTaskList(userId, id, data);
+    return c.json(list);
+  },
+);
+
+// ─── DELETE /task-lists/:id — Delete a saved list ───────────────────
+
+taskListsRouter.delete(
+  '/:id',
+  doubleSubmitCsrf,
+  validate('param', taskListIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    await taskListService.deleteTaskList(userId, id);
+    return c.body(null, 204);
+  },
+);
+
+export default taskListsRouter;
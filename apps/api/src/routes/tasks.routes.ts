@@ -5,9 +5,11 @@ import {
   bulkDeleteTasksSchema,
   createTaskSchema,
   listTasksQuerySchema,
+  paginationSchema,
   reorderTasksSchema,
   taskIdParamSchema,
   taskScopeQuerySchema,
+  toggleTaskSchema,
   updateTaskSchema,
 } from '@calley/shared';
 
@@ -16,6 +18,7 @@ import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
 import { rateLimit } from '../middleware/rate-limit.middleware';
 import { validate } from '../middleware/validate.middleware';
 import { taskService } from '../services/task.service';
+import { timeEntryService } from '../services/time-entry.service';
 
 import type { AppVariables } from '../types/hono';
 import type {
@@ -23,8 +26,10 @@ import type {
   BulkDeleteTasksInput,
   CreateTaskInput,
   ListTasksQuery,
+  PaginationInput,
   ReorderTasksInput,
   TaskScopeQuery,
+  ToggleTaskInput,
   UpdateTaskInput,
 } from '@calley/shared';
 
@@ -95,6 +100,34 @@ tasksRouter.post('/', doubleSubmitCsrf, validate('json', createTaskSchema), asyn
   return c.json(task, 201);
 });
 
+// ─── GET /tasks/smart-lists — Counts for the built-in smart lists ──
+
+tasksRouter.get('/smart-lists', async (c) => {
+  const userId = c.get('userId')!;
+
+  const counts = await taskService.getSmartListCounts(userId);
+  return c.json(counts);
+});
+
+// ─── GET /tasks/completed — Completed history, newest first ────────
+
+tasksRouter.get('/completed', validate('query', paginationSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const pagination = c.get('validatedQuery') as PaginationInput;
+
+  const page = await taskService.listCompletedTasks(userId, pagination);
+  return c.json(page);
+});
+
+// ─── POST /tasks/archive-completed — Archive every done task (must be before /:id) ──
+
+tasksRouter.post('/archive-completed', doubleSubmitCsrf, async (c) => {
+  const userId = c.get('userId')!;
+
+  const count = await taskService.archiveCompleted(userId);
+  return c.json({ count });
+});
+
 // ─── GET /tasks/:id — Get a single task ────────────────────────────
 
 tasksRouter.get('/:id', validate('param', taskIdParamSchema), async (c) => {
@@ -105,6 +138,66 @@ tasksRouter.get('/:id', validate('param', taskIdParamSchema), async (c) => {
   return c.json(task);
 });
 
+// ─── GET /tasks/:id/subtasks — List a task's direct subtasks ────────
+
+tasksRouter.get('/:id/subtasks', validate('param', taskIdParamSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const { id } = c.get('validatedParam') as { id: string };
+
+  const subtasks = await taskService.listSubtasks(userId, id);
+  return c.json(subtasks);
+});
+
+// ─── GET /tasks/:id/time-entries — List time logged on a task ───────
+
+tasksRouter.get('/:id/time-entries', validate('param', taskIdParamSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const { id } = c.get('validatedParam') as { id: string };
+
+  const entries = await timeEntryService.listTaskEntries(userId, id);
+  return c.json(entries);
+});
+
+// ─── GET /tasks/:id/completions — Completion history ────────────────
+
+tasksRouter.get('/:id/completions', validate('param', taskIdParamSchema), async (c) => {
+  const userId = c.get('userId')!;
+  const { id } = c.get('validatedParam') as { id: string };
+
+  const completions = await taskService.listCompletions(userId, id);
+  return c.json(completions);
+});
+
+// ─── POST /tasks/:id/timer/start — Start the task's timer ───────────
+
+tasksRouter.post(
+  '/:id/timer/start',
+  doubleSubmitCsrf,
+  validate('param', taskIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    const entry = await timeEntryService.startTimer(userId, id);
+    return c.json(entry, 201);
+  },
+);
+
+// ─── POST /tasks/:id/timer/stop — Stop the task's timer ─────────────
+
+tasksRouter.post(
+  '/:id/timer/stop',
+  doubleSubmitCsrf,
+  validate('param', taskIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    const entry = await timeEntryService.stopTimer(userId, id);
+    return c.json(entry);
+  },
+);
+
 // ─── PATCH /tasks/:id — Update a task ──────────────────────────────
 
 tasksRouter.patch(
@@ -147,11 +240,48 @@ tasksRouter.patch(
   '/:id/toggle',
   doubleSubmitCsrf,
   validate('param', taskIdParamSchema),
+  // The body is optional: a bare PATCH toggles just the task itself
+  async (c, next) => {
+    if (await c.req.text()) return validate('json', toggleTaskSchema)(c, next);
+    c.set('validatedBody', toggleTaskSchema.parse(undefined));
+    await next();
+  },
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+    const options = c.get('validatedBody') as ToggleTaskInput;
+
+    const task = await taskService.toggleTask(userId, id, options);
+    return c.json(task);
+  },
+);
+
+// ─── POST /tasks/:id/archive — Archive a done task ──────────────────
+
+tasksRouter.post(
+  '/:id/archive',
+  doubleSubmitCsrf,
+  validate('param', taskIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    const task = await taskService.archiveTask(userId, id);
+    return c.json(task);
+  },
+);
+
+// ─── POST /tasks/:id/unarchive — Return a task to the task lists ────
+
+tasksRouter.post(
+  '/:id/unarchive',
+  doubleSubmitCsrf,
+  validate('param', taskIdParamSchema),
   async (c) => {
     const userId = c.get('userId')!;
     const { id } = c.get('validatedParam') as { id: string };
 
-    const task = await taskService.toggleTask(userId, id);
+    const task = await taskService.unarchiveTask(userId, id);
     return c.json(task);
   },
 );
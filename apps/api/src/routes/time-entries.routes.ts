@@ -0,0 +1,85 @@
+import { Hono } from 'hono';
+
+import {
+  createTimeEntrySchema,
+  timeEntryIdParamSchema,
+  timeReportQuerySchema,
+  updateTimeEntrySchema,
+} from '@calley/shared';
+
+import { authMiddleware } from '../middleware/auth.middleware';
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { timeEntryService } from '../services/time-entry.service';
+
+import type { AppVariables } from '../types/hono';
+import type { CreateTimeEntryInput, TimeReportQuery, UpdateTimeEntryInput } from '@calley/shared';
+
+const timeEntriesRouter = new Hono<{ Variables: AppVariables }>();
+
+// All time entry routes require authentication and rate limiting
+timeEntriesRouter.use(
+  '/*',
+  rateLimit({ limit: 100, windowSeconds: 60, keyPrefix: 'time-entries' }),
+  authMiddleware,
+);
+
+// ─── GET /time-entries/report — Time logged by category and task ────
+
+timeEntriesRouter.get('/report', validate('query', timeReportQuerySchema), async (c) => {
+  const userId = c.get('userId')!;
+  const query = c.get('validatedQuery') as TimeReportQuery;
+
+  const report = await timeEntryService.getReport(userId, query);
+  return c.json(report);
+});
+
+// ─── POST /time-entries — Log a session by hand ─────────────────────
+
+timeEntriesRouter.post(
+  '/',
+  doubleSubmitCsrf,
+  validate('json', createTimeEntrySchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const data = c.get('validatedBody') as CreateTimeEntryInput;
+
+    const entry = await timeEntryService.createEntry(userId, data);
+    return c.json(entry, 201);
+  },
+);
+
+// ─── PATCH /time-entries/:id — Correct a session's times ────────────
+
+timeEntriesRouter.patch(
+  '/:id',
+  doubleSubmitCsrf,
+  validate('param', timeEntryIdParamSchema),
+  validate('json', updateTimeEntrySchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+    const data = c.get('validatedBody') as UpdateTimeEntryInput;
+
+    const entry = await timeEntryService.updateEntry(userId, id, data);
+    return c.json(entry);
+  },
+);
+
+// ─── DELETE /time-entries/:id — Delete a session ────────────────────
+
+timeEntriesRouter.delete(
+  '/:id',
+  doubleSubmitCsrf,
+  validate('param', timeEntryIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    await timeEntryService.deleteEntry(userId, id);
+    return c.body(null, 204);
+  },
+);
+
+export default timeEntriesRouter;
@@ -0,0 +1,95 @@
+import { Hono } from 'hono';
+
+import { eventIdParamSchema, taskIdParamSchema } from '@calley/shared';
+
+import { authMiddleware } from '../middleware/auth.middleware';
+import { doubleSubmitCsrf } from '../middleware/csrf.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validate.middleware';
+import { eventService } from '../services/event.service';
+import { taskService } from '../services/task.service';
+
+import type { AppVariables } from '../types/hono';
+
+const trashRouter = new Hono<{ Variables: AppVariables }>();
+
+// All trash routes require authentication and rate limiting
+trashRouter.use(
+  '/*',
+  rateLimit({ limit: 100, windowSeconds: 60, keyPrefix: 'trash' }),
+  authMiddleware,
+);
+
+// ─── GET /trash — Deleted events and tasks that can still be restored ──
+
+trashRouter.get('/', async (c) => {
+  const userId = c.get('userId')!;
+
+  const [events, tasks] = await Promise.all([
+    eventService.listDeletedEvents(userId),
+    taskService.listDeletedTasks(userId),
+  ]);
+  return c.json({ events, tasks });
+});
+
+// ─── POST /trash/events/:id/restore — Restore a deleted event ───────
+
+trashRouter.post(
+  '/events/:id/restore',
+  doubleSubmitCsrf,
+  validate('param', eventIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    const event = await eventService.restoreEvent(userId, id);
+    return c.json(event);
+  },
+);
+
+// ─── DELETE /trash/events/:id — Permanently delete an event ─────────
+
+trashRouter.delete(
+  '/events/:id',
+  doubleSubmitCsrf,
+  validate('param', eventIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    await eventService.purgeEvent(userId, id);
+    return c.body(null, 204);
+  },
+);
+
+// ─── POST /trash/tasks/:id/restore — Restore a deleted task ─────────
+
+trashRouter.post(
+  '/tasks/:id/restore',
+  doubleSubmitCsrf,
+  validate('param', taskIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    const task = await taskService.restoreTask(userId, id);
+    return c.json(task);
+  },
+);
+
+// ─── DELETE /trash/tasks/:id — Permanently delete a task ────────────
+
+trashRouter.delete(
+  '/tasks/:id',
+  doubleSubmitCsrf,
+  validate('param', taskIdParamSchema),
+  async (c) => {
+    const userId = c.get('userId')!;
+    const { id } = c.get('validatedParam') as { id: string };
+
+    await taskService.purgeTask(userId, id);
+    return c.body(null, 204);
+  },
+);
+
+export default trashRouter;
@@ -0,0 +1,205 @@
+import { createHash } from 'node:crypto';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+// Mock the database module
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      appPasswords: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+      users: {
+        findFirst: vi.fn(),
+      },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Mock audit service
+vi.mock('../audit.service', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { AppPasswordService } from '../app-password.service';
+import { auditService } from '../audit.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_APP_PASSWORD_ID = 'testapppassword1234567890';
+const TEST_PASSWORD = 'abcd1234-abcd1234-abcd1234-abcd1234';
+
+function makeAppPasswordRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_APP_PASSWORD_ID,
+    userId: TEST_USER_ID,
+    name: 'iPhone',
+    tokenHash: createHash('sha256').update(TEST_PASSWORD).digest('hex'),
+    lastUsedAt: null,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+function mockInsertChain(result: unknown[]) {
+  const chain = {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.insert as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockUpdateChain() {
+  const chain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    execute: vi.fn().mockResolvedValue(undefined),
+  };
+  (db.update as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockDeleteChain(result: unknown[]) {
+  const chain = {
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.delete as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('AppPasswordService', () => {
+  let service: AppPasswordService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AppPasswordService();
+  });
+
+  // ─── createAppPassword ──────────────────────────────────────────
+
+  describe('createAppPassword', () => {
+    it('should store only the hash and return the password once', async () => {
+      (db.query.appPasswords.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+      const chain = mockInsertChain([makeAppPasswordRow()]);
+
+      const result = await service.createAppPassword(TEST_USER_ID, { name: 'iPhone' });
+
+      expect(result.password).toMatch(/^[a-f0-9]{8}(-[a-f0-9]{8}){3}$/);
+      const inserted = chain.values.mock.calls[0][0];
+      expect(inserted.tokenHash).toBe(createHash('sha256').update(result.password).digest('hex'));
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'app_password.created', entityId: TEST_APP_PASSWORD_ID }),
+      );
+    });
+
+    it('should enforce the per-user limit', async () => {
+      (db.query.appPasswords.findMany as ReturnType<typeof vi.fn>).mockResolvedValue(
+        Array.from({ length: 20 }, (_, i) => ({ id: `id${i}` })),
+      );
+
+      await expect(
+        service.createAppPassword(TEST_USER_ID, { name: 'iPhone' }),
+      ).rejects.toMatchObject({ statusCode: 422 });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── revokeAppPassword ──────────────────────────────────────────
+
+  describe('revokeAppPassword', () => {
+    it('should throw NOT_FOUND when nothing was deleted', async () => {
+      mockDeleteChain([]);
+
+      await expect(
+        service.revokeAppPassword(TEST_USER_ID, TEST_APP_PASSWORD_ID),
+      ).rejects.toMatchObject({ statusCode: 404, code: 'NOT_FOUND' });
+      expect(auditService.log).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── verifyCredentials ──────────────────────────────────────────
+
+  describe('verifyCredentials', () => {
+    it('should return the user ID for a matching email and password', async () => {
+      (db.query.appPasswords.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeAppPasswordRow(),
+      );
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_USER_ID,
+        email: 'alice@example.com',
+      });
+      const chain = mockUpdateChain();
+
+      const result = await service.verifyCredentials('Alice@Example.com', TEST_PASSWORD);
+
+      expect(result).toBe(TEST_USER_ID);
+      expect(chain.set).toHaveBeenCalledWith({ lastUsedAt: expect.any(Date) });
+    });
+
+    it('should reject a password that belongs to another account', async () => {
+      (db.query.appPasswords.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeAppPasswordRow(),
+      );
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_USER_ID,
+        email: 'alice@example.com',
+      });
+
+      const result = await service.verifyCredentials('mallory@example.com', TEST_PASSWORD);
+
+      expect(result).toBeNull();
+    });
+
+    it('should not touch lastUsedAt within the throttle window', async () => {
+      (db.query.appPasswords.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeAppPasswordRow({ lastUsedAt: new Date() }),
+      );
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_USER_ID,
+        email: 'alice@example.com',
+      });
+
+      await service.verifyCredentials('alice@example.com', TEST_PASSWORD);
+
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should return null for an unknown password', async () => {
+      (db.query.appPasswords.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      const result = await service.verifyCredentials('alice@example.com', 'wrong');
+
+      expect(result).toBeNull();
+      expect(db.query.users.findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
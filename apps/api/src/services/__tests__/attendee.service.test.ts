@@ -0,0 +1,371 @@
+import { createHash } from 'node:crypto';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+// Mock the database module
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      events: {
+        findFirst: vi.fn(),
+      },
+      eventAttendees: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+      users: {
+        findFirst: vi.fn(),
+      },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Mock email
+vi.mock('../../lib/email', () => ({
+  sendEmail: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock SSE service
+vi.mock('../sse.service', () => ({
+  sseService: {
+    emit: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { sendEmail } from '../../lib/email';
+import { AttendeeService } from '../attendee.service';
+import { sseService } from '../sse.service';
+
+import type { SendEmailOptions } from '../../lib/email';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_EVENT_ID = 'testevent12345678901234567';
+const TEST_ATTENDEE_ID = 'testattendee1234567890123';
+const TEST_TOKEN = 'ef'.repeat(32);
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function makeEventRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_EVENT_ID,
+    userId: TEST_USER_ID,
+    categoryId: 'testcategory1234567890123',
+    title: 'Planning',
+    description: null,
+    location: 'Room 4',
+    startAt: new Date('2026-03-15T09:00:00Z'),
+    endAt: new Date('2026-03-15T10:00:00Z'),
+    timezone: 'Europe/Berlin',
+    endTimezone: null,
+    isAllDay: false,
+    color: null,
+    visibility: 'private',
+    icalUid: null,
+    sequence: 0,
+    rrule: null,
+    exDates: [],
+    recurringEventId: null,
+    originalDate: null,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeAttendeeRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_ATTENDEE_ID,
+    eventId: TEST_EVENT_ID,
+    userId: TEST_USER_ID,
+    email: 'guest@example.com',
+    name: 'Guest',
+    role: 'required',
+    status: 'needs_action',
+    rsvpTokenHash: hashToken(TEST_TOKEN),
+    respondedAt: null,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function makeOrganizer() {
+  return {
+    id: TEST_USER_ID,
+    name: 'Test User',
+    email: 'test@example.com',
+    timezone: 'America/New_York',
+  };
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+function mockInsertChain(result: unknown[]) {
+  const chain = {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.insert as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockUpdateChain(result: unknown[] = []) {
+  const chain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+    // Awaiting the chain without .returning() resolves it
+    then: (resolve: (value: unknown) => void) => resolve(undefined),
+  };
+  (db.update as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockDeleteChain(result: unknown[]) {
+  const chain = {
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.delete as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+/** Wait for fire-and-forget invitation emails and return what was sent */
+async function getSentEmails(count: number): Promise<SendEmailOptions[]> {
+  await vi.waitFor(() => expect(sendEmail).toHaveBeenCalledTimes(count));
+  return (sendEmail as ReturnType<typeof vi.fn>).mock.calls.map(
+    (call) => call[0] as SendEmailOptions,
+  );
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('AttendeeService', () => {
+  let service: AttendeeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AttendeeService();
+    (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeOrganizer());
+  });
+
+  // ─── addAttendee ────────────────────────────────────────────────
+
+  describe('addAttendee', () => {
+    it('should invite the attendee with an iTIP REQUEST and RSVP link', async () => {
+      const attendee = makeAttendeeRow();
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+      (db.query.eventAttendees.findMany as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([attendee]);
+      mockInsertChain([attendee]);
+      const updateChain = mockUpdateChain();
+
+      const result = await service.addAttendee(TEST_USER_ID, TEST_EVENT_ID, {
+        email: 'guest@example.com',
+        name: 'Guest',
+        role: 'required',
+      });
+
+      expect(result.email).toBe('guest@example.com');
+      expect(result.status).toBe('needs_action');
+      expect(result).not.toHaveProperty('rsvpTokenHash');
+
+      const [email] = await getSentEmails(1);
+      expect(email.to).toBe('guest@example.com');
+      expect(email.subject).toBe('Invitation: Planning');
+
+      // Unfold long lines before matching
+      const ics = email.attachments![0].content.replace(/\r\n /g, '');
+      expect(email.attachments![0].contentType).toContain('method=REQUEST');
+      expect(ics).toContain('METHOD:REQUEST');
+      expect(ics).toContain('ORGANIZER;CN="Test User":mailto:test@example.com');
+      expect(ics).toContain(
+        'ATTENDEE;CN="Guest";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:guest',
+      );
+      expect(ics).toContain('SEQUENCE:0');
+
+      // The link's token is stored hashed
+      const token = email.text.match(/\/rsvp\/([a-f0-9]{64})/)![1];
+      expect(updateChain.set).toHaveBeenCalledWith({ rsvpTokenHash: hashToken(token) });
+    });
+
+    it('should reject inviting the organizer', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+
+      await expect(
+        service.addAttendee(TEST_USER_ID, TEST_EVENT_ID, {
+          email: 'test@example.com',
+          role: 'required',
+        }),
+      ).rejects.toMatchObject({ statusCode: 422 });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject a duplicate attendee', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+      (db.query.eventAttendees.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { email: 'guest@example.com' },
+      ]);
+
+      await expect(
+        service.addAttendee(TEST_USER_ID, TEST_EVENT_ID, {
+          email: 'guest@example.com',
+          role: 'required',
+        }),
+      ).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+    });
+
+    it('should throw NOT_FOUND for an event the user does not own', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(
+        service.addAttendee(TEST_USER_ID, TEST_EVENT_ID, {
+          email: 'guest@example.com',
+          role: 'required',
+        }),
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  // ─── removeAttendee ─────────────────────────────────────────────
+
+  describe('removeAttendee', () => {
+    it('should send the removed attendee an iTIP CANCEL', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+      mockDeleteChain([makeAttendeeRow()]);
+
+      await service.removeAttendee(TEST_USER_ID, TEST_EVENT_ID, TEST_ATTENDEE_ID);
+
+      const [email] = await getSentEmails(1);
+      expect(email.subject).toBe('Cancelled: Planning');
+      expect(email.attachments![0].content).toContain('METHOD:CANCEL');
+      expect(email.attachments![0].content).toContain('STATUS:CANCELLED');
+      expect(email.text).not.toContain('/rsvp/');
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NOT_FOUND for an unknown attendee', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+      mockDeleteChain([]);
+
+      await expect(
+        service.removeAttendee(TEST_USER_ID, TEST_EVENT_ID, TEST_ATTENDEE_ID),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── notifyEventUpdated ─────────────────────────────────────────
+
+  describe('notifyEventUpdated', () => {
+    it('should do nothing for events without attendees', async () => {
+      (db.query.eventAttendees.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      await service.notifyEventUpdated(TEST_USER_ID, TEST_EVENT_ID);
+
+      expect(db.update).not.toHaveBeenCalled();
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should bump the sequence and re-invite every attendee', async () => {
+      (db.query.eventAttendees.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeAttendeeRow(),
+        makeAttendeeRow({ id: 'otherattendee123456789012', email: 'other@example.com' }),
+      ]);
+      mockUpdateChain([makeEventRow({ sequence: 3 })]);
+
+      await service.notifyEventUpdated(TEST_USER_ID, TEST_EVENT_ID);
+
+      const emails = await getSentEmails(2);
+      expect(emails.map((e) => e.to)).toEqual(['guest@example.com', 'other@example.com']);
+      expect(emails[0].subject).toBe('Updated invitation: Planning');
+      expect(emails[0].attachments![0].content).toContain('SEQUENCE:3');
+    });
+  });
+
+  // ─── getInvitation ──────────────────────────────────────────────
+
+  describe('getInvitation', () => {
+    it('should return the event, organizer and attendee for a token', async () => {
+      (db.query.eventAttendees.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeAttendeeRow(),
+      );
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+
+      const result = await service.getInvitation(TEST_TOKEN);
+
+      expect(result.event.title).toBe('Planning');
+      expect(result.organizer).toEqual({ name: 'Test User', email: 'test@example.com' });
+      expect(result.attendee.status).toBe('needs_action');
+    });
+
+    it('should throw NOT_FOUND for an unknown token', async () => {
+      (db.query.eventAttendees.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.getInvitation(TEST_TOKEN)).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should throw NOT_FOUND once the event is deleted', async () => {
+      (db.query.eventAttendees.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeAttendeeRow(),
+      );
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.getInvitation(TEST_TOKEN)).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  // ─── respond ────────────────────────────────────────────────────
+
+  describe('respond', () => {
+    it('should record the status and notify the organizer', async () => {
+      (db.query.eventAttendees.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeAttendeeRow(),
+      );
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+      const updateChain = mockUpdateChain([
+        makeAttendeeRow({ status: 'accepted', respondedAt: new Date() }),
+      ]);
+
+      const result = await service.respond(TEST_TOKEN, { status: 'accepted' });
+
+      expect(result.attendee.status).toBe('accepted');
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'accepted', respondedAt: expect.any(Date) }),
+      );
+      expect(sseService.emit).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        'event:rsvp',
+        expect.objectContaining({
+          eventId: TEST_EVENT_ID,
+          attendeeId: TEST_ATTENDEE_ID,
+          status: 'accepted',
+        }),
+      );
+    });
+  });
+});
@@ -85,6 +85,8 @@ vi.mock('node:crypto', () => ({
 
 import argon2 from 'argon2';
 
+import { DEFAULT_WORKING_HOURS } from '@calley/shared';
+
 import { db } from '../../db';
 import { sendEmail } from '../../lib/email';
 import { lucia } from '../../lib/lucia';
@@ -373,6 +375,16 @@ describe('AuthService', () => {
       expect((result as Record<string, unknown>).lockedUntil).toBeUndefined();
     });
 
+    it('should return the default working hours until the user sets their own', async () => {
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeUserRow({ workingHours: null }),
+      );
+
+      const result = await service.getMe(TEST_USER_ID);
+
+      expect(result.workingHours).toEqual(DEFAULT_WORKING_HOURS);
+    });
+
     it('should throw NOT_FOUND when user does not exist', async () => {
       (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
 
@@ -0,0 +1,546 @@
+import { createHash } from 'node:crypto';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      appointmentTypes: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+      bookings: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+      calendarCategories: {
+        findFirst: vi.fn(),
+      },
+      events: {
+        findFirst: vi.fn(),
+      },
+      users: {
+        findFirst: vi.fn(),
+      },
+    },
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../lib/email', () => ({
+  sendEmail: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../event.service', () => ({
+  eventService: {
+    listEvents: vi.fn(),
+    createEvent: vi.fn(),
+    updateEvent: vi.fn(),
+    deleteEvent: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { sendEmail } from '../../lib/email';
+import { BookingService } from '../booking.service';
+import { eventService } from '../event.service';
+
+import type { SendEmailOptions } from '../../lib/email';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const HOST_ID = 'hostuser12345678901234567';
+const TYPE_ID = 'apptype123456789012345678';
+const BOOKING_ID = 'booking123456789012345678';
+const EVENT_ID = 'event1234567890123456789';
+const CATEGORY_ID = 'testcategory1234567890123';
+const TEST_TOKEN = 'ab'.repeat(32);
+
+/** Monday 2 March 2026 in New York: 09:00–17:00 EST is 14:00–22:00 UTC */
+const MONDAY = { start: '2026-03-02T00:00:00.000Z', end: '2026-03-03T00:00:00.000Z' };
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+const host = {
+  id: HOST_ID,
+  name: 'Host',
+  email: 'host@example.com',
+  timezone: 'America/New_York',
+  workingHours: null,
+};
+
+function makeType(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TYPE_ID,
+    userId: HOST_ID,
+    categoryId: CATEGORY_ID,
+    name: 'Intro call',
+    slug: 'intro-call',
+    description: null,
+    location: null,
+    durationMinutes: 30,
+    bufferMinutes: 0,
+    minNoticeMinutes: 60,
+    maxPerDay: null,
+    availability: null,
+    isActive: true,
+    createdAt: new Date('2026-02-01T00:00:00Z'),
+    updatedAt: new Date('2026-02-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function makeBooking(overrides: Record<string, unknown> = {}) {
+  return {
+    id: BOOKING_ID,
+    appointmentTypeId: TYPE_ID,
+    userId: HOST_ID,
+    eventId: EVENT_ID,
+    guestName: 'Guest',
+    guestEmail: 'guest@example.com',
+    guestTimezone: 'Europe/London',
+    notes: null,
+    startAt: new Date('2026-03-02T15:00:00Z'),
+    endAt: new Date('2026-03-02T15:30:00Z'),
+    status: 'confirmed',
+    tokenHash: hashToken(TEST_TOKEN),
+    cancelledAt: null,
+    createdAt: new Date('2026-02-20T00:00:00Z'),
+    updatedAt: new Date('2026-02-20T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function makeEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'other12345678901234567890',
+    userId: HOST_ID,
+    startAt: '2026-03-02T15:00:00.000Z',
+    endAt: '2026-03-02T16:00:00.000Z',
+    isAllDay: false,
+    ...overrides,
+  };
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+function mockSelectCount(value: number) {
+  const chain = {
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockResolvedValue([{ value }]),
+  };
+  (db.select as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockInsertChain(result: unknown[]) {
+  const chain = {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.insert as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockUpdateChain(result: unknown[] = []) {
+  const chain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.update as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+/** Wait for fire-and-forget booking emails and return what was sent */
+async function getSentEmails(count: number): Promise<SendEmailOptions[]> {
+  await vi.waitFor(() => expect(sendEmail).toHaveBeenCalledTimes(count));
+  return (sendEmail as ReturnType<typeof vi.fn>).mock.calls.map(
+    (call) => call[0] as SendEmailOptions,
+  );
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('BookingService', () => {
+  let service: BookingService;
+  // Holds the host's booking lock. Its queries and writes go through the
+  // db mocks so the chain helpers below work inside the lock too.
+  const lockTx = {
+    execute: vi.fn().mockResolvedValue(undefined),
+    query: db.query,
+    insert: vi.fn(),
+    update: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(lockTx));
+    lockTx.insert.mockImplementation((table) => db.insert(table));
+    lockTx.update.mockImplementation((table) => db.update(table));
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    service = new BookingService();
+    (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(host);
+    (db.query.appointmentTypes.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeType());
+    (db.query.bookings.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // ─── Appointment Types ──────────────────────────────────────────
+
+  describe('createAppointmentType', () => {
+    const input = {
+      name: 'Intro call',
+      slug: 'intro-call',
+      categoryId: CATEGORY_ID,
+      durationMinutes: 30,
+      bufferMinutes: 0,
+      minNoticeMinutes: 60,
+      maxPerDay: null,
+      availability: null,
+      isActive: true,
+    };
+
+    it('should create the appointment type', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: CATEGORY_ID,
+      });
+      (db.query.appointmentTypes.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        undefined,
+      );
+      mockSelectCount(0);
+      const insertChain = mockInsertChain([makeType()]);
+
+      const result = await service.createAppointmentType(HOST_ID, input);
+
+      expect(result.slug).toBe('intro-call');
+      expect(result.createdAt).toBe('2026-02-01T00:00:00.000Z');
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: HOST_ID, slug: 'intro-call', description: null }),
+      );
+    });
+
+    it('should reject a slug that is already taken', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: CATEGORY_ID,
+      });
+      (db.query.appointmentTypes.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: 'someoneelse12345678901234',
+      });
+
+      await expect(service.createAppointmentType(HOST_ID, input)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it("should reject a category the user doesn't own", async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        undefined,
+      );
+
+      await expect(service.createAppointmentType(HOST_ID, input)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  // ─── getAvailableSlots ──────────────────────────────────────────
+
+  describe('getAvailableSlots', () => {
+    it("should offer slots within the host's working hours", async () => {
+      const result = await service.getAvailableSlots('intro-call', MONDAY);
+
+      expect(result.slots).toHaveLength(16);
+      expect(result.slots[0]).toEqual({
+        start: '2026-03-02T14:00:00.000Z',
+        end: '2026-03-02T14:30:00.000Z',
+      });
+      expect(result.slots[15].end).toBe('2026-03-02T22:00:00.000Z');
+    });
+
+    it('should keep the buffer clear around existing events', async () => {
+      (db.query.appointmentTypes.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeType({ bufferMinutes: 15 }),
+      );
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEvent(),
+        // Events on calendars shared with the host don't block their time
+        makeEvent({ id: 'shared1234567890123456789', userId: 'someoneelse12345678901234' }),
+      ]);
+
+      const result = await service.getAvailableSlots('intro-call', MONDAY);
+
+      const starts = result.slots.map((slot) => slot.start);
+      expect(starts.slice(0, 2)).toEqual(['2026-03-02T14:00:00.000Z', '2026-03-02T16:30:00.000Z']);
+      expect(starts).toHaveLength(12);
+    });
+
+    it('should skip slots inside the minimum notice', async () => {
+      vi.setSystemTime(new Date('2026-03-02T15:10:00Z'));
+
+      const result = await service.getAvailableSlots('intro-call', MONDAY);
+
+      expect(result.slots[0].start).toBe('2026-03-02T16:30:00.000Z');
+    });
+
+    it('should skip days that reached the daily limit', async () => {
+      (db.query.appointmentTypes.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeType({ maxPerDay: 1 }),
+      );
+      (db.query.bookings.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { startAt: new Date('2026-03-02T20:00:00Z') },
+      ]);
+
+      const result = await service.getAvailableSlots('intro-call', MONDAY);
+
+      expect(result.slots).toEqual([]);
+    });
+
+    it('should return 404 for a paused or unknown page', async () => {
+      (db.query.appointmentTypes.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        undefined,
+      );
+
+      await expect(service.getAvailableSlots('intro-call', MONDAY)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  // ─── book ───────────────────────────────────────────────────────
+
+  describe('book', () => {
+    const input = {
+      startAt: '2026-03-02T15:00:00.000Z',
+      name: 'Guest',
+      email: 'guest@example.com',
+      timezone: 'Europe/London',
+    };
+
+    it('should create a private event and email the guest a manage link', async () => {
+      (eventService.createEvent as ReturnType<typeof vi.fn>).mockResolvedValue({ id: EVENT_ID });
+      const insertChain = mockInsertChain([makeBooking()]);
+
+      const result = await service.book('intro-call', input);
+
+      expect(eventService.createEvent).toHaveBeenCalledWith(
+        HOST_ID,
+        expect.objectContaining({
+          title: 'Intro call with Guest',
+          startAt: '2026-03-02T15:00:00.000Z',
+          endAt: '2026-03-02T15:30:00.000Z',
+          timezone: 'America/New_York',
+          categoryId: CATEGORY_ID,
+          visibility: 'private',
+        }),
+        lockTx,
+      );
+      expect(result.token).toMatch(/^[a-f0-9]{64}$/);
+      expect(result.status).toBe('confirmed');
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ eventId: EVENT_ID, tokenHash: hashToken(result.token) }),
+      );
+
+      const [email] = await getSentEmails(1);
+      expect(email.to).toBe('guest@example.com');
+      expect(email.subject).toBe('Confirmed: Intro call with Host');
+      expect(email.text).toContain(`/booking/${result.token}`);
+      // Times are shown in the guest's timezone
+      expect(email.text).toContain('3:00 PM GMT');
+      expect(email.attachments?.[0].content).toContain('METHOD:REQUEST');
+    });
+
+    it("should check and take the slot while holding the host's lock", async () => {
+      (eventService.createEvent as ReturnType<typeof vi.fn>).mockResolvedValue({ id: EVENT_ID });
+      const insertChain = mockInsertChain([makeBooking()]);
+
+      await service.book('intro-call', input);
+
+      const [lockedAt] = lockTx.execute.mock.invocationCallOrder;
+      expect(lockedAt).toBeLessThan(
+        (eventService.listEvents as ReturnType<typeof vi.fn>).mock.invocationCallOrder[0],
+      );
+      expect(db.transaction).toHaveBeenCalledTimes(1);
+      // The slot check and both writes run on the locking transaction
+      expect((eventService.listEvents as ReturnType<typeof vi.fn>).mock.calls[0][5]).toBe(lockTx);
+      expect((eventService.createEvent as ReturnType<typeof vi.fn>).mock.calls[0][2]).toBe(lockTx);
+      expect(lockTx.insert).toHaveBeenCalled();
+      expect(insertChain.returning).toHaveBeenCalled();
+    });
+
+    it('should roll back the event when the booking insert fails', async () => {
+      const committed: string[] = [];
+      // Writes made on the transaction only land if it commits
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => {
+        const staged: string[] = [];
+        (eventService.createEvent as ReturnType<typeof vi.fn>).mockImplementation(
+          async (_userId, _data, tx) => {
+            (tx === lockTx ? staged : committed).push(EVENT_ID);
+            return { id: EVENT_ID };
+          },
+        );
+        const result = await fn(lockTx);
+        committed.push(...staged);
+        return result;
+      });
+      lockTx.insert.mockReturnValue({
+        values: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockRejectedValue(new Error('insert failed')),
+      });
+
+      await expect(service.book('intro-call', input)).rejects.toThrow('insert failed');
+      expect(eventService.createEvent).toHaveBeenCalled();
+      expect(committed).toEqual([]);
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should reject a time that is no longer open', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([makeEvent()]);
+
+      await expect(service.book('intro-call', input)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(eventService.createEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject a time that is not on the slot grid', async () => {
+      await expect(
+        service.book('intro-call', { ...input, startAt: '2026-03-02T15:07:00.000Z' }),
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  // ─── Manage Links ───────────────────────────────────────────────
+
+  describe('getBooking', () => {
+    it('should report a booking whose event the host deleted as cancelled', async () => {
+      (db.query.bookings.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeBooking());
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        deletedAt: new Date('2026-02-25T00:00:00Z'),
+      });
+
+      const result = await service.getBooking(TEST_TOKEN);
+
+      expect(result.status).toBe('cancelled');
+      expect(result.page.host).toEqual({ name: 'Host' });
+    });
+
+    it('should return 404 for an unknown token', async () => {
+      (db.query.bookings.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.getBooking(TEST_TOKEN)).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('cancelBooking', () => {
+    it("should cancel the booking and delete the host's event", async () => {
+      (db.query.bookings.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeBooking());
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        deletedAt: null,
+        sequence: 0,
+      });
+      const updateChain = mockUpdateChain([
+        makeBooking({ status: 'cancelled', cancelledAt: new Date() }),
+      ]);
+
+      const result = await service.cancelBooking(TEST_TOKEN);
+
+      expect(result.status).toBe('cancelled');
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'cancelled' }),
+      );
+      expect(eventService.deleteEvent).toHaveBeenCalledWith(HOST_ID, EVENT_ID);
+
+      const [email] = await getSentEmails(1);
+      expect(email.subject).toBe('Cancelled: Intro call with Host');
+      expect(email.attachments?.[0].content).toContain('METHOD:CANCEL');
+    });
+
+    it('should reject a booking that is already cancelled', async () => {
+      (db.query.bookings.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeBooking({ status: 'cancelled' }),
+      );
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.cancelBooking(TEST_TOKEN)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(eventService.deleteEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rescheduleBooking', () => {
+    it('should move the booking and its event, ignoring its own time', async () => {
+      (db.query.bookings.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeBooking());
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        deletedAt: null,
+      });
+      // The booking's own event is the only thing on the calendar
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEvent({ id: EVENT_ID, endAt: '2026-03-02T15:30:00.000Z' }),
+      ]);
+      const moved = makeBooking({
+        startAt: new Date('2026-03-02T14:30:00Z'),
+        endAt: new Date('2026-03-02T15:00:00Z'),
+      });
+      // The booking row first, then the event's SEQUENCE
+      (db.update as ReturnType<typeof vi.fn>)
+        .mockReturnValueOnce({
+          set: vi.fn().mockReturnThis(),
+          where: vi.fn().mockReturnThis(),
+          returning: vi.fn().mockResolvedValue([moved]),
+        })
+        .mockReturnValueOnce({
+          set: vi.fn().mockReturnThis(),
+          where: vi.fn().mockReturnThis(),
+          returning: vi.fn().mockResolvedValue([{ sequence: 1 }]),
+        });
+
+      const result = await service.rescheduleBooking(TEST_TOKEN, {
+        startAt: '2026-03-02T14:30:00.000Z',
+      });
+
+      expect(result.startAt).toBe('2026-03-02T14:30:00.000Z');
+      expect(lockTx.execute).toHaveBeenCalled();
+      expect(eventService.updateEvent).toHaveBeenCalledWith(
+        HOST_ID,
+        EVENT_ID,
+        { startAt: '2026-03-02T14:30:00.000Z', endAt: '2026-03-02T15:00:00.000Z' },
+        undefined,
+        undefined,
+        false,
+        lockTx,
+      );
+      expect(lockTx.update).toHaveBeenCalledTimes(2);
+
+      const [email] = await getSentEmails(1);
+      expect(email.subject).toBe('Rescheduled: Intro call with Host');
+      expect(email.attachments?.[0].content).toContain('SEQUENCE:1');
+    });
+  });
+});
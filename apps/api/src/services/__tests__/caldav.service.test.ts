@@ -0,0 +1,405 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+// Mock the database module
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      users: {
+        findFirst: vi.fn(),
+      },
+      calendarCategories: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+      events: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+      eventExceptions: {
+        findMany: vi.fn(),
+      },
+      tasks: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+    },
+    select: vi.fn(),
+    update: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Mock event and task services (writes go through them)
+vi.mock('../event.service', () => ({
+  eventService: {
+    listEvents: vi.fn(),
+    createEvent: vi.fn(),
+    updateEvent: vi.fn(),
+    deleteEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../task.service', () => ({
+  taskService: {
+    createTask: vi.fn(),
+    updateTask: vi.fn(),
+    deleteTask: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { CalDavService } from '../caldav.service';
+import { eventService } from '../event.service';
+import { taskService } from '../task.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_CATEGORY_ID = 'testcategory1234567890123';
+const TEST_EVENT_ID = 'testevent12345678901234567';
+const TEST_TASK_ID = 'testtask123456789012345678';
+
+function makeEventRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_EVENT_ID,
+    userId: TEST_USER_ID,
+    categoryId: TEST_CATEGORY_ID,
+    title: 'Standup',
+    description: null,
+    location: null,
+    startAt: new Date('2026-03-16T09:00:00Z'),
+    endAt: new Date('2026-03-16T09:15:00Z'),
+    isAllDay: false,
+    color: null,
+    visibility: 'private',
+    rrule: null,
+    exDates: [],
+    recurringEventId: null,
+    originalDate: null,
+    icalUid: null,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeTaskRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_TASK_ID,
+    userId: TEST_USER_ID,
+    categoryId: TEST_CATEGORY_ID,
+    title: 'Write report',
+    description: null,
+    dueAt: null,
+    priority: 'none',
+    status: 'todo',
+    completedAt: null,
+    rrule: null,
+    exDates: [],
+    recurringTaskId: null,
+    originalDate: null,
+    sortOrder: 0,
+    icalUid: null,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeVEvent(uid: string, extra: string[] = []) {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Test//EN',
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    'DTSTAMP:20260301T000000Z',
+    'DTSTART:20260316T090000Z',
+    'DTEND:20260316T091500Z',
+    'SUMMARY:Standup',
+    ...extra,
+    'END:VEVENT',
+    'END:VCALENDAR',
+    '',
+  ].join('\r\n');
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+function mockCtagQueries() {
+  const chain = {
+    from: vi.fn().mockReturnThis(),
+    innerJoin: vi.fn().mockReturnThis(),
+    where: vi.fn().mockResolvedValue([{ updated: null, count: 0 }]),
+  };
+  (db.select as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockUpdateChain() {
+  const chain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockResolvedValue(undefined),
+  };
+  (db.update as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockCategory() {
+  (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+    id: TEST_CATEGORY_ID,
+    name: 'Work',
+    color: '#3b82f6',
+    sortOrder: 0,
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('CalDavService', () => {
+  let service: CalDavService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CalDavService();
+    mockCtagQueries();
+    (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ timezone: 'UTC' });
+    (db.query.eventExceptions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+  });
+
+  // ─── getCalendar ────────────────────────────────────────────────
+
+  describe('getCalendar', () => {
+    it("should throw NOT_FOUND for another user's category", async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        undefined,
+      );
+
+      await expect(service.getCalendar(TEST_USER_ID, TEST_CATEGORY_ID)).rejects.toMatchObject({
+        statusCode: 404,
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+
+  // ─── listResources ──────────────────────────────────────────────
+
+  describe('listResources', () => {
+    it('should name resources after their UID and give them stable ETags', async () => {
+      mockCategory();
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEventRow({ icalUid: 'abc@example.com' }),
+      ]);
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([makeTaskRow()]);
+
+      const first = await service.listResources(TEST_USER_ID, TEST_CATEGORY_ID);
+      const second = await service.listResources(TEST_USER_ID, TEST_CATEGORY_ID);
+
+      expect(first.map((r) => [r.name, r.componentType])).toEqual([
+        ['abc%40example.com.ics', 'VEVENT'],
+        [`${TEST_TASK_ID}.ics`, 'VTODO'],
+      ]);
+      expect(first[0].data).toContain('UID:abc@example.com');
+      expect(first[1].data).toContain(`UID:${TEST_TASK_ID}@calley.app`);
+      expect(first[0].etag).toMatch(/^"[a-f0-9]{32}"$/);
+      expect(second[0].etag).toBe(first[0].etag);
+    });
+
+    it('should filter events by expanded time range and keep undated tasks', async () => {
+      mockCategory();
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEventRow(),
+        makeEventRow({ id: 'otherevent123456789012345' }),
+      ]);
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeTaskRow(),
+        makeTaskRow({ id: 'latetask12345678901234567', dueAt: new Date('2026-06-01T00:00:00Z') }),
+      ]);
+      vi.mocked(eventService.listEvents).mockResolvedValue([{ id: TEST_EVENT_ID }] as never);
+
+      const result = await service.listResources(TEST_USER_ID, TEST_CATEGORY_ID, {
+        start: new Date('2026-03-01T00:00:00Z'),
+        end: new Date('2026-04-01T00:00:00Z'),
+      });
+
+      expect(eventService.listEvents).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        '2026-03-01T00:00:00.000Z',
+        '2026-04-01T00:00:00.000Z',
+        [TEST_CATEGORY_ID],
+      );
+      expect(result.map((r) => r.name)).toEqual([`${TEST_EVENT_ID}.ics`, `${TEST_TASK_ID}.ics`]);
+    });
+  });
+
+  // ─── putResource ────────────────────────────────────────────────
+
+  describe('putResource', () => {
+    it('should create an event and keep the client UID', async () => {
+      mockCategory();
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(makeEventRow({ icalUid: 'abc@example.com' }));
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      vi.mocked(eventService.createEvent).mockResolvedValue({ id: TEST_EVENT_ID } as never);
+      const chain = mockUpdateChain();
+
+      const result = await service.putResource(
+        TEST_USER_ID,
+        TEST_CATEGORY_ID,
+        'abc@example.com.ics',
+        makeVEvent('abc@example.com'),
+        { ifNoneMatch: '*' },
+      );
+
+      expect(result.created).toBe(true);
+      expect(result.etag).toMatch(/^"[a-f0-9]{32}"$/);
+      expect(eventService.createEvent).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        expect.objectContaining({
+          categoryId: TEST_CATEGORY_ID,
+          title: 'Standup',
+          startAt: '2026-03-16T09:00:00.000Z',
+          endAt: '2026-03-16T09:15:00.000Z',
+        }),
+      );
+      expect(chain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ icalUid: 'abc@example.com', exDates: [] }),
+      );
+    });
+
+    it('should update an existing event found by its Calley UID', async () => {
+      mockCategory();
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+      mockUpdateChain();
+
+      const result = await service.putResource(
+        TEST_USER_ID,
+        TEST_CATEGORY_ID,
+        `${TEST_EVENT_ID}.ics`,
+        makeVEvent(`${TEST_EVENT_ID}@calley.app`, ['LOCATION:Room 1']),
+      );
+
+      expect(result.created).toBe(false);
+      expect(eventService.updateEvent).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_EVENT_ID,
+        expect.objectContaining({ title: 'Standup', location: 'Room 1' }),
+      );
+      // Unchanged descriptions are not sent, so stored HTML survives a round-trip
+      expect(vi.mocked(eventService.updateEvent).mock.calls[0][2]).not.toHaveProperty(
+        'description',
+      );
+      // The UID and exDates are unchanged — no direct write needed
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should fail If-None-Match when the resource exists', async () => {
+      mockCategory();
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+
+      await expect(
+        service.putResource(
+          TEST_USER_ID,
+          TEST_CATEGORY_ID,
+          `${TEST_EVENT_ID}.ics`,
+          makeVEvent(`${TEST_EVENT_ID}@calley.app`),
+          { ifNoneMatch: '*' },
+        ),
+      ).rejects.toMatchObject({ statusCode: 412, code: 'PRECONDITION_FAILED' });
+      expect(eventService.updateEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject changing a task into an event', async () => {
+      mockCategory();
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+
+      await expect(
+        service.putResource(
+          TEST_USER_ID,
+          TEST_CATEGORY_ID,
+          `${TEST_TASK_ID}.ics`,
+          makeVEvent(`${TEST_TASK_ID}@calley.app`),
+        ),
+      ).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+    });
+
+    it('should reject calendar data with more than one UID', async () => {
+      mockCategory();
+      const content = makeVEvent('one@example.com').replace(
+        'END:VCALENDAR',
+        [
+          'BEGIN:VEVENT',
+          'UID:two@example.com',
+          'DTSTART:20260317T090000Z',
+          'SUMMARY:Other',
+          'END:VEVENT',
+          'END:VCALENDAR',
+        ].join('\r\n'),
+      );
+
+      await expect(
+        service.putResource(TEST_USER_ID, TEST_CATEGORY_ID, 'one.ics', content),
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject unsupported recurrence rules', async () => {
+      mockCategory();
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(
+        service.putResource(
+          TEST_USER_ID,
+          TEST_CATEGORY_ID,
+          'abc.ics',
+          makeVEvent('abc@example.com', ['RRULE:FREQ=MINUTELY']),
+        ),
+      ).rejects.toMatchObject({ statusCode: 422 });
+      expect(eventService.createEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── deleteResource ─────────────────────────────────────────────
+
+  describe('deleteResource', () => {
+    it('should delete a recurring task as a whole series', async () => {
+      mockCategory();
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ rrule: 'FREQ=WEEKLY' }),
+      );
+
+      await service.deleteResource(TEST_USER_ID, TEST_CATEGORY_ID, `${TEST_TASK_ID}.ics`);
+
+      expect(taskService.deleteTask).toHaveBeenCalledWith(TEST_USER_ID, TEST_TASK_ID, 'all');
+    });
+
+    it('should throw NOT_FOUND for a missing resource', async () => {
+      mockCategory();
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(
+        service.deleteResource(TEST_USER_ID, TEST_CATEGORY_ID, 'missing.ics'),
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+// Mock the database module
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      calendarCategories: {
+        findFirst: vi.fn(),
+      },
+      calendarShares: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+      users: {
+        findFirst: vi.fn(),
+      },
+    },
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Mock SSE service
+vi.mock('../sse.service', () => ({
+  sseService: {
+    emit: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { CalendarShareService, hasPermission } from '../calendar-share.service';
+import { sseService } from '../sse.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const OWNER_ID = 'owneruser1234567890123456';
+const MEMBER_ID = 'memberuser123456789012345';
+const TEST_CATEGORY_ID = 'testcategory1234567890123';
+const TEST_SHARE_ID = 'testshare1234567890123456';
+
+function makeShareRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_SHARE_ID,
+    categoryId: TEST_CATEGORY_ID,
+    memberId: MEMBER_ID,
+    memberEmail: 'friend@example.com',
+    memberName: 'Friend',
+    permission: 'read',
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+/**
+ * Mock db.select() chains. Each awaited `.where()` resolves to the next
+ * result in order: the member count, then the share lookup.
+ */
+function mockSelectChain(...results: unknown[][]) {
+  const where = vi.fn();
+  for (const result of results) where.mockResolvedValueOnce(result);
+  const chain = {
+    from: vi.fn().mockReturnThis(),
+    innerJoin: vi.fn().mockReturnThis(),
+    where,
+  };
+  (db.select as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockInsertChain(result: unknown[]) {
+  const chain = {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.insert as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockDeleteChain(result: unknown[]) {
+  const chain = {
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.delete as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('CalendarShareService', () => {
+  let service: CalendarShareService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CalendarShareService();
+  });
+
+  // ─── shareCategory ──────────────────────────────────────────────
+
+  describe('shareCategory', () => {
+    const input = { email: 'friend@example.com', permission: 'read' as const };
+
+    it('should share an owned category and tell the new member', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_CATEGORY_ID,
+      });
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: MEMBER_ID });
+      (db.query.calendarShares.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      mockSelectChain([{ value: 0 }], [makeShareRow()]);
+      const insert = mockInsertChain([{ id: TEST_SHARE_ID }]);
+
+      const result = await service.shareCategory(OWNER_ID, TEST_CATEGORY_ID, input);
+
+      expect(insert.values).toHaveBeenCalledWith({
+        categoryId: TEST_CATEGORY_ID,
+        ownerId: OWNER_ID,
+        memberId: MEMBER_ID,
+        permission: 'read',
+      });
+      expect(result).toMatchObject({ id: TEST_SHARE_ID, memberEmail: 'friend@example.com' });
+      expect(sseService.emit).toHaveBeenCalledWith(MEMBER_ID, 'category:updated', {
+        id: TEST_CATEGORY_ID,
+      });
+    });
+
+    it('should throw NOT_FOUND for a category the user does not own', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        undefined,
+      );
+
+      await expect(service.shareCategory(MEMBER_ID, TEST_CATEGORY_ID, input)).rejects.toMatchObject(
+        { statusCode: 404, message: 'Category not found' },
+      );
+    });
+
+    it('should not say whether an account uses the email', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_CATEGORY_ID,
+      });
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.shareCategory(OWNER_ID, TEST_CATEGORY_ID, input)).rejects.toMatchObject({
+        statusCode: 422,
+        code: 'VALIDATION_ERROR',
+        message: "This calendar can't be shared with friend@example.com",
+      });
+    });
+
+    it('should not share a calendar with its owner', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_CATEGORY_ID,
+      });
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: OWNER_ID });
+
+      await expect(service.shareCategory(OWNER_ID, TEST_CATEGORY_ID, input)).rejects.toMatchObject({
+        statusCode: 422,
+        message: "This calendar can't be shared with friend@example.com",
+      });
+    });
+
+    it('should throw CONFLICT when the calendar has reached its member limit', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_CATEGORY_ID,
+      });
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: MEMBER_ID });
+      (db.query.calendarShares.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      mockSelectChain([{ value: 50 }]);
+
+      await expect(service.shareCategory(OWNER_ID, TEST_CATEGORY_ID, input)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'CONFLICT',
+      });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('should throw CONFLICT when already shared with the member', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_CATEGORY_ID,
+      });
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: MEMBER_ID });
+      (db.query.calendarShares.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeShareRow(),
+      );
+
+      await expect(service.shareCategory(OWNER_ID, TEST_CATEGORY_ID, input)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'CONFLICT',
+      });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── removeShare / leaveSharedCalendar ──────────────────────────
+
+  describe('removeShare', () => {
+    it('should remove the share and drop the calendar from the member', async () => {
+      mockDeleteChain([makeShareRow()]);
+
+      await service.removeShare(OWNER_ID, TEST_CATEGORY_ID, TEST_SHARE_ID);
+
+      expect(sseService.emit).toHaveBeenCalledWith(MEMBER_ID, 'category:deleted', {
+        id: TEST_CATEGORY_ID,
+      });
+    });
+
+    it('should throw NOT_FOUND for a share on another owner’s category', async () => {
+      mockDeleteChain([]);
+
+      await expect(
+        service.removeShare(MEMBER_ID, TEST_CATEGORY_ID, TEST_SHARE_ID),
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('leaveSharedCalendar', () => {
+    it('should throw NOT_FOUND when the share belongs to someone else', async () => {
+      mockDeleteChain([]);
+
+      await expect(service.leaveSharedCalendar(OWNER_ID, TEST_SHARE_ID)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  // ─── emitToMembers ──────────────────────────────────────────────
+
+  describe('emitToMembers', () => {
+    it('should send details only to members who can read them', async () => {
+      (db.query.calendarShares.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { memberId: 'reader1234567890123456789', permission: 'read' },
+        { memberId: 'busyonly123456789012345678', permission: 'freebusy' },
+      ]);
+
+      await service.emitToMembers([TEST_CATEGORY_ID], 'event:updated', {
+        id: 'event1',
+        title: 'Board meeting',
+      });
+
+      expect(sseService.emit).toHaveBeenCalledWith('reader1234567890123456789', 'event:updated', {
+        id: 'event1',
+        title: 'Board meeting',
+      });
+      expect(sseService.emit).toHaveBeenCalledWith('busyonly123456789012345678', 'event:updated', {
+        id: 'event1',
+      });
+    });
+
+    it('should emit once per member at their highest permission', async () => {
+      (db.query.calendarShares.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { memberId: MEMBER_ID, permission: 'freebusy' },
+        { memberId: MEMBER_ID, permission: 'edit' },
+      ]);
+
+      await service.emitToMembers(['categoryA', 'categoryB'], 'event:updated', {
+        id: 'event1',
+        title: 'Moved',
+      });
+
+      expect(sseService.emit).toHaveBeenCalledTimes(1);
+      expect(sseService.emit).toHaveBeenCalledWith(MEMBER_ID, 'event:updated', {
+        id: 'event1',
+        title: 'Moved',
+      });
+    });
+
+    it('should skip the lookup when there are no categories', async () => {
+      await service.emitToMembers([], 'event:created', { id: 'event1' });
+
+      expect(db.query.calendarShares.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── hasPermission ──────────────────────────────────────────────
+
+  describe('hasPermission', () => {
+    it('should rank freebusy < read < edit', () => {
+      expect(hasPermission('edit', 'read')).toBe(true);
+      expect(hasPermission('read', 'read')).toBe(true);
+      expect(hasPermission('read', 'edit')).toBe(false);
+      expect(hasPermission('freebusy', 'read')).toBe(false);
+    });
+  });
+});
@@ -38,6 +38,14 @@ vi.mock('../sse.service', () => ({
   },
 }));
 
+// Mock calendar share service
+vi.mock('../calendar-share.service', () => ({
+  calendarShareService: {
+    getMemberIds: vi.fn().mockResolvedValue([]),
+    emitToMembers: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
 // Mock @calley/shared
 vi.mock('@calley/shared', () => ({
   DEFAULT_CATEGORY_COLOR: '#4a90d9',
@@ -47,6 +55,7 @@ vi.mock('@calley/shared', () => ({
 import { db } from '../../db';
 import { AppError } from '../../lib/errors';
 import { logger } from '../../lib/logger';
+import { calendarShareService } from '../calendar-share.service';
 import { CategoryService } from '../category.service';
 import { sseService } from '../sse.service';
 
@@ -515,9 +524,9 @@ describe('CategoryService', () => {
 
       await service.deleteCategory(TEST_USER_ID, TEST_CATEGORY_ID);
 
-      // Transaction should update events, update tasks, then delete category
+      // Transaction should update events, tasks and appointment types, then delete category
       expect(db.transaction).toHaveBeenCalled();
-      expect(tx.update).toHaveBeenCalledTimes(2); // events + tasks reassignment
+      expect(tx.update).toHaveBeenCalledTimes(3); // events + tasks + appointment types
       expect(tx.delete).toHaveBeenCalledTimes(1); // category deletion
       expect(logger.info).toHaveBeenCalledWith(
         {
@@ -548,6 +557,24 @@ describe('CategoryService', () => {
       });
     });
 
+    it('should tell members of a shared category that it is gone', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(makeCategoryRow({ isDefault: false }))
+        .mockResolvedValueOnce(makeDefaultCategoryRow());
+      (calendarShareService.getMemberIds as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        'memberuser123456789012345',
+      ]);
+      mockTransactionForDelete();
+
+      await service.deleteCategory(TEST_USER_ID, TEST_CATEGORY_ID);
+
+      expect(sseService.emit).toHaveBeenCalledWith(
+        'memberuser123456789012345',
+        'category:deleted',
+        { id: TEST_CATEGORY_ID },
+      );
+    });
+
     it('should throw NOT_FOUND when category does not exist', async () => {
       (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
         undefined,
@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 // ─── Mock modules before importing the service ──────────────────────
 
@@ -17,6 +17,12 @@ vi.mock('../../db', () => {
         findFirst: vi.fn(),
         findMany: vi.fn(),
       },
+      eventAttendees: {
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+      tasks: {
+        findFirst: vi.fn(),
+      },
     },
     select: vi.fn(),
     insert: vi.fn(),
@@ -48,14 +54,52 @@ vi.mock('../recurrence.service', () => ({
   recurrenceService: {
     expandRecurringEvents: vi.fn((events: unknown[]) => events),
     validateRrule: vi.fn(),
+    inspectSeries: vi.fn(),
+    continuesAt: vi.fn(),
+    ruleUntil: vi.fn(() => null),
+  },
+}));
+
+// Mock attendee service
+vi.mock('../attendee.service', () => ({
+  attendeeService: {
+    notifyEventUpdated: vi.fn().mockResolvedValue(undefined),
+    notifyEventCancelled: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// Mock calendar share service — no calendars are shared by default
+vi.mock('../calendar-share.service', () => ({
+  calendarShareService: {
+    getMemberShares: vi.fn().mockResolvedValue([]),
+    getPermission: vi.fn().mockResolvedValue(null),
+    emitToMembers: vi.fn().mockResolvedValue(undefined),
+  },
+  hasPermission: (permission: string, required: string) =>
+    ['freebusy', 'read', 'edit'].indexOf(permission) >=
+    ['freebusy', 'read', 'edit'].indexOf(required),
+}));
+
+// Mock tag service — items carry no tags by default
+vi.mock('../tag.service', () => ({
+  tagService: {
+    validateTagIds: vi.fn().mockResolvedValue(undefined),
+    setItemTags: vi.fn().mockResolvedValue(undefined),
+    copyItemTags: vi.fn().mockResolvedValue(undefined),
+    deleteItemTags: vi.fn().mockResolvedValue(undefined),
+    getItemTagIds: vi.fn().mockResolvedValue(new Map()),
+    taggedItemIds: vi.fn(() => 'tagged-subquery'),
   },
 }));
 
 import { db } from '../../db';
 import { AppError } from '../../lib/errors';
 import { sanitizeHtml } from '../../lib/sanitize';
+import { attendeeService } from '../attendee.service';
+import { calendarShareService } from '../calendar-share.service';
 import { EventService } from '../event.service';
 import { recurrenceService } from '../recurrence.service';
+import { tagService } from '../tag.service';
 
 // ─── Test Fixtures ──────────────────────────────────────────────────
 
@@ -104,15 +148,6 @@ function makeCategory(overrides: Record<string, unknown> = {}) {
 
 // ─── Helpers for mocking chained Drizzle queries ────────────────────
 
-function mockInsertChain(result: unknown[]) {
-  const chain = {
-    values: vi.fn().mockReturnThis(),
-    returning: vi.fn().mockResolvedValue(result),
-  };
-  (db.insert as ReturnType<typeof vi.fn>).mockReturnValue(chain);
-  return chain;
-}
-
 function mockTransactionForInsert(result: unknown[]) {
   const txInsertChain = {
     values: vi.fn().mockReturnThis(),
@@ -215,6 +250,44 @@ describe('EventService', () => {
       expect(tx.insert).toHaveBeenCalled();
     });
 
+    it('should store the timezone of timed events and drop it for all-day events', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory(),
+      );
+      const tx = mockTransactionForInsert([makeEventRow({ timezone: 'Europe/Paris' })]);
+      const values = (tx.insert as ReturnType<typeof vi.fn>).mock.results;
+
+      const result = await service.createEvent(TEST_USER_ID, {
+        title: 'Test Event',
+        startAt: '2026-03-15T10:00:00Z',
+        endAt: '2026-03-15T11:00:00Z',
+        timezone: 'Europe/Paris',
+        endTimezone: 'Europe/Paris',
+        categoryId: TEST_CATEGORY_ID,
+        isAllDay: false,
+        visibility: 'private',
+      });
+
+      expect(result.timezone).toBe('Europe/Paris');
+      expect(values[0].value.values).toHaveBeenCalledWith(
+        expect.objectContaining({ timezone: 'Europe/Paris', endTimezone: null }),
+      );
+
+      await service.createEvent(TEST_USER_ID, {
+        title: 'Holiday',
+        startAt: '2026-03-15T00:00:00Z',
+        endAt: '2026-03-16T00:00:00Z',
+        timezone: 'Europe/Paris',
+        categoryId: TEST_CATEGORY_ID,
+        isAllDay: true,
+        visibility: 'private',
+      });
+
+      expect(values[1].value.values).toHaveBeenCalledWith(
+        expect.objectContaining({ timezone: null, endTimezone: null }),
+      );
+    });
+
     it('should sanitize description HTML on create', async () => {
       const eventRow = makeEventRow({ description: '<p>Clean</p>' });
       (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
@@ -362,6 +435,16 @@ describe('EventService', () => {
 
       expect((result as { title: string }).title).toBe('Updated Title');
       expect(db.update).toHaveBeenCalled();
+      expect(attendeeService.notifyEventUpdated).toHaveBeenCalledWith(TEST_USER_ID, TEST_EVENT_ID);
+    });
+
+    it('should not re-send invitations for changes attendees do not see', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+      mockUpdateChain([makeEventRow({ color: '#3B82F6' })]);
+
+      await service.updateEvent(TEST_USER_ID, TEST_EVENT_ID, { color: '#3B82F6' });
+
+      expect(attendeeService.notifyEventUpdated).not.toHaveBeenCalled();
     });
 
     it('should throw NOT_FOUND when updating non-existent event', async () => {
@@ -518,6 +601,10 @@ describe('EventService', () => {
       await service.deleteEvent(TEST_USER_ID, TEST_EVENT_ID);
 
       expect(db.update).toHaveBeenCalled();
+      expect(attendeeService.notifyEventCancelled).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        TEST_EVENT_ID,
+      );
     });
 
     it('should throw NOT_FOUND when deleting non-existent event', async () => {
@@ -587,13 +674,19 @@ describe('EventService', () => {
         recurringEventId: null,
       });
       (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(eventRow);
-      mockInsertChain([duplicateRow]);
+      mockTransactionForInsert([duplicateRow]);
 
       const result = await service.duplicateEvent(TEST_USER_ID, TEST_EVENT_ID);
 
       expect(result.id).toBe('duplicate12345678901234567');
       expect(result.rrule).toBeNull();
       expect(result.recurringEventId).toBeNull();
+      expect(tagService.copyItemTags).toHaveBeenCalledWith(
+        'event',
+        TEST_EVENT_ID,
+        'duplicate12345678901234567',
+        expect.anything(),
+      );
     });
 
     it('should throw NOT_FOUND when duplicating non-existent event', async () => {
@@ -628,6 +721,19 @@ describe('EventService', () => {
       expect(ics).toContain('PRODID:-//Calley//Calley Calendar//EN');
     });
 
+    it('should emit TZID and VTIMEZONE for events with a timezone', async () => {
+      const eventRow = makeEventRow({ timezone: 'America/New_York' });
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(eventRow);
+
+      const ics = await service.exportIcs(TEST_USER_ID, TEST_EVENT_ID);
+
+      expect(ics).toContain('DTSTART;TZID=America/New_York:20260315T060000');
+      expect(ics).toContain('DTEND;TZID=America/New_York:20260315T070000');
+      expect(ics).toContain('BEGIN:VTIMEZONE');
+      expect(ics).toContain('TZID:America/New_York');
+      expect(ics.indexOf('BEGIN:VTIMEZONE')).toBeLessThan(ics.indexOf('BEGIN:VEVENT'));
+    });
+
     it('should use VALUE=DATE format for all-day events', async () => {
       const eventRow = makeEventRow({
         isAllDay: true,
@@ -834,4 +940,891 @@ describe('EventService', () => {
       expect(result).toEqual([]);
     });
   });
+
+  // ─── Tags ───────────────────────────────────────────────────────
+
+  describe('tags', () => {
+    const TAG_ID = 'testtag123456789012345678';
+
+    it("should attach the user's tags to listed events", async () => {
+      (db.query.events.findMany as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([makeEventRow()])
+        .mockResolvedValueOnce([]);
+      (db.query.eventExceptions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+      (tagService.getItemTagIds as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+        new Map([[TEST_EVENT_ID, [TAG_ID]]]),
+      );
+
+      const result = await service.listEvents(
+        TEST_USER_ID,
+        '2026-03-01T00:00:00Z',
+        '2026-03-31T23:59:59Z',
+        undefined,
+        [TAG_ID],
+      );
+
+      expect(result[0].tagIds).toEqual([TAG_ID]);
+      expect(tagService.taggedItemIds).toHaveBeenCalledWith(TEST_USER_ID, 'event', [TAG_ID]);
+    });
+
+    it('should tag a new event inside the create transaction', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory(),
+      );
+      const tx = mockTransactionForInsert([makeEventRow()]);
+
+      const result = await service.createEvent(TEST_USER_ID, {
+        title: 'Test Event',
+        startAt: '2026-03-15T10:00:00Z',
+        endAt: '2026-03-15T11:00:00Z',
+        categoryId: TEST_CATEGORY_ID,
+        isAllDay: false,
+        visibility: 'private',
+        tagIds: [TAG_ID, TAG_ID],
+      });
+
+      expect(tagService.validateTagIds).toHaveBeenCalledWith(TEST_USER_ID, [TAG_ID, TAG_ID], db);
+      expect(tagService.setItemTags).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        'event',
+        TEST_EVENT_ID,
+        [TAG_ID, TAG_ID],
+        tx,
+      );
+      expect(result.tagIds).toEqual([TAG_ID]);
+    });
+
+    it('should reject tags the user does not own before writing', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory(),
+      );
+      (tagService.validateTagIds as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+        new AppError(404, 'NOT_FOUND', 'Tag not found'),
+      );
+
+      await expect(
+        service.createEvent(TEST_USER_ID, {
+          title: 'Test Event',
+          startAt: '2026-03-15T10:00:00Z',
+          endAt: '2026-03-15T11:00:00Z',
+          categoryId: TEST_CATEGORY_ID,
+          isAllDay: false,
+          visibility: 'private',
+          tagIds: [TAG_ID],
+        }),
+      ).rejects.toMatchObject({ statusCode: 404, code: 'NOT_FOUND' });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should re-tag the whole series when editing a single instance', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ rrule: 'FREQ=WEEKLY' }),
+      );
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) =>
+        fn({
+          update: vi.fn().mockReturnValue({
+            set: vi.fn().mockReturnThis(),
+            where: vi.fn().mockResolvedValue([]),
+          }),
+          insert: vi.fn().mockReturnValue({
+            values: vi.fn().mockReturnThis(),
+            returning: vi.fn().mockResolvedValue([
+              {
+                id: 'exception1234567890123456',
+                recurringEventId: TEST_EVENT_ID,
+                userId: TEST_USER_ID,
+                originalDate: new Date('2026-03-22T10:00:00Z'),
+                overrides: {},
+                createdAt: new Date(),
+                updatedAt: new Date(),
+                deletedAt: null,
+              },
+            ]),
+          }),
+        }),
+      );
+
+      await service.updateEvent(
+        TEST_USER_ID,
+        TEST_EVENT_ID,
+        { tagIds: [TAG_ID] },
+        'instance',
+        '2026-03-22T10:00:00Z',
+      );
+
+      expect(tagService.setItemTags).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        'event',
+        TEST_EVENT_ID,
+        [TAG_ID],
+        db,
+      );
+    });
+  });
+
+  // ─── Focus blocks ───────────────────────────────────────────────
+
+  describe('focus blocks', () => {
+    const TASK_ID = 'testtask12345678901234567';
+    const focusBlockInput = {
+      title: 'Write report',
+      startAt: '2026-03-15T10:00:00Z',
+      endAt: '2026-03-15T11:00:00Z',
+      categoryId: TEST_CATEGORY_ID,
+      isAllDay: false,
+      visibility: 'private' as const,
+      taskId: TASK_ID,
+    };
+
+    function makeTaskRow(overrides: Record<string, unknown> = {}) {
+      return {
+        id: TASK_ID,
+        userId: TEST_USER_ID,
+        status: 'todo',
+        completedAt: null,
+        rrule: null,
+        recurringTaskId: null,
+        scheduledAt: null,
+        ...overrides,
+      };
+    }
+
+    function mockFocusBlockTransaction(inserted: unknown) {
+      const values = vi.fn().mockReturnThis();
+      const set = vi.fn().mockReturnThis();
+      const tx = {
+        insert: vi.fn().mockReturnValue({
+          values,
+          returning: vi.fn().mockResolvedValue([inserted]),
+        }),
+        update: vi.fn().mockReturnValue({ set, where: vi.fn().mockResolvedValue([]) }),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+      return { tx, values, set };
+    }
+
+    beforeEach(() => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory(),
+      );
+    });
+
+    it("should link a new focus block to its task and set the task's scheduledAt", async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      const { values, set } = mockFocusBlockTransaction(makeEventRow({ taskId: TASK_ID }));
+
+      const result = await service.createEvent(TEST_USER_ID, focusBlockInput);
+
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: TASK_ID, completedAt: null }),
+      );
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ scheduledAt: new Date('2026-03-15T10:00:00Z') }),
+      );
+      expect(result.taskId).toBe(TASK_ID);
+    });
+
+    it('should start a block for a done task as done', async () => {
+      const completedAt = new Date('2026-03-10T09:00:00Z');
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ status: 'done', completedAt }),
+      );
+      const { values } = mockFocusBlockTransaction(makeEventRow({ taskId: TASK_ID, completedAt }));
+
+      const result = await service.createEvent(TEST_USER_ID, focusBlockInput);
+
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ completedAt }));
+      expect(result.completedAt).toBe('2026-03-10T09:00:00.000Z');
+    });
+
+    it('should throw NOT_FOUND for a task the user does not own', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.createEvent(TEST_USER_ID, focusBlockInput)).rejects.toMatchObject({
+        statusCode: 404,
+        code: 'NOT_FOUND',
+      });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject time-blocking a recurring task', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ rrule: 'FREQ=DAILY' }),
+      );
+
+      await expect(service.createEvent(TEST_USER_ID, focusBlockInput)).rejects.toMatchObject({
+        statusCode: 422,
+        code: 'VALIDATION_ERROR',
+      });
+    });
+
+    it('should reject a second focus block for the same task', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ scheduledAt: new Date('2026-03-14T10:00:00Z') }),
+      );
+
+      await expect(service.createEvent(TEST_USER_ID, focusBlockInput)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'CONFLICT',
+      });
+    });
+
+    it("should move the task's scheduledAt along with its block", async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ taskId: TASK_ID }),
+      );
+      const chain = mockUpdateChain([
+        makeEventRow({
+          taskId: TASK_ID,
+          startAt: new Date('2026-03-16T14:00:00Z'),
+          endAt: new Date('2026-03-16T15:00:00Z'),
+        }),
+      ]);
+
+      await service.updateEvent(TEST_USER_ID, TEST_EVENT_ID, {
+        startAt: '2026-03-16T14:00:00Z',
+        endAt: '2026-03-16T15:00:00Z',
+      });
+
+      expect(db.update).toHaveBeenCalledTimes(2);
+      expect(chain.set).toHaveBeenLastCalledWith(
+        expect.objectContaining({ scheduledAt: new Date('2026-03-16T14:00:00Z') }),
+      );
+    });
+
+    it("should clear the task's scheduledAt when its block is deleted", async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ taskId: TASK_ID }),
+      );
+      const chain = mockUpdateChain([]);
+
+      await service.deleteEvent(TEST_USER_ID, TEST_EVENT_ID);
+
+      expect(chain.set).toHaveBeenLastCalledWith(expect.objectContaining({ scheduledAt: null }));
+    });
+
+    it('should leave tasks alone when updating an ordinary event', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeEventRow());
+      mockUpdateChain([makeEventRow()]);
+
+      await service.updateEvent(TEST_USER_ID, TEST_EVENT_ID, {
+        startAt: '2026-03-16T14:00:00Z',
+        endAt: '2026-03-16T15:00:00Z',
+      });
+
+      expect(db.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ─── Shared calendars ───────────────────────────────────────────
+
+  describe('shared calendars', () => {
+    const OWNER_ID = 'owneruser1234567890123456';
+    const SHARED_CATEGORY_ID = 'sharedcategory12345678901';
+
+    function mockShare(permission: 'freebusy' | 'read' | 'edit') {
+      (calendarShareService.getMemberShares as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        { categoryId: SHARED_CATEGORY_ID, ownerId: OWNER_ID, permission },
+      ]);
+      (calendarShareService.getPermission as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ownerId: OWNER_ID,
+        permission,
+      });
+    }
+
+    const sharedEvent = () => makeEventRow({ userId: OWNER_ID, categoryId: SHARED_CATEGORY_ID });
+
+    afterEach(() => {
+      (calendarShareService.getPermission as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+    });
+
+    it('should hide event details from free/busy members in listings', async () => {
+      mockShare('freebusy');
+      (db.query.events.findMany as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([makeEventRow({ id: 'ownevent123456789012345678' }), sharedEvent()])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.listEvents(
+        TEST_USER_ID,
+        '2026-03-01T00:00:00Z',
+        '2026-03-31T23:59:59Z',
+      );
+
+      const own = result.find((e) => e.id === 'ownevent123456789012345678');
+      const shared = result.find((e) => e.id === TEST_EVENT_ID);
+      expect(own?.title).toBe('Test Event');
+      expect(shared).toMatchObject({ title: 'Busy', description: null, location: null });
+      expect(shared?.startAt).toBe('2026-03-15T10:00:00.000Z');
+    });
+
+    it('should show full details to read members', async () => {
+      mockShare('read');
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(sharedEvent());
+
+      const result = await service.getEvent(TEST_USER_ID, TEST_EVENT_ID);
+
+      expect(result.title).toBe('Test Event');
+    });
+
+    it('should let edit members update events as the owner and notify members', async () => {
+      mockShare('edit');
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(sharedEvent());
+      mockUpdateChain([{ ...sharedEvent(), title: 'Renamed' }]);
+
+      const result = await service.updateEvent(TEST_USER_ID, TEST_EVENT_ID, { title: 'Renamed' });
+
+      expect((result as { title: string }).title).toBe('Renamed');
+      expect(attendeeService.notifyEventUpdated).toHaveBeenCalledWith(OWNER_ID, TEST_EVENT_ID);
+      expect(calendarShareService.emitToMembers).toHaveBeenCalledWith(
+        [SHARED_CATEGORY_ID],
+        'event:updated',
+        expect.objectContaining({ id: TEST_EVENT_ID, title: 'Renamed' }),
+      );
+    });
+
+    it('should not let read members change or delete events', async () => {
+      mockShare('read');
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(sharedEvent());
+
+      await expect(
+        service.updateEvent(TEST_USER_ID, TEST_EVENT_ID, { title: 'Nope' }),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      await expect(service.deleteEvent(TEST_USER_ID, TEST_EVENT_ID)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should create events in an editable shared calendar under the owner', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory({ id: SHARED_CATEGORY_ID, userId: OWNER_ID }),
+      );
+      mockShare('edit');
+      const tx = mockTransactionForInsert([sharedEvent()]);
+
+      await service.createEvent(TEST_USER_ID, {
+        title: 'Test Event',
+        startAt: '2026-03-15T10:00:00Z',
+        endAt: '2026-03-15T11:00:00Z',
+        isAllDay: false,
+        categoryId: SHARED_CATEGORY_ID,
+        visibility: 'private',
+      });
+
+      const values = tx.insert.mock.results[0].value.values.mock.calls[0][0];
+      expect(values.userId).toBe(OWNER_ID);
+    });
+  });
+
+  // ─── Skipped Occurrences ────────────────────────────────────────
+
+  describe('skipped occurrences', () => {
+    const rrule = 'FREQ=DAILY;COUNT=5';
+    const skipped = new Date('2026-03-17T10:00:00Z');
+    const skippedAt = new Date('2026-03-10T09:00:00Z');
+
+    function makeException(overrides: Record<string, unknown> = {}) {
+      return {
+        id: 'testexception1234567890123',
+        recurringEventId: TEST_EVENT_ID,
+        userId: TEST_USER_ID,
+        originalDate: skipped,
+        overrides: { title: 'Moved' },
+        deletedAt: null,
+        createdAt: new Date('2026-03-01T00:00:00Z'),
+        updatedAt: new Date('2026-03-01T00:00:00Z'),
+        ...overrides,
+      };
+    }
+
+    it('should restore a skipped occurrence with its override', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ rrule, exDates: [skipped] }),
+      );
+      const exceptionChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue(undefined),
+      };
+      const eventChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([makeEventRow({ rrule })]),
+      };
+      const tx = {
+        query: {
+          eventExceptions: {
+            findFirst: vi.fn().mockResolvedValue(makeException({ deletedAt: skippedAt })),
+          },
+        },
+        update: vi.fn().mockReturnValueOnce(exceptionChain).mockReturnValueOnce(eventChain),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      const result = await service.restoreInstance(
+        TEST_USER_ID,
+        TEST_EVENT_ID,
+        '2026-03-17T10:00:00.000Z',
+      );
+
+      expect(result.exDates).toEqual([]);
+      expect(exceptionChain.set).toHaveBeenCalledWith({ deletedAt: null });
+      expect(eventChain.set).toHaveBeenCalledWith(expect.objectContaining({ exDates: [] }));
+      expect(attendeeService.notifyEventUpdated).toHaveBeenCalledWith(TEST_USER_ID, TEST_EVENT_ID);
+    });
+
+    it('should bring back only the latest override of an instance edited twice', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ rrule, exDates: [skipped] }),
+      );
+      // The first edit's override was soft-deleted by the second edit, before the skip
+      const findHidden = vi
+        .fn()
+        .mockResolvedValue(
+          makeException({ id: 'testexception2234567890123', deletedAt: skippedAt }),
+        );
+      const exceptionChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue(undefined),
+      };
+      const eventChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([makeEventRow({ rrule })]),
+      };
+      const tx = {
+        query: { eventExceptions: { findFirst: findHidden } },
+        update: vi.fn().mockReturnValueOnce(exceptionChain).mockReturnValueOnce(eventChain),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      await service.restoreInstance(TEST_USER_ID, TEST_EVENT_ID, '2026-03-17T10:00:00.000Z');
+
+      expect(findHidden).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: [expect.anything()] }),
+      );
+      // One update for the latest override, one for the parent's exDates
+      expect(tx.update).toHaveBeenCalledTimes(2);
+      expect(exceptionChain.where).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restore a skipped occurrence that had no override', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ rrule, exDates: [skipped] }),
+      );
+      const eventChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([makeEventRow({ rrule })]),
+      };
+      const tx = {
+        query: { eventExceptions: { findFirst: vi.fn().mockResolvedValue(undefined) } },
+        update: vi.fn().mockReturnValueOnce(eventChain),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      await service.restoreInstance(TEST_USER_ID, TEST_EVENT_ID, '2026-03-17T10:00:00.000Z');
+
+      expect(tx.update).toHaveBeenCalledTimes(1);
+      expect(eventChain.set).toHaveBeenCalledWith(expect.objectContaining({ exDates: [] }));
+    });
+
+    it('should throw 404 when the occurrence was not skipped', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ rrule, exDates: [skipped] }),
+      );
+
+      await expect(
+        service.restoreInstance(TEST_USER_ID, TEST_EVENT_ID, '2026-03-18T10:00:00.000Z'),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should inspect a saved series with its exception overrides', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ rrule }),
+      );
+      (db.query.eventExceptions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        {
+          id: 'testexception1234567890123',
+          recurringEventId: TEST_EVENT_ID,
+          userId: TEST_USER_ID,
+          originalDate: new Date('2026-03-16T10:00:00Z'),
+          overrides: { title: 'Moved' },
+          deletedAt: null,
+          createdAt: new Date('2026-03-01T00:00:00Z'),
+          updatedAt: new Date('2026-03-01T00:00:00Z'),
+        },
+      ]);
+      (recurrenceService.inspectSeries as ReturnType<typeof vi.fn>).mockReturnValue([
+        { date: '2026-03-15T10:00:00.000Z', skipped: false, overrides: null },
+        { date: '2026-03-16T10:00:00.000Z', skipped: false, overrides: { title: 'Moved' } },
+        { date: '2026-03-17T10:00:00.000Z', skipped: true, overrides: null },
+      ]);
+
+      const result = await service.previewRecurrence(TEST_USER_ID, {
+        rrule,
+        startAt: '2026-03-15T10:00:00.000Z',
+        timezone: 'UTC',
+        isAllDay: false,
+        rDates: [],
+        exDates: ['2026-03-17T10:00:00.000Z'],
+        count: 3,
+        eventId: TEST_EVENT_ID,
+      });
+
+      expect(recurrenceService.inspectSeries).toHaveBeenCalledWith(
+        expect.objectContaining({ rrule }),
+        3,
+        [expect.objectContaining({ overrides: { title: 'Moved' } })],
+      );
+      expect(result.occurrences).toEqual(['2026-03-15T10:00:00.000Z', '2026-03-16T10:00:00.000Z']);
+      expect(result.instances).toHaveLength(3);
+    });
+
+    it('should not look up exceptions for an unsaved rule', async () => {
+      (recurrenceService.inspectSeries as ReturnType<typeof vi.fn>).mockReturnValue([]);
+
+      await service.previewRecurrence(TEST_USER_ID, {
+        rrule,
+        startAt: '2026-03-15T10:00:00.000Z',
+        timezone: 'UTC',
+        isAllDay: false,
+        rDates: [],
+        exDates: [],
+        count: 10,
+      });
+
+      expect(db.query.events.findFirst).not.toHaveBeenCalled();
+      expect(recurrenceService.inspectSeries).toHaveBeenCalledWith(expect.anything(), 10, []);
+    });
+  });
+
+  // ─── Series Lineage ─────────────────────────────────────────────
+
+  describe('series lineage', () => {
+    const SERIES_ID = 'testseries1234567890123456';
+    const LATER_ID = 'testlater12345678901234567';
+    const earlier = makeEventRow({
+      id: SERIES_ID,
+      seriesId: SERIES_ID,
+      startAt: new Date('2026-03-02T10:00:00Z'),
+      endAt: new Date('2026-03-02T11:00:00Z'),
+      rrule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20260315T235959Z',
+      exDates: [new Date('2026-03-09T10:00:00Z')],
+      rDates: [],
+    });
+    const later = makeEventRow({
+      id: LATER_ID,
+      seriesId: SERIES_ID,
+      startAt: new Date('2026-03-16T10:00:00Z'),
+      endAt: new Date('2026-03-16T11:00:00Z'),
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      exDates: [new Date('2026-03-23T10:00:00Z')],
+      rDates: [],
+    });
+
+    it('should list the segments and which ones can merge back', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(later);
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([earlier, later]);
+      (recurrenceService.continuesAt as ReturnType<typeof vi.fn>).mockReturnValue(true);
+
+      const result = await service.getSeriesLineage(TEST_USER_ID, LATER_ID);
+
+      expect(result.map((s) => [s.id, s.mergeable])).toEqual([
+        [SERIES_ID, false],
+        [LATER_ID, true],
+      ]);
+      expect(recurrenceService.continuesAt).toHaveBeenCalledWith(
+        expect.objectContaining({ rrule: earlier.rrule, startAt: '2026-03-02T10:00:00.000Z' }),
+        later.startAt,
+      );
+    });
+
+    it('should not offer a merge once the segments have different details', async () => {
+      const renamed = { ...later, title: 'Renamed' };
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(renamed);
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([earlier, renamed]);
+
+      const result = await service.getSeriesLineage(TEST_USER_ID, LATER_ID);
+
+      expect(result[1].mergeable).toBe(false);
+      expect(recurrenceService.continuesAt).not.toHaveBeenCalled();
+    });
+
+    it('should treat a series that was never split as its only segment', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ rrule: 'FREQ=DAILY' }),
+      );
+
+      const result = await service.getSeriesLineage(TEST_USER_ID, TEST_EVENT_ID);
+
+      expect(result).toEqual([expect.objectContaining({ id: TEST_EVENT_ID, mergeable: false })]);
+      expect(db.query.events.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should merge a segment into the one before it', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(later);
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([earlier, later]);
+      (recurrenceService.continuesAt as ReturnType<typeof vi.fn>).mockReturnValue(true);
+
+      const eventChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([{ ...earlier, rrule: 'FREQ=WEEKLY;BYDAY=MO' }]),
+      };
+      const exceptionChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue(undefined),
+      };
+      const trashChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue(undefined),
+      };
+      const tx = {
+        update: vi
+          .fn()
+          .mockReturnValueOnce(eventChain)
+          .mockReturnValueOnce(exceptionChain)
+          .mockReturnValueOnce(trashChain),
+        delete: vi.fn(),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      const result = await service.mergeSegment(TEST_USER_ID, LATER_ID);
+
+      expect(result.id).toBe(SERIES_ID);
+      expect(eventChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rrule: 'FREQ=WEEKLY;BYDAY=MO',
+          exDates: [...earlier.exDates, ...later.exDates],
+        }),
+      );
+      expect(exceptionChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ recurringEventId: SERIES_ID }),
+      );
+      // The merged segment goes to the trash and its attendees get a cancellation
+      expect(trashChain.set).toHaveBeenCalledWith({ deletedAt: expect.any(Date) });
+      expect(tx.delete).not.toHaveBeenCalled();
+      expect(attendeeService.notifyEventCancelled).toHaveBeenCalledWith(TEST_USER_ID, LATER_ID);
+      expect(attendeeService.notifyEventUpdated).toHaveBeenCalledWith(TEST_USER_ID, SERIES_ID);
+    });
+
+    it('should not merge segments with different attendees or tags', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(later);
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([earlier, later]);
+      (recurrenceService.continuesAt as ReturnType<typeof vi.fn>).mockReturnValue(true);
+      (db.query.eventAttendees.findMany as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        { eventId: LATER_ID, email: 'guest@example.com' },
+      ]);
+
+      await expect(service.mergeSegment(TEST_USER_ID, LATER_ID)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+
+      (tagService.getItemTagIds as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+        new Map([[SERIES_ID, ['testtag123456789012345678']]]),
+      );
+
+      const result = await service.getSeriesLineage(TEST_USER_ID, LATER_ID);
+
+      expect(result[1].mergeable).toBe(false);
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw 409 when the segment no longer carries the series on', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(later);
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([earlier, later]);
+      (recurrenceService.continuesAt as ReturnType<typeof vi.fn>).mockReturnValue(false);
+
+      await expect(service.mergeSegment(TEST_USER_ID, LATER_ID)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw 409 for the first segment', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(earlier);
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([earlier, later]);
+
+      await expect(service.mergeSegment(TEST_USER_ID, SERIES_ID)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+
+    it('should copy an "all events" edit to the other segments but not their times', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(later);
+      const chain = mockUpdateChain([]);
+      chain.returning
+        .mockResolvedValueOnce([{ ...later, title: 'Renamed' }])
+        .mockResolvedValueOnce([{ id: SERIES_ID, categoryId: TEST_CATEGORY_ID }]);
+
+      await service.updateEvent(
+        TEST_USER_ID,
+        LATER_ID,
+        { title: 'Renamed', startAt: '2026-03-16T11:00:00.000Z', tagIds: [] },
+        'all',
+        undefined,
+        true,
+      );
+
+      expect(db.update).toHaveBeenCalledTimes(2);
+      const segmentChanges = chain.set.mock.calls[1][0];
+      expect(segmentChanges).toMatchObject({ title: 'Renamed' });
+      expect(segmentChanges).not.toHaveProperty('startAt');
+      expect(tagService.setItemTags).toHaveBeenCalledWith(TEST_USER_ID, 'event', SERIES_ID, [], db);
+    });
+
+    it('should only edit this segment without allSegments', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(later);
+      mockUpdateChain([{ ...later, title: 'Renamed' }]);
+
+      await service.updateEvent(TEST_USER_ID, LATER_ID, { title: 'Renamed' }, 'all');
+
+      expect(db.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should put both halves of a split into the lineage', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ rrule: 'FREQ=DAILY' }),
+      );
+      const updateChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue(undefined),
+      };
+      const insertChain = {
+        values: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([makeEventRow({ id: LATER_ID })]),
+      };
+      const tx = {
+        update: vi.fn().mockReturnValue(updateChain),
+        insert: vi.fn().mockReturnValue(insertChain),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      await service.updateEvent(
+        TEST_USER_ID,
+        TEST_EVENT_ID,
+        { title: 'From here on' },
+        'following',
+        '2026-03-20T10:00:00.000Z',
+      );
+
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ seriesId: TEST_EVENT_ID }),
+      );
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ seriesId: TEST_EVENT_ID }),
+      );
+    });
+  });
+
+  // ─── Trash ──────────────────────────────────────────────────────
+
+  describe('trash', () => {
+    const deletedAt = new Date('2026-03-10T00:00:00Z');
+
+    function mockRestoreTransaction(restored: unknown) {
+      const txChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([restored]),
+      };
+      const tx = { update: vi.fn().mockReturnValue(txChain) };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+      return tx;
+    }
+
+    it('should list deleted events with their purge date', async () => {
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEventRow({ deletedAt }),
+      ]);
+
+      const result = await service.listDeletedEvents(TEST_USER_ID);
+
+      expect(result).toEqual([
+        {
+          id: TEST_EVENT_ID,
+          title: 'Test Event',
+          categoryId: TEST_CATEGORY_ID,
+          startAt: '2026-03-15T10:00:00.000Z',
+          isAllDay: false,
+          rrule: null,
+          deletedAt: deletedAt.toISOString(),
+          purgeAt: '2026-04-09T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should restore an event with its exceptions and tell attendees', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ deletedAt }),
+      );
+      const tx = mockRestoreTransaction(makeEventRow());
+
+      const result = await service.restoreEvent(TEST_USER_ID, TEST_EVENT_ID);
+
+      expect(result.deletedAt).toBeNull();
+      // Exception overrides, then the event itself
+      expect(tx.update).toHaveBeenCalledTimes(2);
+      expect(attendeeService.notifyEventUpdated).toHaveBeenCalledWith(TEST_USER_ID, TEST_EVENT_ID);
+    });
+
+    it('should put a restored focus block back on its task', async () => {
+      const taskId = 'testtask123456789012345678';
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEventRow({ taskId, deletedAt }),
+      );
+      mockRestoreTransaction(makeEventRow({ taskId }));
+      const chain = mockUpdateChain([]);
+
+      await service.restoreEvent(TEST_USER_ID, TEST_EVENT_ID);
+
+      expect(chain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ scheduledAt: new Date('2026-03-15T10:00:00Z') }),
+      );
+    });
+
+    it('should throw 404 when restoring an event that is not in the trash', async () => {
+      (db.query.events.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.restoreEvent(TEST_USER_ID, TEST_EVENT_ID)).rejects.toThrow(AppError);
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    function mockPurge(deleted: { id: string }[]) {
+      const tx = {
+        select: vi.fn().mockReturnValue({
+          from: vi.fn().mockReturnThis(),
+          where: vi.fn().mockResolvedValue([{ id: 'testinstance1234567890123' }]),
+        }),
+        delete: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnThis(),
+          returning: vi.fn().mockResolvedValue(deleted),
+        }),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+      return tx;
+    }
+
+    it('should remove the tags of a purged event and its exception instances', async () => {
+      const tx = mockPurge([{ id: TEST_EVENT_ID }]);
+
+      await service.purgeEvent(TEST_USER_ID, TEST_EVENT_ID);
+
+      expect(tagService.deleteItemTags).toHaveBeenCalledWith(
+        'event',
+        [TEST_EVENT_ID, 'testinstance1234567890123'],
+        tx,
+      );
+    });
+
+    it('should throw 404 when purging an event that is not in the trash', async () => {
+      mockPurge([]);
+
+      await expect(service.purgeEvent(TEST_USER_ID, TEST_EVENT_ID)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(tagService.deleteItemTags).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,386 @@
+import { createHash } from 'node:crypto';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+// Mock the database module
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      calendarFeeds: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+      calendarCategories: {
+        findFirst: vi.fn(),
+      },
+      events: {
+        findMany: vi.fn(),
+      },
+      eventExceptions: {
+        findMany: vi.fn(),
+      },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Mock audit service
+vi.mock('../audit.service', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { auditService } from '../audit.service';
+import { FeedService } from '../feed.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_CATEGORY_ID = 'testcategory1234567890123';
+const TEST_FEED_ID = 'testfeed123456789012345678';
+const TEST_EVENT_ID = 'testevent12345678901234567';
+const TEST_TOKEN = 'a'.repeat(64);
+
+function makeFeedRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_FEED_ID,
+    userId: TEST_USER_ID,
+    categoryId: TEST_CATEGORY_ID,
+    tokenHash: createHash('sha256').update(TEST_TOKEN).digest('hex'),
+    lastAccessedAt: null,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function makeEventRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_EVENT_ID,
+    userId: TEST_USER_ID,
+    categoryId: TEST_CATEGORY_ID,
+    title: 'Standup',
+    description: null,
+    location: null,
+    startAt: new Date('2026-03-16T09:00:00Z'),
+    endAt: new Date('2026-03-16T09:15:00Z'),
+    isAllDay: false,
+    color: null,
+    visibility: 'private',
+    rrule: null,
+    exDates: [],
+    recurringEventId: null,
+    originalDate: null,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+function mockInsertChain(result: unknown[]) {
+  const chain = {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.insert as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockUpdateChain(result: unknown[]) {
+  const chain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+    execute: vi.fn().mockResolvedValue(undefined),
+  };
+  (db.update as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockDeleteChain(result: unknown[]) {
+  const chain = {
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.delete as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('FeedService', () => {
+  let service: FeedService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new FeedService();
+  });
+
+  // ─── listFeeds ──────────────────────────────────────────────────
+
+  describe('listFeeds', () => {
+    it('should return feeds without token hashes', async () => {
+      (db.query.calendarFeeds.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeFeedRow(),
+      ]);
+
+      const result = await service.listFeeds(TEST_USER_ID);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe(TEST_FEED_ID);
+      expect(result[0]).not.toHaveProperty('tokenHash');
+      expect(result[0]).not.toHaveProperty('token');
+    });
+  });
+
+  // ─── createFeed ─────────────────────────────────────────────────
+
+  describe('createFeed', () => {
+    it('should create a feed and return the raw token once', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_CATEGORY_ID,
+      });
+      (db.query.calendarFeeds.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      const chain = mockInsertChain([makeFeedRow()]);
+
+      const result = await service.createFeed(TEST_USER_ID, { categoryId: TEST_CATEGORY_ID });
+
+      expect(result.token).toMatch(/^[a-f0-9]{64}$/);
+      // Only the hash of the token is persisted
+      const inserted = chain.values.mock.calls[0][0];
+      expect(inserted.tokenHash).toBe(createHash('sha256').update(result.token).digest('hex'));
+      expect(inserted).not.toHaveProperty('token');
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'feed.created', entityId: TEST_FEED_ID }),
+      );
+    });
+
+    it('should allow an all-calendars feed without validating a category', async () => {
+      (db.query.calendarFeeds.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      mockInsertChain([makeFeedRow({ categoryId: null })]);
+
+      const result = await service.createFeed(TEST_USER_ID, { categoryId: null });
+
+      expect(result.categoryId).toBeNull();
+      expect(db.query.calendarCategories.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should throw NOT_FOUND when the category does not belong to the user', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        undefined,
+      );
+
+      await expect(
+        service.createFeed(TEST_USER_ID, { categoryId: TEST_CATEGORY_ID }),
+      ).rejects.toMatchObject({ statusCode: 404, code: 'NOT_FOUND' });
+    });
+
+    it('should throw CONFLICT when a feed already exists for the scope', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_CATEGORY_ID,
+      });
+      (db.query.calendarFeeds.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeFeedRow(),
+      );
+
+      await expect(
+        service.createFeed(TEST_USER_ID, { categoryId: TEST_CATEGORY_ID }),
+      ).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── rotateFeed ─────────────────────────────────────────────────
+
+  describe('rotateFeed', () => {
+    it('should replace the token hash and return the new token', async () => {
+      const chain = mockUpdateChain([makeFeedRow()]);
+
+      const result = await service.rotateFeed(TEST_USER_ID, TEST_FEED_ID);
+
+      expect(result.token).toMatch(/^[a-f0-9]{64}$/);
+      expect(result.token).not.toBe(TEST_TOKEN);
+      expect(chain.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tokenHash: createHash('sha256').update(result.token).digest('hex'),
+        }),
+      );
+    });
+
+    it('should throw NOT_FOUND for a feed owned by another user', async () => {
+      mockUpdateChain([]);
+
+      await expect(service.rotateFeed(TEST_USER_ID, TEST_FEED_ID)).rejects.toMatchObject({
+        statusCode: 404,
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+
+  // ─── revokeFeed ─────────────────────────────────────────────────
+
+  describe('revokeFeed', () => {
+    it('should delete the feed', async () => {
+      mockDeleteChain([{ id: TEST_FEED_ID }]);
+
+      await service.revokeFeed(TEST_USER_ID, TEST_FEED_ID);
+
+      expect(db.delete).toHaveBeenCalled();
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'feed.revoked' }),
+      );
+    });
+
+    it('should throw NOT_FOUND when nothing was deleted', async () => {
+      mockDeleteChain([]);
+
+      await expect(service.revokeFeed(TEST_USER_ID, TEST_FEED_ID)).rejects.toMatchObject({
+        statusCode: 404,
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+
+  // ─── renderFeed ─────────────────────────────────────────────────
+
+  describe('renderFeed', () => {
+    beforeEach(() => {
+      mockUpdateChain([]);
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_CATEGORY_ID,
+        name: 'Work',
+      });
+      (db.query.eventExceptions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    });
+
+    it('should throw NOT_FOUND for an unknown token', async () => {
+      (db.query.calendarFeeds.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.renderFeed(TEST_TOKEN)).rejects.toMatchObject({
+        statusCode: 404,
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it('should render a calendar named after the category', async () => {
+      (db.query.calendarFeeds.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeFeedRow(),
+      );
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([makeEventRow()]);
+
+      const ics = await service.renderFeed(TEST_TOKEN);
+
+      expect(ics).toContain('BEGIN:VCALENDAR');
+      expect(ics).toContain('X-WR-CALNAME:Work');
+      expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT1H');
+      expect(ics).toContain(`UID:${TEST_EVENT_ID}@calley.app`);
+      expect(ics).toContain('SUMMARY:Standup');
+    });
+
+    it('should emit RRULE and EXDATE for recurring parents', async () => {
+      (db.query.calendarFeeds.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeFeedRow(),
+      );
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEventRow({
+          rrule: 'FREQ=DAILY',
+          exDates: [new Date('2026-03-18T09:00:00Z')],
+        }),
+      ]);
+
+      const ics = await service.renderFeed(TEST_TOKEN);
+
+      expect(ics).toContain('RRULE:FREQ=DAILY');
+      expect(ics).toContain('EXDATE:20260318T090000Z');
+    });
+
+    it('should emit exception overrides as RECURRENCE-ID components', async () => {
+      (db.query.calendarFeeds.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeFeedRow(),
+      );
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEventRow({ rrule: 'FREQ=DAILY' }),
+      ]);
+      (db.query.eventExceptions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        {
+          id: 'exception1234567890123456',
+          recurringEventId: TEST_EVENT_ID,
+          userId: TEST_USER_ID,
+          originalDate: new Date('2026-03-17T09:00:00Z'),
+          overrides: { title: 'Late standup', startAt: '2026-03-17T10:00:00.000Z' },
+          createdAt: new Date('2026-03-02T00:00:00Z'),
+          updatedAt: new Date('2026-03-02T00:00:00Z'),
+          deletedAt: null,
+        },
+      ]);
+
+      const ics = await service.renderFeed(TEST_TOKEN);
+
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(ics).toContain('RECURRENCE-ID:20260317T090000Z');
+      expect(ics).toContain('SUMMARY:Late standup');
+      // Duration of the parent (15 min) is preserved when only startAt moves
+      expect(ics).toContain('DTSTART:20260317T100000Z');
+      expect(ics).toContain('DTEND:20260317T101500Z');
+    });
+
+    it('should skip overrides for excluded dates', async () => {
+      (db.query.calendarFeeds.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeFeedRow(),
+      );
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEventRow({ rrule: 'FREQ=DAILY', exDates: [new Date('2026-03-17T09:00:00Z')] }),
+      ]);
+      (db.query.eventExceptions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        {
+          id: 'exception1234567890123456',
+          recurringEventId: TEST_EVENT_ID,
+          userId: TEST_USER_ID,
+          originalDate: new Date('2026-03-17T09:00:00Z'),
+          overrides: { title: 'Gone' },
+          createdAt: new Date('2026-03-02T00:00:00Z'),
+          updatedAt: new Date('2026-03-02T00:00:00Z'),
+          deletedAt: null,
+        },
+      ]);
+
+      const ics = await service.renderFeed(TEST_TOKEN);
+
+      expect(ics).not.toContain('RECURRENCE-ID');
+      expect(ics).not.toContain('SUMMARY:Gone');
+    });
+
+    it('should name an all-calendars feed "Calley"', async () => {
+      (db.query.calendarFeeds.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeFeedRow({ categoryId: null }),
+      );
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      const ics = await service.renderFeed(TEST_TOKEN);
+
+      expect(ics).toContain('X-WR-CALNAME:Calley');
+      expect(db.query.calendarCategories.findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
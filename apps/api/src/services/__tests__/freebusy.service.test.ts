@@ -0,0 +1,375 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      users: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+    },
+  };
+
+  return { db: mockDb };
+});
+
+vi.mock('../event.service', () => ({
+  eventService: {
+    listEvents: vi.fn(),
+  },
+}));
+
+vi.mock('../calendar-share.service', () => ({
+  calendarShareService: {
+    getMemberShares: vi.fn(),
+  },
+  hasPermission: (permission: string, required: string) => {
+    const rank: Record<string, number> = { freebusy: 0, read: 1, edit: 2 };
+    return rank[permission] >= rank[required];
+  },
+}));
+
+import { db } from '../../db';
+import { calendarShareService } from '../calendar-share.service';
+import { eventService } from '../event.service';
+import {
+  FreeBusyService,
+  getDefaultSearchRange,
+  mergeBusyPeriods,
+  workingHoursFit,
+} from '../freebusy.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const REQUESTER_ID = 'requester1234567890123456';
+const COLLEAGUE_ID = 'colleague1234567890123456';
+const WORK_CATEGORY_ID = 'workcategory1234567890123';
+const BUSY_CATEGORY_ID = 'busycategory1234567890123';
+
+const colleague = {
+  id: COLLEAGUE_ID,
+  email: 'colleague@example.com',
+  name: 'Colleague',
+  timezone: 'America/New_York',
+  workingHours: null,
+};
+
+const query = {
+  start: '2026-03-02T00:00:00.000Z',
+  end: '2026-03-04T00:00:00.000Z',
+  emails: ['colleague@example.com'],
+  format: 'json' as const,
+};
+
+function makeEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'event1234567890123456789',
+    userId: COLLEAGUE_ID,
+    categoryId: WORK_CATEGORY_ID,
+    title: 'Standup',
+    startAt: '2026-03-02T14:00:00.000Z',
+    endAt: '2026-03-02T14:30:00.000Z',
+    isAllDay: false,
+    visibility: 'public',
+    ...overrides,
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('FreeBusyService', () => {
+  let service: FreeBusyService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new FreeBusyService();
+    (db.query.users.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([colleague]);
+    (calendarShareService.getMemberShares as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { categoryId: WORK_CATEGORY_ID, ownerId: COLLEAGUE_ID, permission: 'read' },
+      { categoryId: BUSY_CATEGORY_ID, ownerId: COLLEAGUE_ID, permission: 'freebusy' },
+    ]);
+  });
+
+  describe('query', () => {
+    it('should only look at calendars the colleague shared', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      await service.query(REQUESTER_ID, query);
+
+      expect(eventService.listEvents).toHaveBeenCalledWith(COLLEAGUE_ID, query.start, query.end, [
+        WORK_CATEGORY_ID,
+        BUSY_CATEGORY_ID,
+      ]);
+    });
+
+    it('should merge overlapping events and hide titles the requester may not see', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEvent(),
+        makeEvent({
+          id: 'private12345678901234567',
+          title: 'Doctor',
+          startAt: '2026-03-02T14:15:00.000Z',
+          endAt: '2026-03-02T15:00:00.000Z',
+          visibility: 'private',
+        }),
+        makeEvent({
+          id: 'busyonly1234567890123456',
+          categoryId: BUSY_CATEGORY_ID,
+          title: 'Interview',
+          startAt: '2026-03-02T18:00:00.000Z',
+          endAt: '2026-03-02T19:00:00.000Z',
+        }),
+      ]);
+
+      const result = await service.query(REQUESTER_ID, query);
+
+      expect(result.calendars).toEqual([
+        {
+          email: 'colleague@example.com',
+          name: 'Colleague',
+          busy: [
+            {
+              start: '2026-03-02T14:00:00.000Z',
+              end: '2026-03-02T15:00:00.000Z',
+              titles: ['Standup'],
+            },
+            { start: '2026-03-02T18:00:00.000Z', end: '2026-03-02T19:00:00.000Z', titles: [] },
+          ],
+        },
+      ]);
+    });
+
+    it('should block an all-day event over the owner’s local day, clipped to the range', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeEvent({
+          title: 'Offsite',
+          isAllDay: true,
+          startAt: '2026-03-03T00:00:00.000Z',
+          endAt: '2026-03-05T00:00:00.000Z',
+        }),
+      ]);
+
+      const result = await service.query(REQUESTER_ID, query);
+
+      expect(result.calendars[0].busy).toEqual([
+        { start: '2026-03-03T05:00:00.000Z', end: '2026-03-04T00:00:00.000Z', titles: ['Offsite'] },
+      ]);
+    });
+
+    it('should refuse people who have not shared with the requester', async () => {
+      (calendarShareService.getMemberShares as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      await expect(service.query(REQUESTER_ID, query)).rejects.toMatchObject({
+        statusCode: 403,
+        code: 'FORBIDDEN',
+      });
+      expect(eventService.listEvents).not.toHaveBeenCalled();
+    });
+
+    it('should refuse unknown emails the same way', async () => {
+      (db.query.users.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      await expect(service.query(REQUESTER_ID, query)).rejects.toMatchObject({
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe('queryIcs', () => {
+    it('should publish a VFREEBUSY per person', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([makeEvent()]);
+
+      const ics = await service.queryIcs(REQUESTER_ID, { ...query, format: 'ics' });
+
+      expect(ics).toContain('BEGIN:VFREEBUSY');
+      expect(ics).toContain('ORGANIZER;CN="Colleague":mailto:colleague@example.com');
+      expect(ics).toContain('FREEBUSY;FBTYPE=BUSY:20260302T140000Z/20260302T143000Z');
+      expect(ics).not.toContain('Standup');
+    });
+  });
+
+  describe('mergeBusyPeriods', () => {
+    it('should join back-to-back periods', () => {
+      const merged = mergeBusyPeriods([
+        {
+          start: new Date('2026-03-02T10:00:00Z'),
+          end: new Date('2026-03-02T11:00:00Z'),
+          titles: ['B'],
+        },
+        {
+          start: new Date('2026-03-02T09:00:00Z'),
+          end: new Date('2026-03-02T10:00:00Z'),
+          titles: ['A'],
+        },
+      ]);
+
+      expect(merged).toEqual([
+        {
+          start: new Date('2026-03-02T09:00:00Z'),
+          end: new Date('2026-03-02T11:00:00Z'),
+          titles: ['A', 'B'],
+        },
+      ]);
+    });
+  });
+
+  describe('findTime', () => {
+    const requester = {
+      id: REQUESTER_ID,
+      email: 'me@example.com',
+      name: 'Me',
+      timezone: 'Europe/London',
+      weekStart: 1,
+      workingHours: null,
+    };
+
+    const input = {
+      emails: ['colleague@example.com'],
+      durationMinutes: 60,
+      start: '2026-03-02T00:00:00.000Z',
+      end: '2026-03-03T00:00:00.000Z',
+      workingHours: { start: '09:00', end: '17:00' },
+      includeWeekends: false,
+      limit: 3,
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(requester);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should only suggest times inside everyone’s working hours', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      const result = await service.findTime(REQUESTER_ID, input);
+
+      // London 09:00–17:00 and New York 09:00–17:00 (14:00–22:00 UTC) on
+      // Monday overlap from 14:00 to 17:00 UTC
+      expect(result.slots.length).toBeGreaterThan(0);
+      for (const slot of result.slots) {
+        expect(new Date(slot.start).getTime()).toBeGreaterThanOrEqual(
+          new Date('2026-03-02T14:00:00.000Z').getTime(),
+        );
+        expect(new Date(slot.end).getTime()).toBeLessThanOrEqual(
+          new Date('2026-03-02T17:00:00.000Z').getTime(),
+        );
+      }
+    });
+
+    it('should avoid busy time and rank non-overlapping suggestions', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockImplementation(
+        async (ownerId: string) =>
+          ownerId === COLLEAGUE_ID
+            ? [
+                makeEvent({
+                  startAt: '2026-03-02T14:00:00.000Z',
+                  endAt: '2026-03-02T15:00:00.000Z',
+                }),
+              ]
+            : [],
+      );
+
+      const result = await service.findTime(REQUESTER_ID, input);
+
+      expect(result.slots).toEqual([
+        {
+          start: '2026-03-02T15:00:00.000Z',
+          end: '2026-03-02T16:00:00.000Z',
+          score: expect.any(Number),
+        },
+        {
+          start: '2026-03-02T16:00:00.000Z',
+          end: '2026-03-02T17:00:00.000Z',
+          score: expect.any(Number),
+        },
+      ]);
+      expect(result.slots[0].score).toBeGreaterThanOrEqual(result.slots[1].score);
+    });
+
+    it('should search just the requester’s calendar without attendees', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      await service.findTime(REQUESTER_ID, { ...input, emails: [] });
+
+      expect(db.query.users.findMany).not.toHaveBeenCalled();
+      expect(eventService.listEvents).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use each person’s own working hours without a window', async () => {
+      (eventService.listEvents as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+      // The colleague only works Monday mornings, in London time
+      (db.query.users.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        {
+          ...colleague,
+          workingHours: {
+            timezone: 'Europe/London',
+            days: [[], [{ start: '08:00', end: '11:00' }], [], [], [], [], []],
+          },
+        },
+      ]);
+      const { workingHours: _window, ...withoutWindow } = input;
+
+      const result = await service.findTime(REQUESTER_ID, withoutWindow);
+
+      // The requester's default 09:00–17:00 leaves 09:00–11:00 UTC
+      expect(result.slots.map((slot) => slot.start)).toEqual([
+        '2026-03-02T09:00:00.000Z',
+        '2026-03-02T10:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('workingHoursFit', () => {
+    const nineToFive = [
+      { start: new Date('2026-03-02T09:00:00Z'), end: new Date('2026-03-02T17:00:00Z') },
+    ];
+
+    it('should score the middle of the working period highest', () => {
+      expect(
+        workingHoursFit(
+          new Date('2026-03-02T12:30:00Z'),
+          new Date('2026-03-02T13:30:00Z'),
+          nineToFive,
+        ),
+      ).toBe(1);
+      expect(
+        workingHoursFit(
+          new Date('2026-03-02T09:00:00Z'),
+          new Date('2026-03-02T10:00:00Z'),
+          nineToFive,
+        ),
+      ).toBeCloseTo(0.125);
+    });
+
+    it('should reject slots outside every working period', () => {
+      expect(
+        workingHoursFit(
+          new Date('2026-03-02T16:30:00Z'),
+          new Date('2026-03-02T17:30:00Z'),
+          nineToFive,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('getDefaultSearchRange', () => {
+    it('should run to the end of next week by the user’s week start', () => {
+      // Wednesday 4 March 2026
+      const now = new Date('2026-03-04T10:00:00Z');
+
+      expect(getDefaultSearchRange(now, 'UTC', 1).end.toISOString()).toBe(
+        '2026-03-16T00:00:00.000Z',
+      );
+      expect(getDefaultSearchRange(now, 'UTC', 0).end.toISOString()).toBe(
+        '2026-03-15T00:00:00.000Z',
+      );
+    });
+  });
+});
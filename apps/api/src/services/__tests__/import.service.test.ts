@@ -0,0 +1,471 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+// Mock the database module
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      calendarCategories: {
+        findFirst: vi.fn(),
+      },
+      users: {
+        findFirst: vi.fn(),
+      },
+      events: {
+        findMany: vi.fn(),
+      },
+      tasks: {
+        findMany: vi.fn(),
+      },
+    },
+    transaction: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Mock queue
+vi.mock('../../lib/queue', () => ({
+  reminderQueue: {
+    add: vi.fn(),
+  },
+}));
+
+// Mock SSE service
+vi.mock('../sse.service', () => ({
+  sseService: {
+    emit: vi.fn(),
+  },
+}));
+
+// Mock audit service
+vi.mock('../audit.service', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { eventExceptions, events, reminders, tasks } from '../../db/schema';
+import { AppError } from '../../lib/errors';
+import { reminderQueue } from '../../lib/queue';
+import { auditService } from '../audit.service';
+import { ImportService } from '../import.service';
+import { sseService } from '../sse.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_CATEGORY_ID = 'testcategory1234567890123';
+
+function makeCalendar(...components: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...components.flat(), 'END:VCALENDAR'].join('\r\n');
+}
+
+function vevent(lines: string[], alarms: string[][] = []): string[] {
+  return ['BEGIN:VEVENT', ...lines, ...alarms.flat(), 'END:VEVENT'];
+}
+
+function vtodo(lines: string[], alarms: string[][] = []): string[] {
+  return ['BEGIN:VTODO', ...lines, ...alarms.flat(), 'END:VTODO'];
+}
+
+function valarm(action: string, trigger: string): string[] {
+  return ['BEGIN:VALARM', `ACTION:${action}`, `TRIGGER${trigger}`, 'END:VALARM'];
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+function mockTransaction() {
+  const inserted = new Map<unknown, unknown[]>();
+  const txInsert = vi.fn((table: unknown) => ({
+    values: vi.fn(async (rows: unknown[]) => {
+      inserted.set(table, [...(inserted.get(table) ?? []), ...rows]);
+    }),
+  }));
+  (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(
+    async (fn: (tx: unknown) => Promise<unknown>) => fn({ insert: txInsert }),
+  );
+  return inserted;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('ImportService', () => {
+  let service: ImportService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ImportService();
+
+    (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      id: TEST_CATEGORY_ID,
+      userId: TEST_USER_ID,
+    });
+    (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+      timezone: 'America/New_York',
+    });
+    (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (db.query.tasks.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+  });
+
+  describe('importIcs', () => {
+    it('should throw NOT_FOUND if the category does not belong to the user', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        undefined,
+      );
+
+      await expect(
+        service.importIcs(TEST_USER_ID, {
+          categoryId: TEST_CATEGORY_ID,
+          content: makeCalendar(),
+          dryRun: true,
+        }),
+      ).rejects.toThrow(AppError);
+    });
+
+    it('should reject malformed files with VALIDATION_ERROR', async () => {
+      await expect(
+        service.importIcs(TEST_USER_ID, {
+          categoryId: TEST_CATEGORY_ID,
+          content: 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\n',
+          dryRun: true,
+        }),
+      ).rejects.toMatchObject({ statusCode: 422, code: 'VALIDATION_ERROR' });
+    });
+
+    it('should reject files with too many items', async () => {
+      const many = Array.from({ length: 5001 }, (_, i) =>
+        vevent([`UID:${i}`, 'DTSTART:20300101T100000Z']),
+      );
+
+      await expect(
+        service.importIcs(TEST_USER_ID, {
+          categoryId: TEST_CATEGORY_ID,
+          content: makeCalendar(...many),
+          dryRun: true,
+        }),
+      ).rejects.toMatchObject({ statusCode: 422 });
+    });
+
+    it('should report without writing anything on a dry run', async () => {
+      const report = await service.importIcs(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: makeCalendar(
+          vevent([
+            'UID:one',
+            'SUMMARY:Lunch',
+            'DTSTART:20300101T170000Z',
+            'DTEND:20300101T180000Z',
+          ]),
+        ),
+        dryRun: true,
+      });
+
+      expect(report).toMatchObject({ dryRun: true, created: 1, skipped: 0, invalid: 0 });
+      expect(report.items[0]).toMatchObject({
+        uid: 'one',
+        type: 'event',
+        title: 'Lunch',
+        startAt: '2030-01-01T17:00:00.000Z',
+        status: 'created',
+      });
+      expect(db.transaction).not.toHaveBeenCalled();
+      expect(sseService.emit).not.toHaveBeenCalled();
+    });
+
+    it('should map timed, all-day and floating events', async () => {
+      const inserted = mockTransaction();
+
+      await service.importIcs(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: makeCalendar(
+          vevent([
+            'UID:timed',
+            'SUMMARY:Design review\\, round 2',
+            'DESCRIPTION:Agenda:\\n<b>bring notes</b>',
+            'LOCATION:Room 4',
+            'DTSTART;TZID=Europe/Berlin:20300101T100000',
+            'DURATION:PT45M',
+          ]),
+          vevent(['UID:allday', 'SUMMARY:Holiday', 'DTSTART;VALUE=DATE:20300102']),
+          vevent(['UID:floating', 'SUMMARY:Gym', 'DTSTART:20300103T070000']),
+        ),
+        dryRun: false,
+      });
+
+      const rows = inserted.get(events) as Record<string, unknown>[];
+      expect(rows).toHaveLength(3);
+
+      expect(rows[0]).toMatchObject({
+        userId: TEST_USER_ID,
+        categoryId: TEST_CATEGORY_ID,
+        title: 'Design review, round 2',
+        location: 'Room 4',
+        startAt: new Date('2030-01-01T09:00:00Z'),
+        endAt: new Date('2030-01-01T09:45:00Z'),
+        isAllDay: false,
+        timezone: 'Europe/Berlin',
+        endTimezone: null,
+        icalUid: 'timed',
+      });
+      // Plain-text descriptions are escaped, not interpreted as HTML
+      expect(rows[0].description).toBe('<p>Agenda:</p><p>&lt;b&gt;bring notes&lt;/b&gt;</p>');
+
+      expect(rows[1]).toMatchObject({
+        isAllDay: true,
+        startAt: new Date('2030-01-02T00:00:00Z'),
+        endAt: new Date('2030-01-03T00:00:00Z'),
+        timezone: null,
+      });
+
+      // Floating times use the user's timezone and get a default 1h duration
+      expect(rows[2]).toMatchObject({
+        startAt: new Date('2030-01-03T12:00:00Z'),
+        endAt: new Date('2030-01-03T13:00:00Z'),
+        timezone: 'America/New_York',
+      });
+    });
+
+    it('should map recurrence, RDATE, EXDATE and RECURRENCE-ID overrides', async () => {
+      const inserted = mockTransaction();
+
+      const report = await service.importIcs(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: makeCalendar(
+          vevent([
+            'UID:series',
+            'SUMMARY:Standup',
+            'DTSTART:20300107T140000Z',
+            'DTEND:20300107T141500Z',
+            'RRULE:FREQ=WEEKLY;BYDAY=MO',
+            'EXDATE:20300114T140000Z',
+            'RDATE:20300116T140000Z',
+            // Periods can't be stored and are dropped
+            'RDATE;VALUE=PERIOD:20300118T140000Z/PT2H',
+          ]),
+          vevent([
+            'UID:series',
+            'RECURRENCE-ID:20300121T140000Z',
+            'SUMMARY:Standup (moved)',
+            'DTSTART:20300121T160000Z',
+            'DTEND:20300121T161500Z',
+          ]),
+          vevent([
+            'UID:series',
+            'RECURRENCE-ID:20300128T140000Z',
+            'STATUS:CANCELLED',
+            'DTSTART:20300128T140000Z',
+          ]),
+        ),
+        dryRun: false,
+      });
+
+      expect(report.created).toBe(3);
+
+      const [series] = inserted.get(events) as Record<string, unknown>[];
+      expect(series.rrule).toBe('FREQ=WEEKLY;BYDAY=MO');
+      // The cancelled instance is folded into the series' exDates
+      expect(series.exDates).toEqual([
+        new Date('2030-01-14T14:00:00Z'),
+        new Date('2030-01-28T14:00:00Z'),
+      ]);
+      expect(series.rDates).toEqual([new Date('2030-01-16T14:00:00Z')]);
+
+      const exceptions = inserted.get(eventExceptions) as Record<string, unknown>[];
+      expect(exceptions).toHaveLength(1);
+      expect(exceptions[0]).toEqual({
+        recurringEventId: series.id,
+        userId: TEST_USER_ID,
+        originalDate: new Date('2030-01-21T14:00:00Z'),
+        overrides: {
+          title: 'Standup (moved)',
+          startAt: '2030-01-21T16:00:00.000Z',
+          endAt: '2030-01-21T16:15:00.000Z',
+        },
+      });
+    });
+
+    it('should skip overrides whose series is not in the file', async () => {
+      const report = await service.importIcs(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: makeCalendar(
+          vevent(['UID:orphan', 'RECURRENCE-ID:20300121T140000Z', 'DTSTART:20300121T160000Z']),
+        ),
+        dryRun: true,
+      });
+
+      expect(report.items[0]).toMatchObject({
+        type: 'exception',
+        status: 'skipped',
+        reason: 'Recurring series not found in file',
+      });
+    });
+
+    it('should skip UIDs that were already imported or repeat in the file', async () => {
+      (db.query.events.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { icalUid: 'existing' },
+      ]);
+
+      const report = await service.importIcs(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: makeCalendar(
+          vevent(['UID:existing', 'DTSTART:20300101T100000Z']),
+          vevent(['UID:dupe', 'DTSTART:20300101T100000Z']),
+          vevent(['UID:dupe', 'DTSTART:20300102T100000Z']),
+          vevent(['UID:cancelled', 'STATUS:CANCELLED', 'DTSTART:20300101T100000Z']),
+        ),
+        dryRun: true,
+      });
+
+      expect(report).toMatchObject({ created: 1, skipped: 3, invalid: 0 });
+      expect(report.items.map((i) => i.reason)).toEqual([
+        'Already imported',
+        null,
+        'Duplicate UID in file',
+        'Cancelled',
+      ]);
+    });
+
+    it('should report invalid components with a reason', async () => {
+      const report = await service.importIcs(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: makeCalendar(
+          vevent(['UID:nostart', 'SUMMARY:No start']),
+          vevent(['UID:backwards', 'DTSTART:20300101T100000Z', 'DTEND:20300101T090000Z']),
+          vevent(['UID:hourly', 'DTSTART:20300101T100000Z', 'RRULE:FREQ=HOURLY']),
+        ),
+        dryRun: true,
+      });
+
+      expect(report.invalid).toBe(3);
+      expect(report.items.map((i) => i.reason)).toEqual([
+        'Missing start date',
+        'End time must be after start time',
+        'Unsupported recurrence rule',
+      ]);
+    });
+
+    it('should map VTODOs onto tasks', async () => {
+      const inserted = mockTransaction();
+
+      await service.importIcs(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: makeCalendar(
+          vtodo(['UID:t1', 'SUMMARY:File taxes', 'DUE;VALUE=DATE:20300415', 'PRIORITY:1']),
+          vtodo([
+            'UID:t2',
+            'SUMMARY:Buy milk',
+            'STATUS:COMPLETED',
+            'COMPLETED:20291231T120000Z',
+            'PRIORITY:9',
+          ]),
+          vtodo(['UID:t3', 'SUMMARY:Draft', 'STATUS:IN-PROCESS', 'PRIORITY:5']),
+        ),
+        dryRun: false,
+      });
+
+      const rows = inserted.get(tasks) as Record<string, unknown>[];
+      expect(rows).toHaveLength(3);
+      // Date-only due dates become 23:59 in the user's timezone
+      expect(rows[0]).toMatchObject({
+        title: 'File taxes',
+        dueAt: new Date('2030-04-16T03:59:00Z'),
+        priority: 'high',
+        status: 'todo',
+        icalUid: 't1',
+      });
+      expect(rows[1]).toMatchObject({
+        priority: 'low',
+        status: 'done',
+        completedAt: new Date('2029-12-31T12:00:00Z'),
+      });
+      expect(rows[2]).toMatchObject({ priority: 'medium', status: 'in_progress', dueAt: null });
+    });
+
+    it('should turn supported VALARMs into reminders and enqueue them', async () => {
+      const inserted = mockTransaction();
+
+      const report = await service.importIcs(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: makeCalendar(
+          vevent(
+            ['UID:future', 'DTSTART:20300101T100000Z'],
+            [
+              valarm('DISPLAY', ':-PT15M'),
+              valarm('EMAIL', ':-P1D'),
+              valarm('DISPLAY', ';VALUE=DATE-TIME:20300101T093000Z'),
+              valarm('DISPLAY', ';RELATED=END:PT0M'),
+              valarm('PROCEDURE', ':-PT5M'),
+            ],
+          ),
+          // Alarms for past events are dropped instead of firing immediately
+          vevent(['UID:past', 'DTSTART:20200101T100000Z'], [valarm('DISPLAY', ':-PT15M')]),
+        ),
+        dryRun: false,
+      });
+
+      expect(report.reminders).toBe(3);
+
+      const rows = inserted.get(reminders) as Record<string, unknown>[];
+      const [futureEvent] = inserted.get(events) as Record<string, unknown>[];
+      expect(rows.map((r) => [r.minutesBefore, r.method])).toEqual([
+        [15, 'push'],
+        [1440, 'email'],
+        [30, 'push'],
+      ]);
+      expect(rows[0]).toMatchObject({
+        itemType: 'event',
+        itemId: futureEvent.id,
+        triggerAt: new Date('2030-01-01T09:45:00Z'),
+      });
+
+      expect(reminderQueue.add).toHaveBeenCalledTimes(3);
+      expect(reminderQueue.add).toHaveBeenCalledWith(
+        'send-reminder',
+        expect.objectContaining({ reminderId: rows[0].id, itemType: 'event' }),
+        expect.objectContaining({ jobId: rows[0].id }),
+      );
+    });
+
+    it('should audit and notify clients after committing', async () => {
+      mockTransaction();
+
+      await service.importIcs(TEST_USER_ID, {
+        categoryId: TEST_CATEGORY_ID,
+        content: makeCalendar(
+          vevent(['UID:e1', 'DTSTART:20300101T100000Z']),
+          vtodo(['UID:t1', 'SUMMARY:Task']),
+        ),
+        dryRun: false,
+      });
+
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'import.completed',
+          userId: TEST_USER_ID,
+          entityId: TEST_CATEGORY_ID,
+        }),
+      );
+      expect(sseService.emit).toHaveBeenCalledWith(TEST_USER_ID, 'event:created', {
+        categoryId: TEST_CATEGORY_ID,
+        imported: 1,
+      });
+      expect(sseService.emit).toHaveBeenCalledWith(TEST_USER_ID, 'task:created', {
+        categoryId: TEST_CATEGORY_ID,
+        imported: 1,
+      });
+    });
+  });
+});
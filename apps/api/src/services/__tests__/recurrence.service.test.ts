@@ -32,11 +32,15 @@ function makeRecurrableEvent(overrides: Partial<RecurrableEvent> = {}): Recurrab
     location: null,
     startAt: '2026-03-15T10:00:00.000Z', // Sunday
     endAt: '2026-03-15T11:00:00.000Z',
+    timezone: null,
+    endTimezone: null,
     isAllDay: false,
     color: null,
     visibility: 'private',
     rrule: 'FREQ=DAILY',
     exDates: [],
+    rDates: [],
+    skipHolidays: null,
     recurringEventId: null,
     originalDate: null,
     createdAt: '2026-03-01T00:00:00.000Z',
@@ -1064,8 +1068,114 @@ describe('RecurrenceService', () => {
     });
   });
 
+  // ─── Extra dates (RDATE) ───────────────────────────────────────
+
+  describe('extra dates (RDATE)', () => {
+    it('should add extra dates between rule occurrences', () => {
+      const event = makeRecurrableEvent({
+        rrule: 'FREQ=WEEKLY',
+        rDates: ['2026-03-18T15:00:00.000Z'],
+      });
+
+      const result = service.expandRecurringEvents(
+        [event],
+        '2026-03-15T00:00:00.000Z',
+        '2026-03-23T00:00:00.000Z',
+      );
+
+      expect(result.map((e) => e.startAt)).toEqual([
+        '2026-03-15T10:00:00.000Z',
+        '2026-03-18T15:00:00.000Z',
+        '2026-03-22T10:00:00.000Z',
+      ]);
+      expect(result[1].endAt).toBe('2026-03-18T16:00:00.000Z');
+    });
+
+    it('should drop an extra date that is also excluded', () => {
+      const event = makeRecurrableEvent({
+        rrule: 'FREQ=WEEKLY',
+        rDates: ['2026-03-18T15:00:00.000Z'],
+        exDates: ['2026-03-18T15:00:00.000Z'],
+      });
+
+      const result = service.expandRecurringEvents(
+        [event],
+        '2026-03-15T00:00:00.000Z',
+        '2026-03-23T00:00:00.000Z',
+      );
+
+      expect(result).toHaveLength(2);
+    });
+  });
+
   // ─── validateRrule ─────────────────────────────────────────────
 
+  describe('skipping holidays', () => {
+    // Mondays at 09:00 in New York; May 25th 2026 is Memorial Day
+    const mondays = {
+      startAt: '2026-05-18T13:00:00.000Z',
+      endAt: '2026-05-18T14:00:00.000Z',
+      timezone: 'America/New_York',
+      rrule: 'FREQ=WEEKLY',
+    };
+
+    it('should leave out occurrences on a holiday of the chosen calendar', () => {
+      const result = service.expandRecurringEvents(
+        [makeRecurrableEvent({ ...mondays, skipHolidays: 'US' })],
+        '2026-05-17T00:00:00.000Z',
+        '2026-06-07T00:00:00.000Z',
+      );
+
+      expect(result.map((e) => e.startAt)).toEqual([
+        '2026-05-18T13:00:00.000Z',
+        '2026-06-01T13:00:00.000Z',
+      ]);
+    });
+
+    it('should keep holidays of other calendars', () => {
+      // Martin Luther King Jr. Day is a US holiday only
+      const expand = (skipHolidays: 'US' | 'FR') =>
+        service.expandRecurringEvents(
+          [
+            makeRecurrableEvent({
+              ...mondays,
+              startAt: '2026-01-05T14:00:00.000Z',
+              endAt: '2026-01-05T15:00:00.000Z',
+              skipHolidays,
+            }),
+          ],
+          '2026-01-18T00:00:00.000Z',
+          '2026-01-20T00:00:00.000Z',
+        );
+
+      expect(expand('US')).toEqual([]);
+      expect(expand('FR').map((e) => e.startAt)).toEqual(['2026-01-19T14:00:00.000Z']);
+    });
+
+    it('should find the day of an all-day event that starts before midnight UTC', () => {
+      // Midnight in Berlin is 23:00 UTC the day before
+      const result = service.expandRecurringEvents(
+        [
+          makeRecurrableEvent({
+            startAt: '2026-12-23T23:00:00.000Z',
+            endAt: '2026-12-24T23:00:00.000Z',
+            isAllDay: true,
+            rrule: 'FREQ=DAILY;COUNT=4',
+            skipHolidays: 'DE',
+          }),
+        ],
+        '2026-12-20T00:00:00.000Z',
+        '2026-12-31T00:00:00.000Z',
+      );
+
+      // Christmas Day and the Second Day of Christmas are skipped
+      expect(result.map((e) => e.startAt)).toEqual([
+        '2026-12-23T23:00:00.000Z',
+        '2026-12-26T23:00:00.000Z',
+      ]);
+    });
+  });
+
   describe('validateRrule', () => {
     it('should accept valid daily RRULE', () => {
       expect(() => service.validateRrule('FREQ=DAILY')).not.toThrow();
@@ -1118,6 +1228,16 @@ describe('RecurrenceService', () => {
       expect(() => service.validateRrule('NOT_AN_RRULE')).toThrow(AppError);
     });
 
+    it('should accept BYSETPOS with the weekdays it picks from', () => {
+      expect(() =>
+        service.validateRrule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'),
+      ).not.toThrow();
+    });
+
+    it('should reject BYSETPOS on its own', () => {
+      expect(() => service.validateRrule('FREQ=MONTHLY;BYSETPOS=2')).toThrow('BYSETPOS');
+    });
+
     it('should throw AppError with code INVALID_RRULE', () => {
       try {
         service.validateRrule('INVALID');
@@ -1130,6 +1250,209 @@ describe('RecurrenceService', () => {
     });
   });
 
+  // ─── inspectSeries ──────────────────────────────────────────────
+
+  describe('inspectSeries', () => {
+    const pattern = {
+      startAt: '2026-03-31T10:00:00.000Z',
+      timezone: null,
+      isAllDay: false,
+      rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+      exDates: [],
+      rDates: [],
+      skipHolidays: null,
+    };
+
+    const dates = (result: { date: string }[]) => result.map((o) => o.date);
+
+    it('should list the next occurrences of a BYSETPOS rule', () => {
+      const result = service.inspectSeries(pattern, 3);
+
+      expect(dates(result)).toEqual([
+        '2026-03-31T10:00:00.000Z',
+        '2026-04-30T10:00:00.000Z',
+        '2026-05-29T10:00:00.000Z',
+      ]);
+      expect(result[0]).toEqual({
+        date: '2026-03-31T10:00:00.000Z',
+        skipped: false,
+        holiday: null,
+        overrides: null,
+      });
+    });
+
+    it('should merge extra dates in order', () => {
+      const result = service.inspectSeries({ ...pattern, rDates: ['2026-04-15T10:00:00.000Z'] }, 3);
+
+      expect(dates(result)).toEqual([
+        '2026-03-31T10:00:00.000Z',
+        '2026-04-15T10:00:00.000Z',
+        '2026-04-30T10:00:00.000Z',
+      ]);
+    });
+
+    it('should keep skipped occurrences in and still return count that take place', () => {
+      const result = service.inspectSeries(
+        { ...pattern, exDates: ['2026-04-30T10:00:00.000Z'] },
+        2,
+      );
+
+      expect(result.map((o) => [o.date, o.skipped])).toEqual([
+        ['2026-03-31T10:00:00.000Z', false],
+        ['2026-04-30T10:00:00.000Z', true],
+        ['2026-05-29T10:00:00.000Z', false],
+      ]);
+    });
+
+    it('should attach exception overrides to their occurrence', () => {
+      const result = service.inspectSeries(pattern, 2, [
+        makeException({
+          originalDate: '2026-04-30T10:00:00.000Z',
+          overrides: { title: 'Month-end close (moved)' },
+        }),
+      ]);
+
+      expect(result[1].overrides).toEqual({ title: 'Month-end close (moved)' });
+      expect(result[0].overrides).toBeNull();
+    });
+
+    it('should keep the local time across DST in the event timezone', () => {
+      const result = service.inspectSeries(
+        {
+          ...pattern,
+          // Sunday 10:00 in New York, the week before DST starts
+          startAt: '2026-03-01T15:00:00.000Z',
+          timezone: 'America/New_York',
+          rrule: 'FREQ=WEEKLY',
+        },
+        2,
+      );
+
+      expect(dates(result)).toEqual(['2026-03-01T15:00:00.000Z', '2026-03-08T14:00:00.000Z']);
+    });
+
+    it('should mark skipped holidays with their name', () => {
+      const result = service.inspectSeries(
+        {
+          ...pattern,
+          // Mondays at 09:00 in New York
+          startAt: '2026-05-18T13:00:00.000Z',
+          timezone: 'America/New_York',
+          rrule: 'FREQ=WEEKLY',
+          skipHolidays: 'US',
+        },
+        2,
+      );
+
+      expect(result.map((o) => [o.date, o.skipped, o.holiday])).toEqual([
+        ['2026-05-18T13:00:00.000Z', false, null],
+        ['2026-05-25T13:00:00.000Z', true, 'Memorial Day'],
+        ['2026-06-01T13:00:00.000Z', false, null],
+      ]);
+    });
+
+    it('should stop early when every occurrence falls on a holiday', () => {
+      const result = service.inspectSeries(
+        {
+          ...pattern,
+          startAt: '2026-12-25T10:00:00.000Z',
+          rrule: 'FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25',
+          skipHolidays: 'US',
+        },
+        5,
+      );
+
+      expect(result).toHaveLength(10);
+      expect(result.every((o) => o.holiday === 'Christmas Day')).toBe(true);
+      expect(result[9].date).toBe('2035-12-25T10:00:00.000Z');
+    });
+
+    it('should reject an invalid rule', () => {
+      expect(() => service.inspectSeries({ ...pattern, rrule: 'FREQ=HOURLY' }, 3)).toThrow(
+        AppError,
+      );
+    });
+  });
+
+  // ─── continuesAt ────────────────────────────────────────────────
+
+  describe('continuesAt', () => {
+    // Weekly on Mondays at 09:00 New York time, cut off before March 16th
+    const pattern = {
+      startAt: '2026-03-02T14:00:00.000Z',
+      timezone: 'America/New_York',
+      isAllDay: false,
+      rrule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20260316T125959Z',
+      exDates: [],
+      rDates: [],
+      skipHolidays: null,
+    };
+
+    it('should accept the next occurrence after UNTIL, across a DST change', () => {
+      expect(service.continuesAt(pattern, '2026-03-16T13:00:00.000Z')).toBe(true);
+    });
+
+    it('should reject a start that leaves a gap or is off the rule', () => {
+      expect(service.continuesAt(pattern, '2026-03-23T13:00:00.000Z')).toBe(false);
+      expect(service.continuesAt(pattern, '2026-03-16T14:00:00.000Z')).toBe(false);
+    });
+
+    it('should reject a series without an UNTIL', () => {
+      expect(
+        service.continuesAt({ ...pattern, rrule: 'FREQ=WEEKLY;BYDAY=MO' }, '2026-03-16T13:00:00Z'),
+      ).toBe(false);
+    });
+  });
+
+  // ─── nextDueAfterCompletion ─────────────────────────────────────
+
+  describe('nextDueAfterCompletion', () => {
+    it('should count from the completion day and keep the due time of day', () => {
+      // Due Monday 09:00 in New York, done late on Wednesday evening
+      const next = service.nextDueAfterCompletion(
+        'FREQ=DAILY;INTERVAL=3',
+        new Date('2026-03-19T01:30:00Z'), // Wed 21:30 EDT
+        new Date('2026-03-16T13:00:00Z'),
+        'America/New_York',
+      );
+
+      expect(next.toISOString()).toBe('2026-03-21T13:00:00.000Z'); // Sat 09:00 EDT
+    });
+
+    it('should keep local time across a DST change', () => {
+      const next = service.nextDueAfterCompletion(
+        'FREQ=WEEKLY',
+        new Date('2026-03-04T15:00:00Z'), // Wed 10:00 EST
+        new Date('2026-03-04T14:00:00Z'), // due 09:00 EST
+        'America/New_York',
+      );
+
+      expect(next.toISOString()).toBe('2026-03-11T13:00:00.000Z'); // 09:00 EDT
+    });
+
+    it('should clamp monthly repeats to the end of shorter months', () => {
+      const next = service.nextDueAfterCompletion(
+        'FREQ=MONTHLY',
+        new Date('2026-01-31T18:00:00Z'),
+        null,
+        'UTC',
+      );
+
+      expect(next.toISOString()).toBe('2026-02-28T18:00:00.000Z');
+    });
+
+    it('should step whole years', () => {
+      const next = service.nextDueAfterCompletion(
+        'FREQ=YEARLY;INTERVAL=2',
+        new Date('2026-05-10T08:00:00Z'),
+        null,
+        'UTC',
+      );
+
+      expect(next.toISOString()).toBe('2028-05-10T08:00:00.000Z');
+    });
+  });
+
   // ─── DST / Timezone edge cases ─────────────────────────────────
 
   describe('timezone and DST edge cases', () => {
@@ -1169,6 +1492,69 @@ describe('RecurrenceService', () => {
       expect(result).toHaveLength(5);
     });
 
+    it('should keep wall-clock time across DST when the event has a timezone', () => {
+      // 9:00 AM New York: EST (UTC-5) until March 8, EDT (UTC-4) after
+      const event = makeRecurrableEvent({
+        rrule: 'FREQ=WEEKLY;COUNT=3',
+        startAt: '2026-03-02T14:00:00.000Z',
+        endAt: '2026-03-02T15:00:00.000Z',
+        timezone: 'America/New_York',
+      });
+
+      const result = service.expandRecurringEvents(
+        [event],
+        '2026-03-01T00:00:00Z',
+        '2026-03-31T00:00:00Z',
+      );
+
+      expect(result.map((r) => r.startAt)).toEqual([
+        '2026-03-02T14:00:00.000Z',
+        '2026-03-09T13:00:00.000Z',
+        '2026-03-16T13:00:00.000Z',
+      ]);
+      expect(result[1].endAt).toBe('2026-03-09T14:00:00.000Z');
+    });
+
+    it('should keep UTC time across DST when the event has no timezone', () => {
+      const event = makeRecurrableEvent({
+        rrule: 'FREQ=WEEKLY;COUNT=2',
+        startAt: '2026-03-02T14:00:00.000Z',
+        endAt: '2026-03-02T15:00:00.000Z',
+      });
+
+      const result = service.expandRecurringEvents(
+        [event],
+        '2026-03-01T00:00:00Z',
+        '2026-03-31T00:00:00Z',
+      );
+
+      expect(result.map((r) => r.startAt)).toEqual([
+        '2026-03-02T14:00:00.000Z',
+        '2026-03-09T14:00:00.000Z',
+      ]);
+    });
+
+    it('should exclude exDates of timezone-anchored series', () => {
+      const event = makeRecurrableEvent({
+        rrule: 'FREQ=WEEKLY;COUNT=3',
+        startAt: '2026-03-02T14:00:00.000Z',
+        endAt: '2026-03-02T15:00:00.000Z',
+        timezone: 'America/New_York',
+        exDates: ['2026-03-09T13:00:00.000Z'],
+      });
+
+      const result = service.expandRecurringEvents(
+        [event],
+        '2026-03-01T00:00:00Z',
+        '2026-03-31T00:00:00Z',
+      );
+
+      expect(result.map((r) => r.startAt)).toEqual([
+        '2026-03-02T14:00:00.000Z',
+        '2026-03-16T13:00:00.000Z',
+      ]);
+    });
+
     it('should handle UTC midnight boundary events', () => {
       const event = makeRecurrableEvent({
         rrule: 'FREQ=DAILY;COUNT=3',
@@ -210,6 +210,17 @@ describe('SearchService', () => {
       expect(result.tasks[0].deletedAt).toBeNull();
     });
 
+    it("should return the user's tag IDs on each result", async () => {
+      (db.execute as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([makeEventRow({ tagIds: ['testtag123456789012345678'] })])
+        .mockResolvedValueOnce([makeTaskRow()]);
+
+      const result = await service.search(TEST_USER_ID, 'urgent');
+
+      expect(result.events[0].tagIds).toEqual(['testtag123456789012345678']);
+      expect(result.tasks[0].tagIds).toEqual([]);
+    });
+
     it('should handle single-word query correctly', async () => {
       (db.execute as ReturnType<typeof vi.fn>)
         .mockResolvedValueOnce([makeEventRow()])
@@ -0,0 +1,242 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+// Mock the database module
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      tags: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+    },
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Mock @calley/shared
+vi.mock('@calley/shared', () => ({
+  MAX_TAGS_PER_USER: 100,
+}));
+
+import { db } from '../../db';
+import { AppError } from '../../lib/errors';
+import { TagService } from '../tag.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_TAG_ID = 'testtag123456789012345678';
+const OTHER_TAG_ID = 'othertag12345678901234567';
+const TEST_TASK_ID = 'testtask123456789012345678';
+
+function makeTagRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_TAG_ID,
+    userId: TEST_USER_ID,
+    name: 'urgent',
+    color: '#ef4444',
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+function mockSelectChain(result: unknown[]) {
+  const chain = {
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockResolvedValue(result),
+  };
+  (db.select as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockInsertChain(result: unknown[]) {
+  const chain = {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+    onConflictDoNothing: vi.fn().mockResolvedValue(undefined),
+  };
+  (db.insert as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockDeleteChain(result: unknown[]) {
+  const chain = {
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.delete as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('TagService', () => {
+  let service: TagService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new TagService();
+  });
+
+  // ─── createTag ──────────────────────────────────────────────────
+
+  describe('createTag', () => {
+    it('should create a tag', async () => {
+      mockSelectChain([{ value: 3 }]);
+      (db.query.tags.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      mockInsertChain([makeTagRow()]);
+
+      const result = await service.createTag(TEST_USER_ID, { name: 'urgent', color: '#ef4444' });
+
+      expect(result.id).toBe(TEST_TAG_ID);
+      expect(result.createdAt).toBe('2026-03-01T00:00:00.000Z');
+    });
+
+    it('should enforce the per-user tag limit', async () => {
+      mockSelectChain([{ value: 100 }]);
+
+      await expect(
+        service.createTag(TEST_USER_ID, { name: 'urgent', color: '#ef4444' }),
+      ).rejects.toMatchObject({ statusCode: 422, code: 'CONFLICT' });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject a duplicate name', async () => {
+      mockSelectChain([{ value: 3 }]);
+      (db.query.tags.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTagRow());
+
+      await expect(
+        service.createTag(TEST_USER_ID, { name: 'urgent', color: '#ef4444' }),
+      ).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+    });
+  });
+
+  // ─── updateTag / deleteTag ──────────────────────────────────────
+
+  describe('updateTag', () => {
+    it('should reject renaming onto another tag name', async () => {
+      (db.query.tags.findFirst as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(makeTagRow())
+        .mockResolvedValueOnce(makeTagRow({ id: OTHER_TAG_ID, name: 'blocked' }));
+
+      await expect(
+        service.updateTag(TEST_USER_ID, TEST_TAG_ID, { name: 'blocked' }),
+      ).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw NOT_FOUND for another user's tag", async () => {
+      (db.query.tags.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(
+        service.updateTag(TEST_USER_ID, TEST_TAG_ID, { color: '#000000' }),
+      ).rejects.toBeInstanceOf(AppError);
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should throw NOT_FOUND when nothing was deleted', async () => {
+      mockDeleteChain([]);
+
+      await expect(service.deleteTag(TEST_USER_ID, TEST_TAG_ID)).rejects.toMatchObject({
+        statusCode: 404,
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+
+  // ─── Item tags ──────────────────────────────────────────────────
+
+  describe('item tags', () => {
+    it('should accept tag IDs the user owns, ignoring repeats', async () => {
+      mockSelectChain([{ id: TEST_TAG_ID }]);
+
+      await expect(
+        service.validateTagIds(TEST_USER_ID, [TEST_TAG_ID, TEST_TAG_ID]),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject tag IDs the user does not own', async () => {
+      mockSelectChain([{ id: TEST_TAG_ID }]);
+
+      await expect(
+        service.validateTagIds(TEST_USER_ID, [TEST_TAG_ID, OTHER_TAG_ID]),
+      ).rejects.toMatchObject({ statusCode: 404, code: 'NOT_FOUND' });
+    });
+
+    it("should replace the user's tags on an item", async () => {
+      const deleteChain = mockDeleteChain([]);
+      deleteChain.where.mockResolvedValue(undefined);
+      const insertChain = mockInsertChain([]);
+      insertChain.values.mockResolvedValue(undefined);
+
+      await service.setItemTags(TEST_USER_ID, 'task', TEST_TASK_ID, [
+        TEST_TAG_ID,
+        OTHER_TAG_ID,
+        TEST_TAG_ID,
+      ]);
+
+      expect(db.delete).toHaveBeenCalled();
+      expect(insertChain.values).toHaveBeenCalledWith([
+        { tagId: TEST_TAG_ID, userId: TEST_USER_ID, itemType: 'task', itemId: TEST_TASK_ID },
+        { tagId: OTHER_TAG_ID, userId: TEST_USER_ID, itemType: 'task', itemId: TEST_TASK_ID },
+      ]);
+    });
+
+    it('should only clear tags when given an empty list', async () => {
+      const deleteChain = mockDeleteChain([]);
+      deleteChain.where.mockResolvedValue(undefined);
+
+      await service.setItemTags(TEST_USER_ID, 'event', TEST_TASK_ID, []);
+
+      expect(db.delete).toHaveBeenCalled();
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('should remove every tag from items deleted for good', async () => {
+      const deleteChain = mockDeleteChain([]);
+      deleteChain.where.mockResolvedValue(undefined);
+
+      await service.deleteItemTags('event', [TEST_TASK_ID]);
+      await service.deleteItemTags('event', []);
+
+      expect(db.delete).toHaveBeenCalledTimes(1);
+      expect(deleteChain.where).toHaveBeenCalled();
+    });
+
+    it('should group tag IDs by item', async () => {
+      mockSelectChain([
+        { itemId: TEST_TASK_ID, tagId: TEST_TAG_ID },
+        { itemId: TEST_TASK_ID, tagId: OTHER_TAG_ID },
+      ]);
+
+      const result = await service.getItemTagIds(TEST_USER_ID, 'task', [
+        TEST_TASK_ID,
+        'untagged12345678901234567',
+      ]);
+
+      expect(result.get(TEST_TASK_ID)).toEqual([TEST_TAG_ID, OTHER_TAG_ID]);
+      expect(result.has('untagged12345678901234567')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+// Mock the database module
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      taskLists: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+    },
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Mock tag service
+vi.mock('../tag.service', () => ({
+  tagService: {
+    validateTagIds: vi.fn(),
+  },
+}));
+
+// Mock @calley/shared
+vi.mock('@calley/shared', () => ({
+  MAX_TASK_LISTS_PER_USER: 50,
+}));
+
+import { db } from '../../db';
+import { AppError } from '../../lib/errors';
+import { tagService } from '../tag.service';
+import { TaskListService } from '../task-list.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_LIST_ID = 'testlist12345678901234567';
+const TEST_CATEGORY_ID = 'testcat123456789012345678';
+const TEST_TAG_ID = 'testtag123456789012345678';
+
+function makeTaskListRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_LIST_ID,
+    userId: TEST_USER_ID,
+    name: 'Work focus',
+    filters: { priority: ['high'] },
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+function mockSelectChain(...results: unknown[][]) {
+  for (const result of results) {
+    (db.select as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockResolvedValue(result),
+    });
+  }
+}
+
+function mockInsertChain(result: unknown[]) {
+  const chain = {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.insert as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockUpdateChain(result: unknown[]) {
+  const chain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.update as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockDeleteChain(result: unknown[]) {
+  const chain = {
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.delete as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('TaskListService', () => {
+  let service: TaskListService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new TaskListService();
+  });
+
+  // ─── createTaskList ─────────────────────────────────────────────
+
+  describe('createTaskList', () => {
+    it('should save the filters under the given name', async () => {
+      mockSelectChain([{ value: 2 }], [{ id: TEST_CATEGORY_ID }]);
+      (db.query.taskLists.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      const filters = { categoryIds: [TEST_CATEGORY_ID], tagIds: [TEST_TAG_ID] };
+      const chain = mockInsertChain([makeTaskListRow({ filters })]);
+
+      const result = await service.createTaskList(TEST_USER_ID, { name: 'Work focus', filters });
+
+      expect(result.filters).toEqual(filters);
+      expect(result.createdAt).toBe('2026-03-01T00:00:00.000Z');
+      expect(chain.values).toHaveBeenCalledWith({
+        userId: TEST_USER_ID,
+        name: 'Work focus',
+        filters,
+      });
+      expect(tagService.validateTagIds).toHaveBeenCalledWith(TEST_USER_ID, [TEST_TAG_ID]);
+    });
+
+    it('should reject a duplicate name with 409', async () => {
+      mockSelectChain([{ value: 2 }]);
+      (db.query.taskLists.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskListRow(),
+      );
+
+      await expect(
+        service.createTaskList(TEST_USER_ID, { name: 'Work focus', filters: {} }),
+      ).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the per-user limit', async () => {
+      mockSelectChain([{ value: 50 }]);
+
+      await expect(
+        service.createTaskList(TEST_USER_ID, { name: 'One more', filters: {} }),
+      ).rejects.toThrow(AppError);
+      expect(db.query.taskLists.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should reject a category the user doesn't own", async () => {
+      mockSelectChain([{ value: 0 }], []);
+      (db.query.taskLists.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(
+        service.createTaskList(TEST_USER_ID, {
+          name: 'Work focus',
+          filters: { categoryIds: [TEST_CATEGORY_ID] },
+        }),
+      ).rejects.toMatchObject({ statusCode: 404, message: 'Category not found' });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── updateTaskList ─────────────────────────────────────────────
+
+  describe('updateTaskList', () => {
+    it('should rename a list', async () => {
+      (db.query.taskLists.findFirst as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(makeTaskListRow())
+        .mockResolvedValueOnce(undefined);
+      const chain = mockUpdateChain([makeTaskListRow({ name: 'Deep work' })]);
+
+      const result = await service.updateTaskList(TEST_USER_ID, TEST_LIST_ID, {
+        name: 'Deep work',
+      });
+
+      expect(result.name).toBe('Deep work');
+      expect(chain.set).toHaveBeenCalledWith(expect.objectContaining({ name: 'Deep work' }));
+    });
+
+    it('should throw 404 for a missing list', async () => {
+      (db.query.taskLists.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(
+        service.updateTaskList(TEST_USER_ID, TEST_LIST_ID, { name: 'Deep work' }),
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  // ─── deleteTaskList ─────────────────────────────────────────────
+
+  describe('deleteTaskList', () => {
+    it('should delete an owned list', async () => {
+      mockDeleteChain([{ id: TEST_LIST_ID }]);
+
+      await expect(service.deleteTaskList(TEST_USER_ID, TEST_LIST_ID)).resolves.toBeUndefined();
+    });
+
+    it('should throw 404 when nothing was deleted', async () => {
+      mockDeleteChain([]);
+
+      await expect(service.deleteTaskList(TEST_USER_ID, TEST_LIST_ID)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+});
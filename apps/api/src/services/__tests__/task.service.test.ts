@@ -13,6 +13,16 @@ vi.mock('../../db', () => {
       calendarCategories: {
         findFirst: vi.fn(),
       },
+      // Tasks have no dependencies by default
+      taskDependencies: {
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+      users: {
+        findFirst: vi.fn(),
+      },
+      taskCompletions: {
+        findMany: vi.fn(),
+      },
     },
     select: vi.fn(),
     insert: vi.fn(),
@@ -45,6 +55,7 @@ vi.mock('../../lib/queue', () => ({
 vi.mock('../recurrence.service', () => ({
   recurrenceService: {
     validateRrule: vi.fn(),
+    nextDueAfterCompletion: vi.fn(),
   },
 }));
 
@@ -55,11 +66,26 @@ vi.mock('../sse.service', () => ({
   },
 }));
 
+// Mock tag service — items carry no tags by default
+vi.mock('../tag.service', () => ({
+  tagService: {
+    validateTagIds: vi.fn().mockResolvedValue(undefined),
+    setItemTags: vi.fn().mockResolvedValue(undefined),
+    copyItemTags: vi.fn().mockResolvedValue(undefined),
+    deleteItemTags: vi.fn().mockResolvedValue(undefined),
+    getItemTagIds: vi.fn().mockResolvedValue(new Map()),
+    taggedItemIds: vi.fn(() => 'tagged-subquery'),
+  },
+}));
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+
 import { db } from '../../db';
 import { AppError } from '../../lib/errors';
 import { reminderQueue } from '../../lib/queue';
 import { recurrenceService } from '../recurrence.service';
 import { sseService } from '../sse.service';
+import { tagService } from '../tag.service';
 import { TaskService } from '../task.service';
 
 // ─── Test Fixtures ──────────────────────────────────────────────────
@@ -83,6 +109,7 @@ function makeTaskRow(overrides: Record<string, unknown> = {}) {
     exDates: null,
     recurringTaskId: null,
     originalDate: null,
+    parentTaskId: null,
     sortOrder: 0,
     createdAt: new Date('2026-03-01T00:00:00Z'),
     updatedAt: new Date('2026-03-01T00:00:00Z'),
@@ -135,6 +162,16 @@ function mockUpdateChain(result: unknown[]) {
   return chain;
 }
 
+function mockSubtaskRows(rows: unknown[]) {
+  const chain = {
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockResolvedValue(rows),
+  };
+  (db.select as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
 // ─── Tests ──────────────────────────────────────────────────────────
 
 describe('TaskService', () => {
@@ -142,6 +179,7 @@ describe('TaskService', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockSubtaskRows([]);
     service = new TaskService();
   });
 
@@ -339,6 +377,24 @@ describe('TaskService', () => {
       });
     });
 
+    it('should reject repeating both on a schedule and after completion', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory(),
+      );
+      (recurrenceService.validateRrule as ReturnType<typeof vi.fn>).mockImplementation(() => {});
+
+      await expect(
+        service.createTask(TEST_USER_ID, {
+          title: 'Water plants',
+          categoryId: TEST_CATEGORY_ID,
+          priority: 'none',
+          rrule: 'FREQ=DAILY',
+          repeatAfter: 'FREQ=DAILY;INTERVAL=3',
+        }),
+      ).rejects.toMatchObject({ statusCode: 422, code: 'VALIDATION_ERROR' });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
     it('should accept valid RRULE string', async () => {
       const taskRow = makeTaskRow({ rrule: 'FREQ=WEEKLY;BYDAY=MO,WE,FR' });
       (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
@@ -398,6 +454,74 @@ describe('TaskService', () => {
       expect(db.update).toHaveBeenCalled();
     });
 
+    it('should finish a task that repeats after completion when its status is set to done', async () => {
+      const dueAt = new Date('2026-03-14T09:00:00Z');
+      const nextDueAt = new Date('2026-03-18T09:00:00Z');
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ repeatAfter: 'FREQ=DAILY;INTERVAL=3', dueAt }),
+      );
+      mockUpdateChain([
+        makeTaskRow({
+          repeatAfter: 'FREQ=DAILY;INTERVAL=3',
+          dueAt,
+          status: 'done',
+          completedAt: new Date('2026-03-15T12:00:00Z'),
+        }),
+      ]);
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        timezone: 'Europe/Berlin',
+      });
+      (recurrenceService.nextDueAfterCompletion as ReturnType<typeof vi.fn>).mockReturnValue(
+        nextDueAt,
+      );
+      const insertChain = { values: vi.fn().mockResolvedValue(undefined) };
+      const tx = {
+        insert: vi.fn().mockReturnValue(insertChain),
+        update: vi
+          .fn()
+          .mockReturnValueOnce({
+            set: vi.fn().mockReturnThis(),
+            where: vi.fn().mockResolvedValue(undefined),
+          })
+          .mockReturnValueOnce({
+            set: vi.fn().mockReturnThis(),
+            where: vi.fn().mockReturnThis(),
+            returning: vi
+              .fn()
+              .mockResolvedValue([
+                makeTaskRow({ repeatAfter: 'FREQ=DAILY;INTERVAL=3', dueAt: nextDueAt }),
+              ]),
+          }),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      const result = await service.updateTask(TEST_USER_ID, TEST_TASK_ID, { status: 'done' });
+
+      expect(result.status).toBe('todo');
+      expect(result.dueAt).toBe('2026-03-18T09:00:00.000Z');
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: TEST_TASK_ID, dueAt }),
+      );
+    });
+
+    it('should not repeat a task that was already done', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ repeatAfter: 'FREQ=DAILY;INTERVAL=3', status: 'done' }),
+      );
+      mockUpdateChain([
+        makeTaskRow({
+          repeatAfter: 'FREQ=DAILY;INTERVAL=3',
+          status: 'done',
+          completedAt: new Date(),
+        }),
+      ]);
+
+      const result = await service.updateTask(TEST_USER_ID, TEST_TASK_ID, { status: 'done' });
+
+      expect(result.status).toBe('done');
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
     it('should throw NOT_FOUND when updating non-existent task', async () => {
       (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
 
@@ -789,6 +913,65 @@ describe('TaskService', () => {
       expect(result.completedAt).toBeNull();
     });
 
+    it('should log a completion and bring back a task that repeats after completion', async () => {
+      const dueAt = new Date('2026-03-14T09:00:00Z');
+      const nextDueAt = new Date('2026-03-18T09:00:00Z');
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ repeatAfter: 'FREQ=DAILY;INTERVAL=3', dueAt }),
+      );
+      mockUpdateChain([
+        makeTaskRow({
+          repeatAfter: 'FREQ=DAILY;INTERVAL=3',
+          dueAt,
+          status: 'done',
+          completedAt: new Date('2026-03-15T12:00:00Z'),
+        }),
+      ]);
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        timezone: 'Europe/Berlin',
+      });
+      (recurrenceService.nextDueAfterCompletion as ReturnType<typeof vi.fn>).mockReturnValue(
+        nextDueAt,
+      );
+      const insertChain = { values: vi.fn().mockResolvedValue(undefined) };
+      const subtaskChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue(undefined),
+      };
+      const taskChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi
+          .fn()
+          .mockResolvedValue([
+            makeTaskRow({ repeatAfter: 'FREQ=DAILY;INTERVAL=3', dueAt: nextDueAt }),
+          ]),
+      };
+      const tx = {
+        insert: vi.fn().mockReturnValue(insertChain),
+        update: vi.fn().mockReturnValueOnce(subtaskChain).mockReturnValueOnce(taskChain),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      const result = await service.toggleTask(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(result.status).toBe('todo');
+      expect(result.completedAt).toBeNull();
+      expect(result.dueAt).toBe('2026-03-18T09:00:00.000Z');
+      expect(recurrenceService.nextDueAfterCompletion).toHaveBeenCalledWith(
+        'FREQ=DAILY;INTERVAL=3',
+        expect.any(Date),
+        dueAt,
+        'Europe/Berlin',
+      );
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: TEST_TASK_ID, dueAt }),
+      );
+      expect(taskChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'todo', completedAt: null, dueAt: nextDueAt }),
+      );
+    });
+
     it('should throw NOT_FOUND when toggling non-existent task', async () => {
       (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
 
@@ -1022,5 +1205,821 @@ describe('TaskService', () => {
         expect(db.query.tasks.findMany).toHaveBeenCalledTimes(2);
       }
     });
+
+    it("should resolve a smart list in the user's timezone", async () => {
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        timezone: 'America/New_York',
+      });
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([]);
+
+      await service.listTasks(TEST_USER_ID, { sort: 'due_at', list: 'today' });
+
+      expect(db.query.users.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ columns: { timezone: true } }),
+      );
+      expect(db.query.tasks.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not look up the timezone without a smart list', async () => {
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([]);
+
+      await service.listTasks(TEST_USER_ID, { sort: 'sort_order', categoryIds: [TEST_USER_ID] });
+
+      expect(db.query.users.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── listCompletions ────────────────────────────────────────────
+
+  describe('listCompletions', () => {
+    it("should return a task's completion history", async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: TEST_TASK_ID,
+      });
+      (db.query.taskCompletions.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        {
+          id: 'completion1',
+          taskId: TEST_TASK_ID,
+          completedAt: new Date('2026-03-15T12:00:00Z'),
+          dueAt: null,
+        },
+      ]);
+
+      const result = await service.listCompletions(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(result).toEqual([
+        {
+          id: 'completion1',
+          taskId: TEST_TASK_ID,
+          completedAt: '2026-03-15T12:00:00.000Z',
+          dueAt: null,
+        },
+      ]);
+    });
+
+    it('should throw 404 for a task the user does not own', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.listCompletions(TEST_USER_ID, TEST_TASK_ID)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(db.query.taskCompletions.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── getSmartListCounts ─────────────────────────────────────────
+
+  describe('getSmartListCounts', () => {
+    it('should return a count for every smart list', async () => {
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        timezone: 'Europe/Berlin',
+      });
+      const chain = {
+        from: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue([{ today: 2, upcoming: 5, overdue: 1, someday: 0 }]),
+      };
+      (db.select as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+
+      const result = await service.getSmartListCounts(TEST_USER_ID);
+
+      expect(result).toEqual({ today: 2, upcoming: 5, overdue: 1, someday: 0 });
+      expect(db.select).toHaveBeenCalledWith({
+        today: expect.anything(),
+        upcoming: expect.anything(),
+        overdue: expect.anything(),
+        someday: expect.anything(),
+      });
+    });
+
+    it('should leave archived tasks out of the counts, as the lists do', async () => {
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      const chain = {
+        from: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue([]),
+      };
+      (db.select as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+
+      await service.getSmartListCounts(TEST_USER_ID);
+
+      const { sql: where } = new PgDialect().sqlToQuery(chain.where.mock.calls[0][0]);
+      expect(where).toContain('"tasks"."archived_at" is null');
+    });
+
+    it('should fall back to zero counts and UTC for an unknown user', async () => {
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      (db.select as ReturnType<typeof vi.fn>).mockReturnValue({
+        from: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue([]),
+      });
+
+      const result = await service.getSmartListCounts(TEST_USER_ID);
+
+      expect(result).toEqual({ today: 0, upcoming: 0, overdue: 0, someday: 0 });
+    });
+  });
+
+  // ─── subtasks ───────────────────────────────────────────────────
+
+  describe('subtasks', () => {
+    const CHILD_ID = 'childtask12345678901234567';
+    const GRANDCHILD_ID = 'grandchild1234567890123456';
+
+    it('should roll up progress over nested subtasks', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      mockSubtaskRows([
+        makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID, status: 'done' }),
+        makeTaskRow({ id: GRANDCHILD_ID, parentTaskId: CHILD_ID }),
+      ]);
+
+      const result = await service.getTask(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(result.subtaskProgress).toEqual({ total: 2, done: 1 });
+    });
+
+    it('should list direct subtasks with their own progress', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      mockSubtaskRows([
+        makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID }),
+        makeTaskRow({ id: GRANDCHILD_ID, parentTaskId: CHILD_ID, status: 'done' }),
+      ]);
+
+      const result = await service.listSubtasks(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe(CHILD_ID);
+      expect(result[0].parentTaskId).toBe(TEST_TASK_ID);
+      expect(result[0].subtaskProgress).toEqual({ total: 1, done: 1 });
+    });
+
+    it('should reject a repeating subtask', async () => {
+      (recurrenceService.validateRrule as ReturnType<typeof vi.fn>).mockImplementation(() => {});
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory(),
+      );
+
+      await expect(
+        service.createTask(TEST_USER_ID, {
+          title: 'Daily step',
+          categoryId: TEST_CATEGORY_ID,
+          priority: 'none',
+          rrule: 'FREQ=DAILY',
+          parentTaskId: TEST_TASK_ID,
+        }),
+      ).rejects.toMatchObject({ statusCode: 422, code: 'VALIDATION_ERROR' });
+    });
+
+    it('should reject a parent nested too deep', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory(),
+      );
+      // TEST_TASK_ID → a → b → c: c already sits at the maximum depth
+      mockSubtaskRows([
+        makeTaskRow({ id: 'subtask_a_123456789012345', parentTaskId: TEST_TASK_ID }),
+        makeTaskRow({ id: 'subtask_b_123456789012345', parentTaskId: 'subtask_a_123456789012345' }),
+        makeTaskRow({ id: 'subtask_c_123456789012345', parentTaskId: 'subtask_b_123456789012345' }),
+      ]);
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ id: 'subtask_c_123456789012345', parentTaskId: 'subtask_b_123456789012345' }),
+      );
+
+      await expect(
+        service.createTask(TEST_USER_ID, {
+          title: 'Too deep',
+          categoryId: TEST_CATEGORY_ID,
+          priority: 'none',
+          parentTaskId: 'subtask_c_123456789012345',
+        }),
+      ).rejects.toMatchObject({ statusCode: 422, code: 'VALIDATION_ERROR' });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should create a subtask under its parent', async () => {
+      const subtaskRow = makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID });
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory(),
+      );
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      const tx = mockTransactionForInsert([subtaskRow]);
+
+      const result = await service.createTask(TEST_USER_ID, {
+        title: 'Step one',
+        categoryId: TEST_CATEGORY_ID,
+        priority: 'none',
+        parentTaskId: TEST_TASK_ID,
+      });
+
+      expect(result.parentTaskId).toBe(TEST_TASK_ID);
+      const insertValues = tx.insert.mock.results[0].value.values;
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({ parentTaskId: TEST_TASK_ID }),
+      );
+    });
+
+    it('should not move a task under one of its own subtasks', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(makeTaskRow()) // the task being moved
+        .mockResolvedValueOnce(makeTaskRow({ id: GRANDCHILD_ID, parentTaskId: CHILD_ID }));
+      mockSubtaskRows([
+        makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID }),
+        makeTaskRow({ id: GRANDCHILD_ID, parentTaskId: CHILD_ID }),
+      ]);
+
+      await expect(
+        service.updateTask(TEST_USER_ID, TEST_TASK_ID, { parentTaskId: GRANDCHILD_ID }),
+      ).rejects.toMatchObject({ statusCode: 422, code: 'VALIDATION_ERROR' });
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should complete open subtasks when asked to', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      const chain = mockUpdateChain([makeTaskRow({ status: 'done', completedAt: new Date() })]);
+      mockSubtaskRows([
+        makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID }),
+        makeTaskRow({ id: GRANDCHILD_ID, parentTaskId: CHILD_ID, status: 'done' }),
+      ]);
+
+      await service.toggleTask(TEST_USER_ID, TEST_TASK_ID, { completeSubtasks: true });
+
+      // The task itself, then its one open subtask
+      expect(db.update).toHaveBeenCalledTimes(2);
+      expect(chain.set).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'done' }));
+    });
+
+    it('should leave subtasks alone when reopening a task', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ status: 'done', completedAt: new Date() }),
+      );
+      mockUpdateChain([makeTaskRow()]);
+      mockSubtaskRows([makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID })]);
+
+      await service.toggleTask(TEST_USER_ID, TEST_TASK_ID, { completeSubtasks: true });
+
+      expect(db.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count only requested tasks when bulk deleting subtrees', async () => {
+      const chain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([{ id: TEST_TASK_ID }, { id: CHILD_ID }]),
+      };
+      (db.update as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+
+      const count = await service.bulkDelete(TEST_USER_ID, [TEST_TASK_ID]);
+
+      expect(count).toBe(1);
+    });
+
+    it('should copy subtasks onto an edited recurring instance', async () => {
+      const parentRow = makeTaskRow({ rrule: 'FREQ=DAILY' });
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(parentRow);
+      mockSubtaskRows([makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID })]);
+
+      const insertValues = vi.fn().mockReturnThis();
+      const tx = {
+        update: vi.fn().mockReturnValue({
+          set: vi.fn().mockReturnThis(),
+          where: vi.fn().mockResolvedValue(undefined),
+        }),
+        insert: vi.fn().mockReturnValue({
+          values: insertValues,
+          returning: vi
+            .fn()
+            .mockResolvedValueOnce([makeTaskRow({ id: 'exception12345678901234567' })])
+            .mockResolvedValueOnce([{ id: 'childcopy1234567890123456' }]),
+        }),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      const result = await service.updateTask(
+        TEST_USER_ID,
+        TEST_TASK_ID,
+        { title: 'Changed' },
+        'instance',
+        '2026-03-16T10:00:00Z',
+      );
+
+      expect(tx.insert).toHaveBeenCalledTimes(2);
+      expect(insertValues).toHaveBeenLastCalledWith(
+        expect.objectContaining({ parentTaskId: 'exception12345678901234567' }),
+      );
+      expect(result.subtaskProgress).toEqual({ total: 1, done: 0 });
+    });
+  });
+
+  // ─── Tags ───────────────────────────────────────────────────────
+
+  describe('tags', () => {
+    const TAG_ID = 'testtag123456789012345678';
+
+    it("should filter listings by tag and attach the user's tags", async () => {
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([makeTaskRow()])
+        .mockResolvedValueOnce([]);
+      (tagService.getItemTagIds as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+        new Map([[TEST_TASK_ID, [TAG_ID]]]),
+      );
+
+      const result = await service.listTasks(TEST_USER_ID, {
+        sort: 'created_at',
+        tagIds: [TAG_ID],
+      });
+
+      expect(result[0].tagIds).toEqual([TAG_ID]);
+      expect(tagService.taggedItemIds).toHaveBeenCalledWith(TEST_USER_ID, 'task', [TAG_ID]);
+    });
+
+    it('should tag a new task inside the create transaction', async () => {
+      (db.query.calendarCategories.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeCategory(),
+      );
+      const tx = mockTransactionForInsert([makeTaskRow()]);
+
+      const result = await service.createTask(TEST_USER_ID, {
+        title: 'Test Task',
+        categoryId: TEST_CATEGORY_ID,
+        priority: 'none',
+        tagIds: [TAG_ID],
+      });
+
+      expect(tagService.validateTagIds).toHaveBeenCalledWith(TEST_USER_ID, [TAG_ID]);
+      expect(tagService.setItemTags).toHaveBeenCalledWith(
+        TEST_USER_ID,
+        'task',
+        TEST_TASK_ID,
+        [TAG_ID],
+        tx,
+      );
+      expect(result.tagIds).toEqual([TAG_ID]);
+    });
+
+    it('should carry the series tags onto an edited recurring instance', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ rrule: 'FREQ=DAILY' }),
+      );
+      const tx = {
+        update: vi.fn().mockReturnValue({
+          set: vi.fn().mockReturnThis(),
+          where: vi.fn().mockResolvedValue(undefined),
+        }),
+        insert: vi.fn().mockReturnValue({
+          values: vi.fn().mockReturnThis(),
+          returning: vi.fn().mockResolvedValue([makeTaskRow({ id: 'exception12345678901234567' })]),
+        }),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      await service.updateTask(
+        TEST_USER_ID,
+        TEST_TASK_ID,
+        { title: 'Changed' },
+        'instance',
+        '2026-03-16T10:00:00Z',
+      );
+
+      expect(tagService.copyItemTags).toHaveBeenCalledWith(
+        'task',
+        TEST_TASK_ID,
+        'exception12345678901234567',
+        tx,
+      );
+      expect(tagService.setItemTags).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── Focus blocks ───────────────────────────────────────────────
+
+  describe('focus blocks', () => {
+    const SCHEDULED_AT = new Date('2026-03-15T10:00:00Z');
+    const CHILD_ID = 'childtask12345678901234567';
+
+    it('should mark the focus block done when its task is toggled done', async () => {
+      const completedAt = new Date('2026-03-15T12:00:00Z');
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ scheduledAt: SCHEDULED_AT }),
+      );
+      const chain = mockUpdateChain([
+        makeTaskRow({ status: 'done', completedAt, scheduledAt: SCHEDULED_AT }),
+      ]);
+
+      const result = await service.toggleTask(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(result.scheduledAt).toBe('2026-03-15T10:00:00.000Z');
+      expect(db.update).toHaveBeenCalledTimes(2);
+      expect(chain.set).toHaveBeenLastCalledWith(
+        expect.objectContaining({ completedAt: expect.any(Date) }),
+      );
+    });
+
+    it('should reopen the focus block when its task is reopened', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ status: 'in_progress', scheduledAt: SCHEDULED_AT }),
+      );
+      const chain = mockUpdateChain([
+        makeTaskRow({ status: 'in_progress', completedAt: null, scheduledAt: SCHEDULED_AT }),
+      ]);
+
+      await service.updateTask(TEST_USER_ID, TEST_TASK_ID, { status: 'in_progress' });
+
+      expect(chain.set).toHaveBeenLastCalledWith(expect.objectContaining({ completedAt: null }));
+    });
+
+    it('should not touch events for tasks without a focus block', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      mockUpdateChain([makeTaskRow({ status: 'done', completedAt: new Date() })]);
+
+      await service.toggleTask(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(db.update).toHaveBeenCalledTimes(1);
+    });
+
+    it("should mark subtasks' focus blocks done when they finish with their task", async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      mockSubtaskRows([makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID })]);
+      const chain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi
+          .fn()
+          .mockResolvedValueOnce([makeTaskRow({ status: 'done', completedAt: new Date() })])
+          .mockResolvedValueOnce([{ id: CHILD_ID, scheduledAt: SCHEDULED_AT }]),
+      };
+      (db.update as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+
+      await service.toggleTask(TEST_USER_ID, TEST_TASK_ID, { completeSubtasks: true });
+
+      // The task, its subtask, then the subtask's focus block
+      expect(db.update).toHaveBeenCalledTimes(3);
+      expect(chain.set).toHaveBeenLastCalledWith(
+        expect.objectContaining({ completedAt: expect.any(Date) }),
+      );
+    });
+
+    it('should mark focus blocks done when bulk completing', async () => {
+      const chain = mockUpdateChain([
+        { id: TEST_TASK_ID, scheduledAt: SCHEDULED_AT },
+        { id: 'task_b_12345678901234567890', scheduledAt: null },
+      ]);
+
+      await service.bulkComplete(TEST_USER_ID, [TEST_TASK_ID, 'task_b_12345678901234567890']);
+
+      expect(db.update).toHaveBeenCalledTimes(2);
+      expect(chain.set).toHaveBeenLastCalledWith(
+        expect.objectContaining({ completedAt: expect.any(Date) }),
+      );
+    });
+  });
+
+  // ─── Dependencies ───────────────────────────────────────────────
+
+  describe('dependencies', () => {
+    const BLOCKER_ID = 'blocker123456789012345678';
+    const CHILD_ID = 'childtask12345678901234567';
+
+    function makeDependency(taskId: string, blocker: Record<string, unknown> = {}) {
+      return {
+        taskId,
+        blocker: {
+          id: BLOCKER_ID,
+          title: 'Book venue',
+          status: 'todo',
+          deletedAt: null,
+          ...blocker,
+        },
+      };
+    }
+
+    it('should list the blockers of each task, leaving out deleted ones', async () => {
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([makeTaskRow()])
+        .mockResolvedValueOnce([]);
+      (db.query.taskDependencies.findMany as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        makeDependency(TEST_TASK_ID),
+        makeDependency(TEST_TASK_ID, { id: 'gone', deletedAt: new Date() }),
+      ]);
+
+      const result = await service.listTasks(TEST_USER_ID, { sort: 'sort_order' });
+
+      expect(result[0].blockedBy).toEqual([
+        { id: BLOCKER_ID, title: 'Book venue', status: 'todo' },
+      ]);
+    });
+
+    it('should reject a task blocking itself', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+
+      await expect(
+        service.updateTask(TEST_USER_ID, TEST_TASK_ID, { blockedByIds: [TEST_TASK_ID] }),
+      ).rejects.toMatchObject({ statusCode: 422, code: 'VALIDATION_ERROR' });
+    });
+
+    it('should reject a blocker the user does not own', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>).mockResolvedValueOnce([]);
+
+      await expect(
+        service.updateTask(TEST_USER_ID, TEST_TASK_ID, { blockedByIds: [BLOCKER_ID] }),
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should reject dependencies that form a cycle', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        { id: BLOCKER_ID, title: 'Book venue', status: 'todo' },
+      ]);
+      // The blocker already waits on a task that waits on this one
+      (db.query.taskDependencies.findMany as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        makeDependency(BLOCKER_ID, { id: 'middle12345678901234567890' }),
+        makeDependency('middle12345678901234567890', { id: TEST_TASK_ID }),
+      ]);
+
+      await expect(
+        service.updateTask(TEST_USER_ID, TEST_TASK_ID, { blockedByIds: [BLOCKER_ID] }),
+      ).rejects.toMatchObject({
+        statusCode: 422,
+        message: 'Task dependencies cannot form a cycle',
+      });
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should replace the blockers of a task', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        { id: BLOCKER_ID, title: 'Book venue', status: 'todo' },
+      ]);
+      mockUpdateChain([makeTaskRow()]);
+      const insertChain = { values: vi.fn().mockResolvedValue(undefined) };
+      const tx = {
+        delete: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+        insert: vi.fn().mockReturnValue(insertChain),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      await service.updateTask(TEST_USER_ID, TEST_TASK_ID, { blockedByIds: [BLOCKER_ID] });
+
+      expect(tx.delete).toHaveBeenCalled();
+      expect(insertChain.values).toHaveBeenCalledWith([
+        { userId: TEST_USER_ID, taskId: TEST_TASK_ID, blockedByTaskId: BLOCKER_ID },
+      ]);
+    });
+
+    it('should refuse to complete a blocked task when enforcement is on', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      (db.query.taskDependencies.findMany as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        makeDependency(TEST_TASK_ID),
+      ]);
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        enforceTaskDependencies: true,
+      });
+
+      await expect(service.toggleTask(TEST_USER_ID, TEST_TASK_ID)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'CONFLICT',
+      });
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should let a blocked task start when enforcement is off', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      (db.query.taskDependencies.findMany as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        makeDependency(TEST_TASK_ID),
+      ]);
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        enforceTaskDependencies: false,
+      });
+      mockUpdateChain([makeTaskRow({ status: 'in_progress' })]);
+
+      const result = await service.updateTask(TEST_USER_ID, TEST_TASK_ID, {
+        status: 'in_progress',
+      });
+
+      expect(result.status).toBe('in_progress');
+    });
+
+    it('should refuse to complete subtasks that wait on other open tasks', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      mockSubtaskRows([makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID })]);
+      (db.query.taskDependencies.findMany as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([]) // the task itself is free to finish
+        .mockResolvedValueOnce([makeDependency(CHILD_ID)]);
+      (db.query.users.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({
+        enforceTaskDependencies: true,
+      });
+
+      await expect(
+        service.toggleTask(TEST_USER_ID, TEST_TASK_ID, { completeSubtasks: true }),
+      ).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'Some subtasks are blocked by unfinished tasks',
+      });
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should not count the parent as blocking subtasks completed with it', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+      mockSubtaskRows([makeTaskRow({ id: CHILD_ID, parentTaskId: TEST_TASK_ID })]);
+      (db.query.taskDependencies.findMany as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([makeDependency(CHILD_ID, { id: TEST_TASK_ID })]);
+      mockUpdateChain([makeTaskRow({ status: 'done', completedAt: new Date() })]);
+
+      await service.toggleTask(TEST_USER_ID, TEST_TASK_ID, { completeSubtasks: true });
+
+      expect(db.update).toHaveBeenCalledTimes(2);
+      expect(db.query.users.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should not count blockers completed in the same bulk action', async () => {
+      (db.query.taskDependencies.findMany as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        makeDependency(TEST_TASK_ID),
+      ]);
+      mockUpdateChain([
+        { id: TEST_TASK_ID, scheduledAt: null },
+        { id: BLOCKER_ID, scheduledAt: null },
+      ]);
+
+      const count = await service.bulkComplete(TEST_USER_ID, [TEST_TASK_ID, BLOCKER_ID]);
+
+      expect(count).toBe(2);
+      expect(db.query.users.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── Archive & completed history ────────────────────────────────
+
+  describe('archive', () => {
+    it('should archive a done task', async () => {
+      const archivedAt = new Date('2026-03-20T12:00:00Z');
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ status: 'done', completedAt: new Date('2026-03-19T12:00:00Z') }),
+      );
+      const chain = mockUpdateChain([makeTaskRow({ status: 'done', archivedAt })]);
+
+      const result = await service.archiveTask(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(result.archivedAt).toBe(archivedAt.toISOString());
+      expect(chain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ archivedAt: expect.any(Date) }),
+      );
+      expect(sseService.emit).toHaveBeenCalledWith(TEST_USER_ID, 'task:updated', {
+        id: TEST_TASK_ID,
+        archivedAt: archivedAt.toISOString(),
+      });
+    });
+
+    it('should refuse to archive an open task', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(makeTaskRow());
+
+      await expect(service.archiveTask(TEST_USER_ID, TEST_TASK_ID)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'CONFLICT',
+      });
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should unarchive a task when it is reopened', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ status: 'done', archivedAt: new Date() }),
+      );
+      const chain = mockUpdateChain([makeTaskRow()]);
+
+      await service.toggleTask(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(chain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'todo', archivedAt: null }),
+      );
+    });
+
+    it('should page through completed tasks', async () => {
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeTaskRow({ status: 'done', completedAt: new Date('2026-03-19T12:00:00Z') }),
+      ]);
+      const countChain = {
+        from: vi.fn().mockReturnThis(),
+        where: vi.fn().mockResolvedValue([{ total: 21 }]),
+      };
+      (db.select as ReturnType<typeof vi.fn>).mockReturnValueOnce(countChain);
+
+      const result = await service.listCompletedTasks(TEST_USER_ID, { page: 2, limit: 10 });
+
+      expect(result).toMatchObject({ page: 2, limit: 10, total: 21, hasMore: true });
+      expect(result.tasks).toHaveLength(1);
+      expect(db.query.tasks.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ limit: 10, offset: 10 }),
+      );
+    });
+  });
+
+  // ─── Trash ──────────────────────────────────────────────────────
+
+  describe('trash', () => {
+    const deletedAt = new Date('2026-03-10T00:00:00Z');
+
+    it('should list only the top of each deleted subtree with its purge date', async () => {
+      (db.query.tasks.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        makeTaskRow({ deletedAt }),
+        makeTaskRow({ id: 'subtask123456789012345678', parentTaskId: TEST_TASK_ID, deletedAt }),
+      ]);
+
+      const result = await service.listDeletedTasks(TEST_USER_ID);
+
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: TEST_TASK_ID,
+          deletedAt: deletedAt.toISOString(),
+          purgeAt: '2026-04-09T00:00:00.000Z',
+        }),
+      ]);
+    });
+
+    it('should restore a deleted task with everything deleted alongside it', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeTaskRow({ deletedAt }),
+      );
+      const txChain = {
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([makeTaskRow()]),
+      };
+      const tx = { update: vi.fn().mockReturnValue(txChain) };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+
+      const result = await service.restoreTask(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(result.deletedAt).toBeNull();
+      // Recurring exceptions first, then the task and its subtasks
+      expect(tx.update).toHaveBeenCalledTimes(2);
+      expect(txChain.set).toHaveBeenCalledWith(expect.objectContaining({ deletedAt: null }));
+      expect(sseService.emit).toHaveBeenCalledWith(TEST_USER_ID, 'task:created', {
+        id: TEST_TASK_ID,
+      });
+    });
+
+    it('should not restore a subtask while its parent is still deleted', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(
+          makeTaskRow({ parentTaskId: 'parent1234567890123456789', deletedAt }),
+        )
+        .mockResolvedValueOnce({ deletedAt });
+
+      await expect(service.restoreTask(TEST_USER_ID, TEST_TASK_ID)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'CONFLICT',
+      });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw 404 when restoring a task that is not in the trash', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.restoreTask(TEST_USER_ID, TEST_TASK_ID)).rejects.toThrow(AppError);
+    });
+
+    const SUBTASK_ID = 'testsubtask12345678901234';
+    const NESTED_ID = 'testnested123456789012345';
+
+    function mockPurge(deleted: { id: string }[]) {
+      // Each level of subtasks and instances, then nothing further down
+      const selectWhere = vi
+        .fn()
+        .mockResolvedValueOnce([{ id: SUBTASK_ID }])
+        .mockResolvedValueOnce([{ id: NESTED_ID }])
+        .mockResolvedValue([]);
+      const tx = {
+        select: vi.fn().mockReturnValue({ from: vi.fn().mockReturnThis(), where: selectWhere }),
+        delete: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnThis(),
+          returning: vi.fn().mockResolvedValue(deleted),
+        }),
+      };
+      (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(async (fn) => fn(tx));
+      return tx;
+    }
+
+    it("should permanently delete a task from the trash with its subtasks' tags", async () => {
+      const tx = mockPurge([{ id: TEST_TASK_ID }]);
+
+      await service.purgeTask(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(tx.delete).toHaveBeenCalled();
+      expect(tagService.deleteItemTags).toHaveBeenCalledWith(
+        'task',
+        [TEST_TASK_ID, SUBTASK_ID, NESTED_ID],
+        tx,
+      );
+    });
+
+    it('should throw 404 when purging a task that is not in the trash', async () => {
+      mockPurge([]);
+
+      await expect(service.purgeTask(TEST_USER_ID, TEST_TASK_ID)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(tagService.deleteItemTags).not.toHaveBeenCalled();
+    });
   });
 });
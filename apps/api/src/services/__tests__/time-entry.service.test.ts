@@ -0,0 +1,283 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ─── Mock modules before importing the service ──────────────────────
+
+// Mock the database module
+vi.mock('../../db', () => {
+  const mockDb = {
+    query: {
+      tasks: {
+        findFirst: vi.fn(),
+      },
+      timeEntries: {
+        findFirst: vi.fn(),
+        findMany: vi.fn(),
+      },
+    },
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  };
+
+  return { db: mockDb };
+});
+
+// Mock logger
+vi.mock('../../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import { db } from '../../db';
+import { TimeEntryService } from '../time-entry.service';
+
+// ─── Test Fixtures ──────────────────────────────────────────────────
+
+const TEST_USER_ID = 'testuser12345678901234567';
+const TEST_TASK_ID = 'testtask123456789012345678';
+const OTHER_TASK_ID = 'othertask12345678901234567';
+const TEST_ENTRY_ID = 'testentry12345678901234567';
+
+function makeEntryRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TEST_ENTRY_ID,
+    userId: TEST_USER_ID,
+    taskId: TEST_TASK_ID,
+    startedAt: new Date('2026-03-02T09:00:00Z'),
+    endedAt: new Date('2026-03-02T10:00:00Z'),
+    createdAt: new Date('2026-03-02T10:00:00Z'),
+    updatedAt: new Date('2026-03-02T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ─── Helpers for mocking chained Drizzle queries ────────────────────
+
+function mockSelectChain(result: unknown[]) {
+  const chain = {
+    from: vi.fn().mockReturnThis(),
+    innerJoin: vi.fn().mockReturnThis(),
+    where: vi.fn().mockResolvedValue(result),
+  };
+  (db.select as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockUpdateChain(result: unknown[]) {
+  const chain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(result),
+  };
+  (db.update as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+  return chain;
+}
+
+function mockTransaction(inserted: unknown) {
+  const updateChain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockResolvedValue(undefined),
+  };
+  const insertChain = {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue([inserted]),
+  };
+  const tx = {
+    update: vi.fn().mockReturnValue(updateChain),
+    insert: vi.fn().mockReturnValue(insertChain),
+  };
+  (db.transaction as ReturnType<typeof vi.fn>).mockImplementation(
+    async (fn: (t: typeof tx) => Promise<unknown>) => fn(tx),
+  );
+  return { tx, updateChain, insertChain };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────
+
+describe('TimeEntryService', () => {
+  let service: TimeEntryService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new TimeEntryService();
+    (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue({ id: TEST_TASK_ID });
+  });
+
+  // ─── Timer ──────────────────────────────────────────────────────
+
+  describe('startTimer', () => {
+    it('should start a timer on the task', async () => {
+      (db.query.timeEntries.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+      const { tx, insertChain } = mockTransaction(makeEntryRow({ endedAt: null }));
+
+      const result = await service.startTimer(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(result.endedAt).toBeNull();
+      expect(tx.update).not.toHaveBeenCalled();
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: TEST_USER_ID, taskId: TEST_TASK_ID }),
+      );
+    });
+
+    it('should stop a timer running on another task first', async () => {
+      (db.query.timeEntries.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEntryRow({ id: 'running', taskId: OTHER_TASK_ID, endedAt: null }),
+      );
+      const { tx, updateChain } = mockTransaction(makeEntryRow({ endedAt: null }));
+
+      await service.startTimer(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(tx.update).toHaveBeenCalled();
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ endedAt: expect.any(Date) }),
+      );
+    });
+
+    it('should reject starting a timer that is already running', async () => {
+      (db.query.timeEntries.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEntryRow({ endedAt: null }),
+      );
+
+      await expect(service.startTimer(TEST_USER_ID, TEST_TASK_ID)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'CONFLICT',
+      });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw 404 for a task the user does not own', async () => {
+      (db.query.tasks.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+      await expect(service.startTimer(TEST_USER_ID, TEST_TASK_ID)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('stopTimer', () => {
+    it('should end the running session', async () => {
+      mockUpdateChain([makeEntryRow()]);
+
+      const result = await service.stopTimer(TEST_USER_ID, TEST_TASK_ID);
+
+      expect(result.endedAt).toBe('2026-03-02T10:00:00.000Z');
+    });
+
+    it('should reject stopping a timer that is not running', async () => {
+      mockUpdateChain([]);
+
+      await expect(service.stopTimer(TEST_USER_ID, TEST_TASK_ID)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'CONFLICT',
+      });
+    });
+  });
+
+  // ─── updateEntry ────────────────────────────────────────────────
+
+  describe('updateEntry', () => {
+    it('should reject a start after the existing end', async () => {
+      (db.query.timeEntries.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEntryRow(),
+      );
+
+      await expect(
+        service.updateEntry(TEST_USER_ID, TEST_ENTRY_ID, {
+          startedAt: '2026-03-02T11:00:00.000Z',
+        }),
+      ).rejects.toMatchObject({ statusCode: 422, code: 'VALIDATION_ERROR' });
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it('should end a running session', async () => {
+      (db.query.timeEntries.findFirst as ReturnType<typeof vi.fn>).mockResolvedValue(
+        makeEntryRow({ endedAt: null }),
+      );
+      const chain = mockUpdateChain([makeEntryRow()]);
+
+      await service.updateEntry(TEST_USER_ID, TEST_ENTRY_ID, {
+        endedAt: '2026-03-02T10:00:00.000Z',
+      });
+
+      expect(chain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ endedAt: new Date('2026-03-02T10:00:00.000Z') }),
+      );
+    });
+  });
+
+  // ─── getReport ──────────────────────────────────────────────────
+
+  describe('getReport', () => {
+    it('should total time by category and task, clipping sessions to the range', async () => {
+      mockSelectChain([
+        {
+          // 08:30–09:30 straddles the start: only 30 minutes count
+          taskId: TEST_TASK_ID,
+          startedAt: new Date('2026-03-02T08:30:00Z'),
+          endedAt: new Date('2026-03-02T09:30:00Z'),
+          title: 'Write report',
+          categoryId: 'cat-work',
+        },
+        {
+          taskId: TEST_TASK_ID,
+          startedAt: new Date('2026-03-02T10:00:00Z'),
+          endedAt: new Date('2026-03-02T10:45:00Z'),
+          title: 'Write report',
+          categoryId: 'cat-work',
+        },
+        {
+          taskId: OTHER_TASK_ID,
+          startedAt: new Date('2026-03-02T12:00:00Z'),
+          endedAt: new Date('2026-03-02T12:20:00Z'),
+          title: 'Water plants',
+          categoryId: 'cat-home',
+        },
+      ]);
+
+      const report = await service.getReport(TEST_USER_ID, {
+        start: '2026-03-02T09:00:00.000Z',
+        end: '2026-03-03T00:00:00.000Z',
+      });
+
+      expect(report.totalMinutes).toBe(95);
+      expect(report.categories).toEqual([
+        { categoryId: 'cat-work', minutes: 75 },
+        { categoryId: 'cat-home', minutes: 20 },
+      ]);
+      expect(report.tasks[0]).toEqual({
+        taskId: TEST_TASK_ID,
+        title: 'Write report',
+        categoryId: 'cat-work',
+        minutes: 75,
+      });
+    });
+
+    it('should count a running timer up to now', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-03-02T10:15:00Z'));
+      mockSelectChain([
+        {
+          taskId: TEST_TASK_ID,
+          startedAt: new Date('2026-03-02T10:00:00Z'),
+          endedAt: null,
+          title: 'Write report',
+          categoryId: 'cat-work',
+        },
+      ]);
+
+      const report = await service.getReport(TEST_USER_ID, {
+        start: '2026-03-02T00:00:00.000Z',
+        end: '2026-03-03T00:00:00.000Z',
+      });
+
+      expect(report.totalMinutes).toBe(15);
+      vi.useRealTimers();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+import { and, asc, eq } from 'drizzle-orm';
+
+import { db } from '../db';
+import { appPasswords, users } from '../db/schema';
+import { AppError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { auditService } from './audit.service';
+
+import type { CreateAppPasswordInput } from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+interface AppPasswordRow {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface AppPasswordResponse {
+  id: string;
+  name: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface AppPasswordWithSecretResponse extends AppPasswordResponse {
+  password: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Upper bound on app passwords per user */
+const MAX_APP_PASSWORDS = 20;
+
+/** Only update lastUsedAt if more than 5 minutes since last update */
+const USE_UPDATE_THROTTLE_MS = 5 * 60 * 1000;
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function hashPassword(password: string): string {
+  return createHash('sha256').update(password).digest('hex');
+}
+
+function generatePassword(): string {
+  // 128-bit random value, hex-encoded in groups of 8 so it can be typed on a phone
+  return randomBytes(16).toString('hex').match(/.{8}/g)!.join('-');
+}
+
+function toAppPasswordResponse(row: AppPasswordRow): AppPasswordResponse {
+  return {
+    id: row.id,
+    name: row.name,
+    lastUsedAt: row.lastUsedAt ? row.lastUsedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class AppPasswordService {
+  /**
+   * List all app passwords for a user. Secrets are never returned here.
+   */
+  async listAppPasswords(userId: string): Promise<AppPasswordResponse[]> {
+    const rows = await db.query.appPasswords.findMany({
+      where: eq(appPasswords.userId, userId),
+      orderBy: [asc(appPasswords.createdAt)],
+    });
+
+    return rows.map((r) => toAppPasswordResponse(r as AppPasswordRow));
+  }
+
+  /**
+   * Create an app password for signing in to CalDAV clients.
+   * The generated password is returned once and only its hash is stored.
+   */
+  async createAppPassword(
+    userId: string,
+    data: CreateAppPasswordInput,
+  ): Promise<AppPasswordWithSecretResponse> {
+    const existing = await db.query.appPasswords.findMany({
+      where: eq(appPasswords.userId, userId),
+      columns: { id: true },
+    });
+
+    if (existing.length >= MAX_APP_PASSWORDS) {
+      throw new AppError(
+        422,
+        'VALIDATION_ERROR',
+        `You can have at most ${MAX_APP_PASSWORDS} app passwords`,
+      );
+    }
+
+    const password = generatePassword();
+
+    const [created] = await db
+      .insert(appPasswords)
+      .values({
+        userId,
+        name: data.name,
+        tokenHash: hashPassword(password),
+      })
+      .returning();
+
+    logger.info({ userId, appPasswordId: created.id }, 'App password created');
+
+    auditService.log({
+      action: 'app_password.created',
+      userId,
+      entityType: 'app_password',
+      entityId: created.id,
+    });
+
+    return { ...toAppPasswordResponse(created as AppPasswordRow), password };
+  }
+
+  /**
+   * Revoke (hard delete) an app password. Clients using it are signed out
+   * on their next request.
+   */
+  async revokeAppPassword(userId: string, appPasswordId: string): Promise<void> {
+    const deleted = await db
+      .delete(appPasswords)
+      .where(and(eq(appPasswords.id, appPasswordId), eq(appPasswords.userId, userId)))
+      .returning({ id: appPasswords.id });
+
+    if (deleted.length === 0) {
+      throw new AppError(404, 'NOT_FOUND', 'App password not found');
+    }
+
+    logger.info({ userId, appPasswordId }, 'App password revoked');
+
+    auditService.log({
+      action: 'app_password.revoked',
+      userId,
+      entityType: 'app_password',
+      entityId: appPasswordId,
+    });
+  }
+
+  /**
+   * Verify HTTP Basic credentials. The username is the account email and the
+   * password must be one of that user's app passwords (never the account
+   * password). Returns the user ID, or null if the credentials are invalid.
+   */
+  async verifyCredentials(email: string, password: string): Promise<string | null> {
+    const row = await db.query.appPasswords.findFirst({
+      where: eq(appPasswords.tokenHash, hashPassword(password.trim())),
+    });
+
+    if (!row) return null;
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, row.userId),
+      columns: { id: true, email: true },
+    });
+
+    if (!user || user.email !== email.trim().toLowerCase()) return null;
+
+    this.touchAppPassword(row as AppPasswordRow);
+
+    return user.id;
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  /**
+   * Throttled, fire-and-forget update of lastUsedAt so client polling
+   * doesn't cause a write on every request.
+   */
+  private touchAppPassword(row: AppPasswordRow): void {
+    const lastUse = row.lastUsedAt?.getTime() ?? 0;
+    if (Date.now() - lastUse <= USE_UPDATE_THROTTLE_MS) return;
+
+    db.update(appPasswords)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(appPasswords.id, row.id))
+      .execute()
+      .catch(() => {
+        // Non-critical — swallow errors silently
+      });
+  }
+}
+
+export const appPasswordService = new AppPasswordService();
@@ -0,0 +1,478 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { and, asc, eq, isNull, sql } from 'drizzle-orm';
+
+import { db } from '../db';
+import { eventAttendees, events, users } from '../db/schema';
+import { eventInvitationEmail } from '../emails/event-invitation';
+import { sendEmail } from '../lib/email';
+import { getFrontendUrl } from '../lib/env';
+import { AppError } from '../lib/errors';
+import { buildCalendar, buildVEvent } from '../lib/ics';
+import { logger } from '../lib/logger';
+import { generateToken, hashToken } from '../lib/tokens';
+import { sseService } from './sse.service';
+
+import type { IcsEvent } from '../lib/ics';
+import type { AddAttendeeInput, RsvpResponseInput, UpdateAttendeeInput } from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+interface AttendeeRow {
+  id: string;
+  eventId: string;
+  userId: string;
+  email: string;
+  name: string | null;
+  role: string;
+  status: string;
+  rsvpTokenHash: string;
+  respondedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface AttendeeResponse {
+  id: string;
+  eventId: string;
+  email: string;
+  name: string | null;
+  role: string;
+  status: string;
+  respondedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface RsvpInvitationResponse {
+  event: {
+    title: string;
+    location: string | null;
+    startAt: string;
+    endAt: string;
+    timezone: string | null;
+    isAllDay: boolean;
+    rrule: string | null;
+  };
+  organizer: { name: string; email: string };
+  attendee: { email: string; name: string | null; status: string };
+}
+
+type InvitationEvent = typeof events.$inferSelect;
+
+interface Organizer {
+  id: string;
+  name: string;
+  email: string;
+  timezone: string;
+}
+
+type InvitationKind = 'invitation' | 'update' | 'cancellation';
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Upper bound on attendees per event */
+const MAX_ATTENDEES_PER_EVENT = 100;
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function toAttendeeResponse(row: AttendeeRow): AttendeeResponse {
+  return {
+    id: row.id,
+    eventId: row.eventId,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    status: row.status,
+    respondedAt: row.respondedAt ? row.respondedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toInvitationResponse(
+  attendee: AttendeeRow,
+  event: InvitationEvent,
+  organizer: Organizer,
+): RsvpInvitationResponse {
+  return {
+    event: {
+      title: event.title,
+      location: event.location,
+      startAt: event.startAt.toISOString(),
+      endAt: event.endAt.toISOString(),
+      timezone: event.timezone,
+      isAllDay: event.isAllDay,
+      rrule: event.rrule,
+    },
+    organizer: { name: organizer.name, email: organizer.email },
+    attendee: { email: attendee.email, name: attendee.name, status: attendee.status },
+  };
+}
+
+/**
+ * Human-readable event time for invitation emails, in the event's own
+ * timezone (or the organizer's, for events pinned to UTC).
+ */
+function formatInvitationTime(event: InvitationEvent, organizerTimeZone: string): string {
+  if (event.isAllDay) return formatInTimeZone(event.startAt, 'UTC', 'EEEE, MMMM d, yyyy');
+  const timeZone = event.timezone ?? organizerTimeZone;
+  return formatInTimeZone(event.startAt, timeZone, "EEEE, MMMM d, yyyy 'at' h:mm a zzz");
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class AttendeeService {
+  /**
+   * List an event's attendees in the order they were invited.
+   */
+  async listAttendees(userId: string, eventId: string): Promise<AttendeeResponse[]> {
+    await this.getOwnedEvent(userId, eventId);
+
+    const rows = await db.query.eventAttendees.findMany({
+      where: eq(eventAttendees.eventId, eventId),
+      orderBy: [asc(eventAttendees.createdAt)],
+    });
+
+    return rows.map((r) => toAttendeeResponse(r as AttendeeRow));
+  }
+
+  /**
+   * Invite someone to an event. The invitee is emailed an iTIP REQUEST
+   * with a link to respond.
+   */
+  async addAttendee(
+    userId: string,
+    eventId: string,
+    data: AddAttendeeInput,
+  ): Promise<AttendeeResponse> {
+    const event = await this.getOwnedEvent(userId, eventId);
+    const organizer = await this.getOrganizer(userId);
+
+    if (data.email === organizer.email) {
+      throw new AppError(422, 'VALIDATION_ERROR', 'You are already the organizer of this event');
+    }
+
+    const existing = await db.query.eventAttendees.findMany({
+      where: eq(eventAttendees.eventId, eventId),
+      columns: { email: true },
+    });
+
+    if (existing.some((a) => a.email === data.email)) {
+      throw new AppError(409, 'CONFLICT', 'This person is already invited');
+    }
+
+    if (existing.length >= MAX_ATTENDEES_PER_EVENT) {
+      throw new AppError(
+        422,
+        'VALIDATION_ERROR',
+        `An event can have at most ${MAX_ATTENDEES_PER_EVENT} attendees`,
+      );
+    }
+
+    const [created] = await db
+      .insert(eventAttendees)
+      .values({
+        eventId,
+        userId,
+        email: data.email,
+        name: data.name ?? null,
+        role: data.role,
+        // Replaced when the invitation is sent
+        rsvpTokenHash: hashToken(generateToken()),
+      })
+      .returning();
+
+    logger.info({ userId, eventId, attendeeId: created.id }, 'Attendee added');
+
+    const attendees = await this.getAttendeeRows(eventId);
+    this.sendInvitations('invitation', event, organizer, attendees, [created as AttendeeRow]);
+
+    return toAttendeeResponse(created as AttendeeRow);
+  }
+
+  /**
+   * Change an attendee's display name or role. The attendee is sent an
+   * updated invitation.
+   */
+  async updateAttendee(
+    userId: string,
+    eventId: string,
+    attendeeId: string,
+    data: UpdateAttendeeInput,
+  ): Promise<AttendeeResponse> {
+    const event = await this.getOwnedEvent(userId, eventId);
+
+    const [updated] = await db
+      .update(eventAttendees)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.role !== undefined && { role: data.role }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(eventAttendees.id, attendeeId), eq(eventAttendees.eventId, eventId)))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(404, 'NOT_FOUND', 'Attendee not found');
+    }
+
+    logger.info({ userId, eventId, attendeeId }, 'Attendee updated');
+
+    const organizer = await this.getOrganizer(userId);
+    const attendees = await this.getAttendeeRows(eventId);
+    this.sendInvitations('update', event, organizer, attendees, [updated as AttendeeRow]);
+
+    return toAttendeeResponse(updated as AttendeeRow);
+  }
+
+  /**
+   * Uninvite an attendee. They are sent an iTIP CANCEL so the event is
+   * removed from their calendar.
+   */
+  async removeAttendee(userId: string, eventId: string, attendeeId: string): Promise<void> {
+    const event = await this.getOwnedEvent(userId, eventId);
+
+    const [deleted] = await db
+      .delete(eventAttendees)
+      .where(and(eq(eventAttendees.id, attendeeId), eq(eventAttendees.eventId, eventId)))
+      .returning();
+
+    if (!deleted) {
+      throw new AppError(404, 'NOT_FOUND', 'Attendee not found');
+    }
+
+    logger.info({ userId, eventId, attendeeId }, 'Attendee removed');
+
+    const organizer = await this.getOrganizer(userId);
+    this.sendInvitations(
+      'cancellation',
+      event,
+      organizer,
+      [deleted as AttendeeRow],
+      [deleted as AttendeeRow],
+    );
+  }
+
+  /**
+   * Send every attendee an updated invitation after the event itself
+   * changed. Bumps the event's iTIP SEQUENCE so clients replace their copy.
+   * A no-op for events without attendees.
+   */
+  async notifyEventUpdated(userId: string, eventId: string): Promise<void> {
+    const attendees = await this.getAttendeeRows(eventId);
+    if (attendees.length === 0) return;
+
+    const [event] = await db
+      .update(events)
+      .set({ sequence: sql`${events.sequence} + 1` })
+      .where(and(eq(events.id, eventId), eq(events.userId, userId), isNull(events.deletedAt)))
+      .returning();
+    if (!event) return;
+
+    const organizer = await this.getOrganizer(userId);
+    this.sendInvitations('update', event, organizer, attendees, attendees);
+  }
+
+  /**
+   * Send every attendee an iTIP CANCEL after the event was deleted.
+   * Looks the event up regardless of its soft-delete state.
+   */
+  async notifyEventCancelled(userId: string, eventId: string): Promise<void> {
+    const attendees = await this.getAttendeeRows(eventId);
+    if (attendees.length === 0) return;
+
+    const event = await db.query.events.findFirst({
+      where: and(eq(events.id, eventId), eq(events.userId, userId)),
+    });
+    if (!event) return;
+
+    const organizer = await this.getOrganizer(userId);
+    this.sendInvitations('cancellation', event, organizer, attendees, attendees);
+  }
+
+  /**
+   * Look up an invitation by the token in its RSVP link.
+   */
+  async getInvitation(token: string): Promise<RsvpInvitationResponse> {
+    const { attendee, event, organizer } = await this.getInvitationByToken(token);
+    return toInvitationResponse(attendee, event, organizer);
+  }
+
+  /**
+   * Record an attendee's response from their RSVP link and notify the
+   * organizer in real time.
+   */
+  async respond(token: string, data: RsvpResponseInput): Promise<RsvpInvitationResponse> {
+    const { attendee, event, organizer } = await this.getInvitationByToken(token);
+
+    const [updated] = await db
+      .update(eventAttendees)
+      .set({ status: data.status, respondedAt: new Date(), updatedAt: new Date() })
+      .where(eq(eventAttendees.id, attendee.id))
+      .returning();
+
+    logger.info(
+      { eventId: event.id, attendeeId: attendee.id, status: data.status },
+      'Attendee responded',
+    );
+
+    sseService.emit(event.userId, 'event:rsvp', {
+      eventId: event.id,
+      attendeeId: attendee.id,
+      email: attendee.email,
+      name: attendee.name,
+      title: event.title,
+      status: data.status,
+    });
+
+    return toInvitationResponse(updated as AttendeeRow, event, organizer);
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  /**
+   * Load an event the user owns, or throw NOT_FOUND.
+   */
+  private async getOwnedEvent(userId: string, eventId: string): Promise<InvitationEvent> {
+    const event = await db.query.events.findFirst({
+      where: and(eq(events.id, eventId), eq(events.userId, userId), isNull(events.deletedAt)),
+    });
+
+    if (!event) {
+      throw new AppError(404, 'NOT_FOUND', 'Event not found');
+    }
+
+    return event;
+  }
+
+  private async getOrganizer(userId: string): Promise<Organizer> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { id: true, name: true, email: true, timezone: true },
+    });
+
+    if (!user) {
+      throw new AppError(404, 'NOT_FOUND', 'User not found');
+    }
+
+    return user;
+  }
+
+  private async getAttendeeRows(eventId: string): Promise<AttendeeRow[]> {
+    const rows = await db.query.eventAttendees.findMany({
+      where: eq(eventAttendees.eventId, eventId),
+      orderBy: [asc(eventAttendees.createdAt)],
+    });
+    return rows as AttendeeRow[];
+  }
+
+  /**
+   * Resolve an RSVP token to its attendee, event and organizer. Links for
+   * deleted events, or superseded by a newer invitation, are NOT_FOUND.
+   */
+  private async getInvitationByToken(token: string): Promise<{
+    attendee: AttendeeRow;
+    event: InvitationEvent;
+    organizer: Organizer;
+  }> {
+    const attendee = await db.query.eventAttendees.findFirst({
+      where: eq(eventAttendees.rsvpTokenHash, hashToken(token)),
+    });
+
+    const event = attendee
+      ? await db.query.events.findFirst({
+          where: and(eq(events.id, attendee.eventId), isNull(events.deletedAt)),
+        })
+      : undefined;
+
+    if (!attendee || !event) {
+      throw new AppError(404, 'NOT_FOUND', 'Invitation not found');
+    }
+
+    const organizer = await this.getOrganizer(event.userId);
+
+    return { attendee: attendee as AttendeeRow, event, organizer };
+  }
+
+  /**
+   * Email iTIP messages (RFC 6047) to the given recipients, fire-and-forget.
+   * Each REQUEST carries a fresh RSVP link; earlier links for that attendee
+   * stop working, so only the newest invitation can be answered.
+   */
+  private sendInvitations(
+    kind: InvitationKind,
+    event: InvitationEvent,
+    organizer: Organizer,
+    attendees: AttendeeRow[],
+    recipients: AttendeeRow[],
+  ): void {
+    const method = kind === 'cancellation' ? 'CANCEL' : 'REQUEST';
+    const icsEvent: IcsEvent = {
+      ...event,
+      organizer: { email: organizer.email, name: organizer.name },
+      attendees,
+      sequence: event.sequence,
+      status: kind === 'cancellation' ? 'CANCELLED' : 'CONFIRMED',
+    };
+    const ics = buildCalendar(buildVEvent(icsEvent), { method });
+    const time = formatInvitationTime(event, organizer.timezone);
+
+    for (const recipient of recipients) {
+      this.sendInvitation(kind, event, organizer, recipient, ics, time).catch((err) => {
+        logger.error(
+          { err, eventId: event.id, attendeeId: recipient.id },
+          'Failed to send event invitation email',
+        );
+      });
+    }
+  }
+
+  private async sendInvitation(
+    kind: InvitationKind,
+    event: InvitationEvent,
+    organizer: Organizer,
+    recipient: AttendeeRow,
+    ics: string,
+    time: string,
+  ): Promise<void> {
+    let rsvpUrl: string | null = null;
+
+    if (kind !== 'cancellation') {
+      const token = generateToken();
+      await db
+        .update(eventAttendees)
+        .set({ rsvpTokenHash: hashToken(token) })
+        .where(eq(eventAttendees.id, recipient.id));
+      rsvpUrl = `${getFrontendUrl()}/rsvp/${token}`;
+    }
+
+    const subjectPrefix =
+      kind === 'invitation' ? 'Invitation' : kind === 'update' ? 'Updated invitation' : 'Cancelled';
+    const { html, text } = eventInvitationEmail({
+      kind,
+      title: event.title,
+      time,
+      location: event.location,
+      organizerName: organizer.name,
+      rsvpUrl,
+    });
+
+    await sendEmail({
+      to: recipient.email,
+      subject: `${subjectPrefix}: ${event.title}`,
+      html,
+      text,
+      attachments: [
+        {
+          filename: kind === 'cancellation' ? 'cancel.ics' : 'invite.ics',
+          content: ics,
+          contentType: `text/calendar; charset=utf-8; method=${
+            kind === 'cancellation' ? 'CANCEL' : 'REQUEST'
+          }`,
+        },
+      ],
+    });
+  }
+}
+
+export const attendeeService = new AttendeeService();
@@ -1,9 +1,9 @@
-import { createHash, randomBytes } from 'node:crypto';
+import { createHash } from 'node:crypto';
 
 import argon2 from 'argon2';
 import { and, asc, eq, gte, isNull, ne, sql } from 'drizzle-orm';
 
-import { DEFAULT_CATEGORY_COLOR } from '@calley/shared';
+import { DEFAULT_CATEGORY_COLOR, DEFAULT_WORKING_HOURS } from '@calley/shared';
 
 import { db } from '../db';
 import {
@@ -19,6 +19,7 @@ import { sendEmail } from '../lib/email';
 import { AppError } from '../lib/errors';
 import { logger } from '../lib/logger';
 import { lucia } from '../lib/lucia';
+import { generateToken, hashToken } from '../lib/tokens';
 import { auditService } from './audit.service';
 
 import type {
@@ -71,13 +72,9 @@ function hashIpAddress(ip: string): string {
   return createHash('sha256').update(ip).digest('hex').slice(0, 16);
 }
 
-function hashToken(token: string): string {
-  return createHash('sha256').update(token).digest('hex');
-}
-
 function stripSensitiveFields(user: typeof users.$inferSelect) {
   const { passwordHash: _, failedLogins: __, lockedUntil: ___, ...safeUser } = user;
-  return safeUser;
+  return { ...safeUser, workingHours: user.workingHours ?? DEFAULT_WORKING_HOURS };
 }
 
 async function enforceMaxSessions(userId: string): Promise<void> {
@@ -323,8 +320,7 @@ export class AuthService {
       return;
     }
 
-    // Generate a cryptographically random token (256-bit)
-    const rawToken = randomBytes(32).toString('hex');
+    const rawToken = generateToken();
     const tokenHash = hashToken(rawToken);
 
     const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_EXPIRY_MS);
@@ -459,7 +455,8 @@ export class AuthService {
   }
 
   /**
-   * Update the current user's profile (name, timezone, weekStart, timeFormat).
+   * Update the current user's profile (name, timezone, weekStart, timeFormat,
+   * workingHours, holidayCalendars).
    */
   async updateProfile(
     userId: string,
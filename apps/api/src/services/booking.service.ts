@@ -0,0 +1,823 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { and, asc, count, eq, gte, lt, ne, sql } from 'drizzle-orm';
+
+import { db } from '../db';
+import { appointmentTypes, bookings, calendarCategories, events, users } from '../db/schema';
+import { bookingConfirmationEmail } from '../emails/booking-confirmation';
+import { sendEmail } from '../lib/email';
+import { getFrontendUrl } from '../lib/env';
+import { AppError } from '../lib/errors';
+import { buildCalendar, buildVEvent } from '../lib/ics';
+import { logger } from '../lib/logger';
+import { fromWallClock, toWallClock } from '../lib/timezone';
+import { generateToken, hashToken } from '../lib/tokens';
+import { getWorkingIntervals, resolveWorkingHours } from '../lib/working-hours';
+import { eventService } from './event.service';
+
+import type { Transaction } from '../db';
+import type {
+  BookingSlotsQuery,
+  CreateAppointmentTypeInput,
+  CreateBookingInput,
+  RescheduleBookingInput,
+  UpdateAppointmentTypeInput,
+  WorkingHours,
+} from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+type AppointmentTypeRow = typeof appointmentTypes.$inferSelect;
+
+type BookingRow = typeof bookings.$inferSelect;
+
+interface Host {
+  id: string;
+  name: string;
+  email: string;
+  timezone: string;
+  workingHours: WorkingHours | null;
+}
+
+interface AppointmentTypeResponse {
+  id: string;
+  userId: string;
+  categoryId: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  location: string | null;
+  durationMinutes: number;
+  bufferMinutes: number;
+  minNoticeMinutes: number;
+  maxPerDay: number | null;
+  availability: WorkingHours | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface BookingPageResponse {
+  slug: string;
+  name: string;
+  description: string | null;
+  location: string | null;
+  durationMinutes: number;
+  host: { name: string };
+}
+
+interface BookingSlotResponse {
+  start: string;
+  end: string;
+}
+
+interface BookingSlotsResponse {
+  start: string;
+  end: string;
+  slots: BookingSlotResponse[];
+}
+
+interface BookingResponse {
+  status: 'confirmed' | 'cancelled';
+  startAt: string;
+  endAt: string;
+  guest: { name: string; email: string };
+  notes: string | null;
+  timezone: string | null;
+  page: BookingPageResponse;
+}
+
+interface BookingWithTokenResponse extends BookingResponse {
+  token: string;
+}
+
+/** A booking with everything needed to show or change it */
+interface LoadedBooking {
+  booking: BookingRow;
+  type: AppointmentTypeRow;
+  host: Host;
+  /** False once cancelled by the guest, or if the host deleted the event */
+  isActive: boolean;
+}
+
+type BookingEmailKind = 'confirmed' | 'rescheduled' | 'cancelled';
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Upper bound on appointment types per user */
+const MAX_APPOINTMENT_TYPES_PER_USER = 50;
+
+/** Slots never start more than this far apart, however long they are */
+const MAX_SLOT_INCREMENT_MINUTES = 30;
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function toAppointmentTypeResponse(row: AppointmentTypeRow): AppointmentTypeResponse {
+  return {
+    id: row.id,
+    userId: row.userId,
+    categoryId: row.categoryId,
+    name: row.name,
+    slug: row.slug,
+    description: row.description,
+    location: row.location,
+    durationMinutes: row.durationMinutes,
+    bufferMinutes: row.bufferMinutes,
+    minNoticeMinutes: row.minNoticeMinutes,
+    maxPerDay: row.maxPerDay,
+    availability: row.availability,
+    isActive: row.isActive,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toBookingPageResponse(type: AppointmentTypeRow, host: Host): BookingPageResponse {
+  return {
+    slug: type.slug,
+    name: type.name,
+    description: type.description,
+    location: type.location,
+    durationMinutes: type.durationMinutes,
+    host: { name: host.name },
+  };
+}
+
+function toBookingResponse(loaded: LoadedBooking): BookingResponse {
+  const { booking, type, host, isActive } = loaded;
+  return {
+    status: isActive ? 'confirmed' : 'cancelled',
+    startAt: booking.startAt.toISOString(),
+    endAt: booking.endAt.toISOString(),
+    guest: { name: booking.guestName, email: booking.guestEmail },
+    notes: booking.notes,
+    timezone: booking.guestTimezone,
+    page: toBookingPageResponse(type, host),
+  };
+}
+
+/** The local calendar day a time falls on, for per-day booking limits */
+function getDayKey(date: Date, timeZone: string): number {
+  return Math.floor(toWallClock(date, timeZone).getTime() / DAY_MS);
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class BookingService {
+  // ─── Appointment Types ──────────────────────────────────────────────
+
+  /**
+   * List the user's appointment types, oldest first.
+   */
+  async listAppointmentTypes(userId: string): Promise<AppointmentTypeResponse[]> {
+    const rows = await db.query.appointmentTypes.findMany({
+      where: eq(appointmentTypes.userId, userId),
+      orderBy: [asc(appointmentTypes.createdAt)],
+    });
+
+    return rows.map(toAppointmentTypeResponse);
+  }
+
+  /**
+   * Create an appointment type. Its slug is the public booking page's
+   * address, so it must be unique across all users.
+   */
+  async createAppointmentType(
+    userId: string,
+    data: CreateAppointmentTypeInput,
+  ): Promise<AppointmentTypeResponse> {
+    await this.assertOwnsCategory(userId, data.categoryId);
+    await this.assertSlugAvailable(data.slug);
+
+    const [countResult] = await db
+      .select({ value: count() })
+      .from(appointmentTypes)
+      .where(eq(appointmentTypes.userId, userId));
+
+    if (countResult.value >= MAX_APPOINTMENT_TYPES_PER_USER) {
+      throw new AppError(
+        422,
+        'VALIDATION_ERROR',
+        `You can have at most ${MAX_APPOINTMENT_TYPES_PER_USER} appointment types`,
+      );
+    }
+
+    const [created] = await db
+      .insert(appointmentTypes)
+      .values({
+        userId,
+        categoryId: data.categoryId,
+        name: data.name,
+        slug: data.slug,
+        description: data.description ?? null,
+        location: data.location ?? null,
+        durationMinutes: data.durationMinutes,
+        bufferMinutes: data.bufferMinutes,
+        minNoticeMinutes: data.minNoticeMinutes,
+        maxPerDay: data.maxPerDay,
+        availability: data.availability,
+        isActive: data.isActive,
+      })
+      .returning();
+
+    logger.info({ userId, appointmentTypeId: created.id }, 'Appointment type created');
+
+    return toAppointmentTypeResponse(created);
+  }
+
+  /**
+   * Update an appointment type. Existing bookings keep their times.
+   */
+  async updateAppointmentType(
+    userId: string,
+    id: string,
+    data: UpdateAppointmentTypeInput,
+  ): Promise<AppointmentTypeResponse> {
+    if (data.categoryId !== undefined) {
+      await this.assertOwnsCategory(userId, data.categoryId);
+    }
+    if (data.slug !== undefined) {
+      await this.assertSlugAvailable(data.slug, id);
+    }
+
+    const [updated] = await db
+      .update(appointmentTypes)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(appointmentTypes.id, id), eq(appointmentTypes.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(404, 'NOT_FOUND', 'Appointment type not found');
+    }
+
+    logger.info({ userId, appointmentTypeId: id }, 'Appointment type updated');
+
+    return toAppointmentTypeResponse(updated);
+  }
+
+  /**
+   * Delete an appointment type and its booking records. Events already
+   * booked stay on the calendar.
+   */
+  async deleteAppointmentType(userId: string, id: string): Promise<void> {
+    const [deleted] = await db
+      .delete(appointmentTypes)
+      .where(and(eq(appointmentTypes.id, id), eq(appointmentTypes.userId, userId)))
+      .returning();
+
+    if (!deleted) {
+      throw new AppError(404, 'NOT_FOUND', 'Appointment type not found');
+    }
+
+    logger.info({ userId, appointmentTypeId: id }, 'Appointment type deleted');
+  }
+
+  // ─── Public Booking Pages ───────────────────────────────────────────
+
+  /**
+   * What a visitor sees on a booking page.
+   */
+  async getBookingPage(slug: string): Promise<BookingPageResponse> {
+    const { type, host } = await this.getActivePage(slug);
+    return toBookingPageResponse(type, host);
+  }
+
+  /**
+   * Open slots on a booking page within a range.
+   */
+  async getAvailableSlots(slug: string, query: BookingSlotsQuery): Promise<BookingSlotsResponse> {
+    const { type, host } = await this.getActivePage(slug);
+    const start = new Date(query.start);
+    const end = new Date(query.end);
+
+    const slots = await this.findOpenSlots(db, type, host, start, end);
+
+    return {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      slots: slots.map((slot) => ({
+        start: slot.toISOString(),
+        end: new Date(slot.getTime() + type.durationMinutes * MINUTE_MS).toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Book a slot: the host gets an event in the appointment type's
+   * calendar and the visitor a confirmation email with a link to
+   * reschedule or cancel.
+   */
+  async book(slug: string, data: CreateBookingInput): Promise<BookingWithTokenResponse> {
+    const { type, host } = await this.getActivePage(slug);
+    const startAt = new Date(data.startAt);
+    const endAt = new Date(startAt.getTime() + type.durationMinutes * MINUTE_MS);
+    const token = generateToken();
+
+    const booking = await this.withHostLock(host.id, async (tx) => {
+      await this.assertSlotOpen(tx, type, host, startAt);
+
+      const event = await eventService.createEvent(
+        host.id,
+        {
+          title: `${type.name} with ${data.name}`,
+          description: this.describeBooking(data.name, data.email, data.notes ?? null),
+          location: type.location,
+          startAt: startAt.toISOString(),
+          endAt: endAt.toISOString(),
+          timezone: resolveWorkingHours(this.getAvailabilityOwner(type, host)).timezone,
+          isAllDay: false,
+          categoryId: type.categoryId,
+          visibility: 'private',
+        },
+        tx,
+      );
+
+      const [inserted] = await tx
+        .insert(bookings)
+        .values({
+          appointmentTypeId: type.id,
+          userId: host.id,
+          eventId: event.id,
+          guestName: data.name,
+          guestEmail: data.email,
+          guestTimezone: data.timezone ?? null,
+          notes: data.notes ?? null,
+          startAt,
+          endAt,
+          tokenHash: hashToken(token),
+        })
+        .returning();
+      return inserted;
+    });
+
+    logger.info(
+      { userId: host.id, appointmentTypeId: type.id, bookingId: booking.id },
+      'Booking created',
+    );
+
+    const loaded: LoadedBooking = { booking, type, host, isActive: true };
+    this.sendBookingEmail('confirmed', loaded, 0, token);
+
+    return { ...toBookingResponse(loaded), token };
+  }
+
+  /**
+   * Look up a booking by the token in its manage link.
+   */
+  async getBooking(token: string): Promise<BookingResponse> {
+    return toBookingResponse(await this.getBookingByToken(token));
+  }
+
+  /**
+   * Cancel a booking from its manage link. The host's event is deleted.
+   */
+  async cancelBooking(token: string): Promise<BookingResponse> {
+    const loaded = await this.getBookingByToken(token);
+    this.assertBookingActive(loaded);
+
+    const [booking] = await db
+      .update(bookings)
+      .set({ status: 'cancelled', cancelledAt: new Date(), updatedAt: new Date() })
+      .where(eq(bookings.id, loaded.booking.id))
+      .returning();
+
+    if (loaded.booking.eventId) {
+      await eventService.deleteEvent(loaded.host.id, loaded.booking.eventId);
+    }
+
+    logger.info({ userId: loaded.host.id, bookingId: booking.id }, 'Booking cancelled');
+
+    const cancelled: LoadedBooking = { ...loaded, booking, isActive: false };
+    this.sendBookingEmail('cancelled', cancelled, null, null);
+
+    return toBookingResponse(cancelled);
+  }
+
+  /**
+   * Move a booking to another open slot from its manage link. The host's
+   * event moves with it.
+   */
+  async rescheduleBooking(token: string, data: RescheduleBookingInput): Promise<BookingResponse> {
+    const loaded = await this.getBookingByToken(token);
+    this.assertBookingActive(loaded);
+
+    const { type, host } = loaded;
+    if (!type.isActive) {
+      throw new AppError(409, 'CONFLICT', 'This booking page is no longer taking bookings');
+    }
+
+    const startAt = new Date(data.startAt);
+    const endAt = new Date(startAt.getTime() + type.durationMinutes * MINUTE_MS);
+
+    const eventId = loaded.booking.eventId!;
+    const { booking, sequence } = await this.withHostLock(host.id, async (tx) => {
+      await this.assertSlotOpen(tx, type, host, startAt, loaded.booking);
+
+      const [updated] = await tx
+        .update(bookings)
+        .set({ startAt, endAt, updatedAt: new Date() })
+        .where(eq(bookings.id, loaded.booking.id))
+        .returning();
+
+      await eventService.updateEvent(
+        host.id,
+        eventId,
+        { startAt: startAt.toISOString(), endAt: endAt.toISOString() },
+        undefined,
+        undefined,
+        false,
+        tx,
+      );
+
+      // Bump the iTIP SEQUENCE so the guest's calendar replaces its copy
+      const [event] = await tx
+        .update(events)
+        .set({ sequence: sql`${events.sequence} + 1` })
+        .where(eq(events.id, eventId))
+        .returning({ sequence: events.sequence });
+
+      return { booking: updated, sequence: event?.sequence ?? 0 };
+    });
+
+    logger.info({ userId: host.id, bookingId: booking.id }, 'Booking rescheduled');
+
+    const rescheduled: LoadedBooking = { ...loaded, booking };
+    this.sendBookingEmail('rescheduled', rescheduled, sequence, token);
+
+    return toBookingResponse(rescheduled);
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  private async assertOwnsCategory(userId: string, categoryId: string): Promise<void> {
+    const category = await db.query.calendarCategories.findFirst({
+      where: and(eq(calendarCategories.id, categoryId), eq(calendarCategories.userId, userId)),
+      columns: { id: true },
+    });
+
+    if (!category) {
+      throw new AppError(404, 'NOT_FOUND', 'Category not found');
+    }
+  }
+
+  private async assertSlugAvailable(slug: string, exceptId?: string): Promise<void> {
+    const existing = await db.query.appointmentTypes.findFirst({
+      where: exceptId
+        ? and(eq(appointmentTypes.slug, slug), ne(appointmentTypes.id, exceptId))
+        : eq(appointmentTypes.slug, slug),
+      columns: { id: true },
+    });
+
+    if (existing) {
+      throw new AppError(409, 'CONFLICT', 'This booking link is already taken');
+    }
+  }
+
+  private async getHost(userId: string): Promise<Host> {
+    const host = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { id: true, name: true, email: true, timezone: true, workingHours: true },
+    });
+
+    if (!host) {
+      throw new AppError(404, 'NOT_FOUND', 'User not found');
+    }
+
+    return host;
+  }
+
+  /**
+   * Load a booking page that is taking bookings. Paused pages look the
+   * same as missing ones.
+   */
+  private async getActivePage(slug: string): Promise<{ type: AppointmentTypeRow; host: Host }> {
+    const type = await db.query.appointmentTypes.findFirst({
+      where: and(eq(appointmentTypes.slug, slug), eq(appointmentTypes.isActive, true)),
+    });
+
+    if (!type) {
+      throw new AppError(404, 'NOT_FOUND', 'Booking page not found');
+    }
+
+    return { type, host: await this.getHost(type.userId) };
+  }
+
+  /**
+   * Resolve a manage-link token. A booking whose event the host deleted
+   * counts as cancelled.
+   */
+  private async getBookingByToken(token: string): Promise<LoadedBooking> {
+    const booking = await db.query.bookings.findFirst({
+      where: eq(bookings.tokenHash, hashToken(token)),
+    });
+
+    const type = booking
+      ? await db.query.appointmentTypes.findFirst({
+          where: eq(appointmentTypes.id, booking.appointmentTypeId),
+        })
+      : undefined;
+
+    if (!booking || !type) {
+      throw new AppError(404, 'NOT_FOUND', 'Booking not found');
+    }
+
+    const event = booking.eventId
+      ? await db.query.events.findFirst({
+          where: eq(events.id, booking.eventId),
+          columns: { deletedAt: true },
+        })
+      : undefined;
+
+    return {
+      booking,
+      type,
+      host: await this.getHost(booking.userId),
+      isActive: booking.status === 'confirmed' && !!event && event.deletedAt === null,
+    };
+  }
+
+  private assertBookingActive(loaded: LoadedBooking): void {
+    if (!loaded.isActive) {
+      throw new AppError(409, 'CONFLICT', 'This booking has been cancelled');
+    }
+  }
+
+  /** Whose working hours apply when the appointment type has none of its own */
+  private getAvailabilityOwner(
+    type: AppointmentTypeRow,
+    host: Host,
+  ): { timezone: string; workingHours: WorkingHours | null } {
+    return { timezone: host.timezone, workingHours: type.availability ?? host.workingHours };
+  }
+
+  /**
+   * Start times within [start, end) when the appointment fits inside the
+   * host's availability, clear of their events by the buffer on either
+   * side, at least the minimum notice from now, and on days that haven't
+   * reached the daily limit. `rescheduling` is left out of the busy time
+   * and the daily counts, so a booking can move within its own day.
+   */
+  private async findOpenSlots(
+    tx: Transaction | typeof db,
+    type: AppointmentTypeRow,
+    host: Host,
+    start: Date,
+    end: Date,
+    rescheduling?: BookingRow,
+  ): Promise<Date[]> {
+    const durationMs = type.durationMinutes * MINUTE_MS;
+    const bufferMs = type.bufferMinutes * MINUTE_MS;
+    const incrementMs = Math.min(type.durationMinutes, MAX_SLOT_INCREMENT_MINUTES) * MINUTE_MS;
+    const earliest = Date.now() + type.minNoticeMinutes * MINUTE_MS;
+
+    const hours = resolveWorkingHours(this.getAvailabilityOwner(type, host));
+    const intervals = getWorkingIntervals(hours, start, end);
+    if (intervals.length === 0) return [];
+
+    const busy = await this.getBusyPeriods(
+      tx,
+      host,
+      new Date(start.getTime() - bufferMs),
+      new Date(end.getTime() + bufferMs),
+      rescheduling?.eventId ?? null,
+    );
+    const bookedPerDay = type.maxPerDay
+      ? await this.countBookingsPerDay(tx, type, hours.timezone, start, end, rescheduling?.id)
+      : new Map<number, number>();
+
+    const slots: Date[] = [];
+
+    for (const interval of intervals) {
+      for (
+        let t = interval.start.getTime();
+        t + durationMs <= interval.end.getTime();
+        t += incrementMs
+      ) {
+        if (t < earliest || t < start.getTime() || t + durationMs > end.getTime()) continue;
+
+        const blockStart = t - bufferMs;
+        const blockEnd = t + durationMs + bufferMs;
+        if (busy.some((p) => p.start.getTime() < blockEnd && p.end.getTime() > blockStart)) {
+          continue;
+        }
+
+        const slot = new Date(t);
+        if (
+          type.maxPerDay &&
+          (bookedPerDay.get(getDayKey(slot, hours.timezone)) ?? 0) >= type.maxPerDay
+        ) {
+          continue;
+        }
+
+        slots.push(slot);
+      }
+    }
+
+    return slots.sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  /**
+   * The host's own events as busy periods. All-day events block the
+   * host's whole local day, as they do for free/busy.
+   */
+  private async getBusyPeriods(
+    tx: Transaction | typeof db,
+    host: Host,
+    start: Date,
+    end: Date,
+    ignoreEventId: string | null,
+  ): Promise<{ start: Date; end: Date }[]> {
+    const hostEvents = await eventService.listEvents(
+      host.id,
+      start.toISOString(),
+      end.toISOString(),
+      undefined,
+      undefined,
+      tx,
+    );
+
+    return hostEvents
+      .filter((event) => event.userId === host.id && event.id !== ignoreEventId)
+      .map((event) => {
+        const eventStart = new Date(event.startAt);
+        const eventEnd = new Date(event.endAt);
+        return event.isAllDay
+          ? {
+              start: fromWallClock(eventStart, host.timezone),
+              end: fromWallClock(eventEnd, host.timezone),
+            }
+          : { start: eventStart, end: eventEnd };
+      });
+  }
+
+  /**
+   * Confirmed bookings of this type per local day around the range.
+   */
+  private async countBookingsPerDay(
+    tx: Transaction | typeof db,
+    type: AppointmentTypeRow,
+    timeZone: string,
+    start: Date,
+    end: Date,
+    exceptBookingId?: string,
+  ): Promise<Map<number, number>> {
+    const rows = await tx.query.bookings.findMany({
+      where: and(
+        eq(bookings.appointmentTypeId, type.id),
+        eq(bookings.status, 'confirmed'),
+        gte(bookings.startAt, new Date(start.getTime() - DAY_MS)),
+        lt(bookings.startAt, new Date(end.getTime() + DAY_MS)),
+        ...(exceptBookingId ? [ne(bookings.id, exceptBookingId)] : []),
+      ),
+      columns: { startAt: true },
+    });
+
+    const counts = new Map<number, number>();
+    for (const row of rows) {
+      const day = getDayKey(row.startAt, timeZone);
+      counts.set(day, (counts.get(day) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Run a slot check and the writes that take the slot while holding a
+   * lock on the host's bookings, so two visitors can't both find a slot
+   * open and book it, or go past the daily limit. The lock is per host, as
+   * every appointment type books into the same calendar. `fn` does all its
+   * reads and writes on the locking transaction, so they commit or roll
+   * back together.
+   */
+  private async withHostLock<T>(hostId: string, fn: (tx: Transaction) => Promise<T>): Promise<T> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`booking:${hostId}`}))`);
+      return fn(tx);
+    });
+  }
+
+  /**
+   * Throw CONFLICT unless `startAt` is one of the page's open slots.
+   */
+  private async assertSlotOpen(
+    tx: Transaction,
+    type: AppointmentTypeRow,
+    host: Host,
+    startAt: Date,
+    rescheduling?: BookingRow,
+  ): Promise<void> {
+    // A day either side covers the working interval the slot falls in
+    const slots = await this.findOpenSlots(
+      tx,
+      type,
+      host,
+      new Date(startAt.getTime() - DAY_MS),
+      new Date(startAt.getTime() + DAY_MS),
+      rescheduling,
+    );
+
+    if (!slots.some((slot) => slot.getTime() === startAt.getTime())) {
+      throw new AppError(409, 'CONFLICT', 'This time is no longer available');
+    }
+  }
+
+  /** Plain-text event description telling the host who booked */
+  private describeBooking(name: string, email: string, notes: string | null): string {
+    return [`Booked by ${name} (${email})`, notes].filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * Email the guest, fire-and-forget, with an iTIP attachment for their
+   * calendar. `sequence` is null for cancellations, which reuse the
+   * event's current one.
+   */
+  private sendBookingEmail(
+    kind: BookingEmailKind,
+    loaded: LoadedBooking,
+    sequence: number | null,
+    token: string | null,
+  ): void {
+    const { booking, type, host } = loaded;
+
+    const send = async () => {
+      const currentSequence =
+        sequence ??
+        (booking.eventId
+          ? ((
+              await db.query.events.findFirst({
+                where: eq(events.id, booking.eventId),
+                columns: { sequence: true },
+              })
+            )?.sequence ?? 0)
+          : 0);
+
+      const ics = buildCalendar(
+        buildVEvent({
+          id: booking.eventId ?? booking.id,
+          title: `${type.name} with ${host.name}`,
+          description: booking.notes,
+          location: type.location,
+          startAt: booking.startAt,
+          endAt: booking.endAt,
+          isAllDay: false,
+          rrule: null,
+          exDates: null,
+          createdAt: booking.createdAt,
+          updatedAt: booking.updatedAt,
+          organizer: { email: host.email, name: host.name },
+          attendees: [
+            {
+              email: booking.guestEmail,
+              name: booking.guestName,
+              role: 'required',
+              status: 'accepted',
+            },
+          ],
+          sequence: currentSequence,
+          status: kind === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+        }),
+        { method: kind === 'cancelled' ? 'CANCEL' : 'REQUEST' },
+      );
+
+      const time = formatInTimeZone(
+        booking.startAt,
+        booking.guestTimezone ?? host.timezone,
+        "EEEE, MMMM d, yyyy 'at' h:mm a zzz",
+      );
+      const { html, text } = bookingConfirmationEmail({
+        kind,
+        title: type.name,
+        time,
+        location: type.location,
+        hostName: host.name,
+        manageUrl: token ? `${getFrontendUrl()}/booking/${token}` : null,
+      });
+
+      const subjectPrefix =
+        kind === 'confirmed' ? 'Confirmed' : kind === 'rescheduled' ? 'Rescheduled' : 'Cancelled';
+
+      await sendEmail({
+        to: booking.guestEmail,
+        subject: `${subjectPrefix}: ${type.name} with ${host.name}`,
+        html,
+        text,
+        attachments: [
+          {
+            filename: kind === 'cancelled' ? 'cancel.ics' : 'invite.ics',
+            content: ics,
+            contentType: `text/calendar; charset=utf-8; method=${
+              kind === 'cancelled' ? 'CANCEL' : 'REQUEST'
+            }`,
+          },
+        ],
+      });
+    };
+
+    send().catch((err) => {
+      logger.error({ err, bookingId: booking.id }, 'Failed to send booking email');
+    });
+  }
+}
+
+export const bookingService = new BookingService();
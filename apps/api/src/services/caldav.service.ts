@@ -0,0 +1,868 @@
+import { createHash } from 'node:crypto';
+
+import { and, asc, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+
+import { db } from '../db';
+import { calendarCategories, eventExceptions, events, tasks, users } from '../db/schema';
+import { AppError } from '../lib/errors';
+import {
+  buildCalendar,
+  buildOverrideIcsEvent,
+  buildVEvent,
+  buildVTodo,
+  stripHtml,
+} from '../lib/ics';
+import {
+  diffEventOverride,
+  getIcsRecurrenceId,
+  getIcsStatus,
+  getIcsText,
+  getIcsUid,
+  mapVEvent,
+  mapVTodo,
+  parseIcsAlarms,
+} from '../lib/ics-mapping';
+import { getProperty, IcsParseError, parseIcs } from '../lib/ics-parser';
+import { logger } from '../lib/logger';
+import { eventService } from './event.service';
+import { recurrenceService } from './recurrence.service';
+import { taskService } from './task.service';
+
+import type { IcsEvent, IcsTask } from '../lib/ics';
+import type { MappedIcsEvent } from '../lib/ics-mapping';
+import type { IcsComponent } from '../lib/ics-parser';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type CalDavComponentType = 'VEVENT' | 'VTODO';
+
+export interface CalDavCalendar {
+  id: string;
+  name: string;
+  color: string;
+  sortOrder: number;
+  ctag: string;
+}
+
+export interface CalDavResource {
+  /** Last path segment of the resource URL, e.g. `<uid>.ics` */
+  name: string;
+  componentType: CalDavComponentType;
+  etag: string;
+  data: string;
+  lastModified: Date;
+}
+
+export interface CalDavResourceFilter {
+  componentType?: CalDavComponentType;
+  start?: Date;
+  end?: Date;
+}
+
+export interface CalDavPreconditions {
+  ifMatch?: string;
+  ifNoneMatch?: string;
+}
+
+export interface CalDavPutResult {
+  created: boolean;
+  etag: string;
+}
+
+type EventRow = typeof events.$inferSelect;
+type TaskRow = typeof tasks.$inferSelect;
+
+type StoredItem = { type: 'VEVENT'; row: EventRow } | { type: 'VTODO'; row: TaskRow };
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+const RESOURCE_SUFFIX = '.ics';
+
+/** UIDs generated for items created in Calley */
+const CALLEY_UID_SUFFIX = '@calley.app';
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/**
+ * Resources are named after their iCalendar UID so a client that PUTs
+ * `<uid>.ics` finds the item at the same URL afterwards. Items created in
+ * Calley have no stored UID and are named after their ID.
+ */
+function resourceName(row: { id: string; icalUid: string | null }): string {
+  return `${encodeURIComponent(row.icalUid ?? row.id)}${RESOURCE_SUFFIX}`;
+}
+
+/**
+ * Reverse of resourceName for a decoded name: the identifier an item is
+ * stored under, which may be either an ID or an imported/client UID.
+ */
+function resourceKey(name: string): string {
+  return name.endsWith(RESOURCE_SUFFIX) ? name.slice(0, -RESOURCE_SUFFIX.length) : name;
+}
+
+function computeEtag(data: string): string {
+  return `"${createHash('sha256').update(data).digest('hex').slice(0, 32)}"`;
+}
+
+/**
+ * Evaluate If-Match / If-None-Match against the current ETag (RFC 7232 §3),
+ * where a null ETag means the resource does not exist.
+ */
+function checkPreconditions(etag: string | null, preconditions: CalDavPreconditions): void {
+  const { ifMatch, ifNoneMatch } = preconditions;
+  const matches = (header: string) =>
+    header.trim() === '*'
+      ? etag !== null
+      : etag !== null &&
+        header
+          .split(',')
+          .map((t) => t.trim().replace(/^W\//, ''))
+          .includes(etag);
+
+  if (ifMatch !== undefined && !matches(ifMatch)) {
+    throw new AppError(412, 'PRECONDITION_FAILED', 'Resource has been modified');
+  }
+  if (ifNoneMatch !== undefined && matches(ifNoneMatch)) {
+    throw new AppError(412, 'PRECONDITION_FAILED', 'Resource already exists');
+  }
+}
+
+function isSameInstant(a: Date | null, b: Date | null): boolean {
+  return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+}
+
+function isSameDateList(a: Date[] | null, b: Date[]): boolean {
+  const left = (a ?? []).map((d) => d.getTime()).sort();
+  const right = b.map((d) => d.getTime()).sort();
+  return left.length === right.length && left.every((t, i) => t === right[i]);
+}
+
+/**
+ * Descriptions are stored as HTML but exchanged as plain text. Keep the
+ * stored HTML when the client sent back the text it was given, so a
+ * round-trip doesn't flatten formatting.
+ */
+function isUnchangedDescription(stored: string | null, component: IcsComponent): boolean {
+  const text = getIcsText(component, 'DESCRIPTION');
+  return (stored ? stripHtml(stored) : '') === (text ?? '');
+}
+
+function validateRruleOrThrow(rrule: string | null): void {
+  if (!rrule) return;
+  try {
+    recurrenceService.validateRrule(rrule);
+  } catch {
+    throw new AppError(422, 'VALIDATION_ERROR', 'Unsupported recurrence rule');
+  }
+}
+
+/**
+ * Split an uploaded calendar object into its master component and
+ * RECURRENCE-ID overrides. RFC 4791 §4.1 requires every component in a
+ * calendar object resource to share one UID and type.
+ */
+function splitCalendarObject(content: string): {
+  type: CalDavComponentType;
+  uid: string;
+  master: IcsComponent;
+  overrides: IcsComponent[];
+} {
+  let calendar: IcsComponent;
+  try {
+    calendar = parseIcs(content);
+  } catch (err) {
+    if (err instanceof IcsParseError) {
+      throw new AppError(400, 'VALIDATION_ERROR', `Invalid calendar data: ${err.message}`);
+    }
+    throw err;
+  }
+
+  const components = calendar.components.filter((c) => c.name === 'VEVENT' || c.name === 'VTODO');
+  if (components.length === 0) {
+    throw new AppError(400, 'VALIDATION_ERROR', 'Calendar data contains no event or task');
+  }
+
+  const type = components[0].name as CalDavComponentType;
+  const uid = getIcsUid(components[0]);
+  if (!uid) {
+    throw new AppError(400, 'VALIDATION_ERROR', 'Calendar data is missing a UID');
+  }
+  if (components.some((c) => c.name !== type || getIcsUid(c) !== uid)) {
+    throw new AppError(
+      400,
+      'VALIDATION_ERROR',
+      'Calendar data must contain a single event or task',
+    );
+  }
+
+  const master = components.find((c) => !getProperty(c, 'RECURRENCE-ID'));
+  if (!master) {
+    throw new AppError(400, 'VALIDATION_ERROR', 'Calendar data is missing its main component');
+  }
+
+  return {
+    type,
+    uid,
+    master,
+    overrides: components.filter((c) => c !== master),
+  };
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class CalDavService {
+  /**
+   * Principal details shown to CalDAV clients.
+   */
+  async getPrincipal(userId: string): Promise<{ name: string; email: string }> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { name: true, email: true },
+    });
+
+    if (!user) {
+      throw new AppError(404, 'NOT_FOUND', 'User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * List the user's categories as calendar collections.
+   */
+  async listCalendars(userId: string): Promise<CalDavCalendar[]> {
+    const categories = await db.query.calendarCategories.findMany({
+      where: eq(calendarCategories.userId, userId),
+      orderBy: [asc(calendarCategories.sortOrder)],
+    });
+
+    return Promise.all(
+      categories.map(async (category) => ({
+        id: category.id,
+        name: category.name,
+        color: category.color,
+        sortOrder: category.sortOrder,
+        ctag: await this.computeCtag(userId, category.id),
+      })),
+    );
+  }
+
+  /**
+   * Get a single calendar collection with ownership check.
+   */
+  async getCalendar(userId: string, categoryId: string): Promise<CalDavCalendar> {
+    const category = await db.query.calendarCategories.findFirst({
+      where: and(eq(calendarCategories.id, categoryId), eq(calendarCategories.userId, userId)),
+    });
+
+    if (!category) {
+      throw new AppError(404, 'NOT_FOUND', 'Calendar not found');
+    }
+
+    return {
+      id: category.id,
+      name: category.name,
+      color: category.color,
+      sortOrder: category.sortOrder,
+      ctag: await this.computeCtag(userId, category.id),
+    };
+  }
+
+  /**
+   * List the calendar object resources in a calendar, optionally limited
+   * to one component type and/or a time range (calendar-query). The time
+   * range is evaluated by expanding recurring events, so a series matches
+   * when any of its instances overlaps the range.
+   */
+  async listResources(
+    userId: string,
+    categoryId: string,
+    filter: CalDavResourceFilter = {},
+  ): Promise<CalDavResource[]> {
+    await this.getCalendar(userId, categoryId);
+
+    const includeEvents = filter.componentType !== 'VTODO';
+    const includeTasks = filter.componentType !== 'VEVENT';
+    const hasRange = filter.start !== undefined || filter.end !== undefined;
+
+    const [eventRows, taskRows] = await Promise.all([
+      includeEvents
+        ? db.query.events.findMany({
+            where: and(
+              eq(events.userId, userId),
+              eq(events.categoryId, categoryId),
+              isNull(events.deletedAt),
+              isNull(events.recurringEventId),
+            ),
+            orderBy: [asc(events.startAt)],
+          })
+        : Promise.resolve([]),
+      includeTasks
+        ? db.query.tasks.findMany({
+            where: and(
+              eq(tasks.userId, userId),
+              eq(tasks.categoryId, categoryId),
+              isNull(tasks.deletedAt),
+            ),
+            orderBy: [asc(tasks.sortOrder)],
+          })
+        : Promise.resolve([]),
+    ]);
+
+    let matchingEvents = eventRows as EventRow[];
+    let matchingTasks = taskRows as TaskRow[];
+
+    if (hasRange) {
+      const start = filter.start ?? new Date(0);
+      const end = filter.end ?? new Date(8640000000000000);
+
+      if (matchingEvents.length > 0) {
+        const instances = await eventService.listEvents(
+          userId,
+          start.toISOString(),
+          end.toISOString(),
+          [categoryId],
+        );
+        const ids = new Set(instances.map((e) => e.id));
+        matchingEvents = matchingEvents.filter((row) => ids.has(row.id));
+      }
+
+      // Undated and recurring tasks always match (RFC 4791 §9.9)
+      matchingTasks = matchingTasks.filter(
+        (row) => !row.dueAt || row.rrule || (row.dueAt >= start && row.dueAt < end),
+      );
+    }
+
+    const eventResources = await this.renderEvents(userId, matchingEvents);
+    return [...eventResources, ...matchingTasks.map((row) => this.renderTask(row))];
+  }
+
+  /**
+   * Fetch resources by name (calendar-multiget), keyed by the requested
+   * name. Names that don't exist are omitted; callers report them as 404.
+   */
+  async getResources(
+    userId: string,
+    categoryId: string,
+    names: string[],
+  ): Promise<Map<string, CalDavResource>> {
+    await this.getCalendar(userId, categoryId);
+
+    const resources = new Map<string, CalDavResource>();
+    for (const name of names) {
+      const item = await this.findItem(userId, categoryId, resourceKey(name));
+      if (item) resources.set(name, await this.renderItem(userId, item));
+    }
+    return resources;
+  }
+
+  /**
+   * Fetch a single resource by name.
+   */
+  async getResource(userId: string, categoryId: string, name: string): Promise<CalDavResource> {
+    await this.getCalendar(userId, categoryId);
+
+    const item = await this.findItem(userId, categoryId, resourceKey(name));
+    if (!item) {
+      throw new AppError(404, 'NOT_FOUND', 'Resource not found');
+    }
+
+    return this.renderItem(userId, item);
+  }
+
+  /**
+   * Create or replace a calendar object resource from iCalendar data.
+   *
+   * Writes go through eventService/taskService so validation, reminders and
+   * SSE notifications behave as they do for the web app. For recurring
+   * events, RECURRENCE-ID components are synced to exception overrides and
+   * cancelled instances to exDates. VALARMs are only read when the item is
+   * created, as a single inline reminder.
+   */
+  async putResource(
+    userId: string,
+    categoryId: string,
+    name: string,
+    content: string,
+    preconditions: CalDavPreconditions = {},
+  ): Promise<CalDavPutResult> {
+    await this.getCalendar(userId, categoryId);
+
+    const object = splitCalendarObject(content);
+
+    const existing =
+      (await this.findItem(userId, categoryId, resourceKey(name))) ??
+      (await this.findItem(userId, categoryId, object.uid));
+
+    const current = existing ? await this.renderItem(userId, existing) : null;
+    checkPreconditions(current?.etag ?? null, preconditions);
+
+    if (existing && existing.type !== object.type) {
+      throw new AppError(409, 'CONFLICT', 'Cannot change the component type of a resource');
+    }
+
+    const timeZone = await this.getTimeZone(userId);
+
+    let item: StoredItem;
+    if (object.type === 'VEVENT') {
+      const row = await this.putEvent(
+        userId,
+        categoryId,
+        object.uid,
+        object.master,
+        object.overrides,
+        existing?.type === 'VEVENT' ? existing.row : null,
+        timeZone,
+      );
+      item = { type: 'VEVENT', row };
+    } else {
+      const row = await this.putTask(
+        userId,
+        categoryId,
+        object.uid,
+        object.master,
+        existing?.type === 'VTODO' ? existing.row : null,
+        timeZone,
+      );
+      item = { type: 'VTODO', row };
+    }
+
+    const resource = await this.renderItem(userId, item);
+
+    logger.info(
+      { userId, categoryId, itemId: item.row.id, created: !existing },
+      'CalDAV resource stored',
+    );
+
+    return { created: !existing, etag: resource.etag };
+  }
+
+  /**
+   * Delete a resource. Recurring items are deleted as a whole series.
+   */
+  async deleteResource(
+    userId: string,
+    categoryId: string,
+    name: string,
+    preconditions: CalDavPreconditions = {},
+  ): Promise<void> {
+    await this.getCalendar(userId, categoryId);
+
+    const item = await this.findItem(userId, categoryId, resourceKey(name));
+    if (!item) {
+      throw new AppError(404, 'NOT_FOUND', 'Resource not found');
+    }
+
+    if (preconditions.ifMatch !== undefined) {
+      const current = await this.renderItem(userId, item);
+      checkPreconditions(current.etag, { ifMatch: preconditions.ifMatch });
+    }
+
+    const scope = item.row.rrule ? 'all' : undefined;
+    if (item.type === 'VEVENT') {
+      await eventService.deleteEvent(userId, item.row.id, scope);
+    } else {
+      await taskService.deleteTask(userId, item.row.id, scope);
+    }
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  /**
+   * Collection tag: changes whenever an item in the category (or one of its
+   * exception overrides) is created, updated, deleted or moved. Soft deletes
+   * bump updatedAt, so the latest timestamp plus the live item count covers
+   * every change.
+   */
+  private async computeCtag(userId: string, categoryId: string): Promise<string> {
+    const [eventStats, exceptionStats, taskStats] = await Promise.all([
+      db
+        .select({
+          updated: sql<string | null>`max(${events.updatedAt})`,
+          count: sql<number>`count(*) filter (where ${events.deletedAt} is null)`,
+        })
+        .from(events)
+        .where(and(eq(events.userId, userId), eq(events.categoryId, categoryId))),
+      db
+        .select({
+          updated: sql<string | null>`max(${eventExceptions.updatedAt})`,
+          count: sql<number>`count(*) filter (where ${eventExceptions.deletedAt} is null)`,
+        })
+        .from(eventExceptions)
+        .innerJoin(events, eq(events.id, eventExceptions.recurringEventId))
+        .where(and(eq(eventExceptions.userId, userId), eq(events.categoryId, categoryId))),
+      db
+        .select({
+          updated: sql<string | null>`max(${tasks.updatedAt})`,
+          count: sql<number>`count(*) filter (where ${tasks.deletedAt} is null)`,
+        })
+        .from(tasks)
+        .where(and(eq(tasks.userId, userId), eq(tasks.categoryId, categoryId))),
+    ]);
+
+    const fingerprint = [eventStats[0], exceptionStats[0], taskStats[0]]
+      .map((s) => `${s?.updated ?? ''}:${s?.count ?? 0}`)
+      .join('|');
+
+    return createHash('sha256').update(fingerprint).digest('hex').slice(0, 32);
+  }
+
+  private async getTimeZone(userId: string): Promise<string> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { timezone: true },
+    });
+    return user?.timezone ?? 'UTC';
+  }
+
+  /**
+   * Find an event or task in a category by ID or stored UID. UIDs of the
+   * form `<id>@calley.app` refer to items created in Calley.
+   */
+  private async findItem(
+    userId: string,
+    categoryId: string,
+    key: string,
+  ): Promise<StoredItem | null> {
+    const id = key.endsWith(CALLEY_UID_SUFFIX) ? key.slice(0, -CALLEY_UID_SUFFIX.length) : key;
+
+    const event = await db.query.events.findFirst({
+      where: and(
+        eq(events.userId, userId),
+        eq(events.categoryId, categoryId),
+        isNull(events.deletedAt),
+        isNull(events.recurringEventId),
+        or(eq(events.id, id), eq(events.icalUid, key)),
+      ),
+    });
+    if (event) return { type: 'VEVENT', row: event as EventRow };
+
+    const task = await db.query.tasks.findFirst({
+      where: and(
+        eq(tasks.userId, userId),
+        eq(tasks.categoryId, categoryId),
+        isNull(tasks.deletedAt),
+        or(eq(tasks.id, id), eq(tasks.icalUid, key)),
+      ),
+    });
+    if (task) return { type: 'VTODO', row: task as TaskRow };
+
+    return null;
+  }
+
+  private async renderItem(userId: string, item: StoredItem): Promise<CalDavResource> {
+    if (item.type === 'VTODO') return this.renderTask(item.row);
+    const [resource] = await this.renderEvents(userId, [item.row]);
+    return resource;
+  }
+
+  /**
+   * Render events as calendar objects. Each recurring event carries its
+   * active exception overrides as RECURRENCE-ID components.
+   */
+  private async renderEvents(userId: string, rows: EventRow[]): Promise<CalDavResource[]> {
+    const recurringIds = rows.filter((r) => r.rrule).map((r) => r.id);
+
+    const exceptions =
+      recurringIds.length > 0
+        ? await db.query.eventExceptions.findMany({
+            where: and(
+              eq(eventExceptions.userId, userId),
+              inArray(eventExceptions.recurringEventId, recurringIds),
+              isNull(eventExceptions.deletedAt),
+            ),
+            orderBy: [asc(eventExceptions.originalDate)],
+          })
+        : [];
+
+    return rows.map((row) => {
+      const parent = row as IcsEvent;
+      const components = buildVEvent(parent);
+
+      // An excluded date has no instance left to override
+      const excludedMs = new Set((row.exDates ?? []).map((d) => d.getTime()));
+      for (const exc of exceptions) {
+        if (exc.recurringEventId !== row.id) continue;
+        if (excludedMs.has(exc.originalDate.getTime())) continue;
+        components.push(
+          ...buildVEvent(
+            buildOverrideIcsEvent(parent, exc.originalDate, exc.overrides, exc.updatedAt),
+          ),
+        );
+      }
+
+      const data = buildCalendar(components);
+      return {
+        name: resourceName(row),
+        componentType: 'VEVENT' as const,
+        etag: computeEtag(data),
+        data,
+        lastModified: row.updatedAt,
+      };
+    });
+  }
+
+  private renderTask(row: TaskRow): CalDavResource {
+    const data = buildCalendar(buildVTodo(row as IcsTask));
+    return {
+      name: resourceName(row),
+      componentType: 'VTODO',
+      etag: computeEtag(data),
+      data,
+      lastModified: row.updatedAt,
+    };
+  }
+
+  /**
+   * Create or update an event from a VEVENT and its overrides.
+   */
+  private async putEvent(
+    userId: string,
+    categoryId: string,
+    uid: string,
+    master: IcsComponent,
+    overrides: IcsComponent[],
+    existing: EventRow | null,
+    timeZone: string,
+  ): Promise<EventRow> {
+    const mapped = mapVEvent(master, timeZone);
+    if (typeof mapped === 'string') {
+      throw new AppError(422, 'VALIDATION_ERROR', mapped);
+    }
+    validateRruleOrThrow(mapped.rrule);
+
+    let eventId: string;
+
+    if (existing) {
+      eventId = existing.id;
+      await eventService.updateEvent(userId, eventId, {
+        title: mapped.title,
+        ...(!isUnchangedDescription(existing.description, master) && {
+          description: mapped.description,
+        }),
+        location: mapped.location,
+        startAt: mapped.startAt.toISOString(),
+        endAt: mapped.endAt.toISOString(),
+        timezone: mapped.timezone,
+        endTimezone: mapped.endTimezone,
+        isAllDay: mapped.isAllDay,
+        rrule: mapped.rrule,
+        rDates: mapped.rDates.map((d) => d.toISOString()),
+      });
+    } else {
+      const alarm = parseIcsAlarms(master, mapped.startAt, timeZone)[0];
+      const triggerAt = alarm
+        ? mapped.startAt.getTime() - alarm.minutesBefore * 60 * 1000
+        : Number.NEGATIVE_INFINITY;
+
+      const created = await eventService.createEvent(userId, {
+        categoryId,
+        title: mapped.title,
+        description: mapped.description,
+        location: mapped.location,
+        startAt: mapped.startAt.toISOString(),
+        endAt: mapped.endAt.toISOString(),
+        timezone: mapped.timezone,
+        endTimezone: mapped.endTimezone,
+        isAllDay: mapped.isAllDay,
+        visibility: 'private',
+        rrule: mapped.rrule,
+        rDates: mapped.rDates.map((d) => d.toISOString()),
+        // Alarms for past occurrences would fire immediately — drop them
+        reminder: alarm && triggerAt > Date.now() ? alarm : null,
+      });
+      eventId = created.id;
+    }
+
+    const exDates = [...mapped.exDates];
+    if (mapped.rrule) {
+      await this.syncEventOverrides(userId, eventId, mapped, overrides, exDates, timeZone);
+    }
+
+    // exDates and the client's UID aren't part of the event API
+    const icalUid = uid === `${eventId}${CALLEY_UID_SUFFIX}` ? null : uid;
+    if (
+      !existing ||
+      existing.icalUid !== icalUid ||
+      !isSameDateList(existing.exDates, mapped.rrule ? exDates : [])
+    ) {
+      await db
+        .update(events)
+        .set({ icalUid, exDates: mapped.rrule ? exDates : [], updatedAt: new Date() })
+        .where(and(eq(events.id, eventId), eq(events.userId, userId)));
+    }
+
+    const row = await db.query.events.findFirst({
+      where: and(eq(events.id, eventId), eq(events.userId, userId)),
+    });
+    return row as EventRow;
+  }
+
+  /**
+   * Reconcile a series' exception overrides with the RECURRENCE-ID
+   * components of an upload. Unchanged overrides are left alone, changed
+   * ones are re-applied via eventService, and overrides the client no
+   * longer sends are removed. Cancelled instances are appended to exDates.
+   */
+  private async syncEventOverrides(
+    userId: string,
+    eventId: string,
+    master: MappedIcsEvent,
+    components: IcsComponent[],
+    exDates: Date[],
+    timeZone: string,
+  ): Promise<void> {
+    const existing = await db.query.eventExceptions.findMany({
+      where: and(
+        eq(eventExceptions.userId, userId),
+        eq(eventExceptions.recurringEventId, eventId),
+        isNull(eventExceptions.deletedAt),
+      ),
+    });
+
+    const parent: IcsEvent = {
+      id: eventId,
+      ...master,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const kept = new Set<string>();
+
+    for (const component of components) {
+      const originalDate = getIcsRecurrenceId(component, timeZone);
+      if (!originalDate) continue;
+
+      if (getIcsStatus(component) === 'CANCELLED') {
+        exDates.push(originalDate);
+        continue;
+      }
+
+      const instance = mapVEvent(component, timeZone);
+      if (typeof instance === 'string') continue;
+
+      const key = originalDate.toISOString();
+      const overrides = diffEventOverride(master, instance);
+      const current = existing.find((e) => e.originalDate.getTime() === originalDate.getTime());
+
+      if (current) {
+        const applied = buildOverrideIcsEvent(parent, originalDate, current.overrides, new Date());
+        const unchanged =
+          applied.title === instance.title &&
+          applied.location === instance.location &&
+          applied.isAllDay === instance.isAllDay &&
+          isSameInstant(applied.startAt, instance.startAt) &&
+          isSameInstant(applied.endAt, instance.endAt) &&
+          (applied.description === instance.description ||
+            isUnchangedDescription(applied.description, component));
+        if (unchanged) {
+          kept.add(key);
+          continue;
+        }
+      }
+
+      await eventService.updateEvent(
+        userId,
+        eventId,
+        {
+          ...(overrides.title !== undefined && { title: overrides.title as string }),
+          ...(overrides.description !== undefined && {
+            description: overrides.description as string | null,
+          }),
+          ...(overrides.location !== undefined && {
+            location: overrides.location as string | null,
+          }),
+          ...(overrides.isAllDay !== undefined && { isAllDay: overrides.isAllDay as boolean }),
+          startAt: instance.startAt.toISOString(),
+          endAt: instance.endAt.toISOString(),
+        },
+        'instance',
+        key,
+      );
+      kept.add(key);
+    }
+
+    const removed = existing
+      .filter((e) => !kept.has(e.originalDate.toISOString()))
+      .map((e) => e.id);
+
+    if (removed.length > 0) {
+      await db
+        .update(eventExceptions)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(eventExceptions.userId, userId), inArray(eventExceptions.id, removed)));
+    }
+  }
+
+  /**
+   * Create or update a task from a VTODO. Per-instance VTODO overrides are
+   * not supported; task instances edited in Calley are separate resources.
+   */
+  private async putTask(
+    userId: string,
+    categoryId: string,
+    uid: string,
+    vtodo: IcsComponent,
+    existing: TaskRow | null,
+    timeZone: string,
+  ): Promise<TaskRow> {
+    const mapped = mapVTodo(vtodo, timeZone);
+    if (typeof mapped === 'string') {
+      throw new AppError(422, 'VALIDATION_ERROR', mapped);
+    }
+    validateRruleOrThrow(mapped.rrule);
+
+    let taskId: string;
+
+    if (existing) {
+      taskId = existing.id;
+      await taskService.updateTask(userId, taskId, {
+        title: mapped.title,
+        ...(!isUnchangedDescription(existing.description, vtodo) && {
+          description: mapped.description,
+        }),
+        dueAt: mapped.dueAt ? mapped.dueAt.toISOString() : null,
+        priority: mapped.priority,
+        // Only send status on change so completedAt isn't reset
+        ...(mapped.status !== existing.status && { status: mapped.status }),
+        rrule: mapped.rrule,
+      });
+    } else {
+      const alarm = mapped.dueAt ? parseIcsAlarms(vtodo, mapped.dueAt, timeZone)[0] : undefined;
+      const triggerAt =
+        alarm && mapped.dueAt
+          ? mapped.dueAt.getTime() - alarm.minutesBefore * 60 * 1000
+          : Number.NEGATIVE_INFINITY;
+
+      const created = await taskService.createTask(userId, {
+        categoryId,
+        title: mapped.title,
+        description: mapped.description,
+        dueAt: mapped.dueAt ? mapped.dueAt.toISOString() : null,
+        priority: mapped.priority,
+        rrule: mapped.rrule,
+        reminder: alarm && mapped.status !== 'done' && triggerAt > Date.now() ? alarm : null,
+      });
+      taskId = created.id;
+
+      if (mapped.status !== 'todo') {
+        await taskService.updateTask(userId, taskId, { status: mapped.status });
+      }
+    }
+
+    const icalUid = uid === `${taskId}${CALLEY_UID_SUFFIX}` ? null : uid;
+    const exDates = mapped.rrule ? mapped.exDates : [];
+    if (!existing || existing.icalUid !== icalUid || !isSameDateList(existing.exDates, exDates)) {
+      await db
+        .update(tasks)
+        .set({ icalUid, exDates, updatedAt: new Date() })
+        .where(and(eq(tasks.id, taskId), eq(tasks.userId, userId)));
+    }
+
+    const row = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.userId, userId)),
+    });
+    return row as TaskRow;
+  }
+}
+
+export const caldavService = new CalDavService();
@@ -0,0 +1,390 @@
+import { and, asc, count, eq, inArray } from 'drizzle-orm';
+
+import { db } from '../db';
+import { calendarCategories, calendarShares, users } from '../db/schema';
+import { AppError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { sseService } from './sse.service';
+
+import type { Transaction } from '../db';
+import type { SSEEventType } from './sse.service';
+import type {
+  CalendarSharePermission,
+  CreateCalendarShareInput,
+  UpdateCalendarShareInput,
+} from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+interface ShareRow {
+  id: string;
+  categoryId: string;
+  memberId: string;
+  memberEmail: string;
+  memberName: string;
+  permission: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface CalendarShareResponse {
+  id: string;
+  categoryId: string;
+  memberId: string;
+  memberEmail: string;
+  memberName: string;
+  permission: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SharedCalendarResponse {
+  shareId: string;
+  categoryId: string;
+  ownerId: string;
+  ownerName: string;
+  ownerEmail: string;
+  name: string;
+  color: string;
+  permission: string;
+}
+
+/** A category the user can see through a share, with their access level */
+export interface MemberShare {
+  categoryId: string;
+  ownerId: string;
+  permission: CalendarSharePermission;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Upper bound on members per shared calendar */
+const MAX_MEMBERS_PER_CALENDAR = 50;
+
+/** Permission levels in increasing order of access */
+const PERMISSION_RANK: Record<CalendarSharePermission, number> = {
+  freebusy: 0,
+  read: 1,
+  edit: 2,
+};
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function toShareResponse(row: ShareRow): CalendarShareResponse {
+  return {
+    id: row.id,
+    categoryId: row.categoryId,
+    memberId: row.memberId,
+    memberEmail: row.memberEmail,
+    memberName: row.memberName,
+    permission: row.permission,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Whether `permission` grants at least `required` access.
+ */
+export function hasPermission(
+  permission: CalendarSharePermission,
+  required: CalendarSharePermission,
+): boolean {
+  return PERMISSION_RANK[permission] >= PERMISSION_RANK[required];
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class CalendarShareService {
+  /**
+   * List the members of one of the owner's categories.
+   */
+  async listShares(ownerId: string, categoryId: string): Promise<CalendarShareResponse[]> {
+    await this.getOwnedCategory(ownerId, categoryId);
+
+    const rows = await this.selectShares()
+      .where(and(eq(calendarShares.categoryId, categoryId), eq(calendarShares.ownerId, ownerId)))
+      .orderBy(asc(calendarShares.createdAt));
+
+    return rows.map((r) => toShareResponse(r as ShareRow));
+  }
+
+  /**
+   * Share a category with another Calley user, identified by email.
+   */
+  async shareCategory(
+    ownerId: string,
+    categoryId: string,
+    data: CreateCalendarShareInput,
+  ): Promise<CalendarShareResponse> {
+    await this.getOwnedCategory(ownerId, categoryId);
+
+    const member = await db.query.users.findFirst({
+      where: eq(users.email, data.email),
+      columns: { id: true },
+    });
+
+    // The same error for an unknown email as for the owner's own, so the
+    // form can't be used to find out who has a Calley account
+    if (!member || member.id === ownerId) {
+      throw new AppError(
+        422,
+        'VALIDATION_ERROR',
+        `This calendar can't be shared with ${data.email}`,
+      );
+    }
+
+    const existing = await db.query.calendarShares.findFirst({
+      where: and(eq(calendarShares.categoryId, categoryId), eq(calendarShares.memberId, member.id)),
+    });
+
+    if (existing) {
+      throw new AppError(409, 'CONFLICT', 'This calendar is already shared with this person');
+    }
+
+    const [countResult] = await db
+      .select({ value: count() })
+      .from(calendarShares)
+      .where(eq(calendarShares.categoryId, categoryId));
+
+    if (countResult.value >= MAX_MEMBERS_PER_CALENDAR) {
+      throw new AppError(
+        409,
+        'CONFLICT',
+        `A calendar can be shared with at most ${MAX_MEMBERS_PER_CALENDAR} people`,
+      );
+    }
+
+    const [created] = await db
+      .insert(calendarShares)
+      .values({ categoryId, ownerId, memberId: member.id, permission: data.permission })
+      .returning();
+
+    logger.info({ userId: ownerId, categoryId, memberId: member.id }, 'Calendar shared');
+
+    // The new member's sidebar picks up the calendar
+    sseService.emit(member.id, 'category:updated', { id: categoryId });
+
+    return this.getShareResponse(created.id);
+  }
+
+  /**
+   * Change a member's permission level.
+   */
+  async updateShare(
+    ownerId: string,
+    categoryId: string,
+    shareId: string,
+    data: UpdateCalendarShareInput,
+  ): Promise<CalendarShareResponse> {
+    const [updated] = await db
+      .update(calendarShares)
+      .set({ permission: data.permission, updatedAt: new Date() })
+      .where(
+        and(
+          eq(calendarShares.id, shareId),
+          eq(calendarShares.categoryId, categoryId),
+          eq(calendarShares.ownerId, ownerId),
+        ),
+      )
+      .returning();
+
+    if (!updated) {
+      throw new AppError(404, 'NOT_FOUND', 'Share not found');
+    }
+
+    logger.info({ userId: ownerId, categoryId, shareId }, 'Calendar share updated');
+
+    // Event details the member can see may have changed
+    sseService.emit(updated.memberId, 'category:updated', { id: categoryId });
+
+    return this.getShareResponse(updated.id);
+  }
+
+  /**
+   * Stop sharing a category with a member.
+   */
+  async removeShare(ownerId: string, categoryId: string, shareId: string): Promise<void> {
+    const [deleted] = await db
+      .delete(calendarShares)
+      .where(
+        and(
+          eq(calendarShares.id, shareId),
+          eq(calendarShares.categoryId, categoryId),
+          eq(calendarShares.ownerId, ownerId),
+        ),
+      )
+      .returning();
+
+    if (!deleted) {
+      throw new AppError(404, 'NOT_FOUND', 'Share not found');
+    }
+
+    logger.info({ userId: ownerId, categoryId, shareId }, 'Calendar share removed');
+
+    sseService.emit(deleted.memberId, 'category:deleted', { id: categoryId });
+  }
+
+  /**
+   * List other users' calendars shared with this user.
+   */
+  async listSharedWithMe(memberId: string): Promise<SharedCalendarResponse[]> {
+    const rows = await db
+      .select({
+        shareId: calendarShares.id,
+        categoryId: calendarShares.categoryId,
+        ownerId: calendarShares.ownerId,
+        ownerName: users.name,
+        ownerEmail: users.email,
+        name: calendarCategories.name,
+        color: calendarCategories.color,
+        permission: calendarShares.permission,
+      })
+      .from(calendarShares)
+      .innerJoin(calendarCategories, eq(calendarCategories.id, calendarShares.categoryId))
+      .innerJoin(users, eq(users.id, calendarShares.ownerId))
+      .where(eq(calendarShares.memberId, memberId))
+      .orderBy(asc(users.name), asc(calendarCategories.sortOrder));
+
+    return rows;
+  }
+
+  /**
+   * Remove a calendar someone else shared with this user.
+   */
+  async leaveSharedCalendar(memberId: string, shareId: string): Promise<void> {
+    const [deleted] = await db
+      .delete(calendarShares)
+      .where(and(eq(calendarShares.id, shareId), eq(calendarShares.memberId, memberId)))
+      .returning();
+
+    if (!deleted) {
+      throw new AppError(404, 'NOT_FOUND', 'Shared calendar not found');
+    }
+
+    logger.info({ userId: memberId, categoryId: deleted.categoryId }, 'Left shared calendar');
+  }
+
+  // ─── Access Checks ──────────────────────────────────────────────────
+
+  /**
+   * All categories shared with a user, with their permission on each.
+   */
+  async getMemberShares(
+    memberId: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<MemberShare[]> {
+    const rows = await tx.query.calendarShares.findMany({
+      where: eq(calendarShares.memberId, memberId),
+      columns: { categoryId: true, ownerId: true, permission: true },
+    });
+
+    return rows as MemberShare[];
+  }
+
+  /**
+   * The user's permission on a category owned by someone else, or null
+   * if it isn't shared with them.
+   */
+  async getPermission(
+    memberId: string,
+    categoryId: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<{ ownerId: string; permission: CalendarSharePermission } | null> {
+    const share = await tx.query.calendarShares.findFirst({
+      where: and(eq(calendarShares.categoryId, categoryId), eq(calendarShares.memberId, memberId)),
+      columns: { ownerId: true, permission: true },
+    });
+
+    return share
+      ? { ownerId: share.ownerId, permission: share.permission as CalendarSharePermission }
+      : null;
+  }
+
+  // ─── Fan-out ────────────────────────────────────────────────────────
+
+  /**
+   * IDs of everyone a category is shared with.
+   */
+  async getMemberIds(categoryId: string): Promise<string[]> {
+    const rows = await db.query.calendarShares.findMany({
+      where: eq(calendarShares.categoryId, categoryId),
+      columns: { memberId: true },
+    });
+
+    return rows.map((r) => r.memberId);
+  }
+
+  /**
+   * Emit an SSE event to the members of the given categories. Members
+   * without full read access only learn which event changed, so they
+   * refetch it through the masked listing instead of seeing its details.
+   */
+  async emitToMembers(
+    categoryIds: string[],
+    eventType: SSEEventType,
+    data: { id: string } & Record<string, unknown>,
+  ): Promise<void> {
+    if (categoryIds.length === 0) return;
+
+    const shares = await db.query.calendarShares.findMany({
+      where: inArray(calendarShares.categoryId, categoryIds),
+      columns: { memberId: true, permission: true },
+    });
+
+    // A member of several of the categories hears about the change once,
+    // at their highest access level
+    const members = new Map<string, CalendarSharePermission>();
+    for (const share of shares) {
+      const permission = share.permission as CalendarSharePermission;
+      const current = members.get(share.memberId);
+      if (!current || hasPermission(permission, current)) {
+        members.set(share.memberId, permission);
+      }
+    }
+
+    for (const [memberId, permission] of members) {
+      sseService.emit(
+        memberId,
+        eventType,
+        hasPermission(permission, 'read') ? data : { id: data.id },
+      );
+    }
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  private async getOwnedCategory(ownerId: string, categoryId: string): Promise<void> {
+    const category = await db.query.calendarCategories.findFirst({
+      where: and(eq(calendarCategories.id, categoryId), eq(calendarCategories.userId, ownerId)),
+      columns: { id: true },
+    });
+
+    if (!category) {
+      throw new AppError(404, 'NOT_FOUND', 'Category not found');
+    }
+  }
+
+  private selectShares() {
+    return db
+      .select({
+        id: calendarShares.id,
+        categoryId: calendarShares.categoryId,
+        memberId: calendarShares.memberId,
+        memberEmail: users.email,
+        memberName: users.name,
+        permission: calendarShares.permission,
+        createdAt: calendarShares.createdAt,
+        updatedAt: calendarShares.updatedAt,
+      })
+      .from(calendarShares)
+      .innerJoin(users, eq(users.id, calendarShares.memberId));
+  }
+
+  private async getShareResponse(shareId: string): Promise<CalendarShareResponse> {
+    const [row] = await this.selectShares().where(eq(calendarShares.id, shareId));
+    return toShareResponse(row as ShareRow);
+  }
+}
+
+export const calendarShareService = new CalendarShareService();
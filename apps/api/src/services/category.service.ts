@@ -3,9 +3,10 @@ import { and, asc, count, eq, isNull, ne } from 'drizzle-orm';
 import { DEFAULT_CATEGORY_COLOR, MAX_CATEGORIES_PER_USER } from '@calley/shared';
 
 import { db } from '../db';
-import { calendarCategories, events, tasks } from '../db/schema';
+import { appointmentTypes, calendarCategories, events, tasks } from '../db/schema';
 import { AppError } from '../lib/errors';
 import { logger } from '../lib/logger';
+import { calendarShareService } from './calendar-share.service';
 import { sseService } from './sse.service';
 
 import type { CreateCategoryInput, UpdateCategoryInput } from '@calley/shared';
@@ -176,11 +177,16 @@ export class CategoryService {
 
     const response = toCategoryResponse(updated as CategoryRow);
 
-    sseService.emit(userId, 'category:updated', {
+    const change = {
       id: response.id,
       name: response.name,
       color: response.color,
       visible: response.visible,
+    };
+    sseService.emit(userId, 'category:updated', change);
+    // Members see the new name and color in their shared calendars
+    calendarShareService.emitToMembers([categoryId], 'category:updated', change).catch((err) => {
+      logger.error({ err, userId, categoryId }, 'Failed to notify calendar members');
     });
 
     return response;
@@ -213,6 +219,9 @@ export class CategoryService {
       throw new AppError(500, 'INTERNAL_ERROR', 'Default category not found');
     }
 
+    // Shares are removed along with the category, so look up members first
+    const memberIds = await calendarShareService.getMemberIds(categoryId);
+
     await db.transaction(async (tx) => {
       // Reassign events to default category
       await tx
@@ -234,6 +243,14 @@ export class CategoryService {
           and(eq(tasks.userId, userId), eq(tasks.categoryId, categoryId), isNull(tasks.deletedAt)),
         );
 
+      // Future bookings go to the default category too
+      await tx
+        .update(appointmentTypes)
+        .set({ categoryId: defaultCategory.id, updatedAt: new Date() })
+        .where(
+          and(eq(appointmentTypes.userId, userId), eq(appointmentTypes.categoryId, categoryId)),
+        );
+
       // Delete the category
       await tx
         .delete(calendarCategories)
@@ -246,6 +263,9 @@ export class CategoryService {
     );
 
     sseService.emit(userId, 'category:deleted', { id: categoryId });
+    for (const memberId of memberIds) {
+      sseService.emit(memberId, 'category:deleted', { id: categoryId });
+    }
   }
 
   /**
@@ -1,15 +1,38 @@
-import { and, eq, gte, inArray, isNotNull, isNull, lte } from 'drizzle-orm';
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lte, ne, or } from 'drizzle-orm';
+
+import { TRASH_RETENTION_DAYS } from '@calley/shared';
 
 import { db } from '../db';
-import { calendarCategories, eventExceptions, events, reminders } from '../db/schema';
+import {
+  calendarCategories,
+  eventAttendees,
+  eventExceptions,
+  events,
+  reminders,
+  tasks,
+} from '../db/schema';
 import { AppError } from '../lib/errors';
+import { buildCalendar, buildVEvent } from '../lib/ics';
 import { logger } from '../lib/logger';
 import { reminderQueue } from '../lib/queue';
 import { sanitizeHtml } from '../lib/sanitize';
+import { attendeeService } from './attendee.service';
+import { calendarShareService, hasPermission } from './calendar-share.service';
 import { recurrenceService } from './recurrence.service';
 import { sseService } from './sse.service';
-
-import type { CreateEventInput, EditScope, UpdateEventInput } from '@calley/shared';
+import { tagService } from './tag.service';
+
+import type { Transaction } from '../db';
+import type { SeriesOccurrence } from './recurrence.service';
+import type { SSEEventType } from './sse.service';
+import type {
+  CalendarSharePermission,
+  CreateEventInput,
+  EditScope,
+  HolidayCalendar,
+  RecurrencePreviewInput,
+  UpdateEventInput,
+} from '@calley/shared';
 
 // ─── Types ──────────────────────────────────────────────────────────
 
@@ -22,13 +45,20 @@ interface EventRow {
   location: string | null;
   startAt: Date;
   endAt: Date;
+  timezone: string | null;
+  endTimezone: string | null;
   isAllDay: boolean;
   color: string | null;
   visibility: string;
   rrule: string | null;
   exDates: Date[] | null;
+  rDates: Date[] | null;
+  skipHolidays: HolidayCalendar | null;
+  seriesId: string | null;
   recurringEventId: string | null;
   originalDate: Date | null;
+  taskId: string | null;
+  completedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
@@ -43,18 +73,33 @@ interface EventResponse {
   location: string | null;
   startAt: string;
   endAt: string;
+  timezone: string | null;
+  endTimezone: string | null;
   isAllDay: boolean;
   color: string | null;
   visibility: string;
   rrule: string | null;
   exDates: string[];
+  rDates: string[];
+  skipHolidays: HolidayCalendar | null;
+  seriesId: string | null;
   recurringEventId: string | null;
   originalDate: string | null;
+  tagIds: string[];
+  taskId: string | null;
+  completedAt: string | null;
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
 }
 
+/** An event the user can reach, either as its owner or through a share */
+interface AccessibleEvent {
+  event: EventRow;
+  ownerId: string;
+  permission: CalendarSharePermission | 'owner';
+}
+
 interface EventExceptionRow {
   id: string;
   recurringEventId: string;
@@ -76,9 +121,83 @@ interface EventExceptionResponse {
   updatedAt: string;
 }
 
+interface RecurrencePreviewResponse {
+  occurrences: string[];
+  instances: SeriesOccurrence[];
+}
+
+interface SeriesSegmentResponse {
+  id: string;
+  title: string;
+  startAt: string;
+  rrule: string | null;
+  until: string | null;
+  mergeable: boolean;
+}
+
+interface TrashedEventResponse {
+  id: string;
+  title: string;
+  categoryId: string;
+  startAt: string;
+  isAllDay: boolean;
+  rrule: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Fields that attendees see in their invitation; changing one re-sends it */
+const INVITATION_FIELDS = [
+  'title',
+  'description',
+  'location',
+  'startAt',
+  'endAt',
+  'timezone',
+  'endTimezone',
+  'isAllDay',
+  'rrule',
+  'rDates',
+  'skipHolidays',
+] as const;
+
+/**
+ * Details every segment of a split series shares; an "all events" edit
+ * across segments copies these, and segments must agree on them to merge
+ */
+const SEGMENT_FIELDS = [
+  'title',
+  'description',
+  'location',
+  'categoryId',
+  'color',
+  'visibility',
+] as const;
+
 // ─── Helpers ────────────────────────────────────────────────────────
 
-function toEventResponse(row: EventRow): EventResponse {
+function toDates(isoDates: string[] | undefined): Date[] {
+  return (isoDates ?? []).map((d) => new Date(d));
+}
+
+/** An RRULE without its UNTIL or COUNT, so it runs on forever */
+function withoutRuleEnd(rrule: string): string {
+  return rrule.replace(/;?(UNTIL|COUNT)=[^;]*/g, '');
+}
+
+/** Extra dates that stay with a series cut off at `splitDate` */
+function datesBefore(dates: Date[] | null, splitDate: Date): Date[] {
+  return (dates ?? []).filter((d) => d.getTime() < splitDate.getTime());
+}
+
+/** Extra dates that move to the series starting at `splitDate` */
+function datesFrom(dates: Date[] | null, splitDate: Date): Date[] {
+  return (dates ?? []).filter((d) => d.getTime() >= splitDate.getTime());
+}
+
+function toEventResponse(row: EventRow, tagIds: string[] = []): EventResponse {
   return {
     id: row.id,
     userId: row.userId,
@@ -88,66 +207,83 @@ function toEventResponse(row: EventRow): EventResponse {
     location: row.location,
     startAt: row.startAt.toISOString(),
     endAt: row.endAt.toISOString(),
+    timezone: row.timezone ?? null,
+    endTimezone: row.endTimezone ?? null,
     isAllDay: row.isAllDay,
     color: row.color,
     visibility: row.visibility,
     rrule: row.rrule,
     exDates: (row.exDates ?? []).map((d) => d.toISOString()),
+    rDates: (row.rDates ?? []).map((d) => d.toISOString()),
+    skipHolidays: row.skipHolidays ?? null,
+    seriesId: row.seriesId ?? null,
     recurringEventId: row.recurringEventId,
     originalDate: row.originalDate ? row.originalDate.toISOString() : null,
+    tagIds,
+    taskId: row.taskId ?? null,
+    completedAt: row.completedAt ? row.completedAt.toISOString() : null,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
     deletedAt: row.deletedAt ? row.deletedAt.toISOString() : null,
   };
 }
 
-function toExceptionResponse(row: EventExceptionRow): EventExceptionResponse {
+function toSegmentResponse(row: EventRow, mergeable: boolean): SeriesSegmentResponse {
+  const until = row.rrule ? recurrenceService.ruleUntil(row.rrule) : null;
   return {
     id: row.id,
-    recurringEventId: row.recurringEventId,
-    userId: row.userId,
-    originalDate: row.originalDate.toISOString(),
-    overrides: row.overrides,
-    createdAt: row.createdAt.toISOString(),
-    updatedAt: row.updatedAt.toISOString(),
+    title: row.title,
+    startAt: row.startAt.toISOString(),
+    rrule: row.rrule,
+    until: until ? until.toISOString() : null,
+    mergeable,
   };
 }
 
 /**
- * Escape a text value for inclusion in an ICS file.
- * Per RFC 5545: backslash, semicolons, commas, and newlines must be escaped.
+ * When a deleted event drops out of the trash for good.
  */
-function escapeIcsText(text: string): string {
-  return text
-    .replace(/\\/g, '\\\\')
-    .replace(/;/g, '\\;')
-    .replace(/,/g, '\\,')
-    .replace(/\n/g, '\\n');
+function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
 }
 
 /**
- * Strip HTML tags to produce plain text for ICS DESCRIPTION.
+ * Strip the details from an event shown to a free/busy-only member.
+ * Times and recurrence stay so the slot still renders as busy.
  */
-function stripHtml(html: string): string {
-  return html.replace(/<[^>]*>/g, '').trim();
+function toBusyResponse(event: EventResponse): EventResponse {
+  return { ...event, title: 'Busy', description: null, location: null };
 }
 
 /**
- * Fold long lines for ICS output (max 75 octets per line, per RFC 5545 §3.1).
+ * Timezone columns for a create or update. All-day events float, and an
+ * end timezone equal to the start's is stored as null.
  */
-function foldIcsLine(line: string): string {
-  const maxLen = 75;
-  if (line.length <= maxLen) return line;
-
-  const parts: string[] = [];
-  parts.push(line.slice(0, maxLen));
-  let pos = maxLen;
-  while (pos < line.length) {
-    // Continuation lines start with a single space
-    parts.push(' ' + line.slice(pos, pos + maxLen - 1));
-    pos += maxLen - 1;
-  }
-  return parts.join('\r\n');
+function toTimeZoneValues(data: {
+  isAllDay?: boolean;
+  timezone?: string | null;
+  endTimezone?: string | null;
+}): { timezone?: string | null; endTimezone?: string | null } {
+  if (data.isAllDay || data.timezone === null) return { timezone: null, endTimezone: null };
+
+  const values: { timezone?: string | null; endTimezone?: string | null } = {};
+  if (data.timezone !== undefined) values.timezone = data.timezone;
+  if (data.endTimezone !== undefined) {
+    values.endTimezone = data.endTimezone === data.timezone ? null : data.endTimezone;
+  }
+  return values;
+}
+
+function toExceptionResponse(row: EventExceptionRow): EventExceptionResponse {
+  return {
+    id: row.id,
+    recurringEventId: row.recurringEventId,
+    userId: row.userId,
+    originalDate: row.originalDate.toISOString(),
+    overrides: row.overrides,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
 }
 
 // ─── Service ────────────────────────────────────────────────────────
@@ -157,18 +293,37 @@ export class EventService {
    * List events within a date range for a user.
    * Includes regular events in range and expands recurring event
    * parents into individual instances using the recurrence service.
+   * With `tagIds`, only events carrying any of the user's given tags
+   * are returned. Pass `tx` to read inside a caller's transaction.
    */
   async listEvents(
     userId: string,
     start: string,
     end: string,
     categoryIds?: string[],
+    tagIds?: string[],
+    tx: Transaction | typeof db = db,
   ): Promise<EventResponse[]> {
     const startDate = new Date(start);
     const endDate = new Date(end);
 
+    // Calendars other users have shared with this user
+    const shares = (await calendarShareService.getMemberShares(userId, tx)).filter(
+      (share) => !categoryIds?.length || categoryIds.includes(share.categoryId),
+    );
+    const ownership =
+      shares.length > 0
+        ? or(
+            eq(events.userId, userId),
+            inArray(
+              events.categoryId,
+              shares.map((share) => share.categoryId),
+            ),
+          )!
+        : eq(events.userId, userId);
+
     const conditions = [
-      eq(events.userId, userId),
+      ownership,
       isNull(events.deletedAt),
       // Event overlaps the query range:
       // event.startAt < rangeEnd AND event.endAt > rangeStart
@@ -186,7 +341,7 @@ export class EventService {
     // the user so the recurrence service can expand them.
     const nonRecurringConditions = [...conditions, isNull(events.rrule)];
     const recurringConditions = [
-      eq(events.userId, userId),
+      ownership,
       isNull(events.deletedAt),
       isNotNull(events.rrule),
       isNull(events.recurringEventId), // Only parent events
@@ -196,14 +351,20 @@ export class EventService {
       recurringConditions.push(inArray(events.categoryId, categoryIds));
     }
 
+    if (tagIds && tagIds.length > 0) {
+      const tagged = inArray(events.id, tagService.taggedItemIds(userId, 'event', tagIds));
+      nonRecurringConditions.push(tagged);
+      recurringConditions.push(tagged);
+    }
+
     const [regularEvents, recurringParents] = await Promise.all([
       // Regular (non-recurring) events in range
-      db.query.events.findMany({
+      tx.query.events.findMany({
         where: and(...nonRecurringConditions, isNull(events.recurringEventId)),
       }),
 
       // Recurring parent events (fetched regardless of date range for expansion)
-      db.query.events.findMany({
+      tx.query.events.findMany({
         where: and(...recurringConditions),
       }),
     ]);
@@ -218,16 +379,52 @@ export class EventService {
       return true;
     });
 
-    const serialized = deduped.map((e) => toEventResponse(e as EventRow));
+    const tagIdsByEvent = await tagService.getItemTagIds(
+      userId,
+      'event',
+      deduped.map((e) => e.id),
+      tx,
+    );
+    const serialized = deduped.map((e) =>
+      toEventResponse(e as EventRow, tagIdsByEvent.get(e.id) ?? []),
+    );
 
-    // Fetch exception overrides for recurring parents
-    const recurringParentIds = recurringParents.map((e) => e.id);
-    const exceptions = await this.getExceptionOverrides(userId, recurringParentIds);
+    // Fetch exception overrides for recurring parents. Exceptions belong to
+    // the series owner, so shared series are looked up per owner.
+    const parentIdsByOwner = new Map<string, string[]>();
+    for (const parent of recurringParents) {
+      parentIdsByOwner.set(parent.userId, [
+        ...(parentIdsByOwner.get(parent.userId) ?? []),
+        parent.id,
+      ]);
+    }
+    const exceptions = (
+      await Promise.all(
+        [...parentIdsByOwner].map(([ownerId, ids]) => this.getExceptionOverrides(ownerId, ids, tx)),
+      )
+    ).flat();
 
     // Expand recurring events into instances within the date range
-    const expanded = recurrenceService.expandRecurringEvents(serialized, start, end, exceptions);
+    const expanded = recurrenceService.expandRecurringEvents(
+      serialized,
+      start,
+      end,
+      exceptions,
+    ) as EventResponse[];
+
+    // Free/busy members only see when shared events happen. Instances keep
+    // their parent's id, so masking by id also covers exception overrides.
+    const busyCategoryIds = new Set(
+      shares.filter((share) => share.permission === 'freebusy').map((share) => share.categoryId),
+    );
+    if (busyCategoryIds.size === 0) return expanded;
 
-    return expanded as EventResponse[];
+    const busyEventIds = new Set(
+      deduped
+        .filter((e) => e.userId !== userId && busyCategoryIds.has(e.categoryId))
+        .map((e) => e.id),
+    );
+    return expanded.map((e) => (busyEventIds.has(e.id) ? toBusyResponse(e) : e));
   }
 
   /**
@@ -237,10 +434,11 @@ export class EventService {
   async getExceptionOverrides(
     userId: string,
     recurringEventIds: string[],
+    tx: Transaction | typeof db = db,
   ): Promise<EventExceptionResponse[]> {
     if (recurringEventIds.length === 0) return [];
 
-    const exceptions = await db.query.eventExceptions.findMany({
+    const exceptions = await tx.query.eventExceptions.findMany({
       where: and(
         eq(eventExceptions.userId, userId),
         inArray(eventExceptions.recurringEventId, recurringEventIds),
@@ -252,27 +450,31 @@ export class EventService {
   }
 
   /**
-   * Get a single event by ID with ownership check.
+   * Get a single event by ID. Events in calendars shared with the user
+   * are returned too, without details for free/busy-only members.
    */
   async getEvent(userId: string, eventId: string): Promise<EventResponse> {
-    const event = await db.query.events.findFirst({
-      where: and(eq(events.id, eventId), eq(events.userId, userId), isNull(events.deletedAt)),
-    });
+    const { event, permission } = await this.findAccessibleEvent(userId, eventId, 'freebusy');
 
-    if (!event) {
-      throw new AppError(404, 'NOT_FOUND', 'Event not found');
-    }
-
-    return toEventResponse(event as EventRow);
+    const response = toEventResponse(event, await this.loadTagIds(userId, event.id));
+    return permission === 'freebusy' ? toBusyResponse(response) : response;
   }
 
   /**
    * Create a new event.
    * Sanitizes description HTML. Optionally creates a reminder.
+   * With `taskId`, the event becomes the task's focus block and the
+   * task's `scheduledAt` is set to its start. Pass `tx` to create the
+   * event inside a caller's transaction, so it rolls back with it.
    */
-  async createEvent(userId: string, data: CreateEventInput): Promise<EventResponse> {
-    // Validate category belongs to user
-    await this.validateCategory(userId, data.categoryId);
+  async createEvent(
+    userId: string,
+    data: CreateEventInput,
+    tx: Transaction | typeof db = db,
+  ): Promise<EventResponse> {
+    // The category's owner owns the event, even when a member with edit
+    // access creates it in a shared calendar
+    const ownerId = await this.resolveCategoryOwner(userId, data.categoryId, tx);
 
     // Sanitize description HTML if present
     const description = data.description ? sanitizeHtml(data.description) : null;
@@ -282,27 +484,48 @@ export class EventService {
       this.validateRrule(data.rrule);
     }
 
-    const event = await db.transaction(async (tx) => {
+    if (data.tagIds) {
+      await tagService.validateTagIds(userId, data.tagIds, tx);
+    }
+
+    const focusTask = data.taskId ? await this.findFocusTask(userId, data.taskId, tx) : null;
+
+    const event = await tx.transaction(async (tx) => {
       const [inserted] = await tx
         .insert(events)
         .values({
-          userId,
+          userId: ownerId,
           categoryId: data.categoryId,
           title: data.title,
           description,
           location: data.location ?? null,
           startAt: new Date(data.startAt),
           endAt: new Date(data.endAt),
+          timezone: null,
+          endTimezone: null,
+          ...toTimeZoneValues(data),
           isAllDay: data.isAllDay,
           color: data.color ?? null,
           visibility: data.visibility ?? 'private',
           rrule: data.rrule ?? null,
+          rDates: data.rrule ? toDates(data.rDates) : [],
+          skipHolidays: data.rrule ? (data.skipHolidays ?? null) : null,
+          taskId: focusTask?.id ?? null,
+          completedAt: focusTask?.status === 'done' ? focusTask.completedAt : null,
         })
         .returning();
 
-      // Create reminder if specified
+      if (focusTask) {
+        await tx
+          .update(tasks)
+          .set({ scheduledAt: inserted.startAt, updatedAt: new Date() })
+          .where(eq(tasks.id, focusTask.id));
+      }
+
+      // Create reminder if specified. Reminders can only be set on the
+      // user's own events, so it's skipped in shared calendars.
       let inlineReminder: typeof reminders.$inferSelect | null = null;
-      if (data.reminder) {
+      if (data.reminder && ownerId === userId) {
         const triggerAt = new Date(
           new Date(data.startAt).getTime() - data.reminder.minutesBefore * 60 * 1000,
         );
@@ -321,6 +544,10 @@ export class EventService {
         inlineReminder = created;
       }
 
+      if (data.tagIds?.length) {
+        await tagService.setItemTags(userId, 'event', inserted.id, data.tagIds, tx);
+      }
+
       return { inserted, inlineReminder };
     });
 
@@ -351,9 +578,9 @@ export class EventService {
 
     logger.info({ userId, eventId: event.inserted.id }, 'Event created');
 
-    const response = toEventResponse(event.inserted as EventRow);
+    const response = toEventResponse(event.inserted as EventRow, [...new Set(data.tagIds ?? [])]);
 
-    sseService.emit(userId, 'event:created', {
+    this.emitEventChange(ownerId, [response.categoryId], 'event:created', {
       id: response.id,
       title: response.title,
       startAt: response.startAt,
@@ -373,6 +600,12 @@ export class EventService {
    * - 'following': Splits the series — original ends before instanceDate,
    *   new series starts from instanceDate with updates applied.
    * - 'all': Updates the parent event directly (all instances affected).
+   *   With `allSegments`, the series-wide details also go to every other
+   *   segment the series was split into.
+   *
+   * Tags belong to the whole series, so `tagIds` on an instance edit
+   * re-tags the parent event. Pass `tx` to apply the edit inside a
+   * caller's transaction.
    */
   async updateEvent(
     userId: string,
@@ -380,18 +613,16 @@ export class EventService {
     data: UpdateEventInput,
     scope?: EditScope,
     instanceDate?: string,
+    allSegments = false,
+    tx: Transaction | typeof db = db,
   ): Promise<EventResponse | EventExceptionResponse> {
-    const event = await db.query.events.findFirst({
-      where: and(eq(events.id, eventId), eq(events.userId, userId), isNull(events.deletedAt)),
-    });
+    // Members with edit access act on the owner's behalf from here on
+    const { event, ownerId } = await this.findAccessibleEvent(userId, eventId, 'edit', tx);
 
-    if (!event) {
-      throw new AppError(404, 'NOT_FOUND', 'Event not found');
-    }
-
-    // Validate category if being changed
+    // Validate category if being changed. Events can't move to another
+    // user's calendar, so the new category must also be the owner's.
     if (data.categoryId) {
-      await this.validateCategory(userId, data.categoryId);
+      await this.validateCategory(ownerId, data.categoryId, tx);
     }
 
     // Sanitize description if provided
@@ -405,24 +636,27 @@ export class EventService {
       this.validateRrule(sanitizedData.rrule);
     }
 
-    const isRecurring = event.rrule !== null;
-
-    // Non-recurring event or no scope specified: direct update
-    if (!isRecurring || !scope) {
-      return this.directUpdate(userId, eventId, sanitizedData);
+    if (data.tagIds) {
+      await tagService.validateTagIds(userId, data.tagIds, tx);
     }
 
-    // Recurring event with scope
-    switch (scope) {
-      case 'instance':
-        return this.updateInstance(userId, event as EventRow, sanitizedData, instanceDate);
-      case 'following':
-        return this.updateFollowing(userId, event as EventRow, sanitizedData, instanceDate);
-      case 'all':
-        return this.directUpdate(userId, eventId, sanitizedData);
-      default:
-        throw new AppError(400, 'VALIDATION_ERROR', `Invalid scope: ${scope}`);
+    const result = await this.applyUpdate(ownerId, event, sanitizedData, scope, instanceDate, tx);
+    const isException = 'overrides' in result;
+    const taggedId = isException ? event.id : result.id;
+
+    const otherSegmentIds =
+      scope === 'all' && allSegments && event.seriesId
+        ? await this.updateOtherSegments(ownerId, event, sanitizedData, tx)
+        : [];
+
+    if (data.tagIds !== undefined) {
+      for (const id of [taggedId, ...otherSegmentIds]) {
+        await tagService.setItemTags(userId, 'event', id, data.tagIds, tx);
+      }
     }
+
+    if (isException) return result;
+    return { ...result, tagIds: await this.loadTagIds(userId, taggedId, tx) };
   }
 
   /**
@@ -440,40 +674,104 @@ export class EventService {
     scope?: EditScope,
     instanceDate?: string,
   ): Promise<void> {
-    const event = await db.query.events.findFirst({
-      where: and(eq(events.id, eventId), eq(events.userId, userId), isNull(events.deletedAt)),
-    });
-
-    if (!event) {
-      throw new AppError(404, 'NOT_FOUND', 'Event not found');
-    }
+    const { event, ownerId } = await this.findAccessibleEvent(userId, eventId, 'edit');
 
     const isRecurring = event.rrule !== null;
 
     // Non-recurring or no scope: simple soft delete
     if (!isRecurring || !scope) {
-      await this.softDelete(userId, eventId);
+      await this.softDelete(ownerId, eventId);
+      if (event.taskId) {
+        await this.setTaskSchedule(event.taskId, null);
+      }
       logger.info({ userId, eventId }, 'Event deleted');
-      sseService.emit(userId, 'event:deleted', { id: eventId });
+      this.emitEventChange(ownerId, [event.categoryId], 'event:deleted', { id: eventId });
+      this.notifyAttendees(ownerId, eventId, 'cancelled');
       return;
     }
 
     switch (scope) {
       case 'instance':
-        await this.deleteInstance(userId, event as EventRow, instanceDate);
+        await this.deleteInstance(ownerId, event, instanceDate);
         break;
       case 'following':
-        await this.deleteFollowing(userId, event as EventRow, instanceDate);
+        await this.deleteFollowing(ownerId, event, instanceDate);
         break;
       case 'all':
-        await this.deleteAll(userId, eventId);
+        await this.deleteAll(ownerId, eventId);
         break;
       default:
         throw new AppError(400, 'VALIDATION_ERROR', `Invalid scope: ${scope}`);
     }
 
     logger.info({ userId, eventId, scope }, 'Event deleted');
-    sseService.emit(userId, 'event:deleted', { id: eventId, scope });
+    this.emitEventChange(ownerId, [event.categoryId], 'event:deleted', { id: eventId, scope });
+    // Removing instances changes the parent's EXDATE or UNTIL
+    this.notifyAttendees(ownerId, eventId, scope === 'all' ? 'cancelled' : 'updated');
+  }
+
+  /**
+   * Bring back a skipped occurrence of a recurring series. Its date leaves
+   * the parent's exDates, and the override it had when it was skipped
+   * comes back with it.
+   */
+  async restoreInstance(
+    userId: string,
+    eventId: string,
+    instanceDate: string,
+  ): Promise<EventResponse> {
+    const { event, ownerId } = await this.findAccessibleEvent(userId, eventId, 'edit');
+
+    const origDate = new Date(instanceDate);
+    origDate.setMilliseconds(0);
+    const exDates = event.exDates ?? [];
+
+    if (!event.rrule || !exDates.some((d) => d.getTime() === origDate.getTime())) {
+      throw new AppError(404, 'NOT_FOUND', 'Skipped occurrence not found');
+    }
+
+    const restored = await db.transaction(async (tx) => {
+      // Editing an instance again soft-deletes its earlier overrides, so only
+      // the latest one is the override the skip hid
+      const hidden = await tx.query.eventExceptions.findFirst({
+        where: and(
+          eq(eventExceptions.recurringEventId, eventId),
+          eq(eventExceptions.userId, ownerId),
+          eq(eventExceptions.originalDate, origDate),
+          isNotNull(eventExceptions.deletedAt),
+        ),
+        orderBy: [desc(eventExceptions.deletedAt)],
+      });
+
+      if (hidden) {
+        await tx
+          .update(eventExceptions)
+          .set({ deletedAt: null })
+          .where(eq(eventExceptions.id, hidden.id));
+      }
+
+      const [updated] = await tx
+        .update(events)
+        .set({
+          exDates: exDates.filter((d) => d.getTime() !== origDate.getTime()),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(events.id, eventId), eq(events.userId, ownerId), isNull(events.deletedAt)))
+        .returning();
+      return updated;
+    });
+
+    logger.info({ userId, eventId, instanceDate }, 'Event occurrence restored');
+
+    const response = toEventResponse(restored as EventRow, await this.loadTagIds(userId, eventId));
+
+    this.emitEventChange(ownerId, [event.categoryId], 'event:updated', {
+      id: eventId,
+      instanceDate: origDate.toISOString(),
+    });
+    this.notifyAttendees(ownerId, eventId, 'updated');
+
+    return response;
   }
 
   /**
@@ -481,39 +779,43 @@ export class EventService {
    * Creates a copy without recurrence settings or parent linkage.
    */
   async duplicateEvent(userId: string, eventId: string): Promise<EventResponse> {
-    const event = await db.query.events.findFirst({
-      where: and(eq(events.id, eventId), eq(events.userId, userId), isNull(events.deletedAt)),
-    });
+    const { event, ownerId } = await this.findAccessibleEvent(userId, eventId, 'edit');
 
-    if (!event) {
-      throw new AppError(404, 'NOT_FOUND', 'Event not found');
-    }
+    const duplicate = await db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(events)
+        .values({
+          userId: ownerId,
+          categoryId: event.categoryId,
+          title: event.title,
+          description: event.description,
+          location: event.location,
+          startAt: event.startAt,
+          endAt: event.endAt,
+          timezone: event.timezone,
+          endTimezone: event.endTimezone,
+          isAllDay: event.isAllDay,
+          color: event.color,
+          visibility: event.visibility,
+          // Duplicate is standalone: no recurrence, no parent link
+          rrule: null,
+          recurringEventId: null,
+          originalDate: null,
+        })
+        .returning();
 
-    const [duplicate] = await db
-      .insert(events)
-      .values({
-        userId,
-        categoryId: event.categoryId,
-        title: event.title,
-        description: event.description,
-        location: event.location,
-        startAt: event.startAt,
-        endAt: event.endAt,
-        isAllDay: event.isAllDay,
-        color: event.color,
-        visibility: event.visibility,
-        // Duplicate is standalone: no recurrence, no parent link
-        rrule: null,
-        recurringEventId: null,
-        originalDate: null,
-      })
-      .returning();
+      await tagService.copyItemTags('event', event.id, inserted.id, tx);
+      return inserted;
+    });
 
     logger.info({ userId, eventId: duplicate.id, sourceEventId: eventId }, 'Event duplicated');
 
-    const response = toEventResponse(duplicate as EventRow);
+    const response = toEventResponse(
+      duplicate as EventRow,
+      await this.loadTagIds(userId, duplicate.id),
+    );
 
-    sseService.emit(userId, 'event:created', {
+    this.emitEventChange(ownerId, [response.categoryId], 'event:created', {
       id: response.id,
       title: response.title,
       startAt: response.startAt,
@@ -529,24 +831,470 @@ export class EventService {
    * Returns the .ics file content as a string.
    */
   async exportIcs(userId: string, eventId: string): Promise<string> {
+    const { event } = await this.findAccessibleEvent(userId, eventId, 'read');
+
+    return this.generateIcs(event);
+  }
+
+  // ─── Recurrence Preview ─────────────────────────────────────────────
+
+  /**
+   * The next start times of a recurrence rule as it is being edited, so
+   * the builder shows exactly what the server will expand.
+   */
+  async previewRecurrence(
+    userId: string,
+    input: RecurrencePreviewInput,
+  ): Promise<RecurrencePreviewResponse> {
+    // A saved series also shows the exception overrides on its occurrences
+    let exceptions: EventExceptionResponse[] = [];
+    if (input.eventId) {
+      const { event, ownerId } = await this.findAccessibleEvent(userId, input.eventId, 'read');
+      exceptions = await this.getExceptionOverrides(ownerId, [event.id]);
+    }
+
+    const instances = recurrenceService.inspectSeries(
+      {
+        startAt: input.startAt,
+        timezone: input.timezone ?? null,
+        isAllDay: input.isAllDay,
+        rrule: input.rrule,
+        exDates: input.exDates,
+        rDates: input.rDates,
+        skipHolidays: input.skipHolidays ?? null,
+      },
+      input.count,
+      exceptions,
+    );
+
+    return {
+      occurrences: instances.filter((i) => !i.skipped).map((i) => i.date),
+      instances,
+    };
+  }
+
+  // ─── Series Lineage ─────────────────────────────────────────────────
+
+  /**
+   * The segments a series was split into by "this and following" edits,
+   * in order, each marked with whether it can be merged back into the
+   * one before it. A series that was never split is its only segment.
+   */
+  async getSeriesLineage(userId: string, eventId: string): Promise<SeriesSegmentResponse[]> {
+    const { event, ownerId } = await this.findAccessibleEvent(userId, eventId, 'read');
+    const segments = event.seriesId ? await this.loadSegments(ownerId, event.seriesId) : [event];
+    const people =
+      segments.length > 1
+        ? await this.loadSegmentPeople(
+            ownerId,
+            segments.map((s) => s.id),
+          )
+        : new Map<string, string>();
+
+    return segments.map((segment, i) =>
+      toSegmentResponse(segment, i > 0 && this.canMerge(segments[i - 1], segment, people)),
+    );
+  }
+
+  /**
+   * Merge a segment back into the one before it, once it carries that
+   * one on under the same rule with the same details. The earlier segment
+   * takes over its end, extra dates, skipped dates and exception
+   * overrides, and the merged segment goes to the trash. Its attendees
+   * get a cancellation, as they're invited to the earlier segment too.
+   */
+  async mergeSegment(userId: string, eventId: string): Promise<EventResponse> {
+    const { event, ownerId } = await this.findAccessibleEvent(userId, eventId, 'edit');
+    const segments = event.seriesId ? await this.loadSegments(ownerId, event.seriesId) : [event];
+    const earlier = segments[segments.findIndex((s) => s.id === event.id) - 1];
+    const people = earlier
+      ? await this.loadSegmentPeople(ownerId, [earlier.id, event.id])
+      : new Map<string, string>();
+
+    if (!earlier || !this.canMerge(earlier, event, people)) {
+      throw new AppError(
+        409,
+        'CONFLICT',
+        'This part of the series no longer follows on from the one before it',
+      );
+    }
+
+    // The merged series ends where the later segment did
+    const laterUntil = event.rrule!.match(/UNTIL=[^;]*/)?.[0];
+    const mergedRrule = laterUntil
+      ? `${withoutRuleEnd(earlier.rrule!)};${laterUntil}`
+      : withoutRuleEnd(earlier.rrule!);
+
+    const merged = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(events)
+        .set({
+          rrule: mergedRrule,
+          rDates: [...(earlier.rDates ?? []), ...(event.rDates ?? [])],
+          exDates: [...(earlier.exDates ?? []), ...(event.exDates ?? [])],
+          updatedAt: new Date(),
+        })
+        .where(and(eq(events.id, earlier.id), eq(events.userId, ownerId), isNull(events.deletedAt)))
+        .returning();
+
+      await tx
+        .update(eventExceptions)
+        .set({ recurringEventId: earlier.id, updatedAt: new Date() })
+        .where(
+          and(eq(eventExceptions.recurringEventId, event.id), eq(eventExceptions.userId, ownerId)),
+        );
+
+      await tx
+        .update(events)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(events.id, event.id), eq(events.userId, ownerId), isNull(events.deletedAt)));
+
+      return updated;
+    });
+
+    logger.info(
+      { userId, seriesId: event.seriesId, eventId, mergedIntoId: earlier.id },
+      'Series segments merged',
+    );
+
+    const response = toEventResponse(merged as EventRow, await this.loadTagIds(userId, merged.id));
+
+    this.emitEventChange(ownerId, [event.categoryId], 'event:deleted', { id: event.id });
+    this.emitEventChange(ownerId, [response.categoryId], 'event:updated', { id: response.id });
+    this.notifyAttendees(ownerId, event.id, 'cancelled');
+    this.notifyAttendees(ownerId, response.id, 'updated');
+
+    return response;
+  }
+
+  // ─── Trash ──────────────────────────────────────────────────────────
+
+  /**
+   * The user's own deleted events still inside the retention window,
+   * newest first. Exception instances come back with their series, so
+   * only standalone events and series parents are listed.
+   */
+  async listDeletedEvents(userId: string): Promise<TrashedEventResponse[]> {
+    const rows = await db.query.events.findMany({
+      where: and(
+        eq(events.userId, userId),
+        isNotNull(events.deletedAt),
+        isNull(events.recurringEventId),
+      ),
+      orderBy: [desc(events.deletedAt)],
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      categoryId: row.categoryId,
+      startAt: row.startAt.toISOString(),
+      isAllDay: row.isAllDay,
+      rrule: row.rrule,
+      deletedAt: row.deletedAt!.toISOString(),
+      purgeAt: purgeDate(row.deletedAt!).toISOString(),
+    }));
+  }
+
+  /**
+   * Restore a deleted event with the exception overrides that were
+   * deleted along with it. A focus block takes its task's schedule back.
+   */
+  async restoreEvent(userId: string, eventId: string): Promise<EventResponse> {
     const event = await db.query.events.findFirst({
-      where: and(eq(events.id, eventId), eq(events.userId, userId), isNull(events.deletedAt)),
+      where: and(eq(events.id, eventId), eq(events.userId, userId), isNotNull(events.deletedAt)),
     });
 
     if (!event) {
-      throw new AppError(404, 'NOT_FOUND', 'Event not found');
+      throw new AppError(404, 'NOT_FOUND', 'Event not found in trash');
+    }
+
+    const deletedAt = event.deletedAt!;
+    const restored = await db.transaction(async (tx) => {
+      await tx
+        .update(eventExceptions)
+        .set({ deletedAt: null })
+        .where(
+          and(
+            eq(eventExceptions.recurringEventId, eventId),
+            eq(eventExceptions.userId, userId),
+            eq(eventExceptions.deletedAt, deletedAt),
+          ),
+        );
+
+      const [updated] = await tx
+        .update(events)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(and(eq(events.id, eventId), eq(events.userId, userId)))
+        .returning();
+      return updated;
+    });
+
+    if (restored.taskId) {
+      await this.setTaskSchedule(restored.taskId, restored.startAt);
+    }
+
+    logger.info({ userId, eventId }, 'Event restored');
+
+    const response = toEventResponse(restored as EventRow, await this.loadTagIds(userId, eventId));
+
+    this.emitEventChange(userId, [response.categoryId], 'event:created', {
+      id: response.id,
+      title: response.title,
+      startAt: response.startAt,
+      endAt: response.endAt,
+      categoryId: response.categoryId,
+    });
+    this.notifyAttendees(userId, eventId, 'updated');
+
+    return response;
+  }
+
+  /**
+   * Permanently delete an event from the trash. Its exception overrides
+   * and instances go with it through the foreign keys.
+   */
+  async purgeEvent(userId: string, eventId: string): Promise<void> {
+    const purged = await db.transaction(async (tx) => {
+      // Exception instances go with their series through the foreign key
+      const instances = await tx
+        .select({ id: events.id })
+        .from(events)
+        .where(and(eq(events.recurringEventId, eventId), eq(events.userId, userId)));
+
+      const result = await tx
+        .delete(events)
+        .where(and(eq(events.id, eventId), eq(events.userId, userId), isNotNull(events.deletedAt)))
+        .returning({ id: events.id });
+      if (result.length === 0) return false;
+
+      await tagService.deleteItemTags('event', [eventId, ...instances.map((i) => i.id)], tx);
+      return true;
+    });
+
+    if (!purged) {
+      throw new AppError(404, 'NOT_FOUND', 'Event not found in trash');
     }
 
-    return this.generateIcs(event as EventRow);
+    logger.info({ userId, eventId }, 'Event permanently deleted');
   }
 
   // ─── Private Helpers ────────────────────────────────────────────────
 
+  /**
+   * The user's tag IDs on a single event.
+   */
+  private async loadTagIds(
+    userId: string,
+    eventId: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<string[]> {
+    const tagIds = await tagService.getItemTagIds(userId, 'event', [eventId], tx);
+    return tagIds.get(eventId) ?? [];
+  }
+
+  /**
+   * The live segments of a split series, in the order they run.
+   */
+  private async loadSegments(userId: string, seriesId: string): Promise<EventRow[]> {
+    const rows = await db.query.events.findMany({
+      where: and(
+        eq(events.seriesId, seriesId),
+        eq(events.userId, userId),
+        isNull(events.deletedAt),
+      ),
+      orderBy: [asc(events.startAt)],
+    });
+    return rows as EventRow[];
+  }
+
+  /**
+   * The tags and attendees of each segment, as a key that's equal for
+   * segments with the same ones. A merge keeps only the earlier segment's.
+   */
+  private async loadSegmentPeople(
+    userId: string,
+    segmentIds: string[],
+  ): Promise<Map<string, string>> {
+    const [tagIds, attendees] = await Promise.all([
+      tagService.getItemTagIds(userId, 'event', segmentIds),
+      db.query.eventAttendees.findMany({
+        where: inArray(eventAttendees.eventId, segmentIds),
+        columns: { eventId: true, email: true },
+      }),
+    ]);
+
+    return new Map(
+      segmentIds.map((id) => [
+        id,
+        JSON.stringify([
+          [...(tagIds.get(id) ?? [])].sort(),
+          attendees
+            .filter((a) => a.eventId === id)
+            .map((a) => a.email.toLowerCase())
+            .sort(),
+        ]),
+      ]),
+    );
+  }
+
+  /**
+   * Whether `later` carries `earlier` on, under the same rule and with
+   * the same details, tags and attendees, so the two can be one series
+   * again. A COUNT can't be kept across a merge, so a segment with one
+   * never merges.
+   */
+  private canMerge(earlier: EventRow, later: EventRow, people: Map<string, string>): boolean {
+    if (!earlier.rrule || !later.rrule) return false;
+    if (/COUNT=/.test(earlier.rrule) || /COUNT=/.test(later.rrule)) return false;
+    if (withoutRuleEnd(earlier.rrule) !== withoutRuleEnd(later.rrule)) return false;
+
+    const sameDetails =
+      SEGMENT_FIELDS.every((field) => earlier[field] === later[field]) &&
+      earlier.isAllDay === later.isAllDay &&
+      earlier.timezone === later.timezone &&
+      earlier.endTimezone === later.endTimezone &&
+      earlier.skipHolidays === later.skipHolidays &&
+      earlier.endAt.getTime() - earlier.startAt.getTime() ===
+        later.endAt.getTime() - later.startAt.getTime() &&
+      people.get(earlier.id) === people.get(later.id);
+    if (!sameDetails) return false;
+
+    return recurrenceService.continuesAt(
+      {
+        startAt: earlier.startAt.toISOString(),
+        timezone: earlier.timezone,
+        isAllDay: earlier.isAllDay,
+        rrule: earlier.rrule,
+        exDates: [],
+        rDates: [],
+        skipHolidays: null,
+      },
+      later.startAt,
+    );
+  }
+
+  /**
+   * Copy an "all events" edit to the other segments of a split series.
+   * Only the series-wide details go across; each segment keeps its own
+   * times and rule. Returns the IDs of the segments updated.
+   */
+  private async updateOtherSegments(
+    userId: string,
+    event: EventRow,
+    data: UpdateEventInput,
+    tx: Transaction | typeof db = db,
+  ): Promise<string[]> {
+    const changes = Object.fromEntries(
+      SEGMENT_FIELDS.filter((field) => data[field] !== undefined).map((field) => [
+        field,
+        data[field],
+      ]),
+    );
+
+    const updated = await tx
+      .update(events)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(
+        and(
+          eq(events.seriesId, event.seriesId!),
+          ne(events.id, event.id),
+          eq(events.userId, userId),
+          isNull(events.deletedAt),
+        ),
+      )
+      .returning({ id: events.id, categoryId: events.categoryId });
+
+    const notify = INVITATION_FIELDS.some((field) => field in changes);
+    for (const segment of updated) {
+      this.emitEventChange(userId, [event.categoryId, segment.categoryId], 'event:updated', {
+        id: segment.id,
+        ...changes,
+      });
+      if (notify) this.notifyAttendees(userId, segment.id, 'updated');
+    }
+
+    logger.info(
+      { userId, eventId: event.id, seriesId: event.seriesId, segments: updated.length },
+      'Series segments updated',
+    );
+
+    return updated.map((segment) => segment.id);
+  }
+
+  /**
+   * Apply an update according to its scope (see `updateEvent`).
+   */
+  private async applyUpdate(
+    userId: string,
+    event: EventRow,
+    data: UpdateEventInput,
+    scope?: EditScope,
+    instanceDate?: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<EventResponse | EventExceptionResponse> {
+    const isRecurring = event.rrule !== null;
+
+    // Non-recurring event or no scope specified: direct update
+    if (!isRecurring || !scope) {
+      return this.directUpdate(userId, event, data, tx);
+    }
+
+    // Recurring event with scope
+    switch (scope) {
+      case 'instance':
+        return this.updateInstance(userId, event, data, instanceDate, tx);
+      case 'following':
+        return this.updateFollowing(userId, event, data, instanceDate, tx);
+      case 'all':
+        return this.directUpdate(userId, event, data, tx);
+      default:
+        throw new AppError(400, 'VALIDATION_ERROR', `Invalid scope: ${scope}`);
+    }
+  }
+
+  /**
+   * Look up a task the user wants to time-block. Only one-off tasks can
+   * have a focus block, and only one at a time.
+   */
+  private async findFocusTask(userId: string, taskId: string, tx: Transaction | typeof db = db) {
+    const task = await tx.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+    });
+
+    if (!task) {
+      throw new AppError(404, 'NOT_FOUND', 'Task not found');
+    }
+    if (task.rrule || task.recurringTaskId) {
+      throw new AppError(422, 'VALIDATION_ERROR', 'Recurring tasks cannot be time-blocked');
+    }
+    if (task.scheduledAt) {
+      throw new AppError(409, 'CONFLICT', 'This task already has a focus block');
+    }
+
+    return task;
+  }
+
+  /**
+   * Keep a focus block's task in step with the block's start time.
+   */
+  private async setTaskSchedule(
+    taskId: string,
+    scheduledAt: Date | null,
+    tx: Transaction | typeof db = db,
+  ): Promise<void> {
+    await tx.update(tasks).set({ scheduledAt, updatedAt: new Date() }).where(eq(tasks.id, taskId));
+  }
+
   /**
    * Validate that a category belongs to the user.
    */
-  private async validateCategory(userId: string, categoryId: string): Promise<void> {
-    const category = await db.query.calendarCategories.findFirst({
+  private async validateCategory(
+    userId: string,
+    categoryId: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<void> {
+    const category = await tx.query.calendarCategories.findFirst({
       where: and(eq(calendarCategories.id, categoryId), eq(calendarCategories.userId, userId)),
     });
 
@@ -555,6 +1303,79 @@ export class EventService {
     }
   }
 
+  /**
+   * Find the owner of the category a new event goes into: the user
+   * themselves, or the owner of a calendar they can edit.
+   */
+  private async resolveCategoryOwner(
+    userId: string,
+    categoryId: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<string> {
+    const category = await tx.query.calendarCategories.findFirst({
+      where: eq(calendarCategories.id, categoryId),
+    });
+
+    if (category?.userId === userId) return userId;
+
+    const share = category
+      ? await calendarShareService.getPermission(userId, categoryId, tx)
+      : null;
+    if (!share || !hasPermission(share.permission, 'edit')) {
+      throw new AppError(404, 'NOT_FOUND', 'Category not found');
+    }
+
+    return share.ownerId;
+  }
+
+  /**
+   * Load an event the user owns, or one in a calendar shared with them
+   * with at least the `required` permission. Anything else is reported
+   * as not found so event IDs in other calendars aren't revealed.
+   */
+  private async findAccessibleEvent(
+    userId: string,
+    eventId: string,
+    required: CalendarSharePermission,
+    tx: Transaction | typeof db = db,
+  ): Promise<AccessibleEvent> {
+    const event = await tx.query.events.findFirst({
+      where: and(eq(events.id, eventId), isNull(events.deletedAt)),
+    });
+
+    if (!event) {
+      throw new AppError(404, 'NOT_FOUND', 'Event not found');
+    }
+
+    if (event.userId === userId) {
+      return { event: event as EventRow, ownerId: userId, permission: 'owner' };
+    }
+
+    const share = await calendarShareService.getPermission(userId, event.categoryId, tx);
+    if (!share || !hasPermission(share.permission, required)) {
+      throw new AppError(404, 'NOT_FOUND', 'Event not found');
+    }
+
+    return { event: event as EventRow, ownerId: event.userId, permission: share.permission };
+  }
+
+  /**
+   * Emit an SSE event to the event's owner and to the members of every
+   * calendar it was or is in.
+   */
+  private emitEventChange(
+    ownerId: string,
+    categoryIds: string[],
+    eventType: SSEEventType,
+    data: { id: string } & Record<string, unknown>,
+  ): void {
+    sseService.emit(ownerId, eventType, data);
+
+    calendarShareService.emitToMembers([...new Set(categoryIds)], eventType, data).catch((err) => {
+      logger.error({ err, userId: ownerId, eventId: data.id }, 'Failed to notify calendar members');
+    });
+  }
+
   /**
    * RRULE validation using the recurrence service (rrule.js-powered).
    */
@@ -562,15 +1383,31 @@ export class EventService {
     recurrenceService.validateRrule(rrule);
   }
 
+  /**
+   * Fire-and-forget iTIP update or cancellation to the event's attendees.
+   */
+  private notifyAttendees(userId: string, eventId: string, change: 'updated' | 'cancelled'): void {
+    const notify =
+      change === 'updated'
+        ? attendeeService.notifyEventUpdated(userId, eventId)
+        : attendeeService.notifyEventCancelled(userId, eventId);
+
+    notify.catch((err) => {
+      logger.error({ err, userId, eventId }, 'Failed to notify event attendees');
+    });
+  }
+
   /**
    * Direct update of an event (non-recurring or scope='all').
    */
   private async directUpdate(
     userId: string,
-    eventId: string,
+    event: EventRow,
     data: UpdateEventInput,
+    tx: Transaction | typeof db = db,
   ): Promise<EventResponse> {
-    const [updated] = await db
+    const eventId = event.id;
+    const [updated] = await tx
       .update(events)
       .set({
         ...(data.title !== undefined && { title: data.title }),
@@ -578,11 +1415,16 @@ export class EventService {
         ...(data.location !== undefined && { location: data.location }),
         ...(data.startAt !== undefined && { startAt: new Date(data.startAt) }),
         ...(data.endAt !== undefined && { endAt: new Date(data.endAt) }),
+        ...toTimeZoneValues(data),
         ...(data.isAllDay !== undefined && { isAllDay: data.isAllDay }),
         ...(data.categoryId !== undefined && { categoryId: data.categoryId }),
         ...(data.color !== undefined && { color: data.color }),
         ...(data.visibility !== undefined && { visibility: data.visibility }),
         ...(data.rrule !== undefined && { rrule: data.rrule }),
+        ...(data.rDates !== undefined && { rDates: toDates(data.rDates) }),
+        ...(data.skipHolidays !== undefined && { skipHolidays: data.skipHolidays }),
+        // Extra dates and holiday skipping only make sense alongside a rule
+        ...(data.rrule === null && { rDates: [], skipHolidays: null }),
         updatedAt: new Date(),
       })
       .where(and(eq(events.id, eventId), eq(events.userId, userId), isNull(events.deletedAt)))
@@ -592,11 +1434,22 @@ export class EventService {
       throw new AppError(404, 'NOT_FOUND', 'Event not found');
     }
 
+    if (updated.taskId && data.startAt !== undefined) {
+      await this.setTaskSchedule(updated.taskId, updated.startAt, tx);
+    }
+
     logger.info({ userId, eventId }, 'Event updated');
 
     const response = toEventResponse(updated as EventRow);
 
-    sseService.emit(userId, 'event:updated', { id: response.id, ...data });
+    this.emitEventChange(userId, [event.categoryId, response.categoryId], 'event:updated', {
+      id: response.id,
+      ...data,
+    });
+
+    if (INVITATION_FIELDS.some((field) => data[field] !== undefined)) {
+      this.notifyAttendees(userId, eventId, 'updated');
+    }
 
     return response;
   }
@@ -612,6 +1465,7 @@ export class EventService {
     parentEvent: EventRow,
     data: UpdateEventInput,
     instanceDate?: string,
+    tx: Transaction | typeof db = db,
   ): Promise<EventExceptionResponse> {
     if (!instanceDate) {
       throw new AppError(
@@ -638,7 +1492,7 @@ export class EventService {
 
     // Run in a transaction: create exception override (no exDate added;
     // the expansion logic checks event_exceptions to apply overrides)
-    const result = await db.transaction(async (tx) => {
+    const result = await tx.transaction(async (tx) => {
       // Upsert: soft-delete any existing exception for this instance date, then insert new
       await tx
         .update(eventExceptions)
@@ -683,6 +1537,7 @@ export class EventService {
     parentEvent: EventRow,
     data: UpdateEventInput,
     instanceDate?: string,
+    tx: Transaction | typeof db = db,
   ): Promise<EventResponse> {
     if (!instanceDate) {
       throw new AppError(
@@ -702,18 +1557,23 @@ export class EventService {
       .replace(/[-:]/g, '')
       .replace(/\.\d{3}/, '');
 
-    // Modify the parent's RRULE to add UNTIL
-    let updatedRrule = parentEvent.rrule!;
-    // Remove any existing UNTIL or COUNT
-    updatedRrule = updatedRrule.replace(/;?(UNTIL|COUNT)=[^;]*/g, '');
-    updatedRrule += `;UNTIL=${untilStr}`;
+    // Replace any UNTIL or COUNT on the parent's RRULE with the new UNTIL
+    const updatedRrule = `${withoutRuleEnd(parentEvent.rrule!)};UNTIL=${untilStr}`;
+
+    // Both halves join the series lineage, which starts at its first segment
+    const seriesId = parentEvent.seriesId ?? parentEvent.id;
 
     // Create a new series starting from splitDate with updates
-    const result = await db.transaction(async (tx) => {
+    const result = await tx.transaction(async (tx) => {
       // Update original series to end at UNTIL
       await tx
         .update(events)
-        .set({ rrule: updatedRrule, updatedAt: new Date() })
+        .set({
+          rrule: updatedRrule,
+          rDates: datesBefore(parentEvent.rDates, splitDate),
+          seriesId,
+          updatedAt: new Date(),
+        })
         .where(
           and(
             eq(events.id, parentEvent.id),
@@ -737,13 +1597,25 @@ export class EventService {
             : new Date(
                 splitDate.getTime() + (parentEvent.endAt.getTime() - parentEvent.startAt.getTime()),
               ),
+          timezone: parentEvent.timezone,
+          endTimezone: parentEvent.endTimezone,
+          ...toTimeZoneValues(data),
           isAllDay: data.isAllDay !== undefined ? data.isAllDay : parentEvent.isAllDay,
           color: data.color !== undefined ? data.color : parentEvent.color,
           visibility: data.visibility ?? parentEvent.visibility,
           rrule: data.rrule !== undefined ? data.rrule : parentEvent.rrule,
+          rDates: datesFrom(
+            data.rDates !== undefined ? toDates(data.rDates) : parentEvent.rDates,
+            splitDate,
+          ),
+          skipHolidays:
+            data.skipHolidays !== undefined ? data.skipHolidays : parentEvent.skipHolidays,
+          seriesId,
         })
         .returning();
 
+      await tagService.copyItemTags('event', parentEvent.id, newSeries.id, tx);
+
       return newSeries;
     });
 
@@ -821,7 +1693,8 @@ export class EventService {
   /**
    * Delete this and all following instances of a recurring event.
    * Sets UNTIL on the parent's RRULE to end before instanceDate.
-   * Also soft deletes exception records for dates >= instanceDate.
+   * Also soft deletes exception records for dates >= instanceDate, and
+   * the later segments of a split series.
    */
   private async deleteFollowing(
     userId: string,
@@ -852,13 +1725,15 @@ export class EventService {
         .toISOString()
         .replace(/[-:]/g, '')
         .replace(/\.\d{3}/, '');
-      let updatedRrule = parent.rrule;
-      updatedRrule = updatedRrule.replace(/;?(UNTIL|COUNT)=[^;]*/g, '');
-      updatedRrule += `;UNTIL=${untilStr}`;
+      const updatedRrule = `${withoutRuleEnd(parent.rrule)};UNTIL=${untilStr}`;
 
       await tx
         .update(events)
-        .set({ rrule: updatedRrule, updatedAt: new Date() })
+        .set({
+          rrule: updatedRrule,
+          rDates: datesBefore(parent.rDates, splitDate),
+          updatedAt: new Date(),
+        })
         .where(and(eq(events.id, parentId), eq(events.userId, userId), isNull(events.deletedAt)));
 
       // Soft delete exception overrides for dates >= instanceDate
@@ -873,6 +1748,20 @@ export class EventService {
             gte(eventExceptions.originalDate, splitDate),
           ),
         );
+
+      if (parent.seriesId) {
+        await tx
+          .update(events)
+          .set({ deletedAt: new Date() })
+          .where(
+            and(
+              eq(events.seriesId, parent.seriesId),
+              eq(events.userId, userId),
+              isNull(events.deletedAt),
+              gt(events.startAt, parent.startAt),
+            ),
+          );
+      }
     });
   }
 
@@ -909,79 +1798,7 @@ export class EventService {
    * Follows RFC 5545 format.
    */
   private generateIcs(event: EventRow): string {
-    const lines: string[] = [];
-
-    lines.push('BEGIN:VCALENDAR');
-    lines.push('VERSION:2.0');
-    lines.push('PRODID:-//Calley//Calley Calendar//EN');
-    lines.push('CALSCALE:GREGORIAN');
-    lines.push('METHOD:PUBLISH');
-
-    lines.push('BEGIN:VEVENT');
-    lines.push(`UID:${event.id}@calley.app`);
-
-    // Format dates for ICS
-    if (event.isAllDay) {
-      const startStr = event.startAt.toISOString().slice(0, 10).replace(/-/g, '');
-      const endStr = event.endAt.toISOString().slice(0, 10).replace(/-/g, '');
-      lines.push(`DTSTART;VALUE=DATE:${startStr}`);
-      lines.push(`DTEND;VALUE=DATE:${endStr}`);
-    } else {
-      const startStr = event.startAt
-        .toISOString()
-        .replace(/[-:]/g, '')
-        .replace(/\.\d{3}/, '');
-      const endStr = event.endAt
-        .toISOString()
-        .replace(/[-:]/g, '')
-        .replace(/\.\d{3}/, '');
-      lines.push(`DTSTART:${startStr}`);
-      lines.push(`DTEND:${endStr}`);
-    }
-
-    const createdStr = event.createdAt
-      .toISOString()
-      .replace(/[-:]/g, '')
-      .replace(/\.\d{3}/, '');
-    const updatedStr = event.updatedAt
-      .toISOString()
-      .replace(/[-:]/g, '')
-      .replace(/\.\d{3}/, '');
-    lines.push(`DTSTAMP:${updatedStr}`);
-    lines.push(`CREATED:${createdStr}`);
-    lines.push(`LAST-MODIFIED:${updatedStr}`);
-
-    lines.push(`SUMMARY:${escapeIcsText(event.title)}`);
-
-    if (event.description) {
-      lines.push(`DESCRIPTION:${escapeIcsText(stripHtml(event.description))}`);
-    }
-
-    if (event.location) {
-      lines.push(`LOCATION:${escapeIcsText(event.location)}`);
-    }
-
-    if (event.rrule) {
-      lines.push(`RRULE:${event.rrule}`);
-    }
-
-    // Add exDates
-    if (event.exDates && event.exDates.length > 0) {
-      const exDateStrs = event.exDates.map((d) =>
-        d
-          .toISOString()
-          .replace(/[-:]/g, '')
-          .replace(/\.\d{3}/, ''),
-      );
-      lines.push(`EXDATE:${exDateStrs.join(',')}`);
-    }
-
-    lines.push(`STATUS:CONFIRMED`);
-    lines.push('END:VEVENT');
-    lines.push('END:VCALENDAR');
-
-    // Fold long lines and join with CRLF per RFC 5545
-    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+    return buildCalendar(buildVEvent(event));
   }
 }
 
@@ -0,0 +1,290 @@
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+
+import { db } from '../db';
+import { calendarCategories, calendarFeeds, eventExceptions, events } from '../db/schema';
+import { AppError } from '../lib/errors';
+import { buildCalendar, buildOverrideIcsEvent, buildVEvent } from '../lib/ics';
+import { logger } from '../lib/logger';
+import { generateToken, hashToken } from '../lib/tokens';
+import { auditService } from './audit.service';
+
+import type { IcsEvent } from '../lib/ics';
+import type { CreateCalendarFeedInput } from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+interface CalendarFeedRow {
+  id: string;
+  userId: string;
+  categoryId: string | null;
+  tokenHash: string;
+  lastAccessedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface CalendarFeedResponse {
+  id: string;
+  userId: string;
+  categoryId: string | null;
+  lastAccessedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CalendarFeedWithTokenResponse extends CalendarFeedResponse {
+  token: string;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Suggested polling interval for subscribing clients */
+const FEED_REFRESH_INTERVAL = 'PT1H';
+
+/** Calendar apps poll feeds often, so lastAccessedAt is written at most this often */
+const ACCESS_UPDATE_THROTTLE_MS = 5 * 60 * 1000;
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function toFeedResponse(row: CalendarFeedRow): CalendarFeedResponse {
+  return {
+    id: row.id,
+    userId: row.userId,
+    categoryId: row.categoryId,
+    lastAccessedAt: row.lastAccessedAt ? row.lastAccessedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class FeedService {
+  /**
+   * List all feeds for a user. Tokens are never returned here.
+   */
+  async listFeeds(userId: string): Promise<CalendarFeedResponse[]> {
+    const rows = await db.query.calendarFeeds.findMany({
+      where: eq(calendarFeeds.userId, userId),
+      orderBy: [asc(calendarFeeds.createdAt)],
+    });
+
+    return rows.map((r) => toFeedResponse(r as CalendarFeedRow));
+  }
+
+  /**
+   * Create a feed for one category (or for all categories when categoryId is null).
+   * Only one feed may exist per scope; rotate it to issue a new URL.
+   */
+  async createFeed(
+    userId: string,
+    data: CreateCalendarFeedInput,
+  ): Promise<CalendarFeedWithTokenResponse> {
+    if (data.categoryId) {
+      await this.validateCategory(userId, data.categoryId);
+    }
+
+    const existing = await db.query.calendarFeeds.findFirst({
+      where: and(
+        eq(calendarFeeds.userId, userId),
+        data.categoryId
+          ? eq(calendarFeeds.categoryId, data.categoryId)
+          : isNull(calendarFeeds.categoryId),
+      ),
+    });
+
+    if (existing) {
+      throw new AppError(409, 'CONFLICT', 'A feed already exists for this calendar');
+    }
+
+    const token = generateToken();
+
+    const [created] = await db
+      .insert(calendarFeeds)
+      .values({
+        userId,
+        categoryId: data.categoryId,
+        tokenHash: hashToken(token),
+      })
+      .returning();
+
+    logger.info({ userId, feedId: created.id }, 'Calendar feed created');
+
+    auditService.log({
+      action: 'feed.created',
+      userId,
+      entityType: 'calendar_feed',
+      entityId: created.id,
+    });
+
+    return { ...toFeedResponse(created as CalendarFeedRow), token };
+  }
+
+  /**
+   * Replace a feed's token. The previous URL stops working immediately.
+   */
+  async rotateFeed(userId: string, feedId: string): Promise<CalendarFeedWithTokenResponse> {
+    const token = generateToken();
+
+    const [updated] = await db
+      .update(calendarFeeds)
+      .set({ tokenHash: hashToken(token), lastAccessedAt: null, updatedAt: new Date() })
+      .where(and(eq(calendarFeeds.id, feedId), eq(calendarFeeds.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(404, 'NOT_FOUND', 'Feed not found');
+    }
+
+    logger.info({ userId, feedId }, 'Calendar feed rotated');
+
+    auditService.log({
+      action: 'feed.rotated',
+      userId,
+      entityType: 'calendar_feed',
+      entityId: feedId,
+    });
+
+    return { ...toFeedResponse(updated as CalendarFeedRow), token };
+  }
+
+  /**
+   * Revoke (hard delete) a feed.
+   */
+  async revokeFeed(userId: string, feedId: string): Promise<void> {
+    const deleted = await db
+      .delete(calendarFeeds)
+      .where(and(eq(calendarFeeds.id, feedId), eq(calendarFeeds.userId, userId)))
+      .returning({ id: calendarFeeds.id });
+
+    if (deleted.length === 0) {
+      throw new AppError(404, 'NOT_FOUND', 'Feed not found');
+    }
+
+    logger.info({ userId, feedId }, 'Calendar feed revoked');
+
+    auditService.log({
+      action: 'feed.revoked',
+      userId,
+      entityType: 'calendar_feed',
+      entityId: feedId,
+    });
+  }
+
+  /**
+   * Render the iCalendar document for a feed token.
+   *
+   * Emits every non-deleted event in the feed's scope. Recurring parents
+   * carry their RRULE/EXDATE, and each active `event_exceptions` override
+   * is emitted as an additional VEVENT with a RECURRENCE-ID.
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feed = await db.query.calendarFeeds.findFirst({
+      where: eq(calendarFeeds.tokenHash, hashToken(token)),
+    });
+
+    if (!feed) {
+      throw new AppError(404, 'NOT_FOUND', 'Feed not found');
+    }
+
+    const conditions = [
+      eq(events.userId, feed.userId),
+      isNull(events.deletedAt),
+      isNull(events.recurringEventId), // Exception rows are emitted via overrides
+    ];
+
+    if (feed.categoryId) {
+      conditions.push(eq(events.categoryId, feed.categoryId));
+    }
+
+    const [rows, category] = await Promise.all([
+      db.query.events.findMany({
+        where: and(...conditions),
+        orderBy: [asc(events.startAt)],
+      }),
+      feed.categoryId
+        ? db.query.calendarCategories.findFirst({
+            where: eq(calendarCategories.id, feed.categoryId),
+          })
+        : Promise.resolve(undefined),
+    ]);
+
+    const parents = new Map<string, IcsEvent>();
+    for (const row of rows) {
+      if (row.rrule) parents.set(row.id, row as IcsEvent);
+    }
+
+    const exceptions =
+      parents.size > 0
+        ? await db.query.eventExceptions.findMany({
+            where: and(
+              eq(eventExceptions.userId, feed.userId),
+              inArray(eventExceptions.recurringEventId, [...parents.keys()]),
+              isNull(eventExceptions.deletedAt),
+            ),
+          })
+        : [];
+
+    const components: string[] = [];
+
+    for (const row of rows) {
+      components.push(...buildVEvent(row as IcsEvent));
+    }
+
+    for (const exc of exceptions) {
+      const parent = parents.get(exc.recurringEventId);
+      if (!parent) continue;
+
+      // An excluded date has no instance left to override
+      const excludedMs = new Set((parent.exDates ?? []).map((d) => d.getTime()));
+      if (excludedMs.has(exc.originalDate.getTime())) continue;
+
+      components.push(
+        ...buildVEvent(
+          buildOverrideIcsEvent(parent, exc.originalDate, exc.overrides, exc.updatedAt),
+        ),
+      );
+    }
+
+    this.touchFeed(feed as CalendarFeedRow);
+
+    return buildCalendar(components, {
+      name: category?.name ?? 'Calley',
+      refreshInterval: FEED_REFRESH_INTERVAL,
+    });
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  /**
+   * Validate that a category belongs to the user.
+   */
+  private async validateCategory(userId: string, categoryId: string): Promise<void> {
+    const category = await db.query.calendarCategories.findFirst({
+      where: and(eq(calendarCategories.id, categoryId), eq(calendarCategories.userId, userId)),
+    });
+
+    if (!category) {
+      throw new AppError(404, 'NOT_FOUND', 'Category not found');
+    }
+  }
+
+  /**
+   * Throttled, fire-and-forget update of lastAccessedAt so feed polling
+   * doesn't cause a write on every request.
+   */
+  private touchFeed(feed: CalendarFeedRow): void {
+    const lastAccess = feed.lastAccessedAt?.getTime() ?? 0;
+    if (Date.now() - lastAccess <= ACCESS_UPDATE_THROTTLE_MS) return;
+
+    db.update(calendarFeeds)
+      .set({ lastAccessedAt: new Date() })
+      .where(eq(calendarFeeds.id, feed.id))
+      .execute()
+      .catch(() => {
+        // Non-critical — swallow errors silently
+      });
+  }
+}
+
+export const feedService = new FeedService();
@@ -0,0 +1,402 @@
+import { eq, inArray } from 'drizzle-orm';
+
+import { db } from '../db';
+import { users } from '../db/schema';
+import { AppError } from '../lib/errors';
+import { buildCalendar, buildVFreeBusy } from '../lib/ics';
+import { fromWallClock, toWallClock } from '../lib/timezone';
+import { getWorkingIntervals, resolveWorkingHours } from '../lib/working-hours';
+import { calendarShareService, hasPermission } from './calendar-share.service';
+import { eventService } from './event.service';
+
+import type { ResolvedWorkingHours, WorkingInterval } from '../lib/working-hours';
+import type { MemberShare } from './calendar-share.service';
+import type { FindTimeInput, FreeBusyQuery, WorkingHours } from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+interface FreeBusyUser {
+  id: string;
+  email: string;
+  name: string;
+  timezone: string;
+  workingHours: WorkingHours | null;
+}
+
+interface BusyPeriod {
+  start: Date;
+  end: Date;
+  titles: string[];
+}
+
+interface FreeBusyIntervalResponse {
+  start: string;
+  end: string;
+  titles: string[];
+}
+
+interface FreeBusyCalendarResponse {
+  email: string;
+  name: string;
+  busy: FreeBusyIntervalResponse[];
+}
+
+interface FreeBusyResponse {
+  start: string;
+  end: string;
+  calendars: FreeBusyCalendarResponse[];
+}
+
+interface FindTimeSlotResponse {
+  start: string;
+  end: string;
+  score: number;
+}
+
+interface FindTimeResponse {
+  start: string;
+  end: string;
+  slots: FindTimeSlotResponse[];
+}
+
+interface Candidate {
+  start: Date;
+  end: Date;
+  score: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Candidate slots start on quarter hours */
+const SLOT_STEP_MS = 15 * MINUTE_MS;
+
+/** How much each day further into the range lowers a slot's score */
+const DAY_OFFSET_PENALTY = 0.2;
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/**
+ * Merge overlapping or back-to-back periods into single intervals,
+ * collecting the titles of everything merged.
+ */
+export function mergeBusyPeriods(periods: BusyPeriod[]): BusyPeriod[] {
+  const sorted = [...periods].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: BusyPeriod[] = [];
+
+  for (const period of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && period.start <= last.end) {
+      if (period.end > last.end) last.end = period.end;
+      for (const title of period.titles) {
+        if (!last.titles.includes(title)) last.titles.push(title);
+      }
+    } else {
+      merged.push({ start: period.start, end: period.end, titles: [...period.titles] });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * How well a slot suits someone, given their working periods: null if it
+ * doesn't fit inside one, otherwise 1 at the middle of the period falling
+ * to 0 at either edge.
+ */
+export function workingHoursFit(
+  start: Date,
+  end: Date,
+  intervals: WorkingInterval[],
+): number | null {
+  const interval = intervals.find((i) => i.start <= start && i.end >= end);
+  if (!interval) return null;
+
+  const half = (interval.end.getTime() - interval.start.getTime()) / 2;
+  const middle = interval.start.getTime() + half;
+  return 1 - Math.abs((start.getTime() + end.getTime()) / 2 - middle) / half;
+}
+
+/**
+ * Working hours for a find-a-time search: an explicit window applies to
+ * everyone in their own timezone, on weekdays unless weekends are
+ * included; otherwise each person's saved working hours apply.
+ */
+function getSearchWorkingHours(person: FreeBusyUser, input: FindTimeInput): ResolvedWorkingHours {
+  const window = input.workingHours;
+  if (!window) return resolveWorkingHours(person);
+
+  return {
+    timezone: person.timezone,
+    days: Array.from({ length: 7 }, (_, weekday) =>
+      input.includeWeekends || (weekday !== 0 && weekday !== 6) ? [window] : [],
+    ),
+  };
+}
+
+/**
+ * The rest of the current week and all of the next one, with weeks
+ * starting on the user's `weekStart` day in their timezone.
+ */
+export function getDefaultSearchRange(
+  now: Date,
+  timeZone: string,
+  weekStart: number,
+): { start: Date; end: Date } {
+  const local = toWallClock(now, timeZone);
+  const daysIntoWeek = (local.getUTCDay() - weekStart + 7) % 7;
+  const weekStartLocal = Date.UTC(
+    local.getUTCFullYear(),
+    local.getUTCMonth(),
+    local.getUTCDate() - daysIntoWeek,
+  );
+
+  return { start: now, end: fromWallClock(new Date(weekStartLocal + 14 * DAY_MS), timeZone) };
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class FreeBusyService {
+  /**
+   * Busy intervals for each requested person over a range. Anyone other
+   * than the requester must have shared at least one calendar with them,
+   * and only those shared calendars count towards their busy time.
+   */
+  async query(userId: string, query: FreeBusyQuery): Promise<FreeBusyResponse> {
+    const start = new Date(query.start);
+    const end = new Date(query.end);
+    const shares = await calendarShareService.getMemberShares(userId);
+    const people = await this.resolveUsers(userId, query.emails, shares);
+
+    const calendars = await Promise.all(
+      people.map(async (person) => ({
+        email: person.email,
+        name: person.name,
+        busy: mergeBusyPeriods(await this.getBusyPeriods(userId, person, shares, start, end)).map(
+          (period) => ({
+            start: period.start.toISOString(),
+            end: period.end.toISOString(),
+            titles: period.titles,
+          }),
+        ),
+      })),
+    );
+
+    return { start: start.toISOString(), end: end.toISOString(), calendars };
+  }
+
+  /**
+   * The same query as an iCalendar object with one VFREEBUSY per person.
+   */
+  async queryIcs(userId: string, query: FreeBusyQuery): Promise<string> {
+    const result = await this.query(userId, query);
+
+    const components = result.calendars.flatMap((calendar) =>
+      buildVFreeBusy({
+        organizer: { email: calendar.email, name: calendar.name },
+        start: new Date(result.start),
+        end: new Date(result.end),
+        busy: calendar.busy.map((period) => ({
+          start: new Date(period.start),
+          end: new Date(period.end),
+        })),
+      }),
+    );
+
+    return buildCalendar(components);
+  }
+
+  /**
+   * Suggest meeting times when the requester and everyone in `emails` are
+   * free and inside their working hours, each in their own timezone.
+   * Suggestions never overlap one another, so they are real alternatives
+   * rather than the same gap shifted by a quarter hour.
+   */
+  async findTime(userId: string, input: FindTimeInput): Promise<FindTimeResponse> {
+    const requester = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: {
+        id: true,
+        email: true,
+        name: true,
+        timezone: true,
+        weekStart: true,
+        workingHours: true,
+      },
+    });
+
+    if (!requester) {
+      throw new AppError(404, 'NOT_FOUND', 'User not found');
+    }
+
+    const now = new Date();
+    const range =
+      input.start && input.end
+        ? { start: new Date(input.start), end: new Date(input.end) }
+        : getDefaultSearchRange(now, requester.timezone, requester.weekStart);
+
+    const shares = await calendarShareService.getMemberShares(userId);
+    const others =
+      input.emails.length > 0
+        ? (await this.resolveUsers(userId, input.emails, shares)).filter((p) => p.id !== userId)
+        : [];
+    const people: FreeBusyUser[] = [requester, ...others];
+
+    const busy = mergeBusyPeriods(
+      (
+        await Promise.all(
+          people.map((person) =>
+            this.getBusyPeriods(userId, person, shares, range.start, range.end),
+          ),
+        )
+      ).flat(),
+    );
+
+    const workingIntervals = people.map((person) =>
+      getWorkingIntervals(getSearchWorkingHours(person, input), range.start, range.end),
+    );
+    const durationMs = input.durationMinutes * MINUTE_MS;
+    const firstDay = Math.floor(toWallClock(range.start, requester.timezone).getTime() / DAY_MS);
+
+    // Never suggest a time that has already started
+    const searchFrom = Math.max(range.start.getTime(), now.getTime());
+    const candidates: Candidate[] = [];
+
+    for (
+      let t = Math.ceil(searchFrom / SLOT_STEP_MS) * SLOT_STEP_MS;
+      t + durationMs <= range.end.getTime();
+      t += SLOT_STEP_MS
+    ) {
+      const start = new Date(t);
+      const end = new Date(t + durationMs);
+
+      if (busy.some((period) => period.start < end && period.end > start)) continue;
+
+      let fit = 0;
+      for (const intervals of workingIntervals) {
+        const personFit = workingHoursFit(start, end, intervals);
+        if (personFit === null) {
+          fit = -1;
+          break;
+        }
+        fit += personFit;
+      }
+      if (fit < 0) continue;
+
+      const dayOffset =
+        Math.floor(toWallClock(start, requester.timezone).getTime() / DAY_MS) - firstDay;
+      const score = fit / people.length / (1 + DAY_OFFSET_PENALTY * dayOffset);
+      candidates.push({ start, end, score: Math.round(score * 100) / 100 });
+    }
+
+    candidates.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+
+    const slots: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (slots.length >= input.limit) break;
+      if (slots.some((slot) => slot.start < candidate.end && slot.end > candidate.start)) continue;
+      slots.push(candidate);
+    }
+
+    return {
+      start: range.start.toISOString(),
+      end: range.end.toISOString(),
+      slots: slots.map((slot) => ({
+        start: slot.start.toISOString(),
+        end: slot.end.toISOString(),
+        score: slot.score,
+      })),
+    };
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  /**
+   * Look up the requested people, in request order. Unknown emails and
+   * people who haven't shared anything get the same error, so the
+   * endpoint can't be used to probe which emails have accounts.
+   */
+  private async resolveUsers(
+    userId: string,
+    emails: string[],
+    shares: MemberShare[],
+  ): Promise<FreeBusyUser[]> {
+    const uniqueEmails = [...new Set(emails)];
+    const rows = await db.query.users.findMany({
+      where: inArray(users.email, uniqueEmails),
+      columns: { id: true, email: true, name: true, timezone: true, workingHours: true },
+    });
+    const sharedOwnerIds = new Set(shares.map((share) => share.ownerId));
+
+    return uniqueEmails.map((email) => {
+      const person = rows.find((row) => row.email === email);
+      if (!person || (person.id !== userId && !sharedOwnerIds.has(person.id))) {
+        throw new AppError(403, 'FORBIDDEN', `${email} has not shared their availability with you`);
+      }
+      return person;
+    });
+  }
+
+  /**
+   * Busy periods from one person's events, clipped to the range. Titles
+   * are included only where the requester could read the event anyway.
+   */
+  private async getBusyPeriods(
+    userId: string,
+    person: FreeBusyUser,
+    shares: MemberShare[],
+    start: Date,
+    end: Date,
+  ): Promise<BusyPeriod[]> {
+    const isSelf = person.id === userId;
+    const permissions = new Map(
+      shares
+        .filter((share) => share.ownerId === person.id)
+        .map((share) => [share.categoryId, share.permission]),
+    );
+
+    // Recurring series are expanded into instances by listEvents
+    const events = isSelf
+      ? await eventService.listEvents(userId, start.toISOString(), end.toISOString())
+      : await eventService.listEvents(person.id, start.toISOString(), end.toISOString(), [
+          ...permissions.keys(),
+        ]);
+
+    const periods: BusyPeriod[] = [];
+
+    for (const event of events) {
+      // Only the person's own calendars, not ones shared with them
+      if (event.userId !== person.id) continue;
+
+      let eventStart = new Date(event.startAt);
+      let eventEnd = new Date(event.endAt);
+      // All-day events are stored as UTC dates; they block the person's
+      // whole local day
+      if (event.isAllDay) {
+        eventStart = fromWallClock(eventStart, person.timezone);
+        eventEnd = fromWallClock(eventEnd, person.timezone);
+      }
+
+      if (eventEnd <= start || eventStart >= end) continue;
+
+      const permission = permissions.get(event.categoryId);
+      const canSeeTitle =
+        isSelf ||
+        (permission !== undefined &&
+          hasPermission(permission, 'read') &&
+          event.visibility !== 'private');
+
+      periods.push({
+        start: eventStart < start ? start : eventStart,
+        end: eventEnd > end ? end : eventEnd,
+        titles: canSeeTitle ? [event.title] : [],
+      });
+    }
+
+    return periods;
+  }
+}
+
+export const freeBusyService = new FreeBusyService();
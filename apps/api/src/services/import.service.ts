@@ -0,0 +1,507 @@
+import { createId } from '@paralleldrive/cuid2';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+import { db } from '../db';
+import { calendarCategories, eventExceptions, events, reminders, tasks, users } from '../db/schema';
+import { AppError } from '../lib/errors';
+import {
+  diffEventOverride,
+  getIcsRecurrenceId,
+  getIcsStatus,
+  getIcsSummary,
+  getIcsUid,
+  mapVEvent,
+  mapVTodo,
+  parseIcsAlarms,
+} from '../lib/ics-mapping';
+import { getProperty, IcsParseError, parseIcs } from '../lib/ics-parser';
+import { logger } from '../lib/logger';
+import { reminderQueue } from '../lib/queue';
+import { auditService } from './audit.service';
+import { recurrenceService } from './recurrence.service';
+import { sseService } from './sse.service';
+
+import type { IcsAlarm } from '../lib/ics-mapping';
+import type { IcsComponent } from '../lib/ics-parser';
+import type {
+  IcsImportItem,
+  IcsImportItemStatus,
+  IcsImportItemType,
+  IcsImportReport,
+  ImportIcsInput,
+} from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+type EventInsert = typeof events.$inferInsert & { id: string; startAt: Date; endAt: Date };
+type ExceptionInsert = typeof eventExceptions.$inferInsert;
+type TaskInsert = typeof tasks.$inferInsert & { id: string };
+type ReminderInsert = typeof reminders.$inferInsert & { id: string; triggerAt: Date };
+
+interface ImportPlan {
+  events: EventInsert[];
+  exceptions: ExceptionInsert[];
+  tasks: TaskInsert[];
+  reminders: ReminderInsert[];
+  items: IcsImportItem[];
+}
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Upper bound on VEVENT + VTODO components accepted in a single file */
+const MAX_IMPORT_COMPONENTS = 5000;
+
+/** Rows per INSERT statement, keeping well below Postgres' parameter limit */
+const INSERT_BATCH_SIZE = 500;
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function isSupportedRrule(rrule: string): boolean {
+  try {
+    recurrenceService.validateRrule(rrule);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function recordItem(
+  plan: ImportPlan,
+  component: IcsComponent,
+  type: IcsImportItemType,
+  status: IcsImportItemStatus,
+  reason: string | null,
+  startAt: Date | null = null,
+): void {
+  plan.items.push({
+    uid: getIcsUid(component),
+    type,
+    title: getIcsSummary(component),
+    startAt: startAt ? startAt.toISOString() : null,
+    status,
+    reason,
+  });
+}
+
+function planReminders(
+  plan: ImportPlan,
+  userId: string,
+  itemType: 'event' | 'task',
+  itemId: string,
+  reference: Date,
+  alarms: IcsAlarm[],
+): void {
+  for (const alarm of alarms) {
+    const triggerAt = new Date(reference.getTime() - alarm.minutesBefore * 60 * 1000);
+    // Alarms for past occurrences would fire immediately — drop them
+    if (triggerAt.getTime() <= Date.now()) continue;
+    plan.reminders.push({
+      id: createId(),
+      userId,
+      itemType,
+      itemId,
+      minutesBefore: alarm.minutesBefore,
+      method: alarm.method,
+      triggerAt,
+    });
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class ImportService {
+  /**
+   * Import an iCalendar file into a category.
+   *
+   * VEVENTs become events (RRULE/EXDATE preserved), RECURRENCE-ID overrides
+   * become event exceptions (or exDates when cancelled), VTODOs become tasks,
+   * and supported VALARMs become reminders. Components whose UID was already
+   * imported are skipped. With `dryRun`, nothing is written and the report
+   * describes what would happen.
+   */
+  async importIcs(userId: string, data: ImportIcsInput): Promise<IcsImportReport> {
+    await this.validateCategory(userId, data.categoryId);
+
+    let calendar: IcsComponent;
+    try {
+      calendar = parseIcs(data.content);
+    } catch (err) {
+      if (err instanceof IcsParseError) {
+        throw new AppError(422, 'VALIDATION_ERROR', `Invalid calendar file: ${err.message}`);
+      }
+      throw err;
+    }
+
+    const components = calendar.components.filter((c) => c.name === 'VEVENT' || c.name === 'VTODO');
+
+    if (components.length > MAX_IMPORT_COMPONENTS) {
+      throw new AppError(
+        422,
+        'VALIDATION_ERROR',
+        `Calendar file contains too many items (max ${MAX_IMPORT_COMPONENTS})`,
+      );
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { timezone: true },
+    });
+
+    const uids = [...new Set(components.map(getIcsUid).filter((uid): uid is string => !!uid))];
+    const existingUids = await this.findExistingUids(userId, uids);
+
+    const plan = this.buildPlan(
+      userId,
+      data.categoryId,
+      components,
+      user?.timezone ?? 'UTC',
+      existingUids,
+    );
+
+    if (!data.dryRun) {
+      await this.commitPlan(userId, data.categoryId, plan);
+    }
+
+    const count = (status: IcsImportItemStatus) =>
+      plan.items.filter((item) => item.status === status).length;
+
+    return {
+      dryRun: data.dryRun,
+      categoryId: data.categoryId,
+      created: count('created'),
+      skipped: count('skipped'),
+      invalid: count('invalid'),
+      reminders: plan.reminders.length,
+      items: plan.items,
+    };
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  /**
+   * Validate that a category belongs to the user.
+   */
+  private async validateCategory(userId: string, categoryId: string): Promise<void> {
+    const category = await db.query.calendarCategories.findFirst({
+      where: and(eq(calendarCategories.id, categoryId), eq(calendarCategories.userId, userId)),
+    });
+
+    if (!category) {
+      throw new AppError(404, 'NOT_FOUND', 'Category not found');
+    }
+  }
+
+  /**
+   * Find which UIDs already exist on the user's (non-deleted) events or tasks.
+   */
+  private async findExistingUids(userId: string, uids: string[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+    if (uids.length === 0) return existing;
+
+    for (const batch of chunk(uids, INSERT_BATCH_SIZE)) {
+      const [eventRows, taskRows] = await Promise.all([
+        db.query.events.findMany({
+          where: and(
+            eq(events.userId, userId),
+            inArray(events.icalUid, batch),
+            isNull(events.deletedAt),
+          ),
+          columns: { icalUid: true },
+        }),
+        db.query.tasks.findMany({
+          where: and(
+            eq(tasks.userId, userId),
+            inArray(tasks.icalUid, batch),
+            isNull(tasks.deletedAt),
+          ),
+          columns: { icalUid: true },
+        }),
+      ]);
+
+      for (const row of [...eventRows, ...taskRows]) {
+        if (row.icalUid) existing.add(row.icalUid);
+      }
+    }
+
+    return existing;
+  }
+
+  /**
+   * Map parsed components onto rows to insert, recording the outcome of
+   * each component in the report. Nothing is written here.
+   */
+  private buildPlan(
+    userId: string,
+    categoryId: string,
+    components: IcsComponent[],
+    timeZone: string,
+    existingUids: Set<string>,
+  ): ImportPlan {
+    const plan: ImportPlan = { events: [], exceptions: [], tasks: [], reminders: [], items: [] };
+
+    const seenUids = new Set<string>();
+    const masters = new Map<string, EventInsert>();
+    const overrides: IcsComponent[] = [];
+
+    // ── Pass 1: series masters, single events and tasks ──
+    for (const component of components) {
+      const uid = getIcsUid(component);
+      const type: IcsImportItemType = component.name === 'VTODO' ? 'task' : 'event';
+
+      if (getProperty(component, 'RECURRENCE-ID')) {
+        if (type === 'event') overrides.push(component);
+        else
+          recordItem(
+            plan,
+            component,
+            'task',
+            'skipped',
+            'Task instance overrides are not supported',
+          );
+        continue;
+      }
+
+      if (uid && existingUids.has(uid)) {
+        recordItem(plan, component, type, 'skipped', 'Already imported');
+        continue;
+      }
+      if (uid && seenUids.has(uid)) {
+        recordItem(plan, component, type, 'skipped', 'Duplicate UID in file');
+        continue;
+      }
+      if (uid) seenUids.add(uid);
+
+      if (getIcsStatus(component) === 'CANCELLED') {
+        recordItem(plan, component, type, 'skipped', 'Cancelled');
+        continue;
+      }
+
+      if (type === 'task') {
+        this.planTask(userId, categoryId, component, timeZone, plan);
+        continue;
+      }
+
+      const mapped = mapVEvent(component, timeZone);
+      if (typeof mapped === 'string') {
+        recordItem(plan, component, 'event', 'invalid', mapped);
+        continue;
+      }
+      if (mapped.rrule && !isSupportedRrule(mapped.rrule)) {
+        recordItem(plan, component, 'event', 'invalid', 'Unsupported recurrence rule');
+        continue;
+      }
+
+      const event: EventInsert = {
+        id: createId(),
+        userId,
+        categoryId,
+        title: mapped.title,
+        description: mapped.description,
+        location: mapped.location,
+        startAt: mapped.startAt,
+        endAt: mapped.endAt,
+        timezone: mapped.timezone,
+        endTimezone: mapped.endTimezone,
+        isAllDay: mapped.isAllDay,
+        rrule: mapped.rrule,
+        exDates: mapped.exDates,
+        rDates: mapped.rDates,
+        icalUid: uid,
+      };
+
+      plan.events.push(event);
+      if (uid && mapped.rrule) masters.set(uid, event);
+      planReminders(
+        plan,
+        userId,
+        'event',
+        event.id,
+        event.startAt,
+        parseIcsAlarms(component, event.startAt, timeZone),
+      );
+      recordItem(plan, component, 'event', 'created', null, event.startAt);
+    }
+
+    // ── Pass 2: RECURRENCE-ID overrides, linked to their series by UID ──
+    const seenInstances = new Set<string>();
+
+    for (const component of overrides) {
+      const uid = getIcsUid(component);
+      const master = uid ? masters.get(uid) : undefined;
+
+      if (!master) {
+        recordItem(
+          plan,
+          component,
+          'exception',
+          'skipped',
+          uid && existingUids.has(uid)
+            ? 'Series already imported'
+            : 'Recurring series not found in file',
+        );
+        continue;
+      }
+
+      const originalDate = getIcsRecurrenceId(component, timeZone);
+      if (!originalDate) {
+        recordItem(plan, component, 'exception', 'invalid', 'Invalid RECURRENCE-ID');
+        continue;
+      }
+
+      const instanceKey = `${uid}::${originalDate.toISOString()}`;
+      if (seenInstances.has(instanceKey)) {
+        recordItem(plan, component, 'exception', 'skipped', 'Duplicate instance override');
+        continue;
+      }
+      seenInstances.add(instanceKey);
+
+      // A cancelled instance is an exclusion from the series
+      if (getIcsStatus(component) === 'CANCELLED') {
+        master.exDates = [...(master.exDates ?? []), originalDate];
+        recordItem(plan, component, 'exception', 'created', null, originalDate);
+        continue;
+      }
+
+      const mapped = mapVEvent(component, timeZone);
+      if (typeof mapped === 'string') {
+        recordItem(plan, component, 'exception', 'invalid', mapped);
+        continue;
+      }
+
+      plan.exceptions.push({
+        recurringEventId: master.id,
+        userId,
+        originalDate,
+        overrides: diffEventOverride(master, mapped),
+      });
+      recordItem(plan, component, 'exception', 'created', null, mapped.startAt);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Map a VTODO onto a task, recording invalid components in the report.
+   */
+  private planTask(
+    userId: string,
+    categoryId: string,
+    vtodo: IcsComponent,
+    timeZone: string,
+    plan: ImportPlan,
+  ): void {
+    const mapped = mapVTodo(vtodo, timeZone);
+    if (typeof mapped === 'string') {
+      recordItem(plan, vtodo, 'task', 'invalid', mapped);
+      return;
+    }
+    if (mapped.rrule && !isSupportedRrule(mapped.rrule)) {
+      recordItem(plan, vtodo, 'task', 'invalid', 'Unsupported recurrence rule');
+      return;
+    }
+
+    const task: TaskInsert = {
+      id: createId(),
+      userId,
+      categoryId,
+      ...mapped,
+      icalUid: getIcsUid(vtodo),
+    };
+
+    plan.tasks.push(task);
+    if (mapped.dueAt && mapped.status !== 'done') {
+      planReminders(
+        plan,
+        userId,
+        'task',
+        task.id,
+        mapped.dueAt,
+        parseIcsAlarms(vtodo, mapped.dueAt, timeZone),
+      );
+    }
+    recordItem(plan, vtodo, 'task', 'created', null, mapped.dueAt);
+  }
+
+  /**
+   * Write a plan in a single transaction, then enqueue reminder jobs.
+   */
+  private async commitPlan(userId: string, categoryId: string, plan: ImportPlan): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const batch of chunk(plan.events, INSERT_BATCH_SIZE)) {
+        await tx.insert(events).values(batch);
+      }
+      for (const batch of chunk(plan.exceptions, INSERT_BATCH_SIZE)) {
+        await tx.insert(eventExceptions).values(batch);
+      }
+      for (const batch of chunk(plan.tasks, INSERT_BATCH_SIZE)) {
+        await tx.insert(tasks).values(batch);
+      }
+      for (const batch of chunk(plan.reminders, INSERT_BATCH_SIZE)) {
+        await tx.insert(reminders).values(batch);
+      }
+    });
+
+    // Enqueue BullMQ jobs for the imported reminders (outside transaction)
+    for (const reminder of plan.reminders) {
+      try {
+        await reminderQueue.add(
+          'send-reminder',
+          {
+            reminderId: reminder.id,
+            userId,
+            itemType: reminder.itemType,
+            itemId: reminder.itemId,
+            method: reminder.method,
+          },
+          {
+            jobId: reminder.id,
+            delay: Math.max(0, reminder.triggerAt.getTime() - Date.now()),
+          },
+        );
+      } catch (err) {
+        logger.warn({ err, reminderId: reminder.id }, 'Failed to enqueue imported reminder job');
+      }
+    }
+
+    logger.info(
+      {
+        userId,
+        categoryId,
+        events: plan.events.length,
+        exceptions: plan.exceptions.length,
+        tasks: plan.tasks.length,
+        reminders: plan.reminders.length,
+      },
+      'Calendar file imported',
+    );
+
+    auditService.log({
+      action: 'import.completed',
+      userId,
+      entityType: 'calendar_category',
+      entityId: categoryId,
+      metadata: {
+        events: plan.events.length,
+        exceptions: plan.exceptions.length,
+        tasks: plan.tasks.length,
+      },
+    });
+
+    if (plan.events.length > 0) {
+      sseService.emit(userId, 'event:created', { categoryId, imported: plan.events.length });
+    }
+    if (plan.tasks.length > 0) {
+      sseService.emit(userId, 'task:created', { categoryId, imported: plan.tasks.length });
+    }
+  }
+}
+
+export const importService = new ImportService();
@@ -1,7 +1,12 @@
 import rruleLib from 'rrule';
 
+import { findHoliday } from '@calley/shared';
+
 import { AppError } from '../lib/errors';
 import { logger } from '../lib/logger';
+import { fromWallClock, toWallClock } from '../lib/timezone';
+
+import type { HolidayCalendar } from '@calley/shared';
 
 const { RRule, RRuleSet } = rruleLib;
 
@@ -20,11 +25,15 @@ export interface RecurrableEvent {
   location: string | null;
   startAt: string;
   endAt: string;
+  timezone: string | null;
+  endTimezone: string | null;
   isAllDay: boolean;
   color: string | null;
   visibility: string;
   rrule: string | null;
   exDates: string[];
+  rDates: string[];
+  skipHolidays: HolidayCalendar | null;
   recurringEventId: string | null;
   originalDate: string | null;
   createdAt: string;
@@ -47,10 +56,64 @@ export interface ExpandedInstance extends RecurrableEvent {
   instanceDate: string;
 }
 
+/** The parts of a series that decide when it occurs */
+export type RecurrencePattern = Pick<
+  RecurrableEvent,
+  'startAt' | 'timezone' | 'isAllDay' | 'rrule' | 'exDates' | 'rDates' | 'skipHolidays'
+>;
+
+/** One occurrence of a series, skipped or not, with any exception applied to it */
+export interface SeriesOccurrence {
+  date: string;
+  skipped: boolean;
+  /** The skipped holiday it falls on, or null */
+  holiday: string | null;
+  overrides: Record<string, unknown> | null;
+}
+
+/** A built rule set and the conversion from its dates back to instants */
+interface SeriesRuleSet {
+  ruleSet: InstanceType<typeof RRuleSet>;
+  timeZone: string | null;
+  fromRuleDate: (date: Date) => Date;
+  /** The skipped holiday a rule date falls on, or null */
+  holidayOn: (date: Date) => string | null;
+}
+
 // ─── Constants ──────────────────────────────────────────────────────
 
 const MAX_INSTANCES_PER_SERIES = 1000;
 
+/** Widest UTC offset on either side (UTC+14), used to pad wall-clock windows */
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+/** Rule parts BYSETPOS can pick from; on its own it selects nothing */
+const SET_POS_SOURCES = ['BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYYEARDAY', 'BYWEEKNO'];
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/**
+ * The calendar day (YYYY-MM-DD) a rule date falls on. Wall-clock and UTC
+ * rule dates carry it as is. All-day events start at midnight in their
+ * owner's timezone, so theirs is the nearest UTC midnight.
+ */
+function ruleDateDay(date: Date, isAllDay: boolean): string {
+  const day = isAllDay ? new Date(date.getTime() + 12 * 60 * 60 * 1000) : date;
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Move a floating date forward by whole months, in place, keeping the day
+ * of month where it exists (Jan 31 + 1 month = Feb 28/29).
+ */
+function addMonthsClamped(date: Date, months: number): void {
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+}
+
 // ─── Service ────────────────────────────────────────────────────────
 
 export class RecurrenceService {
@@ -108,6 +171,17 @@ export class RecurrenceService {
       throw new AppError(422, 'INVALID_RRULE', 'Invalid recurrence rule: invalid FREQ value');
     }
 
+    if (
+      /(^|;)BYSETPOS=/.test(rruleStr) &&
+      !SET_POS_SOURCES.some((part) => new RegExp(`(^|;)${part}=`).test(rruleStr))
+    ) {
+      throw new AppError(
+        422,
+        'INVALID_RRULE',
+        'Invalid recurrence rule: BYSETPOS needs another BYxxx part to pick from',
+      );
+    }
+
     // Attempt to parse with rrule.js for full validation
     try {
       RRule.fromString(rruleStr);
@@ -116,6 +190,127 @@ export class RecurrenceService {
     }
   }
 
+  /**
+   * The first `count` occurrences of a series that still take place, with
+   * the skipped ones (exDates and holidays) between them kept in and
+   * marked, and each matched to its exception override. Fewer take place
+   * when holidays use up the entries it lists before giving up. Throws
+   * AppError(422, 'INVALID_RRULE') if the rule is invalid.
+   */
+  inspectSeries(
+    pattern: RecurrencePattern,
+    count: number,
+    exceptions: ExceptionOverride[] = [],
+  ): SeriesOccurrence[] {
+    this.validateRrule(pattern.rrule ?? '');
+
+    const skipped = new Set(pattern.exDates.map((d) => this.toInstanceDate(d)));
+    const overrides = new Map(exceptions.map((e) => [this.toInstanceDate(e.originalDate), e]));
+
+    // Expand without exclusions so skipped occurrences can be listed
+    const { ruleSet, fromRuleDate, holidayOn } = this.buildRuleSet({ ...pattern, exDates: [] });
+    // A rule that lands on a holiday every time would otherwise run on to
+    // the year 9999, so holidays get at most `count` extra entries
+    const limit = count * 2 + pattern.exDates.length;
+    let kept = 0;
+    let listed = 0;
+    const dates = ruleSet.all((date) => {
+      if (kept >= count || listed >= limit) return false;
+      if (!skipped.has(this.toInstanceDate(fromRuleDate(date))) && !holidayOn(date)) kept++;
+      listed++;
+      return true;
+    });
+
+    return dates.map((date) => {
+      const instanceDate = this.toInstanceDate(fromRuleDate(date));
+      const holiday = holidayOn(date);
+      return {
+        date: instanceDate,
+        skipped: skipped.has(instanceDate) || holiday !== null,
+        holiday,
+        overrides: overrides.get(instanceDate)?.overrides ?? null,
+      };
+    });
+  }
+
+  /**
+   * The UNTIL of an RRULE, or null when it runs on forever or for a COUNT.
+   * Throws if the RRULE doesn't parse.
+   */
+  ruleUntil(rruleStr: string): Date | null {
+    return RRule.fromString(rruleStr).origOptions.until ?? null;
+  }
+
+  /**
+   * Whether a series its UNTIL cuts off would, left to run on, next occur
+   * exactly at `nextStart`, so a series starting there carries it on with
+   * no gap and no overlap. Extra dates, exDates and holidays are ignored.
+   */
+  continuesAt(pattern: RecurrencePattern, nextStart: string | Date): boolean {
+    const until = pattern.rrule ? this.ruleUntil(pattern.rrule) : null;
+    if (!until) return false;
+
+    const { ruleSet, fromRuleDate } = this.buildRuleSet({
+      ...pattern,
+      rrule: pattern.rrule!.replace(/;?(UNTIL|COUNT)=[^;]*/g, ''),
+      rDates: [],
+      exDates: [],
+      skipHolidays: null,
+    });
+
+    let next: Date | null = null;
+    ruleSet.all((date) => {
+      const instant = fromRuleDate(date);
+      if (instant.getTime() <= until.getTime()) return true;
+      next = instant;
+      return false;
+    });
+
+    return next !== null && this.toInstanceDate(next) === this.toInstanceDate(nextStart);
+  }
+
+  /**
+   * Next due date for a task that repeats a set time after each completion
+   * (FREQ and INTERVAL, e.g. FREQ=DAILY;INTERVAL=3). Counts from the day it
+   * was completed in the user's timezone and keeps the time of day it was
+   * due, so "every 3 days" done late on Monday comes back Thursday. Month
+   * and year steps clamp to the end of shorter months.
+   */
+  nextDueAfterCompletion(
+    repeatAfter: string,
+    completedAt: Date,
+    dueAt: Date | null,
+    timeZone: string,
+  ): Date {
+    const freq = repeatAfter.match(/FREQ=(\w+)/)?.[1];
+    const interval = Number(repeatAfter.match(/INTERVAL=(\d+)/)?.[1] ?? 1);
+
+    const next = toWallClock(completedAt, timeZone);
+    if (dueAt) {
+      const due = toWallClock(dueAt, timeZone);
+      next.setUTCHours(due.getUTCHours(), due.getUTCMinutes(), due.getUTCSeconds(), 0);
+    }
+
+    switch (freq) {
+      case 'DAILY':
+        next.setUTCDate(next.getUTCDate() + interval);
+        break;
+      case 'WEEKLY':
+        next.setUTCDate(next.getUTCDate() + interval * 7);
+        break;
+      case 'MONTHLY':
+        addMonthsClamped(next, interval);
+        break;
+      case 'YEARLY':
+        addMonthsClamped(next, interval * 12);
+        break;
+      default:
+        throw new AppError(422, 'INVALID_RRULE', 'Invalid repeat interval: invalid FREQ value');
+    }
+
+    return fromWallClock(next, timeZone);
+  }
+
   // ─── Private Helpers ────────────────────────────────────────────────
 
   /**
@@ -131,11 +326,56 @@ export class RecurrenceService {
   }
 
   private exceptionKey(parentId: string, originalDate: string | Date): string {
+    return `${parentId}::${this.toInstanceDate(originalDate)}`;
+  }
+
+  private toInstanceDate(date: string | Date): string {
     // Use epoch seconds for unique keying — truncate milliseconds to avoid
     // precision mismatches between rrule.js expansion and DB-stored dates.
-    const d = new Date(originalDate);
+    const d = new Date(date);
     d.setMilliseconds(0);
-    return `${parentId}::${d.toISOString()}`;
+    return d.toISOString();
+  }
+
+  /**
+   * Build the rule set for a series: its RRULE anchored at the start,
+   * plus RDATEs, minus EXDATEs. Holidays it skips are left for the caller
+   * to filter out with `holidayOn`. Timed events with a timezone recur at the
+   * same local time, so the set works on floating wall-clock dates and
+   * `fromRuleDate` converts them back to instants. Without one, it stays
+   * in UTC. Throws if the RRULE doesn't parse.
+   */
+  private buildRuleSet(pattern: RecurrencePattern): SeriesRuleSet {
+    const rrule = RRule.fromString(pattern.rrule!);
+
+    const timeZone = pattern.isAllDay ? null : pattern.timezone;
+    const toRuleDate = (date: Date) => (timeZone ? toWallClock(date, timeZone) : date);
+    const fromRuleDate = (date: Date) => (timeZone ? fromWallClock(date, timeZone) : date);
+
+    const ruleSet = new RRuleSet();
+
+    // Re-create the RRule with the event's dtstart. UNTIL is an instant
+    // (RFC 5545 §3.3.10), so it's shifted onto the same wall clock.
+    ruleSet.rrule(
+      new RRule({
+        ...rrule.origOptions,
+        dtstart: toRuleDate(new Date(pattern.startAt)),
+        ...(rrule.origOptions.until && { until: toRuleDate(rrule.origOptions.until) }),
+      }),
+    );
+
+    for (const rDate of pattern.rDates ?? []) {
+      ruleSet.rdate(toRuleDate(new Date(rDate)));
+    }
+    for (const exDate of pattern.exDates) {
+      ruleSet.exdate(toRuleDate(new Date(exDate)));
+    }
+
+    const calendar = pattern.skipHolidays;
+    const holidayOn = (date: Date) =>
+      calendar ? (findHoliday(calendar, ruleDateDay(date, pattern.isAllDay))?.name ?? null) : null;
+
+    return { ruleSet, timeZone, fromRuleDate, holidayOn };
   }
 
   /**
@@ -160,9 +400,9 @@ export class RecurrenceService {
     }
     const duration = Math.max(0, rawDuration);
 
-    let rrule: InstanceType<typeof RRule>;
+    let series: SeriesRuleSet;
     try {
-      rrule = RRule.fromString(parent.rrule!);
+      series = this.buildRuleSet(parent);
     } catch (err) {
       logger.warn(
         { eventId: parent.id, rrule: parent.rrule, error: err },
@@ -170,29 +410,26 @@ export class RecurrenceService {
       );
       return [];
     }
+    const { ruleSet: rruleSet, timeZone, fromRuleDate, holidayOn } = series;
 
-    // Create an RRuleSet to support exDates
-    const rruleSet = new RRuleSet();
-
-    // Re-create the RRule with the event's dtstart
-    const rruleWithStart = new RRule({
-      ...rrule.origOptions,
-      dtstart: eventStartAt,
-    });
-    rruleSet.rrule(rruleWithStart);
-
-    // Add exDates
-    const exDateSet = new Set<string>();
-    for (const exDateStr of parent.exDates) {
-      const exDate = new Date(exDateStr);
-      rruleSet.exdate(exDate);
-      exDateSet.add(exDate.toISOString());
-    }
+    const exDateSet = new Set(parent.exDates.map((d) => new Date(d).toISOString()));
 
     // Shift the between window back by event duration so we catch occurrences
     // that start before the query range but whose duration extends into it.
+    // Wall-clock windows are padded by the widest UTC offset and filtered
+    // precisely below.
     const windowStart = new Date(start.getTime() - duration);
-    const occurrences = rruleSet.between(windowStart, end, true);
+    const occurrences = (
+      timeZone
+        ? rruleSet.between(
+            new Date(windowStart.getTime() - MAX_UTC_OFFSET_MS),
+            new Date(end.getTime() + MAX_UTC_OFFSET_MS),
+            true,
+          )
+        : rruleSet.between(windowStart, end, true)
+    )
+      .filter((date) => !holidayOn(date))
+      .map(fromRuleDate);
 
     // Cap at MAX_INSTANCES_PER_SERIES
     const cappedOccurrences = occurrences.slice(0, MAX_INSTANCES_PER_SERIES);
@@ -31,6 +31,10 @@ function toISOOrNull(val: unknown): string | null {
   return String(val);
 }
 
+function toStringArray(val: unknown): string[] {
+  return Array.isArray(val) ? val.map(String) : [];
+}
+
 function toDateArray(val: unknown): string[] {
   if (!Array.isArray(val)) return [];
   return val.map((d) => (d instanceof Date ? d.toISOString() : String(d)));
@@ -47,13 +51,21 @@ function rowToEvent(row: any): Event {
     location: row.location ?? null,
     startAt: row.startAt instanceof Date ? row.startAt.toISOString() : String(row.startAt),
     endAt: row.endAt instanceof Date ? row.endAt.toISOString() : String(row.endAt),
+    timezone: row.timezone ?? null,
+    endTimezone: row.endTimezone ?? null,
     isAllDay: Boolean(row.isAllDay),
     color: row.color ?? null,
     visibility: row.visibility as 'public' | 'private',
     rrule: row.rrule ?? null,
     exDates: toDateArray(row.exDates),
+    rDates: toDateArray(row.rDates),
+    skipHolidays: row.skipHolidays ?? null,
+    seriesId: row.seriesId ?? null,
     recurringEventId: row.recurringEventId ?? null,
     originalDate: toISOOrNull(row.originalDate),
+    tagIds: toStringArray(row.tagIds),
+    taskId: row.taskId ?? null,
+    completedAt: toISOOrNull(row.completedAt),
     createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : String(row.createdAt),
     updatedAt: row.updatedAt instanceof Date ? row.updatedAt.toISOString() : String(row.updatedAt),
     deletedAt: null,
@@ -72,10 +84,19 @@ function rowToTask(row: any): Task {
     priority: row.priority as Task['priority'],
     status: row.status as Task['status'],
     completedAt: toISOOrNull(row.completedAt),
+    archivedAt: toISOOrNull(row.archivedAt),
+    estimatedMinutes: row.estimatedMinutes != null ? Number(row.estimatedMinutes) : null,
     rrule: row.rrule ?? null,
+    repeatAfter: row.repeatAfter ?? null,
     exDates: toDateArray(row.exDates),
     recurringTaskId: row.recurringTaskId ?? null,
     originalDate: toISOOrNull(row.originalDate),
+    parentTaskId: row.parentTaskId ?? null,
+    // Search results don't carry subtask roll-ups or dependencies
+    subtaskProgress: { total: 0, done: 0 },
+    tagIds: toStringArray(row.tagIds),
+    blockedBy: [],
+    scheduledAt: toISOOrNull(row.scheduledAt),
     sortOrder: Number(row.sortOrder) || 0,
     createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : String(row.createdAt),
     updatedAt: row.updatedAt instanceof Date ? row.updatedAt.toISOString() : String(row.updatedAt),
@@ -87,8 +108,8 @@ export class SearchService {
   /**
    * Full-text search across events and tasks.
    *
-   * Uses PostgreSQL tsvector/tsquery with the GIN indexes defined on
-   * the events and tasks tables (idx_events_search, idx_tasks_search).
+   * Uses PostgreSQL tsvector/tsquery over each item's title, description
+   * and the names of the user's tags on it.
    *
    * Results are ranked by ts_rank (relevance) then by date proximity
    * to the current date.
@@ -124,20 +145,29 @@ export class SearchService {
         SELECT
           id, user_id AS "userId", category_id AS "categoryId",
           title, description, location,
-          start_at AS "startAt", end_at AS "endAt", is_all_day AS "isAllDay",
-          color, visibility, rrule, ex_dates AS "exDates",
+          start_at AS "startAt", end_at AS "endAt",
+          timezone, end_timezone AS "endTimezone", is_all_day AS "isAllDay",
+          color, visibility, rrule, ex_dates AS "exDates", r_dates AS "rDates",
+          skip_holidays AS "skipHolidays", series_id AS "seriesId",
           recurring_event_id AS "recurringEventId",
           original_date AS "originalDate",
+          COALESCE(tag.ids, '{}') AS "tagIds",
+          task_id AS "taskId", completed_at AS "completedAt",
           created_at AS "createdAt", updated_at AS "updatedAt",
           deleted_at AS "deletedAt",
           ts_rank(
-            to_tsvector('english', title || ' ' || COALESCE(description, '')),
+            to_tsvector('english', title || ' ' || COALESCE(description, '') || ' ' || COALESCE(tag.names, '')),
             to_tsquery('english', ${tsQuery})
           ) AS rank
         FROM events
+        LEFT JOIN LATERAL (
+          SELECT array_agg(t.id) AS ids, string_agg(t.name, ' ') AS names
+          FROM item_tags it JOIN tags t ON t.id = it.tag_id
+          WHERE it.item_type = 'event' AND it.item_id = events.id AND it.user_id = ${userId}
+        ) tag ON true
         WHERE user_id = ${userId}
           AND deleted_at IS NULL
-          AND to_tsvector('english', title || ' ' || COALESCE(description, ''))
+          AND to_tsvector('english', title || ' ' || COALESCE(description, '') || ' ' || COALESCE(tag.names, ''))
               @@ to_tsquery('english', ${tsQuery})
         ORDER BY rank DESC, ABS(EXTRACT(EPOCH FROM (start_at - NOW()))) ASC
         LIMIT ${limit}
@@ -156,20 +186,30 @@ export class SearchService {
           id, user_id AS "userId", category_id AS "categoryId",
           title, description,
           due_at AS "dueAt", priority, status, completed_at AS "completedAt",
-          rrule, ex_dates AS "exDates",
+          archived_at AS "archivedAt",
+          estimated_minutes AS "estimatedMinutes",
+          rrule, repeat_after AS "repeatAfter", ex_dates AS "exDates",
           recurring_task_id AS "recurringTaskId",
           original_date AS "originalDate",
+          parent_task_id AS "parentTaskId",
+          COALESCE(tag.ids, '{}') AS "tagIds",
+          scheduled_at AS "scheduledAt",
           sort_order AS "sortOrder",
           created_at AS "createdAt", updated_at AS "updatedAt",
           deleted_at AS "deletedAt",
           ts_rank(
-            to_tsvector('english', title || ' ' || COALESCE(description, '')),
+            to_tsvector('english', title || ' ' || COALESCE(description, '') || ' ' || COALESCE(tag.names, '')),
             to_tsquery('english', ${tsQuery})
           ) AS rank
         FROM tasks
+        LEFT JOIN LATERAL (
+          SELECT array_agg(t.id) AS ids, string_agg(t.name, ' ') AS names
+          FROM item_tags it JOIN tags t ON t.id = it.tag_id
+          WHERE it.item_type = 'task' AND it.item_id = tasks.id AND it.user_id = ${userId}
+        ) tag ON true
         WHERE user_id = ${userId}
           AND deleted_at IS NULL
-          AND to_tsvector('english', title || ' ' || COALESCE(description, ''))
+          AND to_tsvector('english', title || ' ' || COALESCE(description, '') || ' ' || COALESCE(tag.names, ''))
               @@ to_tsquery('english', ${tsQuery})
         ORDER BY rank DESC, ABS(EXTRACT(EPOCH FROM (COALESCE(due_at, NOW()) - NOW()))) ASC
         LIMIT ${limit}
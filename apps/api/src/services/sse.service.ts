@@ -7,6 +7,7 @@ export type SSEEventType =
   | 'event:created'
   | 'event:updated'
   | 'event:deleted'
+  | 'event:rsvp'
   | 'task:created'
   | 'task:updated'
   | 'task:deleted'
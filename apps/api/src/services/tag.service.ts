@@ -0,0 +1,287 @@
+import { and, asc, count, eq, inArray, ne } from 'drizzle-orm';
+
+import { MAX_TAGS_PER_USER } from '@calley/shared';
+
+import { db } from '../db';
+import { itemTags, tags } from '../db/schema';
+import { AppError } from '../lib/errors';
+import { logger } from '../lib/logger';
+
+import type { Transaction } from '../db';
+import type { CreateTagInput, TagItemType, UpdateTagInput } from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+interface TagRow {
+  id: string;
+  userId: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface TagResponse {
+  id: string;
+  userId: string;
+  name: string;
+  color: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function toTagResponse(row: TagRow): TagResponse {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    color: row.color,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class TagService {
+  /**
+   * List all tags for a user, sorted by name.
+   */
+  async listTags(userId: string): Promise<TagResponse[]> {
+    const rows = await db.query.tags.findMany({
+      where: eq(tags.userId, userId),
+      orderBy: [asc(tags.name)],
+    });
+
+    return rows.map((r) => toTagResponse(r as TagRow));
+  }
+
+  /**
+   * Create a new tag for a user.
+   * Validates name uniqueness per user and enforces the per-user limit.
+   */
+  async createTag(userId: string, data: CreateTagInput): Promise<TagResponse> {
+    const [countResult] = await db
+      .select({ value: count() })
+      .from(tags)
+      .where(eq(tags.userId, userId));
+
+    if (countResult.value >= MAX_TAGS_PER_USER) {
+      throw new AppError(422, 'CONFLICT', `Maximum of ${MAX_TAGS_PER_USER} tags allowed`);
+    }
+
+    const existing = await db.query.tags.findFirst({
+      where: and(eq(tags.userId, userId), eq(tags.name, data.name)),
+    });
+
+    if (existing) {
+      throw new AppError(409, 'CONFLICT', 'A tag with this name already exists');
+    }
+
+    const [created] = await db
+      .insert(tags)
+      .values({ userId, name: data.name, color: data.color })
+      .returning();
+
+    logger.info({ userId, tagId: created.id }, 'Tag created');
+
+    return toTagResponse(created as TagRow);
+  }
+
+  /**
+   * Rename or recolor a tag. Validates ownership.
+   */
+  async updateTag(userId: string, tagId: string, data: UpdateTagInput): Promise<TagResponse> {
+    const tag = await db.query.tags.findFirst({
+      where: and(eq(tags.id, tagId), eq(tags.userId, userId)),
+    });
+
+    if (!tag) {
+      throw new AppError(404, 'NOT_FOUND', 'Tag not found');
+    }
+
+    if (data.name !== undefined && data.name !== tag.name) {
+      const existing = await db.query.tags.findFirst({
+        where: and(eq(tags.userId, userId), eq(tags.name, data.name), ne(tags.id, tagId)),
+      });
+
+      if (existing) {
+        throw new AppError(409, 'CONFLICT', 'A tag with this name already exists');
+      }
+    }
+
+    const [updated] = await db
+      .update(tags)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.color !== undefined && { color: data.color }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(tags.id, tagId), eq(tags.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(404, 'NOT_FOUND', 'Tag not found');
+    }
+
+    logger.info({ userId, tagId }, 'Tag updated');
+
+    return toTagResponse(updated as TagRow);
+  }
+
+  /**
+   * Delete a tag. It is removed from every event and task it was on.
+   */
+  async deleteTag(userId: string, tagId: string): Promise<void> {
+    const [deleted] = await db
+      .delete(tags)
+      .where(and(eq(tags.id, tagId), eq(tags.userId, userId)))
+      .returning({ id: tags.id });
+
+    if (!deleted) {
+      throw new AppError(404, 'NOT_FOUND', 'Tag not found');
+    }
+
+    logger.info({ userId, tagId }, 'Tag deleted');
+  }
+
+  // ─── Item Tags ──────────────────────────────────────────────────────
+
+  /**
+   * Validate that every tag ID belongs to the user.
+   */
+  async validateTagIds(
+    userId: string,
+    tagIds: string[],
+    tx: Transaction | typeof db = db,
+  ): Promise<void> {
+    const unique = [...new Set(tagIds)];
+    if (unique.length === 0) return;
+
+    const found = await tx
+      .select({ id: tags.id })
+      .from(tags)
+      .where(and(eq(tags.userId, userId), inArray(tags.id, unique)));
+
+    if (found.length !== unique.length) {
+      throw new AppError(404, 'NOT_FOUND', 'Tag not found');
+    }
+  }
+
+  /**
+   * Replace the user's tags on an item. Other users' tags on the same
+   * item (members of a shared calendar) are left alone.
+   */
+  async setItemTags(
+    userId: string,
+    itemType: TagItemType,
+    itemId: string,
+    tagIds: string[],
+    tx: Transaction | typeof db = db,
+  ): Promise<void> {
+    await tx
+      .delete(itemTags)
+      .where(
+        and(
+          eq(itemTags.userId, userId),
+          eq(itemTags.itemType, itemType),
+          eq(itemTags.itemId, itemId),
+        ),
+      );
+
+    const unique = [...new Set(tagIds)];
+    if (unique.length === 0) return;
+
+    await tx.insert(itemTags).values(unique.map((tagId) => ({ tagId, userId, itemType, itemId })));
+  }
+
+  /**
+   * Copy every user's tags from one item to another, e.g. onto the new
+   * series when a recurring item is split.
+   */
+  async copyItemTags(
+    itemType: TagItemType,
+    fromId: string,
+    toId: string,
+    tx: Transaction | typeof db = db,
+  ): Promise<void> {
+    const rows = await tx
+      .select({ tagId: itemTags.tagId, userId: itemTags.userId })
+      .from(itemTags)
+      .where(and(eq(itemTags.itemType, itemType), eq(itemTags.itemId, fromId)));
+
+    if (rows.length === 0) return;
+
+    await tx
+      .insert(itemTags)
+      .values(rows.map((row) => ({ ...row, itemType, itemId: toId })))
+      .onConflictDoNothing();
+  }
+
+  /**
+   * Remove every user's tags from items being deleted for good. Tags are
+   * keyed by item type and ID with no foreign key, so nothing cascades.
+   */
+  async deleteItemTags(
+    itemType: TagItemType,
+    itemIds: string[],
+    tx: Transaction | typeof db = db,
+  ): Promise<void> {
+    if (itemIds.length === 0) return;
+
+    await tx
+      .delete(itemTags)
+      .where(and(eq(itemTags.itemType, itemType), inArray(itemTags.itemId, itemIds)));
+  }
+
+  /**
+   * The user's tag IDs on each of the given items. Items without tags
+   * are missing from the map.
+   */
+  async getItemTagIds(
+    userId: string,
+    itemType: TagItemType,
+    itemIds: string[],
+    tx: Transaction | typeof db = db,
+  ): Promise<Map<string, string[]>> {
+    const result = new Map<string, string[]>();
+    if (itemIds.length === 0) return result;
+
+    const rows = await tx
+      .select({ itemId: itemTags.itemId, tagId: itemTags.tagId })
+      .from(itemTags)
+      .where(
+        and(
+          eq(itemTags.userId, userId),
+          eq(itemTags.itemType, itemType),
+          inArray(itemTags.itemId, itemIds),
+        ),
+      );
+
+    for (const row of rows) {
+      result.set(row.itemId, [...(result.get(row.itemId) ?? []), row.tagId]);
+    }
+    return result;
+  }
+
+  /**
+   * Subquery of item IDs carrying any of the user's given tags, for use
+   * with `inArray` when filtering lists by tag.
+   */
+  taggedItemIds(userId: string, itemType: TagItemType, tagIds: string[]) {
+    return db
+      .select({ id: itemTags.itemId })
+      .from(itemTags)
+      .where(
+        and(
+          eq(itemTags.userId, userId),
+          eq(itemTags.itemType, itemType),
+          inArray(itemTags.tagId, tagIds),
+        ),
+      );
+  }
+}
+
+export const tagService = new TagService();
@@ -0,0 +1,194 @@
+import { and, asc, count, eq, inArray, ne } from 'drizzle-orm';
+
+import { MAX_TASK_LISTS_PER_USER } from '@calley/shared';
+
+import { db } from '../db';
+import { calendarCategories, taskLists } from '../db/schema';
+import { AppError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { tagService } from './tag.service';
+
+import type { CreateTaskListInput, TaskListFilters, UpdateTaskListInput } from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+interface TaskListRow {
+  id: string;
+  userId: string;
+  name: string;
+  filters: TaskListFilters;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface TaskListResponse {
+  id: string;
+  userId: string;
+  name: string;
+  filters: TaskListFilters;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function toTaskListResponse(row: TaskListRow): TaskListResponse {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    filters: row.filters,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class TaskListService {
+  /**
+   * List a user's saved task lists, sorted by name.
+   */
+  async listTaskLists(userId: string): Promise<TaskListResponse[]> {
+    const rows = await db.query.taskLists.findMany({
+      where: eq(taskLists.userId, userId),
+      orderBy: [asc(taskLists.name)],
+    });
+
+    return rows.map((r) => toTaskListResponse(r as TaskListRow));
+  }
+
+  /**
+   * Save a filter combination as a named list.
+   * Validates name uniqueness per user and enforces the per-user limit.
+   */
+  async createTaskList(userId: string, data: CreateTaskListInput): Promise<TaskListResponse> {
+    const [countResult] = await db
+      .select({ value: count() })
+      .from(taskLists)
+      .where(eq(taskLists.userId, userId));
+
+    if (countResult.value >= MAX_TASK_LISTS_PER_USER) {
+      throw new AppError(
+        422,
+        'CONFLICT',
+        `Maximum of ${MAX_TASK_LISTS_PER_USER} task lists allowed`,
+      );
+    }
+
+    const existing = await db.query.taskLists.findFirst({
+      where: and(eq(taskLists.userId, userId), eq(taskLists.name, data.name)),
+    });
+
+    if (existing) {
+      throw new AppError(409, 'CONFLICT', 'A task list with this name already exists');
+    }
+
+    await this.validateFilters(userId, data.filters);
+
+    const [created] = await db
+      .insert(taskLists)
+      .values({ userId, name: data.name, filters: data.filters })
+      .returning();
+
+    logger.info({ userId, taskListId: created.id }, 'Task list created');
+
+    return toTaskListResponse(created as TaskListRow);
+  }
+
+  /**
+   * Rename a saved list or change its filters. Validates ownership.
+   */
+  async updateTaskList(
+    userId: string,
+    taskListId: string,
+    data: UpdateTaskListInput,
+  ): Promise<TaskListResponse> {
+    const taskList = await db.query.taskLists.findFirst({
+      where: and(eq(taskLists.id, taskListId), eq(taskLists.userId, userId)),
+    });
+
+    if (!taskList) {
+      throw new AppError(404, 'NOT_FOUND', 'Task list not found');
+    }
+
+    if (data.name !== undefined && data.name !== taskList.name) {
+      const existing = await db.query.taskLists.findFirst({
+        where: and(
+          eq(taskLists.userId, userId),
+          eq(taskLists.name, data.name),
+          ne(taskLists.id, taskListId),
+        ),
+      });
+
+      if (existing) {
+        throw new AppError(409, 'CONFLICT', 'A task list with this name already exists');
+      }
+    }
+
+    if (data.filters) {
+      await this.validateFilters(userId, data.filters);
+    }
+
+    const [updated] = await db
+      .update(taskLists)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.filters !== undefined && { filters: data.filters }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(taskLists.id, taskListId), eq(taskLists.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(404, 'NOT_FOUND', 'Task list not found');
+    }
+
+    logger.info({ userId, taskListId }, 'Task list updated');
+
+    return toTaskListResponse(updated as TaskListRow);
+  }
+
+  /**
+   * Delete a saved list. The tasks it showed are untouched.
+   */
+  async deleteTaskList(userId: string, taskListId: string): Promise<void> {
+    const [deleted] = await db
+      .delete(taskLists)
+      .where(and(eq(taskLists.id, taskListId), eq(taskLists.userId, userId)))
+      .returning({ id: taskLists.id });
+
+    if (!deleted) {
+      throw new AppError(404, 'NOT_FOUND', 'Task list not found');
+    }
+
+    logger.info({ userId, taskListId }, 'Task list deleted');
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  /**
+   * Validate that the categories and tags a list filters on belong to the user.
+   */
+  private async validateFilters(userId: string, filters: TaskListFilters): Promise<void> {
+    const categoryIds = [...new Set(filters.categoryIds ?? [])];
+    if (categoryIds.length > 0) {
+      const found = await db
+        .select({ id: calendarCategories.id })
+        .from(calendarCategories)
+        .where(
+          and(eq(calendarCategories.userId, userId), inArray(calendarCategories.id, categoryIds)),
+        );
+
+      if (found.length !== categoryIds.length) {
+        throw new AppError(404, 'NOT_FOUND', 'Category not found');
+      }
+    }
+
+    if (filters.tagIds?.length) {
+      await tagService.validateTagIds(userId, filters.tagIds);
+    }
+  }
+}
+
+export const taskListService = new TaskListService();
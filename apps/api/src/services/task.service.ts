@@ -1,14 +1,51 @@
-import { and, asc, desc, eq, gte, inArray, isNotNull, isNull, lte, sql } from 'drizzle-orm';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+  or,
+  sql,
+} from 'drizzle-orm';
+
+import { SMART_LISTS, TRASH_RETENTION_DAYS } from '@calley/shared';
 
 import { db } from '../db';
-import { calendarCategories, reminders, tasks } from '../db/schema';
+import {
+  calendarCategories,
+  events,
+  reminders,
+  taskCompletions,
+  taskDependencies,
+  tasks,
+  users,
+} from '../db/schema';
 import { AppError } from '../lib/errors';
 import { logger } from '../lib/logger';
 import { reminderQueue } from '../lib/queue';
 import { recurrenceService } from './recurrence.service';
 import { sseService } from './sse.service';
-
-import type { CreateTaskInput, EditScope, ListTasksQuery, UpdateTaskInput } from '@calley/shared';
+import { tagService } from './tag.service';
+
+import type { Transaction } from '../db';
+import type {
+  CreateTaskInput,
+  EditScope,
+  ListTasksQuery,
+  PaginationInput,
+  SmartList,
+  SmartListCounts,
+  ToggleTaskInput,
+  UpdateTaskInput,
+} from '@calley/shared';
+import type { SQL } from 'drizzle-orm';
 
 // ─── Types ──────────────────────────────────────────────────────────
 
@@ -22,16 +59,32 @@ interface TaskRow {
   priority: string;
   status: string;
   completedAt: Date | null;
+  archivedAt: Date | null;
+  estimatedMinutes: number | null;
   rrule: string | null;
+  repeatAfter: string | null;
   exDates: Date[] | null;
   recurringTaskId: string | null;
   originalDate: Date | null;
+  parentTaskId: string | null;
+  scheduledAt: Date | null;
   sortOrder: number;
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
 }
 
+interface SubtaskProgress {
+  total: number;
+  done: number;
+}
+
+interface TaskBlocker {
+  id: string;
+  title: string;
+  status: string;
+}
+
 interface TaskResponse {
   id: string;
   userId: string;
@@ -42,19 +95,74 @@ interface TaskResponse {
   priority: string;
   status: string;
   completedAt: string | null;
+  archivedAt: string | null;
+  estimatedMinutes: number | null;
   rrule: string | null;
+  repeatAfter: string | null;
   exDates: string[];
   recurringTaskId: string | null;
   originalDate: string | null;
+  parentTaskId: string | null;
+  subtaskProgress: SubtaskProgress;
+  tagIds: string[];
+  blockedBy: TaskBlocker[];
+  scheduledAt: string | null;
   sortOrder: number;
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
 }
 
+interface TaskCompletionResponse {
+  id: string;
+  taskId: string;
+  completedAt: string;
+  dueAt: string | null;
+}
+
+interface CompletedTasksPageResponse {
+  tasks: TaskResponse[];
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+}
+
+interface TrashedTaskResponse {
+  id: string;
+  title: string;
+  categoryId: string;
+  dueAt: string | null;
+  status: string;
+  rrule: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+/** A user's live subtasks keyed by parent task ID, each list in display order */
+type SubtaskTree = Map<string, TaskRow[]>;
+
+/** The live tasks each of a user's tasks waits on, keyed by the waiting task's ID */
+type BlockerMap = Map<string, TaskBlocker[]>;
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Most completions returned in a task's history */
+const MAX_COMPLETIONS_LISTED = 100;
+
+/** How deep subtasks can nest below a top-level task */
+const MAX_SUBTASK_DEPTH = 3;
+
+const NO_SUBTASKS: SubtaskProgress = { total: 0, done: 0 };
+
 // ─── Helpers ────────────────────────────────────────────────────────
 
-function toTaskResponse(row: TaskRow): TaskResponse {
+function toTaskResponse(
+  row: TaskRow,
+  subtaskProgress = NO_SUBTASKS,
+  tagIds: string[] = [],
+  blockedBy: TaskBlocker[] = [],
+): TaskResponse {
   return {
     id: row.id,
     userId: row.userId,
@@ -65,10 +173,18 @@ function toTaskResponse(row: TaskRow): TaskResponse {
     priority: row.priority,
     status: row.status,
     completedAt: row.completedAt ? row.completedAt.toISOString() : null,
+    archivedAt: row.archivedAt ? row.archivedAt.toISOString() : null,
+    estimatedMinutes: row.estimatedMinutes ?? null,
     rrule: row.rrule,
+    repeatAfter: row.repeatAfter ?? null,
     exDates: (row.exDates ?? []).map((d) => d.toISOString()),
     recurringTaskId: row.recurringTaskId,
     originalDate: row.originalDate ? row.originalDate.toISOString() : null,
+    parentTaskId: row.parentTaskId ?? null,
+    subtaskProgress,
+    tagIds,
+    blockedBy,
+    scheduledAt: row.scheduledAt ? row.scheduledAt.toISOString() : null,
     sortOrder: row.sortOrder,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
@@ -76,6 +192,172 @@ function toTaskResponse(row: TaskRow): TaskResponse {
   };
 }
 
+/**
+ * Every subtask beneath a task, at any depth, parents before children.
+ */
+function getDescendants(tree: SubtaskTree, taskId: string): TaskRow[] {
+  const result: TaskRow[] = [];
+  const queue = [...(tree.get(taskId) ?? [])];
+  while (queue.length > 0) {
+    const row = queue.shift()!;
+    result.push(row);
+    queue.push(...(tree.get(row.id) ?? []));
+  }
+  return result;
+}
+
+/**
+ * Number of subtask levels beneath a task (0 when it has none).
+ */
+function getSubtreeHeight(tree: SubtaskTree, taskId: string): number {
+  const children = tree.get(taskId) ?? [];
+  return children.reduce((max, child) => Math.max(max, 1 + getSubtreeHeight(tree, child.id)), 0);
+}
+
+/**
+ * How many levels below the top level a task sits (0 for a top-level task).
+ */
+function getDepth(tree: SubtaskTree, task: Pick<TaskRow, 'parentTaskId'>): number {
+  const byId = new Map<string, TaskRow>();
+  for (const rows of tree.values()) {
+    for (const row of rows) byId.set(row.id, row);
+  }
+
+  let depth = 0;
+  let parentId = task.parentTaskId;
+  while (parentId && depth <= MAX_SUBTASK_DEPTH) {
+    depth++;
+    parentId = byId.get(parentId)?.parentTaskId ?? null;
+  }
+  return depth;
+}
+
+/**
+ * Roll-up progress over all of a task's subtasks, nested ones included.
+ */
+function getSubtaskProgress(tree: SubtaskTree, taskId: string): SubtaskProgress {
+  const descendants = getDescendants(tree, taskId);
+  return {
+    total: descendants.length,
+    done: descendants.filter((row) => row.status === 'done').length,
+  };
+}
+
+/**
+ * Whether making `taskId` wait on `blockedByIds` would close a loop, i.e.
+ * one of the new blockers already waits on `taskId`, directly or through
+ * other tasks.
+ */
+function createsCycle(blockers: BlockerMap, taskId: string, blockedByIds: string[]): boolean {
+  const seen = new Set<string>();
+  const stack = [...blockedByIds];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(blockers.get(id) ?? []).map((b) => b.id));
+  }
+  return false;
+}
+
+/**
+ * The blockers of a task that are not finished yet.
+ */
+function getOpenBlockers(blockers: BlockerMap, taskId: string): TaskBlocker[] {
+  return (blockers.get(taskId) ?? []).filter((b) => b.status !== 'done');
+}
+
+/**
+ * When a deleted item drops out of the trash for good.
+ */
+function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * A task repeats either on a schedule (rrule) or after each completion
+ * (repeatAfter), never both.
+ */
+function assertSingleRepeat(rrule?: string | null, repeatAfter?: string | null): void {
+  if (rrule && repeatAfter) {
+    throw new AppError(
+      422,
+      'VALIDATION_ERROR',
+      'A task cannot repeat on a schedule and after completion',
+    );
+  }
+}
+
+/**
+ * Start of today and of tomorrow in the user's timezone, as UTC instants.
+ */
+function getDayBounds(
+  timezone: string,
+  now = new Date(),
+): { todayStart: Date; tomorrowStart: Date } {
+  const today = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+  const next = new Date(`${today}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  const tomorrow = next.toISOString().slice(0, 10);
+
+  return {
+    todayStart: fromZonedTime(`${today}T00:00:00`, timezone),
+    tomorrowStart: fromZonedTime(`${tomorrow}T00:00:00`, timezone),
+  };
+}
+
+/**
+ * Conditions for the user's top-level tasks: not deleted or archived,
+ * and neither a recurring exception nor a subtask. The task list and the
+ * smart list counts share them, so the counts match what the lists show.
+ */
+function topLevelTaskConditions(userId: string): SQL[] {
+  return [
+    eq(tasks.userId, userId),
+    isNull(tasks.deletedAt),
+    isNull(tasks.recurringTaskId), // Exclude exception instances from top-level listing
+    isNull(tasks.parentTaskId), // Subtasks are listed under their parent
+    isNull(tasks.archivedAt), // Archived tasks only show in the completed history
+  ];
+}
+
+/**
+ * Conditions for a built-in smart list. Every smart list leaves out
+ * finished tasks; they differ only in where the due date falls.
+ */
+function smartListConditions(
+  list: SmartList,
+  bounds: { todayStart: Date; tomorrowStart: Date },
+): SQL[] {
+  const open = ne(tasks.status, 'done');
+  switch (list) {
+    case 'today':
+      return [open, gte(tasks.dueAt, bounds.todayStart), lt(tasks.dueAt, bounds.tomorrowStart)];
+    case 'upcoming':
+      return [open, gte(tasks.dueAt, bounds.tomorrowStart)];
+    case 'overdue':
+      return [open, lt(tasks.dueAt, bounds.todayStart)];
+    case 'someday':
+      return [open, isNull(tasks.dueAt)];
+  }
+}
+
+/**
+ * Match the tasks selected by `roots` and every subtask beneath them,
+ * so deleting a task takes its whole subtree with it.
+ */
+function withSubtasks(roots: SQL | undefined): SQL {
+  return sql`${tasks.id} IN (
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM ${tasks} WHERE ${roots}
+      UNION ALL
+      SELECT child.id FROM ${tasks} child JOIN subtree ON child.parent_task_id = subtree.id
+    )
+    SELECT id FROM subtree
+  )`;
+}
+
 // ─── Service ────────────────────────────────────────────────────────
 
 export class TaskService {
@@ -84,11 +366,7 @@ export class TaskService {
    * Supports filtering by status, priority, due date range, and sorting.
    */
   async listTasks(userId: string, filters: ListTasksQuery): Promise<TaskResponse[]> {
-    const conditions = [
-      eq(tasks.userId, userId),
-      isNull(tasks.deletedAt),
-      isNull(tasks.recurringTaskId), // Exclude exception instances from top-level listing
-    ];
+    const conditions = topLevelTaskConditions(userId);
 
     if (filters.status && filters.status.length > 0) {
       conditions.push(inArray(tasks.status, filters.status));
@@ -106,6 +384,24 @@ export class TaskService {
       conditions.push(lte(tasks.dueAt, new Date(filters.dueEnd)));
     }
 
+    // Tag, category and smart list filters apply to recurring parents too
+    const sharedConditions: SQL[] = [];
+
+    if (filters.tagIds?.length) {
+      sharedConditions.push(
+        inArray(tasks.id, tagService.taggedItemIds(userId, 'task', filters.tagIds)),
+      );
+    }
+
+    if (filters.categoryIds?.length) {
+      sharedConditions.push(inArray(tasks.categoryId, filters.categoryIds));
+    }
+
+    if (filters.list) {
+      const bounds = getDayBounds(await this.getTimeZone(userId));
+      sharedConditions.push(...smartListConditions(filters.list, bounds));
+    }
+
     // Determine sort order
     let orderBy;
     switch (filters.sort) {
@@ -135,20 +431,17 @@ export class TaskService {
     // Fetch non-recurring tasks and recurring parents separately
     const [regularTasks, recurringParents] = await Promise.all([
       db.query.tasks.findMany({
-        where: and(...conditions, isNull(tasks.rrule)),
+        where: and(...conditions, ...sharedConditions, isNull(tasks.rrule)),
         orderBy,
       }),
       db.query.tasks.findMany({
-        where: and(
-          eq(tasks.userId, userId),
-          isNull(tasks.deletedAt),
-          isNotNull(tasks.rrule),
-          isNull(tasks.recurringTaskId),
-        ),
+        where: and(...topLevelTaskConditions(userId), isNotNull(tasks.rrule), ...sharedConditions),
         orderBy,
       }),
     ]);
 
+    const tree = await this.loadSubtaskTree(userId);
+
     const allTasks = [...regularTasks, ...recurringParents];
 
     // Deduplicate by id
@@ -159,7 +452,49 @@ export class TaskService {
       return true;
     });
 
-    return deduped.map((t) => toTaskResponse(t as TaskRow));
+    const tagIds = await tagService.getItemTagIds(
+      userId,
+      'task',
+      deduped.map((t) => t.id),
+    );
+
+    const blockers = await this.loadBlockers(
+      userId,
+      deduped.map((t) => t.id),
+    );
+
+    return deduped.map((t) =>
+      toTaskResponse(
+        t as TaskRow,
+        getSubtaskProgress(tree, t.id),
+        tagIds.get(t.id),
+        blockers.get(t.id),
+      ),
+    );
+  }
+
+  /**
+   * Count the open top-level tasks in each built-in smart list,
+   * using day boundaries in the user's timezone.
+   */
+  async getSmartListCounts(userId: string): Promise<SmartListCounts> {
+    const bounds = getDayBounds(await this.getTimeZone(userId));
+
+    const counts = Object.fromEntries(
+      SMART_LISTS.map((list) => [
+        list,
+        sql`count(*) filter (where ${and(...smartListConditions(list, bounds))})`.mapWith(Number),
+      ]),
+    );
+
+    const [row] = await db
+      .select(counts)
+      .from(tasks)
+      .where(and(...topLevelTaskConditions(userId)));
+
+    return Object.fromEntries(
+      SMART_LISTS.map((list) => [list, row?.[list] ?? 0]),
+    ) as SmartListCounts;
   }
 
   /**
@@ -174,7 +509,43 @@ export class TaskService {
       throw new AppError(404, 'NOT_FOUND', 'Task not found');
     }
 
-    return toTaskResponse(task as TaskRow);
+    const tree = await this.loadSubtaskTree(userId);
+    const tagIds = await this.loadTagIds(userId, task.id);
+    const blockedBy = await this.loadTaskBlockers(userId, task.id);
+    return toTaskResponse(task as TaskRow, getSubtaskProgress(tree, task.id), tagIds, blockedBy);
+  }
+
+  /**
+   * List the direct subtasks of a task, in display order.
+   */
+  async listSubtasks(userId: string, taskId: string): Promise<TaskResponse[]> {
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+    });
+
+    if (!task) {
+      throw new AppError(404, 'NOT_FOUND', 'Task not found');
+    }
+
+    const tree = await this.loadSubtaskTree(userId);
+    const subtasks = tree.get(task.id) ?? [];
+    const tagIds = await tagService.getItemTagIds(
+      userId,
+      'task',
+      subtasks.map((row) => row.id),
+    );
+    const blockers = await this.loadBlockers(
+      userId,
+      subtasks.map((row) => row.id),
+    );
+    return subtasks.map((row) =>
+      toTaskResponse(
+        row,
+        getSubtaskProgress(tree, row.id),
+        tagIds.get(row.id),
+        blockers.get(row.id),
+      ),
+    );
   }
 
   /**
@@ -189,6 +560,24 @@ export class TaskService {
     if (data.rrule) {
       this.validateRrule(data.rrule);
     }
+    assertSingleRepeat(data.rrule, data.repeatAfter);
+
+    if (data.parentTaskId) {
+      if (data.rrule || data.repeatAfter) {
+        throw new AppError(422, 'VALIDATION_ERROR', 'Subtasks cannot repeat');
+      }
+      const tree = await this.loadSubtaskTree(userId);
+      await this.validateParent(userId, data.parentTaskId, tree);
+    }
+
+    if (data.tagIds) {
+      await tagService.validateTagIds(userId, data.tagIds);
+    }
+
+    // Nothing waits on a new task yet, so its blockers can't form a cycle
+    const blockedBy = data.blockedByIds?.length
+      ? await this.validateBlockers(userId, data.blockedByIds)
+      : [];
 
     const task = await db.transaction(async (tx) => {
       // Get the max sortOrder for this user's tasks
@@ -208,11 +597,25 @@ export class TaskService {
           description: data.description ?? null,
           dueAt: data.dueAt ? new Date(data.dueAt) : null,
           priority: data.priority ?? 'none',
+          estimatedMinutes: data.estimatedMinutes ?? null,
           rrule: data.rrule ?? null,
+          repeatAfter: data.repeatAfter ?? null,
+          parentTaskId: data.parentTaskId ?? null,
           sortOrder: nextSortOrder,
         })
         .returning();
 
+      if (data.tagIds?.length) {
+        await tagService.setItemTags(userId, 'task', inserted.id, data.tagIds, tx);
+      }
+
+      await this.insertBlockers(
+        tx,
+        userId,
+        inserted.id,
+        blockedBy.map((b) => b.id),
+      );
+
       // Create reminder if specified
       let inlineReminder: typeof reminders.$inferSelect | null = null;
       if (data.reminder && data.dueAt) {
@@ -264,7 +667,12 @@ export class TaskService {
 
     logger.info({ userId, taskId: task.inserted.id }, 'Task created');
 
-    const response = toTaskResponse(task.inserted as TaskRow);
+    const response = toTaskResponse(
+      task.inserted as TaskRow,
+      NO_SUBTASKS,
+      [...new Set(data.tagIds ?? [])],
+      blockedBy,
+    );
 
     sseService.emit(userId, 'task:created', {
       id: response.id,
@@ -305,21 +713,57 @@ export class TaskService {
       this.validateRrule(data.rrule);
     }
 
+    if (data.tagIds) {
+      await tagService.validateTagIds(userId, data.tagIds);
+    }
+
+    const newBlockers = data.blockedByIds
+      ? await this.validateBlockers(userId, data.blockedByIds, task.id)
+      : undefined;
+
+    if ((data.status === 'in_progress' || data.status === 'done') && data.status !== task.status) {
+      await this.assertUnblocked(userId, task.id, newBlockers);
+    }
+
+    const tree = await this.loadSubtaskTree(userId);
+
+    // Validate the new position if the task is being nested or re-nested
+    const parentTaskId = data.parentTaskId !== undefined ? data.parentTaskId : task.parentTaskId;
+    const rrule = data.rrule !== undefined ? data.rrule : task.rrule;
+    const repeatAfter = data.repeatAfter !== undefined ? data.repeatAfter : task.repeatAfter;
+    assertSingleRepeat(rrule, repeatAfter);
+    if (parentTaskId) {
+      if (rrule || repeatAfter) {
+        throw new AppError(422, 'VALIDATION_ERROR', 'Subtasks cannot repeat');
+      }
+      if (task.recurringTaskId) {
+        throw new AppError(
+          422,
+          'VALIDATION_ERROR',
+          'A single occurrence of a recurring task cannot become a subtask',
+        );
+      }
+      if (data.parentTaskId) {
+        await this.validateParent(userId, data.parentTaskId, tree, task as TaskRow);
+      }
+    }
+
     const isRecurring = task.rrule !== null;
+    const completing = data.status === 'done' && task.status !== 'done';
 
     // Non-recurring task or no scope specified: direct update
     if (!isRecurring || !scope) {
-      return this.directUpdate(userId, taskId, data);
+      return this.directUpdate(userId, taskId, data, tree, completing);
     }
 
     // Recurring task with scope
     switch (scope) {
       case 'instance':
-        return this.updateInstance(userId, task as TaskRow, data, instanceDate);
+        return this.updateInstance(userId, task as TaskRow, data, tree, instanceDate);
       case 'following':
-        return this.updateFollowing(userId, task as TaskRow, data, instanceDate);
+        return this.updateFollowing(userId, task as TaskRow, data, tree, instanceDate);
       case 'all':
-        return this.directUpdate(userId, taskId, data);
+        return this.directUpdate(userId, taskId, data, tree, completing);
       default:
         throw new AppError(400, 'VALIDATION_ERROR', `Invalid scope: ${scope}`);
     }
@@ -373,9 +817,14 @@ export class TaskService {
 
   /**
    * Toggle task completion status (todo ↔ done).
-   * Sets or clears completedAt accordingly.
+   * Sets or clears completedAt accordingly. When completing a task with
+   * `completeSubtasks`, its open subtasks at every depth are completed too.
    */
-  async toggleTask(userId: string, taskId: string): Promise<TaskResponse> {
+  async toggleTask(
+    userId: string,
+    taskId: string,
+    options?: ToggleTaskInput,
+  ): Promise<TaskResponse> {
     const task = await db.query.tasks.findFirst({
       where: and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
     });
@@ -388,11 +837,36 @@ export class TaskService {
     const newStatus = isDone ? 'todo' : 'done';
     const newCompletedAt = isDone ? null : new Date();
 
+    if (!isDone) {
+      await this.assertUnblocked(userId, taskId);
+    }
+
+    let tree = await this.loadSubtaskTree(userId);
+
+    // Subtasks finish along with their task, unless it comes straight back
+    // (repeating reopens them anyway). Like a bulk completion, the task
+    // finishing in the same change doesn't count as an open blocker.
+    const openSubtaskIds =
+      !isDone && !task.repeatAfter && options?.completeSubtasks
+        ? getDescendants(tree, taskId)
+            .filter((row) => row.status !== 'done')
+            .map((row) => row.id)
+        : [];
+    if (openSubtaskIds.length > 0) {
+      await this.assertBatchUnblocked(
+        userId,
+        openSubtaskIds,
+        [taskId, ...openSubtaskIds],
+        'Some subtasks are blocked by unfinished tasks',
+      );
+    }
+
     const [updated] = await db
       .update(tasks)
       .set({
         status: newStatus,
         completedAt: newCompletedAt,
+        archivedAt: null, // Reopening a task brings it back out of the archive
         updatedAt: new Date(),
       })
       .where(and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
@@ -402,14 +876,51 @@ export class TaskService {
       throw new AppError(404, 'NOT_FOUND', 'Task not found');
     }
 
+    if (updated.scheduledAt) {
+      await this.syncFocusBlocks([taskId], newCompletedAt);
+    }
+
+    // A task that repeats after completion comes straight back with its next due date
+    const current =
+      newCompletedAt && updated.repeatAfter
+        ? await this.repeatAfterCompletion(userId, updated as TaskRow, newCompletedAt)
+        : updated;
+
+    if (openSubtaskIds.length > 0) {
+      const completed = await db
+        .update(tasks)
+        .set({ status: 'done', completedAt: newCompletedAt, updatedAt: new Date() })
+        .where(
+          and(inArray(tasks.id, openSubtaskIds), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+        )
+        .returning({ id: tasks.id, scheduledAt: tasks.scheduledAt });
+
+      const scheduledIds = completed.filter((row) => row.scheduledAt).map((row) => row.id);
+      if (scheduledIds.length > 0) {
+        await this.syncFocusBlocks(scheduledIds, newCompletedAt);
+      }
+    }
+
+    if (current !== updated || openSubtaskIds.length > 0) {
+      tree = await this.loadSubtaskTree(userId);
+    }
+
     logger.info({ userId, taskId, newStatus }, 'Task toggled');
 
-    const response = toTaskResponse(updated as TaskRow);
+    const tagIds = await this.loadTagIds(userId, taskId);
+    const blockedBy = await this.loadTaskBlockers(userId, taskId);
+    const response = toTaskResponse(
+      current as TaskRow,
+      getSubtaskProgress(tree, taskId),
+      tagIds,
+      blockedBy,
+    );
 
     sseService.emit(userId, 'task:updated', {
       id: response.id,
       status: response.status,
       completedAt: response.completedAt,
+      dueAt: response.dueAt,
     });
 
     return response;
@@ -432,9 +943,18 @@ export class TaskService {
   }
 
   /**
-   * Bulk complete tasks — marks all specified tasks as done.
+   * Bulk complete tasks — marks all specified tasks as done, along with
+   * their focus blocks. Blockers completed in the same batch don't count
+   * as open.
    */
   async bulkComplete(userId: string, ids: string[]): Promise<number> {
+    await this.assertBatchUnblocked(
+      userId,
+      ids,
+      ids,
+      'Some of these tasks are blocked by unfinished tasks',
+    );
+
     const now = new Date();
     const result = await db
       .update(tasks)
@@ -444,29 +964,346 @@ export class TaskService {
         updatedAt: now,
       })
       .where(and(inArray(tasks.id, ids), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
-      .returning({ id: tasks.id });
+      .returning({
+        id: tasks.id,
+        scheduledAt: tasks.scheduledAt,
+        dueAt: tasks.dueAt,
+        repeatAfter: tasks.repeatAfter,
+      });
+
+    const scheduledIds = result.filter((row) => row.scheduledAt).map((row) => row.id);
+    if (scheduledIds.length > 0) {
+      await this.syncFocusBlocks(scheduledIds, now);
+    }
+
+    const repeating = result.filter((row) => row.repeatAfter);
+    if (repeating.length > 0) {
+      const timeZone = await this.getTimeZone(userId);
+      for (const row of repeating) {
+        await this.repeatAfterCompletion(userId, row, now, timeZone);
+      }
+    }
 
     logger.info({ userId, count: result.length }, 'Tasks bulk completed');
     return result.length;
   }
 
   /**
-   * Bulk delete tasks — soft deletes all specified tasks.
+   * Completion history of a task that repeats after completion, newest first.
+   */
+  async listCompletions(userId: string, taskId: string): Promise<TaskCompletionResponse[]> {
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+      columns: { id: true },
+    });
+
+    if (!task) {
+      throw new AppError(404, 'NOT_FOUND', 'Task not found');
+    }
+
+    const rows = await db.query.taskCompletions.findMany({
+      where: and(eq(taskCompletions.taskId, taskId), eq(taskCompletions.userId, userId)),
+      orderBy: [desc(taskCompletions.completedAt)],
+      limit: MAX_COMPLETIONS_LISTED,
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      taskId: row.taskId,
+      completedAt: row.completedAt.toISOString(),
+      dueAt: row.dueAt ? row.dueAt.toISOString() : null,
+    }));
+  }
+
+  /**
+   * Bulk delete tasks — soft deletes all specified tasks along with their
+   * subtasks. The count covers only the requested tasks.
    */
   async bulkDelete(userId: string, ids: string[]): Promise<number> {
     const now = new Date();
     const result = await db
       .update(tasks)
       .set({ deletedAt: now })
-      .where(and(inArray(tasks.id, ids), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+      .where(
+        and(
+          withSubtasks(and(inArray(tasks.id, ids), eq(tasks.userId, userId))),
+          eq(tasks.userId, userId),
+          isNull(tasks.deletedAt),
+        ),
+      )
+      .returning({ id: tasks.id });
+
+    const requested = new Set(ids);
+    const count = result.filter((row) => requested.has(row.id)).length;
+
+    logger.info({ userId, count }, 'Tasks bulk deleted');
+    return count;
+  }
+
+  // ─── Archive & History ──────────────────────────────────────────────
+
+  /**
+   * Archive a done task: it leaves the task lists, board and calendar
+   * but stays in the completed history. Reopening it unarchives it.
+   */
+  async archiveTask(userId: string, taskId: string): Promise<TaskResponse> {
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+    });
+
+    if (!task) {
+      throw new AppError(404, 'NOT_FOUND', 'Task not found');
+    }
+
+    if (task.status !== 'done') {
+      throw new AppError(409, 'CONFLICT', 'Only completed tasks can be archived');
+    }
+
+    return this.setArchived(userId, taskId, new Date());
+  }
+
+  /**
+   * Bring an archived task back into the task lists.
+   */
+  async unarchiveTask(userId: string, taskId: string): Promise<TaskResponse> {
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+      columns: { id: true },
+    });
+
+    if (!task) {
+      throw new AppError(404, 'NOT_FOUND', 'Task not found');
+    }
+
+    return this.setArchived(userId, taskId, null);
+  }
+
+  /**
+   * Archive every done top-level task that isn't archived yet.
+   */
+  async archiveCompleted(userId: string): Promise<number> {
+    const now = new Date();
+    const result = await db
+      .update(tasks)
+      .set({ archivedAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(tasks.userId, userId),
+          eq(tasks.status, 'done'),
+          isNull(tasks.archivedAt),
+          isNull(tasks.parentTaskId),
+          isNull(tasks.deletedAt),
+        ),
+      )
       .returning({ id: tasks.id });
 
-    logger.info({ userId, count: result.length }, 'Tasks bulk deleted');
+    logger.info({ userId, count: result.length }, 'Completed tasks archived');
     return result.length;
   }
 
+  /**
+   * One page of the user's done top-level tasks, archived or not, most
+   * recently completed first.
+   */
+  async listCompletedTasks(
+    userId: string,
+    { page, limit }: PaginationInput,
+  ): Promise<CompletedTasksPageResponse> {
+    const where = and(
+      eq(tasks.userId, userId),
+      eq(tasks.status, 'done'),
+      isNotNull(tasks.completedAt),
+      isNull(tasks.parentTaskId),
+      isNull(tasks.deletedAt),
+    );
+
+    const [rows, [counted]] = await Promise.all([
+      db.query.tasks.findMany({
+        where,
+        orderBy: [desc(tasks.completedAt), desc(tasks.id)],
+        limit,
+        offset: (page - 1) * limit,
+      }),
+      db
+        .select({ total: sql<number>`count(*)`.mapWith(Number) })
+        .from(tasks)
+        .where(where),
+    ]);
+
+    const tree = await this.loadSubtaskTree(userId);
+    const tagIds = await tagService.getItemTagIds(
+      userId,
+      'task',
+      rows.map((t) => t.id),
+    );
+
+    const total = counted?.total ?? 0;
+    return {
+      tasks: rows.map((t) =>
+        toTaskResponse(t as TaskRow, getSubtaskProgress(tree, t.id), tagIds.get(t.id)),
+      ),
+      page,
+      limit,
+      total,
+      hasMore: page * limit < total,
+    };
+  }
+
+  // ─── Trash ──────────────────────────────────────────────────────────
+
+  /**
+   * Deleted tasks still inside the retention window, newest first.
+   * Subtasks deleted along with their parent come back with it, so
+   * only the top of each deleted subtree is listed.
+   */
+  async listDeletedTasks(userId: string): Promise<TrashedTaskResponse[]> {
+    const rows = await db.query.tasks.findMany({
+      where: and(
+        eq(tasks.userId, userId),
+        isNotNull(tasks.deletedAt),
+        isNull(tasks.recurringTaskId),
+      ),
+      orderBy: [desc(tasks.deletedAt)],
+    });
+
+    const deletedIds = new Set(rows.map((row) => row.id));
+    return rows
+      .filter((row) => !row.parentTaskId || !deletedIds.has(row.parentTaskId))
+      .map((row) => ({
+        id: row.id,
+        title: row.title,
+        categoryId: row.categoryId,
+        dueAt: row.dueAt ? row.dueAt.toISOString() : null,
+        status: row.status,
+        rrule: row.rrule,
+        deletedAt: row.deletedAt!.toISOString(),
+        purgeAt: purgeDate(row.deletedAt!).toISOString(),
+      }));
+  }
+
+  /**
+   * Restore a deleted task with the subtasks and recurring exceptions
+   * that were deleted in the same go.
+   */
+  async restoreTask(userId: string, taskId: string): Promise<TaskResponse> {
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNotNull(tasks.deletedAt)),
+    });
+
+    if (!task) {
+      throw new AppError(404, 'NOT_FOUND', 'Task not found in trash');
+    }
+
+    if (task.parentTaskId) {
+      const parent = await db.query.tasks.findFirst({
+        where: and(eq(tasks.id, task.parentTaskId), eq(tasks.userId, userId)),
+        columns: { deletedAt: true },
+      });
+      if (!parent || parent.deletedAt) {
+        throw new AppError(409, 'CONFLICT', 'Restore the parent task first');
+      }
+    }
+
+    const deletedAt = task.deletedAt!;
+    const [restored] = await db.transaction(async (tx) => {
+      // Recurring exceptions (and their subtasks) deleted with the series
+      await tx
+        .update(tasks)
+        .set({ deletedAt: null })
+        .where(
+          and(
+            withSubtasks(and(eq(tasks.recurringTaskId, taskId), eq(tasks.userId, userId))),
+            eq(tasks.userId, userId),
+            eq(tasks.deletedAt, deletedAt),
+          ),
+        );
+
+      return tx
+        .update(tasks)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(
+          and(
+            withSubtasks(and(eq(tasks.id, taskId), eq(tasks.userId, userId))),
+            eq(tasks.userId, userId),
+            eq(tasks.deletedAt, deletedAt),
+          ),
+        )
+        .returning();
+    });
+
+    const row = restored?.id === taskId ? restored : { ...task, deletedAt: null };
+
+    logger.info({ userId, taskId }, 'Task restored');
+    sseService.emit(userId, 'task:created', { id: taskId });
+
+    const tree = await this.loadSubtaskTree(userId);
+    const tagIds = await this.loadTagIds(userId, taskId);
+    return toTaskResponse(row as TaskRow, getSubtaskProgress(tree, taskId), tagIds);
+  }
+
+  /**
+   * Permanently delete a task from the trash. Its subtasks, exceptions
+   * and history go with it through the foreign keys.
+   */
+  async purgeTask(userId: string, taskId: string): Promise<void> {
+    const purged = await db.transaction(async (tx) => {
+      const taskIds = await this.collectCascade(tx, userId, taskId);
+
+      const result = await tx
+        .delete(tasks)
+        .where(and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNotNull(tasks.deletedAt)))
+        .returning({ id: tasks.id });
+      if (result.length === 0) return false;
+
+      await tagService.deleteItemTags('task', taskIds, tx);
+      return true;
+    });
+
+    if (!purged) {
+      throw new AppError(404, 'NOT_FOUND', 'Task not found in trash');
+    }
+
+    logger.info({ userId, taskId }, 'Task permanently deleted');
+  }
+
   // ─── Private Helpers ────────────────────────────────────────────────
 
+  /**
+   * A task's ID with those of every task deleting it cascades to: its
+   * subtasks and recurring instances, and theirs in turn.
+   */
+  private async collectCascade(tx: Transaction, userId: string, taskId: string): Promise<string[]> {
+    const ids = [taskId];
+    let level = [taskId];
+
+    while (level.length > 0) {
+      const children = await tx
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(
+          and(
+            eq(tasks.userId, userId),
+            or(inArray(tasks.parentTaskId, level), inArray(tasks.recurringTaskId, level)),
+          ),
+        );
+      level = children.map((c) => c.id).filter((id) => !ids.includes(id));
+      ids.push(...level);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Mirror the tasks' completion onto their focus blocks, so a block
+   * shows as done once its task is.
+   */
+  private async syncFocusBlocks(taskIds: string[], completedAt: Date | null): Promise<void> {
+    await db
+      .update(events)
+      .set({ completedAt, updatedAt: new Date() })
+      .where(and(inArray(events.taskId, taskIds), isNull(events.deletedAt)));
+  }
+
   /**
    * Validate that a category belongs to the user.
    */
@@ -488,12 +1325,373 @@ export class TaskService {
   }
 
   /**
-   * Direct update of a task (non-recurring or scope='all').
+   * Load all of a user's live subtasks, grouped by parent.
+   */
+  private async loadSubtaskTree(userId: string): Promise<SubtaskTree> {
+    const rows = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.userId, userId), isNull(tasks.deletedAt), isNotNull(tasks.parentTaskId)))
+      .orderBy(asc(tasks.sortOrder), asc(tasks.createdAt));
+
+    const tree: SubtaskTree = new Map();
+    for (const row of rows) {
+      const siblings = tree.get(row.parentTaskId!) ?? [];
+      siblings.push(row as TaskRow);
+      tree.set(row.parentTaskId!, siblings);
+    }
+    return tree;
+  }
+
+  /**
+   * The user's tag IDs on a single task.
+   */
+  private async loadTagIds(userId: string, taskId: string): Promise<string[]> {
+    const tagIds = await tagService.getItemTagIds(userId, 'task', [taskId]);
+    return tagIds.get(taskId) ?? [];
+  }
+
+  /**
+   * Load the blockers of a user's tasks, or of just `taskIds`. Deleted
+   * blockers are left out; they no longer hold anything up.
+   */
+  private async loadBlockers(userId: string, taskIds?: string[]): Promise<BlockerMap> {
+    const blockers: BlockerMap = new Map();
+    if (taskIds?.length === 0) return blockers;
+
+    const rows = await db.query.taskDependencies.findMany({
+      where: and(
+        eq(taskDependencies.userId, userId),
+        taskIds ? inArray(taskDependencies.taskId, taskIds) : undefined,
+      ),
+      with: {
+        blocker: { columns: { id: true, title: true, status: true, deletedAt: true } },
+      },
+      orderBy: [asc(taskDependencies.createdAt)],
+    });
+
+    for (const row of rows) {
+      if (row.blocker.deletedAt) continue;
+      const list = blockers.get(row.taskId) ?? [];
+      list.push({ id: row.blocker.id, title: row.blocker.title, status: row.blocker.status });
+      blockers.set(row.taskId, list);
+    }
+    return blockers;
+  }
+
+  /**
+   * The blockers of a single task.
+   */
+  private async loadTaskBlockers(userId: string, taskId: string): Promise<TaskBlocker[]> {
+    const blockers = await this.loadBlockers(userId, [taskId]);
+    return blockers.get(taskId) ?? [];
+  }
+
+  /**
+   * Validate a new set of blockers for a task (or a new task when `taskId`
+   * is omitted): each must be one of the user's live tasks, and the task
+   * must not end up waiting on itself, directly or through other tasks.
+   * Returns the blockers.
+   */
+  private async validateBlockers(
+    userId: string,
+    blockedByIds: string[],
+    taskId?: string,
+  ): Promise<TaskBlocker[]> {
+    const unique = [...new Set(blockedByIds)];
+    if (unique.length === 0) return [];
+
+    if (taskId && unique.includes(taskId)) {
+      throw new AppError(422, 'VALIDATION_ERROR', 'A task cannot block itself');
+    }
+
+    const rows = await db.query.tasks.findMany({
+      where: and(inArray(tasks.id, unique), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+      columns: { id: true, title: true, status: true },
+    });
+
+    if (rows.length !== unique.length) {
+      throw new AppError(404, 'NOT_FOUND', 'Blocking task not found');
+    }
+
+    if (taskId && createsCycle(await this.loadBlockers(userId), taskId, unique)) {
+      throw new AppError(422, 'VALIDATION_ERROR', 'Task dependencies cannot form a cycle');
+    }
+
+    return rows;
+  }
+
+  /**
+   * Refuse to start or finish a task while it waits on open tasks, if the
+   * user has asked for that. `blockers` stands in for the task's stored
+   * blockers when they are being replaced in the same change.
+   */
+  private async assertUnblocked(
+    userId: string,
+    taskId: string,
+    blockers?: TaskBlocker[],
+  ): Promise<void> {
+    const open = (blockers ?? (await this.loadTaskBlockers(userId, taskId))).filter(
+      (b) => b.status !== 'done',
+    );
+    if (open.length === 0 || !(await this.enforcesDependencies(userId))) return;
+
+    throw new AppError(
+      409,
+      'CONFLICT',
+      `This task is blocked by ${open.map((b) => `"${b.title}"`).join(', ')}`,
+    );
+  }
+
+  /**
+   * Refuse to finish a batch of tasks while any of them waits on open
+   * tasks outside `completing`, if the user has asked for that.
+   */
+  private async assertBatchUnblocked(
+    userId: string,
+    ids: string[],
+    completing: string[],
+    message: string,
+  ): Promise<void> {
+    const blockers = await this.loadBlockers(userId, ids);
+    const done = new Set(completing);
+    const isBlocked = ids.some((id) => getOpenBlockers(blockers, id).some((b) => !done.has(b.id)));
+    if (isBlocked && (await this.enforcesDependencies(userId))) {
+      throw new AppError(409, 'CONFLICT', message);
+    }
+  }
+
+  /**
+   * Whether the user has turned on dependency enforcement.
+   */
+  private async enforcesDependencies(userId: string): Promise<boolean> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { enforceTaskDependencies: true },
+    });
+    return user?.enforceTaskDependencies ?? false;
+  }
+
+  /**
+   * Record a completion of a task that repeats after completion and start
+   * its next round: reopened, due again counting from `completedAt`, with
+   * its subtasks reopened too.
+   */
+  private async repeatAfterCompletion(
+    userId: string,
+    task: Pick<TaskRow, 'id' | 'dueAt' | 'repeatAfter'>,
+    completedAt: Date,
+    timeZone?: string,
+  ): Promise<TaskRow> {
+    const nextDueAt = recurrenceService.nextDueAfterCompletion(
+      task.repeatAfter!,
+      completedAt,
+      task.dueAt,
+      timeZone ?? (await this.getTimeZone(userId)),
+    );
+
+    const reopened = await db.transaction(async (tx) => {
+      await tx
+        .insert(taskCompletions)
+        .values({ userId, taskId: task.id, completedAt, dueAt: task.dueAt });
+
+      await tx
+        .update(tasks)
+        .set({ status: 'todo', completedAt: null, updatedAt: completedAt })
+        .where(
+          and(
+            withSubtasks(eq(tasks.parentTaskId, task.id)),
+            eq(tasks.userId, userId),
+            isNull(tasks.deletedAt),
+          ),
+        );
+
+      const [row] = await tx
+        .update(tasks)
+        .set({ status: 'todo', completedAt: null, dueAt: nextDueAt, updatedAt: completedAt })
+        .where(and(eq(tasks.id, task.id), eq(tasks.userId, userId)))
+        .returning();
+      return row;
+    });
+
+    logger.info({ userId, taskId: task.id, nextDueAt }, 'Repeating task completed');
+
+    return reopened as TaskRow;
+  }
+
+  /**
+   * Set or clear a task's archived time and return the updated task.
+   */
+  private async setArchived(
+    userId: string,
+    taskId: string,
+    archivedAt: Date | null,
+  ): Promise<TaskResponse> {
+    const [updated] = await db
+      .update(tasks)
+      .set({ archivedAt, updatedAt: new Date() })
+      .where(and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(404, 'NOT_FOUND', 'Task not found');
+    }
+
+    logger.info({ userId, taskId, archived: archivedAt !== null }, 'Task archive state changed');
+
+    const tree = await this.loadSubtaskTree(userId);
+    const tagIds = await this.loadTagIds(userId, taskId);
+    const blockedBy = await this.loadTaskBlockers(userId, taskId);
+    const response = toTaskResponse(
+      updated as TaskRow,
+      getSubtaskProgress(tree, taskId),
+      tagIds,
+      blockedBy,
+    );
+
+    sseService.emit(userId, 'task:updated', { id: response.id, archivedAt: response.archivedAt });
+
+    return response;
+  }
+
+  /**
+   * The user's timezone, falling back to UTC.
+   */
+  private async getTimeZone(userId: string): Promise<string> {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { timezone: true },
+    });
+    return user?.timezone ?? 'UTC';
+  }
+
+  /**
+   * Replace the tasks a task waits on.
+   */
+  private async setBlockers(userId: string, taskId: string, blockedByIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(taskDependencies)
+        .where(and(eq(taskDependencies.userId, userId), eq(taskDependencies.taskId, taskId)));
+      await this.insertBlockers(tx, userId, taskId, blockedByIds);
+    });
+  }
+
+  /**
+   * Record the tasks a task that has no blockers yet waits on.
+   */
+  private async insertBlockers(
+    tx: Transaction,
+    userId: string,
+    taskId: string,
+    blockedByIds: string[],
+  ): Promise<void> {
+    const unique = [...new Set(blockedByIds)];
+    if (unique.length === 0) return;
+
+    await tx
+      .insert(taskDependencies)
+      .values(unique.map((blockedByTaskId) => ({ userId, taskId, blockedByTaskId })));
+  }
+
+  /**
+   * The blockers for a task split off a recurring series: the ones given in
+   * the edit, or else the series' own.
+   */
+  private async carriedBlockerIds(
+    userId: string,
+    seriesId: string,
+    data: UpdateTaskInput,
+  ): Promise<string[]> {
+    if (data.blockedByIds !== undefined) return data.blockedByIds;
+    const blockers = await this.loadTaskBlockers(userId, seriesId);
+    return blockers.map((b) => b.id);
+  }
+
+  /**
+   * Validate that a task (or a new task when `task` is omitted) can be placed
+   * under `parentTaskId`: the parent must belong to the user, the move must not
+   * create a cycle, and the result must stay within MAX_SUBTASK_DEPTH.
+   */
+  private async validateParent(
+    userId: string,
+    parentTaskId: string,
+    tree: SubtaskTree,
+    task?: TaskRow,
+  ): Promise<void> {
+    const parent = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, parentTaskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+    });
+
+    if (!parent) {
+      throw new AppError(404, 'NOT_FOUND', 'Parent task not found');
+    }
+
+    if (
+      task &&
+      (task.id === parent.id || getDescendants(tree, task.id).some((r) => r.id === parent.id))
+    ) {
+      throw new AppError(
+        422,
+        'VALIDATION_ERROR',
+        'A task cannot be moved under itself or one of its subtasks',
+      );
+    }
+
+    const height = task ? getSubtreeHeight(tree, task.id) : 0;
+    if (getDepth(tree, parent) + 1 + height > MAX_SUBTASK_DEPTH) {
+      throw new AppError(
+        422,
+        'VALIDATION_ERROR',
+        `Subtasks can be nested at most ${MAX_SUBTASK_DEPTH} levels deep`,
+      );
+    }
+  }
+
+  /**
+   * Copy every subtask beneath `fromId` onto `toId`, keeping the nesting.
+   * Used when a recurring task is split so the new task keeps its checklist.
+   */
+  private async copySubtasks(
+    tx: Transaction,
+    tree: SubtaskTree,
+    fromId: string,
+    toId: string,
+  ): Promise<void> {
+    for (const row of tree.get(fromId) ?? []) {
+      const [copy] = await tx
+        .insert(tasks)
+        .values({
+          userId: row.userId,
+          categoryId: row.categoryId,
+          title: row.title,
+          description: row.description,
+          dueAt: row.dueAt,
+          priority: row.priority,
+          status: row.status,
+          completedAt: row.completedAt,
+          estimatedMinutes: row.estimatedMinutes,
+          parentTaskId: toId,
+          sortOrder: row.sortOrder,
+        })
+        .returning({ id: tasks.id });
+
+      await tagService.copyItemTags('task', row.id, copy.id, tx);
+      await this.copySubtasks(tx, tree, row.id, copy.id);
+    }
+  }
+
+  /**
+   * Direct update of a task (non-recurring or scope='all'). `completing`
+   * marks a move to done from another status, which finishes the task the
+   * same way toggling it does.
    */
   private async directUpdate(
     userId: string,
     taskId: string,
     data: UpdateTaskInput,
+    tree: SubtaskTree,
+    completing = false,
   ): Promise<TaskResponse> {
     const setValues: Record<string, unknown> = { updatedAt: new Date() };
 
@@ -501,6 +1699,7 @@ export class TaskService {
     if (data.description !== undefined) setValues.description = data.description;
     if (data.dueAt !== undefined) setValues.dueAt = data.dueAt ? new Date(data.dueAt) : null;
     if (data.priority !== undefined) setValues.priority = data.priority;
+    if (data.estimatedMinutes !== undefined) setValues.estimatedMinutes = data.estimatedMinutes;
     if (data.status !== undefined) {
       setValues.status = data.status;
       // Auto-set completedAt when status changes
@@ -508,10 +1707,13 @@ export class TaskService {
         setValues.completedAt = new Date();
       } else {
         setValues.completedAt = null;
+        setValues.archivedAt = null;
       }
     }
     if (data.categoryId !== undefined) setValues.categoryId = data.categoryId;
     if (data.rrule !== undefined) setValues.rrule = data.rrule;
+    if (data.repeatAfter !== undefined) setValues.repeatAfter = data.repeatAfter;
+    if (data.parentTaskId !== undefined) setValues.parentTaskId = data.parentTaskId;
 
     const [updated] = await db
       .update(tasks)
@@ -523,11 +1725,45 @@ export class TaskService {
       throw new AppError(404, 'NOT_FOUND', 'Task not found');
     }
 
+    if (data.tagIds !== undefined) {
+      await tagService.setItemTags(userId, 'task', taskId, data.tagIds);
+    }
+
+    if (data.blockedByIds !== undefined) {
+      await this.setBlockers(userId, taskId, data.blockedByIds);
+    }
+
+    if (data.status !== undefined && updated.scheduledAt) {
+      await this.syncFocusBlocks([taskId], updated.completedAt);
+    }
+
+    // A task that repeats after completion comes straight back with its next due date
+    const repeated =
+      completing && updated.repeatAfter
+        ? await this.repeatAfterCompletion(userId, updated as TaskRow, updated.completedAt!)
+        : null;
+
     logger.info({ userId, taskId }, 'Task updated');
 
-    const response = toTaskResponse(updated as TaskRow);
+    const tagIds = await this.loadTagIds(userId, taskId);
+    const blockedBy = await this.loadTaskBlockers(userId, taskId);
+    const response = toTaskResponse(
+      (repeated ?? updated) as TaskRow,
+      // Its subtasks were reopened along with it
+      getSubtaskProgress(repeated ? await this.loadSubtaskTree(userId) : tree, taskId),
+      tagIds,
+      blockedBy,
+    );
 
-    sseService.emit(userId, 'task:updated', { id: response.id, ...data });
+    sseService.emit(userId, 'task:updated', {
+      id: response.id,
+      ...data,
+      ...(repeated && {
+        status: response.status,
+        completedAt: response.completedAt,
+        dueAt: response.dueAt,
+      }),
+    });
 
     return response;
   }
@@ -540,6 +1776,7 @@ export class TaskService {
     userId: string,
     parentTask: TaskRow,
     data: UpdateTaskInput,
+    tree: SubtaskTree,
     instanceDate?: string,
   ): Promise<TaskResponse> {
     if (!instanceDate) {
@@ -551,6 +1788,7 @@ export class TaskService {
     }
 
     const origDate = new Date(instanceDate);
+    const blockedByIds = await this.carriedBlockerIds(userId, parentTask.id, data);
 
     const result = await db.transaction(async (tx) => {
       // Add instance date to parent's exDates
@@ -578,12 +1816,23 @@ export class TaskService {
               : parentTask.dueAt,
           priority: data.priority ?? parentTask.priority,
           status: data.status ?? parentTask.status,
+          estimatedMinutes:
+            data.estimatedMinutes !== undefined
+              ? data.estimatedMinutes
+              : parentTask.estimatedMinutes,
           recurringTaskId: parentTask.id,
           originalDate: origDate,
           sortOrder: parentTask.sortOrder,
         })
         .returning();
 
+      await tagService.copyItemTags('task', parentTask.id, exception.id, tx);
+      if (data.tagIds !== undefined) {
+        await tagService.setItemTags(userId, 'task', exception.id, data.tagIds, tx);
+      }
+      await this.insertBlockers(tx, userId, exception.id, blockedByIds);
+      await this.copySubtasks(tx, tree, parentTask.id, exception.id);
+
       return exception;
     });
 
@@ -592,7 +1841,14 @@ export class TaskService {
       'Recurring task instance updated (exception)',
     );
 
-    return toTaskResponse(result as TaskRow);
+    const tagIds = await this.loadTagIds(userId, result.id);
+    const blockedBy = await this.loadTaskBlockers(userId, result.id);
+    return toTaskResponse(
+      result as TaskRow,
+      getSubtaskProgress(tree, parentTask.id),
+      tagIds,
+      blockedBy,
+    );
   }
 
   /**
@@ -603,6 +1859,7 @@ export class TaskService {
     userId: string,
     parentTask: TaskRow,
     data: UpdateTaskInput,
+    tree: SubtaskTree,
     instanceDate?: string,
   ): Promise<TaskResponse> {
     if (!instanceDate) {
@@ -626,6 +1883,8 @@ export class TaskService {
     updatedRrule = updatedRrule.replace(/;?(UNTIL|COUNT)=[^;]*/g, '');
     updatedRrule += `;UNTIL=${untilStr}`;
 
+    const blockedByIds = await this.carriedBlockerIds(userId, parentTask.id, data);
+
     const result = await db.transaction(async (tx) => {
       // Update original series to end at UNTIL
       await tx
@@ -650,11 +1909,22 @@ export class TaskService {
           dueAt: data.dueAt !== undefined ? (data.dueAt ? new Date(data.dueAt) : null) : splitDate,
           priority: data.priority ?? parentTask.priority,
           status: data.status ?? parentTask.status,
+          estimatedMinutes:
+            data.estimatedMinutes !== undefined
+              ? data.estimatedMinutes
+              : parentTask.estimatedMinutes,
           rrule: data.rrule !== undefined ? data.rrule : parentTask.rrule,
           sortOrder: parentTask.sortOrder,
         })
         .returning();
 
+      await tagService.copyItemTags('task', parentTask.id, newSeries.id, tx);
+      if (data.tagIds !== undefined) {
+        await tagService.setItemTags(userId, 'task', newSeries.id, data.tagIds, tx);
+      }
+      await this.insertBlockers(tx, userId, newSeries.id, blockedByIds);
+      await this.copySubtasks(tx, tree, parentTask.id, newSeries.id);
+
       return newSeries;
     });
 
@@ -663,17 +1933,30 @@ export class TaskService {
       'Recurring task series split',
     );
 
-    return toTaskResponse(result as TaskRow);
+    const tagIds = await this.loadTagIds(userId, result.id);
+    const blockedBy = await this.loadTaskBlockers(userId, result.id);
+    return toTaskResponse(
+      result as TaskRow,
+      getSubtaskProgress(tree, parentTask.id),
+      tagIds,
+      blockedBy,
+    );
   }
 
   /**
-   * Soft delete a single task.
+   * Soft delete a single task and its subtasks.
    */
   private async softDelete(userId: string, taskId: string): Promise<void> {
     await db
       .update(tasks)
       .set({ deletedAt: new Date() })
-      .where(and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)));
+      .where(
+        and(
+          withSubtasks(and(eq(tasks.id, taskId), eq(tasks.userId, userId))),
+          eq(tasks.userId, userId),
+          isNull(tasks.deletedAt),
+        ),
+      );
   }
 
   /**
@@ -697,15 +1980,20 @@ export class TaskService {
     const parentId = task.recurringTaskId ?? task.id;
 
     await db.transaction(async (tx) => {
-      // Soft-delete any exception for this instance
+      // Soft-delete any exception for this instance, with its subtasks
       await tx
         .update(tasks)
         .set({ deletedAt: new Date() })
         .where(
           and(
-            eq(tasks.recurringTaskId, parentId),
+            withSubtasks(
+              and(
+                eq(tasks.recurringTaskId, parentId),
+                eq(tasks.userId, userId),
+                eq(tasks.originalDate, origDate),
+              ),
+            ),
             eq(tasks.userId, userId),
-            eq(tasks.originalDate, origDate),
             isNull(tasks.deletedAt),
           ),
         );
@@ -768,16 +2056,21 @@ export class TaskService {
         .set({ rrule: updatedRrule, updatedAt: new Date() })
         .where(and(eq(tasks.id, parentId), eq(tasks.userId, userId), isNull(tasks.deletedAt)));
 
-      // Soft delete exception records for dates >= instanceDate
+      // Soft delete exception records for dates >= instanceDate, with their subtasks
       await tx
         .update(tasks)
         .set({ deletedAt: new Date() })
         .where(
           and(
-            eq(tasks.recurringTaskId, parentId),
+            withSubtasks(
+              and(
+                eq(tasks.recurringTaskId, parentId),
+                eq(tasks.userId, userId),
+                gte(tasks.originalDate, splitDate),
+              ),
+            ),
             eq(tasks.userId, userId),
             isNull(tasks.deletedAt),
-            gte(tasks.originalDate, splitDate),
           ),
         );
     });
@@ -785,7 +2078,7 @@ export class TaskService {
 
   /**
    * Delete all instances of a recurring task.
-   * Soft deletes the parent and all exception records.
+   * Soft deletes the parent and all exception records, with their subtasks.
    */
   private async deleteAll(userId: string, taskId: string): Promise<void> {
     const now = new Date();
@@ -796,14 +2089,24 @@ export class TaskService {
         .update(tasks)
         .set({ deletedAt: now })
         .where(
-          and(eq(tasks.recurringTaskId, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+          and(
+            withSubtasks(and(eq(tasks.recurringTaskId, taskId), eq(tasks.userId, userId))),
+            eq(tasks.userId, userId),
+            isNull(tasks.deletedAt),
+          ),
         );
 
       // Soft delete the parent task
       await tx
         .update(tasks)
         .set({ deletedAt: now })
-        .where(and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)));
+        .where(
+          and(
+            withSubtasks(and(eq(tasks.id, taskId), eq(tasks.userId, userId))),
+            eq(tasks.userId, userId),
+            isNull(tasks.deletedAt),
+          ),
+        );
     });
   }
 }
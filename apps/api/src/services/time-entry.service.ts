@@ -0,0 +1,300 @@
+import { and, desc, eq, gt, isNull, lt, or } from 'drizzle-orm';
+
+import { db } from '../db';
+import { tasks, timeEntries } from '../db/schema';
+import { AppError } from '../lib/errors';
+import { logger } from '../lib/logger';
+
+import type {
+  CreateTimeEntryInput,
+  TimeReport,
+  TimeReportQuery,
+  UpdateTimeEntryInput,
+} from '@calley/shared';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+interface TimeEntryRow {
+  id: string;
+  userId: string;
+  taskId: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface TimeEntryResponse {
+  id: string;
+  userId: string;
+  taskId: string;
+  startedAt: string;
+  endedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const MINUTE_MS = 60 * 1000;
+
+function toTimeEntryResponse(row: TimeEntryRow): TimeEntryResponse {
+  return {
+    id: row.id,
+    userId: row.userId,
+    taskId: row.taskId,
+    startedAt: row.startedAt.toISOString(),
+    endedAt: row.endedAt ? row.endedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// ─── Service ────────────────────────────────────────────────────────
+
+export class TimeEntryService {
+  /**
+   * List the time logged against a task, most recent first. A running
+   * timer shows up as an entry without an end.
+   */
+  async listTaskEntries(userId: string, taskId: string): Promise<TimeEntryResponse[]> {
+    await this.findTask(userId, taskId);
+
+    const rows = await db.query.timeEntries.findMany({
+      where: and(eq(timeEntries.taskId, taskId), eq(timeEntries.userId, userId)),
+      orderBy: [desc(timeEntries.startedAt)],
+    });
+
+    return rows.map((r) => toTimeEntryResponse(r as TimeEntryRow));
+  }
+
+  /**
+   * Start the timer on a task. Only one timer runs at a time, so a timer
+   * running on another task is stopped first.
+   */
+  async startTimer(userId: string, taskId: string): Promise<TimeEntryResponse> {
+    await this.findTask(userId, taskId);
+
+    const running = await db.query.timeEntries.findFirst({
+      where: and(eq(timeEntries.userId, userId), isNull(timeEntries.endedAt)),
+    });
+
+    if (running?.taskId === taskId) {
+      throw new AppError(409, 'CONFLICT', 'The timer is already running for this task');
+    }
+
+    const now = new Date();
+
+    const created = await db.transaction(async (tx) => {
+      if (running) {
+        await tx
+          .update(timeEntries)
+          .set({ endedAt: now, updatedAt: now })
+          .where(eq(timeEntries.id, running.id));
+      }
+
+      const [inserted] = await tx
+        .insert(timeEntries)
+        .values({ userId, taskId, startedAt: now })
+        .returning();
+
+      return inserted;
+    });
+
+    logger.info({ userId, taskId, stoppedEntryId: running?.id }, 'Timer started');
+
+    return toTimeEntryResponse(created as TimeEntryRow);
+  }
+
+  /**
+   * Stop the timer running on a task.
+   */
+  async stopTimer(userId: string, taskId: string): Promise<TimeEntryResponse> {
+    const now = new Date();
+
+    const [stopped] = await db
+      .update(timeEntries)
+      .set({ endedAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(timeEntries.userId, userId),
+          eq(timeEntries.taskId, taskId),
+          isNull(timeEntries.endedAt),
+        ),
+      )
+      .returning();
+
+    if (!stopped) {
+      throw new AppError(409, 'CONFLICT', 'The timer is not running for this task');
+    }
+
+    logger.info({ userId, taskId, entryId: stopped.id }, 'Timer stopped');
+
+    return toTimeEntryResponse(stopped as TimeEntryRow);
+  }
+
+  /**
+   * Log a finished session by hand.
+   */
+  async createEntry(userId: string, data: CreateTimeEntryInput): Promise<TimeEntryResponse> {
+    await this.findTask(userId, data.taskId);
+
+    const [created] = await db
+      .insert(timeEntries)
+      .values({
+        userId,
+        taskId: data.taskId,
+        startedAt: new Date(data.startedAt),
+        endedAt: new Date(data.endedAt),
+      })
+      .returning();
+
+    logger.info({ userId, taskId: data.taskId, entryId: created.id }, 'Time entry created');
+
+    return toTimeEntryResponse(created as TimeEntryRow);
+  }
+
+  /**
+   * Correct the start or end of a session. Ending a running session this
+   * way stops its timer.
+   */
+  async updateEntry(
+    userId: string,
+    entryId: string,
+    data: UpdateTimeEntryInput,
+  ): Promise<TimeEntryResponse> {
+    const entry = await db.query.timeEntries.findFirst({
+      where: and(eq(timeEntries.id, entryId), eq(timeEntries.userId, userId)),
+    });
+
+    if (!entry) {
+      throw new AppError(404, 'NOT_FOUND', 'Time entry not found');
+    }
+
+    const startedAt = data.startedAt ? new Date(data.startedAt) : entry.startedAt;
+    const endedAt = data.endedAt ? new Date(data.endedAt) : entry.endedAt;
+
+    // A running session's end is "now"
+    if (startedAt >= (endedAt ?? new Date())) {
+      throw new AppError(422, 'VALIDATION_ERROR', 'End time must be after start time');
+    }
+
+    const [updated] = await db
+      .update(timeEntries)
+      .set({ startedAt, endedAt, updatedAt: new Date() })
+      .where(and(eq(timeEntries.id, entryId), eq(timeEntries.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new AppError(404, 'NOT_FOUND', 'Time entry not found');
+    }
+
+    logger.info({ userId, entryId }, 'Time entry updated');
+
+    return toTimeEntryResponse(updated as TimeEntryRow);
+  }
+
+  /**
+   * Delete a session.
+   */
+  async deleteEntry(userId: string, entryId: string): Promise<void> {
+    const [deleted] = await db
+      .delete(timeEntries)
+      .where(and(eq(timeEntries.id, entryId), eq(timeEntries.userId, userId)))
+      .returning({ id: timeEntries.id });
+
+    if (!deleted) {
+      throw new AppError(404, 'NOT_FOUND', 'Time entry not found');
+    }
+
+    logger.info({ userId, entryId }, 'Time entry deleted');
+  }
+
+  // ─── Reporting ──────────────────────────────────────────────────────
+
+  /**
+   * Total the time logged in a range, by category and by task. Sessions
+   * that straddle the range only count the part inside it, and a running
+   * timer counts up to now. Time on deleted tasks is left out.
+   */
+  async getReport(userId: string, query: TimeReportQuery): Promise<TimeReport> {
+    const rangeStart = new Date(query.start);
+    const rangeEnd = new Date(query.end);
+
+    const conditions = [
+      eq(timeEntries.userId, userId),
+      lt(timeEntries.startedAt, rangeEnd),
+      or(isNull(timeEntries.endedAt), gt(timeEntries.endedAt, rangeStart)),
+      isNull(tasks.deletedAt),
+    ];
+    if (query.categoryId) {
+      conditions.push(eq(tasks.categoryId, query.categoryId));
+    }
+
+    const rows = await db
+      .select({
+        taskId: timeEntries.taskId,
+        startedAt: timeEntries.startedAt,
+        endedAt: timeEntries.endedAt,
+        title: tasks.title,
+        categoryId: tasks.categoryId,
+      })
+      .from(timeEntries)
+      .innerJoin(tasks, eq(timeEntries.taskId, tasks.id))
+      .where(and(...conditions));
+
+    const now = new Date();
+    const byCategory = new Map<string, number>();
+    const byTask = new Map<string, { title: string; categoryId: string; ms: number }>();
+    let totalMs = 0;
+
+    for (const row of rows) {
+      const start = Math.max(row.startedAt.getTime(), rangeStart.getTime());
+      const end = Math.min((row.endedAt ?? now).getTime(), rangeEnd.getTime());
+      const ms = end - start;
+      if (ms <= 0) continue;
+
+      totalMs += ms;
+      byCategory.set(row.categoryId, (byCategory.get(row.categoryId) ?? 0) + ms);
+      const task = byTask.get(row.taskId) ?? {
+        title: row.title,
+        categoryId: row.categoryId,
+        ms: 0,
+      };
+      task.ms += ms;
+      byTask.set(row.taskId, task);
+    }
+
+    return {
+      start: rangeStart.toISOString(),
+      end: rangeEnd.toISOString(),
+      totalMinutes: Math.round(totalMs / MINUTE_MS),
+      categories: [...byCategory]
+        .sort((a, b) => b[1] - a[1])
+        .map(([categoryId, ms]) => ({ categoryId, minutes: Math.round(ms / MINUTE_MS) })),
+      tasks: [...byTask]
+        .sort((a, b) => b[1].ms - a[1].ms)
+        .map(([taskId, { title, categoryId, ms }]) => ({
+          taskId,
+          title,
+          categoryId,
+          minutes: Math.round(ms / MINUTE_MS),
+        })),
+    };
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  private async findTask(userId: string, taskId: string): Promise<void> {
+    const task = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)),
+      columns: { id: true },
+    });
+
+    if (!task) {
+      throw new AppError(404, 'NOT_FOUND', 'Task not found');
+    }
+  }
+}
+
+export const timeEntryService = new TimeEntryService();
@@ -0,0 +1,34 @@
+import { Clock, MapPin } from 'lucide-react';
+
+import type { BookingPage } from '@calley/shared';
+
+/**
+ * What a booking is for: the host, appointment name, length and place.
+ */
+export function BookingPageDetails({ page }: { page: BookingPage }) {
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <p className="text-sm text-[var(--muted-foreground)]">{page.host.name}</p>
+        <h2 className="text-2xl font-semibold tracking-tight">{page.name}</h2>
+      </div>
+      <div className="space-y-2 text-sm">
+        <div className="flex items-start gap-2">
+          <Clock className="mt-0.5 h-4 w-4 shrink-0 text-[var(--muted-foreground)]" />
+          <span>{page.durationMinutes} minutes</span>
+        </div>
+        {page.location && (
+          <div className="flex items-start gap-2">
+            <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-[var(--muted-foreground)]" />
+            <span className="break-words">{page.location}</span>
+          </div>
+        )}
+      </div>
+      {page.description && (
+        <p className="whitespace-pre-wrap text-sm text-[var(--muted-foreground)]">
+          {page.description}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/Spinner';
+import { useBookingSlots } from '@/hooks/use-booking';
+import { groupSlotsByDay } from '@/lib/booking';
+import { cn } from '@/lib/utils';
+
+import type { BookingSlot } from '@calley/shared';
+
+/** How far ahead visitors can page through open slots */
+const MAX_WEEKS_AHEAD = 8;
+
+interface SlotPickerProps {
+  slug: string;
+  /** The visitor's timezone, which slots are shown in */
+  timezone: string;
+  selected: BookingSlot | null;
+  onSelect: (slot: BookingSlot) => void;
+}
+
+/**
+ * A week of open slots on a booking page, grouped by day, with paging to
+ * later weeks.
+ */
+export function SlotPicker({ slug, timezone, selected, onSelect }: SlotPickerProps) {
+  const [weekOffset, setWeekOffset] = useState(0);
+
+  const todayKey = formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd');
+  const { start, end, firstDay } = useMemo(() => {
+    const first = addDays(parseISO(todayKey), weekOffset * 7);
+    return {
+      firstDay: first,
+      start: fromZonedTime(`${format(first, 'yyyy-MM-dd')}T00:00:00`, timezone).toISOString(),
+      end: fromZonedTime(
+        `${format(addDays(first, 7), 'yyyy-MM-dd')}T00:00:00`,
+        timezone,
+      ).toISOString(),
+    };
+  }, [todayKey, weekOffset, timezone]);
+
+  const { data, isLoading, isError } = useBookingSlots(slug, start, end);
+  const days = useMemo(() => groupSlotsByDay(data?.slots ?? [], timezone), [data, timezone]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setWeekOffset((w) => w - 1)}
+          disabled={weekOffset === 0}
+          aria-label="Previous week"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <p className="text-sm font-medium">
+          {format(firstDay, 'MMM d')} – {format(addDays(firstDay, 6), 'MMM d, yyyy')}
+        </p>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setWeekOffset((w) => w + 1)}
+          disabled={weekOffset >= MAX_WEEKS_AHEAD - 1}
+          aria-label="Next week"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : isError ? (
+        <p className="py-4 text-center text-sm text-[var(--color-danger)]" role="alert">
+          Couldn&apos;t load available times
+        </p>
+      ) : days.length === 0 ? (
+        <p className="py-4 text-center text-sm text-[var(--muted-foreground)]">
+          No times available this week
+        </p>
+      ) : (
+        <div className="max-h-80 space-y-4 overflow-y-auto">
+          {days.map((day) => (
+            <div key={day.dateKey} className="space-y-2">
+              <p className="text-sm font-medium">{format(parseISO(day.dateKey), 'EEEE, MMMM d')}</p>
+              <div className="grid grid-cols-3 gap-2">
+                {day.slots.map((slot) => {
+                  const isSelected = selected?.start === slot.start;
+                  return (
+                    <Button
+                      key={slot.start}
+                      variant={isSelected ? 'default' : 'outline'}
+                      size="sm"
+                      className={cn(!isSelected && 'font-normal')}
+                      aria-pressed={isSelected}
+                      onClick={() => onSelect(slot)}
+                    >
+                      {formatInTimeZone(new Date(slot.start), timezone, 'h:mm a')}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-[var(--muted-foreground)]">Times are shown in {timezone}</p>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { addDays, eachDayOfInterval, format, isSameDay, parseISO, subDays } from
 import { toZonedTime } from 'date-fns-tz';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
-import { useCategories } from '@/hooks/use-categories';
+import { useCategoryMap } from '@/hooks/use-categories';
 import { useEvents } from '@/hooks/use-events';
 import { useUserTimezone } from '@/hooks/use-user-timezone';
 import { useCalendarStore } from '@/stores/calendar-store';
@@ -11,7 +11,7 @@ import { useUIStore } from '@/stores/ui-store';
 
 import { AgendaGroup } from './AgendaGroup';
 
-import type { CalendarCategory, Event, Task } from '@calley/shared';
+import type { Event, Task } from '@calley/shared';
 
 /** Number of days to load in each direction from the current date */
 const INITIAL_DAYS_FORWARD = 30;
@@ -22,7 +22,7 @@ export function AgendaView() {
   const { currentDate } = useCalendarStore();
   const { openEventDrawer, openTaskDrawer } = useUIStore();
   const userTimezone = useUserTimezone();
-  const { data: categories = [] } = useCategories();
+  const categoryMap = useCategoryMap();
 
   // Track how many extra days have been loaded via infinite scroll
   const [extraDaysForward, setExtraDaysForward] = useState(0);
@@ -38,15 +38,6 @@ export function AgendaView() {
   const fetchEnd = rangeEnd.toISOString();
   const { data: events = [], isLoading } = useEvents(fetchStart, fetchEnd);
 
-  // Build category lookup map
-  const categoryMap = useMemo(() => {
-    const map = new Map<string, CalendarCategory>();
-    for (const cat of categories) {
-      map.set(cat.id, cat);
-    }
-    return map;
-  }, [categories]);
-
   // Build a list of all days in the range
   const days = useMemo(
     () => eachDayOfInterval({ start: rangeStart, end: subDays(rangeEnd, 1) }),
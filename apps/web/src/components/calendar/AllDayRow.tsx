@@ -2,14 +2,17 @@ import { format } from 'date-fns';
 import { memo, useMemo } from 'react';
 
 import { EventPill } from './EventPill';
+import { HolidayPill } from './HolidayPill';
 
-import type { CalendarCategory, Event } from '@calley/shared';
+import type { CalendarCategory, Event, Holiday } from '@calley/shared';
 
 const MAX_VISIBLE_ALL_DAY = 3;
 
 interface AllDayRowProps {
   days: Date[];
   allDayEventsByDate: Map<string, Event[]>;
+  /** Holidays from the user's holiday calendars, by date */
+  holidaysByDate: Map<string, Holiday[]>;
   categories: Map<string, CalendarCategory>;
   onEventClick?: (event: Event) => void;
 }
@@ -17,13 +20,16 @@ interface AllDayRowProps {
 export const AllDayRow = memo(function AllDayRow({
   days,
   allDayEventsByDate,
+  holidaysByDate,
   categories,
   onEventClick,
 }: AllDayRowProps) {
-  // Check if there are any all-day events at all
+  // Check if there are any all-day events or holidays on the shown days at all
   const hasAllDayEvents = useMemo(
-    () => allDayEventsByDate.size > 0,
-    [allDayEventsByDate],
+    () =>
+      allDayEventsByDate.size > 0 ||
+      days.some((day) => holidaysByDate.has(format(day, 'yyyy-MM-dd'))),
+    [allDayEventsByDate, holidaysByDate, days],
   );
 
   if (!hasAllDayEvents) return null;
@@ -39,7 +45,9 @@ export const AllDayRow = memo(function AllDayRow({
       {days.map((day) => {
         const dateKey = format(day, 'yyyy-MM-dd');
         const events = allDayEventsByDate.get(dateKey) ?? [];
-        const visible = events.slice(0, MAX_VISIBLE_ALL_DAY);
+        const holidays = holidaysByDate.get(dateKey) ?? [];
+        // Holidays always show and take their slots first
+        const visible = events.slice(0, Math.max(0, MAX_VISIBLE_ALL_DAY - holidays.length));
         const overflow = events.length - visible.length;
 
         return (
@@ -47,6 +55,9 @@ export const AllDayRow = memo(function AllDayRow({
             key={dateKey}
             className="flex flex-1 flex-col gap-0.5 border-r border-[var(--border)] px-0.5 py-1"
           >
+            {holidays.map((holiday) => (
+              <HolidayPill key={`${holiday.calendar}-${holiday.name}`} holiday={holiday} />
+            ))}
             {visible.map((event) => (
               <EventPill
                 key={event.id + (event.instanceDate ?? '')}
@@ -3,22 +3,28 @@ import { format, isSameDay } from 'date-fns';
 import { memo, useCallback, useMemo, useState } from 'react';
 
 import { QuickCreatePopover } from '@/components/events/QuickCreatePopover';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { getEventDaySegment } from '@/lib/event-days';
 import { cn } from '@/lib/utils';
 import { getNowInUserTimezone, useCalendarStore } from '@/stores/calendar-store';
 
 import { EventPill } from './EventPill';
+import { HolidayPill } from './HolidayPill';
 import { MoreIndicator } from './MoreIndicator';
 import { TaskPill } from './TaskPill';
 
-import type { CalendarCategory, Event, Task } from '@calley/shared';
+import type { CalendarCategory, Event, Holiday, Task } from '@calley/shared';
 
 const MAX_VISIBLE_ITEMS = 3;
+const NO_HOLIDAYS: Holiday[] = [];
 
 interface DayCellProps {
   date: Date;
   isCurrentMonth: boolean;
   events: Event[];
   tasks: Task[];
+  /** Holidays from the user's holiday calendars, shown above the events */
+  holidays?: Holiday[];
   categories: Map<string, CalendarCategory>;
   onEventClick?: (event: Event) => void;
   onTaskToggle?: (task: Task) => void;
@@ -30,11 +36,13 @@ export const DayCell = memo(function DayCell({
   isCurrentMonth,
   events,
   tasks,
+  holidays = NO_HOLIDAYS,
   categories,
   onTaskToggle,
   onTaskClick,
 }: DayCellProps) {
   const { setDate, setView } = useCalendarStore();
+  const userTimezone = useUserTimezone();
   const [quickCreateOpen, setQuickCreateOpen] = useState(false);
 
   const dateKey = format(date, 'yyyy-MM-dd');
@@ -50,7 +58,8 @@ export const DayCell = memo(function DayCell({
   // Derive effective open state: auto-close popover when cell becomes non-empty
   const effectiveQuickCreateOpen = isEmpty && quickCreateOpen;
 
-  const visibleEvents = events.slice(0, MAX_VISIBLE_ITEMS);
+  // Holidays always show and take their slots first
+  const visibleEvents = events.slice(0, Math.max(0, MAX_VISIBLE_ITEMS - holidays.length));
   const remainingSlots = MAX_VISIBLE_ITEMS - visibleEvents.length;
   const visibleTasks = tasks.slice(0, Math.max(0, remainingSlots));
   const visibleCount = visibleEvents.length + visibleTasks.length;
@@ -94,11 +103,18 @@ export const DayCell = memo(function DayCell({
 
       {/* Items */}
       <div className="flex flex-1 flex-col gap-0.5">
+        {holidays.map((holiday) => (
+          <HolidayPill key={`${holiday.calendar}-${holiday.name}`} holiday={holiday} />
+        ))}
+
         {visibleEvents.map((event) => (
           <EventPill
             key={event.id + (event.instanceDate ?? '')}
             event={event}
             categoryColor={getCategoryColor(event.categoryId)}
+            continued={
+              !event.isAllDay && !!getEventDaySegment(event, dateKey, userTimezone)?.continuesBefore
+            }
           />
         ))}
 
@@ -1,33 +1,26 @@
 import { addDays, format, isToday, subDays } from 'date-fns';
 import { useMemo } from 'react';
 
-import { useCategories } from '@/hooks/use-categories';
+import { useCategoryMap } from '@/hooks/use-categories';
 import { useEventsByDate } from '@/hooks/use-events';
+import { useHolidaysByDate } from '@/hooks/use-holidays';
 import { cn } from '@/lib/utils';
 import { useCalendarStore } from '@/stores/calendar-store';
 
 import { AllDayRow } from './AllDayRow';
 import { TimeGrid } from './TimeGrid';
 
-import type { CalendarCategory, Event, Task } from '@calley/shared';
+import type { Event, Task } from '@calley/shared';
 
 export function DayView() {
   const { currentDate } = useCalendarStore();
-  const { data: categories = [] } = useCategories();
+  const categoryMap = useCategoryMap();
 
   // Fetch events for current day + 1 day buffer on each side
   const fetchStart = subDays(currentDate, 1).toISOString();
   const fetchEnd = addDays(currentDate, 2).toISOString();
   const { eventsByDate, isLoading } = useEventsByDate(fetchStart, fetchEnd);
-
-  // Build category lookup map
-  const categoryMap = useMemo(() => {
-    const map = new Map<string, CalendarCategory>();
-    for (const cat of categories) {
-      map.set(cat.id, cat);
-    }
-    return map;
-  }, [categories]);
+  const holidaysByDate = useHolidaysByDate(currentDate, currentDate);
 
   // Single day as an array (for reusing TimeGrid and AllDayRow)
   const days = useMemo(() => [currentDate], [currentDate]);
@@ -69,15 +62,11 @@ export function DayView() {
         {/* Empty cell for time gutter alignment */}
         <div className="w-14 shrink-0 border-r border-[var(--border)]" />
 
-        <div
-          className="flex flex-1 items-center gap-3 px-4 py-3"
-          role="columnheader"
-        >
+        <div className="flex flex-1 items-center gap-3 px-4 py-3" role="columnheader">
           <div
             className={cn(
               'flex h-12 w-12 items-center justify-center rounded-full text-xl font-semibold',
-              today &&
-                'bg-[var(--primary)] text-[var(--primary-foreground)]',
+              today && 'bg-[var(--primary)] text-[var(--primary-foreground)]',
             )}
             aria-current={today ? 'date' : undefined}
           >
@@ -103,14 +92,12 @@ export function DayView() {
       <AllDayRow
         days={days}
         allDayEventsByDate={allDayEventsByDate}
+        holidaysByDate={holidaysByDate}
         categories={categoryMap}
       />
 
       {/* Time grid — single column gets full width for detailed event blocks */}
-      <TimeGrid
-        columns={columns}
-        categories={categoryMap}
-      />
+      <TimeGrid columns={columns} categories={categoryMap} />
     </div>
   );
 }
@@ -21,7 +21,7 @@ import { fromZonedTime, toZonedTime } from 'date-fns-tz';
 import { createContext, useCallback, useContext, useEffect, useState } from 'react';
 
 import { RecurrenceScopeDialog } from '@/components/calendar/RecurrenceScopeDialog';
-import { useUpdateEvent } from '@/hooks/use-event-mutations';
+import { useCreateEvent, useUpdateEvent } from '@/hooks/use-event-mutations';
 import { useKeyboardDnd } from '@/hooks/use-keyboard-dnd';
 import { useUpdateTask } from '@/hooks/use-task-mutations';
 import { useUserTimezone } from '@/hooks/use-user-timezone';
@@ -30,6 +30,9 @@ import { registerEventPickUp } from '@/lib/keyboard-utils';
 import type { EditScope, Event, Task } from '@calley/shared';
 import type { DragEndEvent, DragStartEvent } from '@dnd-kit/core';
 
+/** Length of the focus block created by dropping a task on the time grid */
+const FOCUS_BLOCK_MINUTES = 60;
+
 interface KeyboardDndContextValue {
   pickUp: (event: Event) => void;
   isMoving: boolean;
@@ -53,12 +56,14 @@ interface DndCalendarProviderProps {
 }
 
 /**
- * Wraps the calendar area in a DndContext for event drag & drop
- * AND task-to-calendar drag & drop.
- * Handles move (time-based and date-based) operations.
+ * Wraps the calendar area and task panel in a DndContext for event drag &
+ * drop, task-to-calendar drag & drop and task reordering.
+ * Handles move (time-based and date-based) operations; the task panel
+ * handles its own reorders through useDndMonitor.
  */
 export function DndCalendarProvider({ children }: DndCalendarProviderProps) {
   const userTimezone = useUserTimezone();
+  const createEvent = useCreateEvent();
   const updateEvent = useUpdateEvent();
   const updateTask = useUpdateTask();
   const keyboardDnd = useKeyboardDnd();
@@ -92,7 +97,7 @@ export function DndCalendarProvider({ children }: DndCalendarProviderProps) {
     const data = event.active.data.current as
       | { event?: Event; task?: Task; type: string }
       | undefined;
-    if (data?.type === 'task-to-calendar' && data.task) {
+    if ((data?.type === 'task-to-calendar' || data?.type === 'task-reorder') && data.task) {
       setActiveTask(data.task);
     } else if (data?.event) {
       setActiveEvent(data.event);
@@ -116,10 +121,28 @@ export function DndCalendarProvider({ children }: DndCalendarProviderProps) {
       // ─── Task-to-calendar drop ──────────────────────────────────
       if (activeData.type === 'task-to-calendar' && activeData.task) {
         const task = activeData.task;
+        const isRecurringTask =
+          !!task.rrule || !!task.recurringTaskId || !!task.isRecurringInstance;
         let newDueAt: Date;
 
-        if (overData.type === 'time-slot') {
-          // Drop on a time slot: set due date + time
+        if (overData.type === 'time-slot' && !isRecurringTask) {
+          // Drop on a time slot: block out time for the task
+          const dropTime = new Date(overData.date);
+          dropTime.setHours(overData.hour ?? 0, overData.minutes ?? 0, 0, 0);
+          const startAt = fromZonedTime(dropTime, userTimezone);
+          createEvent.mutate({
+            title: task.title,
+            startAt: startAt.toISOString(),
+            endAt: addMinutes(startAt, FOCUS_BLOCK_MINUTES).toISOString(),
+            timezone: userTimezone,
+            isAllDay: false,
+            categoryId: task.categoryId,
+            visibility: 'private',
+            taskId: task.id,
+          });
+          return;
+        } else if (overData.type === 'time-slot') {
+          // Recurring tasks can't be time-blocked: set due date + time
           const dropTime = new Date(overData.date);
           dropTime.setHours(overData.hour ?? 0, overData.minutes ?? 0, 0, 0);
           newDueAt = fromZonedTime(dropTime, userTimezone);
@@ -137,9 +160,6 @@ export function DndCalendarProvider({ children }: DndCalendarProviderProps) {
         // Don't update if same
         if (newDueAtStr === task.dueAt) return;
 
-        const isRecurringTask =
-          !!task.rrule || !!task.recurringTaskId || !!task.isRecurringInstance;
-
         if (isRecurringTask) {
           setPendingDrop({ kind: 'task', task, newDueAt: newDueAtStr });
           setScopeDialogOpen(true);
@@ -214,7 +234,7 @@ export function DndCalendarProvider({ children }: DndCalendarProviderProps) {
         });
       }
     },
-    [userTimezone, updateEvent, updateTask],
+    [userTimezone, createEvent, updateEvent, updateTask],
   );
 
   const handleScopeConfirm = useCallback(
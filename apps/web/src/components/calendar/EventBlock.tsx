@@ -5,6 +5,7 @@ import { MapPin, Repeat } from 'lucide-react';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 
 import { EventDetailPopover } from '@/components/events/EventDetailPopover';
+import { TagChips } from '@/components/tags/TagChips';
 import { useUserTimezone } from '@/hooks/use-user-timezone';
 import { registerEventElement, unregisterEventElement } from '@/lib/keyboard-utils';
 import { cn } from '@/lib/utils';
@@ -23,6 +24,12 @@ interface EventBlockProps {
   showPopover?: boolean;
   /** Enable drag-and-drop for this block */
   draggable?: boolean;
+  /** The day this block is drawn on, for events split across several days */
+  dateKey?: string;
+  /** The event started on an earlier day */
+  continuesBefore?: boolean;
+  /** The event runs on into a later day */
+  continuesAfter?: boolean;
 }
 
 export const EventBlock = memo(function EventBlock({
@@ -35,19 +42,31 @@ export const EventBlock = memo(function EventBlock({
   onClick,
   showPopover = true,
   draggable = true,
+  dateKey,
+  continuesBefore = false,
+  continuesAfter = false,
 }: EventBlockProps) {
   const userTimezone = useUserTimezone();
   const [popoverOpen, setPopoverOpen] = useState(false);
   const color = event.color ?? categoryColor ?? 'var(--primary)';
   const isRecurring = !!event.rrule || !!event.recurringEventId || event.isRecurringInstance;
+  // A focus block whose task has been completed
+  const isDone = !!event.completedAt;
   const isCompact = heightPx < 40;
 
-  const startLabel = formatInTimeZone(parseISO(event.startAt), userTimezone, 'h:mm a');
-  const endLabel = formatInTimeZone(parseISO(event.endAt), userTimezone, 'h:mm a');
+  // Name the days when the event runs past midnight
+  const timeFormat = continuesBefore || continuesAfter ? 'EEE h:mm a' : 'h:mm a';
+  const startLabel = formatInTimeZone(parseISO(event.startAt), userTimezone, timeFormat);
+  const endLabel = formatInTimeZone(parseISO(event.endAt), userTimezone, timeFormat);
   const timeLabel = `${startLabel} – ${endLabel}`;
 
-  // Draggable for moving the event
-  const moveId = `event-move-${event.id}-${event.instanceDate ?? ''}`;
+  // Each day of a split event needs its own drag ids
+  const segmentId = `${event.id}-${event.instanceDate ?? ''}${dateKey ? `-${dateKey}` : ''}`;
+
+  // Draggable for moving the event. Only the first day's segment moves it,
+  // as a drop sets the event's start to where the segment was dropped.
+  const canMove = draggable && !continuesBefore;
+  const moveId = `event-move-${segmentId}`;
   const {
     attributes: moveAttrs,
     listeners: moveListeners,
@@ -56,11 +75,11 @@ export const EventBlock = memo(function EventBlock({
   } = useDraggable({
     id: moveId,
     data: { type: 'event-move', event },
-    disabled: !draggable,
+    disabled: !canMove,
   });
 
   // Draggable for resizing (bottom edge)
-  const resizeId = `event-resize-${event.id}-${event.instanceDate ?? ''}`;
+  const resizeId = `event-resize-${segmentId}`;
   const {
     attributes: resizeAttrs,
     listeners: resizeListeners,
@@ -98,9 +117,13 @@ export const EventBlock = memo(function EventBlock({
     <div
       ref={setMoveRef}
       className={cn(
-        'absolute z-10 flex cursor-grab flex-col overflow-hidden rounded-[var(--radius-sm)] border border-white/20 text-left transition-shadow hover:shadow-md',
+        'absolute z-10 flex flex-col overflow-hidden rounded-[var(--radius-sm)] border border-white/20 text-left transition-shadow hover:shadow-md',
+        canMove && 'cursor-grab',
         isCompact ? 'py-0' : 'py-1',
+        continuesBefore && 'rounded-t-none border-t-0',
+        continuesAfter && 'rounded-b-none border-b-0',
         isDragging && 'opacity-50',
+        isDone && 'opacity-60',
       )}
       style={{
         top: topPx,
@@ -126,14 +149,28 @@ export const EventBlock = memo(function EventBlock({
       >
         {isCompact ? (
           <div className="flex items-center gap-1 overflow-hidden">
-            <span className="truncate text-[11px] font-medium leading-tight">{event.title}</span>
+            <span
+              className={cn(
+                'truncate text-[11px] font-medium leading-tight',
+                isDone && 'line-through',
+              )}
+            >
+              {event.title}
+            </span>
             <span className="shrink-0 text-[10px] text-[var(--muted-foreground)]">
               {startLabel}
             </span>
           </div>
         ) : (
           <>
-            <span className="truncate text-xs font-semibold leading-tight">{event.title}</span>
+            <span
+              className={cn(
+                'truncate text-xs font-semibold leading-tight',
+                isDone && 'line-through',
+              )}
+            >
+              {event.title}
+            </span>
             <span className="text-[10px] leading-tight text-[var(--muted-foreground)]">
               {timeLabel}
             </span>
@@ -143,6 +180,7 @@ export const EventBlock = memo(function EventBlock({
                 <span className="truncate">{event.location}</span>
               </span>
             )}
+            {heightPx >= 48 && <TagChips tagIds={event.tagIds} max={2} className="mt-0.5" />}
             {isRecurring && heightPx >= 64 && (
               <Repeat
                 className="mt-auto h-2.5 w-2.5 text-[var(--muted-foreground)]"
@@ -153,8 +191,8 @@ export const EventBlock = memo(function EventBlock({
         )}
       </button>
 
-      {/* Resize handle at bottom */}
-      {draggable && !isCompact && (
+      {/* Resize handle at bottom, on the day the event ends */}
+      {draggable && !isCompact && !continuesAfter && (
         <div
           ref={setResizeRef}
           {...resizeAttrs}
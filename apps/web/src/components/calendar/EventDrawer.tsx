@@ -2,6 +2,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { useQuery } from '@tanstack/react-query';
 import { addHours, format, parseISO, set as setDateFields } from 'date-fns';
 import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { Target } from 'lucide-react';
 import { lazy, Suspense, useCallback, useEffect, useMemo, useState } from 'react';
 import { Controller, useForm } from 'react-hook-form';
 import { z } from 'zod';
@@ -11,6 +12,13 @@ const LazyRecurrenceBuilderModal = lazy(() =>
     default: m.RecurrenceBuilderModal,
   })),
 );
+import { HOLIDAY_CALENDAR_LABELS, HOLIDAY_CALENDARS, holidayCalendarSchema } from '@calley/shared';
+
+import { AttendeeList } from '@/components/events/AttendeeList';
+import { FindTimePanel } from '@/components/events/FindTimePanel';
+import { SeriesOccurrences } from '@/components/events/SeriesOccurrences';
+import { TimezoneSelect } from '@/components/events/TimezoneSelect';
+import { TagPicker } from '@/components/tags/TagPicker';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
@@ -23,21 +31,25 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Sheet, SheetContent, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useAttendees } from '@/hooks/use-attendees';
+import { useSharedCalendars } from '@/hooks/use-calendar-shares';
 import { useCategories } from '@/hooks/use-categories';
 import { useCreateEvent, useDeleteEvent, useUpdateEvent } from '@/hooks/use-event-mutations';
+import { useTask } from '@/hooks/use-tasks';
 import { useUserTimezone } from '@/hooks/use-user-timezone';
 import { apiClient } from '@/lib/api-client';
 import { queryKeys } from '@/lib/query-keys';
+import { extraDatesToInstants, instantsToExtraDates } from '@/lib/recurrence';
 import { useUIStore } from '@/stores/ui-store';
 
 import { RecurrenceScopeDialog } from './RecurrenceScopeDialog';
 
-import type { EditScope, Event } from '@calley/shared';
+import type { EditScope, Event, FindTimeSlot } from '@calley/shared';
 
 // ─── Form Schema ────────────────────────────────────────────────────
 // No transforms here — react-hook-form requires input === output types.
 // Transforms are applied in buildApiPayload() before submission.
-// The refine uses fromZonedTime so validation respects the user's timezone.
+// The refine uses fromZonedTime so validation respects the event's timezones.
 
 const eventFormBaseSchema = z.object({
   title: z
@@ -51,25 +63,34 @@ const eventFormBaseSchema = z.object({
   startTime: z.string(),
   endDate: z.string().min(1, 'End date is required'),
   endTime: z.string(),
+  timezone: z.string().min(1, 'Timezone is required'),
+  /** Empty means the end uses the start timezone */
+  endTimezone: z.string(),
   isAllDay: z.boolean(),
   categoryId: z.string().min(1, 'Category is required'),
+  tagIds: z.array(z.string()),
   color: z.string().optional(),
   visibility: z.enum(['public', 'private']),
   rrule: z.string().optional(),
+  /** Extra dates (YYYY-MM-DD) the series also falls on, at its start time */
+  rDates: z.array(z.string()),
+  /** Empty means holidays don't affect the series */
+  skipHolidays: holidayCalendarSchema.or(z.literal('')),
   reminderMinutes: z.string().optional(),
 });
 
-function createEventFormSchema(timezone: string) {
-  return eventFormBaseSchema.refine(
-    (data) => {
-      if (data.isAllDay) return true;
-      const start = fromZonedTime(parseISO(`${data.startDate}T${data.startTime}`), timezone);
-      const end = fromZonedTime(parseISO(`${data.endDate}T${data.endTime}`), timezone);
-      return start < end;
-    },
-    { message: 'End time must be after start time', path: ['endTime'] },
-  );
-}
+const eventFormSchema = eventFormBaseSchema.refine(
+  (data) => {
+    if (data.isAllDay) return true;
+    const start = fromZonedTime(parseISO(`${data.startDate}T${data.startTime}`), data.timezone);
+    const end = fromZonedTime(
+      parseISO(`${data.endDate}T${data.endTime}`),
+      data.endTimezone || data.timezone,
+    );
+    return start < end;
+  },
+  { message: 'End time must be after start time', path: ['endTime'] },
+);
 
 type EventFormValues = z.infer<typeof eventFormBaseSchema>;
 
@@ -118,10 +139,13 @@ export function EventDrawer() {
   const {
     eventDrawer: { open, eventId, defaultDate, defaultTime, instanceDate: storeInstanceDate },
     closeEventDrawer,
+    openTaskDrawer,
   } = useUIStore();
 
   const userTimezone = useUserTimezone();
   const { data: categories = [] } = useCategories();
+  const { data: sharedCalendars = [] } = useSharedCalendars();
+  const editableSharedCalendars = sharedCalendars.filter((c) => c.permission === 'edit');
   const createEvent = useCreateEvent();
   const updateEvent = useUpdateEvent();
   const deleteEvent = useDeleteEvent();
@@ -136,6 +160,10 @@ export function EventDrawer() {
 
   const isRecurring = isEditMode && !!(existingEvent?.rrule || existingEvent?.recurringEventId);
 
+  // Focus blocks link back to the task they were blocked out for
+  const focusTaskId = (open && existingEvent?.taskId) || null;
+  const { data: focusTask } = useTask(focusTaskId);
+
   // Scope dialog state for recurring events
   const [scopeDialog, setScopeDialog] = useState<{
     open: boolean;
@@ -146,11 +174,20 @@ export function EventDrawer() {
   // Recurrence builder modal state
   const [recurrenceBuilderOpen, setRecurrenceBuilderOpen] = useState(false);
 
+  // Find-a-time panel state
+  const [findTimeOpen, setFindTimeOpen] = useState(false);
+  const { data: attendees = [] } = useAttendees(isEditMode && open ? (eventId ?? null) : null);
+
   // Compute default values
   const getDefaults = useCallback((): EventFormValues => {
     if (isEditMode && existingEvent) {
-      const zonedStart = toZonedTime(parseISO(existingEvent.startAt), userTimezone);
-      const zonedEnd = toZonedTime(parseISO(existingEvent.endAt), userTimezone);
+      // Show times in the event's own timezones, falling back to the user's
+      const timezone = existingEvent.timezone ?? userTimezone;
+      const zonedStart = toZonedTime(parseISO(existingEvent.startAt), timezone);
+      const zonedEnd = toZonedTime(
+        parseISO(existingEvent.endAt),
+        existingEvent.endTimezone ?? timezone,
+      );
       return {
         title: existingEvent.title,
         description: existingEvent.description ?? '',
@@ -159,11 +196,19 @@ export function EventDrawer() {
         startTime: format(zonedStart, 'HH:mm'),
         endDate: format(zonedEnd, 'yyyy-MM-dd'),
         endTime: format(zonedEnd, 'HH:mm'),
+        timezone,
+        endTimezone: existingEvent.endTimezone ?? '',
         isAllDay: existingEvent.isAllDay,
         categoryId: existingEvent.categoryId,
+        tagIds: existingEvent.tagIds,
         color: existingEvent.color ?? '',
         visibility: existingEvent.visibility,
         rrule: existingEvent.rrule ?? '',
+        rDates: instantsToExtraDates(
+          existingEvent.rDates ?? [],
+          existingEvent.isAllDay ? userTimezone : timezone,
+        ),
+        skipHolidays: existingEvent.skipHolidays ?? '',
         reminderMinutes: 'none',
       };
     }
@@ -186,18 +231,20 @@ export function EventDrawer() {
       startTime,
       endDate,
       endTime,
+      timezone: userTimezone,
+      endTimezone: '',
       isAllDay: false,
       categoryId: defaultCategory?.id ?? categories[0]?.id ?? '',
+      tagIds: [],
       color: '',
       visibility: 'private',
       rrule: '',
+      rDates: [],
+      skipHolidays: '',
       reminderMinutes: 'none',
     };
   }, [isEditMode, existingEvent, defaultDate, defaultTime, categories, userTimezone]);
 
-  // Build timezone-aware schema so the end > start refine uses the user's timezone
-  const eventFormSchema = useMemo(() => createEventFormSchema(userTimezone), [userTimezone]);
-
   const {
     register,
     handleSubmit,
@@ -218,22 +265,71 @@ export function EventDrawer() {
     }
   }, [open, existingEvent, reset, getDefaults]);
 
+  // Start each visit to the drawer with the scheduling assistant closed
+  useEffect(() => {
+    if (!open) setFindTimeOpen(false);
+  }, [open]);
+
   const isAllDay = watch('isAllDay');
   const selectedColor = watch('color');
   const watchedStartDate = watch('startDate');
   const watchedRrule = watch('rrule');
+  const watchedRDates = watch('rDates');
+  const watchedSkipHolidays = watch('skipHolidays');
+  const watchedTimezone = watch('timezone');
+  const watchedStartTime = watch('startTime');
+  const watchedEndDate = watch('endDate');
+  const watchedEndTime = watch('endTime');
+  const watchedEndTimezone = watch('endTimezone');
+
+  // Length of the event as currently entered, for find-a-time searches
+  const durationMinutes = useMemo(() => {
+    const start = fromZonedTime(
+      parseISO(`${watchedStartDate}T${watchedStartTime}`),
+      watchedTimezone,
+    );
+    const end = fromZonedTime(
+      parseISO(`${watchedEndDate}T${watchedEndTime}`),
+      watchedEndTimezone || watchedTimezone,
+    );
+    const minutes = Math.round((end.getTime() - start.getTime()) / 60000);
+    return Number.isFinite(minutes) ? Math.min(Math.max(minutes, 15), 480) : 60;
+  }, [
+    watchedStartDate,
+    watchedStartTime,
+    watchedEndDate,
+    watchedEndTime,
+    watchedTimezone,
+    watchedEndTimezone,
+  ]);
+
+  const handleSelectSlot = useCallback(
+    (slot: FindTimeSlot) => {
+      const zonedStart = toZonedTime(parseISO(slot.start), watchedTimezone);
+      const zonedEnd = toZonedTime(parseISO(slot.end), watchedEndTimezone || watchedTimezone);
+      setValue('startDate', format(zonedStart, 'yyyy-MM-dd'), { shouldDirty: true });
+      setValue('startTime', format(zonedStart, 'HH:mm'), { shouldDirty: true });
+      setValue('endDate', format(zonedEnd, 'yyyy-MM-dd'), { shouldDirty: true });
+      setValue('endTime', format(zonedEnd, 'HH:mm'), { shouldDirty: true });
+      setFindTimeOpen(false);
+    },
+    [watchedTimezone, watchedEndTimezone, setValue],
+  );
 
-  // Determine if current rrule is a custom (non-preset) value
+  // Determine if current rrule is a custom (non-preset) value. Extra
+  // dates only show in the builder, so a rule with any counts as custom.
   const isCustomRrule = useMemo(() => {
     if (!watchedRrule) return false;
+    if (watchedRDates.length > 0) return true;
     return !RECURRENCE_PRESETS.some((p) => p.value === watchedRrule);
-  }, [watchedRrule]);
+  }, [watchedRrule, watchedRDates]);
 
   // ─── Submit Handler ─────────────────────────────────────────────
 
   const buildApiPayload = useCallback(
     (data: EventFormValues) => {
-      // Parse the user's local date/time and convert to UTC using their timezone
+      // Parse the local date/time and convert to UTC using the event's timezones.
+      // All-day events float, so their dates are anchored in the user's timezone.
       const startZoned = data.isAllDay
         ? setDateFields(parseISO(data.startDate), { hours: 0, minutes: 0, seconds: 0 })
         : parseISO(`${data.startDate}T${data.startTime}`);
@@ -241,15 +337,19 @@ export function EventDrawer() {
         ? setDateFields(parseISO(data.endDate), { hours: 23, minutes: 59, seconds: 59 })
         : parseISO(`${data.endDate}T${data.endTime}`);
 
-      // Convert from user's timezone to UTC
-      const startUtc = fromZonedTime(startZoned, userTimezone);
-      const endUtc = fromZonedTime(endZoned, userTimezone);
+      const startTimezone = data.isAllDay ? userTimezone : data.timezone;
+      const endTimezone = data.isAllDay ? userTimezone : data.endTimezone || data.timezone;
+      const startUtc = fromZonedTime(startZoned, startTimezone);
+      const endUtc = fromZonedTime(endZoned, endTimezone);
 
       const reminderValue = data.reminderMinutes;
       const reminderMinutes =
         reminderValue && reminderValue !== 'none' ? Number(reminderValue) : null;
 
       const rrule = data.rrule && data.rrule !== '_none' ? data.rrule : null;
+      const rDates = rrule
+        ? extraDatesToInstants(data.rDates, data.isAllDay ? '00:00' : data.startTime, startTimezone)
+        : [];
 
       return {
         title: data.title,
@@ -257,11 +357,19 @@ export function EventDrawer() {
         location: data.location || null,
         startAt: startUtc.toISOString(),
         endAt: endUtc.toISOString(),
+        timezone: data.isAllDay ? null : data.timezone,
+        endTimezone:
+          data.isAllDay || !data.endTimezone || data.endTimezone === data.timezone
+            ? null
+            : data.endTimezone,
         isAllDay: data.isAllDay,
         categoryId: data.categoryId,
+        tagIds: data.tagIds,
         color: data.color || null,
         visibility: data.visibility,
         rrule,
+        rDates,
+        skipHolidays: rrule && data.skipHolidays ? data.skipHolidays : null,
         ...(reminderMinutes != null
           ? { reminder: { minutesBefore: reminderMinutes, method: 'push' as const } }
           : {}),
@@ -271,7 +379,7 @@ export function EventDrawer() {
   );
 
   const submitWithScope = useCallback(
-    (data: EventFormValues, scope?: EditScope) => {
+    (data: EventFormValues, scope?: EditScope, allSegments?: boolean) => {
       const payload = buildApiPayload(data);
 
       if (isEditMode && eventId) {
@@ -281,6 +389,7 @@ export function EventDrawer() {
             data: payload,
             scope,
             instanceDate: storeInstanceDate ?? existingEvent?.instanceDate ?? undefined,
+            allSegments,
           },
           { onSuccess: () => closeEventDrawer() },
         );
@@ -312,9 +421,9 @@ export function EventDrawer() {
   );
 
   const handleScopeConfirm = useCallback(
-    (scope: EditScope) => {
+    (scope: EditScope, allSegments: boolean) => {
       if (scopeDialog.action === 'edit' && scopeDialog.pendingData) {
-        submitWithScope(scopeDialog.pendingData, scope);
+        submitWithScope(scopeDialog.pendingData, scope, allSegments);
       } else if (scopeDialog.action === 'delete' && eventId) {
         deleteEvent.mutate(
           {
@@ -354,6 +463,33 @@ export function EventDrawer() {
             <SheetTitle>{isEditMode ? 'Edit Event' : 'New Event'}</SheetTitle>
           </SheetHeader>
 
+          {focusTaskId && (
+            <div className="mt-4 flex items-center justify-between gap-2 rounded-[var(--radius)] border border-[var(--border)] bg-[var(--muted)] px-3 py-2 text-sm">
+              <span className="flex min-w-0 items-center gap-1.5">
+                <Target
+                  className="h-4 w-4 shrink-0 text-[var(--muted-foreground)]"
+                  aria-hidden="true"
+                />
+                <span className="truncate">Focus block for {focusTask?.title ?? 'a task'}</span>
+                {existingEvent?.completedAt && (
+                  <span className="shrink-0 text-xs text-[var(--muted-foreground)]">· Done</span>
+                )}
+              </span>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto shrink-0 p-0"
+                onClick={() => {
+                  closeEventDrawer();
+                  openTaskDrawer({ taskId: focusTaskId });
+                }}
+              >
+                Open task
+              </Button>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit(onSubmit)} className="mt-6 space-y-5" noValidate>
             {/* Title */}
             <div className="space-y-1.5">
@@ -448,6 +584,65 @@ export function EventDrawer() {
               )}
             </div>
 
+            {/* Timezones */}
+            {!isAllDay && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="event-timezone">Time zone</Label>
+                  <Controller
+                    name="timezone"
+                    control={control}
+                    render={({ field }) => (
+                      <TimezoneSelect
+                        id="event-timezone"
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      />
+                    )}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="event-end-timezone">End time zone</Label>
+                  <Controller
+                    name="endTimezone"
+                    control={control}
+                    render={({ field }) => (
+                      <TimezoneSelect
+                        id="event-end-timezone"
+                        value={field.value === watchedTimezone ? '' : field.value}
+                        onValueChange={field.onChange}
+                        emptyLabel="Same as start"
+                      />
+                    )}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Find a time */}
+            {!isAllDay && (
+              <div className="space-y-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setFindTimeOpen((prev) => !prev)}
+                  aria-expanded={findTimeOpen}
+                >
+                  {findTimeOpen ? 'Hide scheduling assistant' : 'Find a time'}
+                </Button>
+                {findTimeOpen && (
+                  <FindTimePanel
+                    attendeeEmails={attendees.map((a) => a.email)}
+                    durationMinutes={durationMinutes}
+                    timezone={watchedTimezone}
+                    onSelect={handleSelectSlot}
+                  />
+                )}
+              </div>
+            )}
+
             {/* Description */}
             <div className="space-y-1.5">
               <Label htmlFor="event-description">Description</Label>
@@ -475,6 +670,9 @@ export function EventDrawer() {
               )}
             </div>
 
+            {/* Guests — managed outside the form since changes are emailed immediately */}
+            {isEditMode && eventId && <AttendeeList eventId={eventId} />}
+
             {/* Category */}
             <div className="space-y-1.5">
               <Label>Category</Label>
@@ -498,6 +696,20 @@ export function EventDrawer() {
                           </div>
                         </SelectItem>
                       ))}
+                      {editableSharedCalendars.map((cal) => (
+                        <SelectItem key={cal.categoryId} value={cal.categoryId}>
+                          <div className="flex items-center gap-2">
+                            <span
+                              className="inline-block h-3 w-3 shrink-0 rounded-full"
+                              style={{ backgroundColor: cal.color }}
+                            />
+                            {cal.name}
+                            <span className="text-xs text-[var(--muted-foreground)]">
+                              {cal.ownerName}
+                            </span>
+                          </div>
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 )}
@@ -509,6 +721,18 @@ export function EventDrawer() {
               )}
             </div>
 
+            {/* Tags */}
+            <div className="space-y-1.5">
+              <Label htmlFor="event-new-tag">Tags</Label>
+              <Controller
+                name="tagIds"
+                control={control}
+                render={({ field }) => (
+                  <TagPicker id="event-new-tag" value={field.value} onChange={field.onChange} />
+                )}
+              />
+            </div>
+
             {/* Color override */}
             <div className="space-y-1.5">
               <Label>Color override</Label>
@@ -578,6 +802,8 @@ export function EventDrawer() {
                         setRecurrenceBuilderOpen(true);
                         return;
                       }
+                      // Presets have no extra dates
+                      setValue('rDates', []);
                       field.onChange(v === '_none' ? '' : v);
                     }}
                   >
@@ -597,6 +823,42 @@ export function EventDrawer() {
               />
             </div>
 
+            {watchedRrule && (
+              <div className="space-y-1.5">
+                <Label>Skip holidays</Label>
+                <Controller
+                  name="skipHolidays"
+                  control={control}
+                  render={({ field }) => (
+                    <Select
+                      value={field.value || '_none'}
+                      onValueChange={(v) => field.onChange(v === '_none' ? '' : v)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="_none">Don&apos;t skip</SelectItem>
+                        {HOLIDAY_CALENDARS.map((calendar) => (
+                          <SelectItem key={calendar} value={calendar}>
+                            {HOLIDAY_CALENDAR_LABELS[calendar]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+            )}
+
+            {/* Occurrences of the saved series — skips apply straight away */}
+            {isEditMode && existingEvent?.rrule && (
+              <SeriesOccurrences
+                event={existingEvent}
+                timeZone={existingEvent.timezone ?? userTimezone}
+              />
+            )}
+
             {/* Reminder */}
             <div className="space-y-1.5">
               <Label>Reminder</Label>
@@ -653,6 +915,8 @@ export function EventDrawer() {
         onClose={() => setScopeDialog((s) => ({ ...s, open: false }))}
         onConfirm={handleScopeConfirm}
         action={scopeDialog.action}
+        eventId={eventId}
+        onSegmentMerged={(segmentId) => segmentId === eventId && closeEventDrawer()}
       />
 
       {/* Recurrence builder modal (lazy-loaded) */}
@@ -663,7 +927,16 @@ export function EventDrawer() {
             onOpenChange={setRecurrenceBuilderOpen}
             initialRrule={watchedRrule || null}
             startDate={watchedStartDate}
-            onSave={(rrule) => setValue('rrule', rrule)}
+            startTime={watchedStartTime}
+            timezone={isAllDay ? userTimezone : watchedTimezone}
+            isAllDay={isAllDay}
+            allowExtraDates
+            initialExtraDates={watchedRDates}
+            skipHolidays={watchedSkipHolidays || null}
+            onSave={(rrule, _mode, extraDates) => {
+              setValue('rrule', rrule);
+              setValue('rDates', extraDates);
+            }}
           />
         </Suspense>
       )}
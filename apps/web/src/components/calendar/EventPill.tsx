@@ -19,6 +19,11 @@ interface EventPillProps {
   showPopover?: boolean;
   /** Enable drag-and-drop for this pill */
   draggable?: boolean;
+  /**
+   * Drawn on a later day of a timed event that started earlier, which
+   * leaves out the start time like an all-day event
+   */
+  continued?: boolean;
 }
 
 export const EventPill = memo(function EventPill({
@@ -27,6 +32,7 @@ export const EventPill = memo(function EventPill({
   onClick,
   showPopover = true,
   draggable = true,
+  continued = false,
 }: EventPillProps) {
   const userTimezone = useUserTimezone();
   const [popoverOpen, setPopoverOpen] = useState(false);
@@ -42,7 +48,9 @@ export const EventPill = memo(function EventPill({
 
   const timeLabel = event.isAllDay
     ? 'All day'
-    : formatInTimeZone(parseISO(event.startAt), userTimezone, 'h:mm a');
+    : continued
+      ? `until ${formatInTimeZone(parseISO(event.endAt), userTimezone, 'EEE h:mm a')}`
+      : formatInTimeZone(parseISO(event.startAt), userTimezone, 'h:mm a');
 
   // Register this element in the event WeakMap so the centralized
   // Shift+Enter handler in useKeyboardShortcuts can look up the event.
@@ -88,7 +96,7 @@ export const EventPill = memo(function EventPill({
         data-event-id={event.id}
         aria-label={`${event.title}, ${timeLabel}. Shift+Enter to move with keyboard.`}
       >
-        {!event.isAllDay && (
+        {!event.isAllDay && !continued && (
           <span className="shrink-0 font-mono text-[10px] text-[var(--muted-foreground)]">
             {formatInTimeZone(parseISO(event.startAt), userTimezone, 'h:mm')}
           </span>
@@ -0,0 +1,30 @@
+import { memo } from 'react';
+
+import { HOLIDAY_CALENDAR_LABELS } from '@calley/shared';
+
+import type { Holiday } from '@calley/shared';
+
+/** Holidays share one muted color so they read apart from the user's own events */
+export const HOLIDAY_COLOR = '#5b8a72';
+
+interface HolidayPillProps {
+  holiday: Holiday;
+}
+
+/** A read-only all-day chip for a holiday from a built-in calendar */
+export const HolidayPill = memo(function HolidayPill({ holiday }: HolidayPillProps) {
+  const calendarName = HOLIDAY_CALENDAR_LABELS[holiday.calendar];
+
+  return (
+    <div
+      className="flex w-full items-center truncate rounded-[var(--radius-sm)] px-1.5 py-0.5 text-[11px] leading-tight"
+      style={{ backgroundColor: `color-mix(in srgb, ${HOLIDAY_COLOR} 12%, transparent)` }}
+      title={`${holiday.name} (${calendarName} holidays)`}
+      aria-label={`${holiday.name}, ${calendarName} holiday`}
+    >
+      <span className="truncate" style={{ color: HOLIDAY_COLOR }}>
+        {holiday.name}
+      </span>
+    </div>
+  );
+});
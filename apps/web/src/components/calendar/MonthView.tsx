@@ -12,20 +12,21 @@ import {
 import { motion, useReducedMotion } from 'framer-motion';
 import { useMemo } from 'react';
 
-import { useCategories } from '@/hooks/use-categories';
+import { useCategoryMap } from '@/hooks/use-categories';
 import { useEventsByDate } from '@/hooks/use-events';
+import { useHolidaysByDate } from '@/hooks/use-holidays';
 import { staggerContainer, staggerItem } from '@/lib/motion';
 import { useCalendarStore } from '@/stores/calendar-store';
 
 import { DayCell } from './DayCell';
 
-import type { CalendarCategory, Event, Task } from '@calley/shared';
+import type { Event, Task } from '@calley/shared';
 
 const DAY_HEADERS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 export function MonthView() {
   const { currentDate } = useCalendarStore();
-  const { data: categories = [] } = useCategories();
+  const categoryMap = useCategoryMap();
 
   // Calculate date range for the visible grid, including buffer for prefetch
   const monthStart = startOfMonth(currentDate);
@@ -37,15 +38,7 @@ export function MonthView() {
   const fetchStart = subMonths(gridStart, 1).toISOString();
   const fetchEnd = addMonths(gridEnd, 1).toISOString();
   const { eventsByDate, isLoading } = useEventsByDate(fetchStart, fetchEnd);
-
-  // Build category lookup map
-  const categoryMap = useMemo(() => {
-    const map = new Map<string, CalendarCategory>();
-    for (const cat of categories) {
-      map.set(cat.id, cat);
-    }
-    return map;
-  }, [categories]);
+  const holidaysByDate = useHolidaysByDate(gridStart, gridEnd);
 
   // Generate grid days
   const gridStartTime = gridStart.getTime();
@@ -112,6 +105,7 @@ export function MonthView() {
                   isCurrentMonth={isSameMonth(day, currentDate)}
                   events={dayEvents}
                   tasks={dayTasks}
+                  holidays={holidaysByDate.get(dateKey)}
                   categories={categoryMap}
                 />
               );
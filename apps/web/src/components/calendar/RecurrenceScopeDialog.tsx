@@ -1,6 +1,8 @@
+import { formatInTimeZone } from 'date-fns-tz';
 import { useState } from 'react';
 
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Dialog,
   DialogContent,
@@ -9,14 +11,24 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { useMergeSegment } from '@/hooks/use-event-mutations';
+import { useSeriesLineage } from '@/hooks/use-events';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { cn } from '@/lib/utils';
 
-import type { EditScope } from '@calley/shared';
+import type { EditScope, SeriesSegment } from '@calley/shared';
 
 interface RecurrenceScopeDialogProps {
   open: boolean;
   onClose: () => void;
-  onConfirm: (scope: EditScope) => void;
+  /** `allSegments` is set when an "all events" edit should reach every part of a split series */
+  onConfirm: (scope: EditScope, allSegments: boolean) => void;
   action: 'edit' | 'delete';
+  /** The series being changed; if it was split, its parts are listed */
+  eventId?: string | null;
+  /** Called after a part is merged back into the one before it */
+  onSegmentMerged?: (segmentId: string) => void;
 }
 
 const SCOPE_OPTIONS: { value: EditScope; label: string; description: string }[] = [
@@ -37,18 +49,90 @@ const SCOPE_OPTIONS: { value: EditScope; label: string; description: string }[]
   },
 ];
 
+interface SeriesHistoryProps {
+  segments: SeriesSegment[];
+  currentId: string | null;
+  onMerge: (segmentId: string) => void;
+  isMerging: boolean;
+}
+
+/**
+ * The parts a series was split into by "this and following" changes, in
+ * order. A part whose rule carries on the one before it can be merged back.
+ */
+function SeriesHistory({ segments, currentId, onMerge, isMerging }: SeriesHistoryProps) {
+  const userTimezone = useUserTimezone();
+  const formatDate = (date: string) => formatInTimeZone(date, userTimezone, 'MMM d, yyyy');
+
+  return (
+    <div className="space-y-1.5">
+      <div className="text-xs font-medium text-[var(--muted-foreground)]">
+        This series was split into {segments.length} parts
+      </div>
+      <ul className="space-y-1 rounded-[var(--radius)] border border-[var(--border)] p-2">
+        {segments.map((segment) => (
+          <li key={segment.id} className="flex items-center gap-2 text-sm">
+            <span
+              className={cn('min-w-0 flex-1 truncate', segment.id === currentId && 'font-medium')}
+            >
+              {segment.until
+                ? `${formatDate(segment.startAt)} – ${formatDate(segment.until)}`
+                : `From ${formatDate(segment.startAt)}`}
+              {segment.title !== segments[0].title && ` · ${segment.title}`}
+            </span>
+            {segment.id === currentId && (
+              <span className="shrink-0 text-xs text-[var(--muted-foreground)]">This part</span>
+            )}
+            {segment.mergeable && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 shrink-0 px-2 text-xs"
+                disabled={isMerging}
+                onClick={() => onMerge(segment.id)}
+              >
+                Merge with previous
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 /**
  * Inner content that mounts fresh each time the dialog opens,
  * ensuring selected scope always resets to 'instance'.
  */
-function ScopeDialogBody({ onClose, onConfirm, action }: Omit<RecurrenceScopeDialogProps, 'open'>) {
+function ScopeDialogBody({
+  onClose,
+  onConfirm,
+  action,
+  eventId = null,
+  onSegmentMerged,
+}: Omit<RecurrenceScopeDialogProps, 'open'>) {
   const [selected, setSelected] = useState<EditScope>('instance');
+  const [allSegments, setAllSegments] = useState(false);
+  const { data: segments = [] } = useSeriesLineage(eventId);
+  const mergeSegment = useMergeSegment();
+  const isSplit = segments.length > 1;
 
   const handleConfirm = () => {
-    onConfirm(selected);
+    onConfirm(selected, isSplit && selected === 'all' && allSegments);
     onClose();
   };
 
+  const handleMerge = (segmentId: string) => {
+    mergeSegment.mutate(segmentId, {
+      onSuccess: () => {
+        onSegmentMerged?.(segmentId);
+        // The part being changed no longer exists on its own
+        if (segmentId === eventId) onClose();
+      },
+    });
+  };
+
   return (
     <DialogContent className="sm:max-w-md">
       <DialogHeader>
@@ -82,6 +166,28 @@ function ScopeDialogBody({ onClose, onConfirm, action }: Omit<RecurrenceScopeDia
         ))}
       </div>
 
+      {isSplit && action === 'edit' && selected === 'all' && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="recurrence-all-segments"
+            checked={allSegments}
+            onCheckedChange={(checked) => setAllSegments(checked === true)}
+          />
+          <Label htmlFor="recurrence-all-segments" className="font-normal">
+            Apply to all {segments.length} parts of the series
+          </Label>
+        </div>
+      )}
+
+      {isSplit && (
+        <SeriesHistory
+          segments={segments}
+          currentId={eventId}
+          onMerge={handleMerge}
+          isMerging={mergeSegment.isPending}
+        />
+      )}
+
       <DialogFooter>
         <Button variant="outline" onClick={onClose}>
           Cancel
@@ -94,15 +200,10 @@ function ScopeDialogBody({ onClose, onConfirm, action }: Omit<RecurrenceScopeDia
   );
 }
 
-export function RecurrenceScopeDialog({
-  open,
-  onClose,
-  onConfirm,
-  action,
-}: RecurrenceScopeDialogProps) {
+export function RecurrenceScopeDialog({ open, ...bodyProps }: RecurrenceScopeDialogProps) {
   return (
-    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
-      {open && <ScopeDialogBody onClose={onClose} onConfirm={onConfirm} action={action} />}
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && bodyProps.onClose()}>
+      {open && <ScopeDialogBody {...bodyProps} />}
     </Dialog>
   );
 }
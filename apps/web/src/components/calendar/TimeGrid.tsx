@@ -4,13 +4,16 @@ import { formatInTimeZone } from 'date-fns-tz';
 import { memo, useEffect, useMemo, useRef, useState } from 'react';
 
 import { QuickCreatePopover } from '@/components/events/QuickCreatePopover';
+import { useCurrentUser } from '@/hooks/use-auth';
 import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { getEventDaySegment } from '@/lib/event-days';
 import { cn } from '@/lib/utils';
+import { getOffHours } from '@/lib/working-hours';
 
 import { EventBlock } from './EventBlock';
 import { TaskMarker } from './TaskMarker';
 
-import type { CalendarCategory, Event, Task } from '@calley/shared';
+import type { CalendarCategory, Event, Task, WorkingHours } from '@calley/shared';
 
 /** Height of each 30-minute slot in pixels */
 export const SLOT_HEIGHT = 48;
@@ -45,6 +48,7 @@ export const TimeGrid = memo(function TimeGrid({
 }: TimeGridProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const userTimezone = useUserTimezone();
+  const { data: user } = useCurrentUser();
 
   // Auto-scroll to current time on mount
   useEffect(() => {
@@ -71,6 +75,7 @@ export const TimeGrid = memo(function TimeGrid({
               column={col}
               categories={categories}
               userTimezone={userTimezone}
+              workingHours={user?.workingHours}
               onEventClick={onEventClick}
               onTaskClick={onTaskClick}
               onTaskToggle={onTaskToggle}
@@ -123,6 +128,7 @@ interface TimeGridColumnViewProps {
   column: TimeGridColumn;
   categories: Map<string, CalendarCategory>;
   userTimezone: string;
+  workingHours?: WorkingHours;
   onEventClick?: (event: Event) => void;
   onTaskClick?: (task: Task) => void;
   onTaskToggle?: (task: Task) => void;
@@ -132,18 +138,37 @@ const TimeGridColumnView = memo(function TimeGridColumnView({
   column,
   categories,
   userTimezone,
+  workingHours,
   onEventClick,
   onTaskClick,
   onTaskToggle,
 }: TimeGridColumnViewProps) {
   // Compute event layout with overlap handling
   const layoutEvents = useMemo(
-    () => computeEventLayout(column.events, userTimezone),
-    [column.events, userTimezone],
+    () => computeEventLayout(column.events, column.dateKey, userTimezone),
+    [column.events, column.dateKey, userTimezone],
+  );
+
+  const offHours = useMemo(
+    () => (workingHours ? getOffHours(column.dateKey, workingHours, userTimezone) : []),
+    [column.dateKey, workingHours, userTimezone],
   );
 
   return (
     <div className="relative flex-1 border-r border-[var(--border)]">
+      {/* Shade time outside working hours */}
+      {offHours.map((range) => (
+        <div
+          key={range.start}
+          className="pointer-events-none absolute inset-x-0 bg-[var(--muted)]/40"
+          style={{
+            top: (range.start / (24 * 60)) * GRID_HEIGHT,
+            height: ((range.end - range.start) / (24 * 60)) * GRID_HEIGHT,
+          }}
+          aria-hidden="true"
+        />
+      ))}
+
       {/* Slot grid lines with QuickCreatePopover */}
       {HOURS.map((hour) => (
         <div key={hour} style={{ height: SLOT_HEIGHT * 2 }}>
@@ -161,6 +186,9 @@ const TimeGridColumnView = memo(function TimeGridColumnView({
           heightPx={le.heightPx}
           leftPercent={le.leftPercent}
           widthPercent={le.widthPercent}
+          dateKey={column.dateKey}
+          continuesBefore={le.continuesBefore}
+          continuesAfter={le.continuesAfter}
           categoryColor={categories.get(le.event.categoryId)?.color}
           onClick={onEventClick}
         />
@@ -272,6 +300,10 @@ export interface LayoutEvent {
   heightPx: number;
   leftPercent: number;
   widthPercent: number;
+  /** The event started on an earlier day, so the block runs from the top */
+  continuesBefore: boolean;
+  /** The event runs on into a later day, so the block runs to the bottom */
+  continuesAfter: boolean;
 }
 
 function getTimePosition(isoString: string, timezone: string): number {
@@ -285,18 +317,30 @@ function getTimePosition(isoString: string, timezone: string): number {
 /**
  * Computes overlap layout for events in a single column.
  * Events that overlap in time are placed side-by-side with reduced width.
+ * Events that run past midnight are clipped to the column's day, so each
+ * day they cover gets its own segment.
  */
-function computeEventLayout(events: Event[], timezone: string): LayoutEvent[] {
+function computeEventLayout(events: Event[], dateKey: string, timezone: string): LayoutEvent[] {
   // Filter to timed events only (all-day handled separately in AllDayRow)
   const timedEvents = events.filter((e) => !e.isAllDay);
   if (timedEvents.length === 0) return [];
 
   // Calculate positions
   const positioned = timedEvents.map((event) => {
-    const topPx = getTimePosition(event.startAt, timezone);
-    const bottomPx = getTimePosition(event.endAt, timezone);
+    // An instance moved off its date is listed under the date but drawn at its own time
+    const segment =
+      getEventDaySegment(event, dateKey, timezone) ??
+      getEventDaySegment(event, formatInTimeZone(event.startAt, timezone, 'yyyy-MM-dd'), timezone)!;
+    const topPx = (segment.start / (24 * 60)) * GRID_HEIGHT;
+    const bottomPx = (segment.end / (24 * 60)) * GRID_HEIGHT;
     const heightPx = Math.max(bottomPx - topPx, SLOT_HEIGHT / 2); // minimum height
-    return { event, topPx, heightPx };
+    return {
+      event,
+      topPx,
+      heightPx,
+      continuesBefore: segment.continuesBefore,
+      continuesAfter: segment.continuesAfter,
+    };
   });
 
   // Sort by start time, then by duration (longer first)
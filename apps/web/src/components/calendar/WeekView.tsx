@@ -9,19 +9,20 @@ import {
 } from 'date-fns';
 import { useMemo } from 'react';
 
-import { useCategories } from '@/hooks/use-categories';
+import { useCategoryMap } from '@/hooks/use-categories';
 import { useEventsByDate } from '@/hooks/use-events';
+import { useHolidaysByDate } from '@/hooks/use-holidays';
 import { cn } from '@/lib/utils';
 import { useCalendarStore } from '@/stores/calendar-store';
 
 import { AllDayRow } from './AllDayRow';
 import { TimeGrid } from './TimeGrid';
 
-import type { CalendarCategory, Event, Task } from '@calley/shared';
+import type { Event, Task } from '@calley/shared';
 
 export function WeekView() {
   const { currentDate } = useCalendarStore();
-  const { data: categories = [] } = useCategories();
+  const categoryMap = useCategoryMap();
 
   // Calculate week boundaries and generate days
   const { weekStart, weekEnd, days } = useMemo(() => {
@@ -34,15 +35,7 @@ export function WeekView() {
   const fetchStart = subWeeks(weekStart, 1).toISOString();
   const fetchEnd = addWeeks(weekEnd, 1).toISOString();
   const { eventsByDate, isLoading } = useEventsByDate(fetchStart, fetchEnd);
-
-  // Build category lookup map
-  const categoryMap = useMemo(() => {
-    const map = new Map<string, CalendarCategory>();
-    for (const cat of categories) {
-      map.set(cat.id, cat);
-    }
-    return map;
-  }, [categories]);
+  const holidaysByDate = useHolidaysByDate(weekStart, weekEnd);
 
   // Build column data and separate all-day events
   const { columns, allDayEventsByDate } = useMemo(() => {
@@ -85,14 +78,12 @@ export function WeekView() {
       <AllDayRow
         days={days}
         allDayEventsByDate={allDayEventsByDate}
+        holidaysByDate={holidaysByDate}
         categories={categoryMap}
       />
 
       {/* Time grid */}
-      <TimeGrid
-        columns={columns}
-        categories={categoryMap}
-      />
+      <TimeGrid columns={columns} categories={categoryMap} />
     </div>
   );
 }
@@ -156,7 +147,10 @@ function WeekViewSkeleton() {
       <div className="flex shrink-0 border-b border-[var(--border)]">
         <div className="w-14 shrink-0 border-r border-[var(--border)]" />
         {Array.from({ length: 7 }).map((_, i) => (
-          <div key={i} className="flex flex-1 flex-col items-center border-r border-[var(--border)] py-2">
+          <div
+            key={i}
+            className="flex flex-1 flex-col items-center border-r border-[var(--border)] py-2"
+          >
             <div className="h-3 w-6 animate-pulse rounded bg-[var(--muted)]" />
             <div className="mt-1 h-8 w-8 animate-pulse rounded-full bg-[var(--muted)]" />
           </div>
@@ -0,0 +1,98 @@
+import { DndContext } from '@dnd-kit/core';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { Event } from '@calley/shared';
+
+// ─── Mocks ──────────────────────────────────────────────────────────────────
+
+vi.mock('@/hooks/use-user-timezone', () => ({
+  useUserTimezone: () => 'UTC',
+}));
+
+vi.mock('@/components/tags/TagChips', () => ({
+  TagChips: () => null,
+}));
+
+import { EventBlock } from '@/components/calendar/EventBlock';
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function makeEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: 'evt_overnight',
+    userId: 'user_1',
+    title: 'Night shift',
+    startAt: '2026-03-02T22:00:00Z',
+    endAt: '2026-03-03T02:00:00Z',
+    timezone: null,
+    endTimezone: null,
+    isAllDay: false,
+    color: null,
+    location: null,
+    description: null,
+    categoryId: 'cat_default_001',
+    visibility: 'private',
+    rrule: null,
+    exDates: [],
+    rDates: [],
+    skipHolidays: null,
+    seriesId: null,
+    recurringEventId: null,
+    originalDate: null,
+    tagIds: [],
+    taskId: null,
+    completedAt: null,
+    isRecurringInstance: false,
+    instanceDate: undefined,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+/** Render a segment of the event and try to pick it up with the keyboard */
+function dragSegment(segment: { dateKey: string; continuesBefore: boolean }) {
+  const onDragStart = vi.fn();
+  render(
+    <DndContext onDragStart={onDragStart}>
+      <EventBlock
+        event={makeEvent()}
+        topPx={0}
+        heightPx={120}
+        leftPercent={0}
+        widthPercent={100}
+        showPopover={false}
+        continuesAfter={!segment.continuesBefore}
+        {...segment}
+      />
+    </DndContext>,
+  );
+
+  const block = screen.getByLabelText(/^Night shift, [^.]*$/);
+  fireEvent.keyDown(block, { code: 'Space' });
+  return { block, onDragStart };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe('EventBlock', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('moves an overnight event from the segment on its first day', () => {
+    const { block, onDragStart } = dragSegment({ dateKey: '2026-03-02', continuesBefore: false });
+
+    expect(block.getAttribute('aria-disabled')).toBe('false');
+    expect(onDragStart).toHaveBeenCalledOnce();
+  });
+
+  it('does not move an overnight event from its continuation segment', () => {
+    const { block, onDragStart } = dragSegment({ dateKey: '2026-03-03', continuesBefore: true });
+
+    expect(block.getAttribute('aria-disabled')).toBe('true');
+    expect(onDragStart).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { UserPlus, X } from 'lucide-react';
+import { useState } from 'react';
+
+import { addAttendeeSchema } from '@calley/shared';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useAddAttendee,
+  useAttendees,
+  useRemoveAttendee,
+  useUpdateAttendee,
+} from '@/hooks/use-attendees';
+
+import type { AttendeeRole, AttendeeStatus } from '@calley/shared';
+
+const STATUS_LABELS: Record<AttendeeStatus, string> = {
+  needs_action: 'Awaiting reply',
+  accepted: 'Accepted',
+  tentative: 'Maybe',
+  declined: 'Declined',
+};
+
+const STATUS_CLASSES: Record<AttendeeStatus, string> = {
+  needs_action: 'bg-[var(--muted)] text-[var(--muted-foreground)]',
+  accepted: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  tentative: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  declined: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+interface AttendeeListProps {
+  eventId: string;
+}
+
+/**
+ * Attendee editor for an existing event. Adding, changing or removing an
+ * attendee emails them straight away, so it works outside the drawer's
+ * Save flow rather than as form fields.
+ */
+export function AttendeeList({ eventId }: AttendeeListProps) {
+  const { data: attendees = [] } = useAttendees(eventId);
+  const addAttendee = useAddAttendee(eventId);
+  const updateAttendee = useUpdateAttendee(eventId);
+  const removeAttendee = useRemoveAttendee(eventId);
+
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const parsed = addAttendeeSchema.safeParse({ email });
+    if (!parsed.success) {
+      setError('Enter a valid email address');
+      return;
+    }
+    setError(null);
+    addAttendee.mutate(parsed.data, {
+      onSuccess: () => setEmail(''),
+    });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor="event-attendee-email">Guests</Label>
+      <div className="flex gap-2">
+        <Input
+          id="event-attendee-email"
+          type="email"
+          placeholder="Invite by email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={(e) => {
+            // The drawer is a form — Enter here should invite, not save the event
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          aria-invalid={!!error}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={handleAdd}
+          disabled={!email.trim() || addAttendee.isPending}
+          aria-label="Invite guest"
+        >
+          <UserPlus />
+        </Button>
+      </div>
+      {error && (
+        <p className="text-xs text-[var(--destructive)]" role="alert">
+          {error}
+        </p>
+      )}
+
+      {attendees.length > 0 && (
+        <ul className="space-y-1.5 pt-1">
+          {attendees.map((attendee) => (
+            <li key={attendee.id} className="flex items-center gap-2 text-sm">
+              <div className="min-w-0 flex-1">
+                <p className="truncate">{attendee.name ?? attendee.email}</p>
+                {attendee.name && (
+                  <p className="truncate text-xs text-[var(--muted-foreground)]">
+                    {attendee.email}
+                  </p>
+                )}
+              </div>
+              <span
+                className={`shrink-0 rounded-full px-2 py-0.5 text-xs ${STATUS_CLASSES[attendee.status]}`}
+              >
+                {STATUS_LABELS[attendee.status]}
+              </span>
+              <Select
+                value={attendee.role}
+                onValueChange={(role) =>
+                  updateAttendee.mutate({
+                    attendeeId: attendee.id,
+                    data: { role: role as AttendeeRole },
+                  })
+                }
+              >
+                <SelectTrigger className="h-8 w-[104px] shrink-0 text-xs" aria-label="Guest role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="required">Required</SelectItem>
+                  <SelectItem value="optional">Optional</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => removeAttendee.mutate(attendee.id)}
+                aria-label={`Remove ${attendee.email}`}
+              >
+                <X />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,8 @@ import { useCallback, useState } from 'react';
 import { RecurrenceScopeDialog } from '@/components/calendar/RecurrenceScopeDialog';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/Popover';
-import { useCategories } from '@/hooks/use-categories';
+import { useSharedCalendars } from '@/hooks/use-calendar-shares';
+import { useCategoryMap } from '@/hooks/use-categories';
 import { useDeleteEvent } from '@/hooks/use-event-mutations';
 import { useUserTimezone } from '@/hooks/use-user-timezone';
 import { apiClient } from '@/lib/api-client';
@@ -30,11 +31,17 @@ export function EventDetailPopover({
   const userTimezone = useUserTimezone();
   const { openEventDrawer } = useUIStore();
   const deleteEvent = useDeleteEvent();
-  const { data: categories = [] } = useCategories();
+  const categoryMap = useCategoryMap();
+  const { data: sharedCalendars = [] } = useSharedCalendars();
 
   const [scopeDialogOpen, setScopeDialogOpen] = useState(false);
 
-  const category = categories.find((c) => c.id === event.categoryId);
+  const category = categoryMap.get(event.categoryId);
+  // Events from someone else's calendar are only editable with edit access,
+  // and free/busy-only members can't export the details either
+  const share = sharedCalendars.find((c) => c.categoryId === event.categoryId);
+  const canEdit = !share || share.permission === 'edit';
+  const canExport = !share || share.permission !== 'freebusy';
   const color = event.color ?? category?.color ?? 'var(--primary)';
   const isRecurring = !!event.rrule || !!event.recurringEventId || event.isRecurringInstance;
 
@@ -178,36 +185,44 @@ export function EventDetailPopover({
 
             {/* Actions */}
             <div className="mt-4 flex items-center gap-1">
-              <Button variant="outline" size="sm" onClick={handleEdit} aria-label="Edit event">
-                <Pencil className="mr-1 h-3.5 w-3.5" />
-                Edit
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleDuplicate}
-                aria-label="Duplicate event"
-              >
-                <Copy className="mr-1 h-3.5 w-3.5" />
-                Duplicate
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleExportIcs}
-                aria-label="Export as ICS"
-              >
-                <Download className="h-3.5 w-3.5" />
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleDeleteClick}
-                className="ml-auto text-[var(--destructive)] hover:bg-[var(--destructive)]/10 hover:text-[var(--destructive)]"
-                aria-label="Delete event"
-              >
-                <Trash2 className="h-3.5 w-3.5" />
-              </Button>
+              {canEdit && (
+                <>
+                  <Button variant="outline" size="sm" onClick={handleEdit} aria-label="Edit event">
+                    <Pencil className="mr-1 h-3.5 w-3.5" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDuplicate}
+                    aria-label="Duplicate event"
+                  >
+                    <Copy className="mr-1 h-3.5 w-3.5" />
+                    Duplicate
+                  </Button>
+                </>
+              )}
+              {canExport && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExportIcs}
+                  aria-label="Export as ICS"
+                >
+                  <Download className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              {canEdit && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDeleteClick}
+                  className="ml-auto text-[var(--destructive)] hover:bg-[var(--destructive)]/10 hover:text-[var(--destructive)]"
+                  aria-label="Delete event"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              )}
             </div>
           </div>
         </PopoverContent>
@@ -218,6 +233,10 @@ export function EventDetailPopover({
         onClose={() => setScopeDialogOpen(false)}
         onConfirm={handleDeleteConfirm}
         action="delete"
+        eventId={event.recurringEventId ?? event.id}
+        onSegmentMerged={(segmentId) =>
+          segmentId === (event.recurringEventId ?? event.id) && onOpenChange(false)
+        }
       />
     </>
   );
@@ -0,0 +1,203 @@
+import { addWeeks, parseISO, startOfWeek } from 'date-fns';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { Search } from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCurrentUser } from '@/hooks/use-auth';
+import { useFindTime } from '@/hooks/use-find-time';
+import { fromEndTimeInput, toEndTimeInput } from '@/lib/working-hours';
+
+import type { FindTimeSlot } from '@calley/shared';
+
+type SearchRange = 'this-week' | 'next-week';
+
+/** Everyone's own working hours, or one window applied to all */
+type HoursMode = 'own' | 'custom';
+
+interface FindTimePanelProps {
+  /** Guests already on the event, prefilled as the people to schedule with */
+  attendeeEmails: string[];
+  durationMinutes: number;
+  /** Timezone the suggestions are shown in */
+  timezone: string;
+  onSelect: (slot: FindTimeSlot) => void;
+}
+
+/**
+ * Weeks begin on the user's chosen week start, in their timezone.
+ */
+function getSearchRange(range: SearchRange, timezone: string, weekStartsOn: 0 | 1) {
+  const now = new Date();
+  const nextWeekStart = fromZonedTime(
+    startOfWeek(addWeeks(toZonedTime(now, timezone), 1), { weekStartsOn }),
+    timezone,
+  );
+  if (range === 'this-week') {
+    return { start: now.toISOString(), end: nextWeekStart.toISOString() };
+  }
+  const followingWeekStart = fromZonedTime(
+    addWeeks(toZonedTime(nextWeekStart, timezone), 1),
+    timezone,
+  );
+  return { start: nextWeekStart.toISOString(), end: followingWeekStart.toISOString() };
+}
+
+/**
+ * Scheduling assistant: suggests times when the user and their guests
+ * are all free, during each person's own working hours or a custom
+ * window. Picking one fills in the event's start and end.
+ */
+export function FindTimePanel({
+  attendeeEmails,
+  durationMinutes,
+  timezone,
+  onSelect,
+}: FindTimePanelProps) {
+  const { data: user } = useCurrentUser();
+  const findTime = useFindTime();
+
+  const [emails, setEmails] = useState(attendeeEmails.join(', '));
+  const [range, setRange] = useState<SearchRange>('this-week');
+  const [hoursMode, setHoursMode] = useState<HoursMode>('own');
+  const [workStart, setWorkStart] = useState('09:00');
+  const [workEnd, setWorkEnd] = useState('17:00');
+  const [includeWeekends, setIncludeWeekends] = useState(false);
+
+  const handleSearch = () => {
+    const weekStartsOn = user?.weekStart === 1 ? 1 : 0;
+    findTime.mutate({
+      emails: emails
+        .split(',')
+        .map((e) => e.trim())
+        .filter(Boolean),
+      durationMinutes,
+      ...getSearchRange(range, timezone, weekStartsOn),
+      ...(hoursMode === 'custom' && {
+        workingHours: { start: workStart, end: workEnd },
+        includeWeekends,
+      }),
+    });
+  };
+
+  const slots = findTime.data?.slots;
+
+  return (
+    <div className="space-y-3 rounded-[var(--radius)] border border-[var(--border)] p-3">
+      <div className="space-y-1.5">
+        <Label htmlFor="find-time-emails">People</Label>
+        <Input
+          id="find-time-emails"
+          placeholder="Emails, separated by commas"
+          value={emails}
+          onChange={(e) => setEmails(e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="find-time-range">When</Label>
+          <Select value={range} onValueChange={(value) => setRange(value as SearchRange)}>
+            <SelectTrigger id="find-time-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="this-week">This week</SelectItem>
+              <SelectItem value="next-week">Next week</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="find-time-hours">Hours</Label>
+          <Select value={hoursMode} onValueChange={(value) => setHoursMode(value as HoursMode)}>
+            <SelectTrigger id="find-time-hours">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="own">Everyone’s working hours</SelectItem>
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {hoursMode === 'custom' && (
+        <div className="grid grid-cols-3 items-end gap-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="find-time-work-start">From</Label>
+            <Input
+              id="find-time-work-start"
+              type="time"
+              value={workStart}
+              onChange={(e) => setWorkStart(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="find-time-work-end">Until</Label>
+            <Input
+              id="find-time-work-end"
+              type="time"
+              value={toEndTimeInput(workEnd)}
+              onChange={(e) => setWorkEnd(fromEndTimeInput(e.target.value))}
+            />
+          </div>
+          <div className="flex h-10 items-center gap-2">
+            <Checkbox
+              id="find-time-weekends"
+              checked={includeWeekends}
+              onCheckedChange={(checked) => setIncludeWeekends(checked === true)}
+            />
+            <Label htmlFor="find-time-weekends" className="cursor-pointer">
+              Weekends
+            </Label>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleSearch}
+          disabled={findTime.isPending}
+        >
+          <Search className="mr-1 h-3.5 w-3.5" />
+          Find times
+        </Button>
+      </div>
+
+      {slots &&
+        (slots.length === 0 ? (
+          <p className="text-sm text-[var(--muted-foreground)]">
+            No time works for everyone. Try a longer range or wider hours.
+          </p>
+        ) : (
+          <ul className="space-y-1" aria-label="Suggested times">
+            {slots.map((slot) => (
+              <li key={slot.start}>
+                <button
+                  type="button"
+                  className="w-full rounded-[var(--radius-sm)] px-2 py-1.5 text-left text-sm transition-colors hover:bg-[var(--accent-ui)]"
+                  onClick={() => onSelect(slot)}
+                >
+                  {formatInTimeZone(parseISO(slot.start), timezone, 'EEE, MMM d · h:mm a')} –{' '}
+                  {formatInTimeZone(parseISO(slot.end), timezone, 'h:mm a')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        ))}
+    </div>
+  );
+}
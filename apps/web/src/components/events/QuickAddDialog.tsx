@@ -0,0 +1,42 @@
+import { QuickAddForm } from '@/components/events/QuickAddForm';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCalendarStore } from '@/stores/calendar-store';
+import { useUIStore } from '@/stores/ui-store';
+
+/**
+ * Quick add opened from the keyboard (C for an event, T for a task).
+ * Events default to the day the calendar is showing; tasks have no due
+ * date unless the text gives one.
+ */
+export function QuickAddDialog() {
+  const { quickAdd, closeQuickAdd } = useUIStore();
+  const currentDate = useCalendarStore((s) => s.currentDate);
+
+  return (
+    <Dialog open={quickAdd.open} onOpenChange={(open) => !open && closeQuickAdd()}>
+      {quickAdd.open && (
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {quickAdd.itemType === 'event' ? 'Quick add event' : 'Quick add task'}
+            </DialogTitle>
+            <DialogDescription>
+              Type a title with a date, time, @category, !priority or &ldquo;every&hellip;&rdquo;
+            </DialogDescription>
+          </DialogHeader>
+          <QuickAddForm
+            defaultDate={quickAdd.itemType === 'event' ? currentDate : undefined}
+            initialType={quickAdd.itemType}
+            onDone={closeQuickAdd}
+          />
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
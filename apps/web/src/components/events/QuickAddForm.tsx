@@ -0,0 +1,195 @@
+import { format } from 'date-fns';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { CalendarDays, CheckSquare } from 'lucide-react';
+import { useState } from 'react';
+
+import { parseQuickAdd } from '@calley/shared';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCurrentUser } from '@/hooks/use-auth';
+import { useCategories } from '@/hooks/use-categories';
+import { useCreateEvent } from '@/hooks/use-event-mutations';
+import { useCreateTask } from '@/hooks/use-task-mutations';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { quickAddChips, resolveEventTimes, resolveTaskDue } from '@/lib/quick-add';
+import { cn } from '@/lib/utils';
+import { useUIStore } from '@/stores/ui-store';
+
+import type { QuickAddItemType } from '@/lib/quick-add';
+
+interface QuickAddFormProps {
+  /** The day the item goes on unless the text names one */
+  defaultDate?: Date;
+  /** Optional time (for week/day view slot clicks) */
+  defaultTime?: Date;
+  initialType?: QuickAddItemType;
+  /** Called after saving or handing off to a drawer */
+  onDone: () => void;
+}
+
+/**
+ * One-line event or task entry. The text is parsed as it is typed
+ * ("Lunch tomorrow 1pm-2pm @Work !high") and what was understood shows
+ * as chips under the input, so the user can see what Save will create.
+ */
+export function QuickAddForm({
+  defaultDate,
+  defaultTime,
+  initialType = 'event',
+  onDone,
+}: QuickAddFormProps) {
+  const userTimezone = useUserTimezone();
+  const { data: user } = useCurrentUser();
+  const { openEventDrawer, openTaskDrawer } = useUIStore();
+  const createEvent = useCreateEvent();
+  const createTask = useCreateTask();
+  const { data: categories = [] } = useCategories();
+
+  const [text, setText] = useState('');
+  const [itemType, setItemType] = useState<QuickAddItemType>(initialType);
+
+  const parsed = parseQuickAdd(text, {
+    timeZone: userTimezone,
+    weekStart: user?.weekStart === 1 ? 1 : 0,
+    categories,
+  });
+  const chips = quickAddChips(parsed, itemType, categories);
+
+  const defaultCategory = categories.find((c) => c.isDefault) ?? categories[0];
+  const categoryId = parsed.categoryId ?? defaultCategory?.id;
+
+  const eventDate = defaultDate ?? toZonedTime(new Date(), userTimezone);
+  const eventTimes = resolveEventTimes(parsed, eventDate, defaultTime);
+  const taskDue = resolveTaskDue(
+    parsed,
+    defaultDate ? format(defaultDate, 'yyyy-MM-dd') : null,
+    formatInTimeZone(new Date(), userTimezone, 'yyyy-MM-dd'),
+  );
+
+  const whenLabel =
+    itemType === 'event'
+      ? `${format(eventTimes.start, 'EEE, MMM d')} · ${
+          eventTimes.isAllDay
+            ? 'All day'
+            : `${format(eventTimes.start, 'h:mm a')} – ${format(eventTimes.end, 'h:mm a')}`
+        }`
+      : taskDue
+        ? `Due ${format(taskDue, parsed.startTime ? 'EEE, MMM d, h:mm a' : 'EEE, MMM d')}`
+        : 'No due date';
+
+  const handleSubmit = () => {
+    if (!parsed.title || !categoryId) return;
+
+    if (itemType === 'event') {
+      createEvent.mutate({
+        title: parsed.title,
+        startAt: fromZonedTime(eventTimes.start, userTimezone).toISOString(),
+        endAt: fromZonedTime(eventTimes.end, userTimezone).toISOString(),
+        timezone: eventTimes.isAllDay ? null : userTimezone,
+        isAllDay: eventTimes.isAllDay,
+        categoryId,
+        visibility: 'private',
+        rrule: parsed.rrule,
+      });
+    } else {
+      createTask.mutate({
+        title: parsed.title,
+        dueAt: taskDue ? fromZonedTime(taskDue, userTimezone).toISOString() : null,
+        priority: parsed.priority ?? 'none',
+        categoryId,
+        rrule: parsed.rrule,
+      });
+    }
+
+    onDone();
+  };
+
+  const handleMoreOptions = () => {
+    onDone();
+    if (itemType === 'event') {
+      openEventDrawer({ defaultDate: eventDate, defaultTime });
+    } else {
+      openTaskDrawer({ defaultDate });
+    }
+  };
+
+  const typeButtonClass = (type: QuickAddItemType) =>
+    cn(
+      'flex flex-1 items-center justify-center gap-1.5 rounded-[var(--radius-sm)] px-2 py-1.5 text-xs font-medium transition-colors',
+      itemType === type
+        ? 'bg-[var(--primary)] text-[var(--primary-foreground)]'
+        : 'bg-[var(--muted)] text-[var(--muted-foreground)] hover:bg-[var(--accent-ui)]',
+    );
+
+  return (
+    <>
+      {/* Title input, parsed as it is typed */}
+      <Input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        placeholder={itemType === 'event' ? 'Lunch tomorrow 1pm @Work' : 'Pay rent friday !high'}
+        className="mb-2 text-sm"
+        maxLength={200}
+        aria-label={itemType === 'event' ? 'Event title' : 'Task title'}
+      />
+
+      {/* Preview of what was understood */}
+      {chips.length > 0 && (
+        <ul className="mb-2 flex flex-wrap gap-1" aria-label="Parsed details" aria-live="polite">
+          {chips.map((chip) => (
+            <li
+              key={chip}
+              className="rounded-full bg-[var(--primary)]/10 px-2 py-0.5 text-xs text-[var(--primary)]"
+            >
+              {chip}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Type toggle */}
+      <div className="mb-2 flex gap-1">
+        <button
+          type="button"
+          className={typeButtonClass('event')}
+          onClick={() => setItemType('event')}
+        >
+          <CalendarDays className="h-3.5 w-3.5" />
+          Event
+        </button>
+        <button
+          type="button"
+          className={typeButtonClass('task')}
+          onClick={() => setItemType('task')}
+        >
+          <CheckSquare className="h-3.5 w-3.5" />
+          Task
+        </button>
+      </div>
+
+      {/* Time display */}
+      <div className="mb-3 text-xs text-[var(--muted-foreground)]">{whenLabel}</div>
+
+      {/* Actions */}
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          className="text-xs text-[var(--primary)] hover:underline"
+          onClick={handleMoreOptions}
+        >
+          More options
+        </button>
+        <Button size="sm" onClick={handleSubmit} disabled={!parsed.title}>
+          Save
+        </Button>
+      </div>
+    </>
+  );
+}
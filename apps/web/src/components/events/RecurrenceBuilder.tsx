@@ -1,8 +1,11 @@
 import { format, parseISO, set as setDateFields } from 'date-fns';
 import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { X } from 'lucide-react';
 import { useCallback, useMemo, useState } from 'react';
 import { RRule, Weekday } from 'rrule';
 
+import { MAX_RDATES } from '@calley/shared';
+
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import {
@@ -22,19 +25,33 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { useRecurrencePreview } from '@/hooks/use-events';
 import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { ApiError } from '@/lib/api-client';
+import {
+  buildDayPatternParts,
+  extraDatesToInstants,
+  getNthWeekdayInfo,
+  parseDayPattern,
+  SET_POS_DAYS,
+  SET_POSITIONS,
+} from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+
+import type { DayPattern, SetPosDays } from '@/lib/recurrence';
+import type { HolidayCalendar } from '@calley/shared';
 
 // ─── Types ─────────────────────────────────────────────────────────
 
 type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
 type EndType = 'never' | 'count' | 'until';
-type MonthlyMode = 'dayOfMonth' | 'nthWeekday';
+/** Repeat on a fixed schedule, or a set time after each completion (tasks only) */
+export type RepeatMode = 'schedule' | 'completion';
 
-interface RecurrenceState {
+interface RecurrenceState extends DayPattern {
   frequency: Frequency;
   interval: number;
   weekdays: number[]; // 0=Mon..6=Sun (rrule.js weekday order)
-  monthlyMode: MonthlyMode;
   endType: EndType;
   count: number;
   until: string; // YYYY-MM-DD
@@ -45,13 +62,44 @@ interface RecurrenceBuilderProps {
   onOpenChange: (open: boolean) => void;
   initialRrule?: string | null;
   startDate?: string; // YYYY-MM-DD — used for monthly "Nth weekday" and preview
-  onSave: (rrule: string) => void;
+  /** Start time (HH:mm) and timezone the preview is worked out in */
+  startTime?: string;
+  timezone?: string | null;
+  isAllDay?: boolean;
+  /** Offer one-off extra dates alongside the rule (RDATE) */
+  allowExtraDates?: boolean;
+  initialExtraDates?: string[]; // YYYY-MM-DD
+  /** Holiday calendar the series skips, left out of the preview */
+  skipHolidays?: HolidayCalendar | null;
+  /** Offer the "after each completion" mode */
+  allowAfterCompletion?: boolean;
+  initialMode?: RepeatMode;
+  onSave: (rrule: string, mode: RepeatMode, extraDates: string[]) => void;
 }
 
 // ─── Constants ─────────────────────────────────────────────────────
 
 const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
 
+const MONTH_LABELS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+const MONTH_DAYS = Array.from({ length: 31 }, (_, i) => i + 1);
+
+const PREVIEW_COUNT = 5;
+
 const FREQUENCY_LABELS: Record<Frequency, string> = {
   DAILY: 'day',
   WEEKLY: 'week',
@@ -101,13 +149,9 @@ function parseExistingRrule(rruleStr: string): Partial<RecurrenceState> {
       });
     }
 
-    // Parse monthly mode
-    if (result.frequency === 'MONTHLY' && options.byweekday) {
-      const bywd = Array.isArray(options.byweekday) ? options.byweekday : [options.byweekday];
-      const first = bywd[0];
-      if (first instanceof Weekday && first.n) {
-        result.monthlyMode = 'nthWeekday';
-      }
+    // Parse the monthly/yearly day pattern
+    if (result.frequency === 'MONTHLY' || result.frequency === 'YEARLY') {
+      Object.assign(result, parseDayPattern(rruleStr));
     }
 
     // Parse end condition
@@ -127,21 +171,34 @@ function parseExistingRrule(rruleStr: string): Partial<RecurrenceState> {
   }
 }
 
-function getNthWeekdayInfo(dateStr: string): { n: number; weekday: number } {
-  const date = parseISO(dateStr);
-  const dayOfMonth = date.getDate();
-  const weekday = date.getDay(); // 0=Sun..6=Sat
-  const n = Math.ceil(dayOfMonth / 7);
-
-  // Check if this is the last occurrence of this weekday in the month.
-  // If dayOfMonth + 7 exceeds the number of days in the month, it's the last.
-  const year = date.getFullYear();
-  const month = date.getMonth();
-  const daysInMonth = new Date(year, month + 1, 0).getDate();
-  const isLast = dayOfMonth + 7 > daysInMonth;
-
-  // Use -1 for "last" per iCalendar BYDAY semantics (e.g. -1MO = last Monday)
-  return { n: isLast && n >= 4 ? -1 : n, weekday };
+function getInitialState(
+  initialRrule: string | null | undefined,
+  startDate: string | undefined,
+): RecurrenceState {
+  const defaults: RecurrenceState = {
+    frequency: 'WEEKLY',
+    interval: 1,
+    weekdays: [],
+    monthlyMode: 'dayOfMonth',
+    monthDays: [startDate ? parseISO(startDate).getDate() : 1],
+    setPos: 1,
+    setPosDays: 'weekday',
+    months: [],
+    endType: 'never',
+    count: 10,
+    until: '',
+  };
+
+  if (initialRrule) {
+    return { ...defaults, ...parseExistingRrule(initialRrule) };
+  }
+  if (startDate) {
+    const date = parseISO(startDate);
+    const jsDay = date.getDay();
+    const rruleDay = jsDay === 0 ? 6 : jsDay - 1;
+    defaults.weekdays = [rruleDay];
+  }
+  return defaults;
 }
 
 function getOrdinalLabel(n: number): string {
@@ -150,6 +207,20 @@ function getOrdinalLabel(n: number): string {
   return ORDINAL_LABELS[n - 1];
 }
 
+function toggleButtonClass(selected: boolean, size = 'h-9 w-11'): string {
+  return cn(
+    'flex items-center justify-center rounded-[var(--radius)] border text-xs font-medium transition-colors',
+    size,
+    selected
+      ? 'border-[var(--primary)] bg-[var(--primary)] text-[var(--primary-foreground)]'
+      : 'border-[var(--input)] bg-[var(--background)] hover:bg-[var(--accent-ui)]',
+  );
+}
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
 // ─── Component ─────────────────────────────────────────────────────
 
 export function RecurrenceBuilderModal({
@@ -157,19 +228,26 @@ export function RecurrenceBuilderModal({
   onOpenChange,
   initialRrule,
   startDate,
+  startTime,
+  timezone,
+  isAllDay = false,
+  allowExtraDates = false,
+  initialExtraDates = [],
+  skipHolidays = null,
+  allowAfterCompletion = false,
+  initialMode = 'schedule',
   onSave,
 }: RecurrenceBuilderProps) {
   const userTimezone = useUserTimezone();
+  const previewTimeZone = timezone ?? userTimezone;
 
-  const [state, setState] = useState<RecurrenceState>(() => ({
-    frequency: 'WEEKLY',
-    interval: 1,
-    weekdays: [],
-    monthlyMode: 'dayOfMonth',
-    endType: 'never',
-    count: 10,
-    until: '',
-  }));
+  const [state, setState] = useState<RecurrenceState>(() =>
+    getInitialState(initialRrule, startDate),
+  );
+  const [mode, setMode] = useState<RepeatMode>(initialMode);
+  const isAfterCompletion = mode === 'completion';
+  const [extraDates, setExtraDates] = useState<string[]>(initialExtraDates);
+  const [pendingExtraDate, setPendingExtraDate] = useState('');
   const [validationError, setValidationError] = useState<string | null>(null);
 
   // Re-key to force reinitialization on each open
@@ -179,34 +257,16 @@ export function RecurrenceBuilderModal({
     (nextOpen: boolean) => {
       if (nextOpen) {
         // Initialize state when opening
-        const defaults: RecurrenceState = {
-          frequency: 'WEEKLY',
-          interval: 1,
-          weekdays: [],
-          monthlyMode: 'dayOfMonth',
-          endType: 'never',
-          count: 10,
-          until: '',
-        };
-
-        if (initialRrule) {
-          const parsed = parseExistingRrule(initialRrule);
-          setState({ ...defaults, ...parsed });
-        } else {
-          if (startDate) {
-            const date = parseISO(startDate);
-            const jsDay = date.getDay();
-            const rruleDay = jsDay === 0 ? 6 : jsDay - 1;
-            defaults.weekdays = [rruleDay];
-          }
-          setState(defaults);
-        }
+        setState(getInitialState(initialRrule, startDate));
+        setMode(initialMode);
+        setExtraDates(initialExtraDates);
+        setPendingExtraDate('');
         setValidationError(null);
         setOpenKey((k) => k + 1);
       }
       onOpenChange(nextOpen);
     },
-    [initialRrule, startDate, onOpenChange],
+    [initialRrule, startDate, initialMode, initialExtraDates, onOpenChange],
   );
 
   // ─── State updaters ──────────────────────────────────────────────
@@ -229,6 +289,14 @@ export function RecurrenceBuilderModal({
     setValidationError(null);
   }, []);
 
+  const addExtraDate = useCallback(() => {
+    if (!pendingExtraDate) return;
+    setExtraDates((prev) =>
+      prev.includes(pendingExtraDate) ? prev : [...prev, pendingExtraDate].sort(),
+    );
+    setPendingExtraDate('');
+  }, [pendingExtraDate]);
+
   // ─── Build RRULE ─────────────────────────────────────────────────
 
   const buildRrule = useCallback((): string | null => {
@@ -242,6 +310,9 @@ export function RecurrenceBuilderModal({
       parts.push(`INTERVAL=${state.interval}`);
     }
 
+    // After completion only counts from the completion date: no days, no end
+    if (isAfterCompletion) return parts.join(';');
+
     // Weekly: BYDAY
     if (state.frequency === 'WEEKLY' && state.weekdays.length > 0) {
       const dayMap = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
@@ -249,12 +320,8 @@ export function RecurrenceBuilderModal({
       parts.push(`BYDAY=${sorted.map((d) => dayMap[d]).join(',')}`);
     }
 
-    // Monthly
-    if (state.frequency === 'MONTHLY' && state.monthlyMode === 'nthWeekday' && startDate) {
-      const { n, weekday } = getNthWeekdayInfo(startDate);
-      const dayMap = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
-      parts.push(`BYDAY=${n}${dayMap[weekday]}`);
-    }
+    // Monthly and yearly: which day (and month)
+    parts.push(...buildDayPatternParts(state.frequency, state, startDate));
 
     // End condition
     if (state.endType === 'count') {
@@ -272,37 +339,63 @@ export function RecurrenceBuilderModal({
     }
 
     return parts.join(';');
-  }, [state, startDate, userTimezone]);
-
-  // ─── Preview (next 5 occurrences) ────────────────────────────────
-
-  const previewDates = useMemo(() => {
-    const rruleStr = buildRrule();
-    if (!rruleStr || !startDate) return [];
-
-    try {
-      const dtstart = parseISO(startDate);
-      const utcStart = fromZonedTime(dtstart, userTimezone);
-      const dtstartStr = formatInTimeZone(utcStart, 'UTC', "yyyyMMdd'T'HHmmss'Z'");
-      const rule = RRule.fromString(`DTSTART:${dtstartStr}\nRRULE:${rruleStr}`);
-      const dates = rule.all((_, i) => i < 5);
-      return dates.map((d) => format(d, 'EEE, MMM d, yyyy'));
-    } catch {
-      return [];
-    }
-  }, [buildRrule, startDate, userTimezone]);
+  }, [state, startDate, userTimezone, isAfterCompletion]);
+
+  // ─── Preview (next occurrences, from the server) ─────────────────
+
+  const previewTime = isAllDay || !startTime ? '00:00' : startTime;
+
+  const previewInput = useMemo(() => {
+    const rrule = buildRrule();
+    if (!rrule || !startDate || isAfterCompletion) return null;
+
+    return {
+      rrule,
+      startAt: fromZonedTime(
+        parseISO(`${startDate}T${previewTime}`),
+        previewTimeZone,
+      ).toISOString(),
+      timezone: isAllDay ? null : previewTimeZone,
+      isAllDay,
+      rDates: extraDatesToInstants(extraDates, previewTime, previewTimeZone),
+      skipHolidays,
+      count: PREVIEW_COUNT,
+    };
+  }, [
+    buildRrule,
+    startDate,
+    isAfterCompletion,
+    previewTime,
+    previewTimeZone,
+    isAllDay,
+    extraDates,
+    skipHolidays,
+  ]);
+
+  const { data: preview, error: previewError } = useRecurrencePreview(previewInput);
+
+  const previewDates =
+    previewInput && !previewError
+      ? (preview?.occurrences ?? []).map((d) =>
+          formatInTimeZone(
+            d,
+            previewTimeZone,
+            isAllDay || !startTime ? 'EEE, MMM d, yyyy' : 'EEE, MMM d, yyyy, h:mm a',
+          ),
+        )
+      : [];
 
   // ─── Validation & Submit ─────────────────────────────────────────
 
   const handleSave = useCallback(() => {
     // Validate weekly: at least one day
-    if (state.frequency === 'WEEKLY' && state.weekdays.length === 0) {
+    if (!isAfterCompletion && state.frequency === 'WEEKLY' && state.weekdays.length === 0) {
       setValidationError('Select at least one day of the week');
       return;
     }
 
     // Validate end date
-    if (state.endType === 'until') {
+    if (!isAfterCompletion && state.endType === 'until') {
       if (!state.until) {
         setValidationError('End date is required');
         return;
@@ -313,8 +406,29 @@ export function RecurrenceBuilderModal({
       }
     }
 
+    // Validate the monthly/yearly day pattern
+    const hasDayPattern = state.frequency === 'MONTHLY' || state.frequency === 'YEARLY';
+    if (
+      !isAfterCompletion &&
+      hasDayPattern &&
+      state.monthlyMode === 'monthDays' &&
+      state.monthDays.length === 0
+    ) {
+      setValidationError('Select at least one day of the month');
+      return;
+    }
+    if (
+      !isAfterCompletion &&
+      state.frequency === 'YEARLY' &&
+      state.monthlyMode === 'setPos' &&
+      state.months.length > 1
+    ) {
+      setValidationError('Pick a single month for this pattern');
+      return;
+    }
+
     // Validate count
-    if (state.endType === 'count' && (state.count < 1 || state.count > 999)) {
+    if (!isAfterCompletion && state.endType === 'count' && (state.count < 1 || state.count > 999)) {
       setValidationError('Occurrences must be between 1 and 999');
       return;
     }
@@ -327,10 +441,10 @@ export function RecurrenceBuilderModal({
 
     const rrule = buildRrule();
     if (rrule) {
-      onSave(rrule);
+      onSave(rrule, mode, isAfterCompletion ? [] : extraDates);
       onOpenChange(false);
     }
-  }, [state, startDate, buildRrule, onSave, onOpenChange]);
+  }, [state, startDate, buildRrule, isAfterCompletion, mode, extraDates, onSave, onOpenChange]);
 
   // ─── Monthly info based on start date ────────────────────────────
 
@@ -357,6 +471,32 @@ export function RecurrenceBuilderModal({
         </DialogHeader>
 
         <div className="space-y-5 py-2">
+          {/* Schedule vs after completion */}
+          {allowAfterCompletion && (
+            <div className="space-y-2">
+              <Label>Repeat from</Label>
+              <div className="space-y-2">
+                <label className="flex cursor-pointer items-center gap-2">
+                  <Checkbox
+                    checked={mode === 'schedule'}
+                    onCheckedChange={() => setMode('schedule')}
+                  />
+                  <span className="text-sm">A fixed schedule</span>
+                </label>
+                <label className="flex cursor-pointer items-center gap-2">
+                  <Checkbox
+                    checked={mode === 'completion'}
+                    onCheckedChange={() => {
+                      setMode('completion');
+                      setValidationError(null);
+                    }}
+                  />
+                  <span className="text-sm">The date it was completed</span>
+                </label>
+              </div>
+            </div>
+          )}
+
           {/* Frequency + Interval */}
           <div className="space-y-1.5">
             <Label>Repeat every</Label>
@@ -399,8 +539,18 @@ export function RecurrenceBuilderModal({
             </div>
           </div>
 
+          {isAfterCompletion && (
+            <p className="text-sm text-[var(--muted-foreground)]">
+              Completing the task moves its due date to {state.interval}{' '}
+              {state.interval > 1
+                ? FREQUENCY_LABELS_PLURAL[state.frequency]
+                : FREQUENCY_LABELS[state.frequency]}{' '}
+              after the day it was done.
+            </p>
+          )}
+
           {/* Weekly: Day-of-week checkboxes */}
-          {state.frequency === 'WEEKLY' && (
+          {!isAfterCompletion && state.frequency === 'WEEKLY' && (
             <div className="space-y-1.5">
               <Label>Repeat on</Label>
               <div className="flex flex-wrap gap-1.5">
@@ -409,11 +559,7 @@ export function RecurrenceBuilderModal({
                     key={label}
                     type="button"
                     onClick={() => toggleWeekday(index)}
-                    className={`flex h-9 w-11 items-center justify-center rounded-[var(--radius)] border text-xs font-medium transition-colors ${
-                      state.weekdays.includes(index)
-                        ? 'border-[var(--primary)] bg-[var(--primary)] text-[var(--primary-foreground)]'
-                        : 'border-[var(--input)] bg-[var(--background)] hover:bg-[var(--accent-ui)]'
-                    }`}
+                    className={toggleButtonClass(state.weekdays.includes(index))}
                     aria-label={label}
                     aria-pressed={state.weekdays.includes(index)}
                   >
@@ -424,91 +570,248 @@ export function RecurrenceBuilderModal({
             </div>
           )}
 
-          {/* Monthly: day-of-month vs Nth weekday */}
-          {state.frequency === 'MONTHLY' && monthlyInfo && (
-            <div className="space-y-2">
-              <Label>Repeat on</Label>
+          {/* Yearly: which months */}
+          {!isAfterCompletion && state.frequency === 'YEARLY' && (
+            <div className="space-y-1.5">
+              <Label>In</Label>
+              <div className="grid grid-cols-6 gap-1.5">
+                {MONTH_LABELS.map((label, index) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => updateField('months', toggleValue(state.months, index + 1))}
+                    className={toggleButtonClass(state.months.includes(index + 1), 'h-8')}
+                    aria-label={label}
+                    aria-pressed={state.months.includes(index + 1)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {state.months.length === 0 && (
+                <p className="text-xs text-[var(--muted-foreground)]">
+                  Repeats in the start date&apos;s month
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Monthly and yearly: which day */}
+          {!isAfterCompletion &&
+            (state.frequency === 'MONTHLY' || state.frequency === 'YEARLY') &&
+            monthlyInfo && (
               <div className="space-y-2">
+                <Label>Repeat on</Label>
+                <div className="space-y-2">
+                  <label className="flex cursor-pointer items-center gap-2">
+                    <Checkbox
+                      checked={state.monthlyMode === 'dayOfMonth'}
+                      onCheckedChange={() => updateField('monthlyMode', 'dayOfMonth')}
+                    />
+                    <span className="text-sm">Day {monthlyInfo.dayOfMonth} of the month</span>
+                  </label>
+                  <label className="flex cursor-pointer items-center gap-2">
+                    <Checkbox
+                      checked={state.monthlyMode === 'nthWeekday'}
+                      onCheckedChange={() => updateField('monthlyMode', 'nthWeekday')}
+                    />
+                    <span className="text-sm">
+                      The {monthlyInfo.ordinal} {monthlyInfo.dayName}
+                    </span>
+                  </label>
+                  <label className="flex cursor-pointer items-center gap-2">
+                    <Checkbox
+                      checked={state.monthlyMode === 'monthDays'}
+                      onCheckedChange={() => updateField('monthlyMode', 'monthDays')}
+                    />
+                    <span className="text-sm">Specific days of the month</span>
+                  </label>
+                  {state.monthlyMode === 'monthDays' && (
+                    <div className="grid grid-cols-7 gap-1 pl-6">
+                      {MONTH_DAYS.map((day) => (
+                        <button
+                          key={day}
+                          type="button"
+                          onClick={() =>
+                            updateField('monthDays', toggleValue(state.monthDays, day))
+                          }
+                          className={toggleButtonClass(state.monthDays.includes(day), 'h-8')}
+                          aria-pressed={state.monthDays.includes(day)}
+                        >
+                          {day}
+                        </button>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => updateField('monthDays', toggleValue(state.monthDays, -1))}
+                        className={cn(
+                          toggleButtonClass(state.monthDays.includes(-1), 'h-8'),
+                          'col-span-3',
+                        )}
+                        aria-pressed={state.monthDays.includes(-1)}
+                      >
+                        Last day
+                      </button>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Checkbox
+                      checked={state.monthlyMode === 'setPos'}
+                      onCheckedChange={() => updateField('monthlyMode', 'setPos')}
+                      aria-label="A day picked by position"
+                    />
+                    <span className="text-sm">The</span>
+                    <Select
+                      value={String(state.setPos)}
+                      onValueChange={(v) => {
+                        updateField('monthlyMode', 'setPos');
+                        updateField('setPos', Number(v));
+                      }}
+                    >
+                      <SelectTrigger className="w-28" aria-label="Position">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SET_POSITIONS.map((p) => (
+                          <SelectItem key={p.value} value={String(p.value)}>
+                            {p.label.toLowerCase()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={state.setPosDays}
+                      onValueChange={(v) => {
+                        updateField('monthlyMode', 'setPos');
+                        updateField('setPosDays', v as SetPosDays);
+                      }}
+                    >
+                      <SelectTrigger className="w-36" aria-label="Day">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SET_POS_DAYS.map((o) => (
+                          <SelectItem key={o.value} value={o.value}>
+                            {o.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+            )}
+
+          {/* End condition */}
+          {!isAfterCompletion && (
+            <div className="space-y-2">
+              <Label>Ends</Label>
+              <div className="space-y-2.5">
+                {/* Never */}
                 <label className="flex cursor-pointer items-center gap-2">
                   <Checkbox
-                    checked={state.monthlyMode === 'dayOfMonth'}
-                    onCheckedChange={() => updateField('monthlyMode', 'dayOfMonth')}
+                    checked={state.endType === 'never'}
+                    onCheckedChange={() => updateField('endType', 'never')}
                   />
-                  <span className="text-sm">Day {monthlyInfo.dayOfMonth} of the month</span>
+                  <span className="text-sm">Never</span>
                 </label>
-                <label className="flex cursor-pointer items-center gap-2">
+
+                {/* After N occurrences */}
+                <div className="flex items-center gap-2">
                   <Checkbox
-                    checked={state.monthlyMode === 'nthWeekday'}
-                    onCheckedChange={() => updateField('monthlyMode', 'nthWeekday')}
+                    checked={state.endType === 'count'}
+                    onCheckedChange={() => updateField('endType', 'count')}
                   />
-                  <span className="text-sm">
-                    The {monthlyInfo.ordinal} {monthlyInfo.dayName}
-                  </span>
-                </label>
+                  <span className="text-sm">After</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={999}
+                    value={state.endType === 'count' ? state.count : ''}
+                    onChange={(e) => {
+                      updateField('endType', 'count');
+                      updateField('count', Math.max(1, Math.min(999, Number(e.target.value) || 1)));
+                    }}
+                    className="w-20"
+                    aria-label="Number of occurrences"
+                    disabled={state.endType !== 'count'}
+                  />
+                  <span className="text-sm">occurrences</span>
+                </div>
+
+                {/* On date */}
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    checked={state.endType === 'until'}
+                    onCheckedChange={() => updateField('endType', 'until')}
+                  />
+                  <span className="text-sm">On</span>
+                  <Input
+                    type="date"
+                    value={state.endType === 'until' ? state.until : ''}
+                    onChange={(e) => {
+                      updateField('endType', 'until');
+                      updateField('until', e.target.value);
+                    }}
+                    className="w-40"
+                    aria-label="End date"
+                    disabled={state.endType !== 'until'}
+                    min={startDate ?? undefined}
+                  />
+                </div>
               </div>
             </div>
           )}
 
-          {/* End condition */}
-          <div className="space-y-2">
-            <Label>Ends</Label>
-            <div className="space-y-2.5">
-              {/* Never */}
-              <label className="flex cursor-pointer items-center gap-2">
-                <Checkbox
-                  checked={state.endType === 'never'}
-                  onCheckedChange={() => updateField('endType', 'never')}
-                />
-                <span className="text-sm">Never</span>
-              </label>
-
-              {/* After N occurrences */}
-              <div className="flex items-center gap-2">
-                <Checkbox
-                  checked={state.endType === 'count'}
-                  onCheckedChange={() => updateField('endType', 'count')}
-                />
-                <span className="text-sm">After</span>
-                <Input
-                  type="number"
-                  min={1}
-                  max={999}
-                  value={state.endType === 'count' ? state.count : ''}
-                  onChange={(e) => {
-                    updateField('endType', 'count');
-                    updateField('count', Math.max(1, Math.min(999, Number(e.target.value) || 1)));
-                  }}
-                  className="w-20"
-                  aria-label="Number of occurrences"
-                  disabled={state.endType !== 'count'}
-                />
-                <span className="text-sm">occurrences</span>
-              </div>
-
-              {/* On date */}
+          {/* Extra dates */}
+          {allowExtraDates && !isAfterCompletion && (
+            <div className="space-y-1.5">
+              <Label htmlFor="recurrence-extra-date">Also on</Label>
+              {extraDates.length > 0 && (
+                <ul className="flex flex-wrap gap-1.5" aria-label="Extra dates">
+                  {extraDates.map((date) => (
+                    <li
+                      key={date}
+                      className="inline-flex items-center gap-1 rounded-full border border-[var(--border)] px-2 py-0.5 text-xs"
+                    >
+                      {format(parseISO(date), 'EEE, MMM d, yyyy')}
+                      <button
+                        type="button"
+                        className="rounded p-0.5 text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                        onClick={() => setExtraDates((prev) => prev.filter((d) => d !== date))}
+                        aria-label={`Remove ${date}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
               <div className="flex items-center gap-2">
-                <Checkbox
-                  checked={state.endType === 'until'}
-                  onCheckedChange={() => updateField('endType', 'until')}
-                />
-                <span className="text-sm">On</span>
                 <Input
+                  id="recurrence-extra-date"
                   type="date"
-                  value={state.endType === 'until' ? state.until : ''}
-                  onChange={(e) => {
-                    updateField('endType', 'until');
-                    updateField('until', e.target.value);
-                  }}
+                  value={pendingExtraDate}
+                  onChange={(e) => setPendingExtraDate(e.target.value)}
                   className="w-40"
-                  aria-label="End date"
-                  disabled={state.endType !== 'until'}
-                  min={startDate ?? undefined}
                 />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addExtraDate}
+                  disabled={!pendingExtraDate || extraDates.length >= MAX_RDATES}
+                >
+                  Add date
+                </Button>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Preview */}
+          {previewError instanceof ApiError && (
+            <p className="text-xs text-[var(--destructive)]">{previewError.error.message}</p>
+          )}
           {previewDates.length > 0 && (
             <div className="space-y-1.5">
               <Label className="text-[var(--muted-foreground)]">Next occurrences</Label>
@@ -0,0 +1,121 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { RotateCcw, X } from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useRestoreOccurrence, useSkipOccurrence } from '@/hooks/use-event-mutations';
+import { useRecurrencePreview } from '@/hooks/use-events';
+import { cn } from '@/lib/utils';
+
+import type { Event } from '@calley/shared';
+
+const PAGE_SIZE = 10;
+const MAX_COUNT = 50;
+
+interface SeriesOccurrencesProps {
+  event: Event;
+  /** The timezone the drawer shows the event's times in */
+  timeZone: string;
+}
+
+/**
+ * The upcoming occurrences of a saved series, as the server expands them,
+ * with skipped dates kept in the list so they can be brought back.
+ * Dates dropped for a holiday show its name instead.
+ * Skipping and restoring apply straight away rather than on Save.
+ */
+export function SeriesOccurrences({ event, timeZone }: SeriesOccurrencesProps) {
+  const [count, setCount] = useState(PAGE_SIZE);
+  const skipOccurrence = useSkipOccurrence();
+  const restoreOccurrence = useRestoreOccurrence();
+
+  const { data, isError } = useRecurrencePreview(
+    event.rrule
+      ? {
+          eventId: event.id,
+          rrule: event.rrule,
+          startAt: event.startAt,
+          timezone: event.timezone,
+          isAllDay: event.isAllDay,
+          rDates: event.rDates ?? [],
+          exDates: event.exDates,
+          skipHolidays: event.skipHolidays,
+          count,
+        }
+      : null,
+  );
+  const instances = data?.instances ?? [];
+  // A full page means the series may go on past it
+  const hasMore = (data?.occurrences.length ?? 0) >= count && count < MAX_COUNT;
+  const isPending = skipOccurrence.isPending || restoreOccurrence.isPending;
+
+  if (isError) return null;
+
+  return (
+    <div className="space-y-1.5">
+      <Label>Occurrences</Label>
+      <ul className="space-y-1 rounded-[var(--radius)] border border-[var(--border)] p-2">
+        {instances.map((instance) => (
+          <li key={instance.date} className="flex items-center gap-2 text-sm">
+            <span
+              className={cn(
+                'min-w-0 flex-1 truncate',
+                instance.skipped && 'text-[var(--muted-foreground)] line-through',
+              )}
+            >
+              {formatInTimeZone(
+                instance.date,
+                timeZone,
+                event.isAllDay ? 'EEE, MMM d, yyyy' : 'EEE, MMM d, yyyy · h:mm a',
+              )}
+            </span>
+            {instance.holiday ? (
+              <span className="shrink-0 truncate rounded-full bg-[var(--muted)] px-2 py-0.5 text-xs text-[var(--muted-foreground)]">
+                {instance.holiday}
+              </span>
+            ) : instance.skipped ? (
+              <span className="shrink-0 rounded-full bg-[var(--muted)] px-2 py-0.5 text-xs text-[var(--muted-foreground)]">
+                Skipped
+              </span>
+            ) : (
+              instance.overrides && (
+                <span className="shrink-0 rounded-full bg-[var(--primary)]/10 px-2 py-0.5 text-xs text-[var(--primary)]">
+                  Edited
+                </span>
+              )
+            )}
+            {/* A holiday stays skipped for as long as the series skips holidays */}
+            {!instance.holiday && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                disabled={isPending}
+                onClick={() =>
+                  (instance.skipped ? restoreOccurrence : skipOccurrence).mutate({
+                    eventId: event.id,
+                    instanceDate: instance.date,
+                  })
+                }
+                aria-label={instance.skipped ? 'Restore occurrence' : 'Skip occurrence'}
+              >
+                {instance.skipped ? <RotateCcw /> : <X />}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {hasMore && (
+        <button
+          type="button"
+          className="text-xs text-[var(--primary)] hover:underline"
+          onClick={() => setCount((c) => Math.min(c + PAGE_SIZE, MAX_COUNT))}
+        >
+          Show more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useMemo, useState } from 'react';
+
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatTimezoneLabel, getTimezoneList } from '@/lib/timezones';
+
+// Radix Select reserves '' for "no value", so the empty option needs a sentinel
+const EMPTY_VALUE = '_empty';
+
+interface TimezoneSelectProps {
+  id?: string;
+  value: string;
+  onValueChange: (value: string) => void;
+  /** When set, adds an option for the empty value ('') with this label */
+  emptyLabel?: string;
+}
+
+/**
+ * Searchable IANA timezone picker.
+ */
+export function TimezoneSelect({ id, value, onValueChange, emptyLabel }: TimezoneSelectProps) {
+  const timezones = useMemo(() => getTimezoneList(), []);
+  const [search, setSearch] = useState('');
+  const filteredTimezones = useMemo(() => {
+    if (!search) return timezones;
+    const lower = search.toLowerCase();
+    return timezones.filter((tz) => tz.toLowerCase().includes(lower));
+  }, [timezones, search]);
+
+  return (
+    <Select
+      value={value || (emptyLabel !== undefined ? EMPTY_VALUE : '')}
+      onValueChange={(v) => onValueChange(v === EMPTY_VALUE ? '' : v)}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select timezone" />
+      </SelectTrigger>
+      <SelectContent className="max-h-60">
+        <div className="px-2 pb-2">
+          <Input
+            placeholder="Search timezones..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="h-8"
+          />
+        </div>
+        {emptyLabel !== undefined && <SelectItem value={EMPTY_VALUE}>{emptyLabel}</SelectItem>}
+        {/* Keep the current value selectable even if the list doesn't include it */}
+        {value && !timezones.includes(value) && (
+          <SelectItem value={value}>{formatTimezoneLabel(value)}</SelectItem>
+        )}
+        {filteredTimezones.map((tz) => (
+          <SelectItem key={tz} value={tz}>
+            {formatTimezoneLabel(tz)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
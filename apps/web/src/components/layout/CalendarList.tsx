@@ -1,11 +1,12 @@
-import { Eye, EyeOff, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Eye, EyeOff, MoreHorizontal, Pencil, Plus, Share2, Trash2, X } from 'lucide-react';
 import { lazy, memo, Suspense, useCallback, useRef, useState } from 'react';
 
-import { DEFAULT_CATEGORY_COLOR } from '@calley/shared';
+import { DEFAULT_CATEGORY_COLOR, HOLIDAY_CALENDAR_LABELS, HOLIDAY_CALENDARS } from '@calley/shared';
 
 const ColorPicker = lazy(() =>
   import('@/components/calendar/ColorPicker').then((m) => ({ default: m.ColorPicker })),
 );
+import { HOLIDAY_COLOR } from '@/components/calendar/HolidayPill';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -17,6 +18,7 @@ import {
 } from '@/components/ui/dialog';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
@@ -27,7 +29,9 @@ import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/Popover';
 import { cn } from '@/lib/utils';
 
-import type { CalendarCategory } from '@calley/shared';
+import { ShareCalendarDialog } from './ShareCalendarDialog';
+
+import type { CalendarCategory, HolidayCalendar } from '@calley/shared';
 
 interface CalendarListProps {
   categories: CalendarCategory[];
@@ -36,6 +40,9 @@ interface CalendarListProps {
   onCreateCategory: (data: { name: string; color: string }) => void;
   onUpdateCategory: (categoryId: string, data: { name?: string; color?: string }) => void;
   onDeleteCategory: (categoryId: string) => void;
+  /** Built-in holiday calendars the user has turned on */
+  holidayCalendars: HolidayCalendar[];
+  onToggleHolidayCalendar: (calendar: HolidayCalendar) => void;
 }
 
 export const CalendarList = memo(function CalendarList({
@@ -45,11 +52,14 @@ export const CalendarList = memo(function CalendarList({
   onCreateCategory,
   onUpdateCategory,
   onDeleteCategory,
+  holidayCalendars,
+  onToggleHolidayCalendar,
 }: CalendarListProps) {
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [categoryToDelete, setCategoryToDelete] = useState<CalendarCategory | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [categoryToShare, setCategoryToShare] = useState<CalendarCategory | null>(null);
 
   // ─── Add Category Dialog State ─────────────────────────────────────
   const [newName, setNewName] = useState('');
@@ -237,6 +247,10 @@ export const CalendarList = memo(function CalendarList({
                       <Pencil className="mr-2 h-3.5 w-3.5" />
                       Edit
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setCategoryToShare(cat)}>
+                      <Share2 className="mr-2 h-3.5 w-3.5" />
+                      Share
+                    </DropdownMenuItem>
                     {!cat.isDefault && (
                       <>
                         <DropdownMenuSeparator />
@@ -257,6 +271,63 @@ export const CalendarList = memo(function CalendarList({
         })}
       </ul>
 
+      {/* ─── Holiday Calendars ────────────────────────────────────────── */}
+      <div className="mb-1 mt-3 flex items-center justify-between px-1">
+        <span className="text-xs font-semibold uppercase tracking-wider text-[var(--muted-foreground)]">
+          Holidays
+        </span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              aria-label="Choose holiday calendars"
+            >
+              <Plus className="h-3.5 w-3.5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-44">
+            {HOLIDAY_CALENDARS.map((calendar) => (
+              <DropdownMenuCheckboxItem
+                key={calendar}
+                checked={holidayCalendars.includes(calendar)}
+                onCheckedChange={() => onToggleHolidayCalendar(calendar)}
+              >
+                {HOLIDAY_CALENDAR_LABELS[calendar]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {holidayCalendars.length > 0 && (
+        <ul className="space-y-0.5">
+          {holidayCalendars.map((calendar) => (
+            <li
+              key={calendar}
+              className="group flex items-center gap-2 rounded-[var(--radius-sm)] px-2 py-1 text-sm"
+            >
+              <span
+                className="h-3 w-3 shrink-0 rounded-sm"
+                style={{ backgroundColor: HOLIDAY_COLOR }}
+                aria-hidden="true"
+              />
+              <span className="flex-1 truncate">{HOLIDAY_CALENDAR_LABELS[calendar]}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 opacity-0 transition-opacity group-hover:opacity-100"
+                onClick={() => onToggleHolidayCalendar(calendar)}
+                aria-label={`Remove ${HOLIDAY_CALENDAR_LABELS[calendar]} holidays`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* ─── Add Calendar Dialog ──────────────────────────────────────── */}
       <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
         <DialogContent className="sm:max-w-[380px]">
@@ -304,6 +375,15 @@ export const CalendarList = memo(function CalendarList({
         </DialogContent>
       </Dialog>
 
+      {/* ─── Share Dialog ─────────────────────────────────────────────── */}
+      {categoryToShare && (
+        <ShareCalendarDialog
+          category={categoryToShare}
+          open={!!categoryToShare}
+          onOpenChange={(open) => !open && setCategoryToShare(null)}
+        />
+      )}
+
       {/* ─── Delete Confirmation Dialog ───────────────────────────────── */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[380px]">
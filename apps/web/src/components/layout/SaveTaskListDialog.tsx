@@ -0,0 +1,220 @@
+import { fromZonedTime } from 'date-fns-tz';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCategories } from '@/hooks/use-categories';
+import { useTags } from '@/hooks/use-tags';
+import { useCreateTaskList } from '@/hooks/use-task-lists';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+
+import type { TaskList, TaskListFilters, TaskPriority, TaskStatus } from '@calley/shared';
+
+interface SaveTaskListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (list: TaskList) => void;
+}
+
+const ANY = 'all';
+
+/**
+ * Save a combination of task filters as a named list in the sidebar.
+ * Each filter offers one value; the due range is taken as whole days in
+ * the user's timezone.
+ */
+export function SaveTaskListDialog({ open, onOpenChange, onSaved }: SaveTaskListDialogProps) {
+  const userTimezone = useUserTimezone();
+  const { data: categories = [] } = useCategories();
+  const { data: tags = [] } = useTags();
+  const createTaskList = useCreateTaskList();
+
+  const [name, setName] = useState('');
+  const [status, setStatus] = useState(ANY);
+  const [priority, setPriority] = useState(ANY);
+  const [categoryId, setCategoryId] = useState(ANY);
+  const [tagId, setTagId] = useState(ANY);
+  const [dueFrom, setDueFrom] = useState('');
+  const [dueTo, setDueTo] = useState('');
+
+  const isRangeInvalid = !!dueFrom && !!dueTo && dueFrom > dueTo;
+
+  const reset = () => {
+    setName('');
+    setStatus(ANY);
+    setPriority(ANY);
+    setCategoryId(ANY);
+    setTagId(ANY);
+    setDueFrom('');
+    setDueTo('');
+  };
+
+  const handleSubmit = () => {
+    const trimmed = name.trim();
+    if (!trimmed || isRangeInvalid) return;
+
+    const filters: TaskListFilters = {};
+    if (status !== ANY) filters.status = [status as TaskStatus];
+    if (priority !== ANY) filters.priority = [priority as TaskPriority];
+    if (categoryId !== ANY) filters.categoryIds = [categoryId];
+    if (tagId !== ANY) filters.tagIds = [tagId];
+    if (dueFrom) {
+      filters.dueStart = fromZonedTime(`${dueFrom}T00:00:00`, userTimezone).toISOString();
+    }
+    if (dueTo) {
+      filters.dueEnd = fromZonedTime(`${dueTo}T23:59:59.999`, userTimezone).toISOString();
+    }
+
+    createTaskList.mutate(
+      { name: trimmed, filters },
+      {
+        onSuccess: (list) => {
+          reset();
+          onOpenChange(false);
+          onSaved?.(list);
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>New List</DialogTitle>
+          <DialogDescription>
+            Save a set of task filters to reopen from the sidebar.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="task-list-name">Name</Label>
+            <Input
+              id="task-list-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Urgent work"
+              maxLength={50}
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="task-list-status">Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger id="task-list-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any status</SelectItem>
+                  <SelectItem value="todo">To do</SelectItem>
+                  <SelectItem value="in_progress">In progress</SelectItem>
+                  <SelectItem value="done">Done</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-list-priority">Priority</Label>
+              <Select value={priority} onValueChange={setPriority}>
+                <SelectTrigger id="task-list-priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any priority</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="none">No priority</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-list-category">Calendar</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger id="task-list-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any calendar</SelectItem>
+                  {categories.map((cat) => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      {cat.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-list-tag">Tag</Label>
+              <Select value={tagId} onValueChange={setTagId}>
+                <SelectTrigger id="task-list-tag">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any tag</SelectItem>
+                  {tags.map((tag) => (
+                    <SelectItem key={tag.id} value={tag.id}>
+                      {tag.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-list-due-from">Due from</Label>
+              <Input
+                id="task-list-due-from"
+                type="date"
+                value={dueFrom}
+                onChange={(e) => setDueFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-list-due-to">Due until</Label>
+              <Input
+                id="task-list-due-to"
+                type="date"
+                value={dueTo}
+                onChange={(e) => setDueTo(e.target.value)}
+                aria-invalid={isRangeInvalid || undefined}
+              />
+            </div>
+          </div>
+          {isRangeInvalid && (
+            <p className="text-xs text-[var(--color-danger,#c0392b)]" role="alert">
+              The due range must end on or after its start.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!name.trim() || isRangeInvalid || createTaskList.isPending}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
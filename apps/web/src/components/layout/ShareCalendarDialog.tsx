@@ -0,0 +1,182 @@
+import { UserPlus, X } from 'lucide-react';
+import { useState } from 'react';
+
+import { createCalendarShareSchema } from '@calley/shared';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useCalendarShares,
+  useRemoveCalendarShare,
+  useShareCalendar,
+  useUpdateCalendarShare,
+} from '@/hooks/use-calendar-shares';
+
+import type { CalendarCategory, CalendarSharePermission } from '@calley/shared';
+
+const PERMISSION_LABELS: Record<CalendarSharePermission, string> = {
+  freebusy: 'Free/busy only',
+  read: 'See all details',
+  edit: 'Make changes',
+};
+
+const PERMISSIONS = Object.keys(PERMISSION_LABELS) as CalendarSharePermission[];
+
+interface ShareCalendarDialogProps {
+  category: CalendarCategory;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Invite other Calley users to a calendar and manage what each of them
+ * can see or change. Every change applies immediately.
+ */
+export function ShareCalendarDialog({ category, open, onOpenChange }: ShareCalendarDialogProps) {
+  const { data: shares = [] } = useCalendarShares(open ? category.id : null);
+  const shareCalendar = useShareCalendar(category.id);
+  const updateShare = useUpdateCalendarShare(category.id);
+  const removeShare = useRemoveCalendarShare(category.id);
+
+  const [email, setEmail] = useState('');
+  const [permission, setPermission] = useState<CalendarSharePermission>('read');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShare = () => {
+    const parsed = createCalendarShareSchema.safeParse({ email, permission });
+    if (!parsed.success) {
+      setError('Enter a valid email address');
+      return;
+    }
+    setError(null);
+    shareCalendar.mutate(parsed.data, {
+      onSuccess: () => setEmail(''),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Share &ldquo;{category.name}&rdquo;</DialogTitle>
+          <DialogDescription>
+            People you share with see this calendar alongside their own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="share-calendar-email">Add people</Label>
+          <div className="flex gap-2">
+            <Input
+              id="share-calendar-email"
+              type="email"
+              placeholder="Email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleShare();
+                }
+              }}
+              aria-invalid={!!error}
+            />
+            <Select
+              value={permission}
+              onValueChange={(value) => setPermission(value as CalendarSharePermission)}
+            >
+              <SelectTrigger className="w-[148px] shrink-0" aria-label="Permission">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERMISSIONS.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {PERMISSION_LABELS[p]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={handleShare}
+              disabled={!email.trim() || shareCalendar.isPending}
+              aria-label="Share calendar"
+            >
+              <UserPlus />
+            </Button>
+          </div>
+          {error && (
+            <p className="text-xs text-[var(--destructive)]" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+
+        {shares.length > 0 && (
+          <ul className="space-y-1.5">
+            {shares.map((share) => (
+              <li key={share.id} className="flex items-center gap-2 text-sm">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{share.memberName}</p>
+                  <p className="truncate text-xs text-[var(--muted-foreground)]">
+                    {share.memberEmail}
+                  </p>
+                </div>
+                <Select
+                  value={share.permission}
+                  onValueChange={(value) =>
+                    updateShare.mutate({
+                      shareId: share.id,
+                      data: { permission: value as CalendarSharePermission },
+                    })
+                  }
+                >
+                  <SelectTrigger
+                    className="h-8 w-[148px] shrink-0 text-xs"
+                    aria-label={`Permission for ${share.memberEmail}`}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PERMISSIONS.map((p) => (
+                      <SelectItem key={p} value={p}>
+                        {PERMISSION_LABELS[p]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => removeShare.mutate(share.id)}
+                  aria-label={`Stop sharing with ${share.memberEmail}`}
+                >
+                  <X />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
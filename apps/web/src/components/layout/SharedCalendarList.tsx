@@ -0,0 +1,102 @@
+import { Eye, EyeOff, LogOut, MoreHorizontal } from 'lucide-react';
+import { memo } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+
+import type { SharedCalendar } from '@calley/shared';
+
+interface SharedCalendarListProps {
+  sharedCalendars: SharedCalendar[];
+  hiddenCategoryIds: Set<string>;
+  onToggleVisibility: (categoryId: string) => void;
+  onLeave: (shareId: string) => void;
+}
+
+export const SharedCalendarList = memo(function SharedCalendarList({
+  sharedCalendars,
+  hiddenCategoryIds,
+  onToggleVisibility,
+  onLeave,
+}: SharedCalendarListProps) {
+  if (sharedCalendars.length === 0) return null;
+
+  return (
+    <div className="px-2 py-2">
+      <div className="mb-1 px-1">
+        <span className="text-xs font-semibold uppercase tracking-wider text-[var(--muted-foreground)]">
+          Shared with me
+        </span>
+      </div>
+
+      <ul className="space-y-0.5">
+        {sharedCalendars.map((cal) => {
+          const isHidden = hiddenCategoryIds.has(cal.categoryId);
+
+          return (
+            <li key={cal.shareId} className="group relative">
+              <button
+                className={cn(
+                  'flex w-full items-center gap-2 rounded-[var(--radius-sm)] px-2 py-1 text-left text-sm transition-colors hover:bg-[var(--accent-ui)]',
+                  isHidden && 'opacity-50',
+                )}
+                onClick={() => onToggleVisibility(cal.categoryId)}
+                aria-label={`${isHidden ? 'Show' : 'Hide'} ${cal.name} calendar from ${cal.ownerName}`}
+              >
+                <span
+                  className="h-3 w-3 shrink-0 rounded-sm"
+                  style={{ backgroundColor: cal.color }}
+                  aria-hidden="true"
+                />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate">{cal.name}</span>
+                  <span className="block truncate text-xs text-[var(--muted-foreground)]">
+                    {cal.ownerName}
+                  </span>
+                </span>
+                <span className="opacity-0 transition-opacity group-hover:opacity-100">
+                  {isHidden ? (
+                    <EyeOff className="h-3.5 w-3.5 text-[var(--muted-foreground)]" />
+                  ) : (
+                    <Eye className="h-3.5 w-3.5 text-[var(--muted-foreground)]" />
+                  )}
+                </span>
+              </button>
+
+              <div className="absolute right-1 top-1/2 -translate-y-1/2 opacity-0 transition-opacity group-hover:opacity-100">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      onClick={(e) => e.stopPropagation()}
+                      aria-label={`${cal.name} options`}
+                    >
+                      <MoreHorizontal className="h-3.5 w-3.5" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-36">
+                    <DropdownMenuItem
+                      className="text-[var(--color-danger,#c0392b)]"
+                      onClick={() => onLeave(cal.shareId)}
+                    >
+                      <LogOut className="mr-2 h-3.5 w-3.5" />
+                      Remove
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+});
@@ -1,20 +1,29 @@
 import { AnimatePresence, motion, useReducedMotion } from 'framer-motion';
 import { Calendar } from 'lucide-react';
+import { useCallback } from 'react';
 
 import { Separator } from '@/components/ui/separator';
+import { useCurrentUser } from '@/hooks/use-auth';
+import { useUpdateProfile } from '@/hooks/use-settings';
 import { cn } from '@/lib/utils';
 import { useCalendarStore } from '@/stores/calendar-store';
 
 import { CalendarList } from './CalendarList';
 import { MiniCalendar } from './MiniCalendar';
+import { SharedCalendarList } from './SharedCalendarList';
+import { TaskLists } from './TaskLists';
 
-import type { CalendarCategory } from '@calley/shared';
+import type { CalendarCategory, HolidayCalendar, SharedCalendar } from '@calley/shared';
+
+const NO_HOLIDAY_CALENDARS: HolidayCalendar[] = [];
 
 interface SidebarProps {
   categories: CalendarCategory[];
   onCreateCategory: (data: { name: string; color: string }) => void;
   onUpdateCategory: (categoryId: string, data: { name?: string; color?: string }) => void;
   onDeleteCategory: (categoryId: string) => void;
+  sharedCalendars: SharedCalendar[];
+  onLeaveSharedCalendar: (shareId: string) => void;
 }
 
 export function Sidebar({
@@ -22,11 +31,27 @@ export function Sidebar({
   onCreateCategory,
   onUpdateCategory,
   onDeleteCategory,
+  sharedCalendars,
+  onLeaveSharedCalendar,
 }: SidebarProps) {
   const { isSidebarOpen, toggleSidebar, hiddenCategoryIds, toggleCategoryVisibility } =
     useCalendarStore();
   const prefersReducedMotion = useReducedMotion();
 
+  const { data: user } = useCurrentUser();
+  const updateProfile = useUpdateProfile();
+  const holidayCalendars = user?.holidayCalendars ?? NO_HOLIDAY_CALENDARS;
+  const handleToggleHolidayCalendar = useCallback(
+    (calendar: HolidayCalendar) => {
+      updateProfile.mutate({
+        holidayCalendars: holidayCalendars.includes(calendar)
+          ? holidayCalendars.filter((c) => c !== calendar)
+          : [...holidayCalendars, calendar],
+      });
+    },
+    [holidayCalendars, updateProfile],
+  );
+
   return (
     <>
       {/* Mobile overlay backdrop */}
@@ -68,6 +93,8 @@ export function Sidebar({
         >
           <MiniCalendar />
           <Separator />
+          <TaskLists />
+          <Separator />
           <CalendarList
             categories={categories}
             hiddenCategoryIds={hiddenCategoryIds}
@@ -75,6 +102,14 @@ export function Sidebar({
             onCreateCategory={onCreateCategory}
             onUpdateCategory={onUpdateCategory}
             onDeleteCategory={onDeleteCategory}
+            holidayCalendars={holidayCalendars}
+            onToggleHolidayCalendar={handleToggleHolidayCalendar}
+          />
+          <SharedCalendarList
+            sharedCalendars={sharedCalendars}
+            hiddenCategoryIds={hiddenCategoryIds}
+            onToggleVisibility={toggleCategoryVisibility}
+            onLeave={onLeaveSharedCalendar}
           />
         </div>
 
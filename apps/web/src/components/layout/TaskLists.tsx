@@ -0,0 +1,173 @@
+import {
+  AlertCircle,
+  CalendarClock,
+  CheckCircle2,
+  Filter,
+  Inbox,
+  Plus,
+  Sun,
+  Trash2,
+} from 'lucide-react';
+import { useState } from 'react';
+
+import { SMART_LIST_LABELS, SMART_LISTS } from '@calley/shared';
+
+import { Button } from '@/components/ui/button';
+import { useDeleteTaskList, useSmartListCounts, useTaskLists } from '@/hooks/use-task-lists';
+import { isSameTaskList } from '@/lib/task-lists';
+import { cn } from '@/lib/utils';
+import { useCalendarStore } from '@/stores/calendar-store';
+import { useUIStore } from '@/stores/ui-store';
+
+import { SaveTaskListDialog } from './SaveTaskListDialog';
+
+import type { ActiveTaskList } from '@/lib/task-lists';
+import type { SmartList } from '@calley/shared';
+import type { LucideIcon } from 'lucide-react';
+
+const SMART_LIST_ICONS: Record<SmartList, LucideIcon> = {
+  today: Sun,
+  upcoming: CalendarClock,
+  overdue: AlertCircle,
+  someday: Inbox,
+};
+
+const rowClass =
+  'flex w-full items-center gap-2 rounded-[var(--radius-sm)] px-2 py-1 text-left text-sm transition-colors hover:bg-[var(--accent-ui)]';
+
+/**
+ * Sidebar section with the built-in smart lists and their counts, followed
+ * by the user's saved filter lists. Picking a list shows it in the task
+ * panel; picking it again goes back to all tasks.
+ */
+export function TaskLists() {
+  const { data: counts } = useSmartListCounts();
+  const { data: savedLists = [] } = useTaskLists();
+  const deleteTaskList = useDeleteTaskList();
+  const activeTaskList = useCalendarStore((s) => s.activeTaskList);
+  const setActiveTaskList = useCalendarStore((s) => s.setActiveTaskList);
+  const setCompletedHistoryOpen = useUIStore((s) => s.setCompletedHistoryOpen);
+  const setTrashOpen = useUIStore((s) => s.setTrashOpen);
+
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+
+  const handleSelect = (list: ActiveTaskList) => {
+    setActiveTaskList(isSameTaskList(activeTaskList, list) ? null : list);
+  };
+
+  const handleDelete = (listId: string) => {
+    if (isSameTaskList(activeTaskList, { kind: 'saved', id: listId })) {
+      setActiveTaskList(null);
+    }
+    deleteTaskList.mutate(listId);
+  };
+
+  return (
+    <div className="px-2 py-2">
+      <div className="mb-1 flex items-center justify-between px-1">
+        <span className="text-xs font-semibold uppercase tracking-wider text-[var(--muted-foreground)]">
+          Lists
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5"
+          onClick={() => setSaveDialogOpen(true)}
+          aria-label="Add list"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <ul className="space-y-0.5">
+        {SMART_LISTS.map((list) => {
+          const Icon = SMART_LIST_ICONS[list];
+          const count = counts?.[list] ?? 0;
+          const isActive = isSameTaskList(activeTaskList, { kind: 'smart', list });
+          return (
+            <li key={list}>
+              <button
+                type="button"
+                className={cn(rowClass, isActive && 'bg-[var(--accent-ui)] font-medium')}
+                onClick={() => handleSelect({ kind: 'smart', list })}
+                aria-pressed={isActive}
+              >
+                <Icon
+                  className={cn(
+                    'h-3.5 w-3.5 shrink-0 text-[var(--muted-foreground)]',
+                    list === 'overdue' && count > 0 && 'text-[var(--color-danger,#c0392b)]',
+                  )}
+                  aria-hidden="true"
+                />
+                <span className="flex-1 truncate">{SMART_LIST_LABELS[list]}</span>
+                {count > 0 && (
+                  <span
+                    className="text-xs text-[var(--muted-foreground)]"
+                    aria-label={`${count} task${count !== 1 ? 's' : ''}`}
+                  >
+                    {count}
+                  </span>
+                )}
+              </button>
+            </li>
+          );
+        })}
+
+        {savedLists.map((list) => {
+          const isActive = isSameTaskList(activeTaskList, { kind: 'saved', id: list.id });
+          return (
+            <li key={list.id} className="group relative">
+              <button
+                type="button"
+                className={cn(rowClass, isActive && 'bg-[var(--accent-ui)] font-medium')}
+                onClick={() => handleSelect({ kind: 'saved', id: list.id })}
+                aria-pressed={isActive}
+              >
+                <Filter
+                  className="h-3.5 w-3.5 shrink-0 text-[var(--muted-foreground)]"
+                  aria-hidden="true"
+                />
+                <span className="flex-1 truncate">{list.name}</span>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-1 top-1/2 h-5 w-5 -translate-y-1/2 opacity-0 transition-opacity group-hover:opacity-100 focus-visible:opacity-100"
+                onClick={() => handleDelete(list.id)}
+                aria-label={`Delete ${list.name} list`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          );
+        })}
+
+        {/* Finished and deleted items open in their own dialogs */}
+        <li>
+          <button type="button" className={rowClass} onClick={() => setCompletedHistoryOpen(true)}>
+            <CheckCircle2
+              className="h-3.5 w-3.5 shrink-0 text-[var(--muted-foreground)]"
+              aria-hidden="true"
+            />
+            <span className="flex-1 truncate">Completed</span>
+          </button>
+        </li>
+        <li>
+          <button type="button" className={rowClass} onClick={() => setTrashOpen(true)}>
+            <Trash2
+              className="h-3.5 w-3.5 shrink-0 text-[var(--muted-foreground)]"
+              aria-hidden="true"
+            />
+            <span className="flex-1 truncate">Trash</span>
+          </button>
+        </li>
+      </ul>
+
+      <SaveTaskListDialog
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        onSaved={(list) => setActiveTaskList({ kind: 'saved', id: list.id })}
+      />
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ import { UserMenu } from './UserMenu';
 import { ViewSwitcher } from './ViewSwitcher';
 
 export function Topbar() {
-  const { toggleSidebar, toggleTaskPanel, isTaskPanelOpen } = useCalendarStore();
+  const { view, toggleSidebar, toggleTaskPanel, isTaskPanelOpen } = useCalendarStore();
   const { toggleSearch } = useUIStore();
 
   return (
@@ -42,7 +42,7 @@ export function Topbar() {
 
       {/* Center: Date Navigation + View Switcher */}
       <div className="flex flex-1 items-center justify-center gap-2 sm:gap-4">
-        <DateNavigator />
+        {view !== 'board' && <DateNavigator />}
         <ViewSwitcher />
       </div>
 
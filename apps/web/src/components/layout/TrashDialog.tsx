@@ -0,0 +1,149 @@
+import { format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { CalendarDays, CheckSquare, RotateCcw, Trash2 } from 'lucide-react';
+
+import { TRASH_RETENTION_DAYS } from '@calley/shared';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDeleteForever, useRestoreFromTrash, useTrash } from '@/hooks/use-trash';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { describePurge } from '@/lib/trash';
+import { useUIStore } from '@/stores/ui-store';
+
+import type { LucideIcon } from 'lucide-react';
+
+interface TrashRowProps {
+  icon: LucideIcon;
+  title: string;
+  detail: string;
+  purgeAt: string;
+  onRestore: () => void;
+  onDelete: () => void;
+}
+
+function TrashRow({ icon: Icon, title, detail, purgeAt, onRestore, onDelete }: TrashRowProps) {
+  return (
+    <li className="flex items-center gap-2 rounded-[var(--radius-sm)] px-1 py-1 text-sm hover:bg-[var(--accent-ui)]">
+      <Icon className="h-3.5 w-3.5 shrink-0 text-[var(--muted-foreground)]" aria-hidden="true" />
+      <div className="min-w-0 flex-1">
+        <div className="truncate">{title}</div>
+        <div className="text-xs text-[var(--muted-foreground)]">
+          {detail} · {describePurge(purgeAt)}
+        </div>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={onRestore}
+        aria-label={`Restore ${title}`}
+      >
+        <RotateCcw className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-[var(--color-danger,#c0392b)]"
+        onClick={onDelete}
+        aria-label={`Delete ${title} forever`}
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </li>
+  );
+}
+
+/**
+ * Deleted events and tasks, kept for a while before the cleanup job
+ * removes them. Each can be restored or deleted right away.
+ */
+export function TrashDialog() {
+  const open = useUIStore((s) => s.trashOpen);
+  const setOpen = useUIStore((s) => s.setTrashOpen);
+  const userTimezone = useUserTimezone();
+
+  const { data, isLoading } = useTrash(open);
+  const restore = useRestoreFromTrash();
+  const deleteForever = useDeleteForever();
+
+  const events = data?.events ?? [];
+  const tasks = data?.tasks ?? [];
+  const isEmpty = !isLoading && events.length === 0 && tasks.length === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {open && (
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              Deleted events and tasks can be restored for {TRASH_RETENTION_DAYS} days.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {isLoading && <p className="text-sm text-[var(--muted-foreground)]">Loading…</p>}
+            {isEmpty && <p className="text-sm text-[var(--muted-foreground)]">Trash is empty</p>}
+
+            {events.length > 0 && (
+              <section aria-label="Deleted events">
+                <h3 className="mb-1 text-xs font-semibold uppercase tracking-wider text-[var(--muted-foreground)]">
+                  Events
+                </h3>
+                <ul className="space-y-0.5">
+                  {events.map((event) => (
+                    <TrashRow
+                      key={event.id}
+                      icon={CalendarDays}
+                      title={event.title}
+                      detail={
+                        event.isAllDay
+                          ? format(parseISO(event.startAt.slice(0, 10)), 'MMM d, yyyy')
+                          : formatInTimeZone(event.startAt, userTimezone, 'MMM d, yyyy h:mm a')
+                      }
+                      purgeAt={event.purgeAt}
+                      onRestore={() => restore.mutate({ type: 'event', id: event.id })}
+                      onDelete={() => deleteForever.mutate({ type: 'event', id: event.id })}
+                    />
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {tasks.length > 0 && (
+              <section aria-label="Deleted tasks">
+                <h3 className="mb-1 text-xs font-semibold uppercase tracking-wider text-[var(--muted-foreground)]">
+                  Tasks
+                </h3>
+                <ul className="space-y-0.5">
+                  {tasks.map((task) => (
+                    <TrashRow
+                      key={task.id}
+                      icon={CheckSquare}
+                      title={task.title}
+                      detail={
+                        task.dueAt
+                          ? `Due ${formatInTimeZone(task.dueAt, userTimezone, 'MMM d, yyyy')}`
+                          : 'No due date'
+                      }
+                      purgeAt={task.purgeAt}
+                      onRestore={() => restore.mutate({ type: 'task', id: task.id })}
+                      onDelete={() => deleteForever.mutate({ type: 'task', id: task.id })}
+                    />
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ const views: { value: CalendarView; label: string; mobileOnly?: boolean }[] = [
   { value: 'week', label: 'Week' },
   { value: 'day', label: 'Day' },
   { value: 'agenda', label: 'Agenda' },
+  { value: 'board', label: 'Board' },
 ];
 
 export function ViewSwitcher() {
@@ -32,14 +32,16 @@ const SHORTCUT_GROUPS: { title: string; shortcuts: ShortcutEntry[] }[] = [
       { keys: ['W'], description: 'Week view' },
       { keys: ['D'], description: 'Day view' },
       { keys: ['A'], description: 'Agenda view' },
+      { keys: ['B'], description: 'Task board' },
     ],
   },
   {
     title: 'Actions',
     shortcuts: [
       { keys: ['⌘', 'K'], description: 'Open search' },
-      { keys: ['C'], description: 'Create new event' },
-      { keys: ['T'], description: 'Toggle task panel' },
+      { keys: ['C'], description: 'Quick add event' },
+      { keys: ['T'], description: 'Quick add task' },
+      { keys: ['⇧', 'T'], description: 'Toggle task panel' },
       { keys: ['Esc'], description: 'Close modal / drawer' },
     ],
   },
@@ -53,6 +55,17 @@ const SHORTCUT_GROUPS: { title: string; shortcuts: ShortcutEntry[] }[] = [
       { keys: ['Esc'], description: 'Cancel move' },
     ],
   },
+  {
+    title: 'Board',
+    shortcuts: [
+      { keys: ['⇧', 'Enter'], description: 'Pick up focused card (keyboard move)' },
+      { keys: ['←', '→'], description: 'Move card to previous / next column' },
+      { keys: ['↑', '↓'], description: 'Move card up / down within a column' },
+      { keys: ['⇧', '↑ / ↓'], description: 'Move card to previous / next swimlane' },
+      { keys: ['Enter'], description: 'Drop card' },
+      { keys: ['Esc'], description: 'Cancel move' },
+    ],
+  },
   {
     title: 'Help',
     shortcuts: [{ keys: ['?'], description: 'Show this help' }],
@@ -0,0 +1,423 @@
+import { CalendarCheck, Copy, Pencil, Plus, Trash2 } from 'lucide-react';
+import { memo, useCallback, useState } from 'react';
+import { toast } from 'sonner';
+
+import { createAppointmentTypeSchema } from '@calley/shared';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/Skeleton';
+import {
+  getBookingPageUrl,
+  useAppointmentTypes,
+  useCreateAppointmentType,
+  useDeleteAppointmentType,
+  useUpdateAppointmentType,
+} from '@/hooks/use-booking';
+import { useCategories } from '@/hooks/use-categories';
+
+import type { AppointmentType, CalendarCategory } from '@calley/shared';
+
+const DURATION_OPTIONS = [15, 20, 30, 45, 60, 90, 120];
+
+/** Form fields as typed; numbers are parsed on save */
+interface FormState {
+  name: string;
+  slug: string;
+  description: string;
+  location: string;
+  categoryId: string;
+  durationMinutes: number;
+  bufferMinutes: string;
+  minNoticeHours: string;
+  maxPerDay: string;
+  isActive: boolean;
+}
+
+/** Turn a name into a booking link, e.g. "Intro Call" → "intro-call" */
+function toSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+function toFormState(type: AppointmentType | null, defaultCategoryId: string): FormState {
+  return {
+    name: type?.name ?? '',
+    slug: type?.slug ?? '',
+    description: type?.description ?? '',
+    location: type?.location ?? '',
+    categoryId: type?.categoryId ?? defaultCategoryId,
+    durationMinutes: type?.durationMinutes ?? 30,
+    bufferMinutes: String(type?.bufferMinutes ?? 0),
+    minNoticeHours: String((type?.minNoticeMinutes ?? 60) / 60),
+    maxPerDay: type?.maxPerDay ? String(type.maxPerDay) : '',
+    isActive: type?.isActive ?? true,
+  };
+}
+
+// ─── Edit Dialog ────────────────────────────────────────────────────
+
+interface AppointmentTypeDialogProps {
+  /** The type being edited, or null to create one */
+  type: AppointmentType | null;
+  categories: CalendarCategory[];
+  onClose: () => void;
+}
+
+function AppointmentTypeDialog({ type, categories, onClose }: AppointmentTypeDialogProps) {
+  const createType = useCreateAppointmentType();
+  const updateType = useUpdateAppointmentType();
+
+  const defaultCategoryId = categories.find((c) => c.isDefault)?.id ?? categories[0]?.id ?? '';
+  const [form, setForm] = useState<FormState>(() => toFormState(type, defaultCategoryId));
+  // New pages follow the name until the link is edited by hand
+  const [slugEdited, setSlugEdited] = useState(type !== null);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((f) => ({ ...f, [key]: value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = createAppointmentTypeSchema.safeParse({
+      name: form.name,
+      slug: form.slug,
+      description: form.description.trim() || null,
+      location: form.location.trim() || null,
+      categoryId: form.categoryId,
+      durationMinutes: form.durationMinutes,
+      bufferMinutes: Number(form.bufferMinutes),
+      minNoticeMinutes: Math.round(Number(form.minNoticeHours) * 60),
+      maxPerDay: form.maxPerDay.trim() ? Number(form.maxPerDay) : null,
+      availability: type?.availability ?? null,
+      isActive: form.isActive,
+    });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Check the booking page details');
+      return;
+    }
+    setError(null);
+
+    if (type) {
+      updateType.mutate({ id: type.id, data: parsed.data }, { onSuccess: onClose });
+    } else {
+      createType.mutate(parsed.data, { onSuccess: onClose });
+    }
+  };
+
+  const isPending = createType.isPending || updateType.isPending;
+
+  return (
+    <DialogContent className="sm:max-w-[480px]">
+      <DialogHeader>
+        <DialogTitle>{type ? 'Edit booking page' : 'New booking page'}</DialogTitle>
+        <DialogDescription>
+          Visitors pick an open time within your working hours, and it&apos;s added to your
+          calendar.
+        </DialogDescription>
+      </DialogHeader>
+      <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+        <div className="space-y-1.5">
+          <Label htmlFor="appointment-name">Name</Label>
+          <Input
+            id="appointment-name"
+            value={form.name}
+            placeholder="Intro call"
+            onChange={(e) => {
+              set('name', e.target.value);
+              if (!slugEdited) set('slug', toSlug(e.target.value));
+            }}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="appointment-slug">Link</Label>
+          <div className="flex items-center gap-1 text-sm text-[var(--muted-foreground)]">
+            <span className="shrink-0">/book/</span>
+            <Input
+              id="appointment-slug"
+              value={form.slug}
+              onChange={(e) => {
+                setSlugEdited(true);
+                set('slug', e.target.value);
+              }}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="appointment-duration">Duration</Label>
+            <Select
+              value={String(form.durationMinutes)}
+              onValueChange={(value) => set('durationMinutes', Number(value))}
+            >
+              <SelectTrigger id="appointment-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[
+                  ...new Set([...DURATION_OPTIONS, form.durationMinutes].sort((a, b) => a - b)),
+                ].map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes} minutes
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="appointment-calendar">Calendar</Label>
+            <Select value={form.categoryId} onValueChange={(value) => set('categoryId', value)}>
+              <SelectTrigger id="appointment-calendar">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="appointment-location">Location</Label>
+          <Input
+            id="appointment-location"
+            value={form.location}
+            placeholder="Video call link or address"
+            onChange={(e) => set('location', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="appointment-description">Description</Label>
+          <textarea
+            id="appointment-description"
+            className="flex min-h-[60px] w-full rounded-[var(--radius)] border border-[var(--input)] bg-[var(--background)] px-3 py-2 text-sm ring-offset-[var(--background)] placeholder:text-[var(--muted-foreground)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--ring)] focus-visible:ring-offset-2"
+            value={form.description}
+            onChange={(e) => set('description', e.target.value)}
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="appointment-buffer">Buffer (min)</Label>
+            <Input
+              id="appointment-buffer"
+              type="number"
+              min={0}
+              value={form.bufferMinutes}
+              onChange={(e) => set('bufferMinutes', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="appointment-notice">Notice (hours)</Label>
+            <Input
+              id="appointment-notice"
+              type="number"
+              min={0}
+              step={0.5}
+              value={form.minNoticeHours}
+              onChange={(e) => set('minNoticeHours', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="appointment-max">Max per day</Label>
+            <Input
+              id="appointment-max"
+              type="number"
+              min={1}
+              placeholder="No limit"
+              value={form.maxPerDay}
+              onChange={(e) => set('maxPerDay', e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="appointment-active"
+            checked={form.isActive}
+            onCheckedChange={(checked) => set('isActive', checked === true)}
+          />
+          <Label htmlFor="appointment-active" className="cursor-pointer">
+            Taking bookings
+          </Label>
+        </div>
+        {error && (
+          <p className="text-sm text-[var(--color-danger)]" role="alert">
+            {error}
+          </p>
+        )}
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isPending}>
+            {isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </form>
+    </DialogContent>
+  );
+}
+
+// ─── Main Component ─────────────────────────────────────────────────
+
+/**
+ * Public booking pages: each appointment type gets a link where visitors
+ * can book an open slot in the owner's calendar.
+ */
+export const AppointmentTypeSettings = memo(function AppointmentTypeSettings() {
+  const { data: types, isLoading } = useAppointmentTypes();
+  const { data: categories = [] } = useCategories();
+  const deleteType = useDeleteAppointmentType();
+
+  // undefined = closed, null = creating
+  const [editing, setEditing] = useState<AppointmentType | null | undefined>(undefined);
+  const [deleteTarget, setDeleteTarget] = useState<AppointmentType | null>(null);
+
+  const handleCopy = useCallback(async (slug: string) => {
+    try {
+      await navigator.clipboard.writeText(getBookingPageUrl(slug));
+      toast.success('Link copied');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  }, []);
+
+  const handleConfirmDelete = useCallback(() => {
+    if (!deleteTarget) return;
+    deleteType.mutate(deleteTarget.id);
+    setDeleteTarget(null);
+  }, [deleteType, deleteTarget]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Booking pages</h2>
+          <p className="text-sm text-[var(--muted-foreground)]">
+            Share a link so others can book time with you. Open slots follow your working hours and
+            skip anything already in your calendar.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setEditing(null)}>
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          New
+        </Button>
+      </div>
+
+      <Separator />
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-[var(--radius)]" />
+          ))}
+        </div>
+      ) : !types?.length ? (
+        <p className="text-sm text-[var(--muted-foreground)]">No booking pages yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {types.map((type) => (
+            <div
+              key={type.id}
+              className="flex items-center justify-between rounded-[var(--radius)] border border-[var(--border)] px-4 py-3"
+            >
+              <div className="flex min-w-0 items-center gap-3">
+                <CalendarCheck className="h-4 w-4 shrink-0 text-[var(--muted-foreground)]" />
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{type.name}</p>
+                  <p className="truncate text-xs text-[var(--muted-foreground)]">
+                    /book/{type.slug} · {type.durationMinutes} min
+                    {!type.isActive && ' · Paused'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCopy(type.slug)}
+                  aria-label={`Copy link to ${type.name}`}
+                >
+                  <Copy className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditing(type)}
+                  aria-label={`Edit ${type.name}`}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDeleteTarget(type)}
+                  className="text-[var(--color-danger)]"
+                  aria-label={`Delete ${type.name}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={editing !== undefined} onOpenChange={(open) => !open && setEditing(undefined)}>
+        {editing !== undefined && (
+          <AppointmentTypeDialog
+            key={editing?.id ?? 'new'}
+            type={editing}
+            categories={categories}
+            onClose={() => setEditing(undefined)}
+          />
+        )}
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Delete booking page</DialogTitle>
+            <DialogDescription>
+              The link will stop working. Appointments already booked stay in your calendar.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
@@ -0,0 +1,263 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, KeyRound, Plus, Trash2 } from 'lucide-react';
+import { memo, useCallback, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/Skeleton';
+import {
+  CALDAV_URL,
+  useAppPasswords,
+  useCreateAppPassword,
+  useRevokeAppPassword,
+} from '@/hooks/use-app-passwords';
+import { useCurrentUser } from '@/hooks/use-auth';
+
+import type { AppPassword, AppPasswordWithSecret } from '@calley/shared';
+
+// ─── Copyable Field ─────────────────────────────────────────────────
+
+interface CopyFieldProps {
+  label: string;
+  value: string;
+}
+
+const CopyField = memo(function CopyField({ label, value }: CopyFieldProps) {
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(`${label} copied`);
+    } catch {
+      toast.error(`Failed to copy ${label.toLowerCase()}`);
+    }
+  }, [label, value]);
+
+  return (
+    <div className="space-y-1.5">
+      <Label>{label}</Label>
+      <div className="flex items-center gap-2">
+        <Input readOnly value={value} onFocus={(e) => e.target.select()} aria-label={label} />
+        <Button variant="outline" size="sm" onClick={handleCopy} aria-label={`Copy ${label}`}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+// ─── App Password Item ──────────────────────────────────────────────
+
+interface AppPasswordItemProps {
+  appPassword: AppPassword;
+  onRevoke: (appPassword: AppPassword) => void;
+  isPending: boolean;
+}
+
+const AppPasswordItem = memo(function AppPasswordItem({
+  appPassword,
+  onRevoke,
+  isPending,
+}: AppPasswordItemProps) {
+  return (
+    <div className="flex items-center justify-between rounded-[var(--radius)] border border-[var(--border)] px-4 py-3">
+      <div className="flex items-center gap-3">
+        <KeyRound className="h-4 w-4 text-[var(--muted-foreground)]" />
+        <div>
+          <p className="text-sm font-medium">{appPassword.name}</p>
+          <p className="text-xs text-[var(--muted-foreground)]">
+            {appPassword.lastUsedAt
+              ? `Last used ${formatDistanceToNow(new Date(appPassword.lastUsedAt), { addSuffix: true })}`
+              : 'Never used'}
+          </p>
+        </div>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onRevoke(appPassword)}
+        disabled={isPending}
+        className="text-[var(--color-danger)]"
+      >
+        <Trash2 className="mr-1 h-3.5 w-3.5" />
+        Revoke
+      </Button>
+    </div>
+  );
+});
+
+// ─── Main Component ─────────────────────────────────────────────────
+
+export const CalDavSettings = memo(function CalDavSettings() {
+  const { data: user } = useCurrentUser();
+  const { data: appPasswords = [], isLoading } = useAppPasswords();
+  const createAppPassword = useCreateAppPassword();
+  const revokeAppPassword = useRevokeAppPassword();
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  // The password is only returned once, right after creation
+  const [issued, setIssued] = useState<AppPasswordWithSecret | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<AppPassword | null>(null);
+
+  const handleOpenCreate = useCallback(() => {
+    setName('');
+    setIsCreateOpen(true);
+  }, []);
+
+  const handleCreate = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      const trimmed = name.trim();
+      if (!trimmed) return;
+
+      createAppPassword.mutate(
+        { name: trimmed },
+        {
+          onSuccess: (created) => {
+            setIsCreateOpen(false);
+            setIssued(created);
+          },
+        },
+      );
+    },
+    [createAppPassword, name],
+  );
+
+  const handleConfirmRevoke = useCallback(() => {
+    if (!revokeTarget) return;
+    revokeAppPassword.mutate(revokeTarget.id);
+    setRevokeTarget(null);
+  }, [revokeAppPassword, revokeTarget]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">CalDAV sync</h2>
+        <p className="text-sm text-[var(--muted-foreground)]">
+          Sync events and tasks both ways with Apple Calendar, Thunderbird, DAVx⁵ and other CalDAV
+          apps. Sign in with your email and an app password — your account password won&apos;t work.
+        </p>
+      </div>
+
+      <Separator />
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <CopyField label="Server URL" value={CALDAV_URL} />
+        <CopyField label="Username" value={user?.email ?? ''} />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium">App passwords</h3>
+          <Button variant="outline" size="sm" onClick={handleOpenCreate}>
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            New app password
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-16 w-full rounded-[var(--radius)]" />
+            ))}
+          </div>
+        ) : appPasswords.length === 0 ? (
+          <p className="text-sm text-[var(--muted-foreground)]">
+            Create an app password for each device you sync.
+          </p>
+        ) : (
+          appPasswords.map((appPassword) => (
+            <AppPasswordItem
+              key={appPassword.id}
+              appPassword={appPassword}
+              onRevoke={setRevokeTarget}
+              isPending={revokeAppPassword.isPending}
+            />
+          ))
+        )}
+      </div>
+
+      {/* Create Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>New app password</DialogTitle>
+              <DialogDescription>
+                Name it after the device or app that will use it.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-1.5 py-4">
+              <Label htmlFor="app-password-name">Name</Label>
+              <Input
+                id="app-password-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. iPhone"
+                maxLength={100}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || createAppPassword.isPending}>
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Issued Password Dialog */}
+      <Dialog open={!!issued} onOpenChange={(open) => !open && setIssued(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>App password for {issued?.name}</DialogTitle>
+            <DialogDescription>
+              Enter this password in your calendar app. For security it won&apos;t be shown again —
+              create a new one if you lose it.
+            </DialogDescription>
+          </DialogHeader>
+          <CopyField label="Password" value={issued?.password ?? ''} />
+          <DialogFooter>
+            <Button onClick={() => setIssued(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation */}
+      <Dialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Revoke app password</DialogTitle>
+            <DialogDescription>
+              Apps using &quot;{revokeTarget?.name}&quot; will stop syncing until you sign in again
+              with a new password.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmRevoke}>
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
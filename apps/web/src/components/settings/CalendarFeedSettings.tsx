@@ -0,0 +1,246 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, Link2, RefreshCw, Trash2 } from 'lucide-react';
+import { memo, useCallback, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/Skeleton';
+import {
+  getFeedUrl,
+  useCalendarFeeds,
+  useCreateCalendarFeed,
+  useRevokeCalendarFeed,
+  useRotateCalendarFeed,
+} from '@/hooks/use-calendar-feeds';
+import { useCategories } from '@/hooks/use-categories';
+
+import type { CalendarFeed, CalendarFeedWithToken } from '@calley/shared';
+
+// ─── Feed Item ──────────────────────────────────────────────────────
+
+interface FeedItemProps {
+  label: string;
+  color?: string;
+  categoryId: string | null;
+  feed: CalendarFeed | undefined;
+  onCreate: (categoryId: string | null) => void;
+  onRotate: (feedId: string) => void;
+  onRevoke: (feed: CalendarFeed) => void;
+  isPending: boolean;
+}
+
+const FeedItem = memo(function FeedItem({
+  label,
+  color,
+  categoryId,
+  feed,
+  onCreate,
+  onRotate,
+  onRevoke,
+  isPending,
+}: FeedItemProps) {
+  return (
+    <div className="flex items-center justify-between rounded-[var(--radius)] border border-[var(--border)] px-4 py-3">
+      <div className="flex items-center gap-3">
+        {color ? (
+          <div className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: color }} />
+        ) : (
+          <Link2 className="h-4 w-4 text-[var(--muted-foreground)]" />
+        )}
+        <div>
+          <p className="text-sm font-medium">{label}</p>
+          <p className="text-xs text-[var(--muted-foreground)]">
+            {!feed
+              ? 'Not shared'
+              : feed.lastAccessedAt
+                ? `Last synced ${formatDistanceToNow(new Date(feed.lastAccessedAt), { addSuffix: true })}`
+                : 'Never synced'}
+          </p>
+        </div>
+      </div>
+      {feed ? (
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={() => onRotate(feed.id)} disabled={isPending}>
+            <RefreshCw className="mr-1 h-3.5 w-3.5" />
+            Reset link
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onRevoke(feed)}
+            disabled={isPending}
+            className="text-[var(--color-danger)]"
+          >
+            <Trash2 className="mr-1 h-3.5 w-3.5" />
+            Revoke
+          </Button>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onCreate(categoryId)}
+          disabled={isPending}
+        >
+          Create link
+        </Button>
+      )}
+    </div>
+  );
+});
+
+// ─── Main Component ─────────────────────────────────────────────────
+
+export const CalendarFeedSettings = memo(function CalendarFeedSettings() {
+  const { data: feeds, isLoading } = useCalendarFeeds();
+  const { data: categories = [] } = useCategories();
+  const createFeed = useCreateCalendarFeed();
+  const rotateFeed = useRotateCalendarFeed();
+  const revokeFeed = useRevokeCalendarFeed();
+
+  // The token is only returned once, right after create/rotate
+  const [issuedFeed, setIssuedFeed] = useState<CalendarFeedWithToken | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<CalendarFeed | null>(null);
+
+  const feedFor = useCallback(
+    (categoryId: string | null) => feeds?.find((f) => f.categoryId === categoryId),
+    [feeds],
+  );
+
+  const handleCreate = useCallback(
+    (categoryId: string | null) => {
+      createFeed.mutate({ categoryId }, { onSuccess: setIssuedFeed });
+    },
+    [createFeed],
+  );
+
+  const handleRotate = useCallback(
+    (feedId: string) => {
+      rotateFeed.mutate(feedId, { onSuccess: setIssuedFeed });
+    },
+    [rotateFeed],
+  );
+
+  const handleConfirmRevoke = useCallback(() => {
+    if (!revokeTarget) return;
+    revokeFeed.mutate(revokeTarget.id);
+    setRevokeTarget(null);
+  }, [revokeFeed, revokeTarget]);
+
+  const issuedUrl = issuedFeed ? getFeedUrl(issuedFeed.token) : '';
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(issuedUrl);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  }, [issuedUrl]);
+
+  const isPending = createFeed.isPending || rotateFeed.isPending || revokeFeed.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Subscription links</h2>
+        <p className="text-sm text-[var(--muted-foreground)]">
+          Subscribe to your calendars from Google Calendar, Apple Calendar, or Outlook. Anyone with
+          a link can see the events in that calendar.
+        </p>
+      </div>
+
+      <Separator />
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-[var(--radius)]" />
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <FeedItem
+            label="All calendars"
+            categoryId={null}
+            feed={feedFor(null)}
+            onCreate={handleCreate}
+            onRotate={handleRotate}
+            onRevoke={setRevokeTarget}
+            isPending={isPending}
+          />
+          {categories.map((category) => (
+            <FeedItem
+              key={category.id}
+              label={category.name}
+              color={category.color}
+              categoryId={category.id}
+              feed={feedFor(category.id)}
+              onCreate={handleCreate}
+              onRotate={handleRotate}
+              onRevoke={setRevokeTarget}
+              isPending={isPending}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Issued Link Dialog */}
+      <Dialog open={!!issuedFeed} onOpenChange={(open) => !open && setIssuedFeed(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Subscription link</DialogTitle>
+            <DialogDescription>
+              Copy this link into your calendar app. For security it won&apos;t be shown again —
+              reset the link if you lose it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input
+              readOnly
+              value={issuedUrl}
+              onFocus={(e) => e.target.select()}
+              aria-label="Subscription link"
+            />
+            <Button variant="outline" size="sm" onClick={handleCopy} aria-label="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedFeed(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation */}
+      <Dialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Revoke subscription link</DialogTitle>
+            <DialogDescription>
+              Calendar apps subscribed to this link will stop receiving updates.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmRevoke}>
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
@@ -0,0 +1,244 @@
+import { format } from 'date-fns';
+import { FileUp, X } from 'lucide-react';
+import { memo, useCallback, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { useCategories } from '@/hooks/use-categories';
+import { useImportIcs } from '@/hooks/use-import';
+
+import type { IcsImportItem, IcsImportReport } from '@calley/shared';
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+/** Matches the server-side limit on the file content */
+const MAX_FILE_SIZE = 2_000_000;
+
+const ITEM_TYPE_LABELS: Record<IcsImportItem['type'], string> = {
+  event: 'Event',
+  exception: 'Changed occurrence',
+  task: 'Task',
+};
+
+// ─── Report Item ────────────────────────────────────────────────────
+
+const ReportItem = memo(function ReportItem({ item }: { item: IcsImportItem }) {
+  return (
+    <li className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+      <div className="min-w-0">
+        <p className="truncate font-medium">{item.title}</p>
+        <p className="text-xs text-[var(--muted-foreground)]">
+          {ITEM_TYPE_LABELS[item.type]}
+          {item.startAt && ` · ${format(new Date(item.startAt), 'MMM d, yyyy')}`}
+        </p>
+      </div>
+      <span
+        className={
+          item.status === 'invalid'
+            ? 'shrink-0 text-xs text-[var(--color-danger)]'
+            : 'shrink-0 text-xs text-[var(--muted-foreground)]'
+        }
+      >
+        {item.reason}
+      </span>
+    </li>
+  );
+});
+
+// ─── Main Component ─────────────────────────────────────────────────
+
+export const ImportSettings = memo(function ImportSettings() {
+  const { data: categories = [] } = useCategories();
+  const importIcs = useImportIcs();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [selectedCategoryId, setSelectedCategoryId] = useState('');
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [report, setReport] = useState<IcsImportReport | null>(null);
+
+  // Until the user picks one, import into their default calendar
+  const categoryId =
+    selectedCategoryId || (categories.find((c) => c.isDefault) ?? categories[0])?.id || '';
+
+  const runDryRun = useCallback(
+    (content: string, targetCategoryId: string) => {
+      setReport(null);
+      importIcs.mutate(
+        { categoryId: targetCategoryId, content, dryRun: true },
+        { onSuccess: setReport },
+      );
+    },
+    [importIcs],
+  );
+
+  const handleFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const selected = e.target.files?.[0];
+      e.target.value = '';
+      if (!selected) return;
+
+      if (selected.size > MAX_FILE_SIZE) {
+        toast.error('Calendar file must be at most 2 MB');
+        return;
+      }
+
+      const content = await selected.text();
+      setFile({ name: selected.name, content });
+      if (categoryId) runDryRun(content, categoryId);
+    },
+    [categoryId, runDryRun],
+  );
+
+  const handleCategoryChange = useCallback(
+    (value: string) => {
+      setSelectedCategoryId(value);
+      // Re-check against the new calendar so the report stays accurate
+      if (file) runDryRun(file.content, value);
+    },
+    [file, runDryRun],
+  );
+
+  const handleReset = useCallback(() => {
+    setFile(null);
+    setReport(null);
+  }, []);
+
+  const handleImport = useCallback(() => {
+    if (!file || !categoryId) return;
+    importIcs.mutate(
+      { categoryId, content: file.content, dryRun: false },
+      { onSuccess: handleReset },
+    );
+  }, [file, categoryId, importIcs, handleReset]);
+
+  const problems = report?.items.filter((item) => item.status !== 'created') ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Import</h2>
+        <p className="text-sm text-[var(--muted-foreground)]">
+          Bring events and tasks from another calendar app using an .ics file
+        </p>
+      </div>
+
+      <Separator />
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="import-category">Import into</Label>
+          <Select value={categoryId} onValueChange={handleCategoryChange}>
+            <SelectTrigger id="import-category">
+              <SelectValue placeholder="Select calendar" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((cat) => (
+                <SelectItem key={cat.id} value={cat.id}>
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="h-3 w-3 shrink-0 rounded-sm"
+                      style={{ backgroundColor: cat.color }}
+                      aria-hidden="true"
+                    />
+                    {cat.name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="import-file">File</Label>
+          <input
+            ref={fileInputRef}
+            id="import-file"
+            type="file"
+            accept=".ics,text/calendar"
+            className="sr-only"
+            onChange={handleFileChange}
+          />
+          {file ? (
+            <div className="flex h-9 items-center justify-between rounded-[var(--radius)] border border-[var(--border)] px-3">
+              <span className="truncate text-sm">{file.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={handleReset}
+                aria-label="Remove file"
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ) : (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!categoryId}
+            >
+              <FileUp className="mr-1 h-4 w-4" />
+              Choose .ics file
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {file && !report && importIcs.isPending && (
+        <p className="text-sm text-[var(--muted-foreground)]">Checking file...</p>
+      )}
+
+      {report && (
+        <div className="space-y-4 rounded-[var(--radius)] border border-[var(--border)] p-4">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            <span>
+              <strong>{report.created}</strong> to import
+            </span>
+            <span className="text-[var(--muted-foreground)]">{report.skipped} skipped</span>
+            <span
+              className={
+                report.invalid > 0 ? 'text-[var(--color-danger)]' : 'text-[var(--muted-foreground)]'
+              }
+            >
+              {report.invalid} invalid
+            </span>
+            {report.reminders > 0 && (
+              <span className="text-[var(--muted-foreground)]">
+                {report.reminders} reminder{report.reminders !== 1 ? 's' : ''}
+              </span>
+            )}
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="max-h-60 divide-y divide-[var(--border)] overflow-y-auto rounded-[var(--radius)] border border-[var(--border)]">
+              {problems.map((item, i) => (
+                <ReportItem key={`${item.uid ?? 'item'}-${i}`} item={item} />
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={handleReset} disabled={importIcs.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={report.created === 0 || importIcs.isPending}>
+              {importIcs.isPending
+                ? 'Importing...'
+                : `Import ${report.created} item${report.created !== 1 ? 's' : ''}`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -7,7 +7,9 @@ import { useForm } from 'react-hook-form';
 
 import { changePasswordSchema, updateProfileSchema } from '@calley/shared';
 
+import { WorkingHoursSettings } from '@/components/settings/WorkingHoursSettings';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Dialog,
   DialogContent,
@@ -35,37 +37,10 @@ import {
   useUpdateProfile,
 } from '@/hooks/use-settings';
 import { ApiError } from '@/lib/api-client';
+import { formatTimezoneLabel, getTimezoneList } from '@/lib/timezones';
 
 import type { ChangePasswordInput, UpdateProfileInput } from '@calley/shared';
 
-// ─── Timezone list ──────────────────────────────────────────────────
-
-function getTimezoneList(): string[] {
-  try {
-    return (Intl as unknown as { supportedValuesOf: (key: string) => string[] }).supportedValuesOf(
-      'timeZone',
-    );
-  } catch {
-    // Fallback for older browsers
-    return [
-      'UTC',
-      'America/New_York',
-      'America/Chicago',
-      'America/Denver',
-      'America/Los_Angeles',
-      'America/Anchorage',
-      'Pacific/Honolulu',
-      'Europe/London',
-      'Europe/Paris',
-      'Europe/Berlin',
-      'Asia/Tokyo',
-      'Asia/Shanghai',
-      'Asia/Kolkata',
-      'Australia/Sydney',
-    ];
-  }
-}
-
 // ─── Profile Form ───────────────────────────────────────────────────
 
 function ProfileForm() {
@@ -195,7 +170,7 @@ function ProfileForm() {
               </div>
               {filteredTimezones.map((tz) => (
                 <SelectItem key={tz} value={tz}>
-                  {tz.replace(/_/g, ' ')}
+                  {formatTimezoneLabel(tz)}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -240,6 +215,24 @@ function ProfileForm() {
           </Select>
         </div>
 
+        {/* Task dependencies */}
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="enforceTaskDependencies"
+            checked={user.enforceTaskDependencies}
+            onCheckedChange={(checked) => {
+              updateProfile.mutate({ enforceTaskDependencies: checked === true });
+            }}
+            className="mt-0.5"
+          />
+          <div className="space-y-0.5">
+            <Label htmlFor="enforceTaskDependencies">Enforce task dependencies</Label>
+            <p className="text-xs text-[var(--muted-foreground)]">
+              Don&apos;t let a task be started or completed while a task it waits on is still open
+            </p>
+          </div>
+        </div>
+
         {/* Save button for name changes */}
         {isDirty && (
           <Button type="submit" disabled={isSubmitting}>
@@ -500,6 +493,7 @@ export function ProfileSettings() {
   return (
     <div className="space-y-0">
       <ProfileForm />
+      <WorkingHoursSettings />
       <ChangePasswordForm />
       <ConnectedAccounts />
       <DeleteAccountSection />
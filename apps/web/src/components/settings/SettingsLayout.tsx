@@ -1,5 +1,5 @@
 import { Link, useMatchRoute } from '@tanstack/react-router';
-import { Bell, Calendar, Monitor, UserIcon } from 'lucide-react';
+import { Bell, Calendar, CalendarCheck, Monitor, UserIcon } from 'lucide-react';
 import { memo } from 'react';
 
 import { cn } from '@/lib/utils';
@@ -7,6 +7,7 @@ import { cn } from '@/lib/utils';
 const navItems = [
   { to: '/settings/profile', label: 'Profile', icon: UserIcon },
   { to: '/settings/calendars', label: 'Calendars', icon: Calendar },
+  { to: '/settings/booking', label: 'Booking', icon: CalendarCheck },
   { to: '/settings/notifications', label: 'Notifications', icon: Bell },
   { to: '/settings/sessions', label: 'Sessions', icon: Monitor },
 ] as const;
@@ -0,0 +1,208 @@
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { lazy, memo, Suspense, useCallback, useState } from 'react';
+
+import { CATEGORY_COLORS, MAX_TAGS_PER_USER } from '@calley/shared';
+
+const ColorPicker = lazy(() =>
+  import('@/components/calendar/ColorPicker').then((m) => ({ default: m.ColorPicker })),
+);
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { useCreateTag, useDeleteTag, useTags, useUpdateTag } from '@/hooks/use-tags';
+
+import type { Tag } from '@calley/shared';
+
+export const TagSettings = memo(function TagSettings() {
+  const { data: tags = [] } = useTags();
+  const createTag = useCreateTag();
+  const updateTag = useUpdateTag();
+  const deleteTag = useDeleteTag();
+
+  // Add/edit dialog state; a null tag means a new one is being created
+  const [editOpen, setEditOpen] = useState(false);
+  const [editTag, setEditTag] = useState<Tag | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editColor, setEditColor] = useState<string>(CATEGORY_COLORS[0]);
+
+  // Delete dialog state
+  const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
+
+  const handleStartCreate = useCallback(() => {
+    setEditTag(null);
+    setEditName('');
+    setEditColor(CATEGORY_COLORS[tags.length % CATEGORY_COLORS.length]);
+    setEditOpen(true);
+  }, [tags.length]);
+
+  const handleStartEdit = useCallback((tag: Tag) => {
+    setEditTag(tag);
+    setEditName(tag.name);
+    setEditColor(tag.color);
+    setEditOpen(true);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const trimmed = editName.trim();
+    if (!trimmed) return;
+
+    if (!editTag) {
+      createTag.mutate({ name: trimmed, color: editColor });
+    } else {
+      const updates: { name?: string; color?: string } = {};
+      if (trimmed !== editTag.name) updates.name = trimmed;
+      if (editColor !== editTag.color) updates.color = editColor;
+
+      if (Object.keys(updates).length > 0) {
+        updateTag.mutate({ tagId: editTag.id, data: updates });
+      }
+    }
+    setEditOpen(false);
+    setEditTag(null);
+  }, [editTag, editName, editColor, createTag, updateTag]);
+
+  const handleConfirmDelete = useCallback(() => {
+    if (tagToDelete) {
+      deleteTag.mutate(tagToDelete.id);
+    }
+    setTagToDelete(null);
+  }, [tagToDelete, deleteTag]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Tags</h2>
+          <p className="text-sm text-[var(--muted-foreground)]">
+            Label events and tasks across calendars
+          </p>
+        </div>
+        <Button size="sm" onClick={handleStartCreate} disabled={tags.length >= MAX_TAGS_PER_USER}>
+          <Plus className="mr-1 h-4 w-4" />
+          New tag
+        </Button>
+      </div>
+
+      <Separator />
+
+      {tags.length === 0 ? (
+        <p className="text-sm text-[var(--muted-foreground)]">No tags yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {tags.map((tag) => (
+            <li
+              key={tag.id}
+              className="flex items-center justify-between rounded-[var(--radius)] border border-[var(--border)] px-4 py-2"
+            >
+              <div className="flex items-center gap-3">
+                <span
+                  className="h-3 w-3 shrink-0 rounded-full"
+                  style={{ backgroundColor: tag.color }}
+                  aria-hidden="true"
+                />
+                <span className="text-sm font-medium">{tag.name}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleStartEdit(tag)}
+                  aria-label={`Edit ${tag.name}`}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-[var(--color-danger)]"
+                  onClick={() => setTagToDelete(tag)}
+                  aria-label={`Delete ${tag.name}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent className="sm:max-w-[380px]">
+          <DialogHeader>
+            <DialogTitle>{editTag ? 'Edit Tag' : 'New Tag'}</DialogTitle>
+            <DialogDescription>
+              {editTag ? 'Update the tag name and color.' : 'Create a tag for events and tasks.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="edit-tag-name">Name</Label>
+              <Input
+                id="edit-tag-name"
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+                placeholder="e.g., urgent, errands"
+                maxLength={50}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleSave();
+                  }
+                }}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Color</Label>
+              <Suspense
+                fallback={<div className="h-20 w-40 animate-pulse rounded bg-[var(--muted)]" />}
+              >
+                <ColorPicker value={editColor} onChange={setEditColor} />
+              </Suspense>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!editName.trim()}>
+              {editTag ? 'Save' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Dialog */}
+      <Dialog open={!!tagToDelete} onOpenChange={(open) => !open && setTagToDelete(null)}>
+        <DialogContent className="sm:max-w-[380px]">
+          <DialogHeader>
+            <DialogTitle>Delete Tag</DialogTitle>
+            <DialogDescription>
+              Delete &ldquo;{tagToDelete?.name}&rdquo;? It will be removed from all events and
+              tasks.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
@@ -0,0 +1,232 @@
+import { Plus, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { workingHoursSchema } from '@calley/shared';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { useCurrentUser } from '@/hooks/use-auth';
+import { useUpdateProfile } from '@/hooks/use-settings';
+import { formatTimezoneLabel, getTimezoneList } from '@/lib/timezones';
+import { fromEndTimeInput, toEndTimeInput } from '@/lib/working-hours';
+
+import type { WorkingHours, WorkingHoursRange } from '@calley/shared';
+
+const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+/** Select value for hours that follow the profile timezone */
+const PROFILE_TIMEZONE = 'profile';
+
+/** Most separate working periods on a single day, as the schema allows */
+const MAX_RANGES_PER_DAY = 4;
+
+/**
+ * A new range starts where the last one ends and runs for an hour, or to
+ * the end of the day.
+ */
+function getNextRange(after: WorkingHoursRange): WorkingHoursRange {
+  const [hours, minutes] = after.end.split(':').map(Number);
+  const end =
+    hours < 23
+      ? `${String(hours + 1).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+      : '24:00';
+  return { start: after.end, end };
+}
+
+/**
+ * Working hours per weekday, with an optional timezone of their own for
+ * people who keep another region's hours. They shade the calendar and
+ * guide the scheduling assistant.
+ */
+export function WorkingHoursSettings() {
+  const { data: user } = useCurrentUser();
+  const updateProfile = useUpdateProfile();
+
+  // Unsaved edits; null shows the saved hours
+  const [edited, setEdited] = useState<WorkingHours | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const timezones = useMemo(() => getTimezoneList(), []);
+
+  if (!user) return null;
+
+  const draft = edited ?? user.workingHours;
+
+  // List days in the order the user's week runs
+  const weekdays = Array.from({ length: 7 }, (_, i) => (i + user.weekStart) % 7);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(user.workingHours);
+
+  const setDay = (weekday: number, ranges: WorkingHoursRange[]) => {
+    setEdited({ ...draft, days: draft.days.map((day, i) => (i === weekday ? ranges : day)) });
+  };
+
+  const handleSave = () => {
+    const parsed = workingHoursSchema.safeParse(draft);
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Check your working hours');
+      return;
+    }
+    setError(null);
+    updateProfile.mutate({ workingHours: parsed.data }, { onSuccess: () => setEdited(null) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Separator />
+      <div>
+        <h2 className="text-lg font-semibold">Working Hours</h2>
+        <p className="text-sm text-[var(--muted-foreground)]">
+          Times outside these hours are shaded in your calendar and skipped when others find a time
+          to meet with you
+        </p>
+      </div>
+
+      <ul className="space-y-3">
+        {weekdays.map((weekday) => {
+          const ranges = draft.days[weekday];
+          const name = WEEKDAY_NAMES[weekday];
+
+          return (
+            <li key={weekday} className="flex items-start gap-3">
+              <div className="flex w-32 shrink-0 items-center gap-2 pt-2">
+                <Checkbox
+                  id={`working-day-${weekday}`}
+                  checked={ranges.length > 0}
+                  onCheckedChange={(checked) =>
+                    setDay(weekday, checked === true ? [{ start: '09:00', end: '17:00' }] : [])
+                  }
+                />
+                <Label htmlFor={`working-day-${weekday}`} className="cursor-pointer">
+                  {name}
+                </Label>
+              </div>
+
+              {ranges.length === 0 ? (
+                <p className="pt-2 text-sm text-[var(--muted-foreground)]">Not working</p>
+              ) : (
+                <div className="flex-1 space-y-2">
+                  {ranges.map((range, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={range.start}
+                        aria-label={`${name} start`}
+                        onChange={(e) =>
+                          setDay(
+                            weekday,
+                            ranges.map((r, i) =>
+                              i === index ? { ...r, start: e.target.value } : r,
+                            ),
+                          )
+                        }
+                      />
+                      <span className="text-sm text-[var(--muted-foreground)]">to</span>
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={toEndTimeInput(range.end)}
+                        aria-label={`${name} end`}
+                        onChange={(e) =>
+                          setDay(
+                            weekday,
+                            ranges.map((r, i) =>
+                              i === index ? { ...r, end: fromEndTimeInput(e.target.value) } : r,
+                            ),
+                          )
+                        }
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() =>
+                          setDay(
+                            weekday,
+                            ranges.filter((_, i) => i !== index),
+                          )
+                        }
+                        aria-label={`Remove ${name} hours`}
+                      >
+                        <X />
+                      </Button>
+                      {index === ranges.length - 1 &&
+                        ranges.length < MAX_RANGES_PER_DAY &&
+                        range.end !== '24:00' && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setDay(weekday, [...ranges, getNextRange(range)])}
+                            aria-label={`Add ${name} hours`}
+                          >
+                            <Plus />
+                          </Button>
+                        )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="space-y-2">
+        <Label htmlFor="working-hours-timezone">Timezone</Label>
+        <Select
+          value={draft.timezone ?? PROFILE_TIMEZONE}
+          onValueChange={(value) =>
+            setEdited({ ...draft, timezone: value === PROFILE_TIMEZONE ? null : value })
+          }
+        >
+          <SelectTrigger id="working-hours-timezone">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-60">
+            <SelectItem value={PROFILE_TIMEZONE}>
+              Same as my timezone ({formatTimezoneLabel(user.timezone)})
+            </SelectItem>
+            {timezones.map((tz) => (
+              <SelectItem key={tz} value={tz}>
+                {formatTimezoneLabel(tz)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <p className="text-sm text-[var(--color-danger)]" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isDirty && (
+        <Button type="button" onClick={handleSave} disabled={updateProfile.isPending}>
+          {updateProfile.isPending ? 'Saving...' : 'Save working hours'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { memo } from 'react';
+
+import { useTagMap } from '@/hooks/use-tags';
+import { cn } from '@/lib/utils';
+
+interface TagChipsProps {
+  tagIds: string[];
+  /** Show at most this many chips, then a "+N" count */
+  max?: number;
+  className?: string;
+}
+
+/**
+ * The user's tags on an event or task, as small colored chips.
+ * Tag IDs that aren't loaded yet (or were just deleted) are skipped.
+ */
+export const TagChips = memo(function TagChips({ tagIds, max = 3, className }: TagChipsProps) {
+  const tagMap = useTagMap();
+  const tags = tagIds.flatMap((id) => tagMap.get(id) ?? []);
+  if (tags.length === 0) return null;
+
+  const shown = tags.slice(0, max);
+  const hidden = tags.length - shown.length;
+
+  return (
+    <span className={cn('inline-flex min-w-0 items-center gap-1 overflow-hidden', className)}>
+      {shown.map((tag) => (
+        <span
+          key={tag.id}
+          className="inline-flex max-w-[8rem] shrink-0 items-center truncate rounded-full px-1.5 text-[10px] leading-4"
+          style={{
+            backgroundColor: `color-mix(in srgb, ${tag.color} 18%, transparent)`,
+            color: `color-mix(in srgb, ${tag.color} 80%, var(--foreground))`,
+          }}
+        >
+          {tag.name}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span className="shrink-0 text-[10px] text-[var(--muted-foreground)]">+{hidden}</span>
+      )}
+    </span>
+  );
+});
@@ -0,0 +1,130 @@
+import { Check, Plus } from 'lucide-react';
+import { memo, useCallback, useState } from 'react';
+
+import { CATEGORY_COLORS, MAX_TAGS_PER_ITEM } from '@calley/shared';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCreateTag, useTags } from '@/hooks/use-tags';
+import { cn } from '@/lib/utils';
+
+interface TagPickerProps {
+  id?: string;
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+/**
+ * Toggle the user's tags on an item. New tags can be created inline and
+ * are selected right away; their color rotates through the palette.
+ */
+export const TagPicker = memo(function TagPicker({ id, value, onChange }: TagPickerProps) {
+  const { data: tags = [] } = useTags();
+  const createTag = useCreateTag();
+  const [newName, setNewName] = useState('');
+
+  const atLimit = value.length >= MAX_TAGS_PER_ITEM;
+
+  const toggle = useCallback(
+    (tagId: string) => {
+      if (value.includes(tagId)) {
+        onChange(value.filter((v) => v !== tagId));
+      } else if (!atLimit) {
+        onChange([...value, tagId]);
+      }
+    },
+    [value, onChange, atLimit],
+  );
+
+  const handleCreate = useCallback(() => {
+    const name = newName.trim();
+    if (!name) return;
+
+    // Reuse an existing tag rather than hitting the duplicate-name error
+    const existing = tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      if (!value.includes(existing.id)) toggle(existing.id);
+      setNewName('');
+      return;
+    }
+
+    const color = CATEGORY_COLORS[tags.length % CATEGORY_COLORS.length];
+    createTag.mutate(
+      { name, color },
+      {
+        onSuccess: (tag) => {
+          if (!atLimit) onChange([...value, tag.id]);
+          setNewName('');
+        },
+      },
+    );
+  }, [newName, tags, value, toggle, createTag, onChange, atLimit]);
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5" role="group" aria-label="Tags">
+          {tags.map((tag) => {
+            const selected = value.includes(tag.id);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggle(tag.id)}
+                disabled={!selected && atLimit}
+                aria-pressed={selected}
+                className={cn(
+                  'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors disabled:opacity-50',
+                  selected
+                    ? 'border-transparent text-[var(--foreground)]'
+                    : 'border-[var(--border)] text-[var(--muted-foreground)] hover:bg-[var(--accent-ui)]',
+                )}
+                style={
+                  selected
+                    ? { backgroundColor: `color-mix(in srgb, ${tag.color} 25%, transparent)` }
+                    : undefined
+                }
+              >
+                <span
+                  className="inline-block h-2 w-2 shrink-0 rounded-full"
+                  style={{ backgroundColor: tag.color }}
+                  aria-hidden="true"
+                />
+                {tag.name}
+                {selected && <Check className="h-3 w-3" aria-hidden="true" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          placeholder="New tag"
+          value={newName}
+          maxLength={50}
+          className="h-8 text-sm"
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep Enter from submitting the surrounding form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleCreate}
+          disabled={!newName.trim() || createTag.isPending}
+          aria-label="Add tag"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,98 @@
+import { Lock, X } from 'lucide-react';
+import { memo } from 'react';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTasks } from '@/hooks/use-tasks';
+import { getBlockerCandidates } from '@/lib/task-dependencies';
+import { cn } from '@/lib/utils';
+
+import type { TaskFilter } from '@/types/filters';
+import type { TaskBlocker } from '@calley/shared';
+
+const CANDIDATE_FILTERS: TaskFilter = { sort: 'sort_order' };
+
+interface BlockerPickerProps {
+  id?: string;
+  /** The task being edited, or null for a new task */
+  taskId: string | null;
+  value: string[];
+  onChange: (blockedByIds: string[]) => void;
+  /** The task's saved blockers, so ones outside the task list still show a title */
+  knownBlockers?: TaskBlocker[];
+}
+
+/**
+ * Pick the tasks a task waits on. Picked tasks show as chips, finished
+ * ones struck through; the select offers the rest of the user's tasks.
+ */
+export const BlockerPicker = memo(function BlockerPicker({
+  id,
+  taskId,
+  value,
+  onChange,
+  knownBlockers = [],
+}: BlockerPickerProps) {
+  const { data: tasks = [] } = useTasks(CANDIDATE_FILTERS);
+
+  const lookup = new Map<string, TaskBlocker>(knownBlockers.map((b) => [b.id, b]));
+  for (const t of tasks) lookup.set(t.id, { id: t.id, title: t.title, status: t.status });
+
+  const candidates = getBlockerCandidates(tasks, taskId, value);
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5" aria-label="Blocked by">
+          {value.map((blockerId) => {
+            const blocker = lookup.get(blockerId);
+            const title = blocker?.title ?? 'Unknown task';
+            return (
+              <li
+                key={blockerId}
+                className="inline-flex items-center gap-1 rounded-full border border-[var(--border)] px-2 py-0.5 text-xs"
+              >
+                <Lock className="h-3 w-3 text-[var(--muted-foreground)]" aria-hidden="true" />
+                <span
+                  className={cn(
+                    blocker?.status === 'done' && 'text-[var(--muted-foreground)] line-through',
+                  )}
+                >
+                  {title}
+                </span>
+                <button
+                  type="button"
+                  className="rounded p-0.5 text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                  onClick={() => onChange(value.filter((v) => v !== blockerId))}
+                  aria-label={`Remove blocker ${title}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {candidates.length > 0 && (
+        <Select value="" onValueChange={(blockerId) => onChange([...value, blockerId])}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Add a task this one waits on" />
+          </SelectTrigger>
+          <SelectContent className="max-h-60">
+            {candidates.map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,149 @@
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { format, isPast, isToday, parseISO } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { ListChecks, Repeat } from 'lucide-react';
+import { memo, useCallback } from 'react';
+
+import { TagChips } from '@/components/tags/TagChips';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { cn } from '@/lib/utils';
+import { useUIStore } from '@/stores/ui-store';
+
+import type { Task } from '@calley/shared';
+import type { KeyboardEvent } from 'react';
+
+const PRIORITY_COLORS: Record<string, string> = {
+  high: 'var(--color-danger, #c0392b)',
+  medium: 'var(--color-warning, #d4a017)',
+  low: 'var(--color-success, #3a6b5c)',
+  none: 'transparent',
+};
+
+interface BoardCardProps {
+  task: Task;
+  categoryColor?: string;
+  /** True while this card is held for a keyboard move */
+  isPicked?: boolean;
+  /** Pick the card up for a keyboard move (Shift+Enter / Shift+Space) */
+  onPickUp?: (task: Task) => void;
+}
+
+export const BoardCard = memo(function BoardCard({
+  task,
+  categoryColor = '#94a3b8',
+  isPicked,
+  onPickUp,
+}: BoardCardProps) {
+  const openTaskDrawer = useUIStore((s) => s.openTaskDrawer);
+  const userTimezone = useUserTimezone();
+
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: task.id,
+    data: { task, type: 'board-card' },
+  });
+
+  const isDone = task.status === 'done';
+  const isRecurring = !!task.rrule || !!task.recurringTaskId;
+  const { total: subtaskTotal, done: subtaskDone } = task.subtaskProgress;
+
+  let dueDateLabel = '';
+  let isOverdue = false;
+  if (task.dueAt) {
+    const zonedDue = toZonedTime(parseISO(task.dueAt), userTimezone);
+    dueDateLabel = isToday(zonedDue) ? 'Today' : format(zonedDue, 'MMM d');
+    isOverdue = !isDone && isPast(zonedDue) && !isToday(zonedDue);
+  }
+
+  const handleClick = useCallback(() => {
+    openTaskDrawer({ taskId: task.id });
+  }, [openTaskDrawer, task.id]);
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLDivElement>) => {
+      if (e.shiftKey && (e.key === 'Enter' || e.key === ' ')) {
+        e.preventDefault();
+        onPickUp?.(task);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        handleClick();
+      }
+    },
+    [onPickUp, task, handleClick],
+  );
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        transform: CSS.Transform.toString(transform),
+        transition,
+        borderLeft: `3px solid ${categoryColor}`,
+      }}
+      className={cn(
+        'cursor-grab rounded-[var(--radius)] border border-[var(--border)] bg-[var(--surface)] px-2.5 py-2 text-left shadow-[var(--shadow-sm)] transition-colors hover:bg-[var(--accent-ui)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--ring)]',
+        isDragging && 'opacity-40',
+        isPicked && 'opacity-60 ring-2 ring-[var(--primary)]',
+      )}
+      {...attributes}
+      {...listeners}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      aria-label={`${task.title}. Shift+Enter to move with keyboard.`}
+      data-task-id={task.id}
+    >
+      <div className="flex items-center gap-1.5">
+        {task.priority !== 'none' && (
+          <span
+            className="inline-block h-2 w-2 shrink-0 rounded-full"
+            style={{ backgroundColor: PRIORITY_COLORS[task.priority] }}
+            aria-label={`${task.priority} priority`}
+          />
+        )}
+        <span
+          className={cn(
+            'line-clamp-2 text-sm',
+            isDone
+              ? 'text-[var(--muted-foreground)] line-through opacity-60'
+              : 'text-[var(--foreground)]',
+          )}
+        >
+          {task.title}
+        </span>
+        {isRecurring && (
+          <Repeat
+            className="h-3 w-3 shrink-0 text-[var(--muted-foreground)]"
+            aria-label="Recurring task"
+          />
+        )}
+      </div>
+
+      {(dueDateLabel || subtaskTotal > 0 || task.tagIds.length > 0) && (
+        <div className="mt-1 flex flex-wrap items-center gap-2">
+          {dueDateLabel && (
+            <span
+              className={cn(
+                'text-xs',
+                isOverdue
+                  ? 'font-medium text-[var(--color-danger,#c0392b)]'
+                  : 'text-[var(--muted-foreground)]',
+              )}
+            >
+              {dueDateLabel}
+            </span>
+          )}
+          {subtaskTotal > 0 && (
+            <span
+              className="inline-flex items-center gap-0.5 text-xs text-[var(--muted-foreground)]"
+              aria-label={`${subtaskDone} of ${subtaskTotal} subtasks done`}
+            >
+              <ListChecks className="h-3 w-3" aria-hidden="true" />
+              {subtaskDone}/{subtaskTotal}
+            </span>
+          )}
+          <TagChips tagIds={task.tagIds} />
+        </div>
+      )}
+    </div>
+  );
+});
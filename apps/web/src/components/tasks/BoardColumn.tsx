@@ -0,0 +1,88 @@
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { memo } from 'react';
+
+import { cn } from '@/lib/utils';
+
+import { BoardCard } from './BoardCard';
+
+import type { CalendarCategory, Task, TaskStatus } from '@calley/shared';
+import type { ReactNode } from 'react';
+
+interface BoardColumnProps {
+  laneId: string;
+  status: TaskStatus;
+  label: string;
+  tasks: Task[];
+  categoryMap: Map<string, CalendarCategory>;
+  /** ID of the card held for a keyboard move, if any */
+  pickedTaskId?: string;
+  /** Slot (among the other cards) where the held card would land */
+  dropIndex?: number;
+  onPickUp: (task: Task) => void;
+}
+
+function boardColumnId(laneId: string, status: TaskStatus): string {
+  return `board-column-${laneId}-${status}`;
+}
+
+function DropIndicator() {
+  return <div className="h-0.5 rounded-full bg-[var(--primary)]" aria-hidden="true" />;
+}
+
+export const BoardColumn = memo(function BoardColumn({
+  laneId,
+  status,
+  label,
+  tasks,
+  categoryMap,
+  pickedTaskId,
+  dropIndex,
+  onPickUp,
+}: BoardColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: boardColumnId(laneId, status),
+    data: { type: 'board-column', laneId, status },
+  });
+
+  // Walk the cards, slotting the keyboard drop indicator in among the
+  // cards other than the held one
+  const items: ReactNode[] = [];
+  let slot = 0;
+  for (const task of tasks) {
+    if (task.id !== pickedTaskId) {
+      if (slot === dropIndex) items.push(<DropIndicator key="drop-indicator" />);
+      slot++;
+    }
+    items.push(
+      <BoardCard
+        key={task.id}
+        task={task}
+        categoryColor={categoryMap.get(task.categoryId)?.color}
+        isPicked={task.id === pickedTaskId}
+        onPickUp={onPickUp}
+      />,
+    );
+  }
+  if (slot === dropIndex) items.push(<DropIndicator key="drop-indicator" />);
+
+  return (
+    <section
+      ref={setNodeRef}
+      className={cn(
+        'flex min-h-[120px] min-w-[220px] flex-1 flex-col gap-2 rounded-[var(--radius)] bg-[var(--muted)] p-2 transition-colors',
+        (isOver || dropIndex !== undefined) &&
+          'bg-[color-mix(in_srgb,var(--primary)_8%,var(--muted))]',
+      )}
+      aria-label={`${label}, ${tasks.length} task${tasks.length !== 1 ? 's' : ''}`}
+    >
+      <h3 className="flex items-center justify-between px-1 text-xs font-semibold uppercase tracking-wide text-[var(--muted-foreground)]">
+        {label}
+        <span className="font-normal">{tasks.length}</span>
+      </h3>
+      <SortableContext items={tasks.map((t) => t.id)} strategy={verticalListSortingStrategy}>
+        {items}
+      </SortableContext>
+    </section>
+  );
+});
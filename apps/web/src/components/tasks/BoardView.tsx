@@ -0,0 +1,222 @@
+import {
+  closestCorners,
+  DndContext,
+  DragOverlay,
+  MouseSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { Plus } from 'lucide-react';
+import { useCallback, useMemo, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Spinner } from '@/components/ui/Spinner';
+import { useCategories } from '@/hooks/use-categories';
+import { useKeyboardBoardDnd } from '@/hooks/use-keyboard-board-dnd';
+import { useReorderTasks, useUpdateTask } from '@/hooks/use-task-mutations';
+import { useTasks } from '@/hooks/use-tasks';
+import { BOARD_COLUMNS, buildBoardLanes, findCardPosition, planBoardMove } from '@/lib/board';
+import { useCalendarStore } from '@/stores/calendar-store';
+import { useUIStore } from '@/stores/ui-store';
+
+import { BoardColumn } from './BoardColumn';
+
+import type { BoardPosition, BoardSwimlane } from '@/lib/board';
+import type { TaskFilter } from '@/types/filters';
+import type { CalendarCategory, Task, TaskStatus } from '@calley/shared';
+import type { DragEndEvent, DragStartEvent } from '@dnd-kit/core';
+
+const BOARD_FILTERS: TaskFilter = { sort: 'sort_order' };
+
+export function BoardView() {
+  const swimlane = useCalendarStore((s) => s.boardSwimlane);
+  const setSwimlane = useCalendarStore((s) => s.setBoardSwimlane);
+  const hiddenCategoryIds = useCalendarStore((s) => s.hiddenCategoryIds);
+  const openTaskDrawer = useUIStore((s) => s.openTaskDrawer);
+
+  const { data: tasks = [], isLoading } = useTasks(BOARD_FILTERS);
+  const { data: categories = [] } = useCategories();
+  const updateTask = useUpdateTask();
+  const reorderTasks = useReorderTasks();
+
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
+
+  // Respect the sidebar's category visibility, like the calendar views
+  const lanes = useMemo(
+    () =>
+      buildBoardLanes(
+        tasks.filter((t) => !hiddenCategoryIds.has(t.categoryId)),
+        swimlane,
+        categories.filter((c) => !hiddenCategoryIds.has(c.id)),
+      ),
+    [tasks, swimlane, categories, hiddenCategoryIds],
+  );
+
+  const categoryMap = useMemo(
+    () => new Map<string, CalendarCategory>(categories.map((c) => [c.id, c])),
+    [categories],
+  );
+
+  const moveCard = useCallback(
+    (taskId: string, target: BoardPosition) => {
+      const move = planBoardMove(lanes, swimlane, taskId, target);
+      if (!move) return;
+      if (move.changes) {
+        updateTask.mutate({ taskId, data: move.changes });
+      }
+      reorderTasks.mutate(move.orderedIds);
+    },
+    [lanes, swimlane, updateTask, reorderTasks],
+  );
+
+  const keyboardDnd = useKeyboardBoardDnd(lanes, moveCard);
+
+  const mouseSensor = useSensor(MouseSensor, {
+    activationConstraint: { distance: 5 },
+  });
+  const touchSensor = useSensor(TouchSensor, {
+    activationConstraint: { delay: 200, tolerance: 5 },
+  });
+  const sensors = useSensors(mouseSensor, touchSensor);
+
+  const handleDragStart = useCallback((event: DragStartEvent) => {
+    const data = event.active.data.current as { task: Task; type: string } | undefined;
+    if (data?.type === 'board-card') {
+      setActiveTask(data.task);
+    }
+  }, []);
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      setActiveTask(null);
+
+      const { active, over } = event;
+      if (!over || active.id === over.id) return;
+
+      const taskId = String(active.id);
+      const overData = over.data.current as
+        | { type: 'board-card'; task: Task }
+        | { type: 'board-column'; laneId: string; status: TaskStatus }
+        | undefined;
+
+      let target: BoardPosition | null = null;
+      if (overData?.type === 'board-card') {
+        // Dropping onto a card takes its slot
+        target = findCardPosition(lanes, overData.task.id);
+      } else if (overData?.type === 'board-column') {
+        // Dropping onto a column's empty space appends to it
+        const lane = lanes.find((l) => l.id === overData.laneId);
+        target = {
+          laneId: overData.laneId,
+          status: overData.status,
+          index: lane?.columns[overData.status].length ?? 0,
+        };
+      }
+
+      if (target) moveCard(taskId, target);
+    },
+    [lanes, moveCard],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center text-[var(--muted-foreground)]">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2 border-b border-[var(--border)] px-4 py-2">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-[var(--muted-foreground)]">Swimlanes</span>
+          <Select value={swimlane} onValueChange={(v) => setSwimlane(v as BoardSwimlane)}>
+            <SelectTrigger className="h-7 w-auto min-w-[110px] text-xs" aria-label="Swimlanes">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="priority">Priority</SelectItem>
+              <SelectItem value="category">Category</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => openTaskDrawer()}>
+          <Plus className="mr-1 h-4 w-4" />
+          New task
+        </Button>
+      </div>
+
+      {/* Lanes */}
+      <div className="flex-1 overflow-auto p-4">
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCorners}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+        >
+          <div className="flex flex-col gap-6">
+            {lanes.map((lane) => (
+              <div key={lane.id} role="group" aria-label={lane.label}>
+                {swimlane !== 'none' && (
+                  <h2 className="mb-2 flex items-center gap-2 text-sm font-semibold text-[var(--foreground)]">
+                    {lane.color && (
+                      <span
+                        className="h-2.5 w-2.5 shrink-0 rounded-full"
+                        style={{ backgroundColor: lane.color }}
+                        aria-hidden="true"
+                      />
+                    )}
+                    {lane.label}
+                  </h2>
+                )}
+                <div className="flex gap-3">
+                  {BOARD_COLUMNS.map(({ status, label }) => {
+                    const isDropTarget =
+                      keyboardDnd.target?.laneId === lane.id &&
+                      keyboardDnd.target.status === status;
+                    return (
+                      <BoardColumn
+                        key={status}
+                        laneId={lane.id}
+                        status={status}
+                        label={label}
+                        tasks={lane.columns[status]}
+                        categoryMap={categoryMap}
+                        pickedTaskId={keyboardDnd.pickedTask?.id}
+                        dropIndex={isDropTarget ? keyboardDnd.target!.index : undefined}
+                        onPickUp={keyboardDnd.pickUp}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* DnD overlay for the dragged card */}
+          <DragOverlay dropAnimation={null}>
+            {activeTask && (
+              <div
+                className="rounded-[var(--radius)] border border-[var(--border)] bg-[var(--surface)] px-2.5 py-2 text-sm font-medium shadow-[var(--shadow-md)]"
+                style={{ opacity: 0.85, maxWidth: 260 }}
+              >
+                {activeTask.title}
+              </div>
+            )}
+          </DragOverlay>
+        </DndContext>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Archive, ArchiveRestore, CheckCircle2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useArchiveCompleted, useArchiveTask, useUnarchiveTask } from '@/hooks/use-task-mutations';
+import { useCompletedTasks } from '@/hooks/use-tasks';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { groupByCompletionDate } from '@/lib/task-history';
+import { useUIStore } from '@/stores/ui-store';
+
+/**
+ * Everything the user has finished, archived or not, grouped by the day
+ * it was completed. Archiving tidies a done task out of the task lists;
+ * it stays here and can be brought back.
+ */
+export function CompletedTasksDialog() {
+  const open = useUIStore((s) => s.completedHistoryOpen);
+  const setOpen = useUIStore((s) => s.setCompletedHistoryOpen);
+  const userTimezone = useUserTimezone();
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useCompletedTasks(open);
+  const archiveTask = useArchiveTask();
+  const unarchiveTask = useUnarchiveTask();
+  const archiveCompleted = useArchiveCompleted();
+
+  const tasks = data?.pages.flatMap((page) => page.tasks) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  const days = groupByCompletionDate(tasks, userTimezone);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {open && (
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Completed tasks</DialogTitle>
+            <DialogDescription>
+              {total === 0
+                ? 'Tasks you finish show up here.'
+                : `${total} completed task${total !== 1 ? 's' : ''}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {isLoading && <p className="text-sm text-[var(--muted-foreground)]">Loading…</p>}
+
+            {days.map((day) => (
+              <section key={day.date} aria-label={format(parseISO(day.date), 'EEEE, MMMM d')}>
+                <h3 className="mb-1 text-xs font-semibold uppercase tracking-wider text-[var(--muted-foreground)]">
+                  {format(parseISO(day.date), 'EEE, MMM d, yyyy')}
+                </h3>
+                <ul className="space-y-0.5">
+                  {day.tasks.map((task) => (
+                    <li
+                      key={task.id}
+                      className="group flex items-center gap-2 rounded-[var(--radius-sm)] px-1 py-1 text-sm hover:bg-[var(--accent-ui)]"
+                    >
+                      <CheckCircle2
+                        className="h-3.5 w-3.5 shrink-0 text-[var(--muted-foreground)]"
+                        aria-hidden="true"
+                      />
+                      <span className="flex-1 truncate">{task.title}</span>
+                      <span className="text-xs text-[var(--muted-foreground)]">
+                        {task.archivedAt
+                          ? 'Archived'
+                          : formatInTimeZone(task.completedAt!, userTimezone, 'h:mm a')}
+                      </span>
+                      {task.archivedAt ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => unarchiveTask.mutate(task.id)}
+                          aria-label={`Unarchive ${task.title}`}
+                        >
+                          <ArchiveRestore className="h-3.5 w-3.5" />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => archiveTask.mutate(task.id)}
+                          aria-label={`Archive ${task.title}`}
+                        >
+                          <Archive className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => archiveCompleted.mutate()}
+              disabled={total === 0 || archiveCompleted.isPending}
+            >
+              Archive all
+            </Button>
+            {hasNextPage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? 'Loading…' : 'Load more'}
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
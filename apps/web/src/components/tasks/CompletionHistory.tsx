@@ -0,0 +1,56 @@
+import { format, parseISO } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { CheckCircle2 } from 'lucide-react';
+
+import { Label } from '@/components/ui/label';
+import { useTaskCompletions } from '@/hooks/use-tasks';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+
+import type { Task } from '@calley/shared';
+
+/** How many past completions the drawer lists */
+const VISIBLE_COMPLETIONS = 5;
+
+interface CompletionHistoryProps {
+  task: Task;
+}
+
+/**
+ * When a task that repeats after completion was last done, shown in the
+ * task drawer. Each completion moved the due date on, so the history is
+ * the only record of the earlier rounds.
+ */
+export function CompletionHistory({ task }: CompletionHistoryProps) {
+  const userTimezone = useUserTimezone();
+  const { data: completions = [] } = useTaskCompletions(task.id);
+
+  const formatCompletion = (completedAt: string) =>
+    format(toZonedTime(parseISO(completedAt), userTimezone), 'EEE, MMM d, yyyy');
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <Label>Completion history</Label>
+        <span className="text-xs text-[var(--muted-foreground)]">
+          {completions.length === 0
+            ? 'Not done yet'
+            : `Done ${completions.length} ${completions.length === 1 ? 'time' : 'times'}`}
+        </span>
+      </div>
+
+      {completions.length > 0 && (
+        <ul className="space-y-0.5">
+          {completions.slice(0, VISIBLE_COMPLETIONS).map((completion) => (
+            <li
+              key={completion.id}
+              className="flex items-center gap-2 px-1 py-0.5 text-sm text-[var(--muted-foreground)]"
+            >
+              <CheckCircle2 className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+              {formatCompletion(completion.completedAt)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
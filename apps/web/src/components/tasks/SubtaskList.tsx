@@ -0,0 +1,151 @@
+import { format, parseISO } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { ListChecks } from 'lucide-react';
+import { useCallback, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useCreateTask, useToggleTask } from '@/hooks/use-task-mutations';
+import { useSubtasks } from '@/hooks/use-tasks';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { useUIStore } from '@/stores/ui-store';
+
+import type { Task } from '@calley/shared';
+
+interface SubtaskListProps {
+  task: Task;
+}
+
+/**
+ * Checklist of a task's direct subtasks, shown in the task drawer.
+ * The progress bar rolls up over every nested subtask; clicking a
+ * subtask opens it in the drawer so its own subtasks can be edited.
+ */
+export function SubtaskList({ task }: SubtaskListProps) {
+  const userTimezone = useUserTimezone();
+  const { data: subtasks = [] } = useSubtasks(task.id);
+  const createTask = useCreateTask();
+  const toggleTask = useToggleTask();
+  const openTaskDrawer = useUIStore((s) => s.openTaskDrawer);
+  const [newTitle, setNewTitle] = useState('');
+
+  const { total, done } = task.subtaskProgress;
+  const canCompleteAll = task.status !== 'done' && done < total;
+
+  const handleAdd = useCallback(() => {
+    const title = newTitle.trim();
+    if (!title) return;
+    createTask.mutate(
+      { title, categoryId: task.categoryId, priority: 'none', parentTaskId: task.id },
+      { onSuccess: () => setNewTitle('') },
+    );
+  }, [newTitle, createTask, task.categoryId, task.id]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="subtask-new">Subtasks</Label>
+        {total > 0 && (
+          <span className="text-xs text-[var(--muted-foreground)]">
+            {done}/{total} done
+          </span>
+        )}
+      </div>
+
+      {total > 0 && (
+        <div
+          className="h-1.5 overflow-hidden rounded-full bg-[var(--muted)]"
+          role="progressbar"
+          aria-label="Subtask progress"
+          aria-valuemin={0}
+          aria-valuemax={total}
+          aria-valuenow={done}
+        >
+          <div
+            className="h-full rounded-full bg-[var(--primary)] transition-all"
+            style={{ width: `${(done / total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {subtasks.length > 0 && (
+        <ul className="space-y-0.5">
+          {subtasks.map((subtask) => {
+            const isDone = subtask.status === 'done';
+            return (
+              <li
+                key={subtask.id}
+                className="flex items-center gap-2 rounded-[var(--radius)] px-1 py-1 hover:bg-[var(--accent-ui)]"
+              >
+                <Checkbox
+                  checked={isDone}
+                  onCheckedChange={() => toggleTask.mutate({ taskId: subtask.id })}
+                  aria-label={`Mark "${subtask.title}" as ${isDone ? 'incomplete' : 'complete'}`}
+                />
+                <button
+                  type="button"
+                  className={`min-w-0 flex-1 truncate text-left text-sm ${
+                    isDone ? 'text-[var(--muted-foreground)] line-through' : ''
+                  }`}
+                  onClick={() => openTaskDrawer({ taskId: subtask.id })}
+                >
+                  {subtask.title}
+                </button>
+                {subtask.subtaskProgress.total > 0 && (
+                  <span className="inline-flex shrink-0 items-center gap-0.5 text-xs text-[var(--muted-foreground)]">
+                    <ListChecks className="h-3 w-3" aria-hidden="true" />
+                    {subtask.subtaskProgress.done}/{subtask.subtaskProgress.total}
+                  </span>
+                )}
+                {subtask.dueAt && (
+                  <span className="shrink-0 text-xs text-[var(--muted-foreground)]">
+                    {format(toZonedTime(parseISO(subtask.dueAt), userTimezone), 'MMM d')}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          id="subtask-new"
+          placeholder="Add a subtask"
+          value={newTitle}
+          maxLength={200}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep Enter from submitting the surrounding task form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleAdd}
+          disabled={!newTitle.trim() || createTask.isPending}
+        >
+          Add
+        </Button>
+      </div>
+
+      {canCompleteAll && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => toggleTask.mutate({ taskId: task.id, completeSubtasks: true })}
+          disabled={toggleTask.isPending}
+        >
+          Complete task and all subtasks
+        </Button>
+      )}
+    </div>
+  );
+}
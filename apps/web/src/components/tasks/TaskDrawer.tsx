@@ -1,6 +1,7 @@
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format, parseISO } from 'date-fns';
 import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { Target } from 'lucide-react';
 import { lazy, Suspense, useCallback, useEffect, useMemo, useState } from 'react';
 import { Controller, useForm } from 'react-hook-form';
 import { z } from 'zod';
@@ -11,6 +12,11 @@ const LazyRecurrenceBuilderModal = lazy(() =>
   })),
 );
 import { RecurrenceScopeDialog } from '@/components/calendar/RecurrenceScopeDialog';
+import { TagPicker } from '@/components/tags/TagPicker';
+import { BlockerPicker } from '@/components/tasks/BlockerPicker';
+import { CompletionHistory } from '@/components/tasks/CompletionHistory';
+import { SubtaskList } from '@/components/tasks/SubtaskList';
+import { TimeTracking } from '@/components/tasks/TimeTracking';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -26,6 +32,8 @@ import { useCategories } from '@/hooks/use-categories';
 import { useCreateTask, useDeleteTask, useUpdateTask } from '@/hooks/use-task-mutations';
 import { useTask } from '@/hooks/use-tasks';
 import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { describeRepeatAfter } from '@/lib/repeat-after';
+import { useCalendarStore } from '@/stores/calendar-store';
 import { useUIStore } from '@/stores/ui-store';
 
 import type { EditScope } from '@calley/shared';
@@ -43,8 +51,19 @@ const taskFormSchema = z.object({
   dueTime: z.string().optional(),
   priority: z.enum(['none', 'low', 'medium', 'high']),
   status: z.enum(['todo', 'in_progress', 'done']),
+  /** Whole minutes; empty for no estimate */
+  estimatedMinutes: z
+    .string()
+    .refine(
+      (v) => !v || (Number.isInteger(Number(v)) && Number(v) >= 1 && Number(v) <= 10080),
+      'Estimate must be between 1 minute and 1 week',
+    ),
   categoryId: z.string().min(1, 'Category is required'),
+  tagIds: z.array(z.string()),
+  blockedByIds: z.array(z.string()),
   rrule: z.string().optional(),
+  /** FREQ/INTERVAL counted from each completion; exclusive with rrule */
+  repeatAfter: z.string().optional(),
   reminderMinutes: z.string().optional(),
 });
 
@@ -110,6 +129,15 @@ export function TaskDrawer() {
   const { data: existingTask } = useTask(isEditMode && open ? taskId : null);
 
   const isRecurring = isEditMode && !!(existingTask?.rrule || existingTask?.recurringTaskId);
+  const isSubtask = isEditMode && !!existingTask?.parentTaskId;
+  const openTaskDrawer = useUIStore((s) => s.openTaskDrawer);
+  const setCalendarDate = useCalendarStore((s) => s.setDate);
+  const setCalendarView = useCalendarStore((s) => s.setView);
+
+  // Where the task's focus block sits, shown in the user's timezone
+  const zonedScheduledAt = existingTask?.scheduledAt
+    ? toZonedTime(parseISO(existingTask.scheduledAt), userTimezone)
+    : null;
 
   // Scope dialog state for recurring tasks
   const [scopeDialog, setScopeDialog] = useState<{
@@ -139,8 +167,12 @@ export function TaskDrawer() {
         dueTime,
         priority: existingTask.priority as TaskFormValues['priority'],
         status: existingTask.status as TaskFormValues['status'],
+        estimatedMinutes: existingTask.estimatedMinutes?.toString() ?? '',
         categoryId: existingTask.categoryId,
+        tagIds: existingTask.tagIds,
+        blockedByIds: existingTask.blockedBy.map((b) => b.id),
         rrule: existingTask.rrule ?? '',
+        repeatAfter: existingTask.repeatAfter ?? '',
         reminderMinutes: 'none',
       };
     }
@@ -159,8 +191,12 @@ export function TaskDrawer() {
       dueTime: '',
       priority: 'none',
       status: 'todo',
+      estimatedMinutes: '',
       categoryId: defaultCategory?.id ?? categories[0]?.id ?? '',
+      tagIds: [],
+      blockedByIds: [],
       rrule: '',
+      repeatAfter: '',
       reminderMinutes: 'none',
     };
   }, [isEditMode, existingTask, defaultDate, categories, userTimezone]);
@@ -187,12 +223,13 @@ export function TaskDrawer() {
 
   const watchedDueDate = watch('dueDate');
   const watchedRrule = watch('rrule');
+  const watchedRepeatAfter = watch('repeatAfter');
 
   // Determine if current rrule is a custom (non-preset) value
   const isCustomRrule = useMemo(() => {
-    if (!watchedRrule) return false;
+    if (!watchedRrule || watchedRepeatAfter) return false;
     return !RECURRENCE_PRESETS.some((p) => p.value === watchedRrule);
-  }, [watchedRrule]);
+  }, [watchedRrule, watchedRepeatAfter]);
 
   // ─── Submit Handler ─────────────────────────────────────────────
 
@@ -218,8 +255,12 @@ export function TaskDrawer() {
         description: data.description || null,
         dueAt,
         priority: data.priority,
+        estimatedMinutes: data.estimatedMinutes ? Number(data.estimatedMinutes) : null,
         categoryId: data.categoryId,
+        tagIds: data.tagIds,
+        blockedByIds: data.blockedByIds,
         rrule,
+        repeatAfter: data.repeatAfter || null,
         ...(reminderMinutes != null
           ? { reminder: { minutesBefore: reminderMinutes, method: 'push' as const } }
           : {}),
@@ -298,8 +339,44 @@ export function TaskDrawer() {
         <SheetContent side="right" className="w-full overflow-y-auto sm:max-w-lg">
           <SheetHeader>
             <SheetTitle>{isEditMode ? 'Edit Task' : 'New Task'}</SheetTitle>
+            {isSubtask && existingTask?.parentTaskId && (
+              <button
+                type="button"
+                className="self-start text-xs text-[var(--muted-foreground)] hover:underline"
+                onClick={() => openTaskDrawer({ taskId: existingTask.parentTaskId! })}
+              >
+                ← Back to parent task
+              </button>
+            )}
           </SheetHeader>
 
+          {zonedScheduledAt && (
+            <div className="mt-4 flex items-center justify-between gap-2 rounded-[var(--radius)] border border-[var(--border)] bg-[var(--muted)] px-3 py-2 text-sm">
+              <span className="flex min-w-0 items-center gap-1.5">
+                <Target
+                  className="h-4 w-4 shrink-0 text-[var(--muted-foreground)]"
+                  aria-hidden="true"
+                />
+                <span className="truncate">
+                  Focus block {format(zonedScheduledAt, "EEE, MMM d 'at' h:mm a")}
+                </span>
+              </span>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto shrink-0 p-0"
+                onClick={() => {
+                  closeTaskDrawer();
+                  setCalendarDate(zonedScheduledAt);
+                  setCalendarView('day');
+                }}
+              >
+                Show in calendar
+              </Button>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit(onSubmit)} className="mt-6 space-y-5" noValidate>
             {/* Title */}
             <div className="space-y-1.5">
@@ -372,6 +449,32 @@ export function TaskDrawer() {
               />
             </div>
 
+            {/* Estimate */}
+            <div className="space-y-1.5">
+              <Label htmlFor="task-estimate">Estimate (minutes)</Label>
+              <Input
+                id="task-estimate"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                max={10080}
+                step={5}
+                placeholder="No estimate"
+                aria-describedby={errors.estimatedMinutes ? 'task-estimate-error' : undefined}
+                aria-invalid={!!errors.estimatedMinutes}
+                {...register('estimatedMinutes')}
+              />
+              {errors.estimatedMinutes && (
+                <p
+                  id="task-estimate-error"
+                  className="text-xs text-[var(--destructive)]"
+                  role="alert"
+                >
+                  {errors.estimatedMinutes.message}
+                </p>
+              )}
+            </div>
+
             {/* Status (only in edit mode) */}
             {isEditMode && (
               <div className="space-y-1.5">
@@ -431,43 +534,92 @@ export function TaskDrawer() {
               )}
             </div>
 
-            {/* Recurrence */}
+            {/* Tags */}
             <div className="space-y-1.5">
-              <Label>Repeat</Label>
+              <Label htmlFor="task-new-tag">Tags</Label>
               <Controller
-                name="rrule"
+                name="tagIds"
                 control={control}
                 render={({ field }) => (
-                  <Select
-                    value={isCustomRrule ? '_custom_set' : field.value || '_none'}
-                    onValueChange={(v) => {
-                      if (v === '_custom') {
-                        setRecurrenceBuilderOpen(true);
-                        return;
-                      }
-                      if (v === '_custom_set') {
-                        setRecurrenceBuilderOpen(true);
-                        return;
-                      }
-                      field.onChange(v === '_none' ? '' : v);
-                    }}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Does not repeat" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {RECURRENCE_PRESETS.map((preset) => (
-                        <SelectItem key={preset.value || '_none'} value={preset.value || '_none'}>
-                          {preset.label}
-                        </SelectItem>
-                      ))}
-                      {isCustomRrule && <SelectItem value="_custom_set">Custom rule</SelectItem>}
-                    </SelectContent>
-                  </Select>
+                  <TagPicker id="task-new-tag" value={field.value} onChange={field.onChange} />
                 )}
               />
             </div>
 
+            {/* Dependencies */}
+            <div className="space-y-1.5">
+              <Label htmlFor="task-blockers">Blocked by</Label>
+              <Controller
+                name="blockedByIds"
+                control={control}
+                render={({ field }) => (
+                  <BlockerPicker
+                    id="task-blockers"
+                    taskId={isEditMode ? (taskId ?? null) : null}
+                    value={field.value}
+                    onChange={field.onChange}
+                    knownBlockers={existingTask?.blockedBy}
+                  />
+                )}
+              />
+            </div>
+
+            {/* Subtasks (edit mode only; new tasks need saving first) */}
+            {isEditMode && existingTask && <SubtaskList task={existingTask} />}
+
+            {/* Time tracking (edit mode only) */}
+            {isEditMode && existingTask && <TimeTracking task={existingTask} />}
+
+            {/* Completion history (tasks that repeat after completion) */}
+            {isEditMode && existingTask?.repeatAfter && <CompletionHistory task={existingTask} />}
+
+            {/* Recurrence (subtasks cannot repeat) */}
+            {!isSubtask && (
+              <div className="space-y-1.5">
+                <Label>Repeat</Label>
+                <Controller
+                  name="rrule"
+                  control={control}
+                  render={({ field }) => (
+                    <Select
+                      value={
+                        watchedRepeatAfter
+                          ? '_after_completion'
+                          : isCustomRrule
+                            ? '_custom_set'
+                            : field.value || '_none'
+                      }
+                      onValueChange={(v) => {
+                        if (v === '_custom' || v === '_custom_set' || v === '_after_completion') {
+                          setRecurrenceBuilderOpen(true);
+                          return;
+                        }
+                        setValue('repeatAfter', '');
+                        field.onChange(v === '_none' ? '' : v);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Does not repeat" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RECURRENCE_PRESETS.map((preset) => (
+                          <SelectItem key={preset.value || '_none'} value={preset.value || '_none'}>
+                            {preset.label}
+                          </SelectItem>
+                        ))}
+                        {isCustomRrule && <SelectItem value="_custom_set">Custom rule</SelectItem>}
+                        {watchedRepeatAfter && (
+                          <SelectItem value="_after_completion">
+                            {describeRepeatAfter(watchedRepeatAfter)}
+                          </SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+            )}
+
             {/* Reminder */}
             <div className="space-y-1.5">
               <Label>Reminder</Label>
@@ -532,9 +684,14 @@ export function TaskDrawer() {
           <LazyRecurrenceBuilderModal
             open={recurrenceBuilderOpen}
             onOpenChange={setRecurrenceBuilderOpen}
-            initialRrule={watchedRrule || null}
+            initialRrule={watchedRepeatAfter || watchedRrule || null}
+            initialMode={watchedRepeatAfter ? 'completion' : 'schedule'}
+            allowAfterCompletion
             startDate={watchedDueDate || format(new Date(), 'yyyy-MM-dd')}
-            onSave={(rrule) => setValue('rrule', rrule)}
+            onSave={(rule, mode) => {
+              setValue('rrule', mode === 'schedule' ? rule : '');
+              setValue('repeatAfter', mode === 'completion' ? rule : '');
+            }}
           />
         </Suspense>
       )}
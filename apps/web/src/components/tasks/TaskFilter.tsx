@@ -7,12 +7,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { useTags } from '@/hooks/use-tags';
 
 interface TaskFilterProps {
   showCompleted: boolean;
   onShowCompletedChange: (show: boolean) => void;
   priorityFilter: string;
   onPriorityFilterChange: (priority: string) => void;
+  tagFilter: string;
+  onTagFilterChange: (tagId: string) => void;
 }
 
 export const TaskFilter = memo(function TaskFilter({
@@ -20,7 +23,11 @@ export const TaskFilter = memo(function TaskFilter({
   onShowCompletedChange,
   priorityFilter,
   onPriorityFilterChange,
+  tagFilter,
+  onTagFilterChange,
 }: TaskFilterProps) {
+  const { data: tags = [] } = useTags();
+
   return (
     <div className="flex items-center gap-2 px-3 pb-2">
       {/* Priority filter */}
@@ -37,6 +44,29 @@ export const TaskFilter = memo(function TaskFilter({
         </SelectContent>
       </Select>
 
+      {/* Tag filter (hidden until the user has tags) */}
+      {tags.length > 0 && (
+        <Select value={tagFilter} onValueChange={onTagFilterChange}>
+          <SelectTrigger className="h-7 w-auto min-w-[90px] text-xs" aria-label="Filter by tag">
+            <SelectValue placeholder="Tag" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All tags</SelectItem>
+            {tags.map((tag) => (
+              <SelectItem key={tag.id} value={tag.id}>
+                <div className="flex items-center gap-2">
+                  <span
+                    className="inline-block h-2 w-2 shrink-0 rounded-full"
+                    style={{ backgroundColor: tag.color }}
+                  />
+                  {tag.name}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
       {/* Show completed toggle */}
       <button
         type="button"
@@ -1,13 +1,15 @@
 import { useDraggable } from '@dnd-kit/core';
 import { format, isPast, isToday, parseISO } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
-import { Repeat } from 'lucide-react';
+import { ListChecks, Lock, Repeat } from 'lucide-react';
 import { memo, useCallback, useRef } from 'react';
 
+import { TagChips } from '@/components/tags/TagChips';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useCategories } from '@/hooks/use-categories';
 import { useToggleTask } from '@/hooks/use-task-mutations';
 import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { getOpenBlockers } from '@/lib/task-dependencies';
 import { useUIStore } from '@/stores/ui-store';
 
 import type { Task } from '@calley/shared';
@@ -41,7 +43,10 @@ export const TaskItem = memo(function TaskItem({
   const { data: categories = [] } = useCategories();
 
   const isDone = task.status === 'done';
-  const isRecurring = !!task.rrule || !!task.recurringTaskId;
+  const isRecurring = !!task.rrule || !!task.recurringTaskId || !!task.repeatAfter;
+  const { total: subtaskTotal, done: subtaskDone } = task.subtaskProgress;
+  const openBlockers = isDone ? [] : getOpenBlockers(task);
+  const isBlocked = openBlockers.length > 0;
 
   const category = categories.find((c) => c.id === task.categoryId);
   const categoryColor = category?.color ?? '#94a3b8';
@@ -63,13 +68,16 @@ export const TaskItem = memo(function TaskItem({
       if (!isInteractableRef.current) return;
 
       isInteractableRef.current = false;
-      toggleTask.mutate(task.id, {
-        onSettled: () => {
-          setTimeout(() => {
-            isInteractableRef.current = true;
-          }, 100);
+      toggleTask.mutate(
+        { taskId: task.id },
+        {
+          onSettled: () => {
+            setTimeout(() => {
+              isInteractableRef.current = true;
+            }, 100);
+          },
         },
-      });
+      );
     }
   }, [isSelecting, onToggleSelect, toggleTask, task.id]);
 
@@ -101,10 +109,11 @@ export const TaskItem = memo(function TaskItem({
       ref={setNodeRef}
       className={`group flex items-start gap-2.5 rounded-[var(--radius)] px-2 py-1.5 transition-colors hover:bg-[var(--accent-ui)] ${
         isSelected ? 'bg-[color-mix(in_srgb,var(--primary)_8%,transparent)]' : ''
-      } ${isDragging ? 'opacity-40' : ''}`}
+      } ${isDragging ? 'opacity-40' : isBlocked ? 'opacity-60' : ''}`}
       {...(draggableToCalendar && !isSelecting ? { ...attributes, ...listeners } : {})}
       role="listitem"
       data-task-id={task.id}
+      data-blocked={isBlocked}
       data-optimistic={task.id.startsWith('optimistic-')}
     >
       {/* Category color stripe */}
@@ -149,7 +158,9 @@ export const TaskItem = memo(function TaskItem({
             className={`truncate text-sm transition-all duration-300 ${
               isDone
                 ? 'text-[var(--muted-foreground)] line-through opacity-60'
-                : 'text-[var(--foreground)]'
+                : isBlocked
+                  ? 'text-[var(--muted-foreground)]'
+                  : 'text-[var(--foreground)]'
             }`}
           >
             {task.title}
@@ -164,17 +175,44 @@ export const TaskItem = memo(function TaskItem({
           )}
         </div>
 
-        {/* Due date badge */}
-        {dueDateLabel && (
-          <span
-            className={`mt-0.5 inline-block text-xs ${
-              isOverdue
-                ? 'font-medium text-[var(--color-danger,#c0392b)]'
-                : 'text-[var(--muted-foreground)]'
-            }`}
-          >
-            {dueDateLabel}
-          </span>
+        {(dueDateLabel || subtaskTotal > 0 || task.tagIds.length > 0) && (
+          <div className="mt-0.5 flex items-center gap-2">
+            {/* Due date badge */}
+            {dueDateLabel && (
+              <span
+                className={`inline-block text-xs ${
+                  isOverdue
+                    ? 'font-medium text-[var(--color-danger,#c0392b)]'
+                    : 'text-[var(--muted-foreground)]'
+                }`}
+              >
+                {dueDateLabel}
+              </span>
+            )}
+
+            {/* Subtask progress (rolled up over nested subtasks) */}
+            {subtaskTotal > 0 && (
+              <span
+                className="inline-flex items-center gap-0.5 text-xs text-[var(--muted-foreground)]"
+                aria-label={`${subtaskDone} of ${subtaskTotal} subtasks done`}
+              >
+                <ListChecks className="h-3 w-3" aria-hidden="true" />
+                {subtaskDone}/{subtaskTotal}
+              </span>
+            )}
+
+            <TagChips tagIds={task.tagIds} />
+          </div>
+        )}
+
+        {/* Blockers still open */}
+        {isBlocked && (
+          <div className="mt-0.5 flex items-center gap-1 text-xs text-[var(--muted-foreground)]">
+            <Lock className="h-3 w-3 shrink-0" aria-hidden="true" />
+            <span className="truncate">
+              Blocked by {openBlockers.map((b) => b.title).join(', ')}
+            </span>
+          </div>
         )}
       </button>
     </div>
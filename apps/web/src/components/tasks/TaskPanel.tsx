@@ -1,12 +1,4 @@
-import {
-  closestCenter,
-  DndContext,
-  DragOverlay,
-  MouseSensor,
-  TouchSensor,
-  useSensor,
-  useSensors,
-} from '@dnd-kit/core';
+import { useDndMonitor } from '@dnd-kit/core';
 import { arrayMove } from '@dnd-kit/sortable';
 import { CheckSquare, ListChecks, Plus, Trash2, X } from 'lucide-react';
 import { useCallback, useMemo, useState } from 'react';
@@ -21,12 +13,15 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { useTaskLists } from '@/hooks/use-task-lists';
 import {
+  useArchiveCompleted,
   useBulkCompleteTasks,
   useBulkDeleteTasks,
   useReorderTasks,
 } from '@/hooks/use-task-mutations';
 import { useGroupedTasks } from '@/hooks/use-tasks';
+import { resolveTaskList } from '@/lib/task-lists';
 import { useCalendarStore } from '@/stores/calendar-store';
 import { useTaskSelectionStore } from '@/stores/task-selection-store';
 import { useUIStore } from '@/stores/ui-store';
@@ -36,15 +31,18 @@ import { TaskGroup } from './TaskGroup';
 
 import type { TaskFilter as TaskFilterType } from '@/types/filters';
 import type { Task } from '@calley/shared';
-import type { DragEndEvent, DragStartEvent } from '@dnd-kit/core';
+import type { DragEndEvent } from '@dnd-kit/core';
 
 export function TaskPanel() {
   const isOpen = useCalendarStore((s) => s.isTaskPanelOpen);
   const toggleTaskPanel = useCalendarStore((s) => s.toggleTaskPanel);
+  const activeTaskList = useCalendarStore((s) => s.activeTaskList);
+  const setActiveTaskList = useCalendarStore((s) => s.setActiveTaskList);
   const openTaskDrawer = useUIStore((s) => s.openTaskDrawer);
 
   const [showCompleted, setShowCompleted] = useState(false);
   const [priorityFilter, setPriorityFilter] = useState('all');
+  const [tagFilter, setTagFilter] = useState('all');
 
   // Selection state
   const isSelecting = useTaskSelectionStore((s) => s.isSelecting);
@@ -62,18 +60,25 @@ export function TaskPanel() {
   const reorderTasks = useReorderTasks();
   const bulkComplete = useBulkCompleteTasks();
   const bulkDelete = useBulkDeleteTasks();
+  const archiveCompleted = useArchiveCompleted();
 
-  // DnD state
-  const [activeTask, setActiveTask] = useState<Task | null>(null);
+  // A list picked in the sidebar replaces the panel's own filters
+  const { data: savedLists = [] } = useTaskLists();
+  const activeList = activeTaskList ? resolveTaskList(activeTaskList, savedLists) : null;
 
   // Build filters
-  const filters = useMemo<TaskFilterType>(() => {
+  const panelFilters = useMemo<TaskFilterType>(() => {
     const f: TaskFilterType = { sort: 'sort_order' };
     if (priorityFilter !== 'all') {
       f.priority = [priorityFilter];
     }
+    if (tagFilter !== 'all') {
+      f.tagIds = [tagFilter];
+    }
     return f;
-  }, [priorityFilter]);
+  }, [priorityFilter, tagFilter]);
+
+  const filters = activeList?.filters ?? panelFilters;
 
   const { grouped, isLoading } = useGroupedTasks(filters);
 
@@ -88,31 +93,14 @@ export function TaskPanel() {
     [grouped],
   );
 
-  // Configure DnD sensors
-  const mouseSensor = useSensor(MouseSensor, {
-    activationConstraint: { distance: 5 },
-  });
-  const touchSensor = useSensor(TouchSensor, {
-    activationConstraint: { delay: 200, tolerance: 5 },
-  });
-  const sensors = useSensors(mouseSensor, touchSensor);
-
   const handleNewTask = useCallback(() => {
     openTaskDrawer();
   }, [openTaskDrawer]);
 
-  // DnD handlers for sortable reorder within groups
-  const handleDragStart = useCallback((event: DragStartEvent) => {
-    const data = event.active.data.current as { task: Task; type: string } | undefined;
-    if (data?.task) {
-      setActiveTask(data.task);
-    }
-  }, []);
-
+  // Sortable reorder within groups. Drags run in the app-wide DndContext
+  // (DndCalendarProvider), which also draws the drag overlay.
   const handleDragEnd = useCallback(
     (event: DragEndEvent) => {
-      setActiveTask(null);
-
       const { active, over } = event;
       if (!over || active.id === over.id) return;
 
@@ -136,6 +124,8 @@ export function TaskPanel() {
     [grouped, reorderTasks],
   );
 
+  useDndMonitor({ onDragEnd: handleDragEnd });
+
   // Bulk action handlers
   const handleBulkComplete = useCallback(() => {
     if (selectedIds.size === 0) return;
@@ -172,7 +162,24 @@ export function TaskPanel() {
     >
       {/* Header */}
       <div className="flex items-center justify-between border-b border-[var(--border)] px-3 py-2.5">
-        <h2 className="text-sm font-semibold text-[var(--foreground)]">Tasks</h2>
+        {activeList ? (
+          <div className="flex min-w-0 items-center gap-1">
+            <h2 className="truncate text-sm font-semibold text-[var(--foreground)]">
+              {activeList.label}
+            </h2>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              onClick={() => setActiveTaskList(null)}
+              aria-label="Show all tasks"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ) : (
+          <h2 className="text-sm font-semibold text-[var(--foreground)]">Tasks</h2>
+        )}
         <div className="flex items-center gap-1">
           {/* Multi-select toggle */}
           <Button
@@ -246,27 +253,26 @@ export function TaskPanel() {
         </div>
       )}
 
-      {/* Filters */}
-      <div className="pt-2">
-        <TaskFilter
-          showCompleted={showCompleted}
-          onShowCompletedChange={setShowCompleted}
-          priorityFilter={priorityFilter}
-          onPriorityFilterChange={setPriorityFilter}
-        />
-      </div>
+      {/* Filters (a picked list brings its own) */}
+      {!activeList && (
+        <div className="pt-2">
+          <TaskFilter
+            showCompleted={showCompleted}
+            onShowCompletedChange={setShowCompleted}
+            priorityFilter={priorityFilter}
+            onPriorityFilterChange={setPriorityFilter}
+            tagFilter={tagFilter}
+            onTagFilterChange={setTagFilter}
+          />
+        </div>
+      )}
 
       {/* Task Groups */}
       <div className="flex-1 overflow-y-auto px-1">
         {isLoading ? (
           <TaskPanelSkeleton />
         ) : (
-          <DndContext
-            sensors={sensors}
-            collisionDetection={closestCenter}
-            onDragStart={handleDragStart}
-            onDragEnd={handleDragEnd}
-          >
+          <>
             <TaskGroup
               label="Overdue"
               tasks={grouped.overdue}
@@ -298,43 +304,45 @@ export function TaskPanel() {
               selectedIds={selectedIds}
               onToggleSelect={toggleTaskSelect}
             />
-            {showCompleted && (
-              <TaskGroup
-                label="Completed"
-                tasks={grouped.completed}
-                defaultExpanded={false}
-                variant="completed"
-                isSelecting={isSelecting}
-                selectedIds={selectedIds}
-                onToggleSelect={toggleTaskSelect}
-              />
+            {(showCompleted || activeList) && (
+              <>
+                <TaskGroup
+                  label="Completed"
+                  tasks={grouped.completed}
+                  defaultExpanded={false}
+                  variant="completed"
+                  isSelecting={isSelecting}
+                  selectedIds={selectedIds}
+                  onToggleSelect={toggleTaskSelect}
+                />
+                {grouped.completed.length > 0 && (
+                  <button
+                    type="button"
+                    className="px-2 py-1 text-xs text-[var(--primary)] hover:underline"
+                    onClick={() => archiveCompleted.mutate()}
+                    disabled={archiveCompleted.isPending}
+                  >
+                    Archive completed
+                  </button>
+                )}
+              </>
             )}
 
-            {/* DnD overlay for reorder */}
-            <DragOverlay dropAnimation={null}>
-              {activeTask && (
-                <div
-                  className="rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-xs font-medium shadow-[var(--shadow-md)]"
-                  style={{ opacity: 0.85, maxWidth: 250 }}
-                >
-                  {activeTask.title}
-                </div>
-              )}
-            </DragOverlay>
-
             {/* Empty state */}
             {!grouped.overdue.length &&
               !grouped.today.length &&
               !grouped.upcoming.length &&
               !grouped.noDate.length && (
                 <div className="flex flex-col items-center justify-center py-12 text-center">
-                  <p className="text-sm text-[var(--muted-foreground)]">No tasks yet</p>
+                  <p className="text-sm text-[var(--muted-foreground)]">
+                    {activeList ? 'No open tasks in this list' : 'No tasks yet'}
+                  </p>
                   <Button variant="link" className="mt-1 text-sm" onClick={handleNewTask}>
                     Add a task
                   </Button>
                 </div>
               )}
-          </DndContext>
+          </>
         )}
       </div>
 
@@ -0,0 +1,201 @@
+import { format, parseISO } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { Play, Square, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  useDeleteTimeEntry,
+  useLogTime,
+  useStartTimer,
+  useStopTimer,
+  useTaskTimeEntries,
+} from '@/hooks/use-time-entries';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { formatMinutes, totalTrackedMinutes } from '@/lib/time-tracking';
+import { cn } from '@/lib/utils';
+
+import type { Task } from '@calley/shared';
+
+/** How often the running timer's total is refreshed */
+const TICK_MS = 10 * 1000;
+
+interface TimeTrackingProps {
+  task: Task;
+}
+
+/**
+ * Time logged on a task, shown in the task drawer: the total against the
+ * estimate, a start/stop timer, the individual sessions and a row for
+ * logging a session by hand.
+ */
+export function TimeTracking({ task }: TimeTrackingProps) {
+  const userTimezone = useUserTimezone();
+  const { data: entries = [] } = useTaskTimeEntries(task.id);
+  const startTimer = useStartTimer();
+  const stopTimer = useStopTimer();
+  const logTime = useLogTime();
+  const deleteEntry = useDeleteTimeEntry();
+
+  const isRunning = entries.some((e) => !e.endedAt);
+
+  // Keep the total moving while the timer runs
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    if (!isRunning) return;
+    const id = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(id);
+  }, [isRunning]);
+
+  const tracked = totalTrackedMinutes(entries, now);
+  const estimate = task.estimatedMinutes;
+  const isOver = estimate != null && tracked > estimate;
+
+  const [logDate, setLogDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [logStart, setLogStart] = useState('');
+  const [logEnd, setLogEnd] = useState('');
+
+  const handleLog = () => {
+    if (!logDate || !logStart || !logEnd) return;
+    const startedAt = fromZonedTime(parseISO(`${logDate}T${logStart}`), userTimezone);
+    const endedAt = fromZonedTime(parseISO(`${logDate}T${logEnd}`), userTimezone);
+    if (startedAt >= endedAt) return;
+    logTime.mutate(
+      {
+        taskId: task.id,
+        startedAt: startedAt.toISOString(),
+        endedAt: endedAt.toISOString(),
+      },
+      {
+        onSuccess: () => {
+          setLogStart('');
+          setLogEnd('');
+        },
+      },
+    );
+  };
+
+  const formatEntry = (startedAt: string, endedAt: string | null) => {
+    const start = toZonedTime(parseISO(startedAt), userTimezone);
+    const label = format(start, 'MMM d, h:mm a');
+    if (!endedAt) return `${label} – now`;
+    return `${label} – ${format(toZonedTime(parseISO(endedAt), userTimezone), 'h:mm a')}`;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="time-log-date">Time tracked</Label>
+        <span
+          className={cn(
+            'text-xs',
+            isOver ? 'text-[var(--color-danger,#c0392b)]' : 'text-[var(--muted-foreground)]',
+          )}
+        >
+          {formatMinutes(tracked)}
+          {estimate != null && ` of ${formatMinutes(estimate)} estimated`}
+        </span>
+      </div>
+
+      {estimate != null && (
+        <div
+          className="h-1.5 overflow-hidden rounded-full bg-[var(--muted)]"
+          role="progressbar"
+          aria-label="Time tracked against estimate"
+          aria-valuemin={0}
+          aria-valuemax={estimate}
+          aria-valuenow={Math.min(tracked, estimate)}
+        >
+          <div
+            className={cn(
+              'h-full rounded-full transition-all',
+              isOver ? 'bg-[var(--color-danger,#c0392b)]' : 'bg-[var(--primary)]',
+            )}
+            style={{ width: `${Math.min(tracked / estimate, 1) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={startTimer.isPending || stopTimer.isPending}
+        onClick={() => (isRunning ? stopTimer.mutate(task.id) : startTimer.mutate(task.id))}
+      >
+        {isRunning ? (
+          <>
+            <Square className="mr-1 h-3.5 w-3.5" aria-hidden="true" />
+            Stop timer
+          </>
+        ) : (
+          <>
+            <Play className="mr-1 h-3.5 w-3.5" aria-hidden="true" />
+            Start timer
+          </>
+        )}
+      </Button>
+
+      {entries.length > 0 && (
+        <ul className="space-y-0.5">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-center gap-2 rounded-[var(--radius)] px-1 py-1 text-sm hover:bg-[var(--accent-ui)]"
+            >
+              <span className="min-w-0 flex-1 truncate">
+                {formatEntry(entry.startedAt, entry.endedAt)}
+              </span>
+              <span className="shrink-0 text-xs text-[var(--muted-foreground)]">
+                {formatMinutes(totalTrackedMinutes([entry], now))}
+              </span>
+              <button
+                type="button"
+                className="shrink-0 rounded p-0.5 text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                onClick={() => deleteEntry.mutate({ entryId: entry.id, taskId: task.id })}
+                aria-label={`Delete session ${formatEntry(entry.startedAt, entry.endedAt)}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          id="time-log-date"
+          type="date"
+          className="flex-1"
+          value={logDate}
+          onChange={(e) => setLogDate(e.target.value)}
+          aria-label="Session date"
+        />
+        <Input
+          type="time"
+          className="w-28"
+          value={logStart}
+          onChange={(e) => setLogStart(e.target.value)}
+          aria-label="Session start"
+        />
+        <Input
+          type="time"
+          className="w-28"
+          value={logEnd}
+          onChange={(e) => setLogEnd(e.target.value)}
+          aria-label="Session end"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          disabled={!logStart || !logEnd || logTime.isPending}
+          onClick={handleLog}
+        >
+          Log
+        </Button>
+      </div>
+    </div>
+  );
+}
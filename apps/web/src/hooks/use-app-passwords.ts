@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { API_URL, apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type { AppPassword, AppPasswordWithSecret, CreateAppPasswordInput } from '@calley/shared';
+
+/** Server address entered in CalDAV clients (they discover the rest) */
+export const CALDAV_URL = `${API_URL}/caldav/`;
+
+export function useAppPasswords() {
+  return useQuery({
+    queryKey: queryKeys.appPasswords.all,
+    queryFn: () => apiClient.get<AppPassword[]>('/app-passwords'),
+  });
+}
+
+export function useCreateAppPassword() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateAppPasswordInput) =>
+      apiClient.post<AppPasswordWithSecret>('/app-passwords', data),
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error(err instanceof ApiError ? err.message : 'Failed to create app password');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appPasswords.all });
+    },
+  });
+}
+
+export function useRevokeAppPassword() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (appPasswordId: string) => apiClient.delete(`/app-passwords/${appPasswordId}`),
+    onMutate: async (appPasswordId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.appPasswords.all });
+      const previous = queryClient.getQueryData<AppPassword[]>(queryKeys.appPasswords.all);
+
+      queryClient.setQueryData<AppPassword[]>(queryKeys.appPasswords.all, (old) =>
+        old?.filter((p) => p.id !== appPasswordId),
+      );
+
+      return { previous };
+    },
+    onSuccess: () => {
+      toast.success('App password revoked');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.appPasswords.all, context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to revoke app password');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appPasswords.all });
+    },
+  });
+}
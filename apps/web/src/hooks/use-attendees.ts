@@ -0,0 +1,130 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type {
+  AddAttendeeInput,
+  EventAttendee,
+  RsvpInvitation,
+  RsvpResponseInput,
+  UpdateAttendeeInput,
+} from '@calley/shared';
+
+export function useAttendees(eventId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.attendees.byEvent(eventId ?? ''),
+    queryFn: () => apiClient.get<EventAttendee[]>(`/events/${eventId}/attendees`),
+    enabled: !!eventId,
+  });
+}
+
+export function useAddAttendee(eventId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: AddAttendeeInput) =>
+      apiClient.post<EventAttendee>(`/events/${eventId}/attendees`, data),
+    onSuccess: (attendee) => {
+      toast.success(`Invitation sent to ${attendee.email}`);
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && (err.status === 409 || err.status === 422)) {
+        toast.error(err.message);
+        return;
+      }
+      toast.error('Failed to invite attendee');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendees.byEvent(eventId) });
+    },
+  });
+}
+
+interface UpdateAttendeeVars {
+  attendeeId: string;
+  data: UpdateAttendeeInput;
+}
+
+export function useUpdateAttendee(eventId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ attendeeId, data }: UpdateAttendeeVars) =>
+      apiClient.patch<EventAttendee>(`/events/${eventId}/attendees/${attendeeId}`, data),
+    onMutate: async ({ attendeeId, data }) => {
+      const key = queryKeys.attendees.byEvent(eventId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<EventAttendee[]>(key);
+
+      queryClient.setQueryData<EventAttendee[]>(key, (old) =>
+        old?.map((a) => (a.id === attendeeId ? { ...a, ...data } : a)),
+      );
+
+      return { previous };
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.attendees.byEvent(eventId), context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to update attendee');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendees.byEvent(eventId) });
+    },
+  });
+}
+
+export function useRemoveAttendee(eventId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (attendeeId: string) =>
+      apiClient.delete(`/events/${eventId}/attendees/${attendeeId}`),
+    onMutate: async (attendeeId) => {
+      const key = queryKeys.attendees.byEvent(eventId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<EventAttendee[]>(key);
+
+      queryClient.setQueryData<EventAttendee[]>(key, (old) =>
+        old?.filter((a) => a.id !== attendeeId),
+      );
+
+      return { previous };
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.attendees.byEvent(eventId), context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to remove attendee');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendees.byEvent(eventId) });
+    },
+  });
+}
+
+// ─── Public RSVP ────────────────────────────────────────────────────
+
+export function useRsvpInvitation(token: string) {
+  return useQuery({
+    queryKey: queryKeys.rsvp.invitation(token),
+    queryFn: () => apiClient.get<RsvpInvitation>(`/rsvp/${token}`),
+    retry: false,
+  });
+}
+
+export function useRespondToInvitation(token: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: RsvpResponseInput) => apiClient.post<RsvpInvitation>(`/rsvp/${token}`, data),
+    onSuccess: (invitation) => {
+      queryClient.setQueryData(queryKeys.rsvp.invitation(token), invitation);
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to send your response');
+    },
+  });
+}
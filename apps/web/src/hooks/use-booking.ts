@@ -0,0 +1,187 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type {
+  AppointmentType,
+  Booking,
+  BookingPage,
+  BookingSlotsResponse,
+  BookingWithToken,
+  CreateAppointmentTypeInput,
+  CreateBookingInput,
+  UpdateAppointmentTypeInput,
+} from '@calley/shared';
+
+/**
+ * Build the public URL of a booking page.
+ */
+export function getBookingPageUrl(slug: string): string {
+  return `${window.location.origin}/book/${slug}`;
+}
+
+// ─── Appointment Types ──────────────────────────────────────────────
+
+export function useAppointmentTypes() {
+  return useQuery({
+    queryKey: queryKeys.appointmentTypes.all,
+    queryFn: () => apiClient.get<AppointmentType[]>('/appointment-types'),
+  });
+}
+
+export function useCreateAppointmentType() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateAppointmentTypeInput) =>
+      apiClient.post<AppointmentType>('/appointment-types', data),
+    onSuccess: () => {
+      toast.success('Booking page created');
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error(
+        err instanceof ApiError && err.status === 409
+          ? 'That link is already taken'
+          : 'Failed to create booking page',
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointmentTypes.all });
+    },
+  });
+}
+
+export function useUpdateAppointmentType() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateAppointmentTypeInput }) =>
+      apiClient.patch<AppointmentType>(`/appointment-types/${id}`, data),
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error(
+        err instanceof ApiError && err.status === 409
+          ? 'That link is already taken'
+          : 'Failed to update booking page',
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointmentTypes.all });
+    },
+  });
+}
+
+export function useDeleteAppointmentType() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.delete(`/appointment-types/${id}`),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.appointmentTypes.all });
+      const previous = queryClient.getQueryData<AppointmentType[]>(queryKeys.appointmentTypes.all);
+
+      queryClient.setQueryData<AppointmentType[]>(queryKeys.appointmentTypes.all, (old) =>
+        old?.filter((t) => t.id !== id),
+      );
+
+      return { previous };
+    },
+    onSuccess: () => {
+      toast.success('Booking page deleted');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.appointmentTypes.all, context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to delete booking page');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointmentTypes.all });
+    },
+  });
+}
+
+// ─── Public Booking ─────────────────────────────────────────────────
+
+export function useBookingPage(slug: string) {
+  return useQuery({
+    queryKey: queryKeys.booking.page(slug),
+    queryFn: () => apiClient.get<BookingPage>(`/booking/pages/${slug}`),
+    retry: false,
+  });
+}
+
+export function useBookingSlots(slug: string, start: string, end: string) {
+  return useQuery({
+    queryKey: queryKeys.booking.slots(slug, start, end),
+    queryFn: () => {
+      const params = new URLSearchParams({ start, end });
+      return apiClient.get<BookingSlotsResponse>(`/booking/pages/${slug}/slots?${params}`);
+    },
+  });
+}
+
+export function useCreateBooking(slug: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateBookingInput) =>
+      apiClient.post<BookingWithToken>(`/booking/pages/${slug}`, data),
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error(
+        err instanceof ApiError && err.status === 409
+          ? 'That time was just taken. Please pick another.'
+          : 'Failed to book',
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['booking', 'slots', slug] });
+    },
+  });
+}
+
+export function useBooking(token: string) {
+  return useQuery({
+    queryKey: queryKeys.booking.detail(token),
+    queryFn: () => apiClient.get<Booking>(`/booking/${token}`),
+    retry: false,
+  });
+}
+
+export function useCancelBooking(token: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => apiClient.post<Booking>(`/booking/${token}/cancel`),
+    onSuccess: (booking) => {
+      queryClient.setQueryData(queryKeys.booking.detail(token), booking);
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to cancel your booking');
+    },
+  });
+}
+
+export function useRescheduleBooking(token: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (startAt: string) =>
+      apiClient.post<Booking>(`/booking/${token}/reschedule`, { startAt }),
+    onSuccess: (booking) => {
+      queryClient.setQueryData(queryKeys.booking.detail(token), booking);
+      toast.success('Booking moved');
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error(
+        err instanceof ApiError && err.status === 409
+          ? 'That time was just taken. Please pick another.'
+          : 'Failed to reschedule your booking',
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['booking', 'slots'] });
+    },
+  });
+}
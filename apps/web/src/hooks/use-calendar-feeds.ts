@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { API_URL, apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type { CalendarFeed, CalendarFeedWithToken, CreateCalendarFeedInput } from '@calley/shared';
+
+/**
+ * Build the public subscription URL for a feed token.
+ * The token is only known right after a feed is created or rotated.
+ */
+export function getFeedUrl(token: string): string {
+  return `${API_URL}/feeds/${token}/calendar.ics`;
+}
+
+export function useCalendarFeeds() {
+  return useQuery({
+    queryKey: queryKeys.feeds.all,
+    queryFn: () => apiClient.get<CalendarFeed[]>('/feeds'),
+  });
+}
+
+export function useCreateCalendarFeed() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateCalendarFeedInput) =>
+      apiClient.post<CalendarFeedWithToken>('/feeds', data),
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to create subscription link');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.feeds.all });
+    },
+  });
+}
+
+export function useRotateCalendarFeed() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (feedId: string) =>
+      apiClient.post<CalendarFeedWithToken>(`/feeds/${feedId}/rotate`),
+    onSuccess: () => {
+      toast.success('Subscription link reset');
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to reset subscription link');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.feeds.all });
+    },
+  });
+}
+
+export function useRevokeCalendarFeed() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (feedId: string) => apiClient.delete(`/feeds/${feedId}`),
+    onMutate: async (feedId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.feeds.all });
+      const previous = queryClient.getQueryData<CalendarFeed[]>(queryKeys.feeds.all);
+
+      queryClient.setQueryData<CalendarFeed[]>(queryKeys.feeds.all, (old) =>
+        old?.filter((f) => f.id !== feedId),
+      );
+
+      return { previous };
+    },
+    onSuccess: () => {
+      toast.success('Subscription link revoked');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.feeds.all, context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to revoke subscription link');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.feeds.all });
+    },
+  });
+}
@@ -0,0 +1,146 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type {
+  CalendarShare,
+  CreateCalendarShareInput,
+  SharedCalendar,
+  UpdateCalendarShareInput,
+} from '@calley/shared';
+
+// ─── Calendars shared with me ───────────────────────────────────────
+
+export function useSharedCalendars() {
+  return useQuery({
+    queryKey: queryKeys.categories.shared,
+    queryFn: () => apiClient.get<SharedCalendar[]>('/categories/shared'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useLeaveSharedCalendar() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (shareId: string) => apiClient.delete(`/categories/shared/${shareId}`),
+    onMutate: async (shareId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.categories.shared });
+      const previous = queryClient.getQueryData<SharedCalendar[]>(queryKeys.categories.shared);
+
+      queryClient.setQueryData<SharedCalendar[]>(queryKeys.categories.shared, (old) =>
+        old?.filter((c) => c.shareId !== shareId),
+      );
+
+      return { previous };
+    },
+    onSuccess: () => {
+      toast.success('Calendar removed');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.categories.shared, context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to remove calendar');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.shared });
+      queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+    },
+  });
+}
+
+// ─── Members of my calendars ────────────────────────────────────────
+
+export function useCalendarShares(categoryId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.categories.shares(categoryId ?? ''),
+    queryFn: () => apiClient.get<CalendarShare[]>(`/categories/${categoryId}/shares`),
+    enabled: !!categoryId,
+  });
+}
+
+export function useShareCalendar(categoryId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateCalendarShareInput) =>
+      apiClient.post<CalendarShare>(`/categories/${categoryId}/shares`, data),
+    onSuccess: (share) => {
+      toast.success(`Shared with ${share.memberName}`);
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && [404, 409, 422].includes(err.status)) {
+        toast.error(err.message);
+        return;
+      }
+      toast.error('Failed to share calendar');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.shares(categoryId) });
+    },
+  });
+}
+
+interface UpdateShareVars {
+  shareId: string;
+  data: UpdateCalendarShareInput;
+}
+
+export function useUpdateCalendarShare(categoryId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ shareId, data }: UpdateShareVars) =>
+      apiClient.patch<CalendarShare>(`/categories/${categoryId}/shares/${shareId}`, data),
+    onMutate: async ({ shareId, data }) => {
+      const key = queryKeys.categories.shares(categoryId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<CalendarShare[]>(key);
+
+      queryClient.setQueryData<CalendarShare[]>(key, (old) =>
+        old?.map((s) => (s.id === shareId ? { ...s, ...data } : s)),
+      );
+
+      return { previous };
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.categories.shares(categoryId), context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to change permission');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.shares(categoryId) });
+    },
+  });
+}
+
+export function useRemoveCalendarShare(categoryId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (shareId: string) =>
+      apiClient.delete(`/categories/${categoryId}/shares/${shareId}`),
+    onMutate: async (shareId) => {
+      const key = queryKeys.categories.shares(categoryId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<CalendarShare[]>(key);
+
+      queryClient.setQueryData<CalendarShare[]>(key, (old) => old?.filter((s) => s.id !== shareId));
+
+      return { previous };
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.categories.shares(categoryId), context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to stop sharing');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.shares(categoryId) });
+    },
+  });
+}
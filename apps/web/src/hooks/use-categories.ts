@@ -1,7 +1,9 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { formatInTimeZone } from 'date-fns-tz';
+import { useMemo } from 'react';
 import { toast } from 'sonner';
 
+import { useSharedCalendars } from '@/hooks/use-calendar-shares';
 import { apiClient, ApiError } from '@/lib/api-client';
 import { queryKeys } from '@/lib/query-keys';
 
@@ -15,6 +17,37 @@ export function useCategories() {
   });
 }
 
+/**
+ * Lookup of every category the user can see events from, keyed by ID:
+ * their own plus calendars shared with them (which carry the owner's
+ * userId and the owner's name and color).
+ */
+export function useCategoryMap() {
+  const { data: categories = [] } = useCategories();
+  const { data: sharedCalendars = [] } = useSharedCalendars();
+
+  return useMemo(() => {
+    const map = new Map<string, CalendarCategory>();
+    for (const cat of categories) {
+      map.set(cat.id, cat);
+    }
+    for (const shared of sharedCalendars) {
+      map.set(shared.categoryId, {
+        id: shared.categoryId,
+        userId: shared.ownerId,
+        name: shared.name,
+        color: shared.color,
+        isDefault: false,
+        visible: true,
+        sortOrder: 0,
+        createdAt: '',
+        updatedAt: '',
+      });
+    }
+    return map;
+  }, [categories, sharedCalendars]);
+}
+
 export function useCreateCategory() {
   const queryClient = useQueryClient();
   return useMutation({
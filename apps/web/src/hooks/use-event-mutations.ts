@@ -39,13 +39,21 @@ export function useCreateEvent() {
         location: newEventData.location ?? null,
         startAt: newEventData.startAt,
         endAt: newEventData.endAt,
+        timezone: newEventData.timezone ?? null,
+        endTimezone: newEventData.endTimezone ?? null,
         isAllDay: newEventData.isAllDay ?? false,
         color: newEventData.color ?? null,
         visibility: newEventData.visibility ?? 'private',
         rrule: newEventData.rrule ?? null,
         exDates: [],
+        rDates: newEventData.rDates ?? [],
+        skipHolidays: newEventData.skipHolidays ?? null,
+        seriesId: null,
         recurringEventId: null,
         originalDate: null,
+        tagIds: newEventData.tagIds ?? [],
+        taskId: newEventData.taskId ?? null,
+        completedAt: null,
         createdAt: formatInTimeZone(new Date(), 'UTC', "yyyy-MM-dd'T'HH:mm:ssXXX"),
         updatedAt: formatInTimeZone(new Date(), 'UTC', "yyyy-MM-dd'T'HH:mm:ssXXX"),
         deletedAt: null,
@@ -67,10 +75,18 @@ export function useCreateEvent() {
         restoreEventCaches(queryClient, context.snapshot);
       }
       if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && (err.status === 409 || err.status === 422)) {
+        toast.error(err.message);
+        return;
+      }
       toast.error('Failed to create event');
     },
-    onSettled: () => {
+    onSettled: (_data, _err, vars) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      // Focus blocks set their task's scheduledAt
+      if (vars.taskId) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      }
     },
   });
 }
@@ -80,15 +96,18 @@ interface UpdateEventVars {
   data: UpdateEventInput;
   scope?: EditScope;
   instanceDate?: string;
+  /** With scope 'all', also apply the edit to the other segments of a split series */
+  allSegments?: boolean;
 }
 
 export function useUpdateEvent() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: ({ eventId, data, scope, instanceDate }: UpdateEventVars) => {
+    mutationFn: ({ eventId, data, scope, instanceDate, allSegments }: UpdateEventVars) => {
       const params = new URLSearchParams();
       if (scope) params.set('scope', scope);
       if (instanceDate) params.set('instanceDate', instanceDate);
+      if (allSegments) params.set('allSegments', 'true');
       const qs = params.toString();
       const path = `/events/${eventId}${qs ? `?${qs}` : ''}`;
       return apiClient.patch<Event>(path, data);
@@ -117,8 +136,12 @@ export function useUpdateEvent() {
 
       return { snapshot };
     },
-    onSuccess: () => {
+    onSuccess: (event) => {
       toast.success('Event updated');
+      // Moving a focus block moves its task's scheduledAt
+      if (event.taskId) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      }
     },
     onError: (err, _vars, context) => {
       if (context?.snapshot) {
@@ -129,6 +152,8 @@ export function useUpdateEvent() {
     },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      // "This and following" edits split the series
+      queryClient.invalidateQueries({ queryKey: queryKeys.seriesLineage.all });
     },
   });
 }
@@ -164,10 +189,18 @@ export function useDeleteEvent() {
         }
       }
 
-      return { snapshot };
+      const isFocusBlock = snapshot.some(([, cacheData]) =>
+        cacheData?.some((event) => event.id === eventId && event.taskId),
+      );
+
+      return { snapshot, isFocusBlock };
     },
-    onSuccess: () => {
+    onSuccess: (_data, _vars, context) => {
       toast.success('Event deleted');
+      // Deleting a focus block unschedules its task
+      if (context?.isFocusBlock) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      }
     },
     onError: (err, _vars, context) => {
       if (context?.snapshot) {
@@ -178,6 +211,83 @@ export function useDeleteEvent() {
     },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.seriesLineage.all });
+    },
+  });
+}
+
+interface OccurrenceVars {
+  eventId: string;
+  instanceDate: string;
+}
+
+/**
+ * Skip one occurrence of a series from its occurrence list. Unlike
+ * `useDeleteEvent` the series stays on the calendar, so nothing is removed
+ * optimistically.
+ */
+export function useSkipOccurrence() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ eventId, instanceDate }: OccurrenceVars) => {
+      const params = new URLSearchParams({ scope: 'instance', instanceDate });
+      return apiClient.delete(`/events/${eventId}?${params.toString()}`);
+    },
+    onSuccess: () => {
+      toast.success('Occurrence skipped');
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to skip occurrence');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.recurrencePreview.all });
+    },
+  });
+}
+
+/** Bring back a skipped occurrence, with any edits it had before */
+export function useRestoreOccurrence() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ eventId, instanceDate }: OccurrenceVars) =>
+      apiClient.post<Event>(`/events/${eventId}/restore-instance`, { instanceDate }),
+    onSuccess: () => {
+      toast.success('Occurrence restored');
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to restore occurrence');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.recurrencePreview.all });
+    },
+  });
+}
+
+/**
+ * Merge a segment of a split series back into the one before it. The
+ * segment itself goes to the trash, so nothing is changed optimistically.
+ */
+export function useMergeSegment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (eventId: string) => apiClient.post<Event>(`/events/${eventId}/merge`),
+    onSuccess: () => {
+      toast.success('Series merged');
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error(
+        err instanceof ApiError && err.status === 409 ? err.message : 'Failed to merge series',
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.recurrencePreview.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.seriesLineage.all });
     },
   });
 }
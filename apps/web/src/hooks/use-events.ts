@@ -1,5 +1,5 @@
-import { useQuery } from '@tanstack/react-query';
-import { addDays, format, isBefore, max, min, parseISO } from 'date-fns';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { addDays, format, isBefore, max, min, parseISO, startOfDay } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
 import { useMemo } from 'react';
 
@@ -8,7 +8,12 @@ import { apiClient } from '@/lib/api-client';
 import { queryKeys } from '@/lib/query-keys';
 import { useCalendarStore } from '@/stores/calendar-store';
 
-import type { Event } from '@calley/shared';
+import type {
+  Event,
+  RecurrencePreview,
+  RecurrencePreviewInput,
+  SeriesSegment,
+} from '@calley/shared';
 
 export function useEvents(start: string, end: string) {
   return useQuery({
@@ -22,6 +27,37 @@ export function useEvents(start: string, end: string) {
   });
 }
 
+/**
+ * The next start times of a rule being edited, worked out by the server so
+ * the preview matches how the series will expand. Given the id of a saved
+ * series, its skipped and edited occurrences are marked too. Pass null to
+ * skip.
+ */
+export function useRecurrencePreview(input: Partial<RecurrencePreviewInput> | null) {
+  return useQuery({
+    queryKey: queryKeys.recurrencePreview.input(input ?? {}),
+    queryFn: () => apiClient.post<RecurrencePreview>('/events/recurrence-preview', input),
+    enabled: !!input?.rrule && !!input.startAt,
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+/**
+ * The segments a series was split into by "this and following" edits, in
+ * order. A series that was never split comes back as its only segment.
+ * Pass null to skip.
+ */
+export function useSeriesLineage(eventId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.seriesLineage.event(eventId ?? ''),
+    queryFn: () => apiClient.get<SeriesSegment[]>(`/events/${eventId}/series`),
+    enabled: !!eventId,
+    staleTime: 60 * 1000,
+  });
+}
+
 /**
  * Groups events by their start date (YYYY-MM-DD in the user's timezone)
  * for efficient lookup in calendar grid views.
@@ -50,18 +86,21 @@ export function useEventsByDate(start: string, end: string) {
       existing.push(event);
       map.set(dateKey, existing);
 
-      // For multi-day all-day events, also add to intermediate dates
-      // clamped to the requested [start, end] window
-      if (!event.isAllDay) continue;
+      // For multi-day and cross-midnight events, also add to the later dates
+      // they cover, clamped to the requested [start, end] window. Timed
+      // events count from midnight so 10pm–2am reaches the next day, while
+      // one ending exactly at midnight doesn't.
       const zonedStart = toZonedTime(parseISO(event.startAt), userTimezone);
       const zonedEnd = toZonedTime(parseISO(event.endAt), userTimezone);
-      const loopStart = max([addDays(zonedStart, 1), zonedRequestedStart]);
+      const firstDay = event.isAllDay ? zonedStart : startOfDay(zonedStart);
+      const loopStart = max([addDays(firstDay, 1), zonedRequestedStart]);
       const loopEnd = min([zonedEnd, zonedRequestedEnd]);
       let current = loopStart;
       while (isBefore(current, loopEnd)) {
         const key = format(current, 'yyyy-MM-dd');
         const dayEvents = map.get(key) ?? [];
-        dayEvents.push(event);
+        // An instance moved off its date can already be listed there
+        if (!dayEvents.includes(event)) dayEvents.push(event);
         map.set(key, dayEvents);
         current = addDays(current, 1);
       }
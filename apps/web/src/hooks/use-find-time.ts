@@ -0,0 +1,22 @@
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { apiClient, ApiError } from '@/lib/api-client';
+
+import type { FindTimeInput, FindTimeResponse } from '@calley/shared';
+
+/**
+ * Ask the server for meeting times that suit everyone. A mutation rather
+ * than a query: it runs when the user asks, and each search differs.
+ */
+export function useFindTime() {
+  return useMutation({
+    mutationFn: (data: Partial<FindTimeInput> & Pick<FindTimeInput, 'durationMinutes'>) =>
+      apiClient.post<FindTimeResponse>('/freebusy/find-time', data),
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      const message = err instanceof ApiError ? err.error.message : 'Failed to find a time';
+      toast.error(message);
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { format } from 'date-fns';
+import { useMemo } from 'react';
+
+import { getHolidaysBetween } from '@calley/shared';
+
+import { useCurrentUser } from '@/hooks/use-auth';
+
+import type { Holiday } from '@calley/shared';
+
+/**
+ * Holidays from the user's built-in holiday calendars between two days,
+ * keyed by date (YYYY-MM-DD). They are worked out locally from the shared
+ * rule tables, so there is nothing to fetch.
+ */
+export function useHolidaysByDate(start: Date, end: Date): Map<string, Holiday[]> {
+  const { data: user } = useCurrentUser();
+  const calendars = user?.holidayCalendars;
+  const startKey = format(start, 'yyyy-MM-dd');
+  const endKey = format(end, 'yyyy-MM-dd');
+
+  return useMemo(() => {
+    const map = new Map<string, Holiday[]>();
+    if (!calendars?.length) return map;
+
+    for (const holiday of getHolidaysBetween(calendars, startKey, endKey)) {
+      const list = map.get(holiday.date);
+      if (list) {
+        list.push(holiday);
+      } else {
+        map.set(holiday.date, [holiday]);
+      }
+    }
+    return map;
+  }, [calendars, startKey, endKey]);
+}
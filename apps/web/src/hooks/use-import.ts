@@ -0,0 +1,29 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type { IcsImportReport, ImportIcsInput } from '@calley/shared';
+
+/**
+ * Import an .ics file. With `dryRun: true` the server only returns the
+ * report; with `dryRun: false` it commits and the calendar is refreshed.
+ */
+export function useImportIcs() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ImportIcsInput) => apiClient.post<IcsImportReport>('/import/ics', data),
+    onSuccess: (report) => {
+      if (report.dryRun) return;
+      toast.success(`Imported ${report.created} item${report.created !== 1 ? 's' : ''}`);
+      queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      const message = err instanceof ApiError ? err.error.message : 'Failed to import calendar';
+      toast.error(message);
+    },
+  });
+}
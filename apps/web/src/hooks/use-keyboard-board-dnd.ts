@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { announce } from '@/components/ui/aria-live-region';
+import { BOARD_COLUMNS, findCardPosition } from '@/lib/board';
+
+import type { BoardLane, BoardPosition } from '@/lib/board';
+import type { Task } from '@calley/shared';
+
+interface KeyboardBoardDndState {
+  /** The card currently "picked up" for keyboard move */
+  pickedTask: Task | null;
+  /** Where the picked card will land when dropped */
+  target: BoardPosition | null;
+  /** Pick up a card for keyboard-based moving */
+  pickUp: (task: Task) => void;
+  /** Put the held card back without moving it */
+  cancel: () => void;
+  /** Whether a card is currently being moved via keyboard */
+  isMoving: boolean;
+}
+
+/** Number of slots a card can take in a column, not counting itself */
+function slotCount(lane: BoardLane, status: BoardPosition['status'], taskId: string): number {
+  return lane.columns[status].filter((t) => t.id !== taskId).length;
+}
+
+/**
+ * Provides keyboard-driven drag-and-drop for board cards, mirroring
+ * useKeyboardDnd for calendar events.
+ *
+ * Usage:
+ * - Focus a card and press Shift+Enter or Shift+Space to "pick up"
+ * - Use Arrow keys (Left/Right) to change column
+ * - Use Arrow keys (Up/Down) to change position within the column
+ * - Use Shift+Up/Down to change swimlane
+ * - Press Enter or Space to "drop" at the new position
+ * - Press Escape to cancel
+ *
+ * The hook listens globally while a card is picked up and hands the
+ * final position to `onDrop`.
+ */
+export function useKeyboardBoardDnd(
+  lanes: BoardLane[],
+  onDrop: (taskId: string, target: BoardPosition) => void,
+): KeyboardBoardDndState {
+  const [pickedTask, setPickedTask] = useState<Task | null>(null);
+  const [target, setTarget] = useState<BoardPosition | null>(null);
+
+  const pickUp = useCallback(
+    (task: Task) => {
+      const position = findCardPosition(lanes, task.id);
+      if (!position) return;
+      setPickedTask(task);
+      setTarget(position);
+      announce(
+        `Picked up "${task.title}". Use arrow keys to move, Enter to drop, Escape to cancel.`,
+        'assertive',
+      );
+    },
+    [lanes],
+  );
+
+  const cancel = useCallback(() => {
+    if (pickedTask) {
+      announce(`Cancelled moving "${pickedTask.title}"`, 'assertive');
+    }
+    setPickedTask(null);
+    setTarget(null);
+  }, [pickedTask]);
+
+  const drop = useCallback(() => {
+    if (!pickedTask || !target) return;
+
+    const column = BOARD_COLUMNS.find((c) => c.status === target.status)!;
+    const lane = lanes.find((l) => l.id === target.laneId);
+    const laneDesc = lanes.length > 1 && lane ? ` in ${lane.label}` : '';
+    onDrop(pickedTask.id, target);
+    announce(
+      `Dropped "${pickedTask.title}" in ${column.label}${laneDesc}, position ${target.index + 1}`,
+      'assertive',
+    );
+    setPickedTask(null);
+    setTarget(null);
+  }, [pickedTask, target, lanes, onDrop]);
+
+  useEffect(() => {
+    if (!pickedTask || !target) return;
+    const taskId = pickedTask.id;
+    const current = target;
+
+    function moveTo(next: BoardPosition) {
+      const lane = lanes.find((l) => l.id === next.laneId);
+      if (!lane) return;
+      const index = Math.max(0, Math.min(next.index, slotCount(lane, next.status, taskId)));
+      const column = BOARD_COLUMNS.find((c) => c.status === next.status)!;
+      const laneDesc = lanes.length > 1 ? `${lane.label}, ` : '';
+      setTarget({ ...next, index });
+      announce(`${laneDesc}${column.label}, position ${index + 1}`);
+    }
+
+    function handleKeyDown(e: KeyboardEvent) {
+      const columnIndex = BOARD_COLUMNS.findIndex((c) => c.status === current.status);
+      const laneIndex = lanes.findIndex((l) => l.id === current.laneId);
+
+      switch (e.key) {
+        case 'ArrowUp':
+        case 'ArrowDown': {
+          e.preventDefault();
+          e.stopPropagation();
+          const step = e.key === 'ArrowUp' ? -1 : 1;
+          if (e.shiftKey) {
+            const lane = lanes[laneIndex + step];
+            if (lane) moveTo({ ...current, laneId: lane.id });
+          } else {
+            moveTo({ ...current, index: current.index + step });
+          }
+          break;
+        }
+
+        case 'ArrowLeft':
+        case 'ArrowRight': {
+          e.preventDefault();
+          e.stopPropagation();
+          const column = BOARD_COLUMNS[columnIndex + (e.key === 'ArrowLeft' ? -1 : 1)];
+          if (column) moveTo({ ...current, status: column.status });
+          break;
+        }
+
+        case 'Enter':
+        case ' ':
+          e.preventDefault();
+          e.stopPropagation();
+          drop();
+          break;
+
+        case 'Escape':
+          e.preventDefault();
+          e.stopPropagation();
+          cancel();
+          break;
+      }
+    }
+
+    // Capture phase so we intercept before other handlers
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [pickedTask, target, lanes, drop, cancel]);
+
+  return {
+    pickedTask,
+    target,
+    pickUp,
+    cancel,
+    isMoving: !!pickedTask,
+  };
+}
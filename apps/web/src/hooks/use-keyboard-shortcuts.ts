@@ -19,12 +19,14 @@ export interface KeyboardShortcutsState {
  *
  * Shortcuts:
  * - Cmd/Ctrl+K → toggle search
- * - C → quick create event on current date
- * - T → toggle task panel
+ * - C → quick add an event on the current date
+ * - T → quick add a task
+ * - Shift+T → toggle task panel
  * - M → month view
  * - W → week view
  * - D → day view
  * - A → agenda view
+ * - B → task board
  * - ← / → → navigate prev/next
  * - . or Home → go to today
  * - Escape → close any open modal/drawer/popover
@@ -33,7 +35,7 @@ export interface KeyboardShortcutsState {
  */
 export function useKeyboardShortcuts(onToggleShortcutsHelp: () => void) {
   const { setView, navigate, toggleTaskPanel } = useCalendarStore();
-  const { toggleSearch, openEventDrawer, closeAll, searchOpen } = useUIStore();
+  const { toggleSearch, openQuickAdd, closeAll, searchOpen } = useUIStore();
 
   useEffect(() => {
     function handleKeyDown(e: KeyboardEvent) {
@@ -76,10 +78,14 @@ export function useKeyboardShortcuts(onToggleShortcutsHelp: () => void) {
         case 'c':
         case 'C':
           e.preventDefault();
-          openEventDrawer({ defaultDate: useCalendarStore.getState().currentDate });
+          openQuickAdd('event');
           break;
 
         case 't':
+          e.preventDefault();
+          openQuickAdd('task');
+          break;
+
         case 'T':
           e.preventDefault();
           toggleTaskPanel();
@@ -113,6 +119,13 @@ export function useKeyboardShortcuts(onToggleShortcutsHelp: () => void) {
           announce('Switched to agenda view');
           break;
 
+        case 'b':
+        case 'B':
+          e.preventDefault();
+          setView('board' as CalendarView);
+          announce('Switched to board view');
+          break;
+
         case 'ArrowLeft':
           e.preventDefault();
           navigate('prev');
@@ -149,7 +162,7 @@ export function useKeyboardShortcuts(onToggleShortcutsHelp: () => void) {
     navigate,
     toggleTaskPanel,
     toggleSearch,
-    openEventDrawer,
+    openQuickAdd,
     closeAll,
     searchOpen,
     onToggleShortcutsHelp,
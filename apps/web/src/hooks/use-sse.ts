@@ -67,6 +67,28 @@ export function useSSE() {
         queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
       });
 
+      es.addEventListener('event:rsvp', (e) => {
+        try {
+          const data = JSON.parse(e.data) as {
+            eventId: string;
+            email: string;
+            name: string | null;
+            title: string;
+            status: 'accepted' | 'declined' | 'tentative';
+          };
+          queryClient.invalidateQueries({ queryKey: queryKeys.attendees.byEvent(data.eventId) });
+          const verb =
+            data.status === 'accepted'
+              ? 'accepted'
+              : data.status === 'declined'
+                ? 'declined'
+                : 'tentatively accepted';
+          toast.info(`${data.name ?? data.email} ${verb} ${data.title}`, { duration: 5000 });
+        } catch {
+          // Silent refresh is fine
+        }
+      });
+
       es.addEventListener('task:created', () => {
         queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
       });
@@ -0,0 +1,114 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { toast } from 'sonner';
+
+import { apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type { CreateTagInput, Tag, UpdateTagInput } from '@calley/shared';
+
+export function useTags() {
+  return useQuery({
+    queryKey: queryKeys.tags.all,
+    queryFn: () => apiClient.get<Tag[]>('/tags'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Lookup of the user's tags keyed by ID, for rendering tag chips */
+export function useTagMap() {
+  const { data: tags = [] } = useTags();
+  return useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+}
+
+export function useCreateTag() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateTagInput) => apiClient.post<Tag>('/tags', data),
+    onSuccess: (tag) => {
+      // Add it right away so pickers can select the new tag by ID
+      queryClient.setQueryData<Tag[]>(queryKeys.tags.all, (old) =>
+        old ? [...old, tag].sort((a, b) => a.name.localeCompare(b.name)) : [tag],
+      );
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && (err.status === 409 || err.status === 422)) {
+        toast.error(err.message);
+        return;
+      }
+      toast.error('Failed to create tag');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags.all });
+    },
+  });
+}
+
+interface UpdateTagVars {
+  tagId: string;
+  data: UpdateTagInput;
+}
+
+export function useUpdateTag() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ tagId, data }: UpdateTagVars) => apiClient.patch<Tag>(`/tags/${tagId}`, data),
+    onMutate: async ({ tagId, data }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.tags.all });
+      const previous = queryClient.getQueryData<Tag[]>(queryKeys.tags.all);
+
+      queryClient.setQueryData<Tag[]>(queryKeys.tags.all, (old) =>
+        old?.map((tag) => (tag.id === tagId ? { ...tag, ...data } : tag)),
+      );
+
+      return { previous };
+    },
+    onSuccess: () => {
+      toast.success('Tag updated');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.tags.all, context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to update tag');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags.all });
+    },
+  });
+}
+
+export function useDeleteTag() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (tagId: string) => apiClient.delete(`/tags/${tagId}`),
+    onMutate: async (tagId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.tags.all });
+      const previous = queryClient.getQueryData<Tag[]>(queryKeys.tags.all);
+
+      queryClient.setQueryData<Tag[]>(queryKeys.tags.all, (old) =>
+        old?.filter((tag) => tag.id !== tagId),
+      );
+
+      return { previous };
+    },
+    onSuccess: () => {
+      toast.success('Tag deleted');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.tags.all, context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to delete tag');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags.all });
+      // The tag is removed from every event and task it was on
+      queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+}
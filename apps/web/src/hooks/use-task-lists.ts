@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type { CreateTaskListInput, SmartListCounts, TaskList } from '@calley/shared';
+
+export function useSmartListCounts() {
+  return useQuery({
+    queryKey: queryKeys.tasks.smartListCounts,
+    queryFn: () => apiClient.get<SmartListCounts>('/tasks/smart-lists'),
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useTaskLists() {
+  return useQuery({
+    queryKey: queryKeys.taskLists.all,
+    queryFn: () => apiClient.get<TaskList[]>('/task-lists'),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateTaskList() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateTaskListInput) => apiClient.post<TaskList>('/task-lists', data),
+    onSuccess: (list) => {
+      queryClient.setQueryData<TaskList[]>(queryKeys.taskLists.all, (old) =>
+        old ? [...old, list].sort((a, b) => a.name.localeCompare(b.name)) : [list],
+      );
+      toast.success('List saved');
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      if (
+        err instanceof ApiError &&
+        (err.status === 404 || err.status === 409 || err.status === 422)
+      ) {
+        toast.error(err.message);
+        return;
+      }
+      toast.error('Failed to save list');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.taskLists.all });
+    },
+  });
+}
+
+export function useDeleteTaskList() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (listId: string) => apiClient.delete(`/task-lists/${listId}`),
+    onMutate: async (listId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.taskLists.all });
+      const previous = queryClient.getQueryData<TaskList[]>(queryKeys.taskLists.all);
+
+      queryClient.setQueryData<TaskList[]>(queryKeys.taskLists.all, (old) =>
+        old?.filter((list) => list.id !== listId),
+      );
+
+      return { previous };
+    },
+    onSuccess: () => {
+      toast.success('List deleted');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.taskLists.all, context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to delete list');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.taskLists.all });
+    },
+  });
+}
@@ -23,6 +23,12 @@ function restoreTaskCaches(queryClient: ReturnType<typeof useQueryClient>, snaps
   }
 }
 
+/** Whether any of the given tasks is time-blocked on the calendar. */
+function hasFocusBlock(snapshot: TasksCache, ids: string[]): boolean {
+  const idSet = new Set(ids);
+  return snapshot.some(([, data]) => data?.some((task) => idSet.has(task.id) && task.scheduledAt));
+}
+
 export function useCreateTask() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -42,18 +48,32 @@ export function useCreateTask() {
         priority: newTaskData.priority ?? 'none',
         status: 'todo',
         completedAt: null,
+        archivedAt: null,
         rrule: newTaskData.rrule ?? null,
+        repeatAfter: newTaskData.repeatAfter ?? null,
         exDates: [],
         recurringTaskId: null,
         originalDate: null,
+        parentTaskId: newTaskData.parentTaskId ?? null,
+        subtaskProgress: { total: 0, done: 0 },
+        tagIds: newTaskData.tagIds ?? [],
+        blockedBy: [],
+        estimatedMinutes: newTaskData.estimatedMinutes ?? null,
+        scheduledAt: null,
         sortOrder: 0,
         createdAt: formatInTimeZone(new Date(), 'UTC', "yyyy-MM-dd'T'HH:mm:ssXXX"),
         updatedAt: formatInTimeZone(new Date(), 'UTC', "yyyy-MM-dd'T'HH:mm:ssXXX"),
         deletedAt: null,
       };
 
+      // Subtasks only appear in their parent's subtask list, top-level tasks everywhere else
+      const targetKey = newTaskData.parentTaskId
+        ? queryKeys.tasks.subtasks(newTaskData.parentTaskId)
+        : null;
       for (const [key, data] of snapshot) {
-        if (data) {
+        const isSubtaskList = key[1] === 'subtasks';
+        const isTarget = targetKey ? isSubtaskList && key[2] === targetKey[2] : !isSubtaskList;
+        if (data && isTarget) {
           queryClient.setQueryData(key, [...data, placeholder]);
         }
       }
@@ -68,6 +88,10 @@ export function useCreateTask() {
         restoreTaskCaches(queryClient, context.snapshot);
       }
       if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && (err.status === 409 || err.status === 422)) {
+        toast.error(err.message);
+        return;
+      }
       toast.error('Failed to create task');
     },
     onSettled: () => {
@@ -117,14 +141,22 @@ export function useUpdateTask() {
 
       return { snapshot };
     },
-    onSuccess: () => {
+    onSuccess: (task) => {
       toast.success('Task updated');
+      // A focus block's done state follows its task
+      if (task.scheduledAt) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      }
     },
     onError: (err, _vars, context) => {
       if (context?.snapshot) {
         restoreTaskCaches(queryClient, context.snapshot);
       }
       if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && (err.status === 409 || err.status === 422)) {
+        toast.error(err.message);
+        return;
+      }
       toast.error('Failed to update task');
     },
     onSettled: () => {
@@ -181,11 +213,18 @@ export function useDeleteTask() {
   });
 }
 
+interface ToggleTaskVars {
+  taskId: string;
+  /** When completing, also complete the task's open subtasks */
+  completeSubtasks?: boolean;
+}
+
 export function useToggleTask() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (taskId: string) => apiClient.patch<Task>(`/tasks/${taskId}/toggle`, {}),
-    onMutate: async (taskId) => {
+    mutationFn: ({ taskId, completeSubtasks = false }: ToggleTaskVars) =>
+      apiClient.patch<Task>(`/tasks/${taskId}/toggle`, { completeSubtasks }),
+    onMutate: async ({ taskId }) => {
       await queryClient.cancelQueries({ queryKey: queryKeys.tasks.all });
       const snapshot = snapshotTaskCaches(queryClient);
 
@@ -211,11 +250,20 @@ export function useToggleTask() {
 
       return { snapshot };
     },
+    onSuccess: (task) => {
+      if (task.scheduledAt) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      }
+    },
     onError: (err, _vars, context) => {
       if (context?.snapshot) {
         restoreTaskCaches(queryClient, context.snapshot);
       }
       if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && (err.status === 409 || err.status === 422)) {
+        toast.error(err.message);
+        return;
+      }
       toast.error('Failed to update task');
     },
     onSettled: () => {
@@ -291,16 +339,23 @@ export function useBulkCompleteTasks() {
         }
       }
 
-      return { snapshot };
+      return { snapshot, hasFocusBlocks: hasFocusBlock(snapshot, ids) };
     },
-    onSuccess: (_data, ids) => {
+    onSuccess: (_data, ids, context) => {
       toast.success(`${ids.length} task${ids.length > 1 ? 's' : ''} completed`);
+      if (context?.hasFocusBlocks) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      }
     },
     onError: (err, _vars, context) => {
       if (context?.snapshot) {
         restoreTaskCaches(queryClient, context.snapshot);
       }
       if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && err.status === 409) {
+        toast.error(err.message);
+        return;
+      }
       toast.error('Failed to complete tasks');
     },
     onSettled: () => {
@@ -344,3 +399,81 @@ export function useBulkDeleteTasks() {
     },
   });
 }
+
+export function useArchiveTask() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (taskId: string) => apiClient.post<Task>(`/tasks/${taskId}/archive`),
+    onMutate: async (taskId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.tasks.all });
+      const snapshot = snapshotTaskCaches(queryClient);
+
+      // Archived tasks leave the task lists straight away
+      for (const [key, cacheData] of snapshot) {
+        if (cacheData) {
+          queryClient.setQueryData(
+            key,
+            cacheData.filter((task) => task.id !== taskId),
+          );
+        }
+      }
+
+      return { snapshot };
+    },
+    onSuccess: () => {
+      toast.success('Task archived');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.snapshot) {
+        restoreTaskCaches(queryClient, context.snapshot);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && err.status === 409) {
+        toast.error(err.message);
+        return;
+      }
+      toast.error('Failed to archive task');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+}
+
+export function useUnarchiveTask() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (taskId: string) => apiClient.post<Task>(`/tasks/${taskId}/unarchive`),
+    onSuccess: () => {
+      toast.success('Task moved back to your lists');
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to unarchive task');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+}
+
+export function useArchiveCompleted() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => apiClient.post<{ count: number }>('/tasks/archive-completed'),
+    onSuccess: ({ count }) => {
+      toast.success(
+        count === 0
+          ? 'No completed tasks to archive'
+          : `${count} task${count > 1 ? 's' : ''} archived`,
+      );
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to archive tasks');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+}
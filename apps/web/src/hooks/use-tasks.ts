@@ -1,4 +1,4 @@
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { endOfDay, format, isAfter, isBefore, parseISO, startOfDay } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
 import { useMemo } from 'react';
@@ -9,7 +9,7 @@ import { queryKeys } from '@/lib/query-keys';
 import { useCalendarStore } from '@/stores/calendar-store';
 
 import type { TaskFilter } from '@/types/filters';
-import type { Task } from '@calley/shared';
+import type { CompletedTasksPage, Task, TaskCompletion } from '@calley/shared';
 
 export function useTasks(filters: TaskFilter = {}) {
   const params = new URLSearchParams();
@@ -17,6 +17,9 @@ export function useTasks(filters: TaskFilter = {}) {
   if (filters.priority?.length) params.set('priority', filters.priority.join(','));
   if (filters.dueStart) params.set('dueStart', filters.dueStart);
   if (filters.dueEnd) params.set('dueEnd', filters.dueEnd);
+  if (filters.tagIds?.length) params.set('tagIds', filters.tagIds.join(','));
+  if (filters.categoryIds?.length) params.set('categoryIds', filters.categoryIds.join(','));
+  if (filters.list) params.set('list', filters.list);
   if (filters.sort) params.set('sort', filters.sort);
 
   const qs = params.toString();
@@ -36,6 +39,40 @@ export function useTask(taskId: string | null) {
   });
 }
 
+export function useSubtasks(taskId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.tasks.subtasks(taskId ?? ''),
+    queryFn: () => apiClient.get<Task[]>(`/tasks/${taskId}/subtasks`),
+    enabled: !!taskId,
+  });
+}
+
+/** Past completions of a task that repeats after completion, newest first */
+export function useTaskCompletions(taskId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.tasks.completions(taskId ?? ''),
+    queryFn: () => apiClient.get<TaskCompletion[]>(`/tasks/${taskId}/completions`),
+    enabled: !!taskId,
+  });
+}
+
+/** Page size of the completed history */
+const COMPLETED_PAGE_SIZE = 30;
+
+/** Done tasks, archived or not, most recently completed first, a page at a time */
+export function useCompletedTasks(enabled = true) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.tasks.completed,
+    queryFn: ({ pageParam }) =>
+      apiClient.get<CompletedTasksPage>(
+        `/tasks/completed?page=${pageParam}&limit=${COMPLETED_PAGE_SIZE}`,
+      ),
+    initialPageParam: 1,
+    getNextPageParam: (last) => (last.hasMore ? last.page + 1 : undefined),
+    enabled,
+  });
+}
+
 export interface GroupedTasks {
   overdue: Task[];
   today: Task[];
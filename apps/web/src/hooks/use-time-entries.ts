@@ -0,0 +1,102 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type { CreateTimeEntryInput, TimeEntry } from '@calley/shared';
+
+export function useTaskTimeEntries(taskId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.timeEntries.byTask(taskId ?? ''),
+    queryFn: () => apiClient.get<TimeEntry[]>(`/tasks/${taskId}/time-entries`),
+    enabled: !!taskId,
+  });
+}
+
+// Starting a timer stops any other running one, so both mutations refresh
+// every task's entries rather than just this one's.
+
+export function useStartTimer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (taskId: string) => apiClient.post<TimeEntry>(`/tasks/${taskId}/timer/start`),
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && err.status === 409) {
+        toast.error(err.message);
+        return;
+      }
+      toast.error('Failed to start timer');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.all });
+    },
+  });
+}
+
+export function useStopTimer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (taskId: string) => apiClient.post<TimeEntry>(`/tasks/${taskId}/timer/stop`),
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && err.status === 409) {
+        toast.error(err.message);
+        return;
+      }
+      toast.error('Failed to stop timer');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.all });
+    },
+  });
+}
+
+export function useLogTime() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CreateTimeEntryInput) => apiClient.post<TimeEntry>('/time-entries', data),
+    onSuccess: () => {
+      toast.success('Time logged');
+    },
+    onError: (err) => {
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to log time');
+    },
+    onSettled: (_data, _err, vars) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.byTask(vars.taskId) });
+    },
+  });
+}
+
+interface DeleteTimeEntryVars {
+  entryId: string;
+  taskId: string;
+}
+
+export function useDeleteTimeEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ entryId }: DeleteTimeEntryVars) => apiClient.delete(`/time-entries/${entryId}`),
+    onMutate: async ({ entryId, taskId }) => {
+      const key = queryKeys.timeEntries.byTask(taskId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<TimeEntry[]>(key);
+
+      queryClient.setQueryData<TimeEntry[]>(key, (old) => old?.filter((e) => e.id !== entryId));
+
+      return { previous };
+    },
+    onError: (err, { taskId }, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.timeEntries.byTask(taskId), context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to delete time entry');
+    },
+    onSettled: (_data, _err, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.byTask(taskId) });
+    },
+  });
+}
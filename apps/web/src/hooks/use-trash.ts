@@ -0,0 +1,93 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { apiClient, ApiError } from '@/lib/api-client';
+import { queryKeys } from '@/lib/query-keys';
+
+import type { Event, Task, Trash } from '@calley/shared';
+
+type TrashItemType = 'event' | 'task';
+
+/** Deleted events and tasks that can still be restored */
+export function useTrash(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.trash.all,
+    queryFn: () => apiClient.get<Trash>('/trash'),
+    enabled,
+  });
+}
+
+/** Drop an item from the cached trash so restore and delete feel instant */
+function removeFromTrash(
+  queryClient: ReturnType<typeof useQueryClient>,
+  type: TrashItemType,
+  id: string,
+) {
+  const previous = queryClient.getQueryData<Trash>(queryKeys.trash.all);
+  if (previous) {
+    queryClient.setQueryData<Trash>(queryKeys.trash.all, {
+      events: type === 'event' ? previous.events.filter((e) => e.id !== id) : previous.events,
+      tasks: type === 'task' ? previous.tasks.filter((t) => t.id !== id) : previous.tasks,
+    });
+  }
+  return previous;
+}
+
+export function useRestoreFromTrash() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ type, id }: { type: TrashItemType; id: string }) =>
+      apiClient.post<Event | Task>(`/trash/${type}s/${id}/restore`),
+    onMutate: async ({ type, id }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.trash.all });
+      return { previous: removeFromTrash(queryClient, type, id) };
+    },
+    onSuccess: (_data, { type }) => {
+      toast.success(type === 'event' ? 'Event restored' : 'Task restored');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.trash.all, context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      if (err instanceof ApiError && err.status === 409) {
+        toast.error(err.message);
+        return;
+      }
+      toast.error('Failed to restore');
+    },
+    onSettled: (_data, _err, { type }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash.all });
+      // A restored focus block puts its task back on the calendar and vice versa
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      if (type === 'event') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.events.all });
+      }
+    },
+  });
+}
+
+export function useDeleteForever() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ type, id }: { type: TrashItemType; id: string }) =>
+      apiClient.delete(`/trash/${type}s/${id}`),
+    onMutate: async ({ type, id }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.trash.all });
+      return { previous: removeFromTrash(queryClient, type, id) };
+    },
+    onSuccess: () => {
+      toast.success('Deleted forever');
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.trash.all, context.previous);
+      }
+      if (err instanceof ApiError && err.status === 429) return;
+      toast.error('Failed to delete');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash.all });
+    },
+  });
+}
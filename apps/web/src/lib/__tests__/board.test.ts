@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildBoardLanes, findCardPosition, planBoardMove } from '../board';
+
+import type { CalendarCategory, Task } from '@calley/shared';
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    userId: 'user-1',
+    categoryId: 'cat-work',
+    title: `Task ${id}`,
+    description: null,
+    dueAt: null,
+    priority: 'none',
+    status: 'todo',
+    completedAt: null,
+    archivedAt: null,
+    estimatedMinutes: null,
+    rrule: null,
+    repeatAfter: null,
+    exDates: [],
+    recurringTaskId: null,
+    originalDate: null,
+    parentTaskId: null,
+    subtaskProgress: { total: 0, done: 0 },
+    tagIds: [],
+    blockedBy: [],
+    scheduledAt: null,
+    sortOrder: 0,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+function makeCategory(id: string, name: string): CalendarCategory {
+  return {
+    id,
+    userId: 'user-1',
+    name,
+    color: '#4a90d9',
+    isDefault: false,
+    visible: true,
+    sortOrder: 0,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+  };
+}
+
+const ids = (tasks: Task[]) => tasks.map((t) => t.id);
+
+describe('buildBoardLanes', () => {
+  it('should put every task in a single lane by status, keeping order', () => {
+    const tasks = [
+      makeTask('a'),
+      makeTask('b', { status: 'done' }),
+      makeTask('c', { status: 'in_progress' }),
+      makeTask('d'),
+    ];
+
+    const [lane, ...rest] = buildBoardLanes(tasks, 'none');
+
+    expect(rest).toHaveLength(0);
+    expect(ids(lane.columns.todo)).toEqual(['a', 'd']);
+    expect(ids(lane.columns.in_progress)).toEqual(['c']);
+    expect(ids(lane.columns.done)).toEqual(['b']);
+  });
+
+  it('should make priority lanes from most to least urgent, including empty ones', () => {
+    const lanes = buildBoardLanes([makeTask('a', { priority: 'low' })], 'priority');
+
+    expect(lanes.map((l) => l.id)).toEqual(['high', 'medium', 'low', 'none']);
+    expect(lanes.map((l) => l.label)).toEqual(['High', 'Medium', 'Low', 'No priority']);
+    expect(ids(lanes[2].columns.todo)).toEqual(['a']);
+  });
+
+  it('should make one lane per category with its color', () => {
+    const categories = [makeCategory('cat-work', 'Work'), makeCategory('cat-home', 'Home')];
+    const tasks = [makeTask('a', { categoryId: 'cat-home' }), makeTask('b')];
+
+    const lanes = buildBoardLanes(tasks, 'category', categories);
+
+    expect(lanes.map((l) => l.label)).toEqual(['Work', 'Home']);
+    expect(lanes[0].color).toBe('#4a90d9');
+    expect(ids(lanes[0].columns.todo)).toEqual(['b']);
+    expect(ids(lanes[1].columns.todo)).toEqual(['a']);
+  });
+});
+
+describe('findCardPosition', () => {
+  it('should locate a card by lane, status and index', () => {
+    const lanes = buildBoardLanes(
+      [makeTask('a', { status: 'in_progress' }), makeTask('b', { status: 'in_progress' })],
+      'none',
+    );
+
+    expect(findCardPosition(lanes, 'b')).toEqual({
+      laneId: 'all',
+      status: 'in_progress',
+      index: 1,
+    });
+    expect(findCardPosition(lanes, 'missing')).toBeNull();
+  });
+});
+
+describe('planBoardMove', () => {
+  const tasks = [makeTask('a'), makeTask('b'), makeTask('c'), makeTask('d', { status: 'done' })];
+
+  it('should reorder within a column without changing fields', () => {
+    const lanes = buildBoardLanes(tasks, 'none');
+
+    const move = planBoardMove(lanes, 'none', 'a', { laneId: 'all', status: 'todo', index: 2 });
+
+    expect(move).toEqual({ changes: null, orderedIds: ['b', 'c', 'a'] });
+  });
+
+  it('should return null when a card is dropped where it started', () => {
+    const lanes = buildBoardLanes(tasks, 'none');
+
+    expect(
+      planBoardMove(lanes, 'none', 'b', { laneId: 'all', status: 'todo', index: 1 }),
+    ).toBeNull();
+  });
+
+  it('should change status and order the target column when moving across columns', () => {
+    const lanes = buildBoardLanes(tasks, 'none');
+
+    const move = planBoardMove(lanes, 'none', 'b', { laneId: 'all', status: 'done', index: 0 });
+
+    expect(move).toEqual({ changes: { status: 'done' }, orderedIds: ['b', 'd'] });
+  });
+
+  it('should clamp the drop index to the end of the column', () => {
+    const lanes = buildBoardLanes(tasks, 'none');
+
+    const move = planBoardMove(lanes, 'none', 'a', { laneId: 'all', status: 'done', index: 10 });
+
+    expect(move?.orderedIds).toEqual(['d', 'a']);
+  });
+
+  it('should change priority when moving across priority lanes', () => {
+    const lanes = buildBoardLanes(tasks, 'priority');
+
+    const move = planBoardMove(lanes, 'priority', 'a', {
+      laneId: 'high',
+      status: 'todo',
+      index: 0,
+    });
+
+    expect(move).toEqual({ changes: { priority: 'high' }, orderedIds: ['a'] });
+  });
+
+  it('should change category and status when moving to another category lane and column', () => {
+    const categories = [makeCategory('cat-work', 'Work'), makeCategory('cat-home', 'Home')];
+    const lanes = buildBoardLanes(tasks, 'category', categories);
+
+    const move = planBoardMove(lanes, 'category', 'c', {
+      laneId: 'cat-home',
+      status: 'in_progress',
+      index: 0,
+    });
+
+    expect(move?.changes).toEqual({ status: 'in_progress', categoryId: 'cat-home' });
+  });
+
+  it('should return null for an unknown card or lane', () => {
+    const lanes = buildBoardLanes(tasks, 'none');
+
+    expect(
+      planBoardMove(lanes, 'none', 'zzz', { laneId: 'all', status: 'todo', index: 0 }),
+    ).toBeNull();
+    expect(
+      planBoardMove(lanes, 'none', 'a', { laneId: 'nope', status: 'todo', index: 0 }),
+    ).toBeNull();
+  });
+});
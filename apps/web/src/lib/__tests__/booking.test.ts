@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { groupSlotsByDay } from '../booking';
+
+const slot = (start: string, end: string) => ({ start, end });
+
+describe('groupSlotsByDay', () => {
+  it("should group slots by the visitor's local day", () => {
+    const slots = [
+      slot('2026-03-02T14:00:00.000Z', '2026-03-02T14:30:00.000Z'),
+      slot('2026-03-02T21:30:00.000Z', '2026-03-02T22:00:00.000Z'),
+      slot('2026-03-03T14:00:00.000Z', '2026-03-03T14:30:00.000Z'),
+    ];
+
+    expect(groupSlotsByDay(slots, 'America/New_York')).toEqual([
+      { dateKey: '2026-03-02', slots: slots.slice(0, 2) },
+      { dateKey: '2026-03-03', slots: slots.slice(2) },
+    ]);
+  });
+
+  it('should move late slots to the next day for visitors further east', () => {
+    const slots = [
+      slot('2026-03-02T14:00:00.000Z', '2026-03-02T14:30:00.000Z'),
+      slot('2026-03-02T21:30:00.000Z', '2026-03-02T22:00:00.000Z'),
+    ];
+
+    // 21:30 UTC is 06:30 the next morning in Tokyo
+    expect(groupSlotsByDay(slots, 'Asia/Tokyo').map((day) => day.dateKey)).toEqual([
+      '2026-03-02',
+      '2026-03-03',
+    ]);
+  });
+});
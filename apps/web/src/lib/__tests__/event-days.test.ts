@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import { getEventDaySegment } from '../event-days';
+
+describe('getEventDaySegment', () => {
+  it('should place an event within a single day', () => {
+    const event = { startAt: '2026-03-02T09:30:00.000Z', endAt: '2026-03-02T11:00:00.000Z' };
+
+    expect(getEventDaySegment(event, '2026-03-02', 'Europe/London')).toEqual({
+      start: 9 * 60 + 30,
+      end: 11 * 60,
+      continuesBefore: false,
+      continuesAfter: false,
+    });
+    expect(getEventDaySegment(event, '2026-03-03', 'Europe/London')).toBeNull();
+  });
+
+  it('should split an event that runs past midnight', () => {
+    const event = { startAt: '2026-03-02T22:00:00.000Z', endAt: '2026-03-03T02:00:00.000Z' };
+
+    expect(getEventDaySegment(event, '2026-03-02', 'Europe/London')).toEqual({
+      start: 22 * 60,
+      end: 24 * 60,
+      continuesBefore: false,
+      continuesAfter: true,
+    });
+    expect(getEventDaySegment(event, '2026-03-03', 'Europe/London')).toEqual({
+      start: 0,
+      end: 2 * 60,
+      continuesBefore: true,
+      continuesAfter: false,
+    });
+  });
+
+  it('should fill the days in the middle of a multi-day event', () => {
+    const event = { startAt: '2026-03-02T15:00:00.000Z', endAt: '2026-03-05T10:00:00.000Z' };
+
+    expect(getEventDaySegment(event, '2026-03-03', 'Europe/London')).toEqual({
+      start: 0,
+      end: 24 * 60,
+      continuesBefore: true,
+      continuesAfter: true,
+    });
+  });
+
+  it('should not carry an event ending at midnight into the next day', () => {
+    const event = { startAt: '2026-03-02T20:00:00.000Z', endAt: '2026-03-03T00:00:00.000Z' };
+
+    expect(getEventDaySegment(event, '2026-03-02', 'Europe/London')).toEqual({
+      start: 20 * 60,
+      end: 24 * 60,
+      continuesBefore: false,
+      continuesAfter: false,
+    });
+    expect(getEventDaySegment(event, '2026-03-03', 'Europe/London')).toBeNull();
+  });
+
+  it('should work out the days in the display timezone', () => {
+    // 8pm to 11pm in New York is 1am to 4am the next day in London
+    const event = { startAt: '2026-03-03T01:00:00.000Z', endAt: '2026-03-03T04:00:00.000Z' };
+
+    expect(getEventDaySegment(event, '2026-03-02', 'America/New_York')).toEqual({
+      start: 20 * 60,
+      end: 23 * 60,
+      continuesBefore: false,
+      continuesAfter: false,
+    });
+    expect(getEventDaySegment(event, '2026-03-02', 'Europe/London')).toBeNull();
+  });
+});
@@ -20,6 +20,8 @@ function makeEvent(overrides: Partial<Event> = {}): Event {
     title: 'Test Event',
     startAt: '2026-02-16T10:00:00Z',
     endAt: '2026-02-16T11:00:00Z',
+    timezone: null,
+    endTimezone: null,
     isAllDay: false,
     color: null,
     location: null,
@@ -28,8 +30,14 @@ function makeEvent(overrides: Partial<Event> = {}): Event {
     visibility: 'private',
     rrule: null,
     exDates: [],
+    rDates: [],
+    skipHolidays: null,
+    seriesId: null,
     recurringEventId: null,
     originalDate: null,
+    tagIds: [],
+    taskId: null,
+    completedAt: null,
     isRecurringInstance: false,
     instanceDate: undefined,
     createdAt: '2026-01-01T00:00:00Z',
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  describeQuickAddRrule,
+  quickAddChips,
+  resolveEventTimes,
+  resolveTaskDue,
+} from '../quick-add';
+
+import type { CalendarCategory, QuickAddResult } from '@calley/shared';
+
+function makeParsed(overrides: Partial<QuickAddResult> = {}): QuickAddResult {
+  return {
+    title: 'Lunch',
+    date: null,
+    startTime: null,
+    endTime: null,
+    categoryId: null,
+    priority: null,
+    rrule: null,
+    ...overrides,
+  };
+}
+
+const CATEGORIES: CalendarCategory[] = [
+  {
+    id: 'cat-work',
+    userId: 'user-1',
+    name: 'Work',
+    color: '#4a90d9',
+    isDefault: true,
+    visible: true,
+    sortOrder: 0,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+  },
+];
+
+const DEFAULT_DATE = new Date(2026, 2, 4);
+
+describe('resolveEventTimes', () => {
+  it('should use parsed times over the clicked slot', () => {
+    const times = resolveEventTimes(
+      makeParsed({ date: '2026-03-05', startTime: '13:00', endTime: '14:30' }),
+      DEFAULT_DATE,
+      new Date(2026, 2, 4, 9),
+    );
+
+    expect(times).toEqual({
+      start: new Date(2026, 2, 5, 13),
+      end: new Date(2026, 2, 5, 14, 30),
+      isAllDay: false,
+    });
+  });
+
+  it('should fall back to the clicked slot and last an hour', () => {
+    const times = resolveEventTimes(makeParsed(), DEFAULT_DATE, new Date(2026, 2, 4, 9, 30));
+
+    expect(times.start).toEqual(new Date(2026, 2, 4, 9, 30));
+    expect(times.end).toEqual(new Date(2026, 2, 4, 10, 30));
+  });
+
+  it('should run an end before the start into the next day', () => {
+    const times = resolveEventTimes(
+      makeParsed({ startTime: '23:00', endTime: '01:00' }),
+      DEFAULT_DATE,
+    );
+
+    expect(times.end).toEqual(new Date(2026, 2, 5, 1));
+  });
+
+  it('should make an all-day event when there is no time', () => {
+    expect(resolveEventTimes(makeParsed(), DEFAULT_DATE).isAllDay).toBe(true);
+  });
+});
+
+describe('resolveTaskDue', () => {
+  it('should be due at the end of a day without a time', () => {
+    expect(resolveTaskDue(makeParsed({ date: '2026-03-06' }), null, '2026-03-04')).toEqual(
+      new Date(2026, 2, 6, 23, 59),
+    );
+  });
+
+  it('should put a time without a day on today', () => {
+    expect(resolveTaskDue(makeParsed({ startTime: '15:00' }), null, '2026-03-04')).toEqual(
+      new Date(2026, 2, 4, 15),
+    );
+  });
+
+  it('should start a repeat without a day today', () => {
+    expect(resolveTaskDue(makeParsed({ rrule: 'FREQ=DAILY' }), null, '2026-03-04')).toEqual(
+      new Date(2026, 2, 4, 23, 59),
+    );
+  });
+
+  it('should have no due date when nothing was given', () => {
+    expect(resolveTaskDue(makeParsed(), null, '2026-03-04')).toBeNull();
+  });
+});
+
+describe('describeQuickAddRrule', () => {
+  it('should describe the rules the parser builds', () => {
+    expect(describeQuickAddRrule('FREQ=DAILY')).toBe('Daily');
+    expect(describeQuickAddRrule('FREQ=WEEKLY;INTERVAL=2')).toBe('Every 2 weeks');
+    expect(describeQuickAddRrule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')).toBe('Every weekday');
+    expect(describeQuickAddRrule('FREQ=WEEKLY;BYDAY=TU,TH')).toBe('Weekly on Tue, Thu');
+  });
+});
+
+describe('quickAddChips', () => {
+  const parsed = makeParsed({
+    date: '2026-03-05',
+    startTime: '13:00',
+    endTime: '14:00',
+    categoryId: 'cat-work',
+    priority: 'high',
+    rrule: 'FREQ=WEEKLY;BYDAY=FR',
+  });
+
+  it('should list every parsed field', () => {
+    expect(quickAddChips(parsed, 'task', CATEGORIES)).toEqual([
+      'Thu, Mar 5',
+      '1:00 PM – 2:00 PM',
+      'Work',
+      'High priority',
+      'Weekly on Fri',
+    ]);
+  });
+
+  it('should leave out priority for events', () => {
+    expect(quickAddChips(parsed, 'event', CATEGORIES)).not.toContain('High priority');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildDayPatternParts,
+  extraDatesToInstants,
+  getNthWeekdayInfo,
+  instantsToExtraDates,
+  parseDayPattern,
+} from '../recurrence';
+
+import type { DayPattern } from '../recurrence';
+
+const PATTERN: DayPattern = {
+  monthlyMode: 'dayOfMonth',
+  monthDays: [],
+  setPos: 1,
+  setPosDays: 'weekday',
+  months: [],
+};
+
+describe('getNthWeekdayInfo', () => {
+  it('should count the weekday within its month', () => {
+    // Tuesday, March 10 2026
+    expect(getNthWeekdayInfo('2026-03-10')).toEqual({ n: 2, weekday: 2 });
+  });
+
+  it('should call the final fourth or fifth weekday the last', () => {
+    // Tuesday, March 31 2026
+    expect(getNthWeekdayInfo('2026-03-31')).toEqual({ n: -1, weekday: 2 });
+  });
+});
+
+describe('buildDayPatternParts', () => {
+  it('should add nothing for daily and weekly rules', () => {
+    expect(buildDayPatternParts('WEEKLY', { ...PATTERN, monthlyMode: 'setPos' })).toEqual([]);
+  });
+
+  it('should build the nth weekday from the start date', () => {
+    expect(
+      buildDayPatternParts('MONTHLY', { ...PATTERN, monthlyMode: 'nthWeekday' }, '2026-03-10'),
+    ).toEqual(['BYDAY=2TU']);
+  });
+
+  it('should list month days in order with the last day at the end', () => {
+    expect(
+      buildDayPatternParts('MONTHLY', {
+        ...PATTERN,
+        monthlyMode: 'monthDays',
+        monthDays: [-1, 15, 1],
+      }),
+    ).toEqual(['BYMONTHDAY=1,15,-1']);
+  });
+
+  it('should pick from a day set with BYSETPOS', () => {
+    expect(
+      buildDayPatternParts('MONTHLY', { ...PATTERN, monthlyMode: 'setPos', setPos: -1 }),
+    ).toEqual(['BYDAY=MO,TU,WE,TH,FR', 'BYSETPOS=-1']);
+  });
+
+  it('should add the chosen months to a yearly rule', () => {
+    expect(
+      buildDayPatternParts('YEARLY', {
+        ...PATTERN,
+        monthlyMode: 'monthDays',
+        monthDays: [1],
+        months: [7, 1],
+      }),
+    ).toEqual(['BYMONTH=1,7', 'BYMONTHDAY=1']);
+  });
+
+  it("should count a yearly weekday pattern in the start date's month", () => {
+    expect(
+      buildDayPatternParts('YEARLY', { ...PATTERN, monthlyMode: 'nthWeekday' }, '2026-11-12'),
+    ).toEqual(['BYMONTH=11', 'BYDAY=2TH']);
+  });
+});
+
+describe('parseDayPattern', () => {
+  it('should read a BYSETPOS rule', () => {
+    expect(parseDayPattern('FREQ=MONTHLY;BYDAY=SA,SU;BYSETPOS=1')).toEqual({
+      monthlyMode: 'setPos',
+      setPos: 1,
+      setPosDays: 'weekendDay',
+    });
+  });
+
+  it('should read month days and months', () => {
+    expect(parseDayPattern('FREQ=YEARLY;BYMONTH=1,7;BYMONTHDAY=1,-1')).toEqual({
+      months: [1, 7],
+      monthlyMode: 'monthDays',
+      monthDays: [1, -1],
+    });
+  });
+
+  it('should read a positional weekday', () => {
+    expect(parseDayPattern('FREQ=MONTHLY;BYDAY=-1FR')).toEqual({ monthlyMode: 'nthWeekday' });
+  });
+
+  it('should leave a day set it cannot show alone', () => {
+    expect(parseDayPattern('FREQ=MONTHLY;BYDAY=MO,WE;BYSETPOS=2')).toEqual({});
+  });
+
+  it('should round-trip what it builds', () => {
+    const pattern: DayPattern = { ...PATTERN, monthlyMode: 'setPos', setPos: 3, setPosDays: 'TH' };
+    const rrule = ['FREQ=MONTHLY', ...buildDayPatternParts('MONTHLY', pattern)].join(';');
+    expect(parseDayPattern(rrule)).toMatchObject({
+      monthlyMode: 'setPos',
+      setPos: 3,
+      setPosDays: 'TH',
+    });
+  });
+});
+
+describe('extra dates', () => {
+  it('should place extra dates at the start time in the event timezone', () => {
+    expect(extraDatesToInstants(['2026-07-04'], '09:30', 'America/New_York')).toEqual([
+      '2026-07-04T13:30:00.000Z',
+    ]);
+  });
+
+  it('should read stored dates back as days in the event timezone', () => {
+    // 02:00 UTC on the 5th is still the 4th in New York
+    expect(instantsToExtraDates(['2026-07-05T02:00:00.000Z'], 'America/New_York')).toEqual([
+      '2026-07-04',
+    ]);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeRepeatAfter } from '../repeat-after';
+
+describe('describeRepeatAfter', () => {
+  it('should describe a single interval in the singular', () => {
+    expect(describeRepeatAfter('FREQ=WEEKLY')).toBe('Every week after completion');
+    expect(describeRepeatAfter('FREQ=MONTHLY;INTERVAL=1')).toBe('Every month after completion');
+  });
+
+  it('should describe a longer interval in the plural', () => {
+    expect(describeRepeatAfter('FREQ=DAILY;INTERVAL=3')).toBe('Every 3 days after completion');
+  });
+
+  it('should fall back to a generic label for an unknown rule', () => {
+    expect(describeRepeatAfter('FREQ=HOURLY')).toBe('Repeats after completion');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import { getBlockerCandidates, getOpenBlockers, isTaskBlocked } from '../task-dependencies';
+
+import type { Task, TaskBlocker } from '@calley/shared';
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    userId: 'user-1',
+    categoryId: 'cat-work',
+    title: `Task ${id}`,
+    description: null,
+    dueAt: null,
+    priority: 'none',
+    status: 'todo',
+    completedAt: null,
+    archivedAt: null,
+    estimatedMinutes: null,
+    rrule: null,
+    repeatAfter: null,
+    exDates: [],
+    recurringTaskId: null,
+    originalDate: null,
+    parentTaskId: null,
+    subtaskProgress: { total: 0, done: 0 },
+    tagIds: [],
+    blockedBy: [],
+    scheduledAt: null,
+    sortOrder: 0,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+const blocker = (id: string, status: TaskBlocker['status'] = 'todo'): TaskBlocker => ({
+  id,
+  title: `Task ${id}`,
+  status,
+});
+
+describe('getOpenBlockers', () => {
+  it('should leave out finished blockers', () => {
+    const task = makeTask('a', { blockedBy: [blocker('b', 'done'), blocker('c', 'in_progress')] });
+
+    expect(getOpenBlockers(task).map((b) => b.id)).toEqual(['c']);
+  });
+});
+
+describe('isTaskBlocked', () => {
+  it('should be blocked only while a blocker is open', () => {
+    expect(isTaskBlocked(makeTask('a', { blockedBy: [blocker('b')] }))).toBe(true);
+    expect(isTaskBlocked(makeTask('a', { blockedBy: [blocker('b', 'done')] }))).toBe(false);
+    expect(isTaskBlocked(makeTask('a'))).toBe(false);
+  });
+
+  it('should never count a finished task as blocked', () => {
+    expect(isTaskBlocked(makeTask('a', { status: 'done', blockedBy: [blocker('b')] }))).toBe(false);
+  });
+});
+
+describe('getBlockerCandidates', () => {
+  it('should leave out the task itself, picked tasks and tasks waiting on it', () => {
+    const tasks = [
+      makeTask('a'),
+      makeTask('b'),
+      makeTask('c', { blockedBy: [blocker('a')] }),
+      makeTask('d'),
+      makeTask('optimistic-1'),
+    ];
+
+    expect(getBlockerCandidates(tasks, 'a', ['b']).map((t) => t.id)).toEqual(['d']);
+  });
+
+  it('should offer every saved task for a new task', () => {
+    const tasks = [makeTask('a'), makeTask('b', { blockedBy: [blocker('a')] })];
+
+    expect(getBlockerCandidates(tasks, null, []).map((t) => t.id)).toEqual(['a', 'b']);
+  });
+});
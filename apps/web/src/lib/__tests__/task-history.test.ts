@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+
+import { groupByCompletionDate } from '../task-history';
+
+import type { Task } from '@calley/shared';
+
+function makeTask(id: string, completedAt: string | null): Task {
+  return { id, title: `Task ${id}`, status: 'done', completedAt } as Task;
+}
+
+describe('groupByCompletionDate', () => {
+  it('should group tasks by completion day in the user timezone', () => {
+    const tasks = [
+      makeTask('a', '2026-03-05T15:00:00.000Z'),
+      // 02:00 UTC on the 5th is still the 4th in New York
+      makeTask('b', '2026-03-05T02:00:00.000Z'),
+      makeTask('c', '2026-03-04T13:00:00.000Z'),
+    ];
+
+    const days = groupByCompletionDate(tasks, 'America/New_York');
+
+    expect(days.map((d) => [d.date, d.tasks.map((t) => t.id)])).toEqual([
+      ['2026-03-05', ['a']],
+      ['2026-03-04', ['b', 'c']],
+    ]);
+  });
+
+  it('should skip tasks without a completion time', () => {
+    expect(groupByCompletionDate([makeTask('a', null)], 'UTC')).toEqual([]);
+  });
+});
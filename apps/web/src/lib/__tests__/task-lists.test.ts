@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { isSameTaskList, resolveTaskList } from '../task-lists';
+
+import type { TaskList } from '@calley/shared';
+
+function makeList(id: string, overrides: Partial<TaskList> = {}): TaskList {
+  return {
+    id,
+    userId: 'user-1',
+    name: `List ${id}`,
+    filters: {},
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('resolveTaskList', () => {
+  it('should ask the server to resolve a smart list', () => {
+    expect(resolveTaskList({ kind: 'smart', list: 'overdue' }, [])).toEqual({
+      label: 'Overdue',
+      filters: { list: 'overdue', sort: 'due_at' },
+    });
+  });
+
+  it("should turn a saved list's filters into task query filters", () => {
+    const saved = makeList('a', {
+      name: 'Urgent work',
+      filters: {
+        priority: ['high'],
+        categoryIds: ['cat-work'],
+        tagIds: [],
+        dueEnd: '2026-03-31T23:59:59.999Z',
+      },
+    });
+
+    expect(resolveTaskList({ kind: 'saved', id: 'a' }, [saved])).toEqual({
+      label: 'Urgent work',
+      filters: {
+        sort: 'due_at',
+        priority: ['high'],
+        categoryIds: ['cat-work'],
+        dueEnd: '2026-03-31T23:59:59.999Z',
+      },
+    });
+  });
+
+  it('should return null for a saved list that no longer exists', () => {
+    expect(resolveTaskList({ kind: 'saved', id: 'gone' }, [makeList('a')])).toBeNull();
+  });
+});
+
+describe('isSameTaskList', () => {
+  it('should compare smart and saved lists by their identity', () => {
+    expect(isSameTaskList({ kind: 'smart', list: 'today' }, { kind: 'smart', list: 'today' })).toBe(
+      true,
+    );
+    expect(isSameTaskList({ kind: 'smart', list: 'today' }, { kind: 'saved', id: 'today' })).toBe(
+      false,
+    );
+    expect(isSameTaskList({ kind: 'saved', id: 'a' }, { kind: 'saved', id: 'b' })).toBe(false);
+    expect(isSameTaskList(null, { kind: 'saved', id: 'a' })).toBe(false);
+  });
+});
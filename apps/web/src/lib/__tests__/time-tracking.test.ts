@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatMinutes, totalTrackedMinutes } from '../time-tracking';
+
+import type { TimeEntry } from '@calley/shared';
+
+function makeEntry(startedAt: string, endedAt: string | null): TimeEntry {
+  return {
+    id: `entry-${startedAt}`,
+    userId: 'user-1',
+    taskId: 'task-1',
+    startedAt,
+    endedAt,
+    createdAt: startedAt,
+    updatedAt: startedAt,
+  };
+}
+
+describe('totalTrackedMinutes', () => {
+  it('should add up finished sessions and count a running one up to now', () => {
+    const entries = [
+      makeEntry('2026-03-02T09:00:00.000Z', '2026-03-02T09:45:00.000Z'),
+      makeEntry('2026-03-02T11:00:00.000Z', null),
+    ];
+
+    expect(totalTrackedMinutes(entries, new Date('2026-03-02T11:20:30.000Z'))).toBe(65);
+  });
+
+  it('should be zero with no sessions', () => {
+    expect(totalTrackedMinutes([])).toBe(0);
+  });
+});
+
+describe('formatMinutes', () => {
+  it('should format minutes, whole hours and both', () => {
+    expect(formatMinutes(0)).toBe('0m');
+    expect(formatMinutes(45)).toBe('45m');
+    expect(formatMinutes(120)).toBe('2h');
+    expect(formatMinutes(80)).toBe('1h 20m');
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+
+import { describePurge } from '../trash';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+describe('describePurge', () => {
+  it('should count whole days until the item is deleted', () => {
+    expect(describePurge('2026-03-22T00:00:00.000Z', NOW)).toBe('Deletes in 12 days');
+    expect(describePurge('2026-03-11T06:00:00.000Z', NOW)).toBe('Deletes tomorrow');
+  });
+
+  it('should say today once the purge time is near or past', () => {
+    expect(describePurge('2026-03-10T11:00:00.000Z', NOW)).toBe('Deletes today');
+  });
+});
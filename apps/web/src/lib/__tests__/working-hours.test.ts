@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_WORKING_HOURS } from '@calley/shared';
+
+import { fromEndTimeInput, getOffHours, toEndTimeInput } from '../working-hours';
+
+describe('getOffHours', () => {
+  it('should shade everything outside a default working day', () => {
+    // Monday 2 March 2026
+    expect(getOffHours('2026-03-02', DEFAULT_WORKING_HOURS, 'Europe/London')).toEqual([
+      { start: 0, end: 9 * 60 },
+      { start: 17 * 60, end: 24 * 60 },
+    ]);
+  });
+
+  it('should shade the whole of a day off', () => {
+    expect(getOffHours('2026-03-01', DEFAULT_WORKING_HOURS, 'Europe/London')).toEqual([
+      { start: 0, end: 24 * 60 },
+    ]);
+  });
+
+  it('should convert hours kept in another timezone', () => {
+    const newYork = { ...DEFAULT_WORKING_HOURS, timezone: 'America/New_York' };
+
+    expect(getOffHours('2026-03-02', newYork, 'Europe/London')).toEqual([
+      { start: 0, end: 14 * 60 },
+      { start: 22 * 60, end: 24 * 60 },
+    ]);
+  });
+
+  it('should include hours spilling over from the previous day', () => {
+    // Friday 09:00–17:00 in Los Angeles runs to 01:00 Saturday in London
+    const losAngeles = { ...DEFAULT_WORKING_HOURS, timezone: 'America/Los_Angeles' };
+
+    expect(getOffHours('2026-03-07', losAngeles, 'Europe/London')).toEqual([
+      { start: 60, end: 24 * 60 },
+    ]);
+  });
+
+  it('should treat an end of 24:00 as working until midnight', () => {
+    const evenings = {
+      ...DEFAULT_WORKING_HOURS,
+      days: DEFAULT_WORKING_HOURS.days.map(() => [{ start: '18:00', end: '24:00' }]),
+    };
+
+    expect(getOffHours('2026-03-02', evenings, 'Europe/London')).toEqual([
+      { start: 0, end: 18 * 60 },
+    ]);
+  });
+});
+
+describe('end time inputs', () => {
+  it('should show the end of the day as 00:00 and read it back as 24:00', () => {
+    expect(toEndTimeInput('24:00')).toBe('00:00');
+    expect(fromEndTimeInput('00:00')).toBe('24:00');
+  });
+
+  it('should leave other times alone', () => {
+    expect(toEndTimeInput('17:30')).toBe('17:30');
+    expect(fromEndTimeInput('17:30')).toBe('17:30');
+  });
+});
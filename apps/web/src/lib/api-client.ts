@@ -1,6 +1,6 @@
 import { toast } from 'sonner';
 
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000';
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000';
 
 // Inject dns-prefetch for the API origin at runtime so it works in all environments
 try {
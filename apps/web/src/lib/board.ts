@@ -0,0 +1,142 @@
+import { PRIORITY_LABELS, STATUS_LABELS, taskStatusSchema } from '@calley/shared';
+
+import type {
+  CalendarCategory,
+  Task,
+  TaskPriority,
+  TaskStatus,
+  UpdateTaskInput,
+} from '@calley/shared';
+
+export type BoardSwimlane = 'none' | 'priority' | 'category';
+
+/** Board columns, one per task status, in workflow order */
+export const BOARD_COLUMNS = taskStatusSchema.options.map((status) => ({
+  status,
+  label: STATUS_LABELS[status],
+}));
+
+/** Priority lanes run from most to least urgent */
+const PRIORITY_LANES: TaskPriority[] = ['high', 'medium', 'low', 'none'];
+
+/** Lane ID used when swimlanes are off */
+const ALL_LANE_ID = 'all';
+
+export interface BoardLane {
+  id: string;
+  label: string;
+  color?: string;
+  columns: Record<TaskStatus, Task[]>;
+}
+
+/** Where a card sits, or should be dropped, on the board */
+export interface BoardPosition {
+  laneId: string;
+  status: TaskStatus;
+  index: number;
+}
+
+function emptyColumns(): Record<TaskStatus, Task[]> {
+  return Object.fromEntries(BOARD_COLUMNS.map(({ status }) => [status, []])) as unknown as Record<
+    TaskStatus,
+    Task[]
+  >;
+}
+
+function laneIdFor(task: Task, swimlane: BoardSwimlane): string {
+  if (swimlane === 'priority') return task.priority;
+  if (swimlane === 'category') return task.categoryId;
+  return ALL_LANE_ID;
+}
+
+/**
+ * Split tasks into swimlanes and status columns. Tasks keep their
+ * incoming order (the caller fetches them by sort order). Category
+ * lanes follow the category list. Empty lanes are kept so cards can
+ * be dropped into them.
+ */
+export function buildBoardLanes(
+  tasks: Task[],
+  swimlane: BoardSwimlane,
+  categories: CalendarCategory[] = [],
+): BoardLane[] {
+  let lanes: BoardLane[];
+  if (swimlane === 'priority') {
+    lanes = PRIORITY_LANES.map((priority) => ({
+      id: priority,
+      label: priority === 'none' ? 'No priority' : PRIORITY_LABELS[priority],
+      columns: emptyColumns(),
+    }));
+  } else if (swimlane === 'category') {
+    lanes = categories.map((cat) => ({
+      id: cat.id,
+      label: cat.name,
+      color: cat.color,
+      columns: emptyColumns(),
+    }));
+  } else {
+    lanes = [{ id: ALL_LANE_ID, label: 'All tasks', columns: emptyColumns() }];
+  }
+
+  const byId = new Map(lanes.map((lane) => [lane.id, lane]));
+  for (const task of tasks) {
+    const lane = byId.get(laneIdFor(task, swimlane));
+    lane?.columns[task.status].push(task);
+  }
+
+  return lanes;
+}
+
+/** Find a card's current lane, column and index */
+export function findCardPosition(lanes: BoardLane[], taskId: string): BoardPosition | null {
+  for (const lane of lanes) {
+    for (const { status } of BOARD_COLUMNS) {
+      const index = lane.columns[status].findIndex((t) => t.id === taskId);
+      if (index !== -1) return { laneId: lane.id, status, index };
+    }
+  }
+  return null;
+}
+
+export interface BoardMove {
+  /** Field changes for a card dropped into another column or lane */
+  changes: UpdateTaskInput | null;
+  /** New order of the target column, for `reorderTasks` */
+  orderedIds: string[];
+}
+
+/**
+ * Work out what dropping a card at `target` means: a status (and, with
+ * swimlanes, priority or category) change when it lands somewhere new,
+ * plus the target column's new order. Returns null when nothing moves.
+ */
+export function planBoardMove(
+  lanes: BoardLane[],
+  swimlane: BoardSwimlane,
+  taskId: string,
+  target: BoardPosition,
+): BoardMove | null {
+  const from = findCardPosition(lanes, taskId);
+  const targetLane = lanes.find((lane) => lane.id === target.laneId);
+  if (!from || !targetLane) return null;
+
+  const task = lanes.find((lane) => lane.id === from.laneId)!.columns[from.status][from.index];
+  const sameColumn = from.laneId === target.laneId && from.status === target.status;
+
+  const column = targetLane.columns[target.status].filter((t) => t.id !== taskId);
+  const index = Math.max(0, Math.min(target.index, column.length));
+  if (sameColumn && index === from.index) return null;
+  column.splice(index, 0, task);
+
+  let changes: UpdateTaskInput | null = null;
+  if (!sameColumn) {
+    changes = {};
+    if (from.status !== target.status) changes.status = target.status;
+    if (from.laneId !== target.laneId) {
+      if (swimlane === 'priority') changes.priority = target.laneId as TaskPriority;
+      if (swimlane === 'category') changes.categoryId = target.laneId;
+    }
+  }
+
+  return { changes, orderedIds: column.map((t) => t.id) };
+}
@@ -0,0 +1,40 @@
+import { formatInTimeZone } from 'date-fns-tz';
+
+import type { BookingSlot } from '@calley/shared';
+
+export interface BookingSlotDay {
+  /** The day in the visitor's timezone (yyyy-MM-dd) */
+  dateKey: string;
+  slots: BookingSlot[];
+}
+
+/**
+ * Group open booking slots by the day they start on in the visitor's
+ * timezone, which may differ from the host's. Slots arrive sorted, so
+ * days and the slots within them stay in order.
+ */
+export function groupSlotsByDay(slots: BookingSlot[], timezone: string): BookingSlotDay[] {
+  const days: BookingSlotDay[] = [];
+
+  for (const slot of slots) {
+    const dateKey = formatInTimeZone(new Date(slot.start), timezone, 'yyyy-MM-dd');
+    const last = days[days.length - 1];
+    if (last?.dateKey === dateKey) {
+      last.slots.push(slot);
+    } else {
+      days.push({ dateKey, slots: [slot] });
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Format a booked or offered time for a visitor, who may not have an
+ * account, in their browser timezone.
+ */
+export function formatSlotTime(slot: BookingSlot, timezone: string): string {
+  const start = formatInTimeZone(new Date(slot.start), timezone, 'EEEE, MMMM d, yyyy · h:mm a');
+  const end = formatInTimeZone(new Date(slot.end), timezone, 'h:mm a zzz');
+  return `${start} – ${end}`;
+}
@@ -0,0 +1,52 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+import type { MinuteRange } from './working-hours';
+import type { Event } from '@calley/shared';
+
+/** The part of a timed event that falls on one day, in minutes since midnight */
+export interface EventDaySegment extends MinuteRange {
+  /** The event started on an earlier day */
+  continuesBefore: boolean;
+  /** The event runs on into a later day */
+  continuesAfter: boolean;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toMinutes(date: Date, timezone: string): number {
+  const [h, m] = formatInTimeZone(date, timezone, 'HH:mm').split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Clips a timed event to a calendar day in the display timezone, so an
+ * event from 10pm to 2am is drawn as 22:00–24:00 on its first day and
+ * 00:00–02:00 on the next. An event ending exactly at midnight doesn't
+ * reach the next day.
+ *
+ * @param dateKey - The day in the display timezone (yyyy-MM-dd)
+ * @returns The segment on that day, or null if the event isn't on it
+ */
+export function getEventDaySegment(
+  event: Pick<Event, 'startAt' | 'endAt'>,
+  dateKey: string,
+  timezone: string,
+): EventDaySegment | null {
+  const start = parseISO(event.startAt);
+  const end = parseISO(event.endAt);
+  const dayStart = fromZonedTime(`${dateKey}T00:00:00`, timezone);
+  const dayEnd = fromZonedTime(
+    `${format(addDays(parseISO(dateKey), 1), 'yyyy-MM-dd')}T00:00:00`,
+    timezone,
+  );
+
+  if (start >= dayEnd || (end <= dayStart && start < dayStart)) return null;
+
+  return {
+    start: start <= dayStart ? 0 : toMinutes(start, timezone),
+    end: end >= dayEnd ? MINUTES_PER_DAY : toMinutes(end, timezone),
+    continuesBefore: start < dayStart,
+    continuesAfter: end > dayEnd,
+  };
+}
@@ -1,4 +1,5 @@
 import type { TaskFilter } from '@/types/filters';
+import type { RecurrencePreviewInput } from '@calley/shared';
 
 export const queryKeys = {
   events: {
@@ -8,13 +9,64 @@ export const queryKeys = {
     occurrences: (id: string, start: string, end: string) =>
       ['events', 'occurrences', id, start, end] as const,
   },
+  // Kept apart from events: event mutations rewrite every events cache as a list
+  recurrencePreview: {
+    all: ['recurrence-preview'] as const,
+    input: (input: Partial<RecurrencePreviewInput>) => ['recurrence-preview', input] as const,
+  },
+  seriesLineage: {
+    all: ['series-lineage'] as const,
+    event: (eventId: string) => ['series-lineage', eventId] as const,
+  },
   tasks: {
     all: ['tasks'] as const,
     list: (filters: TaskFilter) => ['tasks', 'list', filters] as const,
     detail: (id: string) => ['tasks', 'detail', id] as const,
+    subtasks: (id: string) => ['tasks', 'subtasks', id] as const,
+    completions: (id: string) => ['tasks', 'completions', id] as const,
+    completed: ['tasks', 'completed'] as const,
+    // Nested under tasks so every task change refreshes the counts
+    smartListCounts: ['tasks', 'smart-lists'] as const,
+  },
+  trash: {
+    all: ['trash'] as const,
+  },
+  taskLists: {
+    all: ['task-lists'] as const,
+  },
+  attendees: {
+    byEvent: (eventId: string) => ['attendees', eventId] as const,
+  },
+  rsvp: {
+    invitation: (token: string) => ['rsvp', token] as const,
+  },
+  appointmentTypes: {
+    all: ['appointment-types'] as const,
+  },
+  booking: {
+    page: (slug: string) => ['booking', 'page', slug] as const,
+    slots: (slug: string, start: string, end: string) =>
+      ['booking', 'slots', slug, start, end] as const,
+    detail: (token: string) => ['booking', 'detail', token] as const,
   },
   categories: {
     all: ['categories'] as const,
+    // Nested under categories so category SSE events refresh sharing too
+    shared: ['categories', 'shared'] as const,
+    shares: (categoryId: string) => ['categories', 'shares', categoryId] as const,
+  },
+  tags: {
+    all: ['tags'] as const,
+  },
+  timeEntries: {
+    all: ['time-entries'] as const,
+    byTask: (taskId: string) => ['time-entries', 'task', taskId] as const,
+  },
+  feeds: {
+    all: ['feeds'] as const,
+  },
+  appPasswords: {
+    all: ['app-passwords'] as const,
   },
   reminders: {
     byItem: (itemType: string, itemId: string) => ['reminders', itemType, itemId] as const,
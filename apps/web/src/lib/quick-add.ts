@@ -0,0 +1,113 @@
+import { addDays, addHours, format, parseISO } from 'date-fns';
+
+import { PRIORITY_LABELS } from '@calley/shared';
+
+import type { CalendarCategory, QuickAddResult } from '@calley/shared';
+
+export type QuickAddItemType = 'event' | 'task';
+
+export interface QuickAddEventTimes {
+  /** Wall-clock times in the user's timezone */
+  start: Date;
+  end: Date;
+  isAllDay: boolean;
+}
+
+const WEEKDAY_NAMES: Record<string, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const UNITS: Record<string, [string, string]> = {
+  DAILY: ['Daily', 'days'],
+  WEEKLY: ['Weekly', 'weeks'],
+  MONTHLY: ['Monthly', 'months'],
+  YEARLY: ['Yearly', 'years'],
+};
+
+/**
+ * When a quick-added event happens: the parsed day and times, falling
+ * back to the clicked day and slot. A single time lasts an hour, an end
+ * before the start runs into the next day, and no time at all makes an
+ * all-day event.
+ */
+export function resolveEventTimes(
+  parsed: QuickAddResult,
+  defaultDate: Date,
+  defaultTime?: Date,
+): QuickAddEventTimes {
+  const day = parsed.date ?? format(defaultDate, 'yyyy-MM-dd');
+  const startTime = parsed.startTime ?? (defaultTime ? format(defaultTime, 'HH:mm') : null);
+  if (!startTime) {
+    const start = parseISO(day);
+    return { start, end: addHours(start, 1), isAllDay: true };
+  }
+
+  const start = parseISO(`${day}T${startTime}`);
+  let end = parsed.endTime ? parseISO(`${day}T${parsed.endTime}`) : addHours(start, 1);
+  if (end <= start) end = addDays(end, 1);
+  return { start, end, isAllDay: false };
+}
+
+/**
+ * Wall-clock due time of a quick-added task, or null for no due date.
+ * A time or a repeat without a day starts today; a day without a time
+ * means the end of it, as in the task drawer.
+ */
+export function resolveTaskDue(
+  parsed: QuickAddResult,
+  defaultDay: string | null,
+  today: string,
+): Date | null {
+  const day = parsed.date ?? defaultDay ?? (parsed.startTime || parsed.rrule ? today : null);
+  if (!day) return null;
+  return parseISO(`${day}T${parsed.startTime ?? '23:59'}`);
+}
+
+/** A short label for the RRULEs the quick-add parser produces */
+export function describeQuickAddRrule(rrule: string): string {
+  const parts = Object.fromEntries(rrule.split(';').map((p) => p.split('=')));
+  const units = UNITS[parts.FREQ];
+  if (!units) return 'Repeats';
+
+  if (parts.BYDAY) {
+    if (parts.BYDAY === 'MO,TU,WE,TH,FR') return 'Every weekday';
+    const days = parts.BYDAY.split(',').map((d: string) => WEEKDAY_NAMES[d] ?? d);
+    return `Weekly on ${days.join(', ')}`;
+  }
+  const interval = Number(parts.INTERVAL ?? 1);
+  return interval > 1 ? `Every ${interval} ${units[1]}` : units[0];
+}
+
+/**
+ * The preview chips shown under the quick-add input, one per parsed
+ * field. Priority only applies to tasks.
+ */
+export function quickAddChips(
+  parsed: QuickAddResult,
+  itemType: QuickAddItemType,
+  categories: CalendarCategory[],
+): string[] {
+  const chips: string[] = [];
+  if (parsed.date) chips.push(format(parseISO(parsed.date), 'EEE, MMM d'));
+  if (parsed.startTime) {
+    const formatTime = (time: string) => format(parseISO(`2000-01-01T${time}`), 'h:mm a');
+    chips.push(
+      parsed.endTime
+        ? `${formatTime(parsed.startTime)} – ${formatTime(parsed.endTime)}`
+        : formatTime(parsed.startTime),
+    );
+  }
+  const category = categories.find((c) => c.id === parsed.categoryId);
+  if (category) chips.push(category.name);
+  if (parsed.priority && itemType === 'task') {
+    chips.push(`${PRIORITY_LABELS[parsed.priority]} priority`);
+  }
+  if (parsed.rrule) chips.push(describeQuickAddRrule(parsed.rrule));
+  return chips;
+}
@@ -0,0 +1,177 @@
+import { parseISO } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+/** How a monthly or yearly rule picks its day */
+export type MonthlyMode = 'dayOfMonth' | 'nthWeekday' | 'monthDays' | 'setPos';
+
+export type SetPosDays =
+  | 'day'
+  | 'weekday'
+  | 'weekendDay'
+  | 'MO'
+  | 'TU'
+  | 'WE'
+  | 'TH'
+  | 'FR'
+  | 'SA'
+  | 'SU';
+
+export interface DayPattern {
+  monthlyMode: MonthlyMode;
+  /** Days of the month, -1 for the last day */
+  monthDays: number[];
+  /** 1–4, or -1 for the last */
+  setPos: number;
+  setPosDays: SetPosDays;
+  /** 1–12, yearly rules only. Empty means the start date's month. */
+  months: number[];
+}
+
+/** The day sets BYSETPOS picks from ("the last weekday of the month") */
+export const SET_POS_DAYS: { value: SetPosDays; label: string; days: string[] }[] = [
+  { value: 'day', label: 'day', days: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] },
+  { value: 'weekday', label: 'weekday', days: ['MO', 'TU', 'WE', 'TH', 'FR'] },
+  { value: 'weekendDay', label: 'weekend day', days: ['SA', 'SU'] },
+  { value: 'MO', label: 'Monday', days: ['MO'] },
+  { value: 'TU', label: 'Tuesday', days: ['TU'] },
+  { value: 'WE', label: 'Wednesday', days: ['WE'] },
+  { value: 'TH', label: 'Thursday', days: ['TH'] },
+  { value: 'FR', label: 'Friday', days: ['FR'] },
+  { value: 'SA', label: 'Saturday', days: ['SA'] },
+  { value: 'SU', label: 'Sunday', days: ['SU'] },
+];
+
+export const SET_POSITIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+/** BYDAY codes in JavaScript getDay() order */
+const JS_DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Which weekday of its month a date falls on: the 2nd Tuesday is
+ * `{ n: 2, weekday: 2 }`. A 4th or 5th weekday that is the month's last
+ * comes back as -1, per iCalendar BYDAY (-1MO = last Monday).
+ */
+export function getNthWeekdayInfo(dateStr: string): { n: number; weekday: number } {
+  const date = parseISO(dateStr);
+  const dayOfMonth = date.getDate();
+  const weekday = date.getDay(); // 0=Sun..6=Sat
+  const n = Math.ceil(dayOfMonth / 7);
+
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  const isLast = dayOfMonth + 7 > daysInMonth;
+
+  return { n: isLast && n >= 4 ? -1 : n, weekday };
+}
+
+/** Month days in order, with "last day" (-1) at the end */
+function sortMonthDays(days: number[]): number[] {
+  return [...days].sort((a, b) => (a < 0 ? 32 : a) - (b < 0 ? 32 : b));
+}
+
+/**
+ * The RRULE parts that pick the day of a monthly or yearly rule.
+ * Other frequencies have none. Yearly rules with a weekday pattern need
+ * a month to count in, so they fall back to the start date's month.
+ */
+export function buildDayPatternParts(
+  frequency: string,
+  pattern: DayPattern,
+  startDate?: string,
+): string[] {
+  if (frequency !== 'MONTHLY' && frequency !== 'YEARLY') return [];
+  const parts: string[] = [];
+
+  if (frequency === 'YEARLY') {
+    let months = [...pattern.months].sort((a, b) => a - b);
+    if (months.length === 0 && startDate && pattern.monthlyMode !== 'dayOfMonth') {
+      months = [parseISO(startDate).getMonth() + 1];
+    }
+    if (months.length > 0) parts.push(`BYMONTH=${months.join(',')}`);
+  }
+
+  switch (pattern.monthlyMode) {
+    case 'nthWeekday':
+      if (startDate) {
+        const { n, weekday } = getNthWeekdayInfo(startDate);
+        parts.push(`BYDAY=${n}${JS_DAY_CODES[weekday]}`);
+      }
+      break;
+    case 'monthDays':
+      if (pattern.monthDays.length > 0) {
+        parts.push(`BYMONTHDAY=${sortMonthDays(pattern.monthDays).join(',')}`);
+      }
+      break;
+    case 'setPos': {
+      const option = SET_POS_DAYS.find((o) => o.value === pattern.setPosDays) ?? SET_POS_DAYS[0];
+      parts.push(`BYDAY=${option.days.join(',')}`, `BYSETPOS=${pattern.setPos}`);
+      break;
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Read the day pattern back out of an RRULE. Rules whose BYSETPOS day
+ * set the builder can't show are left as a plain day-of-month rule.
+ */
+export function parseDayPattern(rrule: string): Partial<DayPattern> {
+  const parts = new Map(
+    rrule
+      .replace(/^RRULE:/, '')
+      .split(';')
+      .map((part) => part.split('=') as [string, string]),
+  );
+  const result: Partial<DayPattern> = {};
+
+  const byMonth = parts.get('BYMONTH');
+  if (byMonth) result.months = byMonth.split(',').map(Number);
+
+  const byDay = parts.get('BYDAY');
+  const bySetPos = parts.get('BYSETPOS');
+  const byMonthDay = parts.get('BYMONTHDAY');
+
+  if (byDay && bySetPos) {
+    const days = byDay.split(',');
+    const option = SET_POS_DAYS.find(
+      (o) => o.days.length === days.length && o.days.every((d) => days.includes(d)),
+    );
+    if (option) {
+      result.monthlyMode = 'setPos';
+      result.setPos = Number(bySetPos.split(',')[0]);
+      result.setPosDays = option.value;
+    }
+  } else if (byMonthDay) {
+    result.monthlyMode = 'monthDays';
+    result.monthDays = byMonthDay.split(',').map(Number);
+  } else if (byDay && /^[+-]?\d/.test(byDay)) {
+    result.monthlyMode = 'nthWeekday';
+  }
+
+  return result;
+}
+
+/**
+ * Extra dates (YYYY-MM-DD) as instants at the event's start time in its
+ * timezone, ready to send as rDates.
+ */
+export function extraDatesToInstants(
+  dates: string[],
+  startTime: string,
+  timeZone: string,
+): string[] {
+  return dates.map((date) =>
+    fromZonedTime(parseISO(`${date}T${startTime}`), timeZone).toISOString(),
+  );
+}
+
+/** Stored rDates as the days they fall on in the event's timezone */
+export function instantsToExtraDates(rDates: string[], timeZone: string): string[] {
+  return rDates.map((d) => formatInTimeZone(d, timeZone, 'yyyy-MM-dd'));
+}
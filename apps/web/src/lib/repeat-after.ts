@@ -0,0 +1,22 @@
+const UNITS: Record<string, [string, string]> = {
+  DAILY: ['day', 'days'],
+  WEEKLY: ['week', 'weeks'],
+  MONTHLY: ['month', 'months'],
+  YEARLY: ['year', 'years'],
+};
+
+/**
+ * A repeat-after-completion rule like "FREQ=DAILY;INTERVAL=3" as
+ * "Every 3 days after completion". Unknown rules fall back to a
+ * generic label.
+ */
+export function describeRepeatAfter(rule: string): string {
+  const match = /^FREQ=(\w+)(?:;INTERVAL=(\d+))?$/.exec(rule);
+  const units = match ? UNITS[match[1]] : undefined;
+  if (!match || !units) return 'Repeats after completion';
+
+  const interval = match[2] ? Number(match[2]) : 1;
+  return interval === 1
+    ? `Every ${units[0]} after completion`
+    : `Every ${interval} ${units[1]} after completion`;
+}
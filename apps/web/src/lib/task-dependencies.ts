@@ -0,0 +1,36 @@
+import type { Task, TaskBlocker } from '@calley/shared';
+
+/**
+ * The tasks still holding a task up.
+ */
+export function getOpenBlockers(task: Pick<Task, 'blockedBy'>): TaskBlocker[] {
+  return task.blockedBy.filter((b) => b.status !== 'done');
+}
+
+/**
+ * Whether a task is waiting on unfinished tasks. A finished task never
+ * counts as blocked.
+ */
+export function isTaskBlocked(task: Pick<Task, 'status' | 'blockedBy'>): boolean {
+  return task.status !== 'done' && getOpenBlockers(task).length > 0;
+}
+
+/**
+ * The tasks that can be added as blockers of `taskId` (or of a new task
+ * when it is null): not the task itself, not ones already picked, and not
+ * ones that wait on the task, which would close a loop straight away.
+ * Deeper loops are caught by the server.
+ */
+export function getBlockerCandidates(
+  tasks: Task[],
+  taskId: string | null,
+  selectedIds: string[],
+): Task[] {
+  return tasks.filter(
+    (t) =>
+      t.id !== taskId &&
+      !t.id.startsWith('optimistic-') &&
+      !selectedIds.includes(t.id) &&
+      !(taskId && t.blockedBy.some((b) => b.id === taskId)),
+  );
+}
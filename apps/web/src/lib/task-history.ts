@@ -0,0 +1,28 @@
+import { formatInTimeZone } from 'date-fns-tz';
+
+import type { Task } from '@calley/shared';
+
+export interface CompletionDay {
+  /** Day the tasks were completed, YYYY-MM-DD in the user's timezone */
+  date: string;
+  tasks: Task[];
+}
+
+/**
+ * Group completed tasks by the day they were completed in the user's
+ * timezone, keeping the order they came in (newest first from the API).
+ */
+export function groupByCompletionDate(tasks: Task[], timezone: string): CompletionDay[] {
+  const days: CompletionDay[] = [];
+  for (const task of tasks) {
+    if (!task.completedAt) continue;
+    const date = formatInTimeZone(task.completedAt, timezone, 'yyyy-MM-dd');
+    const last = days[days.length - 1];
+    if (last?.date === date) {
+      last.tasks.push(task);
+    } else {
+      days.push({ date, tasks: [task] });
+    }
+  }
+  return days;
+}
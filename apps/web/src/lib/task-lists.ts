@@ -0,0 +1,44 @@
+import { SMART_LIST_LABELS } from '@calley/shared';
+
+import type { TaskFilter } from '@/types/filters';
+import type { SmartList, TaskList } from '@calley/shared';
+
+/** The list picked in the sidebar: a built-in smart list or a saved one */
+export type ActiveTaskList = { kind: 'smart'; list: SmartList } | { kind: 'saved'; id: string };
+
+/**
+ * Task query filters and a heading for the active list. Returns null when
+ * a saved list no longer exists (e.g. deleted in another tab).
+ */
+export function resolveTaskList(
+  active: ActiveTaskList,
+  savedLists: TaskList[],
+): { label: string; filters: TaskFilter } | null {
+  if (active.kind === 'smart') {
+    return {
+      label: SMART_LIST_LABELS[active.list],
+      filters: { list: active.list, sort: 'due_at' },
+    };
+  }
+
+  const saved = savedLists.find((l) => l.id === active.id);
+  if (!saved) return null;
+
+  const { status, priority, dueStart, dueEnd, categoryIds, tagIds } = saved.filters;
+  const filters: TaskFilter = { sort: 'due_at' };
+  if (status?.length) filters.status = status;
+  if (priority?.length) filters.priority = priority;
+  if (dueStart) filters.dueStart = dueStart;
+  if (dueEnd) filters.dueEnd = dueEnd;
+  if (categoryIds?.length) filters.categoryIds = categoryIds;
+  if (tagIds?.length) filters.tagIds = tagIds;
+
+  return { label: saved.name, filters };
+}
+
+/** Whether two list selections point at the same list */
+export function isSameTaskList(a: ActiveTaskList | null, b: ActiveTaskList): boolean {
+  if (!a) return false;
+  if (a.kind === 'smart') return b.kind === 'smart' && a.list === b.list;
+  return b.kind === 'saved' && a.id === b.id;
+}
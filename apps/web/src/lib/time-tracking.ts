@@ -0,0 +1,24 @@
+import type { TimeEntry } from '@calley/shared';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Total minutes logged across a task's sessions. A running session
+ * counts up to `now`.
+ */
+export function totalTrackedMinutes(entries: TimeEntry[], now: Date = new Date()): number {
+  let totalMs = 0;
+  for (const entry of entries) {
+    const end = entry.endedAt ? new Date(entry.endedAt) : now;
+    totalMs += Math.max(0, end.getTime() - new Date(entry.startedAt).getTime());
+  }
+  return Math.floor(totalMs / MINUTE_MS);
+}
+
+/** A duration like "45m", "2h" or "1h 20m" */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
@@ -0,0 +1,36 @@
+/**
+ * IANA timezones supported by the browser, with a short fallback list for
+ * browsers without Intl.supportedValuesOf.
+ */
+export function getTimezoneList(): string[] {
+  try {
+    return (Intl as unknown as { supportedValuesOf: (key: string) => string[] }).supportedValuesOf(
+      'timeZone',
+    );
+  } catch {
+    // Fallback for older browsers
+    return [
+      'UTC',
+      'America/New_York',
+      'America/Chicago',
+      'America/Denver',
+      'America/Los_Angeles',
+      'America/Anchorage',
+      'Pacific/Honolulu',
+      'Europe/London',
+      'Europe/Paris',
+      'Europe/Berlin',
+      'Asia/Tokyo',
+      'Asia/Shanghai',
+      'Asia/Kolkata',
+      'Australia/Sydney',
+    ];
+  }
+}
+
+/**
+ * Human-readable label for an IANA timezone ("America/New_York" → "America/New York").
+ */
+export function formatTimezoneLabel(timezone: string): string {
+  return timezone.replace(/_/g, ' ');
+}
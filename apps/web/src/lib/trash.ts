@@ -0,0 +1,12 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long until a trashed item is deleted for good, as shown next to
+ * it in the trash: "Deletes in 12 days", "Deletes tomorrow".
+ */
+export function describePurge(purgeAt: string, now = new Date()): string {
+  const days = Math.ceil((new Date(purgeAt).getTime() - now.getTime()) / DAY_MS);
+  if (days <= 0) return 'Deletes today';
+  if (days === 1) return 'Deletes tomorrow';
+  return `Deletes in ${days} days`;
+}
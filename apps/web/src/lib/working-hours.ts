@@ -0,0 +1,87 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+import type { WorkingHours } from '@calley/shared';
+
+/** A span of the day in minutes since midnight, end exclusive */
+export interface MinuteRange {
+  start: number;
+  end: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** The end of the day in working hours, which a time input shows as 00:00 */
+const END_OF_DAY = '24:00';
+
+/** The value to show in a time input for the end of a working range */
+export function toEndTimeInput(end: string): string {
+  return end === END_OF_DAY ? '00:00' : end;
+}
+
+/** The end of a working range from a time input, where 00:00 means midnight tonight */
+export function fromEndTimeInput(value: string): string {
+  return value === '00:00' ? END_OF_DAY : value;
+}
+
+function toMinutes(date: Date, timezone: string): number {
+  const [h, m] = formatInTimeZone(date, timezone, 'HH:mm').split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * The parts of a calendar day outside working hours, as shown in the
+ * display timezone. Working hours in another timezone are converted, so
+ * someone working 09:00–17:00 in New York sees 14:00–22:00 from London.
+ *
+ * @param dateKey - The day in the display timezone (yyyy-MM-dd)
+ * @param workingHours - The user's working hours
+ * @param displayTimezone - The timezone the calendar is drawn in, which is
+ *   also the timezone of hours that don't name their own
+ */
+export function getOffHours(
+  dateKey: string,
+  workingHours: WorkingHours,
+  displayTimezone: string,
+): MinuteRange[] {
+  const timezone = workingHours.timezone ?? displayTimezone;
+  const day = parseISO(dateKey);
+  const dayStart = fromZonedTime(`${dateKey}T00:00:00`, displayTimezone);
+  const dayEnd = fromZonedTime(
+    `${format(addDays(day, 1), 'yyyy-MM-dd')}T00:00:00`,
+    displayTimezone,
+  );
+
+  // Neighbouring days' hours can spill into this one across timezones
+  const working: MinuteRange[] = [];
+  for (const offset of [-1, 0, 1]) {
+    const date = addDays(day, offset);
+    const key = format(date, 'yyyy-MM-dd');
+
+    for (const range of workingHours.days[date.getDay()] ?? []) {
+      const start = fromZonedTime(`${key}T${range.start}:00`, timezone);
+      const end =
+        range.end === END_OF_DAY
+          ? fromZonedTime(`${format(addDays(date, 1), 'yyyy-MM-dd')}T00:00:00`, timezone)
+          : fromZonedTime(`${key}T${range.end}:00`, timezone);
+      if (end <= dayStart || start >= dayEnd) continue;
+
+      working.push({
+        start: start <= dayStart ? 0 : toMinutes(start, displayTimezone),
+        end: end >= dayEnd ? MINUTES_PER_DAY : toMinutes(end, displayTimezone),
+      });
+    }
+  }
+
+  working.sort((a, b) => a.start - b.start);
+
+  const off: MinuteRange[] = [];
+  let cursor = 0;
+  for (const range of working) {
+    if (range.start > cursor) off.push({ start: cursor, end: range.start });
+    cursor = Math.max(cursor, range.end);
+  }
+  if (cursor < MINUTES_PER_DAY) off.push({ start: cursor, end: MINUTES_PER_DAY });
+
+  return off;
+}
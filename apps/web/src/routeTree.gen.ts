@@ -12,6 +12,9 @@ import { Route as rootRouteImport } from './routes/__root'
 import { Route as AuthRouteImport } from './routes/_auth'
 import { Route as AppRouteImport } from './routes/_app'
 import { Route as AppIndexRouteImport } from './routes/_app/index'
+import { Route as RsvpTokenRouteImport } from './routes/rsvp.$token'
+import { Route as BookingTokenRouteImport } from './routes/booking.$token'
+import { Route as BookSlugRouteImport } from './routes/book.$slug'
 import { Route as AuthSignupRouteImport } from './routes/_auth/signup'
 import { Route as AuthResetPasswordRouteImport } from './routes/_auth/reset-password'
 import { Route as AuthLoginRouteImport } from './routes/_auth/login'
@@ -22,6 +25,7 @@ import { Route as AppSettingsSessionsRouteImport } from './routes/_app/settings/
 import { Route as AppSettingsProfileRouteImport } from './routes/_app/settings/profile'
 import { Route as AppSettingsNotificationsRouteImport } from './routes/_app/settings/notifications'
 import { Route as AppSettingsCalendarsRouteImport } from './routes/_app/settings/calendars'
+import { Route as AppSettingsBookingRouteImport } from './routes/_app/settings/booking'
 
 const AuthRoute = AuthRouteImport.update({
   id: '/_auth',
@@ -36,6 +40,21 @@ const AppIndexRoute = AppIndexRouteImport.update({
   path: '/',
   getParentRoute: () => AppRoute,
 } as any)
+const RsvpTokenRoute = RsvpTokenRouteImport.update({
+  id: '/rsvp/$token',
+  path: '/rsvp/$token',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const BookingTokenRoute = BookingTokenRouteImport.update({
+  id: '/booking/$token',
+  path: '/booking/$token',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const BookSlugRoute = BookSlugRouteImport.update({
+  id: '/book/$slug',
+  path: '/book/$slug',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AuthSignupRoute = AuthSignupRouteImport.update({
   id: '/signup',
   path: '/signup',
@@ -95,6 +114,13 @@ const AppSettingsCalendarsRoute = AppSettingsCalendarsRouteImport.update({
 } as any).lazy(() =>
   import('./routes/_app/settings/calendars.lazy').then((d) => d.Route),
 )
+const AppSettingsBookingRoute = AppSettingsBookingRouteImport.update({
+  id: '/settings/booking',
+  path: '/settings/booking',
+  getParentRoute: () => AppRoute,
+} as any).lazy(() =>
+  import('./routes/_app/settings/booking.lazy').then((d) => d.Route),
+)
 
 export interface FileRoutesByFullPath {
   '/': typeof AppIndexRoute
@@ -102,6 +128,10 @@ export interface FileRoutesByFullPath {
   '/login': typeof AuthLoginRoute
   '/reset-password': typeof AuthResetPasswordRoute
   '/signup': typeof AuthSignupRoute
+  '/book/$slug': typeof BookSlugRoute
+  '/booking/$token': typeof BookingTokenRoute
+  '/rsvp/$token': typeof RsvpTokenRoute
+  '/settings/booking': typeof AppSettingsBookingRoute
   '/settings/calendars': typeof AppSettingsCalendarsRoute
   '/settings/notifications': typeof AppSettingsNotificationsRoute
   '/settings/profile': typeof AppSettingsProfileRoute
@@ -115,6 +145,10 @@ export interface FileRoutesByTo {
   '/login': typeof AuthLoginRoute
   '/reset-password': typeof AuthResetPasswordRoute
   '/signup': typeof AuthSignupRoute
+  '/book/$slug': typeof BookSlugRoute
+  '/booking/$token': typeof BookingTokenRoute
+  '/rsvp/$token': typeof RsvpTokenRoute
+  '/settings/booking': typeof AppSettingsBookingRoute
   '/settings/calendars': typeof AppSettingsCalendarsRoute
   '/settings/notifications': typeof AppSettingsNotificationsRoute
   '/settings/profile': typeof AppSettingsProfileRoute
@@ -130,7 +164,11 @@ export interface FileRoutesById {
   '/_auth/login': typeof AuthLoginRoute
   '/_auth/reset-password': typeof AuthResetPasswordRoute
   '/_auth/signup': typeof AuthSignupRoute
+  '/book/$slug': typeof BookSlugRoute
+  '/booking/$token': typeof BookingTokenRoute
+  '/rsvp/$token': typeof RsvpTokenRoute
   '/_app/': typeof AppIndexRoute
+  '/_app/settings/booking': typeof AppSettingsBookingRoute
   '/_app/settings/calendars': typeof AppSettingsCalendarsRoute
   '/_app/settings/notifications': typeof AppSettingsNotificationsRoute
   '/_app/settings/profile': typeof AppSettingsProfileRoute
@@ -146,6 +184,10 @@ export interface FileRouteTypes {
     | '/login'
     | '/reset-password'
     | '/signup'
+    | '/book/$slug'
+    | '/booking/$token'
+    | '/rsvp/$token'
+    | '/settings/booking'
     | '/settings/calendars'
     | '/settings/notifications'
     | '/settings/profile'
@@ -159,6 +201,10 @@ export interface FileRouteTypes {
     | '/login'
     | '/reset-password'
     | '/signup'
+    | '/book/$slug'
+    | '/booking/$token'
+    | '/rsvp/$token'
+    | '/settings/booking'
     | '/settings/calendars'
     | '/settings/notifications'
     | '/settings/profile'
@@ -173,7 +219,11 @@ export interface FileRouteTypes {
     | '/_auth/login'
     | '/_auth/reset-password'
     | '/_auth/signup'
+    | '/book/$slug'
+    | '/booking/$token'
+    | '/rsvp/$token'
     | '/_app/'
+    | '/_app/settings/booking'
     | '/_app/settings/calendars'
     | '/_app/settings/notifications'
     | '/_app/settings/profile'
@@ -185,6 +235,9 @@ export interface FileRouteTypes {
 export interface RootRouteChildren {
   AppRoute: typeof AppRouteWithChildren
   AuthRoute: typeof AuthRouteWithChildren
+  BookSlugRoute: typeof BookSlugRoute
+  BookingTokenRoute: typeof BookingTokenRoute
+  RsvpTokenRoute: typeof RsvpTokenRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -210,6 +263,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppIndexRouteImport
       parentRoute: typeof AppRoute
     }
+    '/rsvp/$token': {
+      id: '/rsvp/$token'
+      path: '/rsvp/$token'
+      fullPath: '/rsvp/$token'
+      preLoaderRoute: typeof RsvpTokenRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/booking/$token': {
+      id: '/booking/$token'
+      path: '/booking/$token'
+      fullPath: '/booking/$token'
+      preLoaderRoute: typeof BookingTokenRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/book/$slug': {
+      id: '/book/$slug'
+      path: '/book/$slug'
+      fullPath: '/book/$slug'
+      preLoaderRoute: typeof BookSlugRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/_auth/signup': {
       id: '/_auth/signup'
       path: '/signup'
@@ -280,11 +354,19 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppSettingsCalendarsRouteImport
       parentRoute: typeof AppRoute
     }
+    '/_app/settings/booking': {
+      id: '/_app/settings/booking'
+      path: '/settings/booking'
+      fullPath: '/settings/booking'
+      preLoaderRoute: typeof AppSettingsBookingRouteImport
+      parentRoute: typeof AppRoute
+    }
   }
 }
 
 interface AppRouteChildren {
   AppIndexRoute: typeof AppIndexRoute
+  AppSettingsBookingRoute: typeof AppSettingsBookingRoute
   AppSettingsCalendarsRoute: typeof AppSettingsCalendarsRoute
   AppSettingsNotificationsRoute: typeof AppSettingsNotificationsRoute
   AppSettingsProfileRoute: typeof AppSettingsProfileRoute
@@ -295,6 +377,7 @@ interface AppRouteChildren {
 
 const AppRouteChildren: AppRouteChildren = {
   AppIndexRoute: AppIndexRoute,
+  AppSettingsBookingRoute: AppSettingsBookingRoute,
   AppSettingsCalendarsRoute: AppSettingsCalendarsRoute,
   AppSettingsNotificationsRoute: AppSettingsNotificationsRoute,
   AppSettingsProfileRoute: AppSettingsProfileRoute,
@@ -324,6 +407,9 @@ const AuthRouteWithChildren = AuthRoute._addFileChildren(AuthRouteChildren)
 const rootRouteChildren: RootRouteChildren = {
   AppRoute: AppRouteWithChildren,
   AuthRoute: AuthRouteWithChildren,
+  BookSlugRoute: BookSlugRoute,
+  BookingTokenRoute: BookingTokenRoute,
+  RsvpTokenRoute: RsvpTokenRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
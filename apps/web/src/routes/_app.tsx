@@ -1,10 +1,12 @@
 import { createFileRoute, Outlet, redirect } from '@tanstack/react-router';
 import { lazy, Suspense, useCallback, useState } from 'react';
 
+import { DndCalendarProvider } from '@/components/calendar/DndCalendarProvider';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { Topbar } from '@/components/layout/Topbar';
 import { OfflineBanner } from '@/components/OfflineBanner';
+import { useLeaveSharedCalendar, useSharedCalendars } from '@/hooks/use-calendar-shares';
 import {
   useCategories,
   useCreateCategory,
@@ -35,6 +37,17 @@ const LazyTaskPanel = lazy(() =>
 const LazyTaskDrawer = lazy(() =>
   import('@/components/tasks/TaskDrawer').then((m) => ({ default: m.TaskDrawer })),
 );
+const LazyCompletedTasksDialog = lazy(() =>
+  import('@/components/tasks/CompletedTasksDialog').then((m) => ({
+    default: m.CompletedTasksDialog,
+  })),
+);
+const LazyTrashDialog = lazy(() =>
+  import('@/components/layout/TrashDialog').then((m) => ({ default: m.TrashDialog })),
+);
+const LazyQuickAddDialog = lazy(() =>
+  import('@/components/events/QuickAddDialog').then((m) => ({ default: m.QuickAddDialog })),
+);
 
 export const Route = createFileRoute('/_app')({
   beforeLoad: async ({ context }) => {
@@ -69,6 +82,8 @@ export default function AppLayout() {
   const createCategory = useCreateCategory();
   const updateCategory = useUpdateCategory();
   const deleteCategory = useDeleteCategory();
+  const { data: sharedCalendars = [] } = useSharedCalendars();
+  const leaveSharedCalendar = useLeaveSharedCalendar();
 
   const [shortcutsHelpOpen, setShortcutsHelpOpen] = useState(false);
 
@@ -103,6 +118,13 @@ export default function AppLayout() {
     [deleteCategory],
   );
 
+  const handleLeaveSharedCalendar = useCallback(
+    (shareId: string) => {
+      leaveSharedCalendar.mutate(shareId);
+    },
+    [leaveSharedCalendar],
+  );
+
   return (
     <div className="flex h-screen flex-col">
       {/* Skip navigation link for accessibility */}
@@ -118,30 +140,38 @@ export default function AppLayout() {
 
       <Topbar />
 
-      <div className="flex flex-1 overflow-hidden">
-        <Sidebar
-          categories={categories}
-          onCreateCategory={handleCreateCategory}
-          onUpdateCategory={handleUpdateCategory}
-          onDeleteCategory={handleDeleteCategory}
-        />
-
-        <main id="main-content" className="flex-1 overflow-auto">
-          <ErrorBoundary>
-            <Outlet />
-          </ErrorBoundary>
-        </main>
-
-        {/* Task panel — renders next to main content */}
-        <Suspense fallback={null}>
-          <LazyTaskPanel />
-        </Suspense>
-      </div>
+      {/* Shared so tasks can be dragged from the task panel onto the calendar */}
+      <DndCalendarProvider>
+        <div className="flex flex-1 overflow-hidden">
+          <Sidebar
+            categories={categories}
+            onCreateCategory={handleCreateCategory}
+            onUpdateCategory={handleUpdateCategory}
+            onDeleteCategory={handleDeleteCategory}
+            sharedCalendars={sharedCalendars}
+            onLeaveSharedCalendar={handleLeaveSharedCalendar}
+          />
+
+          <main id="main-content" className="flex-1 overflow-auto">
+            <ErrorBoundary>
+              <Outlet />
+            </ErrorBoundary>
+          </main>
+
+          {/* Task panel — renders next to main content */}
+          <Suspense fallback={null}>
+            <LazyTaskPanel />
+          </Suspense>
+        </div>
+      </DndCalendarProvider>
 
       {/* Global overlays — lazy loaded, rendered only when needed */}
       <Suspense fallback={null}>
         <LazyEventDrawer />
         <LazyTaskDrawer />
+        <LazyQuickAddDialog />
+        <LazyCompletedTasksDialog />
+        <LazyTrashDialog />
         <LazySearchModal />
         <LazyKeyboardShortcutsHelp open={shortcutsHelpOpen} onOpenChange={setShortcutsHelpOpen} />
       </Suspense>
@@ -2,7 +2,6 @@ import { createFileRoute } from '@tanstack/react-router';
 import { AnimatePresence, motion, useReducedMotion } from 'framer-motion';
 import { lazy, Suspense } from 'react';
 
-import { DndCalendarProvider } from '@/components/calendar/DndCalendarProvider';
 import { viewSwitchVariants } from '@/lib/motion';
 import { useCalendarStore } from '@/stores/calendar-store';
 
@@ -19,6 +18,9 @@ const LazyDayView = lazy(() =>
 const LazyAgendaView = lazy(() =>
   import('@/components/calendar/AgendaView').then((m) => ({ default: m.AgendaView })),
 );
+const LazyBoardView = lazy(() =>
+  import('@/components/tasks/BoardView').then((m) => ({ default: m.BoardView })),
+);
 
 export const Route = createFileRoute('/_app/calendar/')({
   component: CalendarPage,
@@ -42,27 +44,26 @@ export default function CalendarPage() {
     week: LazyWeekView,
     day: LazyDayView,
     agenda: LazyAgendaView,
+    board: LazyBoardView,
   }[view];
 
   return (
-    <DndCalendarProvider>
-      <div className="h-full overflow-hidden">
-        <AnimatePresence mode="wait" custom={viewDirection}>
-          <motion.div
-            key={view}
-            custom={viewDirection}
-            variants={prefersReducedMotion ? undefined : viewSwitchVariants}
-            initial={prefersReducedMotion ? false : 'initial'}
-            animate="animate"
-            exit={prefersReducedMotion ? undefined : 'exit'}
-            className="h-full"
-          >
-            <Suspense fallback={<CalendarViewSkeleton />}>
-              <ViewComponent />
-            </Suspense>
-          </motion.div>
-        </AnimatePresence>
-      </div>
-    </DndCalendarProvider>
+    <div className="h-full overflow-hidden">
+      <AnimatePresence mode="wait" custom={viewDirection}>
+        <motion.div
+          key={view}
+          custom={viewDirection}
+          variants={prefersReducedMotion ? undefined : viewSwitchVariants}
+          initial={prefersReducedMotion ? false : 'initial'}
+          animate="animate"
+          exit={prefersReducedMotion ? undefined : 'exit'}
+          className="h-full"
+        >
+          <Suspense fallback={<CalendarViewSkeleton />}>
+            <ViewComponent />
+          </Suspense>
+        </motion.div>
+      </AnimatePresence>
+    </div>
   );
 }
@@ -0,0 +1,16 @@
+import { createLazyFileRoute } from '@tanstack/react-router';
+
+import { AppointmentTypeSettings } from '@/components/settings/AppointmentTypeSettings';
+import { SettingsLayout } from '@/components/settings/SettingsLayout';
+
+export const Route = createLazyFileRoute('/_app/settings/booking')({
+  component: BookingPage,
+});
+
+export default function BookingPage() {
+  return (
+    <SettingsLayout>
+      <AppointmentTypeSettings />
+    </SettingsLayout>
+  );
+}
@@ -1,7 +1,11 @@
 import { createLazyFileRoute } from '@tanstack/react-router';
 
+import { CalDavSettings } from '@/components/settings/CalDavSettings';
+import { CalendarFeedSettings } from '@/components/settings/CalendarFeedSettings';
 import { CalendarSettings } from '@/components/settings/CalendarSettings';
+import { ImportSettings } from '@/components/settings/ImportSettings';
 import { SettingsLayout } from '@/components/settings/SettingsLayout';
+import { TagSettings } from '@/components/settings/TagSettings';
 
 export const Route = createLazyFileRoute('/_app/settings/calendars')({
   component: CalendarsPage,
@@ -10,7 +14,13 @@ export const Route = createLazyFileRoute('/_app/settings/calendars')({
 export default function CalendarsPage() {
   return (
     <SettingsLayout>
-      <CalendarSettings />
+      <div className="space-y-10">
+        <CalendarSettings />
+        <TagSettings />
+        <CalendarFeedSettings />
+        <CalDavSettings />
+        <ImportSettings />
+      </div>
     </SettingsLayout>
   );
 }
@@ -0,0 +1,173 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { CalendarDays } from 'lucide-react';
+import { useState } from 'react';
+
+import { createBookingSchema } from '@calley/shared';
+
+import { BookingPageDetails } from '@/components/booking/BookingPageDetails';
+import { SlotPicker } from '@/components/booking/SlotPicker';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/Spinner';
+import { useBookingPage, useCreateBooking } from '@/hooks/use-booking';
+import { formatSlotTime } from '@/lib/booking';
+
+import type { BookingSlot, BookingWithToken } from '@calley/shared';
+
+export const Route = createFileRoute('/book/$slug')({
+  component: BookPage,
+});
+
+function BookPage() {
+  const { slug } = Route.useParams();
+  const { data: page, isLoading, isError } = useBookingPage(slug);
+  const createBooking = useCreateBooking(slug);
+
+  const [timezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [selected, setSelected] = useState<BookingSlot | null>(null);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [booking, setBooking] = useState<BookingWithToken | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    const parsed = createBookingSchema.safeParse({
+      startAt: selected.start,
+      name,
+      email,
+      notes: notes.trim() || null,
+      timezone,
+    });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Check your details');
+      return;
+    }
+    setError(null);
+    createBooking.mutate(parsed.data, {
+      onSuccess: setBooking,
+      // The slot was taken in the meantime; pick again from fresh times
+      onError: () => setSelected(null),
+    });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-[var(--background)] p-4">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <h1 className="font-[var(--font-display)] text-3xl font-bold text-[var(--foreground)]">
+            Calley
+          </h1>
+        </div>
+        <div className="rounded-[var(--radius-lg)] border border-[var(--border)] bg-[var(--card)] p-6 shadow-[var(--shadow-sm)]">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : isError || !page ? (
+            <div className="space-y-4 text-center">
+              <h2 className="text-2xl font-semibold tracking-tight">Page not found</h2>
+              <p className="text-sm text-[var(--muted-foreground)]">
+                This booking page doesn&apos;t exist or isn&apos;t taking bookings right now.
+              </p>
+            </div>
+          ) : booking ? (
+            <div className="space-y-6">
+              <div className="space-y-1">
+                <p className="text-sm text-[var(--muted-foreground)]">You&apos;re booked</p>
+                <h2 className="text-2xl font-semibold tracking-tight">{page.name}</h2>
+              </div>
+              <div className="flex items-start gap-2 text-sm">
+                <CalendarDays className="mt-0.5 h-4 w-4 shrink-0 text-[var(--muted-foreground)]" />
+                <span>
+                  {formatSlotTime({ start: booking.startAt, end: booking.endAt }, timezone)}
+                </span>
+              </div>
+              <p className="text-sm text-[var(--muted-foreground)]">
+                A confirmation was sent to {booking.guest.email}, with a link to reschedule or
+                cancel.
+              </p>
+              <Button asChild variant="outline" className="w-full">
+                <Link to="/booking/$token" params={{ token: booking.token }}>
+                  Manage booking
+                </Link>
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <BookingPageDetails page={page} />
+
+              {selected ? (
+                <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+                  <div className="flex items-start gap-2 text-sm font-medium">
+                    <CalendarDays className="mt-0.5 h-4 w-4 shrink-0 text-[var(--muted-foreground)]" />
+                    <span>{formatSlotTime(selected, timezone)}</span>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="booking-name">Name</Label>
+                    <Input
+                      id="booking-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      autoComplete="name"
+                      autoFocus
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="booking-email">Email</Label>
+                    <Input
+                      id="booking-email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      autoComplete="email"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="booking-notes">Notes</Label>
+                    <textarea
+                      id="booking-notes"
+                      className="flex min-h-[80px] w-full rounded-[var(--radius)] border border-[var(--input)] bg-[var(--background)] px-3 py-2 text-sm ring-offset-[var(--background)] placeholder:text-[var(--muted-foreground)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--ring)] focus-visible:ring-offset-2"
+                      placeholder="Anything to share before the meeting?"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                    />
+                  </div>
+                  {error && (
+                    <p className="text-sm text-[var(--color-danger)]" role="alert">
+                      {error}
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => setSelected(null)}
+                    >
+                      Back
+                    </Button>
+                    <Button type="submit" className="flex-1" disabled={createBooking.isPending}>
+                      {createBooking.isPending ? 'Booking...' : 'Confirm'}
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <SlotPicker
+                  slug={slug}
+                  timezone={timezone}
+                  selected={selected}
+                  onSelect={setSelected}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
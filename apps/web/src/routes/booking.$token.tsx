@@ -0,0 +1,145 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { CalendarDays } from 'lucide-react';
+import { useState } from 'react';
+
+import { BookingPageDetails } from '@/components/booking/BookingPageDetails';
+import { SlotPicker } from '@/components/booking/SlotPicker';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/Spinner';
+import { useBooking, useCancelBooking, useRescheduleBooking } from '@/hooks/use-booking';
+import { formatSlotTime } from '@/lib/booking';
+
+import type { BookingSlot } from '@calley/shared';
+
+export const Route = createFileRoute('/booking/$token')({
+  component: ManageBookingPage,
+});
+
+type Mode = 'view' | 'reschedule' | 'cancel';
+
+function ManageBookingPage() {
+  const { token } = Route.useParams();
+  const { data: booking, isLoading, isError } = useBooking(token);
+  const cancelBooking = useCancelBooking(token);
+  const rescheduleBooking = useRescheduleBooking(token);
+
+  const [timezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [mode, setMode] = useState<Mode>('view');
+  const [selected, setSelected] = useState<BookingSlot | null>(null);
+
+  const handleReschedule = () => {
+    if (!selected) return;
+    rescheduleBooking.mutate(selected.start, {
+      onSuccess: () => {
+        setMode('view');
+        setSelected(null);
+      },
+      onError: () => setSelected(null),
+    });
+  };
+
+  const handleCancel = () => {
+    cancelBooking.mutate(undefined, { onSuccess: () => setMode('view') });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-[var(--background)] p-4">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <h1 className="font-[var(--font-display)] text-3xl font-bold text-[var(--foreground)]">
+            Calley
+          </h1>
+        </div>
+        <div className="rounded-[var(--radius-lg)] border border-[var(--border)] bg-[var(--card)] p-6 shadow-[var(--shadow-sm)]">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : isError || !booking ? (
+            <div className="space-y-4 text-center">
+              <h2 className="text-2xl font-semibold tracking-tight">Invalid link</h2>
+              <p className="text-sm text-[var(--muted-foreground)]">
+                This booking link is invalid. Check your confirmation email for the right one.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <BookingPageDetails page={booking.page} />
+
+              <div className="flex items-start gap-2 text-sm">
+                <CalendarDays className="mt-0.5 h-4 w-4 shrink-0 text-[var(--muted-foreground)]" />
+                <span className={booking.status === 'cancelled' ? 'line-through' : undefined}>
+                  {formatSlotTime({ start: booking.startAt, end: booking.endAt }, timezone)}
+                </span>
+              </div>
+
+              {booking.status === 'cancelled' ? (
+                <p className="text-sm font-medium" aria-live="polite">
+                  This booking has been cancelled.
+                </p>
+              ) : mode === 'reschedule' ? (
+                <div className="space-y-4">
+                  <SlotPicker
+                    slug={booking.page.slug}
+                    timezone={timezone}
+                    selected={selected}
+                    onSelect={setSelected}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => {
+                        setMode('view');
+                        setSelected(null);
+                      }}
+                    >
+                      Back
+                    </Button>
+                    <Button
+                      className="flex-1"
+                      onClick={handleReschedule}
+                      disabled={!selected || rescheduleBooking.isPending}
+                    >
+                      {rescheduleBooking.isPending ? 'Moving...' : 'Move booking'}
+                    </Button>
+                  </div>
+                </div>
+              ) : mode === 'cancel' ? (
+                <div className="space-y-3">
+                  <p className="text-sm font-medium">Cancel this booking?</p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" className="flex-1" onClick={() => setMode('view')}>
+                      Keep it
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      className="flex-1"
+                      onClick={handleCancel}
+                      disabled={cancelBooking.isPending}
+                    >
+                      {cancelBooking.isPending ? 'Cancelling...' : 'Cancel booking'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => setMode('reschedule')}
+                  >
+                    Reschedule
+                  </Button>
+                  <Button variant="outline" className="flex-1" onClick={() => setMode('cancel')}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
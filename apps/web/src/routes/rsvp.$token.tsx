@@ -0,0 +1,125 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { CalendarDays, MapPin, Repeat } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/Spinner';
+import { useRespondToInvitation, useRsvpInvitation } from '@/hooks/use-attendees';
+
+import type { AttendeeStatus, RsvpInvitation, RsvpResponseInput } from '@calley/shared';
+
+export const Route = createFileRoute('/rsvp/$token')({
+  component: RsvpPage,
+});
+
+const RESPONSES: { status: RsvpResponseInput['status']; label: string }[] = [
+  { status: 'accepted', label: 'Yes' },
+  { status: 'tentative', label: 'Maybe' },
+  { status: 'declined', label: 'No' },
+];
+
+const STATUS_MESSAGES: Record<AttendeeStatus, string | null> = {
+  needs_action: null,
+  accepted: 'You’re going.',
+  tentative: 'You might go.',
+  declined: 'You’re not going.',
+};
+
+/**
+ * Format the event time for a guest who may not have an account. Timed
+ * events are shown in the guest's browser timezone; all-day events use
+ * their calendar dates as-is.
+ */
+function formatEventTime(event: RsvpInvitation['event']): string {
+  if (event.isAllDay) {
+    const start = formatInTimeZone(parseISO(event.startAt), 'UTC', 'EEEE, MMMM d, yyyy');
+    const end = formatInTimeZone(parseISO(event.endAt), 'UTC', 'EEEE, MMMM d, yyyy');
+    return start === end ? `${start} (all day)` : `${start} – ${end}`;
+  }
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const start = formatInTimeZone(parseISO(event.startAt), timezone, 'EEEE, MMMM d, yyyy · h:mm a');
+  const end = formatInTimeZone(parseISO(event.endAt), timezone, 'h:mm a zzz');
+  return `${start} – ${end}`;
+}
+
+function RsvpPage() {
+  const { token } = Route.useParams();
+  const { data: invitation, isLoading, isError } = useRsvpInvitation(token);
+  const respond = useRespondToInvitation(token);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-[var(--background)] p-4">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <h1 className="font-[var(--font-display)] text-3xl font-bold text-[var(--foreground)]">
+            Calley
+          </h1>
+        </div>
+        <div className="rounded-[var(--radius-lg)] border border-[var(--border)] bg-[var(--card)] p-6 shadow-[var(--shadow-sm)]">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : isError || !invitation ? (
+            <div className="space-y-4 text-center">
+              <h2 className="text-2xl font-semibold tracking-tight">Invalid link</h2>
+              <p className="text-sm text-[var(--muted-foreground)]">
+                This invitation link is invalid or has been replaced by a newer one. Check your
+                email for the latest invitation.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="space-y-1">
+                <p className="text-sm text-[var(--muted-foreground)]">
+                  {invitation.organizer.name} invited you to
+                </p>
+                <h2 className="text-2xl font-semibold tracking-tight">{invitation.event.title}</h2>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <div className="flex items-start gap-2">
+                  <CalendarDays className="mt-0.5 h-4 w-4 shrink-0 text-[var(--muted-foreground)]" />
+                  <span>{formatEventTime(invitation.event)}</span>
+                </div>
+                {invitation.event.rrule && (
+                  <div className="flex items-start gap-2">
+                    <Repeat className="mt-0.5 h-4 w-4 shrink-0 text-[var(--muted-foreground)]" />
+                    <span>Repeating event</span>
+                  </div>
+                )}
+                {invitation.event.location && (
+                  <div className="flex items-start gap-2">
+                    <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-[var(--muted-foreground)]" />
+                    <span className="break-words">{invitation.event.location}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <p className="text-sm font-medium" aria-live="polite">
+                  {STATUS_MESSAGES[invitation.attendee.status] ?? 'Going?'}
+                </p>
+                <div className="flex gap-2">
+                  {RESPONSES.map(({ status, label }) => (
+                    <Button
+                      key={status}
+                      className="flex-1"
+                      variant={invitation.attendee.status === status ? 'default' : 'outline'}
+                      aria-pressed={invitation.attendee.status === status}
+                      disabled={respond.isPending}
+                      onClick={() => respond.mutate({ status })}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -38,6 +38,7 @@ describe('useCalendarStore', () => {
       isTaskPanelOpen: false,
       isSidebarOpen: true,
       hiddenCategoryIds: new Set(),
+      boardSwimlane: 'none',
     });
   });
 
@@ -135,6 +136,12 @@ describe('useCalendarStore', () => {
       expect(useCalendarStore.getState().currentDate.getTime()).toBe(expected.getTime());
     });
 
+    it('should leave the date unchanged when navigating in board view', () => {
+      useCalendarStore.setState({ view: 'board' });
+      useCalendarStore.getState().navigate('next');
+      expect(useCalendarStore.getState().currentDate.getTime()).toBe(BASELINE_DATE.getTime());
+    });
+
     it('should reset to current date when navigating today', () => {
       const FROZEN_NOW = new Date('2026-02-16T10:00:00Z');
       vi.useFakeTimers({ now: FROZEN_NOW });
@@ -253,4 +260,17 @@ describe('useCalendarStore', () => {
       expect(ids.has('cat_3')).toBe(true);
     });
   });
+
+  // ─── setBoardSwimlane ───────────────────────────────────────────────────────
+
+  describe('setBoardSwimlane', () => {
+    it('should default to no swimlanes', () => {
+      expect(useCalendarStore.getState().boardSwimlane).toBe('none');
+    });
+
+    it('should set the board swimlane grouping', () => {
+      useCalendarStore.getState().setBoardSwimlane('priority');
+      expect(useCalendarStore.getState().boardSwimlane).toBe('priority');
+    });
+  });
 });
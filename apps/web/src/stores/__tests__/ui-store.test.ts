@@ -11,6 +11,8 @@ describe('useUIStore', () => {
       eventDrawer: { ...defaultEventDrawer },
       taskDrawer: { ...defaultTaskDrawer },
       searchOpen: false,
+      completedHistoryOpen: false,
+      trashOpen: false,
     });
   });
 
@@ -139,6 +141,7 @@ describe('useUIStore', () => {
       useUIStore.getState().openEventDrawer({ eventId: 'evt_1' });
       useUIStore.getState().openTaskDrawer({ taskId: 'task_1' });
       useUIStore.setState({ searchOpen: true });
+      useUIStore.getState().setTrashOpen(true);
 
       useUIStore.getState().closeAll();
 
@@ -148,6 +151,7 @@ describe('useUIStore', () => {
       expect(state.taskDrawer.open).toBe(false);
       expect(state.taskDrawer.taskId).toBeNull();
       expect(state.searchOpen).toBe(false);
+      expect(state.trashOpen).toBe(false);
     });
 
     it('should be a no-op when everything is already closed', () => {
@@ -2,7 +2,10 @@ import { addDays, addMonths, addWeeks, subDays, subMonths, subWeeks } from 'date
 import { toZonedTime } from 'date-fns-tz';
 import { create } from 'zustand';
 
-export type CalendarView = 'month' | 'week' | 'day' | 'agenda';
+import type { BoardSwimlane } from '@/lib/board';
+import type { ActiveTaskList } from '@/lib/task-lists';
+
+export type CalendarView = 'month' | 'week' | 'day' | 'agenda' | 'board';
 
 const HIDDEN_CATEGORIES_KEY = 'calley_hidden_categories';
 
@@ -42,6 +45,7 @@ const VIEW_ORDER: Record<CalendarView, number> = {
   week: 1,
   day: 2,
   agenda: 3,
+  board: 4,
 };
 
 interface CalendarStore {
@@ -53,6 +57,9 @@ interface CalendarStore {
   isTaskPanelOpen: boolean;
   isSidebarOpen: boolean;
   hiddenCategoryIds: Set<string>;
+  boardSwimlane: BoardSwimlane;
+  /** Smart or saved list shown in the task panel, or null for all tasks */
+  activeTaskList: ActiveTaskList | null;
 
   setView: (view: CalendarView) => void;
   navigate: (direction: 'prev' | 'next' | 'today') => void;
@@ -61,6 +68,8 @@ interface CalendarStore {
   toggleTaskPanel: () => void;
   toggleSidebar: () => void;
   toggleCategoryVisibility: (categoryId: string) => void;
+  setBoardSwimlane: (swimlane: BoardSwimlane) => void;
+  setActiveTaskList: (list: ActiveTaskList | null) => void;
 }
 
 export const useCalendarStore = create<CalendarStore>((set, get) => ({
@@ -71,6 +80,8 @@ export const useCalendarStore = create<CalendarStore>((set, get) => ({
   isTaskPanelOpen: false,
   isSidebarOpen: true,
   hiddenCategoryIds: loadHiddenCategories(),
+  boardSwimlane: 'none',
+  activeTaskList: null,
 
   setView: (view) => {
     const currentView = get().view;
@@ -100,6 +111,7 @@ export const useCalendarStore = create<CalendarStore>((set, get) => ({
       case 'agenda':
         newDate = delta > 0 ? addDays(currentDate, 1) : subDays(currentDate, 1);
         break;
+      // The board isn't date-based
       default:
         newDate = currentDate;
     }
@@ -122,4 +134,8 @@ export const useCalendarStore = create<CalendarStore>((set, get) => ({
     saveHiddenCategories(next);
     set({ hiddenCategoryIds: next });
   },
+  setBoardSwimlane: (swimlane) => set({ boardSwimlane: swimlane }),
+  // Picking a list opens the task panel to show it
+  setActiveTaskList: (list) =>
+    set(list ? { activeTaskList: list, isTaskPanelOpen: true } : { activeTaskList: null }),
 }));
@@ -14,16 +14,28 @@ interface TaskDrawerState {
   defaultDate?: Date;
 }
 
+interface QuickAddState {
+  open: boolean;
+  itemType: 'event' | 'task';
+}
+
 interface UIStore {
   eventDrawer: EventDrawerState;
   taskDrawer: TaskDrawerState;
+  quickAdd: QuickAddState;
   searchOpen: boolean;
+  completedHistoryOpen: boolean;
+  trashOpen: boolean;
 
   openEventDrawer: (opts?: Partial<EventDrawerState>) => void;
   closeEventDrawer: () => void;
   openTaskDrawer: (opts?: Partial<TaskDrawerState>) => void;
   closeTaskDrawer: () => void;
+  openQuickAdd: (itemType: QuickAddState['itemType']) => void;
+  closeQuickAdd: () => void;
   toggleSearch: () => void;
+  setCompletedHistoryOpen: (open: boolean) => void;
+  setTrashOpen: (open: boolean) => void;
   closeAll: () => void;
 }
 
@@ -37,10 +49,18 @@ const defaultTaskDrawer: TaskDrawerState = {
   taskId: null,
 };
 
+const defaultQuickAdd: QuickAddState = {
+  open: false,
+  itemType: 'event',
+};
+
 export const useUIStore = create<UIStore>((set) => ({
   eventDrawer: defaultEventDrawer,
   taskDrawer: defaultTaskDrawer,
+  quickAdd: defaultQuickAdd,
   searchOpen: false,
+  completedHistoryOpen: false,
+  trashOpen: false,
 
   openEventDrawer: (opts) =>
     set({
@@ -56,12 +76,23 @@ export const useUIStore = create<UIStore>((set) => ({
 
   closeTaskDrawer: () => set({ taskDrawer: defaultTaskDrawer }),
 
+  openQuickAdd: (itemType) => set({ quickAdd: { open: true, itemType } }),
+
+  closeQuickAdd: () => set({ quickAdd: defaultQuickAdd }),
+
   toggleSearch: () => set((s) => ({ searchOpen: !s.searchOpen })),
 
+  setCompletedHistoryOpen: (open) => set({ completedHistoryOpen: open }),
+
+  setTrashOpen: (open) => set({ trashOpen: open }),
+
   closeAll: () =>
     set({
       eventDrawer: defaultEventDrawer,
       taskDrawer: defaultTaskDrawer,
+      quickAdd: defaultQuickAdd,
       searchOpen: false,
+      completedHistoryOpen: false,
+      trashOpen: false,
     }),
 }));
@@ -1,7 +1,13 @@
+import type { SmartList } from '@calley/shared';
+
 export interface TaskFilter {
   status?: string[];
   priority?: string[];
   dueStart?: string;
   dueEnd?: string;
+  tagIds?: string[];
+  categoryIds?: string[];
+  /** Built-in smart list, resolved server-side in the user's timezone */
+  list?: SmartList;
   sort?: string;
 }
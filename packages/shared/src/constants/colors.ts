@@ -43,5 +43,11 @@ export const RECURRENCE_PRESETS = [
 /** Maximum number of categories per user */
 export const MAX_CATEGORIES_PER_USER = 20;
 
+/** Maximum number of tags per user */
+export const MAX_TAGS_PER_USER = 100;
+
+/** Maximum number of tags on a single event or task */
+export const MAX_TAGS_PER_ITEM = 20;
+
 /** Maximum recurrence instances to expand per query */
 export const MAX_RECURRENCE_INSTANCES = 1000;
@@ -0,0 +1,13 @@
+/** Built-in holiday calendars, by ISO 3166 country code. National holidays only. */
+export const HOLIDAY_CALENDARS = ['US', 'CA', 'GB', 'AU', 'DE', 'FR'] as const;
+
+export type HolidayCalendar = (typeof HOLIDAY_CALENDARS)[number];
+
+export const HOLIDAY_CALENDAR_LABELS: Record<HolidayCalendar, string> = {
+  US: 'United States',
+  CA: 'Canada',
+  GB: 'United Kingdom',
+  AU: 'Australia',
+  DE: 'Germany',
+  FR: 'France',
+};
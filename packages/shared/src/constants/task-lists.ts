@@ -0,0 +1,14 @@
+/** Built-in task lists, worked out on the server in the user's timezone */
+export const SMART_LISTS = ['today', 'upcoming', 'overdue', 'someday'] as const;
+
+export type SmartList = (typeof SMART_LISTS)[number];
+
+export const SMART_LIST_LABELS: Record<SmartList, string> = {
+  today: 'Today',
+  upcoming: 'Upcoming',
+  overdue: 'Overdue',
+  someday: 'Someday',
+};
+
+/** Maximum number of saved task lists per user */
+export const MAX_TASK_LISTS_PER_USER = 50;
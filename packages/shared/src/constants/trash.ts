@@ -0,0 +1,2 @@
+/** Days a deleted event or task stays restorable before the cleanup job removes it */
+export const TRASH_RETENTION_DAYS = 30;
@@ -0,0 +1,9 @@
+import type { WorkingHours } from '../schemas/working-hours.schema';
+
+const NINE_TO_FIVE = [{ start: '09:00', end: '17:00' }];
+
+/** Working hours for users who haven't set their own: 9–5, Monday to Friday */
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  timezone: null,
+  days: [[], NINE_TO_FIVE, NINE_TO_FIVE, NINE_TO_FIVE, NINE_TO_FIVE, NINE_TO_FIVE, []],
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { findHoliday, getHolidays, getHolidaysBetween } from '../holidays';
+
+const dates = (holidays: { date: string; name: string }[]) =>
+  holidays.map((h) => `${h.date} ${h.name}`);
+
+describe('getHolidays', () => {
+  it('should work out fixed, weekday and observed holidays', () => {
+    expect(dates(getHolidays('US', 2026))).toEqual([
+      "2026-01-01 New Year's Day",
+      '2026-01-19 Martin Luther King Jr. Day',
+      "2026-02-16 Washington's Birthday",
+      '2026-05-25 Memorial Day',
+      '2026-06-19 Juneteenth',
+      // July 4th is a Saturday
+      '2026-07-03 Independence Day (observed)',
+      '2026-07-04 Independence Day',
+      '2026-09-07 Labor Day',
+      '2026-10-12 Columbus Day',
+      '2026-11-11 Veterans Day',
+      '2026-11-26 Thanksgiving Day',
+      '2026-12-25 Christmas Day',
+    ]);
+  });
+
+  it('should observe a Saturday New Year in the year before', () => {
+    expect(findHoliday('US', '2021-12-31')?.name).toBe("New Year's Day (observed)");
+    expect(getHolidays('US', 2022).some((h) => h.date === '2021-12-31')).toBe(false);
+  });
+
+  it('should move substitute days past other holidays', () => {
+    // Christmas on a Saturday, Boxing Day on a Sunday
+    expect(dates(getHolidaysBetween(['GB'], '2021-12-24', '2021-12-31'))).toEqual([
+      '2021-12-25 Christmas Day',
+      '2021-12-26 Boxing Day',
+      '2021-12-27 Christmas Day (observed)',
+      '2021-12-28 Boxing Day (observed)',
+    ]);
+    // Christmas on a Sunday, Boxing Day already the Monday
+    expect(findHoliday('GB', '2022-12-27')?.name).toBe('Christmas Day (observed)');
+  });
+
+  it('should place Easter-based holidays', () => {
+    expect(findHoliday('GB', '2026-04-03')?.name).toBe('Good Friday');
+    expect(findHoliday('GB', '2026-04-06')?.name).toBe('Easter Monday');
+    expect(findHoliday('DE', '2026-05-14')?.name).toBe('Ascension Day');
+    expect(findHoliday('FR', '2025-06-09')?.name).toBe('Whit Monday');
+  });
+
+  it('should find the last weekday before a day', () => {
+    // Victoria Day, the Monday before May 25th
+    expect(findHoliday('CA', '2026-05-18')?.name).toBe('Victoria Day');
+  });
+
+  it('should leave out holidays before they were first kept', () => {
+    expect(findHoliday('US', '2020-06-19')).toBeNull();
+  });
+});
+
+describe('getHolidaysBetween', () => {
+  it('should merge calendars across years in date order', () => {
+    expect(getHolidaysBetween(['FR', 'AU'], '2025-12-25', '2026-01-26')).toEqual([
+      { date: '2025-12-25', name: 'Christmas Day', calendar: 'FR' },
+      { date: '2025-12-25', name: 'Christmas Day', calendar: 'AU' },
+      { date: '2025-12-26', name: 'Boxing Day', calendar: 'AU' },
+      { date: '2026-01-01', name: "New Year's Day", calendar: 'FR' },
+      { date: '2026-01-01', name: "New Year's Day", calendar: 'AU' },
+      { date: '2026-01-26', name: 'Australia Day', calendar: 'AU' },
+    ]);
+  });
+});
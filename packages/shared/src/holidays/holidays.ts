@@ -0,0 +1,261 @@
+import type { HolidayCalendar } from '../constants/holidays';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export interface Holiday {
+  /** The day it falls on (YYYY-MM-DD) */
+  date: string;
+  name: string;
+  calendar: HolidayCalendar;
+}
+
+/** When a holiday falls in a given year */
+type HolidayDate =
+  /** The same day every year */
+  | { month: number; day: number }
+  /** The nth weekday of the month (0 = Sunday); -1 is the last */
+  | { month: number; weekday: number; nth: number }
+  /** The last weekday before a day of the month */
+  | { month: number; weekday: number; before: number }
+  /** Days after Easter Sunday */
+  | { easter: number };
+
+interface HolidayRule {
+  name: string;
+  date: HolidayDate;
+  /**
+   * The day off when the holiday lands on a weekend: the nearest weekday
+   * (Saturday → Friday, Sunday → Monday), or the next weekday that isn't
+   * already a holiday.
+   */
+  observed?: 'nearestWeekday' | 'substitute';
+  /** First year it was a holiday */
+  since?: number;
+}
+
+// ─── Rule Tables ────────────────────────────────────────────────────
+
+const NEW_YEAR = { month: 1, day: 1 };
+const CHRISTMAS = { month: 12, day: 25 };
+const BOXING_DAY = { month: 12, day: 26 };
+const GOOD_FRIDAY = { easter: -2 };
+const EASTER_MONDAY = { easter: 1 };
+
+const HOLIDAY_RULES: Record<HolidayCalendar, HolidayRule[]> = {
+  // Federal holidays
+  US: [
+    { name: "New Year's Day", date: NEW_YEAR, observed: 'nearestWeekday' },
+    { name: 'Martin Luther King Jr. Day', date: { month: 1, weekday: 1, nth: 3 } },
+    { name: "Washington's Birthday", date: { month: 2, weekday: 1, nth: 3 } },
+    { name: 'Memorial Day', date: { month: 5, weekday: 1, nth: -1 } },
+    {
+      name: 'Juneteenth',
+      date: { month: 6, day: 19 },
+      observed: 'nearestWeekday',
+      since: 2021,
+    },
+    { name: 'Independence Day', date: { month: 7, day: 4 }, observed: 'nearestWeekday' },
+    { name: 'Labor Day', date: { month: 9, weekday: 1, nth: 1 } },
+    { name: 'Columbus Day', date: { month: 10, weekday: 1, nth: 2 } },
+    { name: 'Veterans Day', date: { month: 11, day: 11 }, observed: 'nearestWeekday' },
+    { name: 'Thanksgiving Day', date: { month: 11, weekday: 4, nth: 4 } },
+    { name: 'Christmas Day', date: CHRISTMAS, observed: 'nearestWeekday' },
+  ],
+  // Federal statutory holidays
+  CA: [
+    { name: "New Year's Day", date: NEW_YEAR, observed: 'substitute' },
+    { name: 'Good Friday', date: GOOD_FRIDAY },
+    { name: 'Victoria Day', date: { month: 5, weekday: 1, before: 25 } },
+    { name: 'Canada Day', date: { month: 7, day: 1 }, observed: 'substitute' },
+    { name: 'Labour Day', date: { month: 9, weekday: 1, nth: 1 } },
+    {
+      name: 'National Day for Truth and Reconciliation',
+      date: { month: 9, day: 30 },
+      observed: 'substitute',
+      since: 2021,
+    },
+    { name: 'Thanksgiving', date: { month: 10, weekday: 1, nth: 2 } },
+    { name: 'Remembrance Day', date: { month: 11, day: 11 } },
+    { name: 'Christmas Day', date: CHRISTMAS, observed: 'substitute' },
+    { name: 'Boxing Day', date: BOXING_DAY, observed: 'substitute' },
+  ],
+  // Bank holidays in England and Wales
+  GB: [
+    { name: "New Year's Day", date: NEW_YEAR, observed: 'substitute' },
+    { name: 'Good Friday', date: GOOD_FRIDAY },
+    { name: 'Easter Monday', date: EASTER_MONDAY },
+    { name: 'Early May Bank Holiday', date: { month: 5, weekday: 1, nth: 1 } },
+    { name: 'Spring Bank Holiday', date: { month: 5, weekday: 1, nth: -1 } },
+    { name: 'Summer Bank Holiday', date: { month: 8, weekday: 1, nth: -1 } },
+    { name: 'Christmas Day', date: CHRISTMAS, observed: 'substitute' },
+    { name: 'Boxing Day', date: BOXING_DAY, observed: 'substitute' },
+  ],
+  // Holidays kept in every state and territory
+  AU: [
+    { name: "New Year's Day", date: NEW_YEAR, observed: 'substitute' },
+    { name: 'Australia Day', date: { month: 1, day: 26 }, observed: 'substitute' },
+    { name: 'Good Friday', date: GOOD_FRIDAY },
+    { name: 'Easter Monday', date: EASTER_MONDAY },
+    { name: 'Anzac Day', date: { month: 4, day: 25 } },
+    { name: 'Christmas Day', date: CHRISTMAS, observed: 'substitute' },
+    { name: 'Boxing Day', date: BOXING_DAY, observed: 'substitute' },
+  ],
+  // Holidays kept in every state
+  DE: [
+    { name: "New Year's Day", date: NEW_YEAR },
+    { name: 'Good Friday', date: GOOD_FRIDAY },
+    { name: 'Easter Monday', date: EASTER_MONDAY },
+    { name: 'Labour Day', date: { month: 5, day: 1 } },
+    { name: 'Ascension Day', date: { easter: 39 } },
+    { name: 'Whit Monday', date: { easter: 50 } },
+    { name: 'German Unity Day', date: { month: 10, day: 3 }, since: 1990 },
+    { name: 'Christmas Day', date: CHRISTMAS },
+    { name: 'Second Day of Christmas', date: BOXING_DAY },
+  ],
+  FR: [
+    { name: "New Year's Day", date: NEW_YEAR },
+    { name: 'Easter Monday', date: EASTER_MONDAY },
+    { name: 'Labour Day', date: { month: 5, day: 1 } },
+    { name: 'Victory in Europe Day', date: { month: 5, day: 8 } },
+    { name: 'Ascension Day', date: { easter: 39 } },
+    { name: 'Whit Monday', date: { easter: 50 } },
+    { name: 'Bastille Day', date: { month: 7, day: 14 } },
+    { name: 'Assumption Day', date: { month: 8, day: 15 } },
+    { name: "All Saints' Day", date: { month: 11, day: 1 } },
+    { name: 'Armistice Day', date: { month: 11, day: 11 } },
+    { name: 'Christmas Day', date: CHRISTMAS },
+  ],
+};
+
+// ─── Date Helpers ───────────────────────────────────────────────────
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/** Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm) */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month, day);
+}
+
+function resolveDate(date: HolidayDate, year: number): Date {
+  if ('easter' in date) return addDays(easterSunday(year), date.easter);
+  if ('day' in date) return utcDate(year, date.month, date.day);
+
+  if ('before' in date) {
+    const dayBefore = utcDate(year, date.month, date.before - 1);
+    return addDays(dayBefore, -((dayBefore.getUTCDay() - date.weekday + 7) % 7));
+  }
+
+  if (date.nth < 0) {
+    const lastDay = utcDate(year, date.month + 1, 0);
+    return addDays(lastDay, -((lastDay.getUTCDay() - date.weekday + 7) % 7));
+  }
+  const firstDay = utcDate(year, date.month, 1);
+  const first = addDays(firstDay, (date.weekday - firstDay.getUTCDay() + 7) % 7);
+  return addDays(first, (date.nth - 1) * 7);
+}
+
+/** A year's holidays with their observed days, some of which can spill into the next year */
+function computeHolidays(calendar: HolidayCalendar, year: number): Holiday[] {
+  const actual = HOLIDAY_RULES[calendar]
+    .filter((rule) => !rule.since || year >= rule.since)
+    .map((rule) => ({ rule, date: resolveDate(rule.date, year) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const taken = new Set(actual.map(({ date }) => toDateString(date)));
+  const holidays: Holiday[] = [];
+
+  for (const { rule, date } of actual) {
+    holidays.push({ date: toDateString(date), name: rule.name, calendar });
+    if (!rule.observed || !isWeekend(date)) continue;
+
+    let observed: Date;
+    if (rule.observed === 'nearestWeekday') {
+      observed = addDays(date, date.getUTCDay() === 6 ? -1 : 1);
+    } else {
+      observed = addDays(date, 1);
+      while (isWeekend(observed) || taken.has(toDateString(observed))) {
+        observed = addDays(observed, 1);
+      }
+    }
+    taken.add(toDateString(observed));
+    holidays.push({ date: toDateString(observed), name: `${rule.name} (observed)`, calendar });
+  }
+
+  return holidays;
+}
+
+// ─── Lookups ────────────────────────────────────────────────────────
+
+const holidaysByYear = new Map<string, Holiday[]>();
+
+/**
+ * Every holiday in a calendar year, in date order, including days off
+ * observed in place of ones that land on a weekend. Worked out from the
+ * rule tables above, so no network fetch is needed.
+ */
+export function getHolidays(calendar: HolidayCalendar, year: number): Holiday[] {
+  const key = `${calendar}:${year}`;
+  let holidays = holidaysByYear.get(key);
+  if (!holidays) {
+    // January 1st on a Saturday is observed on December 31st of the year before
+    const prefix = `${year}-`;
+    holidays = [...computeHolidays(calendar, year), ...computeHolidays(calendar, year + 1)]
+      .filter((h) => h.date.startsWith(prefix))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    holidaysByYear.set(key, holidays);
+  }
+  return holidays;
+}
+
+/** Holidays from any of the calendars between two days (YYYY-MM-DD), inclusive */
+export function getHolidaysBetween(
+  calendars: readonly HolidayCalendar[],
+  start: string,
+  end: string,
+): Holiday[] {
+  const startYear = Number(start.slice(0, 4));
+  const endYear = Number(end.slice(0, 4));
+  const result: Holiday[] = [];
+
+  for (const calendar of calendars) {
+    for (let year = startYear; year <= endYear; year++) {
+      result.push(...getHolidays(calendar, year).filter((h) => h.date >= start && h.date <= end));
+    }
+  }
+
+  return result.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** The holiday on a day (YYYY-MM-DD), if there is one */
+export function findHoliday(calendar: HolidayCalendar, date: string): Holiday | null {
+  return getHolidays(calendar, Number(date.slice(0, 4))).find((h) => h.date === date) ?? null;
+}
@@ -13,7 +13,9 @@ export {
   editScopeSchema,
   hexColorPattern,
   hexColorSchema,
+  holidayCalendarSchema,
   paginationSchema,
+  timeOfDaySchema,
   timezoneSchema,
   visibilitySchema,
 } from './schemas/common.schema';
@@ -35,9 +37,23 @@ export {
   eventIdParamSchema,
   eventScopeQuerySchema,
   listEventsQuerySchema,
+  MAX_RDATES,
+  recurrencePreviewSchema,
+  restoreInstanceSchema,
   updateEventSchema,
 } from './schemas/event.schema';
 
+// Attendees
+export {
+  addAttendeeSchema,
+  attendeeParamSchema,
+  attendeeRoleSchema,
+  attendeeStatusSchema,
+  rsvpResponseSchema,
+  rsvpTokenParamSchema,
+  updateAttendeeSchema,
+} from './schemas/attendee.schema';
+
 // Tasks
 export {
   bulkCompleteTasksSchema,
@@ -45,10 +61,13 @@ export {
   createTaskSchema,
   listTasksQuerySchema,
   reorderTasksSchema,
+  repeatAfterSchema,
+  smartListSchema,
   taskIdParamSchema,
   taskPrioritySchema,
   taskScopeQuerySchema,
   taskStatusSchema,
+  toggleTaskSchema,
   updateTaskSchema,
 } from './schemas/task.schema';
 
@@ -59,6 +78,48 @@ export {
   updateCategorySchema,
 } from './schemas/category.schema';
 
+// Tags
+export {
+  createTagSchema,
+  tagIdParamSchema,
+  tagIdsQuerySchema,
+  tagIdsSchema,
+  tagItemTypeSchema,
+  updateTagSchema,
+} from './schemas/tag.schema';
+
+// Calendar sharing
+export {
+  calendarShareParamSchema,
+  calendarSharePermissionSchema,
+  createCalendarShareSchema,
+  sharedCalendarParamSchema,
+  updateCalendarShareSchema,
+} from './schemas/calendar-share.schema';
+
+// Free/busy
+export {
+  findTimeSchema,
+  freeBusyFormatSchema,
+  freeBusyQuerySchema,
+} from './schemas/freebusy.schema';
+
+// Booking pages
+export {
+  appointmentTypeIdParamSchema,
+  bookingSlotsQuerySchema,
+  bookingSlugParamSchema,
+  bookingSlugSchema,
+  bookingTokenParamSchema,
+  createAppointmentTypeSchema,
+  createBookingSchema,
+  rescheduleBookingSchema,
+  updateAppointmentTypeSchema,
+} from './schemas/booking.schema';
+
+// Working hours
+export { workingHoursRangeSchema, workingHoursSchema } from './schemas/working-hours.schema';
+
 // Reminders
 export {
   createReminderSchema,
@@ -77,26 +138,94 @@ export {
 // Search
 export { searchQuerySchema } from './schemas/search.schema';
 
+// Calendar Feeds
+export {
+  calendarFeedIdParamSchema,
+  calendarFeedTokenParamSchema,
+  createCalendarFeedSchema,
+} from './schemas/feed.schema';
+
+// App Passwords
+export { appPasswordIdParamSchema, createAppPasswordSchema } from './schemas/app-password.schema';
+
+// Import
+export { importIcsSchema } from './schemas/import.schema';
+
+// Task lists
+export {
+  createTaskListSchema,
+  taskListFiltersSchema,
+  taskListIdParamSchema,
+  updateTaskListSchema,
+} from './schemas/task-list.schema';
+
+// Time tracking
+export {
+  createTimeEntrySchema,
+  timeEntryIdParamSchema,
+  timeReportQuerySchema,
+  updateTimeEntrySchema,
+} from './schemas/time-entry.schema';
+
 // ─── Types ──────────────────────────────────────────────────────────
 
 export type {
+  AddAttendeeInput,
   ApiErrorResponse,
+  AppointmentType,
+  AppPassword,
+  AppPasswordWithSecret,
+  AttendeeRole,
+  AttendeeStatus,
   AuditLog,
+  Booking,
+  BookingPage,
+  BookingSlot,
+  BookingSlotsQuery,
+  BookingSlotsResponse,
+  BookingWithToken,
   BulkCompleteTasksInput,
   BulkDeleteTasksInput,
   CalendarCategory,
+  CalendarFeed,
+  CalendarFeedWithToken,
+  CalendarShare,
+  CalendarSharePermission,
   ChangePasswordInput,
+  CompletedTasksPage,
+  CreateAppointmentTypeInput,
+  CreateAppPasswordInput,
+  CreateBookingInput,
+  CreateCalendarFeedInput,
+  CreateCalendarShareInput,
   CreateCategoryInput,
   CreateEventInput,
   CreatePushSubscriptionInput,
   CreateReminderInput,
+  CreateTagInput,
   CreateTaskInput,
+  CreateTaskListInput,
+  CreateTimeEntryInput,
   DateRangeInput,
   DeleteAccountInput,
   EditScope,
   Event,
+  EventAttendee,
   EventScopeQuery,
+  FindTimeInput,
+  FindTimeResponse,
+  FindTimeSlot,
   ForgotPasswordInput,
+  FreeBusyCalendar,
+  FreeBusyFormat,
+  FreeBusyInterval,
+  FreeBusyQuery,
+  FreeBusyResponse,
+  IcsImportItem,
+  IcsImportItemStatus,
+  IcsImportItemType,
+  IcsImportReport,
+  ImportIcsInput,
   ListEventsQuery,
   ListRemindersQuery,
   ListTasksQuery,
@@ -104,21 +233,55 @@ export type {
   OAuthAccount,
   PaginationInput,
   PushSubscription,
+  RecurrencePreview,
+  RecurrencePreviewInput,
   Reminder,
   ReorderTasksInput,
+  RescheduleBookingInput,
   ResetPasswordInput,
+  RestoreInstanceInput,
+  RsvpInvitation,
+  RsvpResponseInput,
   SearchQuery,
   SearchResults,
+  SeriesOccurrence,
+  SeriesSegment,
   Session,
+  SharedCalendar,
   SignupInput,
+  SmartListCounts,
+  Tag,
+  TagItemType,
   Task,
+  TaskBlocker,
+  TaskCompletion,
+  TaskList,
+  TaskListFilters,
   TaskScopeQuery,
+  TaskSubtaskProgress,
+  TimeEntry,
+  TimeReport,
+  TimeReportCategory,
+  TimeReportQuery,
+  TimeReportTask,
+  ToggleTaskInput,
+  Trash,
+  TrashedEvent,
+  TrashedTask,
+  UpdateAppointmentTypeInput,
+  UpdateAttendeeInput,
+  UpdateCalendarShareInput,
   UpdateCategoryInput,
   UpdateEventInput,
   UpdateProfileInput,
+  UpdateTagInput,
   UpdateTaskInput,
+  UpdateTaskListInput,
+  UpdateTimeEntryInput,
   User,
   Visibility,
+  WorkingHours,
+  WorkingHoursRange,
 } from './types/index';
 
 // ─── Constants ──────────────────────────────────────────────────────
@@ -128,9 +291,13 @@ export {
   DEFAULT_CATEGORY_COLOR,
   MAX_CATEGORIES_PER_USER,
   MAX_RECURRENCE_INSTANCES,
+  MAX_TAGS_PER_ITEM,
+  MAX_TAGS_PER_USER,
   RECURRENCE_PRESETS,
   REMINDER_PRESETS,
 } from './constants/colors';
+export type { HolidayCalendar } from './constants/holidays';
+export { HOLIDAY_CALENDAR_LABELS, HOLIDAY_CALENDARS } from './constants/holidays';
 export type { TaskPriority } from './constants/priorities';
 export { PRIORITY_LABELS, PRIORITY_ORDER, TASK_PRIORITIES } from './constants/priorities';
 export type { TaskStatus, VisibilityOption } from './constants/statuses';
@@ -140,3 +307,17 @@ export {
   VISIBILITY_LABELS,
   VISIBILITY_OPTIONS,
 } from './constants/statuses';
+export type { SmartList } from './constants/task-lists';
+export { MAX_TASK_LISTS_PER_USER, SMART_LIST_LABELS, SMART_LISTS } from './constants/task-lists';
+export { TRASH_RETENTION_DAYS } from './constants/trash';
+export { DEFAULT_WORKING_HOURS } from './constants/working-hours';
+
+// ─── Parsers ────────────────────────────────────────────────────────
+
+export type { QuickAddCategory, QuickAddOptions, QuickAddResult } from './parsers/quick-add';
+export { parseQuickAdd } from './parsers/quick-add';
+
+// ─── Holidays ───────────────────────────────────────────────────────
+
+export type { Holiday } from './holidays/holidays';
+export { findHoliday, getHolidays, getHolidaysBetween } from './holidays/holidays';
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseQuickAdd } from '../quick-add';
+
+import type { QuickAddOptions } from '../quick-add';
+
+// Wednesday, March 4 2026, 10:00 in New York
+const OPTIONS: QuickAddOptions = {
+  timeZone: 'America/New_York',
+  weekStart: 0,
+  categories: [
+    { id: 'cat-work', name: 'Work' },
+    { id: 'cat-deep', name: 'Deep Work' },
+  ],
+  now: new Date('2026-03-04T15:00:00Z'),
+};
+
+const parse = (input: string, options: Partial<QuickAddOptions> = {}) =>
+  parseQuickAdd(input, { ...OPTIONS, ...options });
+
+describe('parseQuickAdd', () => {
+  it('should pull every part out of a full line', () => {
+    expect(parse('Lunch with Sam tomorrow 1pm-2pm @Work every Friday !high')).toEqual({
+      title: 'Lunch with Sam',
+      date: '2026-03-05',
+      startTime: '13:00',
+      endTime: '14:00',
+      categoryId: 'cat-work',
+      priority: 'high',
+      rrule: 'FREQ=WEEKLY;BYDAY=FR',
+    });
+  });
+
+  it('should leave plain text alone', () => {
+    expect(parse('Pay rent')).toMatchObject({
+      title: 'Pay rent',
+      date: null,
+      startTime: null,
+      categoryId: null,
+      priority: null,
+      rrule: null,
+    });
+  });
+
+  it('should work out today in the user timezone', () => {
+    // 02:00 UTC on the 5th is still the evening of the 4th in New York
+    const now = new Date('2026-03-05T02:00:00Z');
+
+    expect(parse('Call mom today', { now }).date).toBe('2026-03-04');
+    expect(parse('Call mom today', { now, timeZone: 'Europe/Berlin' }).date).toBe('2026-03-05');
+  });
+
+  it('should read single times and infer the meridiem of a range', () => {
+    expect(parse('Standup at 9:30am')).toMatchObject({ title: 'Standup', startTime: '09:30' });
+    expect(parse('Review 14:15').startTime).toBe('14:15');
+    expect(parse('Lunch at noon').startTime).toBe('12:00');
+    expect(parse('Workshop 11-1pm')).toMatchObject({ startTime: '11:00', endTime: '13:00' });
+    expect(parse('Dinner 7-9pm')).toMatchObject({ startTime: '19:00', endTime: '21:00' });
+  });
+
+  it('should not read bare number ranges as times', () => {
+    expect(parse('Read pages 5-10')).toMatchObject({ title: 'Read pages 5-10', startTime: null });
+  });
+
+  it('should read weekday names relative to the user week start', () => {
+    expect(parse('Gym friday').date).toBe('2026-03-06');
+    expect(parse('Gym wednesday').date).toBe('2026-03-04');
+    expect(parse('Gym next friday').date).toBe('2026-03-13');
+    // A Monday-start week puts "next Sunday" a week later than a Sunday-start one
+    expect(parse('Brunch next sunday').date).toBe('2026-03-08');
+    expect(parse('Brunch next sunday', { weekStart: 1 }).date).toBe('2026-03-15');
+    expect(parse('Plan next week', { weekStart: 1 }).date).toBe('2026-03-09');
+  });
+
+  it('should only read short weekday names after a preposition', () => {
+    expect(parse('Sat exam prep')).toMatchObject({ title: 'Sat exam prep', date: null });
+    expect(parse('Hike on sat')).toMatchObject({ title: 'Hike', date: '2026-03-07' });
+  });
+
+  it('should read calendar dates, rolling past ones into next year', () => {
+    expect(parse('Taxes due April 15').date).toBe('2026-04-15');
+    expect(parse('New year party Jan 1st').date).toBe('2027-01-01');
+    expect(parse('Trip 3 June 2026').date).toBe('2026-06-03');
+    expect(parse('Launch 2026-05-20').date).toBe('2026-05-20');
+    expect(parse('Review in 2 weeks').date).toBe('2026-03-18');
+  });
+
+  it('should build recurrence rules and start weekday repeats on the first match', () => {
+    expect(parse('Water plants every 3 days').rrule).toBe('FREQ=DAILY;INTERVAL=3');
+    expect(parse('Payroll every other week').rrule).toBe('FREQ=WEEKLY;INTERVAL=2');
+    expect(parse('Rent monthly').rrule).toBe('FREQ=MONTHLY');
+    expect(parse('Standup every weekday')).toMatchObject({
+      rrule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+      date: '2026-03-04',
+    });
+    expect(parse('Piano every tue and thu')).toMatchObject({
+      title: 'Piano',
+      rrule: 'FREQ=WEEKLY;BYDAY=TU,TH',
+      date: '2026-03-05',
+    });
+  });
+
+  it('should match the longest category name and leave unknown ones in the title', () => {
+    expect(parse('Write spec @Deep Work').categoryId).toBe('cat-deep');
+    expect(parse('Write spec @deepwork').categoryId).toBe('cat-deep');
+    expect(parse('Ping @Sam !low')).toMatchObject({
+      title: 'Ping @Sam',
+      categoryId: null,
+      priority: 'low',
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import type { TaskPriority } from '../constants/priorities';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export interface QuickAddCategory {
+  id: string;
+  name: string;
+}
+
+export interface QuickAddOptions {
+  /** IANA timezone that "today", "tomorrow" and weekday names are worked out in */
+  timeZone: string;
+  /** 0 = Sunday, 1 = Monday; decides which week "next Friday" falls in */
+  weekStart: 0 | 1;
+  /** Categories an "@name" can refer to */
+  categories?: QuickAddCategory[];
+  /** Defaults to the current time */
+  now?: Date;
+}
+
+export interface QuickAddResult {
+  /** The text left once every recognised phrase is taken out */
+  title: string;
+  /** Day in the user's timezone (YYYY-MM-DD), or null when none was given */
+  date: string | null;
+  /** Wall-clock HH:mm, or null when no time was given */
+  startTime: string | null;
+  /** Wall-clock HH:mm; earlier than startTime when the range runs past midnight */
+  endTime: string | null;
+  categoryId: string | null;
+  priority: TaskPriority | null;
+  rrule: string | null;
+}
+
+// ─── Vocabulary ─────────────────────────────────────────────────────
+
+const FULL_DAY = 'sunday|monday|tuesday|wednesday|thursday|friday|saturday';
+// Short names only count after "on", "next", "this" or "every": "sun" and
+// "sat" are too common in titles on their own.
+const ANY_DAY = `${FULL_DAY}|sun|mon|tues|tue|wed|thurs|thur|thu|fri|sat`;
+const DAY_INDEX: Record<string, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  wed: 3,
+  thu: 4,
+  fri: 5,
+  sat: 6,
+};
+const BYDAY = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const MONTH =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const MONTH_INDEX = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+const FREQUENCIES: Record<string, string> = {
+  day: 'DAILY',
+  daily: 'DAILY',
+  week: 'WEEKLY',
+  weekly: 'WEEKLY',
+  month: 'MONTHLY',
+  monthly: 'MONTHLY',
+  year: 'YEARLY',
+  yearly: 'YEARLY',
+  annually: 'YEARLY',
+};
+
+const PRIORITIES: Record<string, TaskPriority> = {
+  high: 'high',
+  medium: 'medium',
+  med: 'medium',
+  low: 'low',
+  none: 'none',
+};
+
+const TIME = '(\\d{1,2})(?::([0-5]\\d))?\\s*(am|pm)?';
+const DATE_PREFIX = '(?:(?:on|by|due)\\s+)?';
+
+// ─── Date helpers (calendar days as UTC midnights) ──────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function todayIn(timeZone: string, now: Date): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return new Date(Date.UTC(part('year'), part('month') - 1, part('day')));
+}
+
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * DAY_MS);
+}
+
+function formatDay(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+/** The next day on or after `from` that falls on one of `weekdays` */
+function nextWeekday(from: Date, weekdays: number[]): Date {
+  for (let i = 0; i < 7; i++) {
+    const day = addDays(from, i);
+    if (weekdays.includes(day.getUTCDay())) return day;
+  }
+  return from;
+}
+
+function startOfWeek(day: Date, weekStart: 0 | 1): Date {
+  return addDays(day, -((day.getUTCDay() - weekStart + 7) % 7));
+}
+
+/** A month/day without a year: this year, or next year once it has passed */
+function upcomingDate(today: Date, month: number, day: number, year?: number): Date | null {
+  const resolvedYear = year ?? today.getUTCFullYear();
+  const date = new Date(Date.UTC(resolvedYear, month, day));
+  if (date.getUTCMonth() !== month) return null;
+  if (year === undefined && date < today) return upcomingDate(today, month, day, resolvedYear + 1);
+  return date;
+}
+
+function dayIndex(name: string): number {
+  return DAY_INDEX[name.slice(0, 3).toLowerCase()];
+}
+
+// ─── Time helpers ───────────────────────────────────────────────────
+
+type Meridiem = 'am' | 'pm' | undefined;
+
+/** Minutes past midnight, or null for an impossible time */
+function toMinutes(hour: number, minute: number, meridiem: Meridiem): number | null {
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    const h = hour % 12;
+    return (meridiem === 'pm' ? h + 12 : h) * 60 + minute;
+  }
+  if (hour > 23) return null;
+  return hour * 60 + minute;
+}
+
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+function meridiemOf(value: string | undefined): Meridiem {
+  return value ? (value.toLowerCase() as Meridiem) : undefined;
+}
+
+// ─── Parser ─────────────────────────────────────────────────────────
+
+type Accept = (match: RegExpExecArray) => boolean;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Parse a quick-add line like "Lunch with Sam tomorrow 1pm-2pm @Work
+ * every Friday !high" into its parts. Every recognised phrase is cut
+ * from the title; anything not understood stays in it. Days are worked
+ * out in the user's timezone; times are wall-clock and left for the
+ * caller to place in that timezone.
+ */
+export function parseQuickAdd(input: string, options: QuickAddOptions): QuickAddResult {
+  const today = todayIn(options.timeZone, options.now ?? new Date());
+  let text = input;
+
+  /** Cut the first match of `pattern` that `accept` takes out of the text */
+  const take = (pattern: RegExp, accept: Accept): boolean => {
+    for (const match of text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))) {
+      if (!accept(match)) continue;
+      text = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`;
+      return true;
+    }
+    return false;
+  };
+  /** Try each rule in turn until one takes a match */
+  const takeFirst = (...rules: [RegExp, Accept][]): boolean =>
+    rules.some(([pattern, accept]) => take(pattern, accept));
+
+  const result: QuickAddResult = {
+    title: '',
+    date: null,
+    startTime: null,
+    endTime: null,
+    categoryId: null,
+    priority: null,
+    rrule: null,
+  };
+
+  // Recurrence
+  let repeatDays: number[] = [];
+  takeFirst(
+    [
+      /\bevery\s+weekday\b/i,
+      () => {
+        repeatDays = [1, 2, 3, 4, 5];
+        return true;
+      },
+    ],
+    [
+      new RegExp(`\\bevery\\s+((?:${ANY_DAY})(?:\\s*(?:,|and|&)\\s*(?:${ANY_DAY}))*)\\b`, 'i'),
+      (m) => {
+        repeatDays = m[1].split(/\s*(?:,|and|&)\s*/i).map(dayIndex);
+        return true;
+      },
+    ],
+    [
+      /\bevery\s+(?:(other)\s+|(\d{1,2})\s+)?(day|week|month|year)s?\b/i,
+      (m) => {
+        const interval = m[1] ? 2 : m[2] ? Number(m[2]) : 1;
+        if (interval < 1) return false;
+        const freq = FREQUENCIES[m[3].toLowerCase()];
+        result.rrule = interval > 1 ? `FREQ=${freq};INTERVAL=${interval}` : `FREQ=${freq}`;
+        return true;
+      },
+    ],
+    [
+      /\b(daily|weekly|monthly|yearly|annually)\b/i,
+      (m) => {
+        result.rrule = `FREQ=${FREQUENCIES[m[1].toLowerCase()]}`;
+        return true;
+      },
+    ],
+  );
+  if (repeatDays.length > 0) {
+    // Monday first, as in RFC 5545 examples
+    const days = [...new Set(repeatDays)].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    result.rrule = `FREQ=WEEKLY;BYDAY=${days.map((d) => BYDAY[d]).join(',')}`;
+  }
+
+  // Time: a range, or else a single time
+  takeFirst(
+    [
+      new RegExp(`\\b(?:from\\s+)?${TIME}\\s*(?:-|–|—|to|until)\\s*${TIME}\\b`, 'i'),
+      (m) => {
+        const startMeridiem = meridiemOf(m[3]);
+        const endMeridiem = meridiemOf(m[6]);
+        // Bare numbers like "5-10" are only a time range in 24-hour form
+        if (!startMeridiem && !endMeridiem && (!m[2] || !m[5])) return false;
+
+        let start = toMinutes(Number(m[1]), Number(m[2] ?? 0), startMeridiem ?? endMeridiem);
+        let end = toMinutes(Number(m[4]), Number(m[5] ?? 0), endMeridiem ?? startMeridiem);
+        if (start === null || end === null) return false;
+        // "11-1pm" means 11am, "1pm-3" means 3pm
+        if (!startMeridiem && endMeridiem && start > end && start >= 12 * 60) start -= 12 * 60;
+        if (startMeridiem && !endMeridiem && end < start && end < 12 * 60) end += 12 * 60;
+
+        result.startTime = formatMinutes(start);
+        result.endTime = formatMinutes(end);
+        return true;
+      },
+    ],
+    [
+      /\b(?:at\s+)?(noon|midnight)\b/i,
+      (m) => {
+        result.startTime = m[1].toLowerCase() === 'noon' ? '12:00' : '00:00';
+        return true;
+      },
+    ],
+    [
+      /\b(?:at\s+)?(\d{1,2})(?::([0-5]\d))?\s*(am|pm)\b/i,
+      (m) => {
+        const minutes = toMinutes(Number(m[1]), Number(m[2] ?? 0), meridiemOf(m[3]));
+        if (minutes === null) return false;
+        result.startTime = formatMinutes(minutes);
+        return true;
+      },
+    ],
+    [
+      /\b(?:at\s+)?([01]?\d|2[0-3]):([0-5]\d)\b/,
+      (m) => {
+        result.startTime = formatMinutes(Number(m[1]) * 60 + Number(m[2]));
+        return true;
+      },
+    ],
+  );
+
+  // Date
+  const setDate = (date: Date | null) => {
+    if (!date) return false;
+    result.date = formatDay(date);
+    return true;
+  };
+  const monthIndex = (name: string) => MONTH_INDEX.indexOf(name.slice(0, 3).toLowerCase());
+  takeFirst(
+    [
+      new RegExp(`\\b${DATE_PREFIX}(\\d{4})-(\\d{2})-(\\d{2})\\b`, 'i'),
+      (m) => setDate(upcomingDate(today, Number(m[2]) - 1, Number(m[3]), Number(m[1]))),
+    ],
+    [
+      new RegExp(
+        `\\b${DATE_PREFIX}(${MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`,
+        'i',
+      ),
+      (m) =>
+        setDate(
+          upcomingDate(today, monthIndex(m[1]), Number(m[2]), m[3] ? Number(m[3]) : undefined),
+        ),
+    ],
+    [
+      new RegExp(
+        `\\b${DATE_PREFIX}(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})\\b(?:\\s+(\\d{4})\\b)?`,
+        'i',
+      ),
+      (m) =>
+        setDate(
+          upcomingDate(today, monthIndex(m[2]), Number(m[1]), m[3] ? Number(m[3]) : undefined),
+        ),
+    ],
+    [new RegExp(`\\b${DATE_PREFIX}(today|tonight)\\b`, 'i'), () => setDate(today)],
+    [new RegExp(`\\b${DATE_PREFIX}(tomorrow|tmrw|tmr)\\b`, 'i'), () => setDate(addDays(today, 1))],
+    [
+      /\bin\s+(\d{1,3})\s+(day|week)s?\b/i,
+      (m) => setDate(addDays(today, Number(m[1]) * (m[2].toLowerCase() === 'week' ? 7 : 1))),
+    ],
+    [
+      new RegExp(`\\b${DATE_PREFIX}next\\s+week\\b`, 'i'),
+      () => setDate(addDays(startOfWeek(today, options.weekStart), 7)),
+    ],
+    [
+      new RegExp(`\\b(?:(on|by|due|next|this)\\s+(${ANY_DAY})|(${FULL_DAY}))\\b`, 'i'),
+      (m) => {
+        const weekday = dayIndex(m[2] ?? m[3]);
+        const prefix = m[1]?.toLowerCase();
+        if (prefix === 'next' || prefix === 'this') {
+          const offset = (weekday - options.weekStart + 7) % 7;
+          const weekOf = startOfWeek(today, options.weekStart);
+          return setDate(addDays(weekOf, offset + (prefix === 'next' ? 7 : 0)));
+        }
+        return setDate(nextWeekday(today, [weekday]));
+      },
+    ],
+  );
+
+  // A repeat on set weekdays starts on the first of them
+  if (!result.date && repeatDays.length > 0) {
+    result.date = formatDay(nextWeekday(today, repeatDays));
+  }
+
+  // Category: the longest matching name wins, so "@Deep Work" beats "@Deep"
+  const categories = [...(options.categories ?? [])].sort((a, b) => b.name.length - a.name.length);
+  for (const category of categories) {
+    const spaced = escapeRegExp(category.name.trim()).replace(/\s+/g, '\\s+');
+    const joined = escapeRegExp(category.name.replace(/\s+/g, ''));
+    const accepted = take(new RegExp(`(^|\\s)@(?:${spaced}|${joined})(?=\\s|$)`, 'i'), () => {
+      result.categoryId = category.id;
+      return true;
+    });
+    if (accepted) break;
+  }
+
+  // Priority
+  take(/(^|\s)!(high|medium|med|low|none)\b/i, (m) => {
+    result.priority = PRIORITIES[m[2].toLowerCase()];
+    return true;
+  });
+
+  result.title = text.replace(/\s+/g, ' ').trim();
+  return result;
+}
@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
+import { createAppPasswordSchema } from '../app-password.schema';
+import { addAttendeeSchema, rsvpResponseSchema, updateAttendeeSchema } from '../attendee.schema';
 import {
   changePasswordSchema,
   deleteAccountSchema,
@@ -9,6 +11,12 @@ import {
   signupSchema,
   updateProfileSchema,
 } from '../auth.schema';
+import {
+  bookingSlotsQuerySchema,
+  createAppointmentTypeSchema,
+  createBookingSchema,
+} from '../booking.schema';
+import { createCalendarShareSchema, updateCalendarShareSchema } from '../calendar-share.schema';
 import { createCategorySchema, updateCategorySchema } from '../category.schema';
 import {
   cuid2Schema,
@@ -20,16 +28,35 @@ import {
   timezoneSchema,
   visibilitySchema,
 } from '../common.schema';
-import { createEventSchema, listEventsQuerySchema, updateEventSchema } from '../event.schema';
+import {
+  createEventSchema,
+  eventScopeQuerySchema,
+  listEventsQuerySchema,
+  MAX_RDATES,
+  recurrencePreviewSchema,
+  updateEventSchema,
+} from '../event.schema';
+import { findTimeSchema, freeBusyQuerySchema } from '../freebusy.schema';
+import { importIcsSchema } from '../import.schema';
 import { createReminderSchema, listRemindersQuerySchema } from '../reminder.schema';
 import { searchQuerySchema } from '../search.schema';
+import { createTagSchema, tagIdsSchema, updateTagSchema } from '../tag.schema';
 import {
   createTaskSchema,
+  listTasksQuerySchema,
   reorderTasksSchema,
   taskPrioritySchema,
   taskStatusSchema,
+  toggleTaskSchema,
   updateTaskSchema,
 } from '../task.schema';
+import { createTaskListSchema, taskListFiltersSchema } from '../task-list.schema';
+import {
+  createTimeEntrySchema,
+  timeReportQuerySchema,
+  updateTimeEntrySchema,
+} from '../time-entry.schema';
+import { workingHoursSchema } from '../working-hours.schema';
 
 // ─── Helper ─────────────────────────────────────────────────────────
 
@@ -341,6 +368,13 @@ describe('Auth Schemas', () => {
     it('should reject invalid timeFormat', () => {
       expect(() => updateProfileSchema.parse({ timeFormat: '8h' })).toThrow();
     });
+
+    it('should dedupe holiday calendars and reject unknown ones', () => {
+      expect(updateProfileSchema.parse({ holidayCalendars: ['US', 'GB', 'US'] })).toEqual({
+        holidayCalendars: ['US', 'GB'],
+      });
+      expect(() => updateProfileSchema.parse({ holidayCalendars: ['XX'] })).toThrow();
+    });
   });
 
   describe('changePasswordSchema', () => {
@@ -408,6 +442,40 @@ describe('Event Schemas', () => {
       expect(() => createEventSchema.parse({ ...validEvent, title: 'a'.repeat(201) })).toThrow();
     });
 
+    it('should accept start and end timezones', () => {
+      const result = createEventSchema.parse({
+        ...validEvent,
+        timezone: 'America/New_York',
+        endTimezone: 'Europe/London',
+      });
+      expect(result.timezone).toBe('America/New_York');
+      expect(result.endTimezone).toBe('Europe/London');
+    });
+
+    it('should reject an invalid timezone', () => {
+      expect(() => createEventSchema.parse({ ...validEvent, timezone: 'Mars/Olympus' })).toThrow();
+    });
+
+    it('should reject an end timezone without a start timezone', () => {
+      expect(() =>
+        createEventSchema.parse({ ...validEvent, endTimezone: 'Europe/London' }),
+      ).toThrow();
+    });
+
+    it('should accept a task ID for a focus block', () => {
+      const result = createEventSchema.parse({ ...validEvent, taskId: VALID_CUID2 });
+      expect(result.taskId).toBe(VALID_CUID2);
+    });
+
+    it('should reject a recurring or all-day focus block', () => {
+      expect(() =>
+        createEventSchema.parse({ ...validEvent, taskId: VALID_CUID2, rrule: 'FREQ=DAILY' }),
+      ).toThrow();
+      expect(() =>
+        createEventSchema.parse({ ...validEvent, taskId: VALID_CUID2, isAllDay: true }),
+      ).toThrow();
+    });
+
     it('should reject when endAt is before startAt', () => {
       expect(() =>
         createEventSchema.parse({
@@ -484,6 +552,36 @@ describe('Event Schemas', () => {
     it('should reject invalid hex color', () => {
       expect(() => createEventSchema.parse({ ...validEvent, color: 'red' })).toThrow();
     });
+
+    it('should accept extra dates on a recurring event', () => {
+      const result = createEventSchema.parse({
+        ...validEvent,
+        rrule: 'FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2',
+        rDates: ['2026-04-02T10:00:00Z'],
+      });
+      expect(result.rDates).toEqual(['2026-04-02T10:00:00Z']);
+    });
+
+    it('should reject extra dates without a recurrence rule', () => {
+      expect(() =>
+        createEventSchema.parse({ ...validEvent, rDates: ['2026-04-02T10:00:00Z'] }),
+      ).toThrow();
+    });
+
+    it('should reject skipping holidays without a recurrence rule', () => {
+      expect(() => createEventSchema.parse({ ...validEvent, skipHolidays: 'US' })).toThrow();
+      expect(
+        createEventSchema.parse({ ...validEvent, rrule: 'FREQ=WEEKLY', skipHolidays: 'US' })
+          .skipHolidays,
+      ).toBe('US');
+    });
+
+    it('should reject more than MAX_RDATES extra dates', () => {
+      const rDates = Array.from({ length: MAX_RDATES + 1 }, () => '2026-04-02T10:00:00Z');
+      expect(() =>
+        createEventSchema.parse({ ...validEvent, rrule: 'FREQ=DAILY', rDates }),
+      ).toThrow();
+    });
   });
 
   describe('updateEventSchema', () => {
@@ -513,6 +611,41 @@ describe('Event Schemas', () => {
     });
   });
 
+  describe('recurrencePreviewSchema', () => {
+    it('should apply defaults', () => {
+      const result = recurrencePreviewSchema.parse({
+        rrule: 'FREQ=WEEKLY',
+        startAt: '2026-03-15T10:00:00Z',
+      });
+      expect(result).toMatchObject({ isAllDay: false, rDates: [], exDates: [], count: 10 });
+    });
+
+    it('should reject an empty rule', () => {
+      expect(() =>
+        recurrencePreviewSchema.parse({ rrule: '', startAt: '2026-03-15T10:00:00Z' }),
+      ).toThrow();
+    });
+
+    it('should accept an existing series id', () => {
+      const result = recurrencePreviewSchema.parse({
+        rrule: 'FREQ=WEEKLY',
+        startAt: '2026-03-15T10:00:00Z',
+        eventId: VALID_CUID2,
+      });
+      expect(result.eventId).toBe(VALID_CUID2);
+    });
+
+    it('should reject a count above 50', () => {
+      expect(() =>
+        recurrencePreviewSchema.parse({
+          rrule: 'FREQ=DAILY',
+          startAt: '2026-03-15T10:00:00Z',
+          count: 51,
+        }),
+      ).toThrow();
+    });
+  });
+
   describe('listEventsQuerySchema', () => {
     it('should accept valid start and end', () => {
       const result = listEventsQuerySchema.parse({
@@ -546,6 +679,20 @@ describe('Event Schemas', () => {
       ).toThrow();
     });
   });
+
+  describe('eventScopeQuerySchema', () => {
+    it('should parse allSegments from a query string flag', () => {
+      expect(eventScopeQuerySchema.parse({ scope: 'all', allSegments: 'true' }).allSegments).toBe(
+        true,
+      );
+      expect(eventScopeQuerySchema.parse({ allSegments: 'false' }).allSegments).toBe(false);
+      expect(eventScopeQuerySchema.parse({ scope: 'all' }).allSegments).toBeUndefined();
+    });
+
+    it('should reject other allSegments values', () => {
+      expect(() => eventScopeQuerySchema.parse({ allSegments: 'yes' })).toThrow();
+    });
+  });
 });
 
 // ─── Task Schemas ───────────────────────────────────────────────────
@@ -600,6 +747,43 @@ describe('Task Schemas', () => {
       expect(() => createTaskSchema.parse({ ...validTask, title: 'a'.repeat(201) })).toThrow();
     });
 
+    it('should accept an estimate in whole minutes up to a week', () => {
+      expect(createTaskSchema.parse({ ...validTask, estimatedMinutes: 90 }).estimatedMinutes).toBe(
+        90,
+      );
+      expect(() => createTaskSchema.parse({ ...validTask, estimatedMinutes: 0 })).toThrow();
+      expect(() => createTaskSchema.parse({ ...validTask, estimatedMinutes: 1.5 })).toThrow();
+      expect(() => createTaskSchema.parse({ ...validTask, estimatedMinutes: 10081 })).toThrow();
+    });
+
+    it('should accept up to 20 blocking tasks', () => {
+      expect(
+        createTaskSchema.parse({ ...validTask, blockedByIds: [VALID_CUID2] }).blockedByIds,
+      ).toEqual([VALID_CUID2]);
+      expect(() =>
+        createTaskSchema.parse({ ...validTask, blockedByIds: Array(21).fill(VALID_CUID2) }),
+      ).toThrow();
+      expect(() => createTaskSchema.parse({ ...validTask, blockedByIds: ['nope'] })).toThrow();
+    });
+
+    it('should accept a repeat-after-completion interval', () => {
+      expect(
+        createTaskSchema.parse({ ...validTask, repeatAfter: 'FREQ=DAILY;INTERVAL=3' }).repeatAfter,
+      ).toBe('FREQ=DAILY;INTERVAL=3');
+      expect(createTaskSchema.parse({ ...validTask, repeatAfter: 'FREQ=WEEKLY' }).repeatAfter).toBe(
+        'FREQ=WEEKLY',
+      );
+      expect(() =>
+        createTaskSchema.parse({ ...validTask, repeatAfter: 'FREQ=HOURLY;INTERVAL=3' }),
+      ).toThrow();
+      expect(() =>
+        createTaskSchema.parse({ ...validTask, repeatAfter: 'FREQ=WEEKLY;BYDAY=MO' }),
+      ).toThrow();
+      expect(() =>
+        createTaskSchema.parse({ ...validTask, repeatAfter: 'FREQ=DAILY;INTERVAL=0' }),
+      ).toThrow();
+    });
+
     it('should accept nullable dueAt', () => {
       const result = createTaskSchema.parse({ ...validTask, dueAt: null });
       expect(result.dueAt).toBeNull();
@@ -647,6 +831,25 @@ describe('Task Schemas', () => {
     it('should reject invalid status on update', () => {
       expect(() => updateTaskSchema.parse({ status: 'pending' })).toThrow();
     });
+
+    it('should accept moving a task to the top level', () => {
+      const result = updateTaskSchema.parse({ parentTaskId: null });
+      expect(result.parentTaskId).toBeNull();
+    });
+  });
+
+  describe('toggleTaskSchema', () => {
+    it('should leave subtasks alone by default', () => {
+      expect(toggleTaskSchema.parse({})).toEqual({ completeSubtasks: false });
+    });
+
+    it('should accept a missing body', () => {
+      expect(toggleTaskSchema.parse(undefined)).toEqual({ completeSubtasks: false });
+    });
+
+    it('should reject a non-boolean flag', () => {
+      expect(() => toggleTaskSchema.parse({ completeSubtasks: 'yes' })).toThrow();
+    });
   });
 
   describe('reorderTasksSchema', () => {
@@ -726,6 +929,58 @@ describe('Category Schemas', () => {
   });
 });
 
+// ─── Tag Schemas ────────────────────────────────────────────────────
+
+describe('Tag Schemas', () => {
+  describe('createTagSchema', () => {
+    it('should accept valid tag data', () => {
+      const result = createTagSchema.parse({ name: ' urgent ', color: '#E74C3C' });
+      expect(result.name).toBe('urgent');
+    });
+
+    it('should reject name longer than 50 characters', () => {
+      expect(() => createTagSchema.parse({ name: 'a'.repeat(51), color: '#E74C3C' })).toThrow();
+    });
+
+    it('should reject invalid color format', () => {
+      expect(() => createTagSchema.parse({ name: 'urgent', color: 'red' })).toThrow();
+    });
+  });
+
+  describe('updateTagSchema', () => {
+    it('should accept a color-only update', () => {
+      const result = updateTagSchema.parse({ color: '#2ECC71' });
+      expect(result.color).toBe('#2ECC71');
+    });
+  });
+
+  describe('tagIdsSchema', () => {
+    it('should reject more than 20 tags', () => {
+      expect(() => tagIdsSchema.parse(Array(21).fill(VALID_CUID2))).toThrow();
+    });
+  });
+
+  describe('tag filters', () => {
+    it('should split comma-separated tag IDs on task queries', () => {
+      const result = listTasksQuerySchema.parse({ tagIds: `${VALID_CUID2},${VALID_CUID2}` });
+      expect(result.tagIds).toEqual([VALID_CUID2, VALID_CUID2]);
+    });
+
+    it('should split comma-separated tag IDs on event queries', () => {
+      const result = listEventsQuerySchema.parse({
+        start: '2026-03-01T00:00:00Z',
+        end: '2026-03-31T23:59:59Z',
+        tagIds: VALID_CUID2,
+      });
+      expect(result.tagIds).toEqual([VALID_CUID2]);
+    });
+
+    it('should reject invalid tag IDs in a query', () => {
+      expect(() => listTasksQuerySchema.parse({ tagIds: 'not a cuid' })).toThrow();
+    });
+  });
+});
+
 // ─── Reminder Schemas ───────────────────────────────────────────────
 
 describe('Reminder Schemas', () => {
@@ -868,3 +1123,378 @@ describe('Search Schema', () => {
     });
   });
 });
+
+// ─── Import Schema ──────────────────────────────────────────────────
+
+describe('Import Schema', () => {
+  describe('importIcsSchema', () => {
+    it('should default to a dry run', () => {
+      const result = importIcsSchema.parse({ categoryId: VALID_CUID2, content: 'BEGIN:VCALENDAR' });
+      expect(result.dryRun).toBe(true);
+    });
+
+    it('should accept dryRun false', () => {
+      const result = importIcsSchema.parse({
+        categoryId: VALID_CUID2,
+        content: 'BEGIN:VCALENDAR',
+        dryRun: false,
+      });
+      expect(result.dryRun).toBe(false);
+    });
+
+    it('should reject empty content', () => {
+      expect(() => importIcsSchema.parse({ categoryId: VALID_CUID2, content: '' })).toThrow();
+    });
+
+    it('should reject content larger than 2 MB', () => {
+      expect(() =>
+        importIcsSchema.parse({ categoryId: VALID_CUID2, content: 'a'.repeat(2_000_001) }),
+      ).toThrow();
+    });
+
+    it('should require a categoryId', () => {
+      expect(() => importIcsSchema.parse({ content: 'BEGIN:VCALENDAR' })).toThrow();
+    });
+  });
+});
+
+// ─── App Password Schema ────────────────────────────────────────────
+
+describe('App Password Schema', () => {
+  describe('createAppPasswordSchema', () => {
+    it('should accept and trim a name', () => {
+      const result = createAppPasswordSchema.parse({ name: '  iPhone  ' });
+      expect(result.name).toBe('iPhone');
+    });
+
+    it('should reject an empty name', () => {
+      expect(() => createAppPasswordSchema.parse({ name: '   ' })).toThrow();
+    });
+
+    it('should reject a name longer than 100 characters', () => {
+      expect(() => createAppPasswordSchema.parse({ name: 'a'.repeat(101) })).toThrow();
+    });
+  });
+});
+
+// ─── Attendee Schemas ───────────────────────────────────────────────
+
+describe('Attendee Schemas', () => {
+  describe('addAttendeeSchema', () => {
+    it('should normalize the email and default the role to required', () => {
+      const result = addAttendeeSchema.parse({ email: '  Guest@Example.COM ' });
+      expect(result.email).toBe('guest@example.com');
+      expect(result.role).toBe('required');
+    });
+
+    it('should reject an invalid email', () => {
+      expect(() => addAttendeeSchema.parse({ email: 'not-an-email' })).toThrow();
+    });
+
+    it('should reject an unknown role', () => {
+      expect(() => addAttendeeSchema.parse({ email: 'a@example.com', role: 'chair' })).toThrow();
+    });
+  });
+
+  describe('updateAttendeeSchema', () => {
+    it('should require at least one field', () => {
+      expect(() => updateAttendeeSchema.parse({})).toThrow();
+      expect(updateAttendeeSchema.parse({ role: 'optional' }).role).toBe('optional');
+    });
+  });
+
+  describe('rsvpResponseSchema', () => {
+    it('should accept accepted, declined and tentative', () => {
+      for (const status of ['accepted', 'declined', 'tentative']) {
+        expect(rsvpResponseSchema.parse({ status }).status).toBe(status);
+      }
+    });
+
+    it('should reject needs_action', () => {
+      expect(() => rsvpResponseSchema.parse({ status: 'needs_action' })).toThrow();
+    });
+  });
+});
+
+// ─── Calendar Share Schemas ─────────────────────────────────────────
+
+describe('Calendar Share Schemas', () => {
+  describe('createCalendarShareSchema', () => {
+    it('should normalize the email', () => {
+      const result = createCalendarShareSchema.parse({
+        email: ' Friend@Example.COM',
+        permission: 'read',
+      });
+      expect(result.email).toBe('friend@example.com');
+    });
+
+    it('should require a known permission', () => {
+      expect(() => createCalendarShareSchema.parse({ email: 'a@example.com' })).toThrow();
+      expect(() =>
+        createCalendarShareSchema.parse({ email: 'a@example.com', permission: 'owner' }),
+      ).toThrow();
+    });
+  });
+
+  describe('updateCalendarShareSchema', () => {
+    it('should accept each permission level', () => {
+      for (const permission of ['freebusy', 'read', 'edit']) {
+        expect(updateCalendarShareSchema.parse({ permission }).permission).toBe(permission);
+      }
+    });
+  });
+});
+
+describe('Free/Busy Schemas', () => {
+  describe('freeBusyQuerySchema', () => {
+    const base = {
+      start: '2026-03-02T00:00:00.000Z',
+      end: '2026-03-09T00:00:00.000Z',
+      emails: ['Colleague@Example.com'],
+    };
+
+    it('should default to JSON output and normalize emails', () => {
+      const result = freeBusyQuerySchema.parse(base);
+      expect(result.format).toBe('json');
+      expect(result.emails).toEqual(['colleague@example.com']);
+    });
+
+    it('should reject an empty email list', () => {
+      expect(() => freeBusyQuerySchema.parse({ ...base, emails: [] })).toThrow();
+    });
+
+    it('should reject ranges longer than 90 days', () => {
+      expect(() =>
+        freeBusyQuerySchema.parse({ ...base, end: '2026-07-01T00:00:00.000Z' }),
+      ).toThrow();
+    });
+  });
+
+  describe('findTimeSchema', () => {
+    it('should default to everyone’s own working hours and five suggestions', () => {
+      const result = findTimeSchema.parse({ durationMinutes: 30 });
+      expect(result).toMatchObject({ emails: [], includeWeekends: false, limit: 5 });
+      expect(result.workingHours).toBeUndefined();
+    });
+
+    it('should require start and end together', () => {
+      expect(() =>
+        findTimeSchema.parse({ durationMinutes: 30, start: '2026-03-02T00:00:00.000Z' }),
+      ).toThrow();
+    });
+
+    it('should reject working hours that end before they start', () => {
+      expect(() =>
+        findTimeSchema.parse({
+          durationMinutes: 30,
+          workingHours: { start: '17:00', end: '09:00' },
+        }),
+      ).toThrow();
+    });
+  });
+});
+
+describe('Working Hours Schemas', () => {
+  describe('workingHoursSchema', () => {
+    const nineToFive = [{ start: '09:00', end: '17:00' }];
+
+    it('should accept split days and a custom timezone', () => {
+      const hours = {
+        timezone: 'Europe/Berlin',
+        days: [
+          [],
+          [
+            { start: '08:00', end: '12:00' },
+            { start: '13:00', end: '17:00' },
+          ],
+          nineToFive,
+          nineToFive,
+          nineToFive,
+          nineToFive,
+          [],
+        ],
+      };
+      expect(workingHoursSchema.parse(hours)).toEqual(hours);
+    });
+
+    it('should reject overlapping ranges on the same day', () => {
+      expect(() =>
+        workingHoursSchema.parse({
+          timezone: null,
+          days: [
+            [
+              { start: '09:00', end: '13:00' },
+              { start: '12:00', end: '17:00' },
+            ],
+            [],
+            [],
+            [],
+            [],
+            [],
+            [],
+          ],
+        }),
+      ).toThrow();
+    });
+
+    it('should require all seven days', () => {
+      expect(() => workingHoursSchema.parse({ timezone: null, days: [nineToFive] })).toThrow();
+    });
+
+    it('should accept 24:00 as the end of the day', () => {
+      const lateShift = [{ start: '18:00', end: '24:00' }];
+      const hours = { timezone: null, days: Array.from({ length: 7 }, () => lateShift) };
+
+      expect(workingHoursSchema.parse(hours)).toEqual(hours);
+    });
+
+    it('should not let a range start at 24:00 or go past it', () => {
+      for (const range of [
+        { start: '24:00', end: '24:00' },
+        { start: '18:00', end: '24:30' },
+      ]) {
+        expect(() =>
+          workingHoursSchema.parse({
+            timezone: null,
+            days: [[range], [], [], [], [], [], []],
+          }),
+        ).toThrow();
+      }
+    });
+  });
+});
+
+describe('Booking Schemas', () => {
+  describe('createAppointmentTypeSchema', () => {
+    const valid = {
+      name: 'Intro call',
+      slug: 'Intro-Call',
+      categoryId: 'clh1234567890abcdefghijkl',
+      durationMinutes: 30,
+    };
+
+    it('should apply defaults and normalise the slug', () => {
+      expect(createAppointmentTypeSchema.parse(valid)).toMatchObject({
+        slug: 'intro-call',
+        bufferMinutes: 0,
+        minNoticeMinutes: 60,
+        maxPerDay: null,
+        availability: null,
+        isActive: true,
+      });
+    });
+
+    it('should reject slugs with spaces or repeated hyphens', () => {
+      expect(() => createAppointmentTypeSchema.parse({ ...valid, slug: 'intro call' })).toThrow();
+      expect(() => createAppointmentTypeSchema.parse({ ...valid, slug: 'intro--call' })).toThrow();
+    });
+  });
+
+  describe('bookingSlotsQuerySchema', () => {
+    it('should reject ranges longer than 62 days', () => {
+      expect(() =>
+        bookingSlotsQuerySchema.parse({
+          start: '2026-03-01T00:00:00.000Z',
+          end: '2026-05-15T00:00:00.000Z',
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe('createBookingSchema', () => {
+    it('should lowercase the guest email', () => {
+      const result = createBookingSchema.parse({
+        startAt: '2026-03-02T14:00:00.000Z',
+        name: 'Visitor',
+        email: 'Visitor@Example.com',
+      });
+      expect(result.email).toBe('visitor@example.com');
+    });
+  });
+});
+
+describe('Time Entry Schemas', () => {
+  describe('createTimeEntrySchema', () => {
+    const valid = {
+      taskId: VALID_CUID2,
+      startedAt: '2026-03-02T09:00:00.000Z',
+      endedAt: '2026-03-02T10:30:00.000Z',
+    };
+
+    it('should accept a finished session', () => {
+      expect(createTimeEntrySchema.parse(valid)).toEqual(valid);
+    });
+
+    it('should reject a session that ends before it starts', () => {
+      expect(() =>
+        createTimeEntrySchema.parse({ ...valid, endedAt: '2026-03-02T08:00:00.000Z' }),
+      ).toThrow();
+    });
+  });
+
+  describe('updateTimeEntrySchema', () => {
+    it('should only compare the times when both are given', () => {
+      expect(updateTimeEntrySchema.parse({ endedAt: '2026-03-02T08:00:00.000Z' })).toBeTruthy();
+      expect(() =>
+        updateTimeEntrySchema.parse({
+          startedAt: '2026-03-02T09:00:00.000Z',
+          endedAt: '2026-03-02T08:00:00.000Z',
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe('timeReportQuerySchema', () => {
+    it('should reject ranges longer than a year', () => {
+      expect(() =>
+        timeReportQuerySchema.parse({
+          start: '2026-01-01T00:00:00.000Z',
+          end: '2027-01-03T00:00:00.000Z',
+        }),
+      ).toThrow();
+    });
+  });
+});
+
+describe('Task List Schemas', () => {
+  describe('listTasksQuerySchema smart lists', () => {
+    it('should accept a built-in list and split category IDs', () => {
+      const result = listTasksQuerySchema.parse({
+        list: 'today',
+        categoryIds: `${VALID_CUID2},${VALID_CUID2}`,
+      });
+      expect(result.list).toBe('today');
+      expect(result.categoryIds).toEqual([VALID_CUID2, VALID_CUID2]);
+    });
+
+    it('should reject an unknown list', () => {
+      expect(() => listTasksQuerySchema.parse({ list: 'tomorrow' })).toThrow();
+    });
+  });
+
+  describe('createTaskListSchema', () => {
+    it('should accept a named filter combination', () => {
+      const result = createTaskListSchema.parse({
+        name: '  High priority work ',
+        filters: { priority: ['high'], categoryIds: [VALID_CUID2] },
+      });
+      expect(result.name).toBe('High priority work');
+      expect(result.filters.priority).toEqual(['high']);
+    });
+
+    it('should reject an empty name', () => {
+      expect(() => createTaskListSchema.parse({ name: ' ', filters: {} })).toThrow();
+    });
+  });
+
+  describe('taskListFiltersSchema', () => {
+    it('should reject a due range that ends before it starts', () => {
+      expect(() =>
+        taskListFiltersSchema.parse({
+          dueStart: '2026-03-02T00:00:00.000Z',
+          dueEnd: '2026-03-01T00:00:00.000Z',
+        }),
+      ).toThrow();
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+import { cuid2Schema } from './common.schema';
+
+// ─── Create App Password ────────────────────────────────────────────
+
+export const createAppPasswordSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be at most 100 characters'),
+});
+
+export type CreateAppPasswordInput = z.infer<typeof createAppPasswordSchema>;
+
+// ─── Param Schemas ──────────────────────────────────────────────────
+
+export const appPasswordIdParamSchema = z.object({
+  id: cuid2Schema,
+});
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+import { cuid2Schema } from './common.schema';
+
+// ─── Enums ──────────────────────────────────────────────────────────
+
+export const attendeeRoleSchema = z.enum(['required', 'optional']);
+
+export type AttendeeRole = z.infer<typeof attendeeRoleSchema>;
+
+export const attendeeStatusSchema = z.enum(['needs_action', 'accepted', 'declined', 'tentative']);
+
+export type AttendeeStatus = z.infer<typeof attendeeStatusSchema>;
+
+// ─── Add Attendee ───────────────────────────────────────────────────
+
+export const addAttendeeSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .email('Invalid email address')
+    .max(254, 'Email must be at most 254 characters')
+    .transform((e) => e.toLowerCase()),
+  name: z.string().trim().max(200, 'Name must be at most 200 characters').nullable().optional(),
+  role: attendeeRoleSchema.default('required'),
+});
+
+export type AddAttendeeInput = z.infer<typeof addAttendeeSchema>;
+
+// ─── Update Attendee ────────────────────────────────────────────────
+
+export const updateAttendeeSchema = z
+  .object({
+    name: z.string().trim().max(200, 'Name must be at most 200 characters').nullable().optional(),
+    role: attendeeRoleSchema.optional(),
+  })
+  .refine((data) => data.name !== undefined || data.role !== undefined, {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateAttendeeInput = z.infer<typeof updateAttendeeSchema>;
+
+// ─── RSVP ───────────────────────────────────────────────────────────
+
+export const rsvpResponseSchema = z.object({
+  status: attendeeStatusSchema.exclude(['needs_action']),
+});
+
+export type RsvpResponseInput = z.infer<typeof rsvpResponseSchema>;
+
+// ─── Param Schemas ──────────────────────────────────────────────────
+
+export const attendeeParamSchema = z.object({
+  id: cuid2Schema,
+  attendeeId: cuid2Schema,
+});
+
+/** RSVP tokens are 256-bit random values encoded as 64 hex characters */
+export const rsvpTokenParamSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid RSVP token'),
+});
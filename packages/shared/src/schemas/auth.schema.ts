@@ -1,6 +1,7 @@
 import { z } from 'zod';
 
-import { timezoneSchema } from './common.schema';
+import { holidayCalendarSchema, timezoneSchema } from './common.schema';
+import { workingHoursSchema } from './working-hours.schema';
 
 // ─── Signup ─────────────────────────────────────────────────────────
 
@@ -75,6 +76,13 @@ export const updateProfileSchema = z.object({
   timezone: timezoneSchema.optional(),
   weekStart: z.union([z.literal(0), z.literal(1)]).optional(),
   timeFormat: z.enum(['12h', '24h']).optional(),
+  workingHours: workingHoursSchema.optional(),
+  enforceTaskDependencies: z.boolean().optional(),
+  /** Built-in holiday calendars shown on the user's calendar */
+  holidayCalendars: z
+    .array(holidayCalendarSchema)
+    .transform((calendars) => [...new Set(calendars)])
+    .optional(),
 });
 
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
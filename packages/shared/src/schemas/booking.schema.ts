@@ -0,0 +1,158 @@
+import { z } from 'zod';
+
+import { cuid2Schema, datetimeSchema, timezoneSchema } from './common.schema';
+import { workingHoursSchema } from './working-hours.schema';
+
+/** Longest range of open slots a booking page can ask for at once */
+const MAX_SLOTS_RANGE_DAYS = 62;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Field Schemas ──────────────────────────────────────────────────
+
+/** The public part of a booking page's URL, e.g. `/book/intro-call` */
+export const bookingSlugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(3, 'Link must be at least 3 characters')
+  .max(60, 'Link must be at most 60 characters')
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Use letters, numbers and single hyphens only');
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(100, 'Name must be at most 100 characters');
+
+const descriptionSchema = z
+  .string()
+  .max(2000, 'Description must be at most 2000 characters')
+  .nullable();
+
+const locationSchema = z.string().max(500, 'Location must be at most 500 characters').nullable();
+
+const durationSchema = z
+  .number()
+  .int()
+  .min(5, 'Duration must be at least 5 minutes')
+  .max(480, 'Duration must be at most 8 hours');
+
+/** Kept free before and after each booking */
+const bufferSchema = z.number().int().min(0).max(240, 'Buffer must be at most 4 hours');
+
+/** How far ahead of a slot it must be booked */
+const minNoticeSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(30 * 24 * 60, 'Minimum notice must be at most 30 days');
+
+const maxPerDaySchema = z
+  .number()
+  .int()
+  .min(1, 'Allow at least 1 booking per day')
+  .max(50, 'At most 50 bookings per day')
+  .nullable();
+
+// ─── Appointment Types ──────────────────────────────────────────────
+
+/**
+ * A kind of appointment visitors can book, such as a 30-minute intro
+ * call. A null `availability` means the host's working hours apply.
+ */
+export const createAppointmentTypeSchema = z.object({
+  name: nameSchema,
+  slug: bookingSlugSchema,
+  description: descriptionSchema.optional(),
+  location: locationSchema.optional(),
+  categoryId: cuid2Schema,
+  durationMinutes: durationSchema,
+  bufferMinutes: bufferSchema.default(0),
+  minNoticeMinutes: minNoticeSchema.default(60),
+  maxPerDay: maxPerDaySchema.default(null),
+  availability: workingHoursSchema.nullable().default(null),
+  isActive: z.boolean().default(true),
+});
+
+export type CreateAppointmentTypeInput = z.infer<typeof createAppointmentTypeSchema>;
+
+export const updateAppointmentTypeSchema = z.object({
+  name: nameSchema.optional(),
+  slug: bookingSlugSchema.optional(),
+  description: descriptionSchema.optional(),
+  location: locationSchema.optional(),
+  categoryId: cuid2Schema.optional(),
+  durationMinutes: durationSchema.optional(),
+  bufferMinutes: bufferSchema.optional(),
+  minNoticeMinutes: minNoticeSchema.optional(),
+  maxPerDay: maxPerDaySchema.optional(),
+  availability: workingHoursSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateAppointmentTypeInput = z.infer<typeof updateAppointmentTypeSchema>;
+
+// ─── Public Booking ─────────────────────────────────────────────────
+
+export const bookingSlotsQuerySchema = z
+  .object({
+    start: datetimeSchema,
+    end: datetimeSchema,
+  })
+  .refine((data) => new Date(data.start) < new Date(data.end), {
+    message: 'Start date must be before end date',
+    path: ['end'],
+  })
+  .refine(
+    (data) =>
+      new Date(data.end).getTime() - new Date(data.start).getTime() <=
+      MAX_SLOTS_RANGE_DAYS * DAY_MS,
+    {
+      message: `Range must be at most ${MAX_SLOTS_RANGE_DAYS} days`,
+      path: ['end'],
+    },
+  );
+
+export type BookingSlotsQuery = z.infer<typeof bookingSlotsQuerySchema>;
+
+export const createBookingSchema = z.object({
+  startAt: datetimeSchema,
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(200, 'Name must be at most 200 characters'),
+  email: z
+    .string()
+    .trim()
+    .email('Invalid email address')
+    .max(254, 'Email must be at most 254 characters')
+    .transform((e) => e.toLowerCase()),
+  notes: z.string().trim().max(2000, 'Notes must be at most 2000 characters').nullable().optional(),
+  /** The visitor's timezone, used for times in their confirmation email */
+  timezone: timezoneSchema.optional(),
+});
+
+export type CreateBookingInput = z.infer<typeof createBookingSchema>;
+
+export const rescheduleBookingSchema = z.object({
+  startAt: datetimeSchema,
+});
+
+export type RescheduleBookingInput = z.infer<typeof rescheduleBookingSchema>;
+
+// ─── Param Schemas ──────────────────────────────────────────────────
+
+export const appointmentTypeIdParamSchema = z.object({
+  id: cuid2Schema,
+});
+
+export const bookingSlugParamSchema = z.object({
+  slug: bookingSlugSchema,
+});
+
+/** Booking tokens are 256-bit random values encoded as 64 hex characters */
+export const bookingTokenParamSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid booking token'),
+});
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+import { cuid2Schema } from './common.schema';
+
+// ─── Enums ──────────────────────────────────────────────────────────
+
+/**
+ * What a member can do with a shared calendar:
+ * - `freebusy`: see when events happen, but not what they are
+ * - `read`: see full event details
+ * - `edit`: see, create, change and delete events
+ */
+export const calendarSharePermissionSchema = z.enum(['freebusy', 'read', 'edit']);
+
+export type CalendarSharePermission = z.infer<typeof calendarSharePermissionSchema>;
+
+// ─── Share Calendar ─────────────────────────────────────────────────
+
+export const createCalendarShareSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .email('Invalid email address')
+    .max(254, 'Email must be at most 254 characters')
+    .transform((e) => e.toLowerCase()),
+  permission: calendarSharePermissionSchema,
+});
+
+export type CreateCalendarShareInput = z.infer<typeof createCalendarShareSchema>;
+
+// ─── Update Share ───────────────────────────────────────────────────
+
+export const updateCalendarShareSchema = z.object({
+  permission: calendarSharePermissionSchema,
+});
+
+export type UpdateCalendarShareInput = z.infer<typeof updateCalendarShareSchema>;
+
+// ─── Param Schemas ──────────────────────────────────────────────────
+
+export const calendarShareParamSchema = z.object({
+  id: cuid2Schema,
+  shareId: cuid2Schema,
+});
+
+export const sharedCalendarParamSchema = z.object({
+  shareId: cuid2Schema,
+});
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import { HOLIDAY_CALENDARS } from '../constants/holidays';
+
 // ─── Regex Patterns ─────────────────────────────────────────────────
 
 /** CUID2 pattern: lowercase alphanumeric, typically 24-32 chars */
@@ -36,6 +38,11 @@ export const timezoneSchema = z
     { message: 'Invalid IANA timezone' },
   );
 
+/** Time of day as `HH:mm` (24-hour), with `24:00` for the end of the day */
+export const timeOfDaySchema = z
+  .string()
+  .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Time must be in HH:mm format');
+
 // ─── Pagination ─────────────────────────────────────────────────────
 
 export const paginationSchema = z.object({
@@ -70,3 +77,7 @@ export type EditScope = z.infer<typeof editScopeSchema>;
 export const visibilitySchema = z.enum(['public', 'private']);
 
 export type Visibility = z.infer<typeof visibilitySchema>;
+
+// ─── Holiday Calendar ───────────────────────────────────────────────
+
+export const holidayCalendarSchema = z.enum(HOLIDAY_CALENDARS);
@@ -5,8 +5,20 @@ import {
   datetimeSchema,
   editScopeSchema,
   hexColorSchema,
+  holidayCalendarSchema,
+  timezoneSchema,
   visibilitySchema,
 } from './common.schema';
+import { tagIdsQuerySchema, tagIdsSchema } from './tag.schema';
+
+// ─── Recurrence ─────────────────────────────────────────────────────
+
+/** Most extra dates a recurring event can carry */
+export const MAX_RDATES = 100;
+
+const rDatesSchema = z
+  .array(datetimeSchema)
+  .max(MAX_RDATES, `At most ${MAX_RDATES} extra dates are allowed`);
 
 // ─── Create Event ───────────────────────────────────────────────────
 
@@ -25,11 +37,22 @@ export const createEventSchema = z
     location: z.string().max(500, 'Location must be at most 500 characters').nullable().optional(),
     startAt: datetimeSchema,
     endAt: datetimeSchema,
+    /** IANA timezone the start (and recurrence) is defined in; null = UTC */
+    timezone: timezoneSchema.nullable().optional(),
+    /** Timezone of the end time when it differs from the start's */
+    endTimezone: timezoneSchema.nullable().optional(),
     isAllDay: z.boolean().default(false),
     categoryId: cuid2Schema,
     color: hexColorSchema.nullable().optional(),
     visibility: visibilitySchema.default('private'),
     rrule: z.string().max(500).nullable().optional(),
+    /** Extra occurrences of a recurring event outside its rule (RDATE) */
+    rDates: rDatesSchema.optional(),
+    /** Holiday calendar whose holidays the series skips */
+    skipHolidays: holidayCalendarSchema.nullable().optional(),
+    tagIds: tagIdsSchema.optional(),
+    /** Makes the event a focus block time-blocked for this task */
+    taskId: cuid2Schema.optional(),
     reminder: z
       .object({
         minutesBefore: z.number().int().min(0).max(40320), // max 4 weeks
@@ -47,7 +70,23 @@ export const createEventSchema = z
       message: 'End time must be after start time',
       path: ['endAt'],
     },
-  );
+  )
+  .refine((data) => !data.endTimezone || !!data.timezone, {
+    message: 'An end timezone requires a start timezone',
+    path: ['endTimezone'],
+  })
+  .refine((data) => !data.rDates?.length || !!data.rrule, {
+    message: 'Extra dates need a recurrence rule',
+    path: ['rDates'],
+  })
+  .refine((data) => !data.skipHolidays || !!data.rrule, {
+    message: 'Skipping holidays needs a recurrence rule',
+    path: ['skipHolidays'],
+  })
+  .refine((data) => !data.taskId || (!data.rrule && !data.isAllDay), {
+    message: 'A focus block must be a single timed event',
+    path: ['taskId'],
+  });
 
 export type CreateEventInput = z.infer<typeof createEventSchema>;
 
@@ -69,11 +108,16 @@ export const updateEventSchema = z
     location: z.string().max(500, 'Location must be at most 500 characters').nullable().optional(),
     startAt: datetimeSchema.optional(),
     endAt: datetimeSchema.optional(),
+    timezone: timezoneSchema.nullable().optional(),
+    endTimezone: timezoneSchema.nullable().optional(),
     isAllDay: z.boolean().optional(),
     categoryId: cuid2Schema.optional(),
     color: hexColorSchema.nullable().optional(),
     visibility: visibilitySchema.optional(),
     rrule: z.string().max(500).nullable().optional(),
+    rDates: rDatesSchema.optional(),
+    skipHolidays: holidayCalendarSchema.nullable().optional(),
+    tagIds: tagIdsSchema.optional(),
   })
   .refine(
     (data) => {
@@ -99,6 +143,7 @@ export const listEventsQuerySchema = z.object({
     .transform((val) => val.split(',').filter(Boolean))
     .pipe(z.array(cuid2Schema))
     .optional(),
+  tagIds: tagIdsQuerySchema.optional(),
 });
 
 export type ListEventsQuery = z.infer<typeof listEventsQuerySchema>;
@@ -112,6 +157,37 @@ export const eventIdParamSchema = z.object({
 export const eventScopeQuerySchema = z.object({
   scope: editScopeSchema.optional(),
   instanceDate: datetimeSchema.optional(),
+  /** With scope 'all', also apply the edit to the other segments of a split series */
+  allSegments: z
+    .enum(['true', 'false'])
+    .transform((val) => val === 'true')
+    .optional(),
 });
 
 export type EventScopeQuery = z.infer<typeof eventScopeQuerySchema>;
+
+// ─── Recurrence Preview ─────────────────────────────────────────────
+
+export const recurrencePreviewSchema = z.object({
+  rrule: z.string().min(1).max(500),
+  startAt: datetimeSchema,
+  /** Timezone the rule is expanded in, so occurrences keep their local time */
+  timezone: timezoneSchema.nullable().optional(),
+  isAllDay: z.boolean().default(false),
+  rDates: rDatesSchema.default([]),
+  exDates: z.array(datetimeSchema).max(1000).default([]),
+  skipHolidays: holidayCalendarSchema.nullable().optional(),
+  count: z.number().int().min(1).max(50).default(10),
+  /** A saved series whose exception overrides are shown on its occurrences */
+  eventId: cuid2Schema.optional(),
+});
+
+export type RecurrencePreviewInput = z.infer<typeof recurrencePreviewSchema>;
+
+// ─── Restore Instance ───────────────────────────────────────────────
+
+export const restoreInstanceSchema = z.object({
+  instanceDate: datetimeSchema,
+});
+
+export type RestoreInstanceInput = z.infer<typeof restoreInstanceSchema>;
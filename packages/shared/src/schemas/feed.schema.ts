@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+import { cuid2Schema } from './common.schema';
+
+// ─── Create Calendar Feed ───────────────────────────────────────────
+
+export const createCalendarFeedSchema = z.object({
+  // null = a single feed covering every calendar the user owns
+  categoryId: cuid2Schema.nullable().default(null),
+});
+
+export type CreateCalendarFeedInput = z.infer<typeof createCalendarFeedSchema>;
+
+// ─── Param Schemas ──────────────────────────────────────────────────
+
+export const calendarFeedIdParamSchema = z.object({
+  id: cuid2Schema,
+});
+
+/** Feed tokens are 256-bit random values encoded as 64 hex characters */
+export const calendarFeedTokenParamSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid feed token'),
+});
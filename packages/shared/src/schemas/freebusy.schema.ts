@@ -0,0 +1,102 @@
+import { z } from 'zod';
+
+import { datetimeSchema } from './common.schema';
+import { workingHoursRangeSchema } from './working-hours.schema';
+
+/** Longest range a single free/busy query may cover */
+const MAX_FREEBUSY_RANGE_DAYS = 90;
+
+/** Most people a single free/busy query may ask about */
+const MAX_FREEBUSY_USERS = 20;
+
+/** Longest range a find-a-time search may cover */
+const MAX_FIND_TIME_RANGE_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emailSchema = z
+  .string()
+  .trim()
+  .email('Invalid email address')
+  .max(254, 'Email must be at most 254 characters')
+  .transform((e) => e.toLowerCase());
+
+// ─── Free/Busy Query ────────────────────────────────────────────────
+
+export const freeBusyFormatSchema = z.enum(['json', 'ics']);
+
+export type FreeBusyFormat = z.infer<typeof freeBusyFormatSchema>;
+
+export const freeBusyQuerySchema = z
+  .object({
+    start: datetimeSchema,
+    end: datetimeSchema,
+    emails: z
+      .array(emailSchema)
+      .min(1, 'At least one email is required')
+      .max(MAX_FREEBUSY_USERS, `At most ${MAX_FREEBUSY_USERS} people per query`),
+    format: freeBusyFormatSchema.default('json'),
+  })
+  .refine((data) => new Date(data.start) < new Date(data.end), {
+    message: 'Start date must be before end date',
+    path: ['end'],
+  })
+  .refine(
+    (data) =>
+      new Date(data.end).getTime() - new Date(data.start).getTime() <=
+      MAX_FREEBUSY_RANGE_DAYS * DAY_MS,
+    {
+      message: `Range must be at most ${MAX_FREEBUSY_RANGE_DAYS} days`,
+      path: ['end'],
+    },
+  );
+
+export type FreeBusyQuery = z.infer<typeof freeBusyQuerySchema>;
+
+// ─── Find a Time ────────────────────────────────────────────────────
+
+/**
+ * Search for meeting times that suit the requester and everyone in
+ * `emails`. Without a range, the search covers the rest of the
+ * requester's current week and all of the next one. Without
+ * `workingHours`, each person's own working hours apply; a window given
+ * here applies to everyone, on weekdays unless `includeWeekends` is set.
+ */
+export const findTimeSchema = z
+  .object({
+    emails: z
+      .array(emailSchema)
+      .max(MAX_FREEBUSY_USERS, `At most ${MAX_FREEBUSY_USERS} people per query`)
+      .default([]),
+    durationMinutes: z
+      .number()
+      .int()
+      .min(15, 'Duration must be at least 15 minutes')
+      .max(480, 'Duration must be at most 8 hours'),
+    start: datetimeSchema.optional(),
+    end: datetimeSchema.optional(),
+    workingHours: workingHoursRangeSchema.optional(),
+    includeWeekends: z.boolean().default(false),
+    limit: z.number().int().min(1).max(20).default(5),
+  })
+  .refine((data) => !data.start === !data.end, {
+    message: 'Provide both start and end, or neither',
+    path: ['end'],
+  })
+  .refine((data) => !data.start || !data.end || new Date(data.start) < new Date(data.end), {
+    message: 'Start date must be before end date',
+    path: ['end'],
+  })
+  .refine(
+    (data) =>
+      !data.start ||
+      !data.end ||
+      new Date(data.end).getTime() - new Date(data.start).getTime() <=
+        MAX_FIND_TIME_RANGE_DAYS * DAY_MS,
+    {
+      message: `Range must be at most ${MAX_FIND_TIME_RANGE_DAYS} days`,
+      path: ['end'],
+    },
+  );
+
+export type FindTimeInput = z.infer<typeof findTimeSchema>;
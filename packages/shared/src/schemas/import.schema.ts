@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+import { cuid2Schema } from './common.schema';
+
+// ─── Import ICS ─────────────────────────────────────────────────────
+
+export const importIcsSchema = z.object({
+  categoryId: cuid2Schema,
+  content: z
+    .string()
+    .min(1, 'Calendar file is empty')
+    .max(2_000_000, 'Calendar file must be at most 2 MB'),
+  // Dry runs return the report without writing anything
+  dryRun: z.boolean().default(true),
+});
+
+export type ImportIcsInput = z.infer<typeof importIcsSchema>;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+import { MAX_TAGS_PER_ITEM } from '../constants/colors';
+import { cuid2Schema, hexColorSchema } from './common.schema';
+
+// ─── Param Schemas ──────────────────────────────────────────────────
+
+export const tagIdParamSchema = z.object({
+  id: cuid2Schema,
+});
+
+// ─── Item Type ──────────────────────────────────────────────────────
+
+export const tagItemTypeSchema = z.enum(['event', 'task']);
+
+// ─── Item Tags ──────────────────────────────────────────────────────
+
+/** The full set of tags on an event or task; replaces any previous set */
+export const tagIdsSchema = z
+  .array(cuid2Schema)
+  .max(MAX_TAGS_PER_ITEM, `At most ${MAX_TAGS_PER_ITEM} tags per item`);
+
+/** Comma-separated tag IDs in a list query; matches items with any of them */
+export const tagIdsQuerySchema = z
+  .string()
+  .transform((val) => val.split(',').filter(Boolean))
+  .pipe(z.array(cuid2Schema));
+
+// ─── Create Tag ─────────────────────────────────────────────────────
+
+export const createTagSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name must be at most 50 characters'),
+  color: hexColorSchema,
+});
+
+export type CreateTagInput = z.infer<typeof createTagSchema>;
+
+// ─── Update Tag ─────────────────────────────────────────────────────
+
+export const updateTagSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be at most 50 characters')
+    .optional(),
+  color: hexColorSchema.optional(),
+});
+
+export type UpdateTagInput = z.infer<typeof updateTagSchema>;
+export type TagItemType = z.infer<typeof tagItemTypeSchema>;
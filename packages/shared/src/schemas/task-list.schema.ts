@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+import { MAX_CATEGORIES_PER_USER } from '../constants/colors';
+import { cuid2Schema, datetimeSchema } from './common.schema';
+import { tagIdsSchema } from './tag.schema';
+import { taskPrioritySchema, taskStatusSchema } from './task.schema';
+
+// ─── Param Schemas ──────────────────────────────────────────────────
+
+export const taskListIdParamSchema = z.object({
+  id: cuid2Schema,
+});
+
+// ─── Filters ────────────────────────────────────────────────────────
+
+/** The filter combination a saved list applies to the task list */
+export const taskListFiltersSchema = z
+  .object({
+    status: z.array(taskStatusSchema).optional(),
+    priority: z.array(taskPrioritySchema).optional(),
+    dueStart: datetimeSchema.optional(),
+    dueEnd: datetimeSchema.optional(),
+    categoryIds: z.array(cuid2Schema).max(MAX_CATEGORIES_PER_USER).optional(),
+    tagIds: tagIdsSchema.optional(),
+  })
+  .refine(
+    (data) => !data.dueStart || !data.dueEnd || new Date(data.dueStart) <= new Date(data.dueEnd),
+    {
+      message: 'Start date must be before end date',
+      path: ['dueEnd'],
+    },
+  );
+
+export type TaskListFilters = z.infer<typeof taskListFiltersSchema>;
+
+// ─── Create Task List ───────────────────────────────────────────────
+
+const taskListNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(50, 'Name must be at most 50 characters');
+
+export const createTaskListSchema = z.object({
+  name: taskListNameSchema,
+  filters: taskListFiltersSchema,
+});
+
+export type CreateTaskListInput = z.infer<typeof createTaskListSchema>;
+
+// ─── Update Task List ───────────────────────────────────────────────
+
+export const updateTaskListSchema = z.object({
+  name: taskListNameSchema.optional(),
+  filters: taskListFiltersSchema.optional(),
+});
+
+export type UpdateTaskListInput = z.infer<typeof updateTaskListSchema>;
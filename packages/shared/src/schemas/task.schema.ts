@@ -1,11 +1,40 @@
 import { z } from 'zod';
 
+import { SMART_LISTS } from '../constants/task-lists';
 import { cuid2Schema, datetimeSchema, editScopeSchema } from './common.schema';
+import { tagIdsQuerySchema, tagIdsSchema } from './tag.schema';
 
 // ─── Priority & Status Enums ────────────────────────────────────────
 
 export const taskPrioritySchema = z.enum(['none', 'low', 'medium', 'high']);
 export const taskStatusSchema = z.enum(['todo', 'in_progress', 'done']);
+export const smartListSchema = z.enum(SMART_LISTS);
+
+/** Estimated effort in minutes, up to a week */
+const estimatedMinutesSchema = z
+  .number()
+  .int()
+  .min(1, 'Estimate must be at least 1 minute')
+  .max(10080, 'Estimate must be at most 1 week');
+
+/** Most tasks a single task can wait on */
+const MAX_BLOCKERS_PER_TASK = 20;
+
+/** The full set of tasks a task waits on; replaces any previous set */
+const blockedByIdsSchema = z
+  .array(cuid2Schema)
+  .max(MAX_BLOCKERS_PER_TASK, `A task can wait on at most ${MAX_BLOCKERS_PER_TASK} tasks`);
+
+/**
+ * Repeat a set time after each completion instead of on a fixed schedule,
+ * written as the FREQ and INTERVAL parts of an RRULE (e.g. FREQ=DAILY;INTERVAL=3)
+ */
+export const repeatAfterSchema = z
+  .string()
+  .regex(
+    /^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;INTERVAL=[1-9]\d?)?$/,
+    'Repeat interval must be a FREQ with an optional INTERVAL of 1 to 99',
+  );
 
 // ─── Create Task ────────────────────────────────────────────────────
 
@@ -22,8 +51,14 @@ export const createTaskSchema = z.object({
     .optional(),
   dueAt: datetimeSchema.nullable().optional(),
   priority: taskPrioritySchema.default('none'),
+  estimatedMinutes: estimatedMinutesSchema.nullable().optional(),
   categoryId: cuid2Schema,
   rrule: z.string().max(500).nullable().optional(),
+  repeatAfter: repeatAfterSchema.nullable().optional(),
+  /** Makes the task a subtask of another task */
+  parentTaskId: cuid2Schema.nullable().optional(),
+  tagIds: tagIdsSchema.optional(),
+  blockedByIds: blockedByIdsSchema.optional(),
   reminder: z
     .object({
       minutesBefore: z.number().int().min(0).max(40320),
@@ -52,8 +87,14 @@ export const updateTaskSchema = z.object({
   dueAt: datetimeSchema.nullable().optional(),
   priority: taskPrioritySchema.optional(),
   status: taskStatusSchema.optional(),
+  estimatedMinutes: estimatedMinutesSchema.nullable().optional(),
   categoryId: cuid2Schema.optional(),
   rrule: z.string().max(500).nullable().optional(),
+  repeatAfter: repeatAfterSchema.nullable().optional(),
+  /** Move the task under another task, or to the top level with null */
+  parentTaskId: cuid2Schema.nullable().optional(),
+  tagIds: tagIdsSchema.optional(),
+  blockedByIds: blockedByIdsSchema.optional(),
 });
 
 export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
@@ -73,6 +114,15 @@ export const listTasksQuerySchema = z.object({
     .optional(),
   dueStart: datetimeSchema.optional(),
   dueEnd: datetimeSchema.optional(),
+  tagIds: tagIdsQuerySchema.optional(),
+  /** Comma-separated category IDs; matches tasks in any of them */
+  categoryIds: z
+    .string()
+    .transform((val) => val.split(',').filter(Boolean))
+    .pipe(z.array(cuid2Schema))
+    .optional(),
+  /** One of the built-in smart lists, worked out in the user's timezone */
+  list: smartListSchema.optional(),
   sort: z.enum(['due_at', 'sort_order', 'priority', 'created_at']).default('sort_order'),
 });
 
@@ -91,6 +141,18 @@ export const taskScopeQuerySchema = z.object({
 
 export type TaskScopeQuery = z.infer<typeof taskScopeQuerySchema>;
 
+// ─── Toggle Task ────────────────────────────────────────────────────
+
+// The body is optional: a bare toggle changes just the task itself
+export const toggleTaskSchema = z
+  .object({
+    /** When completing a task, also complete its open subtasks */
+    completeSubtasks: z.boolean().default(false),
+  })
+  .default({ completeSubtasks: false });
+
+export type ToggleTaskInput = z.infer<typeof toggleTaskSchema>;
+
 // ─── Reorder Tasks ──────────────────────────────────────────────────
 
 export const reorderTasksSchema = z.object({
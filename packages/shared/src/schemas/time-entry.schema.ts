@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+import { cuid2Schema, datetimeSchema } from './common.schema';
+
+/** Longest range a single time report may cover */
+const MAX_TIME_REPORT_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Param Schemas ──────────────────────────────────────────────────
+
+export const timeEntryIdParamSchema = z.object({
+  id: cuid2Schema,
+});
+
+// ─── Create Time Entry ──────────────────────────────────────────────
+
+/** A session logged by hand rather than with the timer */
+export const createTimeEntrySchema = z
+  .object({
+    taskId: cuid2Schema,
+    startedAt: datetimeSchema,
+    endedAt: datetimeSchema,
+  })
+  .refine((data) => new Date(data.startedAt) < new Date(data.endedAt), {
+    message: 'End time must be after start time',
+    path: ['endedAt'],
+  });
+
+export type CreateTimeEntryInput = z.infer<typeof createTimeEntrySchema>;
+
+// ─── Update Time Entry ──────────────────────────────────────────────
+
+export const updateTimeEntrySchema = z
+  .object({
+    startedAt: datetimeSchema.optional(),
+    endedAt: datetimeSchema.optional(),
+  })
+  .refine(
+    (data) => !data.startedAt || !data.endedAt || new Date(data.startedAt) < new Date(data.endedAt),
+    {
+      message: 'End time must be after start time',
+      path: ['endedAt'],
+    },
+  );
+
+export type UpdateTimeEntryInput = z.infer<typeof updateTimeEntrySchema>;
+
+// ─── Time Report Query ──────────────────────────────────────────────
+
+export const timeReportQuerySchema = z
+  .object({
+    start: datetimeSchema,
+    end: datetimeSchema,
+    /** Only count time logged against tasks in this category */
+    categoryId: cuid2Schema.optional(),
+  })
+  .refine((data) => new Date(data.start) < new Date(data.end), {
+    message: 'Start date must be before end date',
+    path: ['end'],
+  })
+  .refine(
+    (data) =>
+      new Date(data.end).getTime() - new Date(data.start).getTime() <=
+      MAX_TIME_REPORT_RANGE_DAYS * DAY_MS,
+    {
+      message: `Range must be at most ${MAX_TIME_REPORT_RANGE_DAYS} days`,
+      path: ['end'],
+    },
+  );
+
+export type TimeReportQuery = z.infer<typeof timeReportQuerySchema>;
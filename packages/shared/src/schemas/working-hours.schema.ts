@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+import { timeOfDaySchema, timezoneSchema } from './common.schema';
+
+/** Most separate working periods on a single day */
+const MAX_RANGES_PER_DAY = 4;
+
+// ─── Working Hours ──────────────────────────────────────────────────
+
+export const workingHoursRangeSchema = z
+  .object({
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  })
+  .refine((data) => data.start < data.end, {
+    message: 'Working hours must end after they start',
+    path: ['end'],
+  });
+
+export type WorkingHoursRange = z.infer<typeof workingHoursRangeSchema>;
+
+/**
+ * When someone works, as time ranges per weekday. `days[0]` is Sunday,
+ * matching `weekStart` and `Date#getDay()`. A null `timezone` means the
+ * hours follow the user's profile timezone.
+ */
+export const workingHoursSchema = z.object({
+  timezone: timezoneSchema.nullable(),
+  days: z
+    .array(
+      z
+        .array(workingHoursRangeSchema)
+        .max(MAX_RANGES_PER_DAY, `At most ${MAX_RANGES_PER_DAY} ranges per day`)
+        .refine(
+          (ranges) => {
+            const sorted = [...ranges].sort((a, b) => a.start.localeCompare(b.start));
+            return sorted.every((range, i) => i === 0 || sorted[i - 1].end <= range.start);
+          },
+          { message: 'Working hours on the same day must not overlap' },
+        ),
+    )
+    .length(7, 'Working hours need an entry for each day of the week'),
+});
+
+export type WorkingHours = z.infer<typeof workingHoursSchema>;
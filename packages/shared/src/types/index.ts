@@ -1,6 +1,11 @@
 // Re-export all types inferred from Zod schemas.
 // These are the canonical TypeScript types used across frontend and backend.
 
+import type { HolidayCalendar } from '../constants/holidays';
+import type { SmartList } from '../constants/task-lists';
+import type { TaskListFilters } from '../schemas/task-list.schema';
+import type { WorkingHours } from '../schemas/working-hours.schema';
+
 // ─── Common ─────────────────────────────────────────────────────────
 
 export type {
@@ -28,9 +33,21 @@ export type {
   CreateEventInput,
   EventScopeQuery,
   ListEventsQuery,
+  RecurrencePreviewInput,
+  RestoreInstanceInput,
   UpdateEventInput,
 } from '../schemas/event.schema';
 
+// ─── Attendees ──────────────────────────────────────────────────────
+
+export type {
+  AddAttendeeInput,
+  AttendeeRole,
+  AttendeeStatus,
+  RsvpResponseInput,
+  UpdateAttendeeInput,
+} from '../schemas/attendee.schema';
+
 // ─── Tasks ──────────────────────────────────────────────────────────
 
 export type {
@@ -40,6 +57,7 @@ export type {
   ListTasksQuery,
   ReorderTasksInput,
   TaskScopeQuery,
+  ToggleTaskInput,
   UpdateTaskInput,
 } from '../schemas/task.schema';
 
@@ -47,6 +65,36 @@ export type {
 
 export type { CreateCategoryInput, UpdateCategoryInput } from '../schemas/category.schema';
 
+// ─── Tags ───────────────────────────────────────────────────────────
+
+export type { CreateTagInput, TagItemType, UpdateTagInput } from '../schemas/tag.schema';
+
+// ─── Calendar Sharing ───────────────────────────────────────────────
+
+export type {
+  CalendarSharePermission,
+  CreateCalendarShareInput,
+  UpdateCalendarShareInput,
+} from '../schemas/calendar-share.schema';
+
+// ─── Free/Busy ──────────────────────────────────────────────────────
+
+export type { FindTimeInput, FreeBusyFormat, FreeBusyQuery } from '../schemas/freebusy.schema';
+
+// ─── Booking Pages ──────────────────────────────────────────────────
+
+export type {
+  BookingSlotsQuery,
+  CreateAppointmentTypeInput,
+  CreateBookingInput,
+  RescheduleBookingInput,
+  UpdateAppointmentTypeInput,
+} from '../schemas/booking.schema';
+
+// ─── Working Hours ──────────────────────────────────────────────────
+
+export type { WorkingHours, WorkingHoursRange } from '../schemas/working-hours.schema';
+
 // ─── Reminders ──────────────────────────────────────────────────────
 
 export type { CreateReminderInput, ListRemindersQuery } from '../schemas/reminder.schema';
@@ -59,6 +107,34 @@ export type { CreatePushSubscriptionInput } from '../schemas/push-subscription.s
 
 export type { SearchQuery } from '../schemas/search.schema';
 
+// ─── Calendar Feeds ─────────────────────────────────────────────────
+
+export type { CreateCalendarFeedInput } from '../schemas/feed.schema';
+
+// ─── App Passwords ──────────────────────────────────────────────────
+
+export type { CreateAppPasswordInput } from '../schemas/app-password.schema';
+
+// ─── Import ─────────────────────────────────────────────────────────
+
+export type { ImportIcsInput } from '../schemas/import.schema';
+
+// ─── Task Lists ─────────────────────────────────────────────────────
+
+export type {
+  CreateTaskListInput,
+  TaskListFilters,
+  UpdateTaskListInput,
+} from '../schemas/task-list.schema';
+
+// ─── Time Tracking ──────────────────────────────────────────────────
+
+export type {
+  CreateTimeEntryInput,
+  TimeReportQuery,
+  UpdateTimeEntryInput,
+} from '../schemas/time-entry.schema';
+
 // ─── Domain Entity Types (API response shapes) ──────────────────────
 // These represent the full entity shapes returned from the API.
 // They are NOT inferred from create/update schemas but defined to match
@@ -72,6 +148,12 @@ export interface User {
   timezone: string;
   weekStart: 0 | 1;
   timeFormat: '12h' | '24h';
+  /** Effective working hours — the defaults if the user hasn't set any */
+  workingHours: WorkingHours;
+  /** Refuse to start or finish a task while it has open blockers */
+  enforceTaskDependencies: boolean;
+  /** Built-in holiday calendars shown on the user's calendar */
+  holidayCalendars: HolidayCalendar[];
   createdAt: string;
   updatedAt: string;
 }
@@ -85,13 +167,32 @@ export interface Event {
   location: string | null;
   startAt: string;
   endAt: string;
+  /** IANA timezone the event's wall-clock times are defined in (null = UTC) */
+  timezone: string | null;
+  /** Timezone of the end time when it differs from `timezone` */
+  endTimezone: string | null;
   isAllDay: boolean;
   color: string | null;
   visibility: 'public' | 'private';
   rrule: string | null;
   exDates: string[];
+  /** Extra occurrences outside the rule (RDATE) */
+  rDates: string[];
+  /** Holiday calendar whose holidays the series skips */
+  skipHolidays: HolidayCalendar | null;
+  /**
+   * Set once a series has been split by a "this and following" edit: the
+   * ID of its first segment, shared by every segment split off from it
+   */
+  seriesId: string | null;
   recurringEventId: string | null;
   originalDate: string | null;
+  /** The requesting user's own tags on the event */
+  tagIds: string[];
+  /** Set on focus blocks: the task the time was blocked out for */
+  taskId: string | null;
+  /** Set on focus blocks while their task is done */
+  completedAt: string | null;
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
@@ -100,6 +201,88 @@ export interface Event {
   instanceDate?: string;
 }
 
+/** One occurrence of a series, as the server expands it */
+export interface SeriesOccurrence {
+  /** Start under the rule; the instanceDate used to edit or skip it */
+  date: string;
+  /** Left out of the series, through exDates or a skipped holiday */
+  skipped: boolean;
+  /** The skipped holiday it falls on, or null */
+  holiday: string | null;
+  /** Fields an exception changes on this occurrence, or null */
+  overrides: Record<string, unknown> | null;
+}
+
+/** The next start times of a recurrence rule, as computed by the server */
+export interface RecurrencePreview {
+  occurrences: string[];
+  /** The same occurrences with skipped ones kept in and overrides attached */
+  instances: SeriesOccurrence[];
+}
+
+/** One part of a series split by "this and following" edits */
+export interface SeriesSegment {
+  id: string;
+  title: string;
+  startAt: string;
+  rrule: string | null;
+  /** Where the segment's rule stops, if it does */
+  until: string | null;
+  /** Whether it still carries on the segment before it and can be merged back into it */
+  mergeable: boolean;
+}
+
+export interface EventAttendee {
+  id: string;
+  eventId: string;
+  email: string;
+  name: string | null;
+  role: 'required' | 'optional';
+  status: 'needs_action' | 'accepted' | 'declined' | 'tentative';
+  respondedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * What the public RSVP page shows an invitee. Only the fields needed to
+ * recognise the invitation are exposed.
+ */
+export interface RsvpInvitation {
+  event: {
+    title: string;
+    location: string | null;
+    startAt: string;
+    endAt: string;
+    timezone: string | null;
+    isAllDay: boolean;
+    rrule: string | null;
+  };
+  organizer: { name: string; email: string };
+  attendee: { email: string; name: string | null; status: EventAttendee['status'] };
+}
+
+export interface TaskSubtaskProgress {
+  total: number;
+  done: number;
+}
+
+/** A task that has to be finished before the task it blocks */
+export interface TaskBlocker {
+  id: string;
+  title: string;
+  status: 'todo' | 'in_progress' | 'done';
+}
+
+/** One completion of a task that repeats after completion */
+export interface TaskCompletion {
+  id: string;
+  taskId: string;
+  completedAt: string;
+  /** When the task was due at the time it was completed */
+  dueAt: string | null;
+}
+
 export interface Task {
   id: string;
   userId: string;
@@ -110,10 +293,24 @@ export interface Task {
   priority: 'none' | 'low' | 'medium' | 'high';
   status: 'todo' | 'in_progress' | 'done';
   completedAt: string | null;
+  estimatedMinutes: number | null;
   rrule: string | null;
+  /** Set instead of rrule when the task comes back a set time after each completion */
+  repeatAfter: string | null;
   exDates: string[];
   recurringTaskId: string | null;
   originalDate: string | null;
+  /** Set on subtasks */
+  parentTaskId: string | null;
+  /** Roll-up over all subtasks, nested ones included */
+  subtaskProgress: TaskSubtaskProgress;
+  tagIds: string[];
+  /** Tasks this one waits on; it counts as blocked while any is open */
+  blockedBy: TaskBlocker[];
+  /** Start of the task's focus block on the calendar, if it has one */
+  scheduledAt: string | null;
+  /** Set once a done task is archived: it drops out of task lists but stays in history */
+  archivedAt: string | null;
   sortOrder: number;
   createdAt: string;
   updatedAt: string;
@@ -123,6 +320,108 @@ export interface Task {
   instanceDate?: string;
 }
 
+/** A named filter combination the user saved for the task list */
+export interface TaskList {
+  id: string;
+  userId: string;
+  name: string;
+  filters: TaskListFilters;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** How many open tasks each smart list holds */
+export type SmartListCounts = Record<SmartList, number>;
+
+/** One page of done tasks, most recently completed first */
+export interface CompletedTasksPage {
+  tasks: Task[];
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+}
+
+// ─── Trash ──────────────────────────────────────────────────────────
+
+/** A deleted event waiting in the trash */
+export interface TrashedEvent {
+  id: string;
+  title: string;
+  categoryId: string;
+  startAt: string;
+  isAllDay: boolean;
+  rrule: string | null;
+  deletedAt: string;
+  /** When the cleanup job removes it for good */
+  purgeAt: string;
+}
+
+/** A deleted task waiting in the trash, with the subtasks deleted alongside it */
+export interface TrashedTask {
+  id: string;
+  title: string;
+  categoryId: string;
+  dueAt: string | null;
+  status: 'todo' | 'in_progress' | 'done';
+  rrule: string | null;
+  deletedAt: string;
+  /** When the cleanup job removes it for good */
+  purgeAt: string;
+}
+
+export interface Trash {
+  events: TrashedEvent[];
+  tasks: TrashedTask[];
+}
+
+/** A session of work on a task, from the timer or logged by hand */
+export interface TimeEntry {
+  id: string;
+  userId: string;
+  taskId: string;
+  startedAt: string;
+  /** Null while the timer is running */
+  endedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TimeReportCategory {
+  categoryId: string;
+  minutes: number;
+}
+
+export interface TimeReportTask {
+  taskId: string;
+  title: string;
+  categoryId: string;
+  minutes: number;
+}
+
+/**
+ * Time logged within a range. Sessions that straddle the range are clipped
+ * to it and a running timer counts up to now. Both lists are sorted by
+ * most time first.
+ */
+export interface TimeReport {
+  start: string;
+  end: string;
+  totalMinutes: number;
+  categories: TimeReportCategory[];
+  tasks: TimeReportTask[];
+}
+
+/** A user-defined label that can be put on any number of events and tasks */
+export interface Tag {
+  id: string;
+  userId: string;
+  name: string;
+  color: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface CalendarCategory {
   id: string;
   userId: string;
@@ -135,6 +434,131 @@ export interface CalendarCategory {
   updatedAt: string;
 }
 
+/** A member of one of the user's calendars, as seen by its owner */
+export interface CalendarShare {
+  id: string;
+  categoryId: string;
+  memberId: string;
+  memberEmail: string;
+  memberName: string;
+  permission: 'freebusy' | 'read' | 'edit';
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Another user's calendar that has been shared with the current user */
+export interface SharedCalendar {
+  shareId: string;
+  categoryId: string;
+  ownerId: string;
+  ownerName: string;
+  ownerEmail: string;
+  name: string;
+  color: string;
+  permission: 'freebusy' | 'read' | 'edit';
+}
+
+/**
+ * A span of time in which someone is busy. Overlapping events are merged
+ * into one interval; `titles` lists only the events the requester may see
+ * (never private ones or those in free/busy-only calendars).
+ */
+export interface FreeBusyInterval {
+  start: string;
+  end: string;
+  titles: string[];
+}
+
+export interface FreeBusyCalendar {
+  email: string;
+  name: string;
+  busy: FreeBusyInterval[];
+}
+
+export interface FreeBusyResponse {
+  start: string;
+  end: string;
+  calendars: FreeBusyCalendar[];
+}
+
+/**
+ * A suggested meeting time. `score` runs from 0 to 1: higher means earlier
+ * in the range and closer to the middle of everyone's working day.
+ */
+export interface FindTimeSlot {
+  start: string;
+  end: string;
+  score: number;
+}
+
+export interface FindTimeResponse {
+  start: string;
+  end: string;
+  /** Best first */
+  slots: FindTimeSlot[];
+}
+
+/** A kind of appointment the user offers on a public booking page */
+export interface AppointmentType {
+  id: string;
+  userId: string;
+  categoryId: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  location: string | null;
+  durationMinutes: number;
+  bufferMinutes: number;
+  minNoticeMinutes: number;
+  maxPerDay: number | null;
+  /** Null = the host's working hours */
+  availability: WorkingHours | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What a visitor to a public booking page sees */
+export interface BookingPage {
+  slug: string;
+  name: string;
+  description: string | null;
+  location: string | null;
+  durationMinutes: number;
+  host: { name: string };
+}
+
+export interface BookingSlot {
+  start: string;
+  end: string;
+}
+
+export interface BookingSlotsResponse {
+  start: string;
+  end: string;
+  slots: BookingSlot[];
+}
+
+/**
+ * A booking as its guest sees it from the link in their confirmation
+ * email.
+ */
+export interface Booking {
+  status: 'confirmed' | 'cancelled';
+  startAt: string;
+  endAt: string;
+  guest: { name: string; email: string };
+  notes: string | null;
+  /** The guest's timezone when they booked, if known */
+  timezone: string | null;
+  page: BookingPage;
+}
+
+/** Returned once, when booking: the token behind the manage link */
+export interface BookingWithToken extends Booking {
+  token: string;
+}
+
 export interface Reminder {
   id: string;
   userId: string;
@@ -183,6 +607,65 @@ export interface AuditLog {
   createdAt: string;
 }
 
+export interface CalendarFeed {
+  id: string;
+  userId: string;
+  categoryId: string | null;
+  lastAccessedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Returned only when a feed is created or rotated — the raw token is
+ * never stored and cannot be retrieved again afterwards.
+ */
+export interface CalendarFeedWithToken extends CalendarFeed {
+  token: string;
+}
+
+export interface AppPassword {
+  id: string;
+  name: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Returned only when an app password is created — the raw password is
+ * never stored and cannot be retrieved again afterwards.
+ */
+export interface AppPasswordWithSecret extends AppPassword {
+  password: string;
+}
+
+export type IcsImportItemType = 'event' | 'exception' | 'task';
+
+export type IcsImportItemStatus = 'created' | 'skipped' | 'invalid';
+
+export interface IcsImportItem {
+  uid: string | null;
+  type: IcsImportItemType;
+  title: string;
+  startAt: string | null;
+  status: IcsImportItemStatus;
+  reason: string | null;
+}
+
+/**
+ * Result of an ICS import. For dry runs, `created` items are the ones
+ * that would be created if the import were committed.
+ */
+export interface IcsImportReport {
+  dryRun: boolean;
+  categoryId: string;
+  created: number;
+  skipped: number;
+  invalid: number;
+  reminders: number;
+  items: IcsImportItem[];
+}
+
 // ─── API Error Shape ────────────────────────────────────────────────
 
 export interface ApiErrorResponse {